@@ -1,8 +1,9 @@
 "use client"
 
 import { describe, it, expect, vi, beforeEach } from "vitest"
-import { render, screen } from "@/__tests__/test-utils"
+import { render, screen, fireEvent } from "@/__tests__/test-utils"
 import { ArtifactsTabs } from "@/components/artifacts-tabs"
+import { getAllPublicArtifactsPaginated } from "@/lib/actions/artifacts"
 import { fixtures } from "@/__tests__/fixtures"
 
 // Mock next/navigation
@@ -98,9 +99,26 @@ vi.mock("@/components/login-module", () => ({
 }))
 
 vi.mock("@/components/artifacts/filter-bar", () => ({
-  FilterBar: ({ sortBy, selectedTypes, onSortChange, onTypeChange, onClearFilters, hasActiveFilters }: any) => (
+  FilterBar: ({
+    sortBy,
+    selectedTypes,
+    onSortChange,
+    onTypeChange,
+    onClearFilters,
+    hasActiveFilters,
+    searchQuery,
+    onSearchChange,
+    onSearchModeChange,
+  }: any) => (
     <div data-testid="filter-bar">
       <div data-testid="current-sort">{sortBy}</div>
+      <div data-testid="search-query">{searchQuery}</div>
+      <button data-testid="search-ferrari" onClick={() => onSearchChange("ferrari")}>
+        Search
+      </button>
+      <button data-testid="search-mode-semantic" onClick={() => onSearchModeChange("semantic")}>
+        Meaning
+      </button>
       <div data-testid="selected-types">{selectedTypes.join(",")}</div>
       <button data-testid="sort-button-newest" onClick={() => onSortChange("newest")}>
         Newest
@@ -590,6 +608,77 @@ describe("ArtifactsTabs - Filtering", () => {
     })
   })
 
+  describe("Search", () => {
+    it("should show the search empty state when a search has no results", () => {
+      render(
+        <ArtifactsTabs
+          user={null}
+          myArtifacts={[]}
+          allArtifacts={[]}
+          artifactTypes={artifactTypes}
+          initialSort="relevance"
+          initialSearch="zeppelin"
+        />,
+      )
+
+      expect(screen.getByText(/No artifacts match your search/i)).toBeInTheDocument()
+      expect(screen.getByTestId("search-query")).toHaveTextContent("zeppelin")
+      expect(screen.getByTestId("clear-filters")).toBeInTheDocument()
+    })
+
+    it("should switch to best match and keep the query in the URL when searching", () => {
+      vi.mocked(getAllPublicArtifactsPaginated).mockResolvedValue({ artifacts: [carArtifact1], hasMore: false } as any)
+
+      render(
+        <ArtifactsTabs
+          user={null}
+          myArtifacts={[]}
+          allArtifacts={allArtifacts}
+          artifactTypes={artifactTypes}
+          initialSort="newest"
+        />,
+      )
+
+      fireEvent.click(screen.getByTestId("search-ferrari"))
+
+      expect(mockPush).toHaveBeenCalledWith("/artifacts?q=ferrari", { scroll: false })
+      expect(screen.getByTestId("current-sort")).toHaveTextContent("relevance")
+      expect(getAllPublicArtifactsPaginated).toHaveBeenCalledWith(undefined, {
+        limit: 24,
+        sortBy: "relevance",
+        typeIds: undefined,
+        search: "ferrari",
+        searchMode: "keyword",
+      })
+    })
+
+    it("should search by meaning and flag it in the URL", () => {
+      vi.mocked(getAllPublicArtifactsPaginated).mockResolvedValue({ artifacts: [carArtifact1], hasMore: false } as any)
+
+      render(
+        <ArtifactsTabs
+          user={null}
+          myArtifacts={[]}
+          allArtifacts={allArtifacts}
+          artifactTypes={artifactTypes}
+          initialSort="relevance"
+          initialSearch="fast red car"
+        />,
+      )
+
+      fireEvent.click(screen.getByTestId("search-mode-semantic"))
+
+      expect(mockPush).toHaveBeenCalledWith("/artifacts?q=fast+red+car&semantic=1", { scroll: false })
+      expect(getAllPublicArtifactsPaginated).toHaveBeenCalledWith(undefined, {
+        limit: 24,
+        sortBy: "relevance",
+        typeIds: undefined,
+        search: "fast red car",
+        searchMode: "semantic",
+      })
+    })
+  })
+
   describe("View Preferences", () => {
     it("should render standard view cards by default", () => {
       render(
@@ -74,7 +74,7 @@ describe("ArtifactCard", () => {
       render(<ArtifactCard artifact={artifact} />)
 
       const link = screen.getByTestId("link")
-      expect(link).toHaveAttribute("href", `/artifacts/${artifact.slug}`)
+      expect(link).toHaveAttribute("href", `/artifacts/${artifact.id}/${artifact.slug}`)
     })
 
     it("should render thumbnail image when available", () => {
@@ -91,7 +91,7 @@ describe("CollectionCard", () => {
       render(<CollectionCard collection={collection} />)
 
       const link = screen.getByTestId("collection-link")
-      expect(link).toHaveAttribute("href", `/collections/${collection.slug}`)
+      expect(link).toHaveAttribute("href", `/collections/${collection.id}/${collection.slug}`)
     })
 
     it("should use collection ID as href when slug not provided", () => {
@@ -116,7 +116,7 @@ describe("CollectionCard", () => {
       render(<CollectionCard collection={collection} mode="mine" />)
 
       const link = screen.getByTestId("collection-link")
-      expect(link).toHaveAttribute("href", `/collections/${collection.slug}?mode=mine`)
+      expect(link).toHaveAttribute("href", `/collections/${collection.id}/${collection.slug}?mode=mine`)
     })
 
     it("should render collection description when available", () => {
@@ -435,7 +435,7 @@ describe("CollectionCard", () => {
       render(<CollectionCard collection={collection} mode="all" />)
 
       const link = screen.getByTestId("collection-link")
-      expect(link).toHaveAttribute("href", `/collections/${collection.slug}?mode=all`)
+      expect(link).toHaveAttribute("href", `/collections/${collection.id}/${collection.slug}?mode=all`)
     })
 
     it("should add 'mine' mode parameter when specified", () => {
@@ -447,7 +447,7 @@ describe("CollectionCard", () => {
       render(<CollectionCard collection={collection} mode="mine" />)
 
       const link = screen.getByTestId("collection-link")
-      expect(link).toHaveAttribute("href", `/collections/${collection.slug}?mode=mine`)
+      expect(link).toHaveAttribute("href", `/collections/${collection.id}/${collection.slug}?mode=mine`)
     })
 
     it("should not add mode parameter when undefined", () => {
@@ -459,7 +459,7 @@ describe("CollectionCard", () => {
       render(<CollectionCard collection={collection} />)
 
       const link = screen.getByTestId("collection-link")
-      expect(link).toHaveAttribute("href", `/collections/${collection.slug}`)
+      expect(link).toHaveAttribute("href", `/collections/${collection.id}/${collection.slug}`)
       expect(link.getAttribute("href")).not.toContain("?mode")
     })
   })
@@ -76,19 +76,37 @@ async function setupApiMocks(page: Page) {
     }
   })
 
-  // Mock the "Run All" orchestrator API
+  // Mock the "Run All" endpoint, which only queues a background job
   await page.route("**/api/analyze/run-all", async (route: Route) => {
     if (route.request().method() === "POST") {
+      const now = new Date().toISOString()
       await route.fulfill({
-        status: 200,
+        status: 202,
         contentType: "application/json",
         body: JSON.stringify({
           ok: true,
-          transcript: mockTranscript,
-          captions: {
-            "https://example.com/photo.jpg": mockImageCaption,
+          job: {
+            id: "00000000-0000-4000-8000-000000000001",
+            artifact_id: "00000000-0000-4000-8000-000000000002",
+            requested_by: null,
+            status: "queued",
+            steps: ["audio", "images", "summary"].map((name) => ({
+              name,
+              status: "pending",
+              attempts: 0,
+              error: null,
+              started_at: null,
+              finished_at: null,
+            })),
+            max_attempts: 3,
+            last_error: null,
+            run_after: now,
+            locked_at: null,
+            locked_by: null,
+            created_at: now,
+            updated_at: now,
+            finished_at: null,
           },
-          description: mockAiDescription,
         }),
       })
     } else {
@@ -252,18 +270,15 @@ test.describe("AI Analysis Flow", () => {
 
     await runAllButton.click()
 
-    // Wait for success notification
-    await expect(page.getByText(/Full analysis complete/i).or(page.getByText("Success"))).toBeVisible({
-      timeout: 15000,
-    })
+    // The run is queued and its progress shown while the worker runs
+    await expect(page.getByText(/Analysis queued/i)).toBeVisible({ timeout: 15000 })
+    const progress = page.getByTestId("ai-job-progress")
+    await expect(progress).toBeVisible({ timeout: 5000 })
 
-    // Verify all sections appear: Transcript, Image Captions, AI Description
-    await expect(page.getByText("Transcript")).toBeVisible({ timeout: 5000 })
-    await expect(page.getByText("Image Captions")).toBeVisible({ timeout: 5000 })
-    await expect(page.getByText("AI Description")).toBeVisible({ timeout: 5000 })
-
-    // Verify status badge shows "done"
-    await expect(page.getByText("done")).toBeVisible({ timeout: 5000 })
+    // Verify each step is listed: audio, images, description
+    await expect(progress.getByText("Transcribe audio")).toBeVisible()
+    await expect(progress.getByText("Caption images")).toBeVisible()
+    await expect(progress.getByText("Write description")).toBeVisible()
   })
 
   test("should show error when audio file is missing", async ({ page }) => {
@@ -146,6 +146,12 @@ export const fixtures = {
       icon_name: "Car",
       display_order: 1,
       is_active: true,
+      attribute_schema: [
+        { key: "make", label: "Make", kind: "text", required: true },
+        { key: "mileage", label: "Mileage", kind: "number", units: ["mi", "km"] },
+      ],
+      interview_questions: [],
+      analysis_mode: "caption",
       created_at: new Date("2024-01-01"),
       updated_at: new Date("2024-01-01"),
     },
@@ -157,6 +163,14 @@ export const fixtures = {
       icon_name: "Watch",
       display_order: 2,
       is_active: true,
+      attribute_schema: [
+        { key: "movement", label: "Movement", kind: "enum", options: ["Manual", "Automatic", "Quartz"] },
+        { key: "case_size", label: "Case Size", kind: "number", units: ["mm"] },
+        { key: "serviced_on", label: "Last Serviced", kind: "date" },
+        { key: "case_material", label: "Case Material", kind: "text" },
+      ],
+      interview_questions: [],
+      analysis_mode: "caption",
       created_at: new Date("2024-01-01"),
       updated_at: new Date("2024-01-01"),
     },
@@ -168,6 +182,9 @@ export const fixtures = {
       icon_name: "Package",
       display_order: 0,
       is_active: true,
+      attribute_schema: [],
+      interview_questions: [],
+      analysis_mode: "caption",
       created_at: new Date("2024-01-01"),
       updated_at: new Date("2024-01-01"),
     },
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { GET } from "@/app/api/analyze/jobs/[id]/events/route"
+import { createMemoryRateLimitStore, setRateLimitStore } from "@/lib/rate-limit"
+import { createClient } from "@/lib/supabase/server"
+import type { AiJob } from "@/lib/types/ai-jobs"
+import { createJobSteps } from "@/lib/utils/ai-jobs"
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}))
+
+const jobId = "j1111111-1111-4111-a111-111111111111"
+
+function makeJob(overrides: Partial<AiJob> = {}): AiJob {
+  return {
+    id: jobId,
+    artifact_id: "a1111111-1111-4111-a111-111111111111",
+    requested_by: null,
+    status: "running",
+    steps: createJobSteps(["audio", "images", "summary"]),
+    max_attempts: 3,
+    last_error: null,
+    run_after: "2025-12-13T10:00:00Z",
+    locked_at: null,
+    locked_by: null,
+    created_at: "2025-12-13T10:00:00Z",
+    updated_at: "2025-12-13T10:00:00Z",
+    finished_at: null,
+    ...overrides,
+  }
+}
+
+function jobEvents(body: string): AiJob[] {
+  return body
+    .split("\n\n")
+    .filter((chunk) => chunk.startsWith("event: job"))
+    .map((chunk) => JSON.parse(chunk.split("\ndata: ")[1]))
+}
+
+describe("API: /api/analyze/jobs/[id]/events", () => {
+  let mockSupabase: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setRateLimitStore(createMemoryRateLimitStore())
+    mockSupabase = {
+      auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: "u1" } }, error: null }) },
+      from: vi.fn(() => mockSupabase),
+      select: vi.fn(() => mockSupabase),
+      eq: vi.fn(() => mockSupabase),
+      maybeSingle: vi.fn(),
+    }
+    vi.mocked(createClient).mockResolvedValue(mockSupabase)
+  })
+
+  afterEach(() => {
+    setRateLimitStore(null)
+  })
+
+  const request = () => new Request(`http://localhost/api/analyze/jobs/${jobId}/events`)
+  const params = { params: Promise.resolve({ id: jobId }) }
+
+  it("should require a signed-in user", async () => {
+    mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: null })
+
+    const response = await GET(request(), params)
+
+    expect(response.status).toBe(401)
+  })
+
+  it("should return 404 for jobs the user can't see", async () => {
+    mockSupabase.maybeSingle.mockResolvedValue({ data: null, error: null })
+
+    const response = await GET(request(), params)
+
+    expect(response.status).toBe(404)
+  })
+
+  it("should send the finished job once and close", async () => {
+    mockSupabase.maybeSingle.mockResolvedValue({ data: makeJob({ status: "succeeded" }), error: null })
+
+    const response = await GET(request(), params)
+    const body = await response.text()
+
+    expect(response.headers.get("Content-Type")).toContain("text/event-stream")
+    expect(body.startsWith("retry: ")).toBe(true)
+    expect(jobEvents(body).map((job) => job.status)).toEqual(["succeeded"])
+  })
+
+  it("should stream each saved change until the job finishes", async () => {
+    mockSupabase.maybeSingle
+      .mockResolvedValueOnce({ data: makeJob(), error: null })
+      .mockResolvedValueOnce({
+        data: makeJob({ status: "succeeded", updated_at: "2025-12-13T10:01:00Z" }),
+        error: null,
+      })
+
+    const response = await GET(request(), params)
+    const body = await response.text()
+
+    expect(jobEvents(body).map((job) => job.status)).toEqual(["running", "succeeded"])
+  })
+})
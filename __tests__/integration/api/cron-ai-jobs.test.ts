@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { GET } from "@/app/api/cron/ai-jobs/route"
+import { processAiJobs } from "@/lib/ai-jobs"
+
+vi.mock("@/lib/ai-jobs", () => ({
+  processAiJobs: vi.fn(),
+}))
+
+describe("API: /api/cron/ai-jobs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllEnvs()
+    vi.stubEnv("CRON_SECRET", "")
+    vi.mocked(processAiJobs).mockResolvedValue({ processed: 2 })
+  })
+
+  it("should reject production requests without the cron header when no secret is set", async () => {
+    vi.stubEnv("NODE_ENV", "production")
+
+    const response = await GET(new Request("http://localhost/api/cron/ai-jobs"))
+
+    expect(response.status).toBe(401)
+    expect(processAiJobs).not.toHaveBeenCalled()
+  })
+
+  it("should run jobs for production requests from Vercel Cron", async () => {
+    vi.stubEnv("NODE_ENV", "production")
+
+    const response = await GET(
+      new Request("http://localhost/api/cron/ai-jobs", { headers: { "x-vercel-cron": "1" } })
+    )
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ ok: true, processed: 2 })
+  })
+
+  it("should require the secret when one is set, even with the cron header", async () => {
+    vi.stubEnv("CRON_SECRET", "s3cret")
+
+    const response = await GET(
+      new Request("http://localhost/api/cron/ai-jobs", {
+        headers: { "x-vercel-cron": "1", authorization: "Bearer wrong" },
+      })
+    )
+
+    expect(response.status).toBe(401)
+    expect(processAiJobs).not.toHaveBeenCalled()
+  })
+
+  it("should run jobs with the right secret", async () => {
+    vi.stubEnv("CRON_SECRET", "s3cret")
+
+    const response = await GET(
+      new Request("http://localhost/api/cron/ai-jobs", {
+        headers: { authorization: "Bearer s3cret" },
+      })
+    )
+
+    expect(response.status).toBe(200)
+    expect(processAiJobs).toHaveBeenCalled()
+  })
+})
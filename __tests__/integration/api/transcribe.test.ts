@@ -1,15 +1,42 @@
-import { describe, it, expect, vi, beforeEach } from "vitest"
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
 import { POST } from "@/app/api/transcribe/route"
 import { fixtures } from "@/__tests__/fixtures"
+import { createClient } from "@/lib/supabase/server"
+import { AiQuotaError, createUsageMeter } from "@/lib/ai-usage"
+import { createMemoryRateLimitStore, setRateLimitStore } from "@/lib/rate-limit"
+import { RATE_LIMITS } from "@/lib/utils/rate-limit"
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn(),
+}))
+
+vi.mock("@/lib/ai-usage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/ai-usage")>()),
+  createUsageMeter: vi.fn(),
+}))
 
 // Mock environment variables
 vi.stubEnv("OPENAI_API_KEY", "test-key-12345")
 vi.stubEnv("AI_TRANSCRIBE_MODEL", "whisper-1")
 
 describe("API: /api/transcribe", () => {
+  const meter = { check: vi.fn(), record: vi.fn() }
+  const getUser = vi.fn()
+
   beforeEach(() => {
     vi.clearAllMocks()
     global.fetch = vi.fn()
+
+    getUser.mockResolvedValue({ data: { user: fixtures.users.validUser }, error: null })
+    vi.mocked(createClient).mockResolvedValue({ auth: { getUser } } as any)
+    meter.check.mockResolvedValue(undefined)
+    meter.record.mockResolvedValue(undefined)
+    vi.mocked(createUsageMeter).mockReturnValue(meter)
+    setRateLimitStore(createMemoryRateLimitStore())
+  })
+
+  afterEach(() => {
+    setRateLimitStore(null)
   })
 
   describe("POST request handling", () => {
@@ -54,6 +81,77 @@ describe("API: /api/transcribe", () => {
     })
   })
 
+  describe("usage metering", () => {
+    function transcribeRequest() {
+      const formData = new FormData()
+      formData.append("audio", new Blob(["fake audio data"], { type: "audio/webm" }), "audio.webm")
+      formData.append("fieldType", "description")
+      return new Request("http://localhost/api/transcribe", { method: "POST", body: formData })
+    }
+
+    it("should return 401 when not signed in", async () => {
+      getUser.mockResolvedValue({ data: { user: null }, error: null })
+
+      const response = await POST(transcribeRequest())
+
+      expect(response.status).toBe(401)
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it("should record the audio duration against the user", async () => {
+      vi.mocked(global.fetch).mockResolvedValue(
+        new Response(JSON.stringify({ text: "Transcribed text", duration: 12.5 }), { status: 200 }),
+      )
+
+      await POST(transcribeRequest())
+
+      expect(createUsageMeter).toHaveBeenCalledWith(expect.anything(), { userId: fixtures.users.validUser.id })
+      expect(meter.record).toHaveBeenCalledWith("transcription", "openai/whisper-1", { audioSeconds: 12.5 })
+    })
+
+    it("should return 429 without calling the provider when the quota is used up", async () => {
+      meter.check.mockRejectedValue(new AiQuotaError("You've used your monthly allowance"))
+
+      const response = await POST(transcribeRequest())
+      const data = await response.json()
+
+      expect(response.status).toBe(429)
+      expect(data.error).toBe("You've used your monthly allowance")
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("rate limiting", () => {
+    function transcribeRequest() {
+      const formData = new FormData()
+      formData.append("audio", new Blob(["fake audio data"], { type: "audio/webm" }), "audio.webm")
+      return new Request("http://localhost/api/transcribe", { method: "POST", body: formData })
+    }
+
+    it("should report the user's remaining transcription budget", async () => {
+      vi.mocked(global.fetch).mockResolvedValue(new Response(JSON.stringify({ text: "Hello" }), { status: 200 }))
+      const { limit, windowSeconds } = RATE_LIMITS.transcription
+
+      const response = await POST(transcribeRequest())
+
+      expect(response.headers.get("RateLimit-Limit")).toBe(String(limit))
+      expect(response.headers.get("RateLimit-Remaining")).toBe(String(limit - 1))
+      expect(response.headers.get("RateLimit-Policy")).toBe(`${limit};w=${windowSeconds}`)
+    })
+
+    it("should return 429 with Retry-After once the budget is spent", async () => {
+      const consume = vi.fn().mockResolvedValue({ ok: false, limit: 30, remaining: 0, resetSeconds: 42 })
+      setRateLimitStore({ consume })
+
+      const response = await POST(transcribeRequest())
+
+      expect(response.status).toBe(429)
+      expect(response.headers.get("Retry-After")).toBe("42")
+      expect(consume).toHaveBeenCalledWith("transcription", `user:${fixtures.users.validUser.id}`, RATE_LIMITS.transcription)
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+  })
+
   describe("audio file handling", () => {
     it("should create file with .webm extension", async () => {
       const audioBlob = new Blob(["fake audio data"], { type: "audio/webm" })
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { fixtures } from "@/__tests__/fixtures"
+import { getViewAnalytics, recordView } from "@/lib/actions/analytics"
+import * as supabaseModule from "@/lib/supabase/server"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+
+let requestHeaders: Headers
+
+vi.mock("next/headers", () => ({
+  headers: vi.fn(async () => requestHeaders),
+}))
+
+vi.mock("@/lib/utils/admin", () => ({
+  isCurrentUserAdmin: vi.fn(),
+}))
+
+const artifact = fixtures.artifacts.imageArtifact
+const browserAgent = "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) Safari/605.1.15"
+
+describe("Analytics Server Actions", () => {
+  let mockSupabase: any
+  let chain: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(isCurrentUserAdmin).mockResolvedValue(false)
+    requestHeaders = new Headers({
+      "user-agent": browserAgent,
+      "x-forwarded-for": "203.0.113.7",
+      host: "heirlooms.example.com",
+      referer: "https://heirlooms.example.com/",
+    })
+
+    chain = {
+      select: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      then: (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null }),
+    }
+
+    mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: fixtures.users.validUser.id } },
+          error: null,
+        }),
+      },
+      from: vi.fn(() => chain),
+      rpc: vi.fn().mockResolvedValue({ data: [], error: null }),
+    }
+
+    vi.spyOn(supabaseModule, "createClient").mockResolvedValue(mockSupabase)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("recordView", () => {
+    it("should store a hashed viewer and the referrer category, never the IP", async () => {
+      await recordView({ artifactId: artifact.id, ownerId: fixtures.users.anotherUser.id })
+
+      expect(mockSupabase.from).toHaveBeenCalledWith("view_events")
+      const inserted = chain.insert.mock.calls[0][0]
+      expect(inserted).toMatchObject({ artifact_id: artifact.id, collection_id: null, referrer: "community" })
+      expect(inserted.viewer_hash).toMatch(/^[a-f0-9]{64}$/)
+      expect(JSON.stringify(inserted)).not.toContain("203.0.113.7")
+    })
+
+    it("should not count the owner, bots or prefetches", async () => {
+      await recordView({ artifactId: artifact.id, ownerId: fixtures.users.validUser.id })
+
+      requestHeaders.set("user-agent", "Googlebot/2.1")
+      await recordView({ artifactId: artifact.id, ownerId: fixtures.users.anotherUser.id })
+
+      requestHeaders.set("user-agent", browserAgent)
+      requestHeaders.set("next-router-prefetch", "1")
+      await recordView({ artifactId: artifact.id, ownerId: fixtures.users.anotherUser.id })
+
+      expect(chain.insert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("getViewAnalytics", () => {
+    it("should only show analytics to the owner", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { user_id: fixtures.users.anotherUser.id }, error: null })
+
+      const result = await getViewAnalytics({ collectionId: artifact.collection_id })
+
+      expect(result.error).toBe("Unauthorized")
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it("should return a zero-filled series with totals and top artifacts for collections", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { user_id: fixtures.users.validUser.id }, error: null })
+      const today = new Date().toISOString().slice(0, 10)
+      mockSupabase.rpc
+        .mockResolvedValueOnce({
+          data: [
+            {
+              day: today,
+              views: "4",
+              unique_viewers: "3",
+              share_link_views: "1",
+              community_views: "2",
+              direct_views: "1",
+            },
+          ],
+          error: null,
+        })
+        .mockResolvedValueOnce({
+          data: [{ artifact_id: artifact.id, title: artifact.title, slug: artifact.slug, views: "4", unique_viewers: "3" }],
+          error: null,
+        })
+
+      const result = await getViewAnalytics({ collectionId: artifact.collection_id, days: 7 })
+
+      expect(result.data?.daily).toHaveLength(7)
+      expect(result.data?.daily.at(-1)).toMatchObject({ day: today, views: 4 })
+      expect(result.data?.totals).toMatchObject({ views: 4, daily_unique_visits: 3, community_views: 2 })
+      expect(result.data?.topArtifacts[0]).toMatchObject({ slug: artifact.slug, views: 4 })
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_top_collection_artifacts", expect.any(Object))
+    })
+  })
+})
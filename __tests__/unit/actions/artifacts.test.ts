@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
 import { fixtures } from "@/__tests__/fixtures"
-import { createArtifact } from "@/lib/actions/artifacts"
+import { createArtifact, getAllPublicArtifactsPaginated } from "@/lib/actions/artifacts"
+import { createLocalEmbeddingProvider, setEmbeddingProvider } from "@/lib/embeddings"
 import * as supabaseModule from "@/lib/supabase/server"
 import * as cloudinaryModule from "@/lib/actions/cloudinary"
 import * as mediaModule from "@/lib/media"
@@ -33,6 +34,7 @@ describe("Artifact Server Actions", () => {
       delete: vi.fn().mockReturnThis(),
       eq: vi.fn().mockReturnThis(),
       in: vi.fn().mockReturnThis(),
+      ilike: vi.fn().mockReturnThis(),
       maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
       single: vi.fn().mockResolvedValue({
         data: fixtures.artifacts.imageArtifact,
@@ -509,6 +511,61 @@ describe("Artifact Server Actions", () => {
     })
   })
 
+  describe("attribute handling", () => {
+    it("should reject attributes when no artifact type is selected", async () => {
+      const input = {
+        ...fixtures.forms.validCreateArtifactInput,
+        type_id: null,
+        attributes: { movement: "Automatic" },
+      }
+
+      const result = await createArtifact(input as any)
+
+      expect(result.error).toBe("Invalid input")
+      expect(result.fieldErrors).toHaveProperty("attributes")
+    })
+
+    it("should return per-attribute errors when values don't match the type schema", async () => {
+      mockSupabase.from.mockImplementation((table: string) => ({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: table === "artifact_types" ? { attribute_schema: fixtures.artifactTypes.watch.attribute_schema } : null,
+          error: null,
+        }),
+      }))
+
+      const input = {
+        ...fixtures.forms.validCreateArtifactInput,
+        type_id: fixtures.artifactTypes.watch.id,
+        attributes: {
+          movement: "Solar",
+          case_size: { value: 38, unit: "in" },
+        },
+      }
+
+      const result = await createArtifact(input as any)
+
+      expect(result.error).toBe("Invalid input")
+      expect(result.fieldErrors).toHaveProperty(["attributes.movement"])
+      expect(result.fieldErrors).toHaveProperty(["attributes.case_size"])
+      expect(mockSupabase.from).toHaveBeenCalledWith("artifact_types")
+    })
+
+    it("should not look up the type schema when attributes are omitted", async () => {
+      try {
+        await createArtifact({
+          ...fixtures.forms.validCreateArtifactInput,
+          type_id: fixtures.artifactTypes.watch.id,
+        } as any)
+      } catch (e) {
+        // Expected redirect
+      }
+
+      expect(mockSupabase.from).not.toHaveBeenCalledWith("artifact_types")
+    })
+  })
+
   describe("getArtifactsByCollection", () => {
     it("should call from with artifacts table", async () => {
       // This test verifies the function calls the database correctly
@@ -578,6 +635,52 @@ describe("Artifact Server Actions", () => {
       expect(result.slug).toBeDefined()
     })
 
+    it("should only enforce required attributes once they change", async () => {
+      const car = fixtures.artifactTypes.car
+      const existing = {
+        ...fixtures.artifacts.imageArtifact,
+        type_id: car.id,
+        // Saved before Make was required
+        attributes: { mileage: { value: 42000, unit: "mi" } },
+      }
+      const update = vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          select: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({ data: existing, error: null }),
+          }),
+        }),
+      })
+      mockSupabase.from = vi.fn((table: string) => ({
+        select: vi.fn().mockReturnThis(),
+        update,
+        delete: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+        single: vi.fn().mockResolvedValue({
+          data: table === "artifact_types" ? { attribute_schema: car.attribute_schema } : existing,
+          error: null,
+        }),
+      }))
+
+      const input = {
+        id: existing.id,
+        title: "Renamed",
+        media_urls: existing.media_urls,
+        type_id: car.id,
+        attributes: { mileage: { value: 42000, unit: "mi" } },
+      }
+
+      expect((await updateArtifact(input, existing.media_urls)).success).toBe(true)
+
+      const changed = await updateArtifact(
+        { ...input, attributes: { mileage: { value: 43000, unit: "mi" } } },
+        existing.media_urls
+      )
+      expect(changed.success).toBe(false)
+      expect(changed.fieldErrors).toHaveProperty(["attributes.make"])
+    })
+
     it("should return correct slug in response", async () => {
       const updateData = {
         id: fixtures.artifacts.imageArtifact.id,
@@ -690,4 +793,61 @@ describe("Artifact Server Actions", () => {
       expect(result.success).toBe(true)
     })
   })
+
+  describe("semantic search", () => {
+    const embed = vi.fn()
+    let chain: any
+
+    beforeEach(() => {
+      const local = createLocalEmbeddingProvider()
+      embed.mockImplementation(local.embed)
+      setEmbeddingProvider({ id: local.id, embed })
+
+      chain = {
+        select: vi.fn().mockReturnThis(),
+        insert: vi.fn().mockResolvedValue({ error: null }),
+        eq: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      }
+      mockSupabase.from = vi.fn(() => chain)
+      // No matches, so the search stops after ranking
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: [], error: null })
+    })
+
+    afterEach(() => {
+      setEmbeddingProvider(null)
+      vi.unstubAllEnvs()
+    })
+
+    it("should embed the query and record it against the signed-in user", async () => {
+      await getAllPublicArtifactsPaginated(undefined, { search: "grandma's wedding", searchMode: "semantic" })
+
+      expect(embed).toHaveBeenCalledWith(["grandma's wedding"])
+      expect(chain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: fixtures.users.validUser.id, capability: "embedding" }),
+      )
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("search_artifacts_semantic", expect.any(Object))
+    })
+
+    it("should match words for signed-out visitors", async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: null })
+
+      await getAllPublicArtifactsPaginated(undefined, { search: "grandma's wedding", searchMode: "semantic" })
+
+      expect(embed).not.toHaveBeenCalled()
+      expect(mockSupabase.rpc).toHaveBeenCalledWith(
+        "search_artifacts",
+        expect.objectContaining({ p_query: "grandma's wedding" }),
+      )
+    })
+
+    it("should match words once the AI quota is used up", async () => {
+      vi.stubEnv("AI_MONTHLY_TOKEN_QUOTA", "0")
+
+      await getAllPublicArtifactsPaginated(undefined, { search: "grandma's wedding", searchMode: "semantic" })
+
+      expect(embed).not.toHaveBeenCalled()
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("search_artifacts", expect.any(Object))
+    })
+  })
 })
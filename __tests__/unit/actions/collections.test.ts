@@ -4,11 +4,13 @@ import {
   createCollection,
   getCollection,
   getCollectionBySlug,
+  getCollectionIdBySlug,
   updateCollection,
   deleteCollection,
   getOrCreateUncategorizedCollection,
   getMyCollections,
   getMyCollectionsWithThumbnails,
+  getAllPublicCollectionsPaginated,
 } from "@/lib/actions/collections"
 import * as supabaseModule from "@/lib/supabase/server"
 
@@ -279,6 +281,43 @@ describe("Collection Server Actions", () => {
     })
   })
 
+  describe("getCollectionIdBySlug", () => {
+    const mockSlugLookup = (current: unknown, previous: unknown) => {
+      mockSupabase.from.mockImplementation((table: string) => ({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        not: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data: table === "collections" ? current : previous, error: null }),
+      }))
+    }
+
+    it("should prefer a collection that currently uses the slug", async () => {
+      mockSlugLookup({ id: "current-id" }, { collection_id: "previous-id" })
+
+      const result = await getCollectionIdBySlug("family-photos")
+
+      expect(result).toBe("current-id")
+      expect(mockSupabase.from).not.toHaveBeenCalledWith("slug_history")
+    })
+
+    it("should fall back to slug history after a rename", async () => {
+      mockSlugLookup(null, { collection_id: "renamed-id" })
+
+      const result = await getCollectionIdBySlug("old-family-photos")
+
+      expect(result).toBe("renamed-id")
+      expect(mockSupabase.from).toHaveBeenCalledWith("slug_history")
+    })
+
+    it("should return null for unknown slugs", async () => {
+      mockSlugLookup(null, null)
+
+      const result = await getCollectionIdBySlug("never-existed")
+
+      expect(result).toBeNull()
+    })
+  })
+
   describe("updateCollection", () => {
     describe("validation", () => {
       it("should reject empty title on update", async () => {
@@ -564,4 +603,101 @@ describe("Collection Server Actions", () => {
       expect(result.collections).toEqual([])
     })
   })
+
+  describe("getAllPublicCollectionsPaginated", () => {
+    const lettersCollection = {
+      id: "c1c1c1c1-1111-4111-a111-111111111111",
+      slug: "letters-home",
+      title: "Letters Home",
+      user_id: "author-1",
+      is_public: true,
+      created_at: "2024-01-01T00:00:00Z",
+    }
+    const diariesCollection = {
+      id: "c2c2c2c2-2222-4222-a222-222222222222",
+      slug: "diaries",
+      title: "Diaries",
+      user_id: "author-2",
+      is_public: true,
+      created_at: "2024-02-01T00:00:00Z",
+    }
+    const diaryArtifactId = "a3a3a3a3-3333-4333-a333-333333333333"
+
+    it("should return search results in rank order with what matched", async () => {
+      mockSupabase.rpc = vi.fn().mockImplementation((fn: string) => {
+        switch (fn) {
+          case "search_collections":
+            return Promise.resolve({
+              data: [
+                { id: lettersCollection.id, rank: 0.9, artifact_id: null },
+                { id: diariesCollection.id, rank: 0.4, artifact_id: diaryArtifactId },
+              ],
+              error: null,
+            })
+          case "get_collection_search_highlights":
+            return Promise.resolve({
+              data: [{ collection_id: lettersCollection.id, field: "title", snippet: "⟦Letters⟧ Home" }],
+              error: null,
+            })
+          case "get_artifact_search_highlights":
+            return Promise.resolve({
+              data: [{ artifact_id: diaryArtifactId, field: "transcript", snippet: "wrote ⟦letters⟧ every week" }],
+              error: null,
+            })
+        }
+      })
+
+      mockSupabase.from.mockImplementation((table: string) => {
+        const result =
+          table === "collections"
+            ? // Fetched by ID, so in no particular order
+              { data: [diariesCollection, lettersCollection], error: null }
+            : { data: [{ id: diaryArtifactId, title: "Dad's diary", media_urls: [], thumbnail_url: null }], count: 1, error: null }
+        const chain: any = {
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          neq: vi.fn().mockReturnThis(),
+          in: vi.fn().mockReturnThis(),
+          or: vi.fn().mockReturnThis(),
+          order: vi.fn().mockReturnThis(),
+          limit: vi.fn().mockReturnThis(),
+          then: (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve),
+        }
+        return chain
+      })
+
+      const result = await getAllPublicCollectionsPaginated("viewer-1", 24, undefined, "  letters ")
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("search_collections", {
+        p_query: "letters",
+        p_user_id: null,
+        p_exclude_user_id: "viewer-1",
+        p_after_rank: null,
+        p_after_id: null,
+        p_limit: 25,
+      })
+      expect(result.hasMore).toBe(false)
+      expect(result.collections.map((collection: any) => collection.id)).toEqual([
+        lettersCollection.id,
+        diariesCollection.id,
+      ])
+      expect(result.collections[0]).toMatchObject({
+        search_rank: 0.9,
+        search_match: { field: "title", snippet: "⟦Letters⟧ Home" },
+      })
+      expect(result.collections[1]).toMatchObject({
+        search_rank: 0.4,
+        search_match: { field: "transcript", snippet: "wrote ⟦letters⟧ every week", artifact_title: "Dad's diary" },
+      })
+    })
+
+    it("should return nothing when the search has no hits", async () => {
+      mockSupabase.rpc = vi.fn().mockResolvedValue({ data: [], error: null })
+
+      const result = await getAllPublicCollectionsPaginated(undefined, 24, undefined, "zeppelin")
+
+      expect(result).toEqual({ collections: [], hasMore: false })
+      expect(mockSupabase.from).not.toHaveBeenCalledWith("artifacts")
+    })
+  })
 })
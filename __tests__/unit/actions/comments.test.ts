@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { fixtures } from "@/__tests__/fixtures"
+import { createComment, deleteComment } from "@/lib/actions/comments"
+import * as supabaseModule from "@/lib/supabase/server"
+import { markUploadsAsSaved } from "@/lib/actions/pending-uploads"
+import { deleteFromSupabaseStorage } from "@/lib/actions/supabase-storage"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/actions/pending-uploads", () => ({
+  markUploadsAsSaved: vi.fn(),
+}))
+
+vi.mock("@/lib/actions/supabase-storage", () => ({
+  deleteFromSupabaseStorage: vi.fn(),
+}))
+
+vi.mock("@/lib/actions/cloudinary", () => ({
+  deleteCloudinaryMedia: vi.fn(),
+  extractPublicIdFromUrl: vi.fn(),
+}))
+
+vi.mock("@/lib/utils/admin", () => ({
+  isCurrentUserAdmin: vi.fn(),
+}))
+
+const artifact = fixtures.artifacts.imageArtifact
+const commentId = "c1111111-1111-4111-a111-111111111111"
+const photoUrl = "https://example.supabase.co/storage/v1/object/public/heirlooms-media/u/comments/photo.jpg"
+
+describe("Comment Server Actions", () => {
+  let mockSupabase: any
+  let chain: any
+  // Result for queries awaited without .single()/.maybeSingle() (reply counts, profile lookups)
+  let listResult: { data?: any[] | null; count?: number | null; error: any }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(deleteFromSupabaseStorage).mockResolvedValue({ success: true })
+    vi.mocked(isCurrentUserAdmin).mockResolvedValue(false)
+    listResult = { data: [], count: 0, error: null }
+
+    chain = {
+      select: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      delete: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      in: vi.fn().mockReturnThis(),
+      not: vi.fn().mockReturnThis(),
+      order: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({ data: null, error: null }),
+      maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      then: (resolve: (value: unknown) => unknown) => resolve(listResult),
+    }
+
+    mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: fixtures.users.validUser.id } },
+          error: null,
+        }),
+      },
+      from: vi.fn(() => chain),
+    }
+
+    vi.spyOn(supabaseModule, "createClient").mockResolvedValue(mockSupabase)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("createComment", () => {
+    it("should reject empty comments", async () => {
+      const result = await createComment({ artifact_id: artifact.id, body: "   " })
+
+      expect(result.error).toBe("Invalid input")
+      expect(result.fieldErrors).toHaveProperty("body")
+      expect(chain.insert).not.toHaveBeenCalled()
+    })
+
+    it("should require sign-in", async () => {
+      mockSupabase.auth.getUser.mockResolvedValueOnce({ data: { user: null }, error: null })
+
+      const result = await createComment({ artifact_id: artifact.id, body: "I remember this" })
+
+      expect(result.error).toBe("Sign in to leave a comment")
+    })
+
+    it("should post a reply and mark its photo as saved", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { slug: artifact.slug }, error: null })
+      chain.single.mockResolvedValueOnce({
+        data: { id: commentId, user_id: fixtures.users.validUser.id, parent_id: "c2222222-2222-4222-a222-222222222222" },
+        error: null,
+      })
+
+      const result = await createComment({
+        artifact_id: artifact.id,
+        parent_id: "c2222222-2222-4222-a222-222222222222",
+        body: " Grandpa wore this every Sunday ",
+        photo_url: photoUrl,
+        audio_transcript: "ignored without audio",
+      })
+
+      expect(result.success).toBe(true)
+      expect(chain.insert).toHaveBeenCalledWith({
+        artifact_id: artifact.id,
+        parent_id: "c2222222-2222-4222-a222-222222222222",
+        user_id: fixtures.users.validUser.id,
+        body: "Grandpa wore this every Sunday",
+        photo_url: photoUrl,
+        audio_url: null,
+        audio_transcript: null,
+      })
+      expect(markUploadsAsSaved).toHaveBeenCalledWith([photoUrl])
+    })
+  })
+
+  describe("deleteComment", () => {
+    it("should only let the author, artifact owner or an admin delete", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({
+        data: {
+          id: commentId,
+          user_id: fixtures.users.anotherUser.id,
+          parent_id: null,
+          artifact: { user_id: fixtures.users.anotherUser.id, slug: artifact.slug },
+        },
+        error: null,
+      })
+
+      const result = await deleteComment(commentId)
+
+      expect(result.error).toBe("Unauthorized")
+      expect(chain.delete).not.toHaveBeenCalled()
+    })
+
+    it("should let the artifact owner remove a comment and its media", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({
+        data: {
+          id: commentId,
+          user_id: fixtures.users.anotherUser.id,
+          parent_id: null,
+          photo_url: photoUrl,
+          audio_url: null,
+          artifact: { user_id: fixtures.users.validUser.id, slug: artifact.slug },
+        },
+        error: null,
+      })
+
+      const result = await deleteComment(commentId)
+
+      expect(result.success).toBe(true)
+      expect(chain.delete).toHaveBeenCalled()
+      expect(deleteFromSupabaseStorage).toHaveBeenCalledWith(photoUrl)
+    })
+
+    it("should keep comments with replies as a placeholder", async () => {
+      vi.mocked(isCurrentUserAdmin).mockResolvedValueOnce(true)
+      chain.maybeSingle.mockResolvedValueOnce({
+        data: {
+          id: commentId,
+          user_id: fixtures.users.anotherUser.id,
+          parent_id: null,
+          artifact: { user_id: fixtures.users.anotherUser.id, slug: artifact.slug },
+        },
+        error: null,
+      })
+      listResult = { count: 2, error: null }
+
+      const result = await deleteComment(commentId)
+
+      expect(result.success).toBe(true)
+      expect(chain.delete).not.toHaveBeenCalled()
+      expect(chain.update).toHaveBeenCalledWith(
+        expect.objectContaining({ body: null, photo_url: null, audio_url: null, deleted_at: expect.any(String) }),
+      )
+    })
+  })
+})
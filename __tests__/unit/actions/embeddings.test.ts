@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { fixtures } from "@/__tests__/fixtures"
+import { getSimilarArtifacts, refreshArtifactEmbedding } from "@/lib/actions/embeddings"
+import { createLocalEmbeddingProvider, setEmbeddingProvider } from "@/lib/embeddings"
+import * as supabaseModule from "@/lib/supabase/server"
+
+const artifact = {
+  ...fixtures.artifacts.imageArtifact,
+  description: "Quilt stitched by grandma for her wedding",
+  ai_description: "A hand-sewn quilt with a star pattern",
+}
+
+describe("Embedding Server Actions", () => {
+  let mockSupabase: any
+  let chain: any
+  let listResult: { data?: any[] | null; error: any }
+  const embed = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    listResult = { data: [], error: null }
+
+    const local = createLocalEmbeddingProvider()
+    embed.mockImplementation(local.embed)
+    setEmbeddingProvider({ id: local.id, embed })
+
+    chain = {
+      select: vi.fn().mockReturnThis(),
+      upsert: vi.fn().mockResolvedValue({ error: null }),
+      insert: vi.fn().mockResolvedValue({ error: null }),
+      eq: vi.fn().mockReturnThis(),
+      in: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({ data: artifact, error: null }),
+      maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      then: (resolve: (value: unknown) => unknown) => Promise.resolve(listResult).then(resolve),
+    }
+
+    mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({ data: { user: fixtures.users.validUser }, error: null }),
+      },
+      from: vi.fn(() => chain),
+      rpc: vi.fn().mockResolvedValue({ data: [], error: null }),
+    }
+
+    vi.spyOn(supabaseModule, "createClient").mockResolvedValue(mockSupabase)
+  })
+
+  afterEach(() => {
+    setEmbeddingProvider(null)
+    vi.restoreAllMocks()
+  })
+
+  describe("refreshArtifactEmbedding", () => {
+    it("should embed the artifact and store it with its model and content hash", async () => {
+      const result = await refreshArtifactEmbedding(artifact.id)
+
+      expect(result).toEqual({ success: true })
+      expect(embed).toHaveBeenCalledWith([expect.stringContaining("Quilt stitched by grandma")])
+      expect(chain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          artifact_id: artifact.id,
+          model: "local/hash",
+          content_hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+          embedding: expect.stringMatching(/^\[.*\]$/),
+        }),
+        { onConflict: "artifact_id" },
+      )
+    })
+
+    it("should record the embedding against the current user and artifact", async () => {
+      await refreshArtifactEmbedding(artifact.id)
+
+      expect(mockSupabase.from).toHaveBeenCalledWith("ai_usage_events")
+      expect(chain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: fixtures.users.validUser.id,
+          artifact_id: artifact.id,
+          capability: "embedding",
+          model: "local/hash",
+        }),
+      )
+    })
+
+    it("should require a signed-in user", async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: null })
+
+      const result = await refreshArtifactEmbedding(artifact.id)
+
+      expect(result).toEqual({ success: false, error: "Unauthorized" })
+      expect(embed).not.toHaveBeenCalled()
+    })
+
+    it("should skip unchanged artifacts", async () => {
+      await refreshArtifactEmbedding(artifact.id)
+      const { content_hash } = chain.upsert.mock.calls[0][0]
+      chain.upsert.mockClear()
+      embed.mockClear()
+      chain.maybeSingle.mockResolvedValue({ data: { content_hash, model: "local/hash" }, error: null })
+
+      const result = await refreshArtifactEmbedding(artifact.id)
+
+      expect(result).toEqual({ success: true, skipped: true })
+      expect(embed).not.toHaveBeenCalled()
+      expect(chain.upsert).not.toHaveBeenCalled()
+    })
+
+    it("should re-embed when the provider changes", async () => {
+      await refreshArtifactEmbedding(artifact.id)
+      const { content_hash } = chain.upsert.mock.calls[0][0]
+      chain.upsert.mockClear()
+      chain.maybeSingle.mockResolvedValue({
+        data: { content_hash, model: "openai/text-embedding-3-small" },
+        error: null,
+      })
+
+      const result = await refreshArtifactEmbedding(artifact.id)
+
+      expect(result).toEqual({ success: true })
+      expect(chain.upsert).toHaveBeenCalled()
+    })
+
+    it("should skip artifacts with nothing to embed", async () => {
+      chain.single.mockResolvedValue({ data: { id: artifact.id, title: "Untitled" }, error: null })
+
+      const result = await refreshArtifactEmbedding(artifact.id)
+
+      expect(result).toEqual({ success: true, skipped: true })
+      expect(embed).not.toHaveBeenCalled()
+    })
+
+    it("should report provider failures", async () => {
+      embed.mockRejectedValue(new Error("rate limited"))
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+
+      const result = await refreshArtifactEmbedding(artifact.id)
+
+      expect(result).toEqual({ success: false, error: "Failed to compute embedding" })
+      expect(chain.upsert).not.toHaveBeenCalled()
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe("getSimilarArtifacts", () => {
+    it("should return artifacts in similarity order with a single artifact type", async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [
+          { id: "b", similarity: 0.9 },
+          { id: "a", similarity: 0.7 },
+        ],
+        error: null,
+      })
+      const type = { id: "t1", name: "Textile", icon_name: "Shirt" }
+      listResult = {
+        data: [
+          { id: "a", slug: "a", title: "A", artifact_type: type },
+          { id: "b", slug: "b", title: "B", artifact_type: [type] },
+        ],
+        error: null,
+      }
+
+      const result = await getSimilarArtifacts(artifact.id)
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_similar_artifacts", { p_artifact_id: artifact.id, p_limit: 8 })
+      expect(result.data.map((item) => item.id)).toEqual(["b", "a"])
+      expect(result.data.map((item) => item.artifact_type)).toEqual([type, type])
+    })
+
+    it("should return nothing before the artifact is embedded", async () => {
+      const result = await getSimilarArtifacts(artifact.id)
+
+      expect(result).toEqual({ data: [] })
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+})
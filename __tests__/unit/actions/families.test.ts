@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { fixtures } from "@/__tests__/fixtures"
+import {
+  acceptFamilyInvitation,
+  inviteFamilyMember,
+  removeFamilyMember,
+  updateFamilyMemberRole,
+} from "@/lib/actions/families"
+import * as supabaseModule from "@/lib/supabase/server"
+import * as serviceModule from "@/lib/supabase/service"
+
+vi.mock("next/headers", () => ({
+  headers: vi.fn(async () => new Headers({ host: "heirlooms.example" })),
+}))
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("next/navigation", () => ({
+  redirect: vi.fn((url: string) => {
+    throw new Error(`REDIRECT:${url}`)
+  }),
+}))
+
+const familyId = "f1111111-1111-4111-a111-111111111111"
+const memberId = "e1111111-1111-4111-a111-111111111111"
+const currentUserId = fixtures.users.validUser.id
+const otherUserId = fixtures.users.anotherUser.id
+
+describe("Family Server Actions", () => {
+  let mockSupabase: any
+  let mockServiceClient: any
+  let chain: any
+  // Result for queries awaited without .single()/.maybeSingle() (e.g. the editor list)
+  let listResult: { data: any[] | null; error: any }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    listResult = { data: [], error: null }
+
+    chain = {
+      select: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      delete: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      is: vi.fn().mockReturnThis(),
+      order: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({ data: null, error: null }),
+      maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      then: (resolve: (value: unknown) => unknown) => resolve(listResult),
+    }
+
+    mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: currentUserId } },
+          error: null,
+        }),
+      },
+      from: vi.fn(() => chain),
+      rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
+    }
+
+    mockServiceClient = {
+      auth: {
+        admin: {
+          inviteUserByEmail: vi.fn().mockResolvedValue({ data: { user: null }, error: null }),
+        },
+      },
+    }
+
+    vi.spyOn(supabaseModule, "createClient").mockResolvedValue(mockSupabase)
+    vi.spyOn(serviceModule, "createServiceClient").mockReturnValue(mockServiceClient)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("inviteFamilyMember", () => {
+    it("should validate the email address", async () => {
+      const result = await inviteFamilyMember({ family_id: familyId, email: "not-an-email", role: "viewer" })
+
+      expect(result.error).toBe("Invalid input")
+      expect(result.fieldErrors).toHaveProperty("email")
+    })
+
+    it("should only let editors invite", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { role: "contributor" }, error: null })
+
+      const result = await inviteFamilyMember({ family_id: familyId, email: "cousin@example.com", role: "viewer" })
+
+      expect(result.error).toBe("Only family editors can invite members")
+      expect(chain.insert).not.toHaveBeenCalled()
+    })
+
+    it("should create the invitation and email the join page from the service role", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { role: "editor" }, error: null })
+      chain.single.mockResolvedValueOnce({ data: { id: "invite-1", family_id: familyId }, error: null })
+
+      const result = await inviteFamilyMember({ family_id: familyId, email: " Cousin@Example.com ", role: "viewer" })
+
+      expect(result.success).toBe(true)
+      expect(result.warning).toBeUndefined()
+
+      const inserted = chain.insert.mock.calls[0][0]
+      expect(inserted).toMatchObject({ family_id: familyId, email: "cousin@example.com", role: "viewer" })
+      expect(inserted.token).toMatch(/^[A-Za-z0-9_-]{32}$/)
+      expect(mockServiceClient.auth.admin.inviteUserByEmail).toHaveBeenCalledWith("cousin@example.com", {
+        redirectTo: `https://heirlooms.example/families/join/${inserted.token}`,
+      })
+    })
+
+    it("should ask for the invite link to be shared with existing accounts", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { role: "editor" }, error: null })
+      chain.single.mockResolvedValueOnce({ data: { id: "invite-1", family_id: familyId }, error: null })
+      mockServiceClient.auth.admin.inviteUserByEmail.mockResolvedValueOnce({
+        data: { user: null },
+        error: { message: "A user with this email address has already been registered", code: "email_exists" },
+      })
+
+      const result = await inviteFamilyMember({ family_id: familyId, email: "cousin@example.com", role: "viewer" })
+
+      expect(result.success).toBe(true)
+      expect(result.warning).toContain("already have an account")
+    })
+
+    it("should keep the invitation when the email fails", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { role: "editor" }, error: null })
+      chain.single.mockResolvedValueOnce({ data: { id: "invite-1", family_id: familyId }, error: null })
+      mockServiceClient.auth.admin.inviteUserByEmail.mockResolvedValueOnce({
+        data: { user: null },
+        error: { message: "Rate limited", code: "over_email_send_rate_limit" },
+      })
+
+      const result = await inviteFamilyMember({ family_id: familyId, email: "cousin@example.com", role: "viewer" })
+
+      expect(result.success).toBe(true)
+      expect(result.warning).toContain("Copy the invite link")
+    })
+
+    it("should report an invitation that is already pending", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { role: "editor" }, error: null })
+      chain.single.mockResolvedValueOnce({ data: null, error: { code: "23505", message: "duplicate key" } })
+
+      const result = await inviteFamilyMember({ family_id: familyId, email: "cousin@example.com", role: "viewer" })
+
+      expect(result.error).toBe("An invitation is already pending for this email")
+      expect(mockServiceClient.auth.admin.inviteUserByEmail).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("acceptFamilyInvitation", () => {
+    it("should open the family after accepting", async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: familyId, error: null })
+
+      await expect(acceptFamilyInvitation("token")).rejects.toThrow(`REDIRECT:/families/${familyId}`)
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("accept_family_invitation", { p_token: "token" })
+    })
+
+    it("should explain invitations sent to another email", async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { message: "Invitation was sent to a different email address" },
+      })
+
+      const result = await acceptFamilyInvitation("token")
+
+      expect(result.error).toBe("This invitation was sent to a different email address")
+    })
+  })
+
+  describe("member management", () => {
+    it("should not demote the last editor", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({
+        data: { id: memberId, family_id: familyId, user_id: currentUserId, role: "editor" },
+        error: null,
+      })
+      listResult = { data: [{ user_id: currentUserId }], error: null }
+
+      const result = await updateFamilyMemberRole(memberId, "viewer")
+
+      expect(result.error).toBe("A family needs at least one editor")
+      expect(chain.update).not.toHaveBeenCalled()
+    })
+
+    it("should not change the creator's role", async () => {
+      chain.maybeSingle
+        .mockResolvedValueOnce({
+          data: { id: memberId, family_id: familyId, user_id: otherUserId, role: "editor" },
+          error: null,
+        })
+        .mockResolvedValueOnce({ data: { created_by: otherUserId }, error: null })
+      listResult = { data: [{ user_id: currentUserId }, { user_id: otherUserId }], error: null }
+
+      const result = await updateFamilyMemberRole(memberId, "viewer")
+
+      expect(result.error).toBe("The family's creator is always an editor")
+      expect(chain.update).not.toHaveBeenCalled()
+    })
+
+    it("should not let editors remove the creator", async () => {
+      chain.maybeSingle
+        .mockResolvedValueOnce({
+          data: { id: memberId, family_id: familyId, user_id: otherUserId, role: "editor" },
+          error: null,
+        })
+        .mockResolvedValueOnce({ data: { created_by: otherUserId }, error: null })
+      listResult = { data: [{ user_id: currentUserId }, { user_id: otherUserId }], error: null }
+
+      const result = await removeFamilyMember(memberId)
+
+      expect(result.error).toBe("The family's creator can't be removed")
+      expect(chain.delete).not.toHaveBeenCalled()
+    })
+
+    it("should not let non-editors remove other members", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({
+        data: { id: memberId, family_id: familyId, user_id: otherUserId, role: "viewer" },
+        error: null,
+      })
+      listResult = { data: [{ user_id: otherUserId }], error: null }
+
+      const result = await removeFamilyMember(memberId)
+
+      expect(result.error).toBe("Only family editors can remove members")
+      expect(chain.delete).not.toHaveBeenCalled()
+    })
+
+    it("should let any member leave", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({
+        data: { id: memberId, family_id: familyId, user_id: currentUserId, role: "viewer" },
+        error: null,
+      })
+      listResult = { data: [{ user_id: otherUserId }], error: null }
+
+      const result = await removeFamilyMember(memberId)
+
+      expect(result.success).toBe(true)
+      expect(chain.delete).toHaveBeenCalled()
+    })
+  })
+})
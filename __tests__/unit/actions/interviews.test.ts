@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { fixtures } from "@/__tests__/fixtures"
+import { saveInterviewAnswer } from "@/lib/actions/interviews"
+import * as supabaseModule from "@/lib/supabase/server"
+import { getMyCollectionFamilyRole } from "@/lib/actions/families"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/actions/families", () => ({
+  getMyCollectionFamilyRole: vi.fn(),
+}))
+
+vi.mock("@/lib/utils/admin", () => ({
+  isCurrentUserAdmin: vi.fn(),
+}))
+
+const artifact = fixtures.artifacts.imageArtifact
+const userId = fixtures.users.validUser.id
+const recording = {
+  storage_path: `${userId}/interviews/${artifact.id}/first_owner-recording_1.webm`,
+  public_url: "https://example.supabase.co/storage/v1/object/public/heirlooms-media/first_owner-recording_1.webm",
+  filename: "recording_1.webm",
+  mime_type: "audio/webm",
+  file_size_bytes: 4096,
+}
+
+describe("Interview Server Actions", () => {
+  let mockSupabase: any
+  let chain: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(isCurrentUserAdmin).mockResolvedValue(false)
+    vi.mocked(getMyCollectionFamilyRole).mockResolvedValue(null)
+
+    chain = {
+      select: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockResolvedValue({ error: null }),
+      single: vi.fn(),
+    }
+    // The artifact lookup chains .eq().single(); the update awaits .eq() directly
+    chain.eq.mockImplementationOnce(() => chain)
+    chain.single.mockResolvedValueOnce({
+      data: {
+        user_id: artifact.user_id,
+        slug: artifact.slug,
+        collection_id: artifact.collection_id,
+        interview_answers: [],
+        artifact_type: { interview_questions: [] },
+      },
+      error: null,
+    })
+
+    mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({ data: { user: { id: userId } }, error: null }),
+      },
+      from: vi.fn(() => chain),
+    }
+
+    vi.spyOn(supabaseModule, "createClient").mockResolvedValue(mockSupabase)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("saveInterviewAnswer", () => {
+    const input = {
+      artifact_id: artifact.id,
+      question_key: "first_owner",
+      question: "Who owned this first?",
+      transcript: "My grandmother Rosa",
+    }
+
+    it("should require sign-in", async () => {
+      mockSupabase.auth.getUser.mockResolvedValueOnce({ data: { user: null }, error: null })
+
+      const result = await saveInterviewAnswer(input)
+
+      expect(result.error).toBe("Unauthorized")
+      expect(chain.update).not.toHaveBeenCalled()
+    })
+
+    it("should only let editors answer", async () => {
+      chain.single.mockReset().mockResolvedValueOnce({
+        data: { user_id: "someone-else", slug: artifact.slug, collection_id: artifact.collection_id },
+        error: null,
+      })
+
+      const result = await saveInterviewAnswer(input)
+
+      expect(result.error).toBe("Unauthorized")
+      expect(chain.update).not.toHaveBeenCalled()
+    })
+
+    it("should save the recording to user_media and rebuild the transcript", async () => {
+      chain.single.mockResolvedValueOnce({ data: { id: "m1", public_url: recording.public_url }, error: null })
+
+      const result = await saveInterviewAnswer({ ...input, audio: recording })
+
+      expect(chain.insert).toHaveBeenCalledWith({
+        ...recording,
+        user_id: userId,
+        media_type: "audio",
+        upload_source: "interview",
+      })
+      expect(result.data).toEqual([
+        expect.objectContaining({ question_key: "first_owner", media_id: "m1", audio_url: recording.public_url }),
+      ])
+      expect(chain.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          interview_answers: result.data,
+          interview_transcript: "Q: Who owned this first?\nA: My grandmother Rosa",
+        }),
+      )
+    })
+
+    it("should refuse recordings stored under another user's folder", async () => {
+      const result = await saveInterviewAnswer({
+        ...input,
+        audio: { ...recording, storage_path: "someone-else/interviews/recording.webm" },
+      })
+
+      expect(result.error).toContain("Unauthorized")
+      expect(chain.insert).not.toHaveBeenCalled()
+    })
+  })
+})
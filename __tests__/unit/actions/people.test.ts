@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { fixtures } from "@/__tests__/fixtures"
+import { createPerson, getPersonArtifacts, saveArtifactPeople } from "@/lib/actions/people"
+import * as supabaseModule from "@/lib/supabase/server"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/utils/admin", () => ({
+  isCurrentUserAdmin: vi.fn(),
+}))
+
+const artifactId = "123e4567-e89b-12d3-a456-426614174000"
+const rosaId = "61111111-1111-4111-a111-111111111111"
+const joeId = "62222222-2222-4222-a222-222222222222"
+const ownerId = fixtures.users.validUser.id
+
+describe("People Server Actions", () => {
+  let mockSupabase: any
+  let chain: any
+  // Results for queries awaited without .single()/.maybeSingle(), in call order
+  let awaitedResults: { data?: any; error: any }[]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(isCurrentUserAdmin).mockResolvedValue(false)
+    awaitedResults = []
+
+    chain = {
+      select: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      delete: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      in: vi.fn().mockReturnThis(),
+      order: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({ data: null, error: null }),
+      maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      then: (resolve: (value: unknown) => unknown) =>
+        resolve(awaitedResults.shift() ?? { data: [], error: null }),
+    }
+
+    mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: ownerId } },
+          error: null,
+        }),
+      },
+      from: vi.fn(() => chain),
+    }
+
+    vi.spyOn(supabaseModule, "createClient").mockResolvedValue(mockSupabase)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("createPerson", () => {
+    it("should add the person to the current user's directory", async () => {
+      chain.single.mockResolvedValueOnce({ data: { id: rosaId, name: "Rosa" }, error: null })
+
+      const result = await createPerson({ name: "Rosa", relationship: "Grandmother" })
+
+      expect(result.data).toEqual({ id: rosaId, name: "Rosa" })
+      expect(chain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: "Rosa",
+          relationship: "Grandmother",
+          user_id: ownerId,
+          portrait_url: null,
+        })
+      )
+    })
+
+    it("should only take a photo as the portrait", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({
+        data: { public_url: "https://x/a.mp3", media_type: "audio" },
+        error: null,
+      })
+
+      const result = await createPerson({
+        name: "Rosa",
+        portrait_media_id: "a1111111-1111-4111-a111-111111111111",
+      })
+
+      expect(result.error).toMatch(/photo/)
+      expect(chain.insert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("saveArtifactPeople", () => {
+    const links = [
+      { person_id: rosaId, role: "original_owner" as const },
+      { person_id: joeId, role: "maker" as const },
+    ]
+
+    it("should only let the artifact's owner link people", async () => {
+      chain.single.mockResolvedValueOnce({
+        data: { user_id: "someone-else", slug: "clock" },
+        error: null,
+      })
+
+      const result = await saveArtifactPeople({ artifact_id: artifactId, links })
+
+      expect(result.error).toBe("Only the artifact's owner can link people")
+      expect(chain.delete).not.toHaveBeenCalled()
+    })
+
+    it("should reject people outside the owner's directory", async () => {
+      chain.single.mockResolvedValueOnce({ data: { user_id: ownerId, slug: "clock" }, error: null })
+      awaitedResults.push({ data: [{ id: rosaId }], error: null })
+
+      const result = await saveArtifactPeople({ artifact_id: artifactId, links })
+
+      expect(result.error).toBe("People must be in the owner's directory")
+      expect(chain.delete).not.toHaveBeenCalled()
+    })
+
+    it("should replace the links and return the people with their roles", async () => {
+      chain.single.mockResolvedValueOnce({ data: { user_id: ownerId, slug: "clock" }, error: null })
+      awaitedResults.push(
+        { data: [{ id: rosaId }, { id: joeId }], error: null }, // directory check
+        { error: null }, // delete
+        { error: null }, // insert
+        {
+          data: [
+            { role: "original_owner", person: { id: rosaId, name: "Rosa" } },
+            { role: "maker", person: { id: joeId, name: "Joe" } },
+          ],
+          error: null,
+        }
+      )
+
+      const result = await saveArtifactPeople({ artifact_id: artifactId, links })
+
+      expect(chain.insert).toHaveBeenCalledWith([
+        { person_id: rosaId, role: "original_owner", artifact_id: artifactId },
+        { person_id: joeId, role: "maker", artifact_id: artifactId },
+      ])
+      expect(result.data?.map((person) => [person.name, person.roles])).toEqual([
+        ["Joe", ["maker"]],
+        ["Rosa", ["original_owner"]],
+      ])
+    })
+  })
+
+  describe("getPersonArtifacts", () => {
+    it("should list each artifact once with all the person's roles, newest first", async () => {
+      awaitedResults.push({
+        data: [
+          { role: "maker", artifact: { id: "a", created_at: "2025-01-01" } },
+          { role: "pictured", artifact: { id: "b", created_at: "2025-06-01" } },
+          { role: "mentioned", artifact: { id: "a", created_at: "2025-01-01" } },
+          { role: "mentioned", artifact: null },
+        ],
+        error: null,
+      })
+
+      const artifacts = await getPersonArtifacts(rosaId)
+
+      expect(artifacts.map((artifact) => [artifact.id, artifact.roles])).toEqual([
+        ["b", ["pictured"]],
+        ["a", ["maker", "mentioned"]],
+      ])
+    })
+  })
+})
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { fixtures } from "@/__tests__/fixtures"
+import { getMapArtifacts, locatePlaces, updatePlaceLocation } from "@/lib/actions/places"
+import * as supabaseModule from "@/lib/supabase/server"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/utils/admin", () => ({
+  isCurrentUserAdmin: vi.fn(),
+}))
+
+const placeId = "71111111-1111-4111-a111-111111111111"
+const ownerId = fixtures.users.validUser.id
+
+describe("Place Server Actions", () => {
+  let mockSupabase: any
+  let chain: any
+  // Results for queries awaited without .single()/.maybeSingle(), in call order
+  let awaitedResults: { data?: any; error: any }[]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(isCurrentUserAdmin).mockResolvedValue(false)
+    awaitedResults = []
+
+    chain = {
+      select: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      is: vi.fn().mockReturnThis(),
+      order: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({ data: null, error: null }),
+      maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      then: (resolve: (value: unknown) => unknown) =>
+        resolve(awaitedResults.shift() ?? { data: [], error: null }),
+    }
+
+    mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: ownerId } },
+          error: null,
+        }),
+      },
+      from: vi.fn(() => chain),
+    }
+
+    vi.spyOn(supabaseModule, "createClient").mockResolvedValue(mockSupabase)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("updatePlaceLocation", () => {
+    it("should pin the owner's place", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { user_id: ownerId }, error: null })
+      chain.single.mockResolvedValueOnce({ data: { id: placeId, name: "Lucca" }, error: null })
+
+      const result = await updatePlaceLocation(placeId, { latitude: 43.84, longitude: 10.5 })
+
+      expect(result.data).toEqual({ id: placeId, name: "Lucca" })
+      expect(chain.update).toHaveBeenCalledWith({
+        latitude: 43.84,
+        longitude: 10.5,
+        location_source: "pin",
+      })
+    })
+
+    it("should clear the source with the coordinates", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { user_id: ownerId }, error: null })
+      chain.single.mockResolvedValueOnce({ data: { id: placeId }, error: null })
+
+      await updatePlaceLocation(placeId, { latitude: null, longitude: null })
+
+      expect(chain.update).toHaveBeenCalledWith({
+        latitude: null,
+        longitude: null,
+        location_source: null,
+      })
+    })
+
+    it("should only let the owner move a place", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { user_id: "someone-else" }, error: null })
+
+      const result = await updatePlaceLocation(placeId, { latitude: 43.84, longitude: 10.5 })
+
+      expect(result.error).toBe("Unauthorized")
+      expect(chain.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("getMapArtifacts", () => {
+    it("should plot each artifact at its best located place", async () => {
+      const lucca = { id: "p1", name: "Lucca", latitude: 43.84, longitude: 10.5 }
+      const boston = { id: "p2", name: "Boston", latitude: 42.36, longitude: -71.06 }
+      const attic = { id: "p3", name: "The attic", latitude: null, longitude: null }
+      const artifact = {
+        slug: "a",
+        title: "Artifact",
+        thumbnail_url: null,
+        collection: null,
+        artifact_type: null,
+      }
+      awaitedResults = [
+        {
+          data: [
+            {
+              ...artifact,
+              id: "a1",
+              origin_place: attic,
+              provenance_events: [
+                { sort_order: 1, place: lucca },
+                { sort_order: 0, place: boston },
+              ],
+              artifact_places: [],
+            },
+            {
+              ...artifact,
+              id: "a2",
+              origin_place: null,
+              provenance_events: [],
+              artifact_places: [{ place: attic }],
+            },
+          ],
+          error: null,
+        },
+        { data: [{ id: attic.id, name: attic.name }], error: null },
+      ]
+
+      const result = await getMapArtifacts()
+
+      expect(result.data?.artifacts).toEqual([
+        { ...artifact, id: "a1", place: boston, place_kind: "provenance" },
+      ])
+      expect(result.data?.unlocated).toEqual([{ id: attic.id, name: attic.name }])
+    })
+  })
+
+  describe("locatePlaces", () => {
+    it("should locate the places the gazetteer knows", async () => {
+      awaitedResults = [
+        {
+          data: [
+            { id: "p1", name: "Lucca" },
+            { id: "p3", name: "The attic" },
+          ],
+          error: null,
+        },
+        { error: null },
+      ]
+
+      const result = await locatePlaces()
+
+      expect(result.data).toEqual({ located: 1, remaining: 1 })
+      expect(chain.update).toHaveBeenCalledTimes(1)
+      expect(chain.update).toHaveBeenCalledWith({
+        latitude: 43.84,
+        longitude: 10.5,
+        location_source: "gazetteer",
+      })
+    })
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { fixtures } from "@/__tests__/fixtures"
+import { createShareLink, resolveShareLink, revokeShareLink, unlockShareLink } from "@/lib/actions/share-links"
+import { createMemoryRateLimitStore, setRateLimitStore } from "@/lib/rate-limit"
+import * as supabaseModule from "@/lib/supabase/server"
+import * as serviceModule from "@/lib/supabase/service"
+import { RATE_LIMITS } from "@/lib/utils/rate-limit"
+
+const cookieStore = {
+  get: vi.fn(),
+  set: vi.fn(),
+}
+
+vi.mock("next/headers", () => ({
+  cookies: vi.fn(async () => cookieStore),
+  headers: vi.fn(async () => new Headers({ "x-forwarded-for": "203.0.113.7" })),
+}))
+
+vi.mock("next/navigation", () => ({
+  redirect: vi.fn((url: string) => {
+    throw new Error(`REDIRECT:${url}`)
+  }),
+}))
+
+const token = "T".repeat(32)
+const artifact = fixtures.artifacts.imageArtifact
+
+describe("Share Link Server Actions", () => {
+  let mockSupabase: any
+  let mockServiceClient: any
+  let chain: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    cookieStore.get.mockReturnValue(undefined)
+    setRateLimitStore(createMemoryRateLimitStore())
+
+    chain = {
+      select: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      delete: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      is: vi.fn().mockReturnThis(),
+      order: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({ data: { user_id: fixtures.users.validUser.id }, error: null }),
+    }
+
+    mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: fixtures.users.validUser.id } },
+          error: null,
+        }),
+      },
+      from: vi.fn(() => chain),
+      rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
+    }
+
+    mockServiceClient = {
+      rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
+    }
+
+    vi.spyOn(supabaseModule, "createClient").mockResolvedValue(mockSupabase)
+    vi.spyOn(serviceModule, "createServiceClient").mockReturnValue(mockServiceClient)
+  })
+
+  afterEach(() => {
+    setRateLimitStore(null)
+    vi.restoreAllMocks()
+  })
+
+  describe("createShareLink", () => {
+    it("should require exactly one target", async () => {
+      const result = await createShareLink({ artifact_id: artifact.id, collection_id: artifact.collection_id })
+
+      expect(result.error).toBe("Invalid input")
+    })
+
+    it("should reject links for items the user doesn't own", async () => {
+      chain.single.mockResolvedValueOnce({ data: { user_id: fixtures.users.anotherUser.id }, error: null })
+
+      const result = await createShareLink({ artifact_id: artifact.id })
+
+      expect(result.error).toBe("Only the owner can create share links")
+      expect(chain.insert).not.toHaveBeenCalled()
+    })
+
+    it("should create a link with a random token and hash the password in the database", async () => {
+      chain.single.mockResolvedValueOnce({ data: { user_id: fixtures.users.validUser.id }, error: null })
+      chain.single.mockResolvedValueOnce({
+        data: {
+          id: "s1111111-1111-4111-a111-111111111111",
+          token,
+          user_id: fixtures.users.validUser.id,
+          artifact_id: artifact.id,
+          collection_id: null,
+          expires_at: null,
+          password_hash: null,
+          revoked_at: null,
+          view_count: 0,
+          last_viewed_at: null,
+          created_at: "2025-01-01T00:00:00Z",
+        },
+        error: null,
+      })
+
+      const result = await createShareLink({ artifact_id: artifact.id, password: "secret" })
+
+      const inserted = chain.insert.mock.calls[0][0]
+      expect(inserted.token).toMatch(/^[A-Za-z0-9_-]{32}$/)
+      expect(inserted).not.toHaveProperty("password")
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("set_share_link_password", {
+        p_link_id: "s1111111-1111-4111-a111-111111111111",
+        p_password: "secret",
+      })
+      expect(result.data?.has_password).toBe(true)
+      expect(result.data).not.toHaveProperty("password_hash")
+    })
+  })
+
+  describe("revokeShareLink", () => {
+    it("should report links that don't belong to the user", async () => {
+      chain.select.mockResolvedValueOnce({ data: [], error: null })
+
+      const result = await revokeShareLink("s1111111-1111-4111-a111-111111111111")
+
+      expect(result).toEqual({ success: false, error: "Share link not found" })
+      expect(chain.eq).toHaveBeenCalledWith("user_id", fixtures.users.validUser.id)
+    })
+  })
+
+  describe("resolveShareLink", () => {
+    it("should short-circuit malformed tokens", async () => {
+      const result = await resolveShareLink("nope")
+
+      expect(result.status).toBe("not_found")
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it("should pass the unlock key from the grant cookie", async () => {
+      cookieStore.get.mockReturnValue({ value: `${token}.abc123` })
+      mockSupabase.rpc.mockResolvedValueOnce({
+        data: [{ status: "ok", target_type: "artifact", target_id: artifact.id, target_slug: artifact.slug }],
+        error: null,
+      })
+
+      const result = await resolveShareLink(token, { recordView: true })
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("resolve_share_link", {
+        p_token: token,
+        p_unlock_key: "abc123",
+        p_record_view: true,
+      })
+      expect(result).toEqual({ status: "ok", target_type: "artifact", target_id: artifact.id, target_slug: artifact.slug })
+    })
+  })
+
+  describe("unlockShareLink", () => {
+    it("should reject a wrong password without setting a cookie", async () => {
+      mockServiceClient.rpc.mockResolvedValueOnce({ data: null, error: null })
+
+      const result = await unlockShareLink(token, "wrong")
+
+      expect(result).toEqual({ error: "Incorrect password" })
+      expect(cookieStore.set).not.toHaveBeenCalled()
+    })
+
+    it("should check the password with the service role, not the visitor's client", async () => {
+      await unlockShareLink(token, "wrong")
+
+      expect(mockServiceClient.rpc).toHaveBeenCalledWith("unlock_share_link", { p_token: token, p_password: "wrong" })
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it("should store the unlock key and redirect back to the share link", async () => {
+      mockServiceClient.rpc.mockResolvedValueOnce({ data: "abc123", error: null })
+
+      await expect(unlockShareLink(token, "secret")).rejects.toThrow(`REDIRECT:/share/${token}`)
+      expect(cookieStore.set).toHaveBeenCalledWith("share_grants", `${token}.abc123`, expect.any(Object))
+    })
+
+    it("should stop checking passwords after too many attempts", async () => {
+      for (let attempt = 0; attempt < RATE_LIMITS["share-unlock"].limit; attempt++) {
+        await unlockShareLink(token, "wrong")
+      }
+      mockServiceClient.rpc.mockClear()
+
+      const result = await unlockShareLink(token, "secret")
+
+      expect(result).toEqual({ error: "Too many attempts. Please wait a minute and try again." })
+      expect(mockServiceClient.rpc).not.toHaveBeenCalled()
+    })
+  })
+})
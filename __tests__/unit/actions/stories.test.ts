@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { fixtures } from "@/__tests__/fixtures"
+import { createStory, getStoryBySlug, saveStoryBlocks } from "@/lib/actions/stories"
+import * as supabaseModule from "@/lib/supabase/server"
+import { markUploadsAsSaved } from "@/lib/actions/pending-uploads"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/actions/pending-uploads", () => ({
+  markUploadsAsSaved: vi.fn(),
+}))
+
+vi.mock("@/lib/utils/admin", () => ({
+  isCurrentUserAdmin: vi.fn(),
+}))
+
+const artifact = fixtures.artifacts.imageArtifact
+const storyId = "51111111-1111-4111-a111-111111111111"
+const mediaId = "a1111111-1111-4111-a111-111111111111"
+const audioId = "a2222222-2222-4222-a222-222222222222"
+const photoUrl = "https://example.supabase.co/storage/v1/object/public/heirlooms-media/u/stories/photo.jpg"
+
+const story = {
+  id: storyId,
+  user_id: fixtures.users.validUser.id,
+  slug: "nonnas-journey",
+  title: "Nonna's Journey",
+  description: null,
+  cover_image_url: null,
+  is_public: true,
+  created_at: "2025-12-09T00:00:00Z",
+  updated_at: "2025-12-09T00:00:00Z",
+}
+
+describe("Story Server Actions", () => {
+  let mockSupabase: any
+  let chain: any
+  // Results for queries awaited without .single()/.maybeSingle(), in call order
+  let awaitedResults: { data?: any; error: any }[]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(isCurrentUserAdmin).mockResolvedValue(false)
+    awaitedResults = []
+
+    chain = {
+      select: vi.fn().mockReturnThis(),
+      insert: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      delete: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      in: vi.fn().mockReturnThis(),
+      order: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({ data: null, error: null }),
+      maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+      then: (resolve: (value: unknown) => unknown) => resolve(awaitedResults.shift() ?? { data: [], error: null }),
+    }
+
+    mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: fixtures.users.validUser.id } },
+          error: null,
+        }),
+      },
+      from: vi.fn(() => chain),
+    }
+
+    vi.spyOn(supabaseModule, "createClient").mockResolvedValue(mockSupabase)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("createStory", () => {
+    it("should create a private story with a unique slug", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { id: "taken" }, error: null })
+      chain.single.mockResolvedValueOnce({ data: { ...story, slug: "nonnas-journey-2" }, error: null })
+
+      const result = await createStory({ title: "Nonna's Journey" })
+
+      expect(result.success).toBe(true)
+      expect(chain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ slug: "nonnas-journey-2", user_id: fixtures.users.validUser.id, is_public: false }),
+      )
+    })
+
+    it("should require a title", async () => {
+      const result = await createStory({ title: "   " })
+
+      expect(result.success).toBe(false)
+      expect(result.fieldErrors?.title).toBeDefined()
+    })
+  })
+
+  describe("saveStoryBlocks", () => {
+    it("should copy library media onto the blocks in order", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: story, error: null })
+      awaitedResults = [
+        { data: [{ id: mediaId, public_url: photoUrl, media_type: "image" }], error: null },
+        { data: [{ id: artifact.id }], error: null },
+        { error: null },
+        { data: [], error: null },
+      ]
+
+      const result = await saveStoryBlocks({
+        story_id: storyId,
+        blocks: [
+          { block_type: "text", body: "It began in Naples." },
+          { block_type: "media", media_id: mediaId, body: "The harbour" },
+          { block_type: "artifact", artifact_id: artifact.id, body: null },
+        ],
+      })
+
+      expect(result.error).toBeUndefined()
+      const rows = chain.insert.mock.calls[0][0]
+      expect(rows.map((row: any) => [row.sort_order, row.block_type])).toEqual([
+        [0, "text"],
+        [1, "media"],
+        [2, "artifact"],
+      ])
+      expect(rows[1]).toMatchObject({ media_id: mediaId, media_url: photoUrl, media_type: "image", body: "The harbour" })
+      expect(markUploadsAsSaved).toHaveBeenCalledWith([photoUrl])
+    })
+
+    it("should reject media that isn't in the user's library", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: story, error: null })
+      awaitedResults = [{ data: [], error: null }]
+
+      const result = await saveStoryBlocks({
+        story_id: storyId,
+        blocks: [{ block_type: "audio", media_id: audioId, body: null }],
+      })
+
+      expect(result.error).toBe("Some media is no longer in your library")
+      expect(chain.delete).not.toHaveBeenCalled()
+    })
+
+    it("should only let the author or an admin edit", async () => {
+      chain.maybeSingle.mockResolvedValueOnce({ data: { ...story, user_id: fixtures.users.anotherUser.id }, error: null })
+
+      const result = await saveStoryBlocks({ story_id: storyId, blocks: [] })
+
+      expect(result.error).toBe("Unauthorized")
+      expect(chain.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("getStoryBySlug", () => {
+    it("should return null embeds for artifacts the reader can't see", async () => {
+      chain.maybeSingle
+        .mockResolvedValueOnce({ data: story, error: null })
+        .mockResolvedValueOnce({ data: { display_name: "Maria" }, error: null })
+      awaitedResults = [
+        {
+          data: [
+            { id: "b1", story_id: storyId, sort_order: 0, block_type: "artifact", artifact_id: artifact.id, body: null },
+          ],
+          error: null,
+        },
+        { data: [], error: null },
+      ]
+
+      const result = await getStoryBySlug(story.slug)
+
+      expect(result?.author_name).toBe("Maria")
+      expect(result?.blocks[0].artifact).toBeNull()
+    })
+  })
+})
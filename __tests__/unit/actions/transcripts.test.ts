@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { fixtures } from "@/__tests__/fixtures"
+import { updateTranscriptSegment } from "@/lib/actions/transcripts"
+import * as supabaseModule from "@/lib/supabase/server"
+import { getMyCollectionFamilyRole } from "@/lib/actions/families"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock("@/lib/actions/families", () => ({
+  getMyCollectionFamilyRole: vi.fn(),
+}))
+
+vi.mock("@/lib/utils/admin", () => ({
+  isCurrentUserAdmin: vi.fn(),
+}))
+
+const artifact = fixtures.artifacts.imageArtifact
+const audioUrl = "https://example.com/interview.mp3"
+const segments = [
+  { start: 0, end: 3, text: "We bought it in Lyon." },
+  { start: 3, end: 6.5, text: "It was raining." },
+]
+
+describe("Transcript Server Actions", () => {
+  let mockSupabase: any
+  let chain: any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(isCurrentUserAdmin).mockResolvedValue(false)
+    vi.mocked(getMyCollectionFamilyRole).mockResolvedValue(null)
+
+    chain = {
+      select: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockResolvedValue({ error: null }),
+      single: vi.fn().mockResolvedValue({
+        data: {
+          user_id: artifact.user_id,
+          slug: artifact.slug,
+          collection_id: artifact.collection_id,
+          audio_transcripts: { [audioUrl]: "We bought it in Lyon. It was raining." },
+          audio_transcript_segments: { [audioUrl]: segments },
+        },
+        error: null,
+      }),
+    }
+    // The artifact lookup chains .eq().single(); the update awaits .eq() directly
+    chain.eq.mockImplementationOnce(() => chain)
+
+    mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: fixtures.users.validUser.id } },
+          error: null,
+        }),
+      },
+      from: vi.fn(() => chain),
+    }
+
+    vi.spyOn(supabaseModule, "createClient").mockResolvedValue(mockSupabase)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("updateTranscriptSegment", () => {
+    const input = { artifact_id: artifact.id, audio_url: audioUrl, index: 0, text: "We bought it in Lille." }
+
+    it("should correct one segment and rebuild the transcript", async () => {
+      const result = await updateTranscriptSegment(input)
+
+      expect(result.data).toEqual([{ start: 0, end: 3, text: "We bought it in Lille." }, segments[1]])
+      expect(chain.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          audio_transcripts: { [audioUrl]: "We bought it in Lille. It was raining." },
+          audio_transcript_segments: { [audioUrl]: result.data },
+        }),
+      )
+    })
+
+    it("should reject empty text", async () => {
+      const result = await updateTranscriptSegment({ ...input, text: "  " })
+
+      expect(result.error).toBe("Invalid input")
+      expect(result.fieldErrors).toHaveProperty("text")
+    })
+
+    it("should only let editors correct transcripts", async () => {
+      vi.mocked(getMyCollectionFamilyRole).mockResolvedValueOnce("viewer")
+      chain.single.mockResolvedValueOnce({
+        data: { user_id: "someone-else", slug: artifact.slug, collection_id: artifact.collection_id },
+        error: null,
+      })
+
+      const result = await updateTranscriptSegment(input)
+
+      expect(result.error).toBe("Unauthorized")
+      expect(chain.update).not.toHaveBeenCalled()
+    })
+
+    it("should refuse segments that don't exist", async () => {
+      const result = await updateTranscriptSegment({ ...input, index: 5 })
+
+      expect(result.error).toBe("Transcript segment not found")
+      expect(chain.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { runAiJob, processAiJobs } from "@/lib/ai-jobs"
+import { AnalysisError, runAnalysisStep } from "@/lib/analysis"
+import { AiQuotaError } from "@/lib/ai-usage"
+import { createServiceClient } from "@/lib/supabase/service"
+import type { AiJob } from "@/lib/types/ai-jobs"
+import { createJobSteps } from "@/lib/utils/ai-jobs"
+
+vi.mock("@/lib/analysis", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/analysis")>()),
+  runAnalysisStep: vi.fn(),
+}))
+
+vi.mock("@/lib/supabase/service", () => ({
+  createServiceClient: vi.fn(),
+}))
+
+const artifactId = "a1111111-1111-4111-a111-111111111111"
+
+function makeJob(overrides: Partial<AiJob> = {}): AiJob {
+  const now = new Date().toISOString()
+  return {
+    id: "j1111111-1111-4111-a111-111111111111",
+    artifact_id: artifactId,
+    requested_by: "u1111111-1111-4111-a111-111111111111",
+    status: "running",
+    steps: createJobSteps(["audio", "images", "summary"]),
+    max_attempts: 3,
+    last_error: null,
+    run_after: now,
+    locked_at: now,
+    locked_by: "worker-1",
+    created_at: now,
+    updated_at: now,
+    finished_at: null,
+    ...overrides,
+  }
+}
+
+describe("AI job worker", () => {
+  let mockSupabase: any
+  let updates: { table: string; values: any }[]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(runAnalysisStep).mockResolvedValue(undefined)
+    updates = []
+
+    mockSupabase = {
+      from: vi.fn((table: string) => ({
+        update: vi.fn((values: any) => {
+          updates.push({ table, values })
+          return { eq: vi.fn().mockResolvedValue({ error: null }) }
+        }),
+      })),
+      rpc: vi.fn(),
+    }
+  })
+
+  const artifactUpdates = () => updates.filter((update) => update.table === "artifacts").map((update) => update.values)
+
+  describe("runAiJob", () => {
+    it("should run every step in order and mark the job and artifact done", async () => {
+      const result = await runAiJob(mockSupabase, makeJob())
+
+      expect(vi.mocked(runAnalysisStep).mock.calls.map(([step]) => step)).toEqual(["audio", "images", "summary"])
+      expect(result.status).toBe("succeeded")
+      expect(result.steps.every((step) => step.status === "succeeded" && step.attempts === 1)).toBe(true)
+      expect(result.locked_by).toBeNull()
+      expect(artifactUpdates().at(-1)).toMatchObject({ analysis_status: "done", analysis_error: null })
+    })
+
+    it("should skip steps that have nothing to analyze", async () => {
+      vi.mocked(runAnalysisStep).mockImplementation(async (step) => {
+        if (step === "audio") throw new AnalysisError("No audio file found in artifact", 400)
+      })
+
+      const result = await runAiJob(mockSupabase, makeJob())
+
+      expect(result.status).toBe("succeeded")
+      expect(result.steps[0]).toMatchObject({ status: "skipped", error: "No audio file found in artifact" })
+      expect(result.steps[1].status).toBe("succeeded")
+    })
+
+    it("should re-queue the job with backoff when a step fails", async () => {
+      vi.mocked(runAnalysisStep).mockImplementation(async (step) => {
+        if (step === "images") throw new Error("Rate limited")
+      })
+
+      const before = Date.now()
+      const result = await runAiJob(mockSupabase, makeJob())
+
+      expect(result.status).toBe("queued")
+      expect(result.last_error).toBe("Rate limited")
+      expect(result.locked_by).toBeNull()
+      expect(new Date(result.run_after).getTime()).toBeGreaterThanOrEqual(before + 30_000)
+      expect(result.steps.map((step) => step.status)).toEqual(["succeeded", "pending", "pending"])
+      expect(result.steps[1]).toMatchObject({ attempts: 1, error: "Rate limited" })
+      expect(runAnalysisStep).not.toHaveBeenCalledWith("summary", expect.anything(), artifactId)
+      expect(artifactUpdates().at(-1)).toMatchObject({ analysis_status: "queued" })
+    })
+
+    it("should resume after the steps that already finished", async () => {
+      const job = makeJob()
+      job.steps[0] = { ...job.steps[0], status: "succeeded", attempts: 1 }
+      job.steps[1] = { ...job.steps[1], status: "pending", attempts: 1, error: "Rate limited" }
+
+      const result = await runAiJob(mockSupabase, job)
+
+      expect(vi.mocked(runAnalysisStep).mock.calls.map(([step]) => step)).toEqual(["images", "summary"])
+      expect(result.steps[1]).toMatchObject({ status: "succeeded", attempts: 2, error: null })
+    })
+
+    it("should save progress and partial results as a step reports them", async () => {
+      // Steps are saved by reference, so copy what was written at each point
+      const saved: any[] = []
+      const lastSavedStep = () => structuredClone(updates.filter((update) => update.table === "ai_jobs").at(-1)?.values.steps[1])
+      vi.mocked(runAnalysisStep).mockImplementation(async (step, _supabase, _artifactId, options) => {
+        if (step !== "images") return
+        await options?.onProgress?.({ message: "Captioning image 1 of 2", current: 1, total: 2 })
+        saved.push(lastSavedStep())
+        await options?.onProgress?.(
+          { message: "Captioning image 1 of 2", current: 1, total: 2 },
+          { captions: { "https://example.com/a.jpg": "A quilt" } },
+        )
+        saved.push(lastSavedStep())
+      })
+
+      const result = await runAiJob(mockSupabase, makeJob())
+
+      expect(saved[0]).toMatchObject({ status: "running", progress: { message: "Captioning image 1 of 2" }, output: null })
+      expect(saved[1]).toMatchObject({ output: { captions: { "https://example.com/a.jpg": "A quilt" } } })
+      expect(result.steps[1]).toMatchObject({
+        status: "succeeded",
+        progress: null,
+        output: { captions: { "https://example.com/a.jpg": "A quilt" } },
+      })
+    })
+
+    it("should fail the job once a step runs out of attempts", async () => {
+      vi.mocked(runAnalysisStep).mockRejectedValue(new Error("Transcription failed"))
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+      const job = makeJob()
+      job.steps[0] = { ...job.steps[0], attempts: 2, error: "Transcription failed" }
+
+      const result = await runAiJob(mockSupabase, job)
+
+      expect(result.status).toBe("failed")
+      expect(result.finished_at).not.toBeNull()
+      expect(result.steps[0]).toMatchObject({ status: "failed", attempts: 3 })
+      expect(artifactUpdates().at(-1)).toEqual({
+        analysis_status: "error",
+        analysis_error: "failed at audio: Transcription failed",
+      })
+      consoleSpy.mockRestore()
+    })
+
+    it("should not retry when the artifact is gone", async () => {
+      vi.mocked(runAnalysisStep).mockRejectedValue(new AnalysisError("Artifact not found", 404))
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+
+      const result = await runAiJob(mockSupabase, makeJob())
+
+      expect(result.status).toBe("failed")
+      expect(runAnalysisStep).toHaveBeenCalledTimes(1)
+      consoleSpy.mockRestore()
+    })
+
+    it("should meter steps against the requester and not retry once their quota is used up", async () => {
+      vi.mocked(runAnalysisStep).mockRejectedValue(new AiQuotaError("You've used your monthly AI allowance"))
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+
+      const result = await runAiJob(mockSupabase, makeJob())
+
+      expect(vi.mocked(runAnalysisStep).mock.calls[0][3]).toMatchObject({ meter: expect.any(Object) })
+      expect(result.status).toBe("failed")
+      expect(runAnalysisStep).toHaveBeenCalledTimes(1)
+      expect(artifactUpdates().at(-1)).toEqual({
+        analysis_status: "error",
+        analysis_error: "failed at audio: You've used your monthly AI allowance",
+      })
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe("processAiJobs", () => {
+    it("should claim and run jobs until the queue is empty", async () => {
+      vi.mocked(createServiceClient).mockReturnValue(mockSupabase)
+      mockSupabase.rpc
+        .mockResolvedValueOnce({ data: [makeJob()], error: null })
+        .mockResolvedValueOnce({ data: [makeJob({ id: "j2" })], error: null })
+        .mockResolvedValueOnce({ data: [], error: null })
+
+      const result = await processAiJobs({ timeBudgetMs: 60_000 })
+
+      expect(result).toEqual({ processed: 2 })
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("claim_ai_job", {
+        p_worker_id: expect.any(String),
+        p_lock_timeout_seconds: 600,
+      })
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { AiQuotaError, createUsageMeter } from "@/lib/ai-usage"
+
+describe("AI usage meter", () => {
+  let mockSupabase: any
+  let quotaRow: { monthly_tokens: number | null; monthly_audio_seconds: number | null } | null
+  let usageRows: Record<string, unknown>[]
+  const insert = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    quotaRow = null
+    usageRows = []
+    insert.mockResolvedValue({ error: null })
+
+    const quotaChain = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      maybeSingle: vi.fn(() => Promise.resolve({ data: quotaRow, error: null })),
+    }
+
+    mockSupabase = {
+      rpc: vi.fn(() => Promise.resolve({ data: usageRows, error: null })),
+      from: vi.fn((table: string) => (table === "ai_usage_events" ? { insert } : quotaChain)),
+    }
+  })
+
+  it("should allow calls under the quota", async () => {
+    usageRows = [{ capability: "vision", calls: 2, input_tokens: "1000", output_tokens: "200", audio_seconds: "0" }]
+
+    await expect(createUsageMeter(mockSupabase, { userId: "user-1" }).check()).resolves.toBeUndefined()
+    expect(mockSupabase.rpc).toHaveBeenCalledWith("get_ai_usage_totals", {
+      p_user_id: "user-1",
+      p_since: expect.stringMatching(/-01T00:00:00.000Z$/),
+    })
+  })
+
+  it("should refuse calls once the user's quota is used up", async () => {
+    quotaRow = { monthly_tokens: 1000, monthly_audio_seconds: null }
+    usageRows = [{ capability: "summary", calls: 1, input_tokens: 900, output_tokens: 100 }]
+
+    const check = createUsageMeter(mockSupabase, { userId: "user-1" }).check()
+
+    await expect(check).rejects.toBeInstanceOf(AiQuotaError)
+    await expect(check).rejects.toMatchObject({ status: 429, message: expect.stringMatching(/1,000 tokens/) })
+  })
+
+  it("should record calls with their estimated cost", async () => {
+    const meter = createUsageMeter(mockSupabase, { userId: "user-1", artifactId: "artifact-1" })
+
+    await meter.record("transcription", "openai/whisper-1", { audioSeconds: 120 })
+
+    expect(insert).toHaveBeenCalledWith({
+      user_id: "user-1",
+      artifact_id: "artifact-1",
+      capability: "transcription",
+      model: "openai/whisper-1",
+      input_tokens: 0,
+      output_tokens: 0,
+      audio_seconds: 120,
+      cost_usd: 0.012,
+    })
+  })
+
+  it("should count recorded calls without reloading usage", async () => {
+    quotaRow = { monthly_tokens: 1000, monthly_audio_seconds: null }
+    const meter = createUsageMeter(mockSupabase, { userId: "user-1" })
+
+    await meter.check()
+    await meter.record("vision", "openai/gpt-4o", { inputTokens: 800, outputTokens: 300 })
+
+    await expect(meter.check()).rejects.toBeInstanceOf(AiQuotaError)
+    expect(mockSupabase.rpc).toHaveBeenCalledTimes(1)
+  })
+
+  it("should not throw when recording fails", async () => {
+    insert.mockResolvedValue({ error: { message: "permission denied" } })
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+
+    await expect(
+      createUsageMeter(mockSupabase, { userId: "user-1" }).record("text", "openai/gpt-4o", { inputTokens: 10 }),
+    ).resolves.toBeUndefined()
+    expect(consoleSpy).toHaveBeenCalled()
+    consoleSpy.mockRestore()
+  })
+})
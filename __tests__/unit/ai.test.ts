@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { z } from "zod"
+import {
+  getAiProviderConfig,
+  getSummaryProvider,
+  getTextProvider,
+  getTranscriptionProvider,
+  getVisionProvider,
+  setAiProvider,
+  AiProviderError,
+} from "@/lib/ai"
+import { FAKE_TRANSCRIPT } from "@/lib/ai-providers/fake"
+import { getEmbeddingProvider } from "@/lib/embeddings"
+
+describe("AI providers", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "")
+    vi.stubEnv("AI_PROVIDER_VISION", "")
+    vi.stubEnv("AI_PROVIDER_TRANSCRIPTION", "")
+    vi.stubEnv("AI_BASE_URL", "")
+    vi.stubEnv("AI_BASE_URL_TRANSCRIPTION", "")
+    vi.stubEnv("AI_API_KEY", "")
+    vi.stubEnv("OPENAI_API_KEY", "sk-test")
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    setAiProvider("vision", null)
+  })
+
+  describe("provider selection", () => {
+    it("should default to OpenAI", () => {
+      expect(getAiProviderConfig("summary")).toEqual({
+        kind: "openai",
+        baseURL: "https://api.openai.com/v1",
+        apiKey: "sk-test",
+      })
+      expect(getVisionProvider().id).toBe("openai/gpt-4o")
+    })
+
+    it("should let a capability override AI_PROVIDER", () => {
+      vi.stubEnv("AI_PROVIDER", "fake")
+      vi.stubEnv("AI_PROVIDER_VISION", "openai")
+
+      expect(getVisionProvider().id).toBe("openai/gpt-4o")
+      expect(getTextProvider().id).toBe("fake/text")
+      expect(getEmbeddingProvider().id).toBe("local/hash")
+    })
+
+    it("should read the base URL and key of an OpenAI-compatible server per capability", () => {
+      vi.stubEnv("AI_PROVIDER", "openai-compatible")
+      vi.stubEnv("AI_BASE_URL", "http://localhost:11434/v1/")
+      vi.stubEnv("AI_BASE_URL_TRANSCRIPTION", "http://localhost:8080/v1")
+      vi.stubEnv("AI_API_KEY", "local-key")
+
+      expect(getAiProviderConfig("summary")).toEqual({
+        kind: "openai-compatible",
+        baseURL: "http://localhost:11434/v1",
+        apiKey: "local-key",
+      })
+      expect(getAiProviderConfig("transcription").baseURL).toBe("http://localhost:8080/v1")
+      expect(getSummaryProvider().id).toBe("openai-compatible/gpt-4o")
+    })
+
+    it("should reject an OpenAI-compatible provider without a base URL", () => {
+      vi.stubEnv("AI_PROVIDER", "openai-compatible")
+
+      expect(() => getAiProviderConfig("text")).toThrow(/AI_BASE_URL/)
+    })
+
+    it("should reject unknown providers", () => {
+      vi.stubEnv("AI_PROVIDER_VISION", "acme")
+
+      expect(() => getVisionProvider()).toThrow(/Unknown AI provider "acme" for vision/)
+    })
+
+    it("should prefer an override set in code", () => {
+      const vision = { id: "test/vision", describeImage: vi.fn() }
+      setAiProvider("vision", vision)
+
+      expect(getVisionProvider()).toBe(vision)
+    })
+  })
+
+  describe("OpenAI transcription", () => {
+    it("should post to the configured server and surface API errors", async () => {
+      vi.stubEnv("AI_PROVIDER_TRANSCRIPTION", "openai-compatible")
+      vi.stubEnv("AI_BASE_URL_TRANSCRIPTION", "http://localhost:8080/v1")
+      const fetchMock = vi
+        .spyOn(global, "fetch")
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({
+              text: "Hello",
+              duration: 4.2,
+              segments: [{ id: 0, start: 0, end: 1.5, text: " Hello", avg_logprob: -0.2 }],
+            }),
+            { status: 200 },
+          ),
+        )
+        .mockResolvedValueOnce(new Response("model not loaded", { status: 503 }))
+
+      const provider = getTranscriptionProvider()
+      const audio = new Blob(["audio"], { type: "audio/webm" })
+
+      await expect(provider.transcribe({ audio, filename: "audio.webm", language: "de" })).resolves.toEqual({
+        text: "Hello",
+        segments: [{ start: 0, end: 1.5, text: "Hello" }],
+        usage: { audioSeconds: 4.2 },
+      })
+      const [url, init] = fetchMock.mock.calls[0]
+      expect(url).toBe("http://localhost:8080/v1/audio/transcriptions")
+      expect(init?.headers).toEqual({})
+      expect((init?.body as FormData).get("language")).toBe("de")
+      expect((init?.body as FormData).get("response_format")).toBe("verbose_json")
+
+      const failure = provider.transcribe({ audio, filename: "audio.webm" })
+      await expect(failure).rejects.toBeInstanceOf(AiProviderError)
+      await expect(failure).rejects.toMatchObject({ status: 503, details: "model not loaded" })
+    })
+
+    it("should require OPENAI_API_KEY when calling OpenAI", async () => {
+      vi.stubEnv("OPENAI_API_KEY", "")
+      const fetchMock = vi.spyOn(global, "fetch")
+
+      await expect(
+        getTranscriptionProvider().transcribe({ audio: new Blob(["audio"]), filename: "audio.mp3" }),
+      ).rejects.toThrow(/OPENAI_API_KEY is not configured/)
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("fake provider", () => {
+    beforeEach(() => {
+      vi.stubEnv("AI_PROVIDER", "fake")
+      vi.stubEnv("OPENAI_API_KEY", "")
+    })
+
+    it("should caption images deterministically, per image", async () => {
+      const vision = getVisionProvider()
+      const first = await vision.describeImage({ imageUrl: "https://example.com/a.jpg", prompt: "Caption" })
+      const again = await vision.describeImage({ imageUrl: "https://example.com/a.jpg", prompt: "Caption" })
+      const other = await vision.describeImage({ imageUrl: "https://example.com/b.jpg", prompt: "Caption" })
+
+      expect(first.text).toBe(again.text)
+      expect(first.text).not.toBe(other.text)
+    })
+
+    it("should return a fixed transcript", async () => {
+      const result = await getTranscriptionProvider().transcribe({ audio: new Blob(["audio"]), filename: "audio.mp3" })
+
+      expect(result.text).toBe(FAKE_TRANSCRIPT)
+      expect(result.segments?.map((segment) => segment.text).join(" ")).toBe(FAKE_TRANSCRIPT)
+      expect(result.segments?.[1]).toMatchObject({ start: 5, end: 10 })
+    })
+
+    it("should leave rewritten text unchanged", async () => {
+      const { text } = await getTextProvider().generateText({ system: "Fix punctuation", prompt: "hello there" })
+
+      expect(text).toBe("hello there")
+    })
+
+    it("should fill the required fields of a schema", async () => {
+      const schema = z.object({
+        description_markdown: z.string(),
+        tags: z.array(z.string()),
+        year_guess: z.number().int().optional(),
+        mood: z.enum(["warm", "formal"]),
+      })
+
+      const { object } = await getSummaryProvider().generateObject({ schema, prompt: "A quilt" })
+
+      expect(object.description_markdown).toMatch(/^Sample description markdown/)
+      expect(object.tags).toEqual([])
+      expect(object.mood).toBe("warm")
+      expect(object).not.toHaveProperty("year_guess")
+      expect((await getSummaryProvider().generateObject({ schema, prompt: "A quilt" })).object).toEqual(object)
+    })
+  })
+})
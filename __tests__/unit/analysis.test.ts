@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { getTranscriptionProvider, getVisionProvider } from "@/lib/ai"
+import { AnalysisError, transcribeDocumentImage, transcribeLongAudio } from "@/lib/analysis"
+import type { AudioTranscriptionProgress } from "@/lib/types/transcripts"
+
+vi.mock("@/lib/ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/ai")>()),
+  getTranscriptionProvider: vi.fn(),
+  getVisionProvider: vi.fn(),
+}))
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+// 8-bit mono PCM at 100 samples a second, so 25 minutes fit in 150 KB
+function makeWav(seconds: number): Blob {
+  const dataSize = seconds * 100
+  const bytes = new Uint8Array(44 + dataSize)
+  const view = new DataView(bytes.buffer)
+  const ascii = (offset: number, text: string) => text.split("").forEach((c, i) => (bytes[offset + i] = c.charCodeAt(0)))
+
+  ascii(0, "RIFF")
+  view.setUint32(4, bytes.length - 8, true)
+  ascii(8, "WAVE")
+  ascii(12, "fmt ")
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, 1, true)
+  view.setUint32(24, 100, true)
+  view.setUint32(28, 100, true)
+  view.setUint16(32, 1, true)
+  view.setUint16(34, 8, true)
+  ascii(36, "data")
+  view.setUint32(40, dataSize, true)
+  return new Blob([bytes], { type: "audio/wav" })
+}
+
+describe("transcribeLongAudio", () => {
+  let transcribe: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    // Each part says which part it was, a few seconds in
+    transcribe = vi.fn(async ({ filename }: { filename: string }) => {
+      const part = filename.match(/part-(\d+)/)?.[1] || "whole"
+      return { text: `Part ${part}.`, segments: [{ start: 3, end: 8, text: `Part ${part}.` }], usage: {} }
+    })
+    vi.mocked(getTranscriptionProvider).mockReturnValue({ id: "test/whisper", transcribe })
+  })
+
+  it("should send a short recording whole", async () => {
+    const result = await transcribeLongAudio(makeWav(60), { filename: "audio.mp3" })
+
+    expect(transcribe).toHaveBeenCalledTimes(1)
+    expect(transcribe).toHaveBeenCalledWith(expect.objectContaining({ filename: "audio.mp3" }))
+    expect(result.text).toBe("Part whole.")
+  })
+
+  it("should split a long recording and put segments on its timeline", async () => {
+    const onChunkStart = vi.fn()
+
+    const result = await transcribeLongAudio(makeWav(25 * 60), { filename: "audio.mp3", onChunkStart })
+
+    expect(transcribe.mock.calls.map(([input]) => input.filename)).toEqual(["part-1.wav", "part-2.wav", "part-3.wav"])
+    expect(onChunkStart.mock.calls).toEqual([
+      [1, 3],
+      [2, 3],
+      [3, 3],
+    ])
+    expect(result.text).toBe("Part 1. Part 2. Part 3.")
+    expect(result.segments.map((segment) => segment.start)).toEqual([3, 598, 1193])
+  })
+
+  it("should save each part and resume after a failed one", async () => {
+    const saves: AudioTranscriptionProgress[] = []
+    const onChunkDone = vi.fn(async (progress: AudioTranscriptionProgress) => {
+      saves.push(progress)
+    })
+    const succeed = transcribe.getMockImplementation()!
+    transcribe.mockImplementation(async (input) => {
+      if (input.filename === "part-3.wav") throw new Error("Request timed out")
+      return succeed(input)
+    })
+
+    await expect(
+      transcribeLongAudio(makeWav(25 * 60), { filename: "audio.mp3", resume: { onChunkDone } }),
+    ).rejects.toThrow("Request timed out")
+    expect(saves.at(-1)?.chunks).toHaveLength(2)
+
+    transcribe.mockClear()
+    transcribe.mockImplementation(succeed)
+    const result = await transcribeLongAudio(makeWav(25 * 60), {
+      filename: "audio.mp3",
+      resume: { saved: saves.at(-1), onChunkDone },
+    })
+
+    expect(transcribe.mock.calls.map(([input]) => input.filename)).toEqual(["part-3.wav"])
+    expect(result.text).toBe("Part 1. Part 2. Part 3.")
+  })
+
+  it("should refuse large recordings it can't split", async () => {
+    const webm = new Blob([new Uint8Array(25 * 1024 * 1024)], { type: "audio/webm" })
+
+    await expect(transcribeLongAudio(webm, { filename: "audio.webm" })).rejects.toBeInstanceOf(AnalysisError)
+    expect(transcribe).not.toHaveBeenCalled()
+  })
+})
+
+describe("transcribeDocumentImage", () => {
+  it("should ask for the full text in the document's language and keep its line breaks", async () => {
+    const describeImage = vi.fn().mockResolvedValue({ text: "```\nCara Maria,  \nsto bene.\n```", usage: {} })
+    vi.mocked(getVisionProvider).mockReturnValue({ id: "test/vision", describeImage })
+
+    const text = await transcribeDocumentImage("https://example.com/letter.jpg", { language: "it" })
+
+    expect(describeImage.mock.calls[0][0].prompt).toContain("most likely in Italian")
+    expect(text).toBe("Cara Maria,\nsto bene.")
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { getTextProvider } from "@/lib/ai"
+import { AnalysisError } from "@/lib/analysis"
+import { askArchive } from "@/lib/archive-chat"
+
+vi.mock("@/lib/ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/ai")>()),
+  getTextProvider: vi.fn(),
+}))
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+const collectionId = "123e4567-e89b-12d3-a456-426614174000"
+
+const clock = {
+  id: "clock-id",
+  slug: "mantel-clock",
+  title: "Mantel Clock",
+  description: "Grandma's clock.",
+  audio_transcripts: { "https://example.com/joe.mp3": "Uncle Joe wound it every Sunday." },
+}
+
+function mockSupabase(collection: Record<string, unknown> | null, artifacts: Record<string, unknown>[]) {
+  const artifactsEq = vi.fn(() => ({ order: vi.fn().mockResolvedValue({ data: artifacts, error: null }) }))
+  const from = vi.fn((table: string) =>
+    table === "collections"
+      ? { select: vi.fn(() => ({ eq: vi.fn(() => ({ maybeSingle: vi.fn().mockResolvedValue({ data: collection }) })) })) }
+      : { select: vi.fn(() => ({ eq: artifactsEq })) },
+  )
+  return { supabase: { from } as unknown as SupabaseClient, artifactsEq }
+}
+
+describe("askArchive", () => {
+  let generateObject: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    generateObject = vi.fn().mockResolvedValue({
+      object: { answer: "Uncle Joe wound it every Sunday [1].", sources: [1, 4] },
+      usage: {},
+    })
+    vi.mocked(getTextProvider).mockReturnValue({ id: "test/gpt", generateText: vi.fn(), generateObject })
+  })
+
+  it("should answer from the collection's artifacts and link the ones cited", async () => {
+    const { supabase, artifactsEq } = mockSupabase({ id: collectionId, title: "Nonna's House" }, [clock])
+
+    const result = await askArchive(supabase, collectionId, "What did Uncle Joe say about the clock?", {
+      history: [
+        { role: "user", content: "Is there a clock?" },
+        { role: "assistant", content: "Yes, a mantel clock [1]." },
+      ],
+    })
+
+    expect(artifactsEq).toHaveBeenCalledWith("collection_id", collectionId)
+    const { prompt } = generateObject.mock.calls[0][0]
+    expect(prompt).toContain("[1]\nTitle: Mantel Clock")
+    expect(prompt).toContain("Conversation so far:\nQuestion: Is there a clock?")
+    expect(result).toEqual({
+      answer: "Uncle Joe wound it every Sunday [1].",
+      sources: [{ number: 1, id: "clock-id", slug: "mantel-clock", title: "Mantel Clock" }],
+    })
+  })
+
+  it("should not answer for a collection the viewer can't see", async () => {
+    const { supabase } = mockSupabase(null, [])
+
+    await expect(askArchive(supabase, collectionId, "Anything?")).rejects.toMatchObject({ status: 404 })
+  })
+
+  it("should say when the artifacts have nothing to go on", async () => {
+    const { supabase } = mockSupabase({ id: collectionId, title: "Empty" }, [{ id: "a", slug: null, title: "Box" }])
+
+    await expect(askArchive(supabase, collectionId, "What's in the box?")).rejects.toBeInstanceOf(AnalysisError)
+    expect(generateObject).not.toHaveBeenCalled()
+  })
+})
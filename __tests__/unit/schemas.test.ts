@@ -1,5 +1,21 @@
 import { describe, it, expect } from "vitest"
-import { createArtifactSchema, updateArtifactSchema } from "@/lib/schemas"
+import {
+  createArtifactSchema,
+  updateArtifactSchema,
+  attributeSchemaDefinitionSchema,
+  buildAttributeValuesSchema,
+  provenanceEventSchema,
+  saveProvenanceEventsSchema,
+  saveInterviewAnswerSchema,
+  updateTranscriptSegmentSchema,
+  translateArtifactSchema,
+  askArchiveSchema,
+  reviewSuggestionSchema,
+  personSchema,
+  saveArtifactPeopleSchema,
+  importGedcomSchema,
+  placeLocationSchema,
+} from "@/lib/schemas"
 import { fixtures } from "@/__tests__/fixtures"
 
 describe("Artifact Schemas", () => {
@@ -574,4 +590,392 @@ describe("Artifact Schemas", () => {
       expect(result.success).toBe(true)
     })
   })
+
+  describe("attribute schemas", () => {
+    const watchSchema = fixtures.artifactTypes.watch.attribute_schema as any
+    const carSchema = fixtures.artifactTypes.car.attribute_schema as any
+
+    describe("createArtifactSchema attributes shape", () => {
+      it("should accept string and measurement values", () => {
+        const result = createArtifactSchema.safeParse({
+          title: "Omega Seamaster",
+          collectionId: "550e8400-e29b-41d4-a716-446655440000",
+          attributes: { movement: "Automatic", case_size: { value: 38, unit: "mm" } },
+        })
+
+        expect(result.success).toBe(true)
+      })
+
+      it("should reject non-string, non-measurement values", () => {
+        const result = createArtifactSchema.safeParse({
+          title: "Omega Seamaster",
+          collectionId: "550e8400-e29b-41d4-a716-446655440000",
+          attributes: { movement: ["Automatic"] },
+        })
+
+        expect(result.success).toBe(false)
+      })
+    })
+
+    describe("attributeSchemaDefinitionSchema", () => {
+      it("should accept the fixture schemas", () => {
+        expect(attributeSchemaDefinitionSchema.safeParse(watchSchema).success).toBe(true)
+        expect(attributeSchemaDefinitionSchema.safeParse(carSchema).success).toBe(true)
+      })
+
+      it("should reject enum definitions without options", () => {
+        const result = attributeSchemaDefinitionSchema.safeParse([
+          { key: "condition", label: "Condition", kind: "enum" },
+        ])
+
+        expect(result.success).toBe(false)
+      })
+
+      it("should reject keys that aren't snake_case", () => {
+        const result = attributeSchemaDefinitionSchema.safeParse([
+          { key: "Case Size", label: "Case Size", kind: "number" },
+        ])
+
+        expect(result.success).toBe(false)
+      })
+    })
+
+    describe("buildAttributeValuesSchema", () => {
+      it("should accept values matching each kind", () => {
+        const result = buildAttributeValuesSchema(watchSchema).safeParse({
+          movement: "Automatic",
+          case_size: { value: 38.5, unit: "mm" },
+          serviced_on: "2019-06-01",
+          case_material: "Stainless steel",
+        })
+
+        expect(result.success).toBe(true)
+      })
+
+      it("should reject enum values outside the options", () => {
+        const result = buildAttributeValuesSchema(watchSchema).safeParse({ movement: "Solar" })
+
+        expect(result.success).toBe(false)
+      })
+
+      it("should reject units not defined for the attribute", () => {
+        const result = buildAttributeValuesSchema(watchSchema).safeParse({
+          case_size: { value: 1.5, unit: "in" },
+        })
+
+        expect(result.success).toBe(false)
+      })
+
+      it("should reject malformed dates", () => {
+        const result = buildAttributeValuesSchema(watchSchema).safeParse({ serviced_on: "June 2019" })
+
+        expect(result.success).toBe(false)
+      })
+
+      it("should enforce required attributes", () => {
+        const result = buildAttributeValuesSchema(carSchema).safeParse({
+          mileage: { value: 42000, unit: "mi" },
+        })
+
+        expect(result.success).toBe(false)
+      })
+
+      it("should let required attributes be missing when not enforced", () => {
+        const schema = buildAttributeValuesSchema(carSchema, { enforceRequired: false })
+
+        expect(schema.safeParse({ mileage: { value: 42000, unit: "mi" } }).success).toBe(true)
+        expect(schema.safeParse({ make: "" }).success).toBe(false)
+      })
+
+      it("should strip keys that aren't in the schema", () => {
+        const result = buildAttributeValuesSchema(watchSchema).safeParse({
+          movement: "Quartz",
+          make: "Ford",
+        })
+
+        expect(result.success).toBe(true)
+        if (result.success) {
+          expect(result.data).toEqual({ movement: "Quartz" })
+        }
+      })
+    })
+  })
+
+  describe("provenance schemas", () => {
+    it("should accept partial dates", () => {
+      for (const date of ["1952", "1952-06", "1952-06-14"]) {
+        const result = provenanceEventSchema.safeParse({ owner_name: "Rosa", date_start: date })
+        expect(result.success).toBe(true)
+      }
+    })
+
+    it("should reject malformed dates", () => {
+      for (const date of ["52", "June 1952", "1952-13", "1952-06-32"]) {
+        const result = provenanceEventSchema.safeParse({ owner_name: "Rosa", date_start: date })
+        expect(result.success).toBe(false)
+      }
+    })
+
+    it("should require an owner name", () => {
+      const result = provenanceEventSchema.safeParse({ owner_name: "   " })
+
+      expect(result.success).toBe(false)
+    })
+
+    it("should normalize blank optional fields to null", () => {
+      const result = provenanceEventSchema.safeParse({ owner_name: " Rosa ", location: "", notes: undefined })
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toEqual({
+          owner_name: "Rosa",
+          acquisition_method: null,
+          date_start: null,
+          date_end: null,
+          location: null,
+          notes: null,
+        })
+      }
+    })
+
+    it("should reject an end date before the start date", () => {
+      const result = provenanceEventSchema.safeParse({
+        owner_name: "Rosa",
+        date_start: "1960",
+        date_end: "1952-06",
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(["date_end"])
+      }
+    })
+
+    it("should compare dates of different precision at the shared precision", () => {
+      const result = provenanceEventSchema.safeParse({
+        owner_name: "Rosa",
+        date_start: "1952-06",
+        date_end: "1952",
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it("should reject unknown acquisition methods", () => {
+      const result = saveProvenanceEventsSchema.safeParse({
+        artifact_id: "123e4567-e89b-12d3-a456-426614174000",
+        events: [{ owner_name: "Rosa", acquisition_method: "stolen" }],
+      })
+
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe("interview schemas", () => {
+    const answer = {
+      artifact_id: "123e4567-e89b-12d3-a456-426614174000",
+      question_key: "first_owner",
+      question: "Who owned this first?",
+      transcript: "  My grandmother Rosa.  ",
+    }
+
+    it("should accept a typed answer without a recording", () => {
+      const result = saveInterviewAnswerSchema.safeParse(answer)
+
+      expect(result.success).toBe(true)
+      expect(result.success && result.data.transcript).toBe("My grandmother Rosa.")
+    })
+
+    it("should accept an audio recording", () => {
+      const result = saveInterviewAnswerSchema.safeParse({
+        ...answer,
+        audio: {
+          storage_path: "user-1/interviews/a1/first_owner-recording.webm",
+          public_url: "https://example.com/first_owner-recording.webm",
+          filename: "first_owner-recording.webm",
+          mime_type: "audio/webm",
+          file_size_bytes: 2048,
+        },
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it("should reject recordings that are not audio", () => {
+      const result = saveInterviewAnswerSchema.safeParse({
+        ...answer,
+        audio: {
+          storage_path: "user-1/interviews/a1/photo.jpg",
+          public_url: "https://example.com/photo.jpg",
+          filename: "photo.jpg",
+          mime_type: "image/jpeg",
+          file_size_bytes: 2048,
+        },
+      })
+
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe("transcript schemas", () => {
+    const edit = {
+      artifact_id: "123e4567-e89b-12d3-a456-426614174000",
+      audio_url: "https://example.com/interview.mp3",
+      index: 2,
+      text: "  It came from Lyon.  ",
+    }
+
+    it("should accept a corrected segment and trim its text", () => {
+      const result = updateTranscriptSegmentSchema.safeParse(edit)
+
+      expect(result.success).toBe(true)
+      expect(result.success && result.data.text).toBe("It came from Lyon.")
+    })
+
+    it("should reject a negative or fractional index", () => {
+      expect(updateTranscriptSegmentSchema.safeParse({ ...edit, index: -1 }).success).toBe(false)
+      expect(updateTranscriptSegmentSchema.safeParse({ ...edit, index: 1.5 }).success).toBe(false)
+    })
+  })
+
+  describe("translation schemas", () => {
+    const artifactId = "123e4567-e89b-12d3-a456-426614174000"
+
+    it("should accept a supported locale and reject others", () => {
+      expect(translateArtifactSchema.safeParse({ artifactId, locale: "it" }).success).toBe(true)
+      expect(translateArtifactSchema.safeParse({ artifactId, locale: "klingon" }).success).toBe(false)
+    })
+
+    it("should let artifacts set or clear their language_hint", () => {
+      expect(updateArtifactSchema.safeParse({ id: artifactId, title: "Clock", language_hint: "pl" }).success).toBe(true)
+      expect(updateArtifactSchema.safeParse({ id: artifactId, title: "Clock", language_hint: null }).success).toBe(true)
+      expect(updateArtifactSchema.safeParse({ id: artifactId, title: "Clock", language_hint: "Polish" }).success).toBe(false)
+    })
+  })
+
+  describe("askArchiveSchema", () => {
+    const collectionId = "123e4567-e89b-12d3-a456-426614174000"
+
+    it("should trim the question and require one", () => {
+      const result = askArchiveSchema.safeParse({ collectionId, question: "  Which items came from Naples? " })
+      expect(result.success && result.data.question).toBe("Which items came from Naples?")
+      expect(askArchiveSchema.safeParse({ collectionId, question: "   " }).success).toBe(false)
+    })
+
+    it("should cap the question and the history sent with it", () => {
+      expect(askArchiveSchema.safeParse({ collectionId, question: "a".repeat(501) }).success).toBe(false)
+      const history = Array.from({ length: 7 }, () => ({ role: "user", content: "Hi" }))
+      expect(askArchiveSchema.safeParse({ collectionId, question: "Hi", history }).success).toBe(false)
+    })
+  })
+
+  describe("reviewSuggestionSchema", () => {
+    const artifactId = "123e4567-e89b-12d3-a456-426614174000"
+
+    it("should accept names and years for their kinds", () => {
+      expect(reviewSuggestionSchema.safeParse({ artifactId, kind: "people", value: "Rosa", accept: true }).success).toBe(
+        true,
+      )
+      expect(reviewSuggestionSchema.safeParse({ artifactId, kind: "year_guess", value: 1920, accept: false }).success).toBe(
+        true,
+      )
+    })
+
+    it("should reject a year given as text or a name given as a number", () => {
+      expect(reviewSuggestionSchema.safeParse({ artifactId, kind: "year_guess", value: "1920", accept: true }).success).toBe(
+        false,
+      )
+      expect(reviewSuggestionSchema.safeParse({ artifactId, kind: "tags", value: 7, accept: true }).success).toBe(false)
+      expect(
+        reviewSuggestionSchema.safeParse({ artifactId, kind: "photo_location", value: 43.8, accept: true }).success
+      ).toBe(false)
+    })
+
+    it("should only take a matched person for people", () => {
+      const personId = "223e4567-e89b-12d3-a456-426614174000"
+      expect(
+        reviewSuggestionSchema.safeParse({ artifactId, kind: "people", value: "Rosa", accept: true, personId }).success
+      ).toBe(true)
+      expect(
+        reviewSuggestionSchema.safeParse({ artifactId, kind: "places", value: "Naples", accept: true, personId }).success
+      ).toBe(false)
+    })
+
+    it("should reject blank values", () => {
+      expect(reviewSuggestionSchema.safeParse({ artifactId, kind: "places", value: "  ", accept: true }).success).toBe(
+        false,
+      )
+    })
+  })
+
+  describe("personSchema", () => {
+    it("should tidy the name and default the optional fields", () => {
+      const result = personSchema.safeParse({ name: "  Rosa   Bianchi ", relationship: "" })
+      expect(result.success && result.data).toEqual({
+        name: "Rosa Bianchi",
+        relationship: null,
+        birth_date: null,
+        death_date: null,
+        portrait_media_id: null,
+      })
+    })
+
+    it("should take partial life dates", () => {
+      expect(personSchema.safeParse({ name: "Rosa", birth_date: "1901-03", death_date: "1987" }).success).toBe(true)
+      expect(personSchema.safeParse({ name: "Rosa", birth_date: "March 1901" }).success).toBe(false)
+    })
+
+    it("should reject a death before the birth", () => {
+      const result = personSchema.safeParse({ name: "Rosa", birth_date: "1901", death_date: "1899-12" })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(["death_date"])
+      }
+    })
+  })
+
+  describe("saveArtifactPeopleSchema", () => {
+    const artifact_id = "123e4567-e89b-12d3-a456-426614174000"
+    const person_id = "223e4567-e89b-12d3-a456-426614174000"
+
+    it("should accept known roles", () => {
+      expect(saveArtifactPeopleSchema.safeParse({ artifact_id, links: [{ person_id, role: "maker" }] }).success).toBe(
+        true
+      )
+    })
+
+    it("should reject unknown roles", () => {
+      expect(saveArtifactPeopleSchema.safeParse({ artifact_id, links: [{ person_id, role: "cousin" }] }).success).toBe(
+        false
+      )
+    })
+  })
+
+  describe("importGedcomSchema", () => {
+    it("should accept file content", () => {
+      expect(importGedcomSchema.safeParse({ content: "0 HEAD\n0 TRLR\n" }).success).toBe(true)
+    })
+
+    it("should reject empty and oversized files", () => {
+      expect(importGedcomSchema.safeParse({ content: "" }).success).toBe(false)
+      expect(importGedcomSchema.safeParse({ content: "x".repeat(10 * 1024 * 1024 + 1) }).success).toBe(false)
+    })
+  })
+
+  describe("placeLocationSchema", () => {
+    it("should default pinned coordinates to a pin", () => {
+      const result = placeLocationSchema.safeParse({ latitude: 43.843, longitude: 10.505 })
+      expect(result.success && result.data.location_source).toBe("pin")
+    })
+
+    it("should allow clearing the location", () => {
+      expect(placeLocationSchema.safeParse({ latitude: null, longitude: null }).success).toBe(true)
+    })
+
+    it("should reject half a location and out of range coordinates", () => {
+      expect(placeLocationSchema.safeParse({ latitude: 43.843, longitude: null }).success).toBe(false)
+      expect(placeLocationSchema.safeParse({ latitude: 91, longitude: 10 }).success).toBe(false)
+      expect(placeLocationSchema.safeParse({ latitude: 43, longitude: -181 }).success).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { getTranslationProvider } from "@/lib/ai"
+import { AnalysisError } from "@/lib/analysis"
+import { translateArtifact } from "@/lib/translations"
+import { hashTranslationSource } from "@/lib/utils/translations"
+
+vi.mock("@/lib/ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/ai")>()),
+  getTranslationProvider: vi.fn(),
+}))
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}))
+
+const artifactId = "123e4567-e89b-12d3-a456-426614174000"
+const url = "https://example.com/nonna.mp3"
+
+function mockSupabase(artifact: Record<string, unknown> | null) {
+  const update = vi.fn(() => ({ eq: vi.fn().mockResolvedValue({ error: null }) }))
+  const single = vi.fn().mockResolvedValue({ data: artifact, error: artifact ? null : { message: "Not found" } })
+  const from = vi.fn(() => ({
+    select: vi.fn(() => ({ eq: vi.fn(() => ({ single })) })),
+    update,
+  }))
+  return { supabase: { from } as unknown as SupabaseClient, update }
+}
+
+describe("translateArtifact", () => {
+  let generateText: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    generateText = vi.fn(async ({ prompt }: { prompt: string }) => ({ text: `[en] ${prompt}`, usage: {} }))
+    vi.mocked(getTranslationProvider).mockReturnValue({ id: "test/gpt", generateText, generateObject: vi.fn() })
+  })
+
+  it("should translate only what changed and keep the other locales", async () => {
+    const { supabase, update } = mockSupabase({
+      id: artifactId,
+      slug: "clock",
+      description: "L'orologio della nonna.",
+      ai_description: null,
+      transcript: null,
+      audio_transcripts: { [url]: "Lo abbiamo comprato a Lione." },
+      language_hint: "it",
+      translations: {
+        en: {
+          description: { text: "Grandma's clock.", source_hash: hashTranslationSource("L'orologio della nonna.") },
+          translated_at: "2025-12-19T10:00:00.000Z",
+        },
+        fr: { description: { text: "L'horloge.", source_hash: "x" }, translated_at: "2025-12-19T10:00:00.000Z" },
+      },
+    })
+
+    const translation = await translateArtifact(supabase, artifactId, "en")
+
+    expect(generateText).toHaveBeenCalledTimes(1)
+    expect(generateText.mock.calls[0][0].system).toContain("from Italian into English")
+    expect(translation.description?.text).toBe("Grandma's clock.")
+    expect(translation.audio_transcripts?.[url].text).toBe("[en] Lo abbiamo comprato a Lione.")
+    expect(update).toHaveBeenCalledWith({
+      translations: expect.objectContaining({ en: translation, fr: expect.any(Object) }),
+    })
+  })
+
+  it("should refuse to translate into the artifact's own language", async () => {
+    const { supabase } = mockSupabase({ id: artifactId, description: "Ciao", language_hint: "it", translations: {} })
+
+    await expect(translateArtifact(supabase, artifactId, "it")).rejects.toBeInstanceOf(AnalysisError)
+    expect(generateText).not.toHaveBeenCalled()
+  })
+
+  it("should say when there is nothing to translate", async () => {
+    const { supabase } = mockSupabase({ id: artifactId, description: "", translations: {} })
+
+    await expect(translateArtifact(supabase, artifactId, "en")).rejects.toMatchObject({ status: 400 })
+  })
+})
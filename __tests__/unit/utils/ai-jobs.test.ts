@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest"
+import { createJobSteps, getJobProgress, getRetryDelayMs, isJobFinished } from "@/lib/utils/ai-jobs"
+
+describe("AI Job Utils", () => {
+  describe("createJobSteps", () => {
+    it("should create pending steps in order", () => {
+      const steps = createJobSteps(["audio", "images", "summary"])
+
+      expect(steps.map((step) => step.name)).toEqual(["audio", "images", "summary"])
+      expect(steps.every((step) => step.status === "pending" && step.attempts === 0 && step.error === null)).toBe(true)
+    })
+  })
+
+  describe("getRetryDelayMs", () => {
+    it("should double the delay with each failed attempt", () => {
+      expect(getRetryDelayMs(1)).toBe(30_000)
+      expect(getRetryDelayMs(2)).toBe(60_000)
+      expect(getRetryDelayMs(3)).toBe(120_000)
+    })
+
+    it("should cap the delay at ten minutes", () => {
+      expect(getRetryDelayMs(20)).toBe(600_000)
+    })
+  })
+
+  describe("isJobFinished", () => {
+    it("should treat succeeded and failed jobs as finished", () => {
+      expect(isJobFinished("succeeded")).toBe(true)
+      expect(isJobFinished("failed")).toBe(true)
+      expect(isJobFinished("queued")).toBe(false)
+      expect(isJobFinished("running")).toBe(false)
+    })
+  })
+
+  describe("getJobProgress", () => {
+    it("should count succeeded and skipped steps as done", () => {
+      const steps = createJobSteps(["audio", "images", "summary"])
+      steps[0].status = "skipped"
+      steps[1].status = "succeeded"
+      steps[2].status = "running"
+
+      expect(getJobProgress({ steps })).toBe(67)
+    })
+
+    it("should report a job without steps as complete", () => {
+      expect(getJobProgress({ steps: [] })).toBe(100)
+    })
+  })
+})
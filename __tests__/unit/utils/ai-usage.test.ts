@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import {
+  DEFAULT_MONTHLY_TOKEN_QUOTA,
+  estimateAiCostUsd,
+  formatCostUsd,
+  getQuotaExceededMessage,
+  getUsagePeriod,
+  groupUsage,
+  resolveAiQuota,
+  sumUsage,
+} from "@/lib/utils/ai-usage"
+
+describe("AI Usage Utils", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  describe("estimateAiCostUsd", () => {
+    it("should price tokens per million", () => {
+      expect(estimateAiCostUsd("openai/gpt-4o", { inputTokens: 1_000_000, outputTokens: 100_000 })).toBe(3.5)
+    })
+
+    it("should price transcription per minute of audio", () => {
+      expect(estimateAiCostUsd("openai/whisper-1", { audioSeconds: 90 })).toBe(0.009)
+    })
+
+    it("should treat unknown models as free", () => {
+      expect(estimateAiCostUsd("fake/text", { inputTokens: 500 })).toBe(0)
+      expect(estimateAiCostUsd("openai-compatible/llava", { inputTokens: 500 })).toBe(0)
+    })
+  })
+
+  describe("getUsagePeriod", () => {
+    it("should cover the UTC calendar month", () => {
+      const { start, resetsAt } = getUsagePeriod(new Date("2025-12-31T23:30:00Z"))
+
+      expect(start.toISOString()).toBe("2025-12-01T00:00:00.000Z")
+      expect(resetsAt.toISOString()).toBe("2026-01-01T00:00:00.000Z")
+    })
+  })
+
+  describe("resolveAiQuota", () => {
+    it("should use the defaults without an override", () => {
+      expect(resolveAiQuota(null)).toEqual({
+        monthly_tokens: DEFAULT_MONTHLY_TOKEN_QUOTA,
+        monthly_audio_seconds: 180 * 60,
+        custom: false,
+      })
+    })
+
+    it("should read the defaults from the environment", () => {
+      vi.stubEnv("AI_MONTHLY_TOKEN_QUOTA", "5000")
+      vi.stubEnv("AI_MONTHLY_AUDIO_MINUTES_QUOTA", "not a number")
+
+      expect(resolveAiQuota()).toMatchObject({ monthly_tokens: 5000, monthly_audio_seconds: 180 * 60 })
+    })
+
+    it("should prefer the user's override, column by column", () => {
+      expect(resolveAiQuota({ monthly_tokens: 100, monthly_audio_seconds: null })).toEqual({
+        monthly_tokens: 100,
+        monthly_audio_seconds: 180 * 60,
+        custom: true,
+      })
+    })
+  })
+
+  describe("getQuotaExceededMessage", () => {
+    const quota = { monthly_tokens: 1000, monthly_audio_seconds: 600, custom: false }
+    const resetsAt = new Date("2026-01-01T00:00:00Z")
+
+    it("should allow calls under the quota", () => {
+      const totals = { calls: 3, input_tokens: 400, output_tokens: 500, audio_seconds: 599, cost_usd: 0 }
+
+      expect(getQuotaExceededMessage(totals, quota, resetsAt)).toBeNull()
+    })
+
+    it("should explain when tokens run out and when they reset", () => {
+      const totals = { calls: 3, input_tokens: 600, output_tokens: 400, audio_seconds: 0, cost_usd: 0 }
+
+      expect(getQuotaExceededMessage(totals, quota, resetsAt)).toBe(
+        "You've used your monthly AI allowance of 1,000 tokens. It resets on January 1.",
+      )
+    })
+
+    it("should explain when audio runs out", () => {
+      const totals = { calls: 1, input_tokens: 0, output_tokens: 0, audio_seconds: 600, cost_usd: 0 }
+
+      expect(getQuotaExceededMessage(totals, quota, resetsAt)).toMatch(/allowance of 10 minutes of audio/)
+    })
+  })
+
+  describe("sumUsage and groupUsage", () => {
+    const rows = [
+      { model: "openai/gpt-4o", calls: "2", input_tokens: "100", output_tokens: 50, audio_seconds: "0", cost_usd: "0.5" },
+      { model: "openai/whisper-1", calls: 1, input_tokens: 0, output_tokens: 0, audio_seconds: "30.5", cost_usd: 0.003 },
+      { model: "openai/gpt-4o", calls: 1, input_tokens: 10, output_tokens: 5, audio_seconds: 0, cost_usd: 0.25 },
+    ] as any[]
+
+    it("should add numeric columns that arrive as strings", () => {
+      expect(sumUsage(rows)).toEqual({
+        calls: 4,
+        input_tokens: 110,
+        output_tokens: 55,
+        audio_seconds: 30.5,
+        cost_usd: 0.753,
+      })
+    })
+
+    it("should group by key, most expensive first", () => {
+      const groups = groupUsage(rows, (row) => row.model as string)
+
+      expect(groups.map((group) => group.key)).toEqual(["openai/gpt-4o", "openai/whisper-1"])
+      expect(groups[0].totals).toMatchObject({ calls: 3, cost_usd: 0.75 })
+    })
+  })
+
+  describe("formatCostUsd", () => {
+    it("should show fractions of a cent as under a cent", () => {
+      expect(formatCostUsd(0)).toBe("$0.00")
+      expect(formatCostUsd(0.004)).toBe("< $0.01")
+      expect(formatCostUsd(12.345)).toBe("$12.35")
+    })
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest"
+import {
+  formatArchiveHistory,
+  formatArchiveSources,
+  getArchiveArtifactText,
+  getCitedSources,
+  getQuestionTerms,
+  selectArchiveSources,
+} from "@/lib/utils/archive-chat"
+import type { ArchiveArtifact } from "@/lib/types/archive-chat"
+
+const clock: ArchiveArtifact = {
+  id: "clock-id",
+  slug: "mantel-clock",
+  title: "Mantel Clock",
+  origin: "Lyon, France",
+  description: "Grandma's clock from the hallway.",
+  audio_transcripts: { "https://example.com/joe.mp3": "Uncle Joe wound it every Sunday." },
+}
+
+const plate: ArchiveArtifact = {
+  id: "plate-id",
+  slug: "painted-plate",
+  title: "Painted Plate",
+  origin: "Naples, Italy",
+  description: "Hand-painted lemons.",
+  image_captions: { "https://example.com/plate.jpg": "A plate with lemons and a blue rim." },
+}
+
+const untitled: ArchiveArtifact = { id: "box-id", slug: null, title: "Box" }
+
+describe("Archive Chat Utilities", () => {
+  describe("getArchiveArtifactText", () => {
+    it("should label each field that has text", () => {
+      expect(getArchiveArtifactText(clock)).toBe(
+        "Title: Mantel Clock\nOrigin: Lyon, France\nDescription: Grandma's clock from the hallway.\n" +
+          "Transcript: Uncle Joe wound it every Sunday.",
+      )
+    })
+  })
+
+  describe("getQuestionTerms", () => {
+    it("should keep the meaningful words once each", () => {
+      expect(getQuestionTerms("What did Uncle Joe say about the clock? The CLOCK!")).toEqual(["uncle", "joe", "clock"])
+    })
+
+    it("should keep accented letters", () => {
+      expect(getQuestionTerms("Which came from Genève?")).toEqual(["came", "genève"])
+    })
+  })
+
+  describe("selectArchiveSources", () => {
+    it("should put the best matches first", () => {
+      const sources = selectArchiveSources([clock, plate], "Which items came from Naples?")
+      expect(sources.map((source) => source.artifact.id)).toEqual(["plate-id", "clock-id"])
+    })
+
+    it("should keep the collection's order when nothing matches", () => {
+      const sources = selectArchiveSources([clock, plate], "What's the oldest thing here?")
+      expect(sources.map((source) => source.artifact.id)).toEqual(["clock-id", "plate-id"])
+    })
+
+    it("should leave out artifacts with only a title, and stop at the budget", () => {
+      expect(selectArchiveSources([untitled, clock], "box").map((source) => source.artifact.id)).toEqual(["clock-id"])
+      expect(selectArchiveSources([plate, clock], "clock", 150).map((source) => source.artifact.id)).toEqual([
+        "clock-id",
+      ])
+    })
+  })
+
+  describe("formatArchiveSources", () => {
+    it("should number sources from 1", () => {
+      expect(formatArchiveSources([{ text: "Title: A" }, { text: "Title: B" }])).toBe("[1]\nTitle: A\n\n[2]\nTitle: B")
+    })
+  })
+
+  describe("formatArchiveHistory", () => {
+    it("should keep only the most recent turns", () => {
+      const history = Array.from({ length: 8 }, (_, index) => ({
+        role: index % 2 === 0 ? ("user" as const) : ("assistant" as const),
+        content: `Turn ${index + 1}`,
+      }))
+
+      const text = formatArchiveHistory(history)
+      expect(text.startsWith("Question: Turn 3")).toBe(true)
+      expect(text.endsWith("Answer: Turn 8")).toBe(true)
+    })
+  })
+
+  describe("getCitedSources", () => {
+    const sources = [{ artifact: plate }, { artifact: clock }]
+
+    it("should link cited artifacts in the order they are cited", () => {
+      expect(getCitedSources("Joe wound it [2]. The plate is from Naples [1][2].", [], sources)).toEqual([
+        { number: 2, id: "clock-id", slug: "mantel-clock", title: "Mantel Clock" },
+        { number: 1, id: "plate-id", slug: "painted-plate", title: "Painted Plate" },
+      ])
+    })
+
+    it("should add listed sources and drop numbers that match nothing", () => {
+      expect(getCitedSources("From Naples [7].", [1, 0], sources).map((source) => source.number)).toEqual([1])
+    })
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest"
+import {
+  compactAttributes,
+  formatAttributeValue,
+  getDisplayAttributes,
+  isAttributeValueEmpty,
+  isSameAttributes,
+} from "@/lib/utils/artifact-attributes"
+import { fixtures } from "@/__tests__/fixtures"
+import type { AttributeDefinition } from "@/lib/types/artifact-types"
+
+const watchSchema = fixtures.artifactTypes.watch.attribute_schema as AttributeDefinition[]
+
+describe("Artifact Attribute Utilities", () => {
+  describe("isAttributeValueEmpty", () => {
+    it("should treat missing and blank values as empty", () => {
+      expect(isAttributeValueEmpty(undefined)).toBe(true)
+      expect(isAttributeValueEmpty(null)).toBe(true)
+      expect(isAttributeValueEmpty("   ")).toBe(true)
+      expect(isAttributeValueEmpty({ value: NaN, unit: "mm" })).toBe(true)
+    })
+
+    it("should treat zero measurements as filled in", () => {
+      expect(isAttributeValueEmpty({ value: 0, unit: "mm" })).toBe(false)
+    })
+  })
+
+  describe("formatAttributeValue", () => {
+    it("should append the unit to number values", () => {
+      expect(formatAttributeValue(watchSchema[1], { value: 38, unit: "mm" })).toBe("38 mm")
+    })
+
+    it("should omit a missing unit", () => {
+      const def: AttributeDefinition = { key: "model_year", label: "Model Year", kind: "number" }
+      expect(formatAttributeValue(def, { value: 1967, unit: null })).toBe("1967")
+    })
+
+    it("should format dates without shifting the day", () => {
+      const formatted = formatAttributeValue(watchSchema[2], "2019-06-01")
+      expect(formatted).toContain("2019")
+      expect(formatted).toMatch(/\b1\b/)
+    })
+
+    it("should return null for empty values", () => {
+      expect(formatAttributeValue(watchSchema[3], "")).toBeNull()
+    })
+  })
+
+  describe("getDisplayAttributes", () => {
+    it("should return filled-in attributes in schema order", () => {
+      const result = getDisplayAttributes(watchSchema, {
+        case_material: "Gold",
+        movement: "Manual",
+      })
+
+      expect(result).toEqual([
+        { key: "movement", label: "Movement", value: "Manual" },
+        { key: "case_material", label: "Case Material", value: "Gold" },
+      ])
+    })
+
+    it("should ignore values whose key isn't in the schema", () => {
+      expect(getDisplayAttributes(watchSchema, { make: "Ford" })).toEqual([])
+    })
+
+    it("should handle missing schema or values", () => {
+      expect(getDisplayAttributes(null, { movement: "Manual" })).toEqual([])
+      expect(getDisplayAttributes(watchSchema, null)).toEqual([])
+    })
+  })
+
+  describe("compactAttributes", () => {
+    it("should drop empty values and unknown keys, and trim text", () => {
+      const result = compactAttributes(watchSchema, {
+        movement: "Automatic",
+        case_material: "  Steel  ",
+        serviced_on: "",
+        make: "Ford",
+      })
+
+      expect(result).toEqual({ movement: "Automatic", case_material: "Steel" })
+    })
+  })
+
+  describe("isSameAttributes", () => {
+    it("should ignore key order", () => {
+      expect(
+        isSameAttributes(
+          { movement: "Quartz", case_size: { value: 38, unit: "mm" } },
+          { case_size: { value: 38, unit: "mm" }, movement: "Quartz" }
+        )
+      ).toBe(true)
+      expect(isSameAttributes(null, {})).toBe(true)
+    })
+
+    it("should notice changed, added and removed values", () => {
+      expect(isSameAttributes({ movement: "Quartz" }, { movement: "Automatic" })).toBe(false)
+      expect(isSameAttributes({ movement: "Quartz" }, { movement: "Quartz", make: "Ford" })).toBe(false)
+      expect(
+        isSameAttributes({ case_size: { value: 38, unit: "mm" } }, { case_size: { value: 38, unit: "cm" } })
+      ).toBe(false)
+    })
+  })
+})
@@ -5,6 +5,8 @@ import {
   buildFilterUrl,
   getSortConfig,
   hasActiveFilters,
+  getDefaultSort,
+  parseSearchModeParam,
   SORT_OPTIONS,
   type SortOption,
 } from "@/lib/utils/artifact-filters"
@@ -374,6 +376,57 @@ describe("artifact-filters", () => {
     })
   })
 
+  describe("search", () => {
+    const allTypeIds = ["type-1", "type-2", "type-3"]
+
+    it("should default to relevance only while searching", () => {
+      expect(getDefaultSort("grandpa")).toBe("relevance")
+      expect(getDefaultSort("")).toBe("newest")
+      expect(getDefaultSort()).toBe("newest")
+    })
+
+    it("should parse sort as relevance when searching without an explicit sort", () => {
+      expect(parseSortParam(null, "grandpa")).toBe("relevance")
+      expect(parseSortParam("relevance", "grandpa")).toBe("relevance")
+      expect(parseSortParam("oldest", "grandpa")).toBe("oldest")
+    })
+
+    it("should not accept relevance without a search query", () => {
+      expect(parseSortParam("relevance")).toBe("newest")
+      expect(parseSortParam("relevance", "")).toBe("newest")
+    })
+
+    it("should include the query and omit the default relevance sort", () => {
+      expect(buildFilterUrl("/artifacts", "relevance", [], undefined, undefined, "war letters")).toBe(
+        "/artifacts?q=war+letters",
+      )
+    })
+
+    it("should keep an explicit sort alongside the query", () => {
+      expect(buildFilterUrl("/artifacts", "newest", ["type-1"], "mine", undefined, "quilt")).toBe(
+        "/artifacts?tab=mine&q=quilt&sort=newest&types=type-1",
+      )
+    })
+
+    it("should treat a search query as an active filter", () => {
+      expect(hasActiveFilters("relevance", [], allTypeIds, "quilt")).toBe(true)
+      expect(hasActiveFilters("newest", [], allTypeIds, "")).toBe(false)
+    })
+
+    it("should parse search mode, defaulting to keyword", () => {
+      expect(parseSearchModeParam("1")).toBe("semantic")
+      expect(parseSearchModeParam(null)).toBe("keyword")
+      expect(parseSearchModeParam("yes")).toBe("keyword")
+    })
+
+    it("should flag semantic search in the URL only while searching", () => {
+      expect(buildFilterUrl("/artifacts", "relevance", [], undefined, undefined, "grandma's wedding", "semantic")).toBe(
+        "/artifacts?q=grandma%27s+wedding&semantic=1",
+      )
+      expect(buildFilterUrl("/artifacts", "newest", [], undefined, undefined, "", "semantic")).toBe("/artifacts")
+    })
+  })
+
   describe("integration scenarios", () => {
     const allTypeIds = ["type-1", "type-2", "type-3"]
 
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest"
+import {
+  CHUNK_OVERLAP_SECONDS,
+  CHUNK_SECONDS,
+  MAX_CHUNK_BYTES,
+  getChunkSeconds,
+  getResumableChunks,
+  isSplittableAudio,
+  needsChunking,
+  planAudioChunks,
+  readAudioLayout,
+  sliceAudio,
+  stitchChunkTranscripts,
+} from "@/lib/utils/audio-chunks"
+import type { TranscribedChunk } from "@/lib/types/transcripts"
+
+// 8-bit mono PCM at 100 samples a second: one byte per hundredth of a second
+function makeWav(seconds: number, { extraChunk = false } = {}): Uint8Array {
+  const dataSize = seconds * 100
+  const extra = extraChunk ? 8 + 3 + 1 : 0
+  const bytes = new Uint8Array(44 + extra + dataSize)
+  const view = new DataView(bytes.buffer)
+  const ascii = (offset: number, text: string) => text.split("").forEach((c, i) => (bytes[offset + i] = c.charCodeAt(0)))
+
+  ascii(0, "RIFF")
+  view.setUint32(4, bytes.length - 8, true)
+  ascii(8, "WAVE")
+  ascii(12, "fmt ")
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, 1, true) // mono
+  view.setUint32(24, 100, true) // sample rate
+  view.setUint32(28, 100, true) // byte rate
+  view.setUint16(32, 1, true) // block align
+  view.setUint16(34, 8, true) // bits per sample
+  if (extraChunk) {
+    ascii(36, "LIST")
+    view.setUint32(40, 3, true)
+  }
+  ascii(36 + extra, "data")
+  view.setUint32(40 + extra, dataSize, true)
+  for (let i = 0; i < dataSize; i++) bytes[44 + extra + i] = i % 256
+  return bytes
+}
+
+// MPEG 1 Layer III, 128 kbps, 44.1 kHz: 417-byte frames of 1152 samples
+const MP3_FRAME_BYTES = 417
+const MP3_FRAME_SECONDS = 1152 / 44100
+
+function makeMp3(frames: number, { id3 = false } = {}): Uint8Array {
+  const tag = id3 ? [0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 5, 1, 2, 3, 4, 5] : []
+  const bytes = new Uint8Array(tag.length + frames * MP3_FRAME_BYTES)
+  bytes.set(tag, 0)
+  for (let i = 0; i < frames; i++) {
+    bytes.set([0xff, 0xfb, 0x90, 0x00], tag.length + i * MP3_FRAME_BYTES)
+  }
+  return bytes
+}
+
+function chunk(index: number, start: number, end: number, segments: [number, number, string][]): TranscribedChunk {
+  return {
+    index,
+    start,
+    end,
+    text: segments.map(([, , text]) => text).join(" "),
+    segments: segments.map(([segmentStart, segmentEnd, text]) => ({ start: segmentStart, end: segmentEnd, text })),
+  }
+}
+
+describe("Audio Chunk Utilities", () => {
+  describe("readAudioLayout", () => {
+    it("should read a WAV file's duration and data", () => {
+      const layout = readAudioLayout(makeWav(90, { extraChunk: true }))
+
+      expect(layout).toMatchObject({ format: "wav", duration: 90, bytesPerSecond: 100, dataOffset: 56 })
+    })
+
+    it("should read an MP3 file's frames, skipping an ID3 tag", () => {
+      const layout = readAudioLayout(makeMp3(100, { id3: true }))
+
+      expect(layout?.format).toBe("mp3")
+      expect(layout?.duration).toBeCloseTo(100 * MP3_FRAME_SECONDS)
+      expect(layout?.format === "mp3" && layout.frameOffsets.slice(0, 2)).toEqual([15, 15 + MP3_FRAME_BYTES])
+      expect(layout?.bytesPerSecond).toBeCloseTo(16000, -2)
+    })
+
+    it("should return null for formats that can't be split", () => {
+      const webm = new Uint8Array([0x1a, 0x45, 0xdf, 0xa3, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xfb, 0x90, 0])
+
+      expect(readAudioLayout(webm)).toBeNull()
+      expect(isSplittableAudio(webm)).toBe(false)
+    })
+  })
+
+  describe("sliceAudio", () => {
+    it("should cut a WAV into a standalone file", () => {
+      const bytes = makeWav(60)
+      const layout = readAudioLayout(bytes)!
+      const part = sliceAudio(bytes, layout, 10, 20)
+      const partLayout = readAudioLayout(part)
+
+      expect(partLayout).toMatchObject({ format: "wav", duration: 10 })
+      expect(part[44]).toBe(bytes[44 + 1000])
+    })
+
+    it("should cut an MP3 on frame boundaries", () => {
+      const bytes = makeMp3(200)
+      const layout = readAudioLayout(bytes)!
+      const part = sliceAudio(bytes, layout, 1, 2)
+
+      expect(part.length % MP3_FRAME_BYTES).toBe(0)
+      expect(readAudioLayout(part)?.duration).toBeCloseTo(1, 1)
+    })
+  })
+
+  describe("needsChunking", () => {
+    it("should split recordings that are too long or too large", () => {
+      const short = readAudioLayout(makeWav(60))
+      const long = { ...short!, duration: CHUNK_SECONDS + 1 }
+
+      expect(needsChunking(6000, short)).toBe(false)
+      expect(needsChunking(6000, long)).toBe(true)
+      expect(needsChunking(MAX_CHUNK_BYTES + 1, null)).toBe(true)
+    })
+  })
+
+  describe("getChunkSeconds", () => {
+    it("should shorten parts so they fit in one request", () => {
+      expect(getChunkSeconds(16000)).toBe(CHUNK_SECONDS)
+      expect(getChunkSeconds(176400)).toBeLessThan(CHUNK_SECONDS)
+      expect(getChunkSeconds(176400) * 176400).toBeLessThanOrEqual(MAX_CHUNK_BYTES)
+    })
+  })
+
+  describe("planAudioChunks", () => {
+    it("should cover the recording with overlapping parts", () => {
+      expect(planAudioChunks(250, 100, 5)).toEqual([
+        { index: 0, start: 0, end: 100 },
+        { index: 1, start: 95, end: 195 },
+        { index: 2, start: 190, end: 250 },
+      ])
+    })
+
+    it("should not plan a part that only repeats the overlap", () => {
+      expect(planAudioChunks(195, 100, 5)).toHaveLength(2)
+      expect(planAudioChunks(30, 100, 5)).toEqual([{ index: 0, start: 0, end: 30 }])
+    })
+  })
+
+  describe("getResumableChunks", () => {
+    const chunks = planAudioChunks(250, 100, 5)
+    const plan = { chunkSeconds: 100, overlapSeconds: 5, chunks }
+    const saved = {
+      chunk_seconds: 100,
+      overlap_seconds: 5,
+      chunk_count: 3,
+      chunks: [{ index: 1, start: 95, end: 195, text: "Middle.", segments: [{ start: 0, end: 4, text: "Middle." }] }],
+    }
+
+    it("should reuse parts saved for the same split", () => {
+      expect(getResumableChunks(saved, plan)).toEqual(saved.chunks)
+    })
+
+    it("should ignore progress from a different split", () => {
+      expect(getResumableChunks({ ...saved, chunk_seconds: CHUNK_SECONDS }, plan)).toEqual([])
+      expect(getResumableChunks({ ...saved, chunk_count: 4 }, plan)).toEqual([])
+      expect(getResumableChunks(null, plan)).toEqual([])
+    })
+  })
+
+  describe("stitchChunkTranscripts", () => {
+    it("should offset segment times and drop the repeated overlap", () => {
+      const result = stitchChunkTranscripts([
+        chunk(1, 95, 150, [
+          [0, 3, "my grandfather."],
+          [4, 10, "He drove it to Rome."],
+        ]),
+        chunk(0, 0, 100, [
+          [0, 90, "The car belonged to"],
+          [90, 97, "my grandfather."],
+          [98, 100, "He drove"],
+        ]),
+      ])
+
+      expect(result.segments).toEqual([
+        { start: 0, end: 90, text: "The car belonged to" },
+        { start: 90, end: 97, text: "my grandfather." },
+        { start: 99, end: 105, text: "He drove it to Rome." },
+      ])
+      expect(result.text).toBe("The car belonged to my grandfather. He drove it to Rome.")
+    })
+
+    it("should join texts without segments when a part has no timings", () => {
+      const result = stitchChunkTranscripts([
+        chunk(0, 0, 100, [[0, 100, "First part."]]),
+        { index: 1, start: 95, end: 150, text: "Second part.", segments: [] },
+      ])
+
+      expect(result).toEqual({ text: "First part. Second part.", segments: [] })
+    })
+  })
+
+  it("should overlap parts by CHUNK_OVERLAP_SECONDS by default", () => {
+    const [first, second] = planAudioChunks(CHUNK_SECONDS * 2)
+
+    expect(first.end - second.start).toBe(CHUNK_OVERLAP_SECONDS)
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest"
+import { buildCommentThreads, countVisibleComments } from "@/lib/utils/comments"
+import type { ArtifactComment } from "@/lib/types/comments"
+
+function makeComment(id: string, parentId: string | null, createdAt: string, overrides: Partial<ArtifactComment> = {}) {
+  return {
+    id,
+    artifact_id: "a1",
+    user_id: "u1",
+    parent_id: parentId,
+    body: `Comment ${id}`,
+    photo_url: null,
+    audio_url: null,
+    audio_transcript: null,
+    created_at: createdAt,
+    updated_at: createdAt,
+    deleted_at: null,
+    author_name: "Rosa",
+    ...overrides,
+  } satisfies ArtifactComment
+}
+
+describe("Comment Utilities", () => {
+  describe("buildCommentThreads", () => {
+    it("should nest replies under their parents, oldest first", () => {
+      const threads = buildCommentThreads([
+        makeComment("reply-2", "root", "2025-01-03T00:00:00Z"),
+        makeComment("root", null, "2025-01-01T00:00:00Z"),
+        makeComment("reply-1", "root", "2025-01-02T00:00:00Z"),
+        makeComment("nested", "reply-1", "2025-01-04T00:00:00Z"),
+        makeComment("second-root", null, "2025-01-05T00:00:00Z"),
+      ])
+
+      expect(threads.map((t) => t.id)).toEqual(["root", "second-root"])
+      expect(threads[0].replies.map((r) => r.id)).toEqual(["reply-1", "reply-2"])
+      expect(threads[0].replies[0].replies.map((r) => r.id)).toEqual(["nested"])
+    })
+
+    it("should promote replies whose parent is missing", () => {
+      const threads = buildCommentThreads([makeComment("orphan", "gone", "2025-01-01T00:00:00Z")])
+
+      expect(threads.map((t) => t.id)).toEqual(["orphan"])
+    })
+  })
+
+  describe("countVisibleComments", () => {
+    it("should not count removed comments", () => {
+      expect(
+        countVisibleComments([
+          makeComment("1", null, "2025-01-01T00:00:00Z"),
+          makeComment("2", null, "2025-01-02T00:00:00Z", { body: null, deleted_at: "2025-01-03T00:00:00Z" }),
+        ]),
+      ).toBe(1)
+    })
+  })
+})
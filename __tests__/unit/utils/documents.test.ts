@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest"
+import {
+  cleanDocumentTranscription,
+  getDocumentPageUrls,
+  getDocumentText,
+  isDocumentType,
+} from "@/lib/utils/documents"
+
+const page1 = "https://example.com/letter-1.jpg"
+const page2 = "https://example.com/letter-2.jpg"
+const page3 = "https://example.com/envelope.png"
+
+describe("Document Utilities", () => {
+  describe("isDocumentType", () => {
+    it("should only treat document mode types as documents", () => {
+      expect(isDocumentType({ analysis_mode: "document" })).toBe(true)
+      expect(isDocumentType({ analysis_mode: "caption" })).toBe(false)
+      expect(isDocumentType(null)).toBe(false)
+    })
+  })
+
+  describe("getDocumentPageUrls", () => {
+    it("should put gallery pages first, in gallery order, then media block images once each", () => {
+      expect(getDocumentPageUrls([page2, page1], [page1, "https://example.com/story.mp3", page3])).toEqual([
+        page2,
+        page1,
+        page3,
+      ])
+    })
+
+    it("should skip gallery videos", () => {
+      expect(getDocumentPageUrls(["https://example.com/reading.mp4", page1], [])).toEqual([page1])
+    })
+  })
+
+  describe("cleanDocumentTranscription", () => {
+    it("should keep line breaks and blank lines between paragraphs", () => {
+      const text = "Cara Maria,  \r\nsto bene.\r\n\r\nTua sorella\r\n"
+      expect(cleanDocumentTranscription(text)).toBe("Cara Maria,\nsto bene.\n\nTua sorella")
+    })
+
+    it("should drop a wrapping code fence", () => {
+      expect(cleanDocumentTranscription("```text\nDear Tom,\n[illegible] soon\n```")).toBe("Dear Tom,\n[illegible] soon")
+    })
+
+    it("should keep indentation at the start of lines", () => {
+      expect(cleanDocumentTranscription("\n\n    2 cups flour\n    1 egg\n\n")).toBe("    2 cups flour\n    1 egg")
+    })
+  })
+
+  describe("getDocumentText", () => {
+    it("should return a single page as it is", () => {
+      expect(getDocumentText([page1, page2], { [page1]: "Dear Tom," })).toBe("Dear Tom,")
+    })
+
+    it("should head each page with its number in page order", () => {
+      const text = getDocumentText([page1, page2, page3], { [page3]: "Mr T. Smith", [page1]: "Dear Tom," })
+      expect(text).toBe("Page 1\nDear Tom,\n\nPage 3\nMr T. Smith")
+    })
+
+    it("should be empty without transcriptions", () => {
+      expect(getDocumentText([page1], null)).toBe("")
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest"
+import { buildArtifactEmbeddingText, toVectorLiteral, MAX_EMBEDDING_TEXT_LENGTH } from "@/lib/utils/embeddings"
+import { createLocalEmbeddingProvider, EMBEDDING_DIMENSIONS } from "@/lib/embeddings"
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0)
+}
+
+describe("Embedding Utilities", () => {
+  describe("buildArtifactEmbeddingText", () => {
+    it("should label each field that has content", () => {
+      const text = buildArtifactEmbeddingText({
+        title: "Wedding quilt",
+        description: "Stitched by grandma in 1952",
+        ai_description: null,
+        audio_transcripts: { "https://example.com/a.mp3": "She made it for the wedding." },
+      })
+
+      expect(text).toBe(
+        "Title: Wedding quilt\n\nDescription: Stitched by grandma in 1952\n\nTranscript: She made it for the wedding.",
+      )
+    })
+
+    it("should include audio and video summaries", () => {
+      const text = buildArtifactEmbeddingText({
+        title: "Reel",
+        video_summaries: { v1: "A picnic by the lake" },
+        audio_summaries: { a1: "Grandpa sings" },
+      })
+
+      expect(text).toContain("Audio summaries: Grandpa sings")
+      expect(text).toContain("Video summaries: A picnic by the lake")
+    })
+
+    it("should include the interview transcript", () => {
+      const text = buildArtifactEmbeddingText({
+        title: "Pocket watch",
+        interview_transcript: "Q: Who owned this first?\nA: My grandfather",
+      })
+
+      expect(text).toContain("Interview: Q: Who owned this first?\nA: My grandfather")
+    })
+
+    it("should return an empty string when only a title is known", () => {
+      expect(buildArtifactEmbeddingText({ title: "Untitled" })).toBe("")
+      expect(buildArtifactEmbeddingText({ title: "Untitled", description: "   " })).toBe("")
+    })
+
+    it("should cap the total length", () => {
+      const long = "word ".repeat(5000)
+      const text = buildArtifactEmbeddingText({
+        title: "Letters",
+        description: long,
+        ai_description: long,
+        transcript: long,
+      })
+
+      expect(text.length).toBeLessThanOrEqual(MAX_EMBEDDING_TEXT_LENGTH)
+    })
+  })
+
+  describe("toVectorLiteral", () => {
+    it("should format a pgvector literal", () => {
+      expect(toVectorLiteral([0.5, -1, 0])).toBe("[0.5,-1,0]")
+    })
+  })
+
+  describe("local embedding provider", () => {
+    const provider = createLocalEmbeddingProvider()
+
+    it("should return unit-length vectors of the stored dimensions", async () => {
+      const {
+        embeddings: [vector],
+      } = await provider.embed(["A quilt from grandma's wedding"])
+
+      expect(vector).toHaveLength(EMBEDDING_DIMENSIONS)
+      expect(cosine(vector, vector)).toBeCloseTo(1)
+    })
+
+    it("should be deterministic", async () => {
+      const first = await provider.embed(["war letters"])
+      const second = await provider.embed(["war letters"])
+
+      expect(first.embeddings).toEqual(second.embeddings)
+    })
+
+    it("should rank texts sharing words as more similar", async () => {
+      const {
+        embeddings: [query, related, unrelated],
+      } = await provider.embed([
+        "grandma wedding quilt",
+        "the quilt grandma sewed for her wedding",
+        "army medals from the navy",
+      ])
+
+      expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated))
+    })
+  })
+})
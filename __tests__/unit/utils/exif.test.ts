@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest"
+import { readExifGps } from "@/lib/utils/exif"
+
+type Rational = [number, number]
+
+/**
+ * A JPEG with just an EXIF segment holding IFD0 (a GPS pointer) and a GPS IFD
+ */
+function makeJpeg({
+  latitude,
+  longitude,
+  latitudeRef = "N",
+  longitudeRef = "E",
+  little = true,
+}: {
+  latitude: Rational[]
+  longitude: Rational[]
+  latitudeRef?: string
+  longitudeRef?: string
+  little?: boolean
+}): Uint8Array {
+  const tiff = new Uint8Array(256)
+  const view = new DataView(tiff.buffer)
+  const entry = (offset: number, tag: number, type: number, count: number, value: number) => {
+    view.setUint16(offset, tag, little)
+    view.setUint16(offset + 2, type, little)
+    view.setUint32(offset + 4, count, little)
+    // ASCII values of up to 4 bytes sit in the value field itself
+    if (type === 2) view.setUint8(offset + 8, value)
+    else view.setUint32(offset + 8, value, little)
+  }
+
+  view.setUint16(0, little ? 0x4949 : 0x4d4d)
+  view.setUint16(2, 42, little)
+  view.setUint32(4, 8, little)
+
+  // IFD0 at 8: one entry, the GPS IFD pointer
+  view.setUint16(8, 1, little)
+  entry(10, 0x8825, 4, 1, 26)
+
+  // GPS IFD at 26: four entries, rationals from 80
+  view.setUint16(26, 4, little)
+  entry(28, 0x0001, 2, 2, latitudeRef.charCodeAt(0))
+  entry(40, 0x0002, 5, 3, 80)
+  entry(52, 0x0003, 2, 2, longitudeRef.charCodeAt(0))
+  entry(64, 0x0004, 5, 3, 104)
+  ;[...latitude, ...longitude].forEach(([numerator, denominator], i) => {
+    view.setUint32(80 + i * 8, numerator, little)
+    view.setUint32(84 + i * 8, denominator, little)
+  })
+
+  const header = [0xff, 0xd8, 0xff, 0xe1, 0, 0, 0x45, 0x78, 0x69, 0x66, 0, 0]
+  const jpeg = new Uint8Array(header.length + tiff.length + 2)
+  jpeg.set(header)
+  new DataView(jpeg.buffer).setUint16(4, 8 + tiff.length)
+  jpeg.set(tiff, header.length)
+  jpeg.set([0xff, 0xda], header.length + tiff.length)
+  return jpeg
+}
+
+// 43° 50' 34.8" N, 10° 30' 18" E
+const LUCCA = {
+  latitude: [[43, 1], [50, 1], [348, 10]] as Rational[],
+  longitude: [[10, 1], [30, 1], [18, 1]] as Rational[],
+}
+
+describe("readExifGps", () => {
+  it("should read degrees, minutes and seconds", () => {
+    const position = readExifGps(makeJpeg(LUCCA))
+    expect(position?.latitude).toBeCloseTo(43.843, 3)
+    expect(position?.longitude).toBeCloseTo(10.505, 3)
+  })
+
+  it("should read big-endian EXIF and southern and western references", () => {
+    const position = readExifGps(
+      makeJpeg({ ...LUCCA, latitudeRef: "S", longitudeRef: "W", little: false })
+    )
+    expect(position?.latitude).toBeCloseTo(-43.843, 3)
+    expect(position?.longitude).toBeCloseTo(-10.505, 3)
+  })
+
+  it("should accept an ArrayBuffer", () => {
+    expect(readExifGps(makeJpeg(LUCCA).buffer as ArrayBuffer)).not.toBeNull()
+  })
+
+  it("should ignore positions written without a fix", () => {
+    const zero: Rational[] = [[0, 1], [0, 1], [0, 1]]
+    expect(readExifGps(makeJpeg({ latitude: zero, longitude: zero }))).toBeNull()
+  })
+
+  it("should return null for other files and truncated metadata", () => {
+    expect(readExifGps(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull()
+    expect(readExifGps(makeJpeg(LUCCA).slice(0, 60))).toBeNull()
+    expect(readExifGps(new Uint8Array(0))).toBeNull()
+  })
+})
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest"
+import { hasFamilyRole, isFamilyRole } from "@/lib/utils/family-roles"
+
+describe("Family Role Utilities", () => {
+  describe("hasFamilyRole", () => {
+    it("should treat higher roles as including lower ones", () => {
+      expect(hasFamilyRole("editor", "viewer")).toBe(true)
+      expect(hasFamilyRole("editor", "contributor")).toBe(true)
+      expect(hasFamilyRole("contributor", "contributor")).toBe(true)
+    })
+
+    it("should reject lower roles", () => {
+      expect(hasFamilyRole("viewer", "contributor")).toBe(false)
+      expect(hasFamilyRole("contributor", "editor")).toBe(false)
+    })
+
+    it("should reject non-members", () => {
+      expect(hasFamilyRole(null, "viewer")).toBe(false)
+      expect(hasFamilyRole(undefined, "viewer")).toBe(false)
+    })
+  })
+
+  describe("isFamilyRole", () => {
+    it("should only accept known roles", () => {
+      expect(isFamilyRole("viewer")).toBe(true)
+      expect(isFamilyRole("owner")).toBe(false)
+      expect(isFamilyRole(null)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest"
+import {
+  distanceKm,
+  findNearestGazetteerPlace,
+  formatGazetteerPlace,
+  geocodePlaceName,
+  normalizePlaceName,
+  searchGazetteer,
+} from "@/lib/utils/gazetteer"
+
+describe("normalizePlaceName", () => {
+  it("should drop accents, case and punctuation", () => {
+    expect(normalizePlaceName("  Kraków ")).toBe("krakow")
+    expect(normalizePlaceName("St. John's,  Newfoundland")).toBe("st johns newfoundland")
+  })
+})
+
+describe("geocodePlaceName", () => {
+  it("should find cities, states and countries by any of their names", () => {
+    expect(geocodePlaceName("Lucca")).toMatchObject({ name: "Lucca", country: "Italy" })
+    expect(geocodePlaceName("Napoli")).toMatchObject({ name: "Naples" })
+    expect(geocodePlaceName("Kaliningrad")).toMatchObject({ name: "Königsberg" })
+    expect(geocodePlaceName("OH")).toMatchObject({ name: "Ohio", country: "United States" })
+    expect(geocodePlaceName("Italy")).toMatchObject({ name: "Italy", country: null })
+  })
+
+  it("should read addresses most specific part first", () => {
+    expect(geocodePlaceName("Ponte a Moriano, Lucca, Italy")).toMatchObject({ name: "Lucca" })
+    expect(geocodePlaceName("Cork - Ireland")).toMatchObject({ name: "Cork" })
+    expect(geocodePlaceName("near Cork")).toMatchObject({ name: "Cork" })
+  })
+
+  it("should use the country to tell apart places with the same name", () => {
+    expect(geocodePlaceName("Galicia, Spain")).toMatchObject({ country: "Spain" })
+    expect(geocodePlaceName("Galicia")).toMatchObject({ country: "Poland" })
+  })
+
+  it("should return null for unknown places", () => {
+    expect(geocodePlaceName("Grandma's attic")).toBeNull()
+    expect(geocodePlaceName(" , ")).toBeNull()
+  })
+})
+
+describe("searchGazetteer", () => {
+  it("should list prefix matches before other matches", () => {
+    const results = searchGazetteer("luc")
+    expect(results[0]).toMatchObject({ name: "Lucca" })
+    expect(searchGazetteer("", 5)).toEqual([])
+  })
+
+  it("should stop at the limit", () => {
+    expect(searchGazetteer("a", 3)).toHaveLength(3)
+  })
+})
+
+describe("findNearestGazetteerPlace", () => {
+  it("should name a position after the closest city within range", () => {
+    const place = findNearestGazetteerPlace({ latitude: 43.85, longitude: 10.52 })
+    expect(place && formatGazetteerPlace(place)).toBe("Lucca, Italy")
+  })
+
+  it("should return null in the middle of nowhere", () => {
+    expect(findNearestGazetteerPlace({ latitude: -45, longitude: -140 })).toBeNull()
+  })
+})
+
+describe("distanceKm", () => {
+  it("should measure great-circle distance", () => {
+    const paris = { latitude: 48.86, longitude: 2.35 }
+    const london = { latitude: 51.51, longitude: -0.13 }
+    expect(distanceKm(paris, london)).toBeGreaterThan(330)
+    expect(distanceKm(paris, london)).toBeLessThan(350)
+  })
+})
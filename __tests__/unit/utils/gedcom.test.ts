@@ -0,0 +1,362 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildGedcom,
+  formatGedcomDate,
+  parseGedcom,
+  parseGedcomDate,
+  planGedcomImport,
+} from "@/lib/utils/gedcom"
+import type { GedcomImportPlan } from "@/lib/types/gedcom"
+import type { Person } from "@/lib/types/people"
+
+type ExistingPerson = Pick<Person, "id" | "name" | "birth_date" | "death_date" | "gedcom_id">
+
+const TREE = [
+  "\uFEFF0 HEAD",
+  "1 CHAR UTF-8",
+  "0 @I1@ INDI",
+  "1 NAME Rosa /Bianchi/",
+  "1 _UID 1A2B3C",
+  "1 BIRT",
+  "2 DATE 12 MAR 1901",
+  "2 PLAC Lucca, Italy",
+  "1 DEAT",
+  "2 DATE ABT 1987",
+  "0 @I2@ INDI",
+  "1 NAME /Bianchi/",
+  "2 GIVN Giuseppe",
+  "1 BIRT",
+  "2 DATE BET 1898 AND 1900",
+  "0 @I3@ INDI",
+  "1 SEX M",
+  "0 @F1@ FAM",
+  "1 HUSB @I2@",
+  "1 WIFE @I1@",
+  "0 TRLR",
+].join("\r\n")
+
+/**
+ * Apply a plan to the people it was made from, as importGedcom does
+ */
+function applyPlan(existing: ExistingPerson[], plan: GedcomImportPlan): ExistingPerson[] {
+  const updated = existing.map((person) => {
+    const update = plan.updates.find((candidate) => candidate.id === person.id)
+    return update ? { ...person, ...update.changes } : person
+  })
+  return [...updated, ...plan.inserts.map((person, index) => ({ ...person, id: `new-${index}` }))]
+}
+
+describe("GEDCOM Utilities", () => {
+  describe("parseGedcomDate", () => {
+    it("should convert exact and partial dates", () => {
+      expect(parseGedcomDate("12 MAR 1901")).toBe("1901-03-12")
+      expect(parseGedcomDate("Mar 1901")).toBe("1901-03")
+      expect(parseGedcomDate("1901")).toBe("1901")
+      expect(parseGedcomDate("1901/02")).toBe("1901")
+    })
+
+    it("should drop qualifiers and take the start of ranges", () => {
+      expect(parseGedcomDate("ABT 1987")).toBe("1987")
+      expect(parseGedcomDate("@#DGREGORIAN@ 1 JAN 1950")).toBe("1950-01-01")
+      expect(parseGedcomDate("BET 1898 AND 1900")).toBe("1898")
+      expect(parseGedcomDate("FROM MAY 1940 TO 1945")).toBe("1940-05")
+      expect(parseGedcomDate("INT 1901 (about Easter)")).toBe("1901")
+    })
+
+    it("should return null for dates it can't place", () => {
+      expect(parseGedcomDate("")).toBeNull()
+      expect(parseGedcomDate("(unknown)")).toBeNull()
+      expect(parseGedcomDate("31 FEB 1901")).toBeNull()
+      expect(parseGedcomDate("44 B.C.")).toBeNull()
+    })
+  })
+
+  describe("formatGedcomDate", () => {
+    it("should convert partial ISO dates", () => {
+      expect(formatGedcomDate("1901-03-02")).toBe("2 MAR 1901")
+      expect(formatGedcomDate("1901-03")).toBe("MAR 1901")
+      expect(formatGedcomDate("1901")).toBe("1901")
+      expect(formatGedcomDate(null)).toBeNull()
+    })
+  })
+
+  describe("parseGedcom", () => {
+    it("should read named individuals with their IDs and life dates", () => {
+      expect(parseGedcom(TREE)).toEqual([
+        {
+          xref: "@I1@",
+          source: null,
+          uid: "1A2B3C",
+          heirloomsId: null,
+          name: "Rosa Bianchi",
+          birth_date: "1901-03-12",
+          death_date: "1987",
+        },
+        {
+          xref: "@I2@",
+          source: null,
+          uid: null,
+          heirloomsId: null,
+          name: "Giuseppe Bianchi",
+          birth_date: "1898",
+          death_date: null,
+        },
+      ])
+    })
+
+    it("should name the tree each individual came from", () => {
+      const [individual] = parseGedcom(
+        ["0 HEAD", "1 SOUR FTM", "1 FILE bianchi.ged", "0 @I1@ INDI", "1 NAME Rosa", "0 TRLR"].join(
+          "\n"
+        )
+      )
+
+      expect(individual.source).toBe("FTM/bianchi.ged")
+    })
+
+    it("should join continued values and unescape @@", () => {
+      const [individual] = parseGedcom(
+        ["0 @I1@ INDI", "1 NAME Anna Maria", "2 CONC  /Rossi@@home/", "0 TRLR"].join("\n")
+      )
+
+      expect(individual.name).toBe("Anna Maria Rossi@home")
+    })
+  })
+
+  describe("buildGedcom", () => {
+    const people = [
+      {
+        id: "9f0c2a8e-1111-4222-8333-444455556666",
+        name: "Rosa Maria Bianchi",
+        birth_date: "1901-03-12",
+        death_date: "1987",
+        relationship: "Grandmother",
+        gedcom_id: "1A2B3C",
+        artifacts: [
+          {
+            title: "Wedding Ring",
+            url: "https://example.com/artifacts/a1/wedding-ring",
+            roles: ["original_owner" as const, "pictured" as const],
+          },
+        ],
+      },
+      {
+        id: "8e1b3c7d-1111-4222-8333-444455556666",
+        name: "Giuseppe",
+        birth_date: null,
+        death_date: null,
+        relationship: null,
+        gedcom_id: "@I2@",
+        artifacts: [],
+      },
+    ]
+
+    it("should write individuals with dates, IDs and artifact links", () => {
+      const gedcom = buildGedcom(people, new Date("2025-12-23T12:00:00Z"))
+      const lines = gedcom.trim().split("\n")
+
+      expect(lines[0]).toBe("0 HEAD")
+      expect(lines).toContain("1 DATE 23 DEC 2025")
+      expect(lines).toContain("0 @I1@ INDI")
+      expect(lines).toContain("1 NAME Rosa Maria /Bianchi/")
+      expect(lines).toContain("2 DATE 12 MAR 1901")
+      expect(lines).toContain("1 NOTE Relationship: Grandmother")
+      expect(lines).toContain("1 _UID 1A2B3C")
+      expect(lines).toContain("1 REFN 9f0c2a8e-1111-4222-8333-444455556666")
+      expect(lines).toContain("2 FILE https://example.com/artifacts/a1/wedding-ring")
+      expect(lines).toContain("2 TITL Wedding Ring")
+      expect(lines).toContain(
+        "1 NOTE Heirloom: Wedding Ring (Original owner, Pictured): https://example.com/artifacts/a1/wedding-ring"
+      )
+      expect(lines).toContain("1 NAME Giuseppe")
+      // An xref from an earlier import isn't carried over
+      expect(lines).not.toContain("1 _UID @I2@")
+      expect(lines[lines.length - 1]).toBe("0 TRLR")
+    })
+
+    it("should split long values and escape @", () => {
+      const gedcom = buildGedcom(
+        [{ ...people[1], relationship: `${"a".repeat(250)}@b` }],
+        new Date("2025-12-23T12:00:00Z")
+      )
+
+      expect(gedcom).toContain("2 CONC ")
+      expect(gedcom).toContain("@@b")
+    })
+
+    it("should read back what it writes", () => {
+      const [rosa, giuseppe] = parseGedcom(buildGedcom(people, new Date()))
+
+      expect(rosa).toMatchObject({
+        uid: "1A2B3C",
+        heirloomsId: people[0].id,
+        name: "Rosa Maria Bianchi",
+        birth_date: "1901-03-12",
+        death_date: "1987",
+      })
+      expect(giuseppe).toMatchObject({ uid: null, heirloomsId: people[1].id, name: "Giuseppe" })
+    })
+  })
+
+  describe("planGedcomImport", () => {
+    const individuals = parseGedcom(TREE)
+
+    it("should add people who aren't in the directory", () => {
+      const plan = planGedcomImport(individuals, [])
+
+      expect(plan.inserts).toEqual([
+        { name: "Rosa Bianchi", birth_date: "1901-03-12", death_date: "1987", gedcom_id: "1A2B3C" },
+        { name: "Giuseppe Bianchi", birth_date: "1898", death_date: null, gedcom_id: "@I2@" },
+      ])
+      expect(plan.updates).toEqual([])
+    })
+
+    it("should change nothing when the same tree is imported again", () => {
+      const imported = applyPlan([], planGedcomImport(individuals, []))
+      const plan = planGedcomImport(individuals, imported)
+
+      expect(plan).toEqual({ inserts: [], updates: [], unchanged: 2, skipped: [] })
+    })
+
+    it("should match people by name and only fill in missing dates", () => {
+      const existing = [
+        { id: "rosa", name: "rosa bianchi", birth_date: "1901", death_date: null, gedcom_id: null },
+      ]
+      const plan = planGedcomImport(individuals, existing)
+
+      expect(plan.updates).toEqual([
+        { id: "rosa", changes: { death_date: "1987", gedcom_id: "1A2B3C" } },
+      ])
+      expect(plan.inserts).toHaveLength(1)
+      expect(planGedcomImport(individuals, applyPlan(existing, plan)).unchanged).toBe(2)
+    })
+
+    it("should match people exported from here by their REFN", () => {
+      const existing = [
+        { id: "rosa", name: "Nonna Rosa", birth_date: null, death_date: null, gedcom_id: null },
+      ]
+      const exported = parseGedcom(
+        buildGedcom(
+          [{ ...existing[0], relationship: null, artifacts: [] }],
+          new Date("2025-12-23T12:00:00Z")
+        )
+      )
+      // Renamed and renumbered in another genealogy tool
+      const plan = planGedcomImport(
+        [{ ...exported[0], xref: "@P7@", name: "Rosa Bianchi", birth_date: "1901" }],
+        existing
+      )
+
+      expect(plan.inserts).toEqual([])
+      expect(plan.updates).toEqual([{ id: "rosa", changes: { birth_date: "1901" } }])
+    })
+
+    it("should not mistake people from another tree for ones with the same xref", () => {
+      const tree = (file: string, name: string, birth: string) =>
+        [
+          "0 HEAD",
+          "1 SOUR Ancestry",
+          `1 FILE ${file}`,
+          "0 @I1@ INDI",
+          `1 NAME ${name}`,
+          "1 BIRT",
+          `2 DATE ${birth}`,
+          "0 TRLR",
+        ].join("\n")
+
+      const bianchi = parseGedcom(tree("bianchi.ged", "Rosa /Bianchi/", "1901"))
+      const imported = applyPlan([], planGedcomImport(bianchi, []))
+      const plan = planGedcomImport(
+        parseGedcom(tree("rossi.ged", "Marco /Rossi/", "1930")),
+        imported
+      )
+
+      expect(imported[0].gedcom_id).toBe("@I1@ Ancestry/bianchi.ged")
+      expect(plan.updates).toEqual([])
+      expect(plan.inserts).toEqual([
+        {
+          name: "Marco Rossi",
+          birth_date: "1930",
+          death_date: null,
+          gedcom_id: "@I1@ Ancestry/rossi.ged",
+        },
+      ])
+    })
+
+    it("should not match an xref to someone else when trees don't name themselves", () => {
+      const rosa = parseGedcom(["0 @I1@ INDI", "1 NAME Rosa /Bianchi/", "0 TRLR"].join("\n"))
+      const imported = applyPlan([], planGedcomImport(rosa, []))
+      const marco = parseGedcom(["0 @I1@ INDI", "1 NAME Marco /Rossi/", "0 TRLR"].join("\n"))
+      const plan = planGedcomImport(marco, imported)
+
+      expect(plan.updates).toEqual([])
+      // The xref stays with Rosa
+      expect(plan.inserts).toEqual([
+        { name: "Marco Rossi", birth_date: null, death_date: null, gedcom_id: null },
+      ])
+      expect(planGedcomImport(marco, applyPlan(imported, plan)).unchanged).toBe(1)
+    })
+
+    it("should add namesakes who are tied to someone else", () => {
+      const existing = [
+        {
+          id: "rosa",
+          name: "Rosa Bianchi",
+          birth_date: null,
+          death_date: null,
+          gedcom_id: "OTHER",
+        },
+      ]
+      const plan = planGedcomImport(individuals, existing)
+
+      expect(plan.skipped).toEqual([])
+      expect(plan.updates).toEqual([])
+      expect(plan.inserts.map((person) => person.name)).toEqual([
+        "Rosa Bianchi",
+        "Giuseppe Bianchi",
+      ])
+    })
+
+    it("should add relatives who share a name but not life dates", () => {
+      const existing = [
+        {
+          id: "niece",
+          name: "Rosa Bianchi",
+          birth_date: "1960",
+          death_date: null,
+          gedcom_id: null,
+        },
+      ]
+      const plan = planGedcomImport(individuals, existing)
+
+      expect(plan.updates).toEqual([])
+      expect(plan.inserts.map((person) => [person.name, person.birth_date])).toEqual([
+        ["Rosa Bianchi", "1901-03-12"],
+        ["Giuseppe Bianchi", "1898"],
+      ])
+      expect(planGedcomImport(individuals, applyPlan(existing, plan)).unchanged).toBe(2)
+    })
+
+    it("should add namesakes in the same tree and skip individuals listed twice", () => {
+      const tree = parseGedcom(
+        [
+          "0 @I1@ INDI",
+          "1 NAME Giovanni /Bianchi/",
+          "0 @I2@ INDI",
+          "1 NAME Giovanni /Bianchi/",
+          "0 @I3@ INDI",
+          "1 NAME Rosa /Bianchi/",
+          "1 _UID 1A2B3C",
+          "0 @I4@ INDI",
+          "1 NAME Rosa /Bianchi/",
+          "1 _UID 1A2B3C",
+          "0 TRLR",
+        ].join("\n")
+      )
+      const plan = planGedcomImport(tree, [])
+
+      expect(plan.inserts.map((person) => person.gedcom_id)).toEqual(["@I1@", "@I2@", "1A2B3C"])
+      expect(plan.skipped).toEqual(["Rosa Bianchi"])
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest"
+import {
+  DEFAULT_INTERVIEW_QUESTIONS,
+  buildInterviewTranscript,
+  getInterviewQuestions,
+  upsertInterviewAnswer,
+} from "@/lib/utils/interview"
+import type { InterviewAnswer, InterviewQuestion } from "@/lib/types/interviews"
+
+const questions: InterviewQuestion[] = [
+  { key: "first_owner", prompt: "Who owned this first?" },
+  { key: "origin", prompt: "Where did it come from?" },
+  { key: "memories", prompt: "What do you remember about it?" },
+]
+
+function answer(question_key: string, transcript: string): InterviewAnswer {
+  const question = questions.find((candidate) => candidate.key === question_key)
+  return {
+    question_key,
+    question: question?.prompt || "An old question",
+    transcript,
+    media_id: null,
+    audio_url: null,
+    recorded_at: "2025-12-16T10:00:00.000Z",
+  }
+}
+
+describe("Interview Utilities", () => {
+  describe("getInterviewQuestions", () => {
+    it("should use the type's questions", () => {
+      expect(getInterviewQuestions(questions)).toEqual(questions)
+    })
+
+    it("should fall back to the defaults when the type has none", () => {
+      expect(getInterviewQuestions([])).toBe(DEFAULT_INTERVIEW_QUESTIONS)
+      expect(getInterviewQuestions(null)).toBe(DEFAULT_INTERVIEW_QUESTIONS)
+      expect(getInterviewQuestions(undefined)).toBe(DEFAULT_INTERVIEW_QUESTIONS)
+    })
+
+    it("should drop malformed questions", () => {
+      const result = getInterviewQuestions([
+        { key: "first_owner", prompt: "Who owned this first?" },
+        { key: "", prompt: "No key" },
+        { key: "blank", prompt: "   " },
+        "not a question",
+      ])
+
+      expect(result).toEqual([{ key: "first_owner", prompt: "Who owned this first?" }])
+    })
+  })
+
+  describe("upsertInterviewAnswer", () => {
+    it("should keep answers in question order", () => {
+      const result = upsertInterviewAnswer([answer("memories", "Sunday dinners")], answer("first_owner", "Rosa"), questions)
+
+      expect(result.map((item) => item.question_key)).toEqual(["first_owner", "memories"])
+    })
+
+    it("should replace an earlier answer to the same question", () => {
+      const result = upsertInterviewAnswer(
+        [answer("first_owner", "Rosa"), answer("origin", "Naples")],
+        answer("first_owner", "Great-aunt Rosa"),
+        questions,
+      )
+
+      expect(result).toHaveLength(2)
+      expect(result[0].transcript).toBe("Great-aunt Rosa")
+    })
+
+    it("should keep answers to questions no longer asked at the end", () => {
+      const result = upsertInterviewAnswer([answer("retired", "Kept")], answer("origin", "Naples"), questions)
+
+      expect(result.map((item) => item.question_key)).toEqual(["origin", "retired"])
+    })
+  })
+
+  describe("buildInterviewTranscript", () => {
+    it("should format questions and answers", () => {
+      expect(buildInterviewTranscript([answer("first_owner", " Rosa "), answer("origin", "Naples")])).toBe(
+        "Q: Who owned this first?\nA: Rosa\n\nQ: Where did it come from?\nA: Naples",
+      )
+    })
+
+    it("should leave out answers with nothing said", () => {
+      expect(buildInterviewTranscript([answer("first_owner", "Rosa"), answer("origin", "  ")])).toBe(
+        "Q: Who owned this first?\nA: Rosa",
+      )
+    })
+
+    it("should return null when there are no answers", () => {
+      expect(buildInterviewTranscript([])).toBeNull()
+      expect(buildInterviewTranscript([answer("origin", "")])).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest"
+import {
+  clusterPoints,
+  fitPoints,
+  formatCoordinates,
+  getTileUrl,
+  projectPoint,
+  unprojectPoint,
+  wrapLongitude,
+} from "@/lib/utils/map"
+
+const lucca = { latitude: 43.843, longitude: 10.505 }
+const pisa = { latitude: 43.716, longitude: 10.402 }
+const boston = { latitude: 42.36, longitude: -71.06 }
+
+describe("projectPoint", () => {
+  it("should put the origin in the middle of the world", () => {
+    expect(projectPoint({ latitude: 0, longitude: 0 }, 0)).toEqual({ x: 128, y: 128 })
+  })
+
+  it("should round-trip through unprojectPoint", () => {
+    const { latitude, longitude } = unprojectPoint(projectPoint(lucca, 8), 8)
+    expect(latitude).toBeCloseTo(lucca.latitude, 6)
+    expect(longitude).toBeCloseTo(lucca.longitude, 6)
+  })
+})
+
+describe("wrapLongitude", () => {
+  it("should keep longitudes within -180 to 180", () => {
+    expect(wrapLongitude(190)).toBe(-170)
+    expect(wrapLongitude(-190)).toBe(170)
+    expect(wrapLongitude(45)).toBe(45)
+  })
+})
+
+describe("fitPoints", () => {
+  it("should show the whole world when there's nothing to show", () => {
+    expect(fitPoints([], 800, 500).zoom).toBe(2)
+  })
+
+  it("should zoom in on nearby points and out for distant ones", () => {
+    const near = fitPoints([lucca, pisa], 800, 500)
+    const far = fitPoints([lucca, boston], 800, 500)
+    expect(near.zoom).toBeGreaterThan(far.zoom)
+    expect(near.center.latitude).toBeGreaterThan(pisa.latitude)
+    expect(near.center.latitude).toBeLessThan(lucca.latitude)
+  })
+
+  it("should show a single point at city level", () => {
+    expect(fitPoints([lucca], 800, 500)).toEqual({ center: expect.any(Object), zoom: 10 })
+  })
+})
+
+describe("clusterPoints", () => {
+  const points = [
+    { ...lucca, id: "a" },
+    { ...pisa, id: "b" },
+    { ...boston, id: "c" },
+  ]
+
+  it("should group points that overlap when zoomed out", () => {
+    const clusters = clusterPoints(points, 3)
+    expect(clusters.map((cluster) => cluster.items.map((item) => item.id))).toEqual([["a", "b"], ["c"]])
+  })
+
+  it("should split clusters when zoomed in", () => {
+    expect(clusterPoints(points, 12)).toHaveLength(3)
+  })
+})
+
+describe("getTileUrl", () => {
+  it("should fill in the template", () => {
+    expect(getTileUrl("https://tiles.example.com/{z}/{x}/{y}.png", 3, 5, 4)).toBe(
+      "https://tiles.example.com/4/3/5.png"
+    )
+  })
+})
+
+describe("formatCoordinates", () => {
+  it("should show hemispheres instead of signs", () => {
+    expect(formatCoordinates(lucca)).toBe("43.8430° N, 10.5050° E")
+    expect(formatCoordinates({ latitude: -33.8688, longitude: -70.6693 })).toBe(
+      "33.8688° S, 70.6693° W"
+    )
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest"
+import {
+  findPersonMatches,
+  formatKnownPeople,
+  formatLifeDates,
+  getPersonLinks,
+  groupLinkedPeople,
+} from "@/lib/utils/people"
+import type { Person } from "@/lib/types/people"
+
+function person(overrides: Partial<Person>): Person {
+  return {
+    id: "person-id",
+    user_id: "user-id",
+    name: "Rosa Bianchi",
+    birth_date: null,
+    death_date: null,
+    relationship: null,
+    portrait_media_id: null,
+    portrait_url: null,
+    gedcom_id: null,
+    created_at: "2025-12-22T00:00:00Z",
+    updated_at: "2025-12-22T00:00:00Z",
+    ...overrides,
+  }
+}
+
+const rosa = person({ id: "rosa", name: "Rosa Bianchi", relationship: "Grandmother" })
+const joe = person({ id: "joe", name: "Joe Bianchi", relationship: "Uncle" })
+const nonna = person({ id: "nonna", name: "Maria Russo", relationship: "Nonna" })
+
+describe("formatLifeDates", () => {
+  it("should show both dates as a range", () => {
+    expect(formatLifeDates("1901", "1987")).toBe("1901 – 1987")
+  })
+
+  it("should label a single date", () => {
+    expect(formatLifeDates("1901", null)).toBe("Born 1901")
+    expect(formatLifeDates(null, "1987")).toBe("Died 1987")
+    expect(formatLifeDates(null, null)).toBeNull()
+  })
+})
+
+describe("groupLinkedPeople", () => {
+  it("should give each person all their roles, in display order, sorted by name", () => {
+    const grouped = groupLinkedPeople([
+      { role: "mentioned", person: rosa },
+      { role: "maker", person: joe },
+      { role: "original_owner", person: rosa },
+      { role: "pictured", person: null },
+    ])
+
+    expect(grouped.map((p) => [p.name, p.roles])).toEqual([
+      ["Joe Bianchi", ["maker"]],
+      ["Rosa Bianchi", ["original_owner", "mentioned"]],
+    ])
+  })
+})
+
+describe("getPersonLinks", () => {
+  it("should list one link per person and role", () => {
+    expect(getPersonLinks([{ ...rosa, roles: ["original_owner", "mentioned"] }])).toEqual([
+      { person_id: "rosa", role: "original_owner" },
+      { person_id: "rosa", role: "mentioned" },
+    ])
+  })
+})
+
+describe("findPersonMatches", () => {
+  const people = [rosa, joe, nonna]
+
+  it("should match a first name to the full name", () => {
+    expect(findPersonMatches("rosa", people)).toEqual([rosa])
+  })
+
+  it("should match a full name to someone recorded by first name", () => {
+    expect(
+      findPersonMatches("Joe Bianchi Jr", [person({ id: "j", name: "Joe Bianchi" })]).map(
+        (p) => p.id
+      )
+    ).toEqual(["j"])
+  })
+
+  it("should match a relationship", () => {
+    expect(findPersonMatches("Nonna", people)).toEqual([nonna])
+  })
+
+  it("should put exact names first", () => {
+    const rosaAlone = person({ id: "rosa-alone", name: "Rosa" })
+    expect(findPersonMatches("Rosa", [rosa, rosaAlone]).map((p) => p.id)).toEqual([
+      "rosa-alone",
+      "rosa",
+    ])
+  })
+
+  it("should not match unrelated names", () => {
+    expect(findPersonMatches("Rose", people)).toEqual([])
+    expect(findPersonMatches("  ", people)).toEqual([])
+  })
+})
+
+describe("formatKnownPeople", () => {
+  it("should list people with their relationship and life dates", () => {
+    expect(
+      formatKnownPeople([
+        { ...rosa, birth_date: "1901", death_date: "1987" },
+        { ...joe, relationship: null },
+      ])
+    ).toBe("- Rosa Bianchi (Grandmother, 1901 – 1987)\n- Joe Bianchi")
+  })
+})
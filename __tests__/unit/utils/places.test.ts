@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest"
+import { getGazetteerLocation, isLocated, pickArtifactPlace } from "@/lib/utils/places"
+
+const lucca = { id: "p1", name: "Lucca", latitude: 43.84, longitude: 10.5 }
+const boston = { id: "p2", name: "Boston", latitude: 42.36, longitude: -71.06 }
+const attic = { id: "p3", name: "The attic", latitude: null, longitude: null }
+
+describe("isLocated", () => {
+  it("should need both coordinates", () => {
+    expect(isLocated(lucca)).toBe(true)
+    expect(isLocated(attic)).toBe(false)
+    expect(isLocated(null)).toBe(false)
+  })
+})
+
+describe("getGazetteerLocation", () => {
+  it("should locate known places from the gazetteer", () => {
+    expect(getGazetteerLocation("Lucca, Tuscany")).toEqual({
+      latitude: 43.84,
+      longitude: 10.5,
+      location_source: "gazetteer",
+    })
+    expect(getGazetteerLocation("The attic")).toBeNull()
+  })
+})
+
+describe("pickArtifactPlace", () => {
+  it("should prefer the origin", () => {
+    expect(pickArtifactPlace({ origin: lucca, provenance: [boston], mentioned: [boston] })).toEqual({
+      place: lucca,
+      place_kind: "origin",
+    })
+  })
+
+  it("should fall back to the earliest located provenance place, then mentioned places", () => {
+    expect(pickArtifactPlace({ origin: attic, provenance: [null, attic, boston] })).toEqual({
+      place: boston,
+      place_kind: "provenance",
+    })
+    expect(pickArtifactPlace({ provenance: [attic], mentioned: [attic, lucca] })).toEqual({
+      place: lucca,
+      place_kind: "mentioned",
+    })
+  })
+
+  it("should return null when nothing has coordinates", () => {
+    expect(pickArtifactPlace({ origin: attic, provenance: [attic] })).toBeNull()
+    expect(pickArtifactPlace({})).toBeNull()
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildSeedProvenanceEvent,
+  formatPartialDate,
+  formatProvenanceDateRange,
+} from "@/lib/utils/provenance"
+
+describe("Provenance Utilities", () => {
+  describe("formatPartialDate", () => {
+    it("should keep year-only dates as the year", () => {
+      expect(formatPartialDate("1952")).toBe("1952")
+    })
+
+    it("should format month and day precision", () => {
+      expect(formatPartialDate("1952-06")).toBe(
+        new Date(Date.UTC(1952, 5, 1)).toLocaleDateString(undefined, {
+          year: "numeric",
+          month: "long",
+          timeZone: "UTC",
+        })
+      )
+      expect(formatPartialDate("1952-06-14")).toBe(
+        new Date(Date.UTC(1952, 5, 14)).toLocaleDateString(undefined, {
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+          timeZone: "UTC",
+        })
+      )
+    })
+
+    it("should return null for empty values and the raw value for unparseable ones", () => {
+      expect(formatPartialDate(null)).toBeNull()
+      expect(formatPartialDate("")).toBeNull()
+      expect(formatPartialDate("circa 1950")).toBe("circa 1950")
+    })
+  })
+
+  describe("formatProvenanceDateRange", () => {
+    it("should join start and end dates", () => {
+      expect(formatProvenanceDateRange("1952", "1980")).toBe("1952 – 1980")
+    })
+
+    it("should collapse identical start and end dates", () => {
+      expect(formatProvenanceDateRange("1952", "1952")).toBe("1952")
+    })
+
+    it("should describe open-ended ranges", () => {
+      expect(formatProvenanceDateRange("1952", null)).toBe("Since 1952")
+      expect(formatProvenanceDateRange(null, "1980")).toBe("Until 1980")
+      expect(formatProvenanceDateRange(null, null)).toBeNull()
+    })
+  })
+
+  describe("buildSeedProvenanceEvent", () => {
+    it("should seed from year_acquired and origin", () => {
+      expect(
+        buildSeedProvenanceEvent({ ownerName: "Alex", yearAcquired: 1998, origin: " Naples, Italy " })
+      ).toEqual({
+        owner_name: "Alex",
+        acquisition_method: null,
+        date_start: "1998",
+        date_end: null,
+        location: "Naples, Italy",
+        notes: null,
+      })
+    })
+
+    it("should fall back to a generic owner name", () => {
+      expect(buildSeedProvenanceEvent({ ownerName: null, yearAcquired: 1998, origin: null })?.owner_name).toBe(
+        "Current owner"
+      )
+    })
+
+    it("should return null when there is nothing to seed", () => {
+      expect(buildSeedProvenanceEvent({ ownerName: "Alex", yearAcquired: null, origin: "  " })).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest"
+import { getClientIp, getRateLimitHeaders, getRateLimitKey, slideWindow } from "@/lib/utils/rate-limit"
+
+describe("Rate Limit Utils", () => {
+  const rule = { limit: 3, windowSeconds: 60 }
+  const now = 1_000_000
+
+  describe("slideWindow", () => {
+    it("should allow requests until the window is full", () => {
+      const { result, hits } = slideWindow([now - 30_000, now - 10_000], rule, now)
+
+      expect(result).toEqual({ ok: true, limit: 3, remaining: 0, resetSeconds: 30 })
+      expect(hits).toEqual([now - 30_000, now - 10_000, now])
+    })
+
+    it("should refuse once the window is full, until the oldest request expires", () => {
+      const full = [now - 50_000, now - 20_000, now - 5_000]
+
+      const { result, hits } = slideWindow(full, rule, now)
+
+      expect(result).toEqual({ ok: false, limit: 3, remaining: 0, resetSeconds: 10 })
+      expect(hits).toEqual(full)
+    })
+
+    it("should forget requests older than the window", () => {
+      const { result, hits } = slideWindow([now - 61_000, now - 60_000, now - 59_000], rule, now)
+
+      expect(result.ok).toBe(true)
+      expect(result.remaining).toBe(1)
+      expect(hits).toEqual([now - 59_000, now])
+    })
+  })
+
+  describe("getRateLimitHeaders", () => {
+    it("should describe the budget", () => {
+      expect(getRateLimitHeaders(rule, { ok: true, limit: 3, remaining: 2, resetSeconds: 60 })).toEqual({
+        "RateLimit-Limit": "3",
+        "RateLimit-Remaining": "2",
+        "RateLimit-Reset": "60",
+        "RateLimit-Policy": "3;w=60",
+      })
+    })
+
+    it("should add Retry-After when refused", () => {
+      expect(getRateLimitHeaders(rule, { ok: false, limit: 3, remaining: 0, resetSeconds: 12 })).toMatchObject({
+        "Retry-After": "12",
+      })
+    })
+  })
+
+  describe("getRateLimitKey", () => {
+    it("should prefer the signed-in user over the IP", () => {
+      expect(getRateLimitKey("user-1", "203.0.113.7")).toBe("user:user-1")
+      expect(getRateLimitKey(null, "203.0.113.7")).toBe("ip:203.0.113.7")
+    })
+  })
+
+  describe("getClientIp", () => {
+    it("should take the first forwarded address", () => {
+      expect(getClientIp(new Headers({ "x-forwarded-for": "203.0.113.7, 10.0.0.1" }))).toBe("203.0.113.7")
+      expect(getClientIp(new Headers({ "x-real-ip": "198.51.100.2" }))).toBe("198.51.100.2")
+      expect(getClientIp(new Headers())).toBe("unknown")
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest"
+import {
+  getArtifactEditPath,
+  getArtifactPath,
+  getCollectionEditPath,
+  getCollectionPath,
+  getRequestedPath,
+  isUuid,
+  withSearchParams,
+} from "@/lib/utils/routes"
+
+const id = "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d"
+
+describe("Route Utils", () => {
+  describe("isUuid", () => {
+    it("should recognise IDs and reject legacy slugs", () => {
+      expect(isUuid(id)).toBe(true)
+      expect(isUuid(id.toUpperCase())).toBe(true)
+      expect(isUuid("grandmothers-watch")).toBe(false)
+      expect(isUuid(`${id}-2`)).toBe(false)
+    })
+  })
+
+  describe("getArtifactPath", () => {
+    it("should put the ID before the slug", () => {
+      expect(getArtifactPath({ id, slug: "grandmothers-watch" })).toBe(`/artifacts/${id}/grandmothers-watch`)
+      expect(getArtifactEditPath({ id, slug: "grandmothers-watch" })).toBe(
+        `/artifacts/${id}/grandmothers-watch?mode=edit`,
+      )
+    })
+
+    it("should fall back to the ID alone without a slug", () => {
+      expect(getArtifactPath({ id })).toBe(`/artifacts/${id}`)
+      expect(getArtifactPath({ id, slug: null })).toBe(`/artifacts/${id}`)
+    })
+  })
+
+  describe("getCollectionPath", () => {
+    it("should put the ID before the slug", () => {
+      expect(getCollectionPath({ id, slug: "family-photos" })).toBe(`/collections/${id}/family-photos`)
+      expect(getCollectionEditPath({ id, slug: "family-photos" })).toBe(`/collections/${id}/edit`)
+    })
+
+    it("should leave out slugs that would shadow the edit page", () => {
+      expect(getCollectionPath({ id, slug: "edit" })).toBe(`/collections/${id}`)
+    })
+  })
+
+  describe("getRequestedPath", () => {
+    it("should rebuild the visited path from route params", () => {
+      expect(getRequestedPath("/artifacts", id)).toBe(`/artifacts/${id}`)
+      expect(getRequestedPath("/artifacts", id, ["old-title"])).toBe(`/artifacts/${id}/old-title`)
+      expect(getRequestedPath("/collections", "family-photos", [])).toBe("/collections/family-photos")
+    })
+  })
+
+  describe("withSearchParams", () => {
+    it("should keep query params across redirects", () => {
+      expect(withSearchParams("/artifacts/x/y", { mode: "edit", ref: "share", empty: undefined })).toBe(
+        "/artifacts/x/y?mode=edit&ref=share",
+      )
+      expect(withSearchParams("/collections/x", { tag: ["a", "b"] })).toBe("/collections/x?tag=a&tag=b")
+      expect(withSearchParams("/collections/x", {})).toBe("/collections/x")
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest"
+import {
+  MAX_SEARCH_LENGTH,
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+  normalizeSearchQuery,
+  orderBySearchRank,
+  splitHighlightedSnippet,
+} from "@/lib/utils/search"
+
+const mark = (text: string) => `${SEARCH_HIGHLIGHT_START}${text}${SEARCH_HIGHLIGHT_END}`
+
+describe("Search Utils", () => {
+  describe("normalizeSearchQuery", () => {
+    it("should trim and collapse whitespace", () => {
+      expect(normalizeSearchQuery("  war   letters \n")).toBe("war letters")
+    })
+
+    it("should return an empty string for missing or blank input", () => {
+      expect(normalizeSearchQuery(null)).toBe("")
+      expect(normalizeSearchQuery(undefined)).toBe("")
+      expect(normalizeSearchQuery("   ")).toBe("")
+    })
+
+    it("should cap the length", () => {
+      expect(normalizeSearchQuery("a".repeat(MAX_SEARCH_LENGTH + 50))).toHaveLength(MAX_SEARCH_LENGTH)
+    })
+  })
+
+  describe("splitHighlightedSnippet", () => {
+    it("should split plain and highlighted text", () => {
+      expect(splitHighlightedSnippet(`Grandpa's ${mark("letters")} from the ${mark("war")}`)).toEqual([
+        { text: "Grandpa's ", highlighted: false },
+        { text: "letters", highlighted: true },
+        { text: " from the ", highlighted: false },
+        { text: "war", highlighted: true },
+      ])
+    })
+
+    it("should return a single plain segment when nothing is highlighted", () => {
+      expect(splitHighlightedSnippet("No matches here")).toEqual([{ text: "No matches here", highlighted: false }])
+    })
+
+    it("should drop unbalanced markers", () => {
+      expect(splitHighlightedSnippet(`A ${SEARCH_HIGHLIGHT_START}dangling start`)).toEqual([
+        { text: "A dangling start", highlighted: false },
+      ])
+    })
+
+    it("should not treat markup in the snippet as highlights", () => {
+      expect(splitHighlightedSnippet("<b>bold</b>")).toEqual([{ text: "<b>bold</b>", highlighted: false }])
+    })
+  })
+
+  describe("orderBySearchRank", () => {
+    it("should return rows in ranked order and skip missing IDs", () => {
+      const rows = [{ id: "a" }, { id: "b" }, { id: "c" }]
+      expect(orderBySearchRank(rows, ["c", "x", "a", "b"]).map((row) => row.id)).toEqual(["c", "a", "b"])
+    })
+  })
+})
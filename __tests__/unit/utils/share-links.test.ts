@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest"
+import {
+  MAX_SHARE_GRANTS,
+  addShareGrant,
+  getShareLinkExpiry,
+  getShareTargetPath,
+  isShareLinkExpired,
+  parseShareGrants,
+  serializeShareGrants,
+} from "@/lib/utils/share-links"
+
+const tokenA = "A".repeat(32)
+const tokenB = "b_-".repeat(11)
+
+describe("Share Link Utilities", () => {
+  describe("parseShareGrants", () => {
+    it("should parse tokens with and without unlock keys", () => {
+      expect(parseShareGrants(`${tokenA},${tokenB}.abc123`)).toEqual([
+        { token: tokenA, unlockKey: null },
+        { token: tokenB, unlockKey: "abc123" },
+      ])
+    })
+
+    it("should ignore malformed entries", () => {
+      expect(parseShareGrants(`short,${tokenA}.NOT-HEX,${tokenA}.ab.cd,${tokenB}`)).toEqual([
+        { token: tokenB, unlockKey: null },
+      ])
+    })
+
+    it("should return an empty list for missing cookies", () => {
+      expect(parseShareGrants(undefined)).toEqual([])
+      expect(parseShareGrants("")).toEqual([])
+    })
+  })
+
+  describe("serializeShareGrants", () => {
+    it("should round-trip through parseShareGrants", () => {
+      const grants = [
+        { token: tokenA, unlockKey: null },
+        { token: tokenB, unlockKey: "ff00" },
+      ]
+      expect(parseShareGrants(serializeShareGrants(grants))).toEqual(grants)
+    })
+  })
+
+  describe("addShareGrant", () => {
+    it("should replace an existing grant for the same token", () => {
+      const grants = addShareGrant([{ token: tokenA, unlockKey: null }], { token: tokenA, unlockKey: "abc" })
+      expect(grants).toEqual([{ token: tokenA, unlockKey: "abc" }])
+    })
+
+    it("should keep only the most recent grants", () => {
+      let grants = [] as { token: string; unlockKey: string | null }[]
+      for (let i = 0; i < MAX_SHARE_GRANTS + 2; i++) {
+        grants = addShareGrant(grants, { token: `${i}`.padStart(32, "x"), unlockKey: null })
+      }
+      expect(grants).toHaveLength(MAX_SHARE_GRANTS)
+      expect(grants[0].token).toBe("2".padStart(32, "x"))
+    })
+  })
+
+  describe("expiry helpers", () => {
+    const now = new Date("2025-01-01T00:00:00Z")
+
+    it("should convert days into an ISO timestamp", () => {
+      expect(getShareLinkExpiry(7, now)).toBe("2025-01-08T00:00:00.000Z")
+      expect(getShareLinkExpiry(null, now)).toBeNull()
+    })
+
+    it("should detect expired links", () => {
+      expect(isShareLinkExpired("2024-12-31T23:59:59Z", now)).toBe(true)
+      expect(isShareLinkExpired("2025-01-02T00:00:00Z", now)).toBe(false)
+      expect(isShareLinkExpired(null, now)).toBe(false)
+    })
+  })
+
+  describe("getShareTargetPath", () => {
+    it("should build canonical artifact and collection paths", () => {
+      expect(getShareTargetPath("artifact", { id: "a1", slug: "old-photo" })).toBe("/artifacts/a1/old-photo")
+      expect(getShareTargetPath("collection", { id: "c1", slug: "family" })).toBe("/collections/c1/family")
+    })
+  })
+})
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest"
+import { formatSseComment, formatSseEvent, formatSseRetry } from "@/lib/utils/sse"
+
+describe("SSE Utils", () => {
+  it("should format a named event with a JSON payload", () => {
+    expect(formatSseEvent("job", { id: "j1", status: "running" })).toBe(
+      'event: job\ndata: {"id":"j1","status":"running"}\n\n',
+    )
+  })
+
+  it("should keep multi-line payloads on data lines", () => {
+    // JSON.stringify escapes newlines inside strings, so one payload is one data line
+    expect(formatSseEvent("job", { text: "line 1\nline 2" })).toBe('event: job\ndata: {"text":"line 1\\nline 2"}\n\n')
+  })
+
+  it("should format comments and the reconnect delay", () => {
+    expect(formatSseComment("keep-alive")).toBe(": keep-alive\n\n")
+    expect(formatSseRetry(2000)).toBe("retry: 2000\n\n")
+  })
+})
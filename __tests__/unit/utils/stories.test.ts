@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest"
+import { getStoryExcerpt, moveStoryBlock } from "@/lib/utils/stories"
+
+describe("Story Utilities", () => {
+  describe("getStoryExcerpt", () => {
+    it("should strip markdown formatting, links and images", () => {
+      expect(getStoryExcerpt("## Naples\n\n**Nonna** left in [1952](https://example.com) ![ship](ship.jpg)")).toBe(
+        "Naples Nonna left in 1952",
+      )
+    })
+
+    it("should truncate on a word boundary", () => {
+      expect(getStoryExcerpt("The watch was wound every single morning", 20)).toBe("The watch was wound…")
+    })
+
+    it("should return an empty string for missing text", () => {
+      expect(getStoryExcerpt(null)).toBe("")
+    })
+  })
+
+  describe("moveStoryBlock", () => {
+    it("should swap a block with its neighbour", () => {
+      expect(moveStoryBlock(["a", "b", "c"], 1, -1)).toEqual(["b", "a", "c"])
+      expect(moveStoryBlock(["a", "b", "c"], 1, 1)).toEqual(["a", "c", "b"])
+    })
+
+    it("should leave the list unchanged for moves past either end", () => {
+      const blocks = ["a", "b"]
+      expect(moveStoryBlock(blocks, 0, -1)).toBe(blocks)
+      expect(moveStoryBlock(blocks, 1, 1)).toBe(blocks)
+    })
+  })
+})
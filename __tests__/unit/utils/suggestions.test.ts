@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest"
+import {
+  MAX_SUGGESTIONS_PER_KIND,
+  getArtifactSuggestions,
+  getPendingSuggestions,
+  hasPendingSuggestions,
+  isSameName,
+  mergePhotoLocation,
+  mergeSuggestions,
+  normalizeEntityName,
+  setSuggestionStatus,
+} from "@/lib/utils/suggestions"
+import type { ArtifactSuggestions } from "@/lib/types/suggestions"
+
+const now = "2025-12-21T12:00:00.000Z"
+
+const lucca = {
+  name: "Lucca, Italy",
+  latitude: 43.843,
+  longitude: 10.505,
+  media_url: "https://example.com/photo.jpg",
+}
+
+describe("normalizeEntityName", () => {
+  it("should trim and collapse whitespace", () => {
+    expect(normalizeEntityName("  Rosa   Bianchi \n")).toBe("Rosa Bianchi")
+  })
+})
+
+describe("isSameName", () => {
+  it("should ignore case and spacing", () => {
+    expect(isSameName("rosa  bianchi", "Rosa Bianchi")).toBe(true)
+    expect(isSameName("Rosa", "Rose")).toBe(false)
+  })
+})
+
+describe("getArtifactSuggestions", () => {
+  it("should return nothing for missing or malformed data", () => {
+    expect(getArtifactSuggestions(null)).toEqual({})
+    expect(getArtifactSuggestions([])).toEqual({})
+    expect(getArtifactSuggestions("people")).toEqual({})
+  })
+
+  it("should drop malformed entries", () => {
+    const suggestions = getArtifactSuggestions({
+      people: [
+        { value: "Rosa", status: "pending" },
+        { value: "", status: "pending" },
+        { value: "Joe" },
+        "Ann",
+      ],
+      year_guess: { value: "1920", status: "pending" },
+      highlights: ["Wound every Sunday", 3],
+    })
+
+    expect(suggestions.people).toEqual([{ value: "Rosa", status: "pending" }])
+    expect(suggestions.year_guess).toBeUndefined()
+    expect(suggestions.highlights).toEqual(["Wound every Sunday"])
+  })
+})
+
+describe("mergeSuggestions", () => {
+  it("should add new suggestions as pending", () => {
+    const suggestions = mergeSuggestions(
+      {},
+      {
+        people: ["Rosa", " rosa "],
+        places: ["Naples"],
+        tags: ["Clocks"],
+        year_guess: 1920,
+        highlights: [" A "],
+      },
+      now
+    )
+
+    expect(suggestions.people).toEqual([{ value: "Rosa", status: "pending" }])
+    expect(suggestions.places).toEqual([{ value: "Naples", status: "pending" }])
+    expect(suggestions.tags).toEqual([{ value: "clocks", status: "pending" }])
+    expect(suggestions.year_guess).toEqual({ value: 1920, status: "pending" })
+    expect(suggestions.highlights).toEqual(["A"])
+    expect(suggestions.generated_at).toBe(now)
+  })
+
+  it("should keep reviewed suggestions and not suggest them again", () => {
+    const previous: ArtifactSuggestions = {
+      people: [
+        { value: "Rosa", status: "rejected" },
+        { value: "Joe", status: "accepted" },
+        { value: "Ann", status: "pending" },
+      ],
+      year_guess: { value: 1920, status: "rejected" },
+    }
+
+    const suggestions = mergeSuggestions(
+      previous,
+      { people: ["rosa", "Maria"], year_guess: 1920 },
+      now
+    )
+
+    expect(suggestions.people).toEqual([
+      { value: "Rosa", status: "rejected" },
+      { value: "Joe", status: "accepted" },
+      { value: "Maria", status: "pending" },
+    ])
+    expect(suggestions.year_guess).toEqual({ value: 1920, status: "rejected" })
+  })
+
+  it("should replace a reviewed year with a new guess", () => {
+    const suggestions = mergeSuggestions(
+      { year_guess: { value: 1920, status: "rejected" } },
+      { year_guess: 1935 },
+      now
+    )
+    expect(suggestions.year_guess).toEqual({ value: 1935, status: "pending" })
+  })
+
+  it("should cap new suggestions per kind", () => {
+    const tags = Array.from({ length: MAX_SUGGESTIONS_PER_KIND + 5 }, (_, i) => `tag ${i}`)
+    expect(mergeSuggestions({}, { tags }, now).tags).toHaveLength(MAX_SUGGESTIONS_PER_KIND)
+  })
+
+  it("should keep the photo location", () => {
+    const photo_location = { value: lucca, status: "accepted" as const }
+    expect(mergeSuggestions({ photo_location }, {}, now).photo_location).toEqual(photo_location)
+  })
+})
+
+describe("mergePhotoLocation", () => {
+  it("should offer a new location for review", () => {
+    expect(mergePhotoLocation({}, lucca).photo_location).toEqual({
+      value: lucca,
+      status: "pending",
+    })
+  })
+
+  it("should keep a reviewed location the photos still agree with", () => {
+    const photo_location = { value: lucca, status: "rejected" as const }
+    expect(mergePhotoLocation({ photo_location }, lucca).photo_location).toEqual(photo_location)
+  })
+
+  it("should drop a pending location once no photo has one", () => {
+    const pending = { photo_location: { value: lucca, status: "pending" as const } }
+    const accepted = { photo_location: { value: lucca, status: "accepted" as const } }
+    expect(mergePhotoLocation(pending, null).photo_location).toBeNull()
+    expect(mergePhotoLocation(accepted, null).photo_location).toEqual(accepted.photo_location)
+  })
+})
+
+describe("getPendingSuggestions", () => {
+  it("should list only what's waiting for review", () => {
+    const suggestions: ArtifactSuggestions = {
+      people: [
+        { value: "Rosa", status: "pending" },
+        { value: "Joe", status: "accepted" },
+      ],
+      year_guess: { value: 1920, status: "pending" },
+    }
+
+    expect(getPendingSuggestions(suggestions)).toEqual({
+      people: ["Rosa"],
+      places: [],
+      tags: [],
+      year_guess: 1920,
+      photo_location: null,
+    })
+    expect(hasPendingSuggestions(suggestions)).toBe(true)
+    expect(hasPendingSuggestions({ people: [{ value: "Joe", status: "accepted" }] })).toBe(false)
+    expect(hasPendingSuggestions({ photo_location: { value: lucca, status: "pending" } })).toBe(
+      true
+    )
+  })
+})
+
+describe("setSuggestionStatus", () => {
+  const suggestions: ArtifactSuggestions = {
+    places: [{ value: "Naples", status: "pending" }],
+    year_guess: { value: 1920, status: "pending" },
+  }
+
+  it("should mark a matching suggestion", () => {
+    expect(setSuggestionStatus(suggestions, "places", "naples", "accepted").places).toEqual([
+      { value: "Naples", status: "accepted" },
+    ])
+    expect(setSuggestionStatus(suggestions, "year_guess", 1920, "rejected").year_guess).toEqual({
+      value: 1920,
+      status: "rejected",
+    })
+  })
+
+  it("should return the same suggestions when there's no match", () => {
+    expect(setSuggestionStatus(suggestions, "places", "Lyon", "accepted")).toBe(suggestions)
+    expect(setSuggestionStatus(suggestions, "year_guess", 1921, "accepted")).toBe(suggestions)
+    expect(setSuggestionStatus(suggestions, "people", "Rosa", "accepted")).toBe(suggestions)
+  })
+})
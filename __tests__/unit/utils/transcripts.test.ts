@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest"
+import {
+  findActiveSegmentIndex,
+  formatTimestamp,
+  getTranscriptSegments,
+  normalizeTranscriptSegments,
+  segmentsToText,
+  updateSegmentText,
+} from "@/lib/utils/transcripts"
+import type { TranscriptSegment } from "@/lib/types/transcripts"
+
+const url = "https://example.com/interview.mp3"
+const segments: TranscriptSegment[] = [
+  { start: 0, end: 4.2, text: "We bought the clock in 1962." },
+  { start: 4.2, end: 9, text: "It came from a shop in Lyon." },
+  { start: 11, end: 15.5, text: "Grandpa wound it every Sunday." },
+]
+
+describe("Transcript Utilities", () => {
+  describe("normalizeTranscriptSegments", () => {
+    it("should trim text, drop empty and malformed segments and order by start", () => {
+      const result = normalizeTranscriptSegments([
+        { id: 1, start: 5, end: 8, text: " Second. ", avg_logprob: -0.1 },
+        { start: 0, end: 5, text: "First." },
+        { start: 8, end: 9, text: "   " },
+        { start: "9", end: 10, text: "Bad start" },
+        null,
+      ])
+
+      expect(result).toEqual([
+        { start: 0, end: 5, text: "First." },
+        { start: 5, end: 8, text: "Second." },
+      ])
+    })
+
+    it("should return [] for anything that isn't a list", () => {
+      expect(normalizeTranscriptSegments(undefined)).toEqual([])
+      expect(normalizeTranscriptSegments({ start: 0 })).toEqual([])
+    })
+  })
+
+  describe("segmentsToText", () => {
+    it("should join segment texts with spaces", () => {
+      expect(segmentsToText(segments)).toBe(
+        "We bought the clock in 1962. It came from a shop in Lyon. Grandpa wound it every Sunday.",
+      )
+    })
+  })
+
+  describe("getTranscriptSegments", () => {
+    it("should return segments that match the transcript", () => {
+      const transcripts = { [url]: segmentsToText(segments) }
+
+      expect(getTranscriptSegments({ [url]: segments }, transcripts, url)).toEqual(segments)
+    })
+
+    it("should ignore differences in whitespace", () => {
+      const transcripts = { [url]: segmentsToText(segments).replace(/ /g, "\n") }
+
+      expect(getTranscriptSegments({ [url]: segments }, transcripts, url)).toHaveLength(3)
+    })
+
+    it("should drop segments once the transcript was replaced", () => {
+      const transcripts = { [url]: "A different transcript" }
+
+      expect(getTranscriptSegments({ [url]: segments }, transcripts, url)).toEqual([])
+      expect(getTranscriptSegments({ [url]: segments }, {}, url)).toEqual([])
+      expect(getTranscriptSegments(null, transcripts, url)).toEqual([])
+    })
+  })
+
+  describe("findActiveSegmentIndex", () => {
+    it("should find the segment being spoken", () => {
+      expect(findActiveSegmentIndex(segments, 0)).toBe(0)
+      expect(findActiveSegmentIndex(segments, 4.2)).toBe(1)
+      expect(findActiveSegmentIndex(segments, 12)).toBe(2)
+    })
+
+    it("should keep the previous segment during a pause", () => {
+      expect(findActiveSegmentIndex(segments, 10)).toBe(1)
+    })
+
+    it("should return -1 before the first segment", () => {
+      expect(findActiveSegmentIndex([{ start: 2, end: 3, text: "Hi" }], 1)).toBe(-1)
+      expect(findActiveSegmentIndex([], 1)).toBe(-1)
+    })
+  })
+
+  describe("updateSegmentText", () => {
+    it("should change one segment's text and keep every timing", () => {
+      const result = updateSegmentText(segments, 1, " It came from a shop in Lille. ")
+
+      expect(result[1]).toEqual({ start: 4.2, end: 9, text: "It came from a shop in Lille." })
+      expect(result.map(({ start, end }) => [start, end])).toEqual(segments.map(({ start, end }) => [start, end]))
+      expect(segments[1].text).toBe("It came from a shop in Lyon.")
+    })
+  })
+
+  describe("formatTimestamp", () => {
+    it("should format minutes and seconds", () => {
+      expect(formatTimestamp(0)).toBe("0:00")
+      expect(formatTimestamp(65.8)).toBe("1:05")
+    })
+
+    it("should include hours for long recordings", () => {
+      expect(formatTimestamp(3725)).toBe("1:02:05")
+    })
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest"
+import {
+  getArtifactTranslations,
+  getAvailableTranslationLocales,
+  getLanguageName,
+  getTextsToTranslate,
+  getTranslatedTexts,
+  hashTranslationSource,
+  isLanguageCode,
+  mergeTranslation,
+  splitForTranslation,
+} from "@/lib/utils/translations"
+import type { ArtifactTranslation, TranslatableTexts } from "@/lib/types/translations"
+
+const url = "https://example.com/nonna.mp3"
+const texts: TranslatableTexts = {
+  description: "L'orologio della nonna.",
+  ai_description: null,
+  audio_transcripts: { [url]: "Lo abbiamo comprato a Lione." },
+}
+
+const translated = (text: string, source: string) => ({ text, source_hash: hashTranslationSource(source) })
+
+const english: ArtifactTranslation = {
+  description: translated("Grandma's clock.", "L'orologio della nonna."),
+  audio_transcripts: { [url]: translated("We bought it in Lyon.", "Lo abbiamo comprato a Lione.") },
+  translated_at: "2025-12-19T10:00:00.000Z",
+}
+
+describe("Translation Utilities", () => {
+  describe("languages", () => {
+    it("should recognise listed codes only", () => {
+      expect(isLanguageCode("it")).toBe(true)
+      expect(isLanguageCode("xx")).toBe(false)
+      expect(isLanguageCode(undefined)).toBe(false)
+    })
+
+    it("should name listed languages and fall back to the code", () => {
+      expect(getLanguageName("yi")).toBe("Yiddish")
+      expect(getLanguageName("xx")).toBe("xx")
+    })
+  })
+
+  describe("hashTranslationSource", () => {
+    it("should ignore surrounding whitespace but not changes to the text", () => {
+      expect(hashTranslationSource("  Ciao\n")).toBe(hashTranslationSource("Ciao"))
+      expect(hashTranslationSource("Ciao")).not.toBe(hashTranslationSource("Ciao!"))
+      expect(hashTranslationSource("Ciao")).toMatch(/^[0-9a-f]{8}$/)
+    })
+  })
+
+  describe("getArtifactTranslations", () => {
+    it("should keep translations for listed locales only", () => {
+      expect(getArtifactTranslations({ en: english, xx: english, fr: "bad" })).toEqual({ en: english })
+      expect(getArtifactTranslations(null)).toEqual({})
+      expect(getArtifactTranslations([english])).toEqual({})
+    })
+  })
+
+  describe("getTextsToTranslate", () => {
+    it("should return every text when nothing is translated yet", () => {
+      expect(getTextsToTranslate(texts, undefined)).toEqual([
+        { field: "description", text: "L'orologio della nonna." },
+        { field: "audio_transcripts", url, text: "Lo abbiamo comprato a Lione." },
+      ])
+    })
+
+    it("should return only texts changed since they were translated", () => {
+      const changed = { ...texts, description: "L'orologio della bisnonna." }
+      expect(getTextsToTranslate(changed, english)).toEqual([
+        { field: "description", text: "L'orologio della bisnonna." },
+      ])
+      expect(getTextsToTranslate(texts, english)).toEqual([])
+    })
+  })
+
+  describe("mergeTranslation", () => {
+    it("should keep fresh translations, add new ones and drop stale ones", () => {
+      const changed: TranslatableTexts = {
+        description: "L'orologio della bisnonna.",
+        ai_description: "Un orologio francese.",
+        audio_transcripts: { [url]: "Lo abbiamo comprato a Lione." },
+      }
+      const items = getTextsToTranslate(changed, english)
+
+      const result = mergeTranslation(
+        changed,
+        english,
+        items,
+        ["Great-grandma's clock.", "A French clock."],
+        "2025-12-20T09:00:00.000Z",
+      )
+
+      expect(result).toEqual({
+        description: translated("Great-grandma's clock.", "L'orologio della bisnonna."),
+        ai_description: translated("A French clock.", "Un orologio francese."),
+        audio_transcripts: english.audio_transcripts,
+        translated_at: "2025-12-20T09:00:00.000Z",
+      })
+    })
+
+    it("should drop translations of texts that were removed", () => {
+      const result = mergeTranslation({ description: texts.description }, english, [], [], "now")
+      expect(result).toEqual({ description: english.description, translated_at: "now" })
+    })
+  })
+
+  describe("getTranslatedTexts", () => {
+    it("should show translations where they are up to date and originals elsewhere", () => {
+      const changed = { ...texts, audio_transcripts: { [url]: "Lo abbiamo comprato a Parigi." } }
+
+      expect(getTranslatedTexts(changed, english)).toEqual({
+        description: "Grandma's clock.",
+        ai_description: null,
+        transcript: null,
+        audio_transcripts: { [url]: "Lo abbiamo comprato a Parigi." },
+      })
+    })
+
+    it("should show the originals without a translation", () => {
+      expect(getTranslatedTexts(texts, undefined).description).toBe("L'orologio della nonna.")
+    })
+  })
+
+  describe("getAvailableTranslationLocales", () => {
+    it("should list locales with at least one up-to-date translation", () => {
+      const stale: ArtifactTranslation = { description: translated("Horloge.", "Old text"), translated_at: "now" }
+      expect(getAvailableTranslationLocales(texts, { fr: stale, en: english })).toEqual(["en"])
+    })
+  })
+
+  describe("splitForTranslation", () => {
+    it("should leave short text whole", () => {
+      expect(splitForTranslation("Short.", 100)).toEqual(["Short."])
+    })
+
+    it("should break between paragraphs first", () => {
+      const text = ["a".repeat(40), "b".repeat(40), "c".repeat(40)].join("\n\n")
+      expect(splitForTranslation(text, 90)).toEqual([`${"a".repeat(40)}\n\n${"b".repeat(40)}`, "c".repeat(40)])
+    })
+
+    it("should break a long paragraph between sentences", () => {
+      const text = "One sentence here. Another sentence there. A third one too."
+      const pieces = splitForTranslation(text, 30)
+
+      expect(pieces).toEqual(["One sentence here.", "Another sentence there.", "A third one too."])
+      expect(pieces.every((piece) => piece.length <= 30)).toBe(true)
+    })
+
+    it("should slice a sentence longer than the limit", () => {
+      const pieces = splitForTranslation("x".repeat(25), 10)
+      expect(pieces).toEqual(["x".repeat(10), "x".repeat(10), "x".repeat(5)])
+    })
+  })
+})
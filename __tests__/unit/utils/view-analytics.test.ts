@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest"
+import { categorizeReferrer, fillDailySeries, isLikelyBot, sumDailyViews } from "@/lib/utils/view-analytics"
+
+const host = "heirlooms.example.com"
+
+describe("View Analytics Utilities", () => {
+  describe("categorizeReferrer", () => {
+    it("should attribute tagged share link redirects to the share link", () => {
+      expect(categorizeReferrer({ ref: "share", referer: `https://${host}/`, host })).toBe("share_link")
+    })
+
+    it("should treat our own home page as the community showcase", () => {
+      expect(categorizeReferrer({ referer: `https://${host}/`, host })).toBe("community")
+      expect(categorizeReferrer({ referer: `https://${host}/collections`, host })).toBe("direct")
+    })
+
+    it("should treat external, missing and malformed referers as direct", () => {
+      expect(categorizeReferrer({ referer: "https://other.example.com/", host })).toBe("direct")
+      expect(categorizeReferrer({ referer: null, host })).toBe("direct")
+      expect(categorizeReferrer({ referer: "not a url", host })).toBe("direct")
+    })
+  })
+
+  describe("isLikelyBot", () => {
+    it("should flag crawlers and missing user agents", () => {
+      expect(isLikelyBot("Mozilla/5.0 (compatible; Googlebot/2.1)")).toBe(true)
+      expect(isLikelyBot(null)).toBe(true)
+      expect(isLikelyBot("Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Safari/604.1")).toBe(false)
+    })
+  })
+
+  describe("fillDailySeries", () => {
+    it("should zero-fill missing days up to today", () => {
+      const series = fillDailySeries(
+        [
+          {
+            day: "2025-12-06",
+            views: 3,
+            unique_viewers: 2,
+            share_link_views: 1,
+            community_views: 0,
+            direct_views: 2,
+          },
+        ],
+        3,
+        new Date("2025-12-07T12:00:00Z"),
+      )
+
+      expect(series.map((day) => [day.day, day.views])).toEqual([
+        ["2025-12-05", 0],
+        ["2025-12-06", 3],
+        ["2025-12-07", 0],
+      ])
+      expect(sumDailyViews(series)).toEqual({
+        views: 3,
+        daily_unique_visits: 2,
+        share_link_views: 1,
+        community_views: 0,
+        direct_views: 2,
+      })
+    })
+
+    it("should count a visitor returning on another day as another daily unique visit", () => {
+      const day = { views: 1, unique_viewers: 1, share_link_views: 0, community_views: 0, direct_views: 1 }
+      const series = [
+        { ...day, day: "2025-12-06" },
+        { ...day, day: "2025-12-07" },
+      ]
+
+      expect(sumDailyViews(series).daily_unique_visits).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,140 @@
+export const dynamic = "force-dynamic"
+
+import { notFound, redirect } from "next/navigation"
+import { AppLayout } from "@/components/app-layout"
+import { AiQuotaForm } from "@/components/ai-quota-form"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { getCurrentUser } from "@/lib/supabase/server"
+import { getAiCostReport } from "@/lib/actions/ai-usage"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { formatAudioMinutes, formatCostUsd } from "@/lib/utils/ai-usage"
+import type { AiUsageTotals } from "@/lib/types/ai-usage"
+
+function formatMonth(month: string) {
+  return new Date(`${month}T00:00:00Z`).toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" })
+}
+
+function UsageLine({ totals }: { totals: AiUsageTotals }) {
+  return (
+    <span className="shrink-0 tabular-nums text-muted-foreground">
+      {totals.calls.toLocaleString("en-US")} calls · {(totals.input_tokens + totals.output_tokens).toLocaleString("en-US")}{" "}
+      tokens · {formatAudioMinutes(totals.audio_seconds)} ·{" "}
+      <span className="font-medium text-foreground">{formatCostUsd(totals.cost_usd)}</span>
+    </span>
+  )
+}
+
+/**
+ * Estimated AI spend by month, model and user, with per-user quota overrides (admins only)
+ */
+export default async function AiUsageReportPage() {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect("/login?returnTo=/admin/ai-usage")
+  }
+
+  if (!(await isCurrentUserAdmin())) {
+    notFound()
+  }
+
+  const { data: report, error } = await getAiCostReport()
+
+  return (
+    <AppLayout user={user}>
+      <div className="mx-auto max-w-4xl space-y-6 pb-20">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">AI Cost Report</h1>
+          <p className="mt-1 text-muted-foreground">
+            Estimated spend on AI providers{report ? ` over the last ${report.months} months` : ""}. Self-hosted and
+            offline models are counted as free.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {[
+                { label: "Estimated cost", value: formatCostUsd(report.totals.cost_usd) },
+                { label: "Calls", value: report.totals.calls.toLocaleString("en-US") },
+                {
+                  label: "Tokens",
+                  value: (report.totals.input_tokens + report.totals.output_tokens).toLocaleString("en-US"),
+                },
+                { label: "Audio", value: formatAudioMinutes(report.totals.audio_seconds) },
+              ].map((stat) => (
+                <div key={stat.label} className="rounded-lg border p-3">
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p className="text-2xl font-semibold tabular-nums">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By month</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.byMonth.length === 0 ? (
+                  <p className="text-sm text-muted-foreground italic">No AI usage in this period.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {report.byMonth.map((row) => (
+                      <li key={row.month} className="flex items-center justify-between gap-4 text-sm">
+                        <span>{formatMonth(row.month)}</span>
+                        <UsageLine totals={row} />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By model</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1">
+                  {report.byModel.map((row) => (
+                    <li key={row.model} className="flex items-center justify-between gap-4 text-sm">
+                      <span className="truncate font-mono text-xs">{row.model}</span>
+                      <UsageLine totals={row} />
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By user</CardTitle>
+                <CardDescription>
+                  Set a monthly quota to override the default for one person; leave both fields empty to go back to
+                  the default.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y">
+                  {report.byUser.map((row) => (
+                    <li key={row.user_id ?? "deleted"} className="space-y-2 py-3 text-sm">
+                      <div className="flex items-center justify-between gap-4">
+                        <span className="truncate font-medium">
+                          {row.user_id ? row.display_name || "Unnamed user" : "Deleted users"}
+                        </span>
+                        <UsageLine totals={row} />
+                      </div>
+                      {row.user_id && <AiQuotaForm userId={row.user_id} quota={row.quota} />}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
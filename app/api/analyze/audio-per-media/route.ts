@@ -1,22 +1,13 @@
 import { createClient } from "@/lib/supabase/server"
-import { openai, getTranscribeModel, getTextModel, validateOpenAIKey } from "@/lib/ai"
-import { generateText } from "ai"
+import { AiQuotaError, createUsageMeter } from "@/lib/ai-usage"
+import { AnalysisError, createChunkResume, downloadAudio, transcribeAudioWithSegments } from "@/lib/analysis"
 import { NextResponse } from "next/server"
 import { revalidatePath } from "next/cache"
-import { rateLimit } from "@/lib/utils/rate-limit"
-
-const MAX_TRANSCRIPT_LENGTH = 10000
-
-export async function POST(request: Request) {
-  const ip = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown"
-  const { ok, retryAfterMs } = rateLimit(ip)
-  if (!ok) {
-    return NextResponse.json(
-      { error: "Too Many Requests" },
-      { status: 429, headers: { "Retry-After": String(Math.ceil((retryAfterMs || 0) / 1000)) } },
-    )
-  }
+import { getArtifactPath } from "@/lib/utils/routes"
+import { withRateLimit } from "@/lib/rate-limit"
+import { isLanguageCode } from "@/lib/utils/translations"
 
+export const POST = withRateLimit("transcription", async (request: Request) => {
   let artifactId: string | undefined
 
   try {
@@ -24,6 +15,8 @@ export async function POST(request: Request) {
     artifactId = body.artifactId
     const audioUrl = body.audioUrl
     const skipSave = body.skipSave || false
+    // Unsaved artifacts have no language_hint yet, so the form sends the one picked
+    const language = isLanguageCode(body.language) ? body.language : undefined
 
     if (!artifactId) {
       return NextResponse.json({ error: "artifactId is required" }, { status: 400 })
@@ -33,54 +26,32 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "audioUrl is required" }, { status: 400 })
     }
 
-    validateOpenAIKey()
-
-    if (artifactId === "temp") {
-      const audioResponse = await fetch(audioUrl)
-      if (!audioResponse.ok) {
-        throw new Error(`Failed to download audio: ${audioResponse.statusText}`)
-      }
+    const supabase = await createClient()
 
-      const audioBlob = await audioResponse.blob()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
 
-      const formData = new FormData()
-      formData.append("file", audioBlob, "audio.mp3")
-      formData.append("model", getTranscribeModel())
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
 
-      const transcriptionResponse = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        },
-        body: formData,
-      })
+    // "temp" = a recording on an artifact that hasn't been saved yet
+    const meter = createUsageMeter(supabase, { userId: user.id, artifactId: artifactId === "temp" ? null : artifactId })
+    await meter.check()
 
-      if (!transcriptionResponse.ok) {
-        const errorText = await transcriptionResponse.text()
-        throw new Error(`Transcription failed: ${errorText}`)
-      }
+    if (artifactId === "temp") {
+      const audioBlob = await downloadAudio(audioUrl)
 
-      const transcriptionData = await transcriptionResponse.json()
-      let transcript = transcriptionData.text
-
-      if (transcript && transcript.length > 50) {
-        try {
-          const cleanupResult = await generateText({
-            model: openai(getTextModel()),
-            prompt: `Reformat this transcript for readability. Fix obvious typos and add punctuation, but do not add any new information or facts. Keep the original meaning intact.\n\nTranscript:\n${transcript.slice(0, MAX_TRANSCRIPT_LENGTH)}`,
-            maxOutputTokens: 2000,
-          })
-          transcript = cleanupResult.text
-        } catch (cleanupError) {
-          console.error("[v0] Transcript cleanup failed, using raw transcript:", cleanupError)
-        }
-      }
+      const { transcript, segments } = await transcribeAudioWithSegments(audioBlob, {
+        filename: "audio.mp3",
+        language,
+        meter,
+      })
 
-      return NextResponse.json({ ok: true, transcript })
+      return NextResponse.json({ ok: true, transcript, segments })
     }
 
-    const supabase = await createClient()
-
     const { data: artifact, error: fetchError } = await supabase
       .from("artifacts")
       .select("*, slug")
@@ -91,49 +62,17 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Artifact not found" }, { status: 404 })
     }
 
-    const audioResponse = await fetch(audioUrl)
-    if (!audioResponse.ok) {
-      throw new Error(`Failed to download audio: ${audioResponse.statusText}`)
-    }
-
-    const audioBlob = await audioResponse.blob()
-
-    const formData = new FormData()
-    formData.append("file", audioBlob, "audio.mp3")
-    formData.append("model", getTranscribeModel())
-    if (artifact.language_hint) {
-      formData.append("language", artifact.language_hint)
-    }
+    const audioBlob = await downloadAudio(audioUrl)
 
-    const transcriptionResponse = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: formData,
+    // Parts of a long recording already transcribed by an earlier attempt are reused
+    const resume = createChunkResume(supabase, artifactId, audioUrl, artifact.audio_transcription_progress)
+    const { transcript, segments } = await transcribeAudioWithSegments(audioBlob, {
+      filename: "audio.mp3",
+      language: artifact.language_hint || language,
+      meter,
+      resume,
     })
 
-    if (!transcriptionResponse.ok) {
-      const errorText = await transcriptionResponse.text()
-      throw new Error(`Transcription failed: ${errorText}`)
-    }
-
-    const transcriptionData = await transcriptionResponse.json()
-    let transcript = transcriptionData.text
-
-    if (transcript && transcript.length > 50) {
-      try {
-        const cleanupResult = await generateText({
-          model: openai(getTextModel()),
-          prompt: `Reformat this transcript for readability. Fix obvious typos and add punctuation, but do not add any new information or facts. Keep the original meaning intact.\n\nTranscript:\n${transcript.slice(0, MAX_TRANSCRIPT_LENGTH)}`,
-          maxOutputTokens: 2000,
-        })
-        transcript = cleanupResult.text
-      } catch (cleanupError) {
-        console.error("[v0] Transcript cleanup failed, using raw transcript:", cleanupError)
-      }
-    }
-
     // Only save to database if skipSave is false (not in edit mode)
     if (!skipSave) {
       const existingTranscripts = artifact.audio_transcripts || {}
@@ -141,11 +80,18 @@ export async function POST(request: Request) {
         ...existingTranscripts,
         [audioUrl]: transcript,
       }
+      const updatedSegments = { ...(artifact.audio_transcript_segments || {}) }
+      if (segments.length > 0) {
+        updatedSegments[audioUrl] = segments
+      } else {
+        delete updatedSegments[audioUrl]
+      }
 
       const { error: updateError } = await supabase
         .from("artifacts")
         .update({
           audio_transcripts: updatedTranscripts,
+          audio_transcript_segments: updatedSegments,
           updated_at: new Date().toISOString(),
         })
         .eq("id", artifactId)
@@ -154,13 +100,19 @@ export async function POST(request: Request) {
         throw new Error(`Failed to save transcript: ${updateError.message}`)
       }
 
-      revalidatePath(`/artifacts/${artifact.slug}`)
+      await resume.clear()
+
+      revalidatePath(getArtifactPath(artifact))
     } else {
       console.log("[v0] Skipping database save (edit mode)")
     }
 
-    return NextResponse.json({ ok: true, transcript })
+    return NextResponse.json({ ok: true, transcript, segments })
   } catch (error) {
+    if (error instanceof AnalysisError || error instanceof AiQuotaError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("[v0] Audio transcription error:", error)
 
     return NextResponse.json(
@@ -168,4 +120,4 @@ export async function POST(request: Request) {
       { status: 500 },
     )
   }
-}
+})
@@ -1,22 +1,12 @@
 import { createClient } from "@/lib/supabase/server"
-import { openai, getTranscribeModel, getTextModel, validateOpenAIKey } from "@/lib/ai"
-import { generateText } from "ai"
+import { AiQuotaError, createUsageMeter } from "@/lib/ai-usage"
+import { createChunkResume, downloadAudio, tidyTranscript, transcribeAudio } from "@/lib/analysis"
 import { NextResponse } from "next/server"
 import { revalidatePath } from "next/cache"
-import { rateLimit } from "@/lib/utils/rate-limit"
-
-const MAX_TRANSCRIPT_LENGTH = 10000
-
-export async function POST(request: Request) {
-  const ip = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown"
-  const { ok, retryAfterMs } = rateLimit(ip)
-  if (!ok) {
-    return NextResponse.json(
-      { error: "Too Many Requests" },
-      { status: 429, headers: { "Retry-After": String(Math.ceil((retryAfterMs || 0) / 1000)) } },
-    )
-  }
+import { getArtifactPath } from "@/lib/utils/routes"
+import { withRateLimit } from "@/lib/rate-limit"
 
+export const POST = withRateLimit("transcription", async (request: Request) => {
   let artifactId: string | undefined
 
   try {
@@ -32,10 +22,16 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "audioUrl is required" }, { status: 400 })
     }
 
-    validateOpenAIKey()
-
     const supabase = await createClient()
 
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
     const { data: artifact, error: fetchError } = await supabase
       .from("artifacts")
       .select("*, slug")
@@ -46,53 +42,24 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Artifact not found" }, { status: 404 })
     }
 
+    const meter = createUsageMeter(supabase, { userId: user.id, artifactId })
+    await meter.check()
+
     await supabase
       .from("artifacts")
       .update({ analysis_status: "processing", analysis_error: null })
       .eq("id", artifactId)
 
-    const audioResponse = await fetch(audioUrl)
-    if (!audioResponse.ok) {
-      throw new Error(`Failed to download audio: ${audioResponse.statusText}`)
-    }
-
-    const audioBlob = await audioResponse.blob()
+    const audioBlob = await downloadAudio(audioUrl)
 
-    const formData = new FormData()
-    formData.append("file", audioBlob, "audio.mp3")
-    formData.append("model", getTranscribeModel())
-    if (artifact.language_hint) {
-      formData.append("language", artifact.language_hint)
-    }
-
-    const transcriptionResponse = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: formData,
+    const resume = createChunkResume(supabase, artifactId, audioUrl, artifact.audio_transcription_progress)
+    const text = await transcribeAudio(audioBlob, {
+      filename: "audio.mp3",
+      language: artifact.language_hint || undefined,
+      meter,
+      resume,
     })
-
-    if (!transcriptionResponse.ok) {
-      const errorText = await transcriptionResponse.text()
-      throw new Error(`Transcription failed: ${errorText}`)
-    }
-
-    const transcriptionData = await transcriptionResponse.json()
-    let transcript = transcriptionData.text
-
-    if (transcript && transcript.length > 50) {
-      try {
-        const cleanupResult = await generateText({
-          model: openai(getTextModel()),
-          prompt: `Reformat this transcript for readability. Fix obvious typos and add punctuation, but do not add any new information or facts. Keep the original meaning intact.\n\nTranscript:\n${transcript.slice(0, MAX_TRANSCRIPT_LENGTH)}`,
-          maxOutputTokens: 2000,
-        })
-        transcript = cleanupResult.text
-      } catch (cleanupError) {
-        console.error("Transcript cleanup failed, using raw transcript:", cleanupError)
-      }
-    }
+    const transcript = await tidyTranscript(text, meter, artifact.language_hint)
 
     const { error: updateError } = await supabase
       .from("artifacts")
@@ -108,12 +75,18 @@ export async function POST(request: Request) {
       throw new Error(`Failed to save transcript: ${updateError.message}`)
     }
 
+    await resume.clear()
+
     console.log("[v0] Successfully saved transcript for artifact:", artifactId)
 
-    revalidatePath(`/artifacts/${artifact.slug}`)
+    revalidatePath(getArtifactPath(artifact))
 
     return NextResponse.json({ ok: true })
   } catch (error) {
+    if (error instanceof AiQuotaError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("Audio transcription error:", error)
 
     if (artifactId) {
@@ -136,4 +109,4 @@ export async function POST(request: Request) {
       { status: 500 },
     )
   }
-}
+})
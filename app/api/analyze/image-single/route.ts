@@ -1,9 +1,11 @@
 import { createClient } from "@/lib/supabase/server"
-import { openai, getVisionModel } from "@/lib/ai"
-import { generateText } from "ai"
+import { AiQuotaError, createUsageMeter } from "@/lib/ai-usage"
+import { captionImage, transcribeDocumentImage } from "@/lib/analysis"
 import { NextResponse } from "next/server"
 import { revalidatePath } from "next/cache"
-import { rateLimit } from "@/lib/utils/rate-limit"
+import { getArtifactPath } from "@/lib/utils/routes"
+import { withRateLimit } from "@/lib/rate-limit"
+import { isLanguageCode } from "@/lib/utils/translations"
 
 function isImageUrl(url: string): boolean {
   const lower = url.toLowerCase()
@@ -30,23 +32,19 @@ async function isValidImageUrl(url: string): Promise<boolean> {
   }
 }
 
-export async function POST(request: Request) {
-  const ip = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown"
-  const { ok, retryAfterMs } = rateLimit(ip)
-  if (!ok) {
-    return NextResponse.json(
-      { error: "Too Many Requests" },
-      { status: 429, headers: { "Retry-After": String(Math.ceil((retryAfterMs || 0) / 1000)) } },
-    )
-  }
-
+export const POST = withRateLimit("vision", async (request: Request) => {
   try {
-    const { artifactId, imageUrl, skipSave = false } = await request.json()
+    // mode "document" transcribes the full text of the page instead of captioning it
+    const { artifactId, imageUrl, skipSave = false, mode = "caption", language } = await request.json()
 
     if (!artifactId || !imageUrl) {
       return NextResponse.json({ error: "artifactId and imageUrl are required" }, { status: 400 })
     }
 
+    if (mode !== "caption" && mode !== "document") {
+      return NextResponse.json({ error: "mode must be caption or document" }, { status: 400 })
+    }
+
     if (!isImageUrl(imageUrl)) {
       return NextResponse.json({ error: "Invalid image URL" }, { status: 400 })
     }
@@ -56,37 +54,36 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Image URL is not accessible" }, { status: 400 })
     }
 
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // "temp" = media on an artifact that hasn't been saved yet
+    const meter = createUsageMeter(supabase, { userId: user.id, artifactId: artifactId === "temp" ? null : artifactId })
+
+    if (artifactId === "temp" && mode === "document") {
+      const transcription = await transcribeDocumentImage(imageUrl, {
+        meter,
+        language: isLanguageCode(language) ? language : null,
+      })
+      return NextResponse.json({ ok: true, transcription })
+    }
+
     if (artifactId === "temp") {
       console.log("[v0] Generating caption for temp artifact (creation flow)")
       
-      const result = await generateText({
-        model: openai(getVisionModel()),
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "image",
-                image: imageUrl,
-              },
-              {
-                type: "text",
-                text: "Generate a descriptive caption for this image in 7-20 words. Be specific and factual.",
-              },
-            ],
-          },
-        ],
-        maxOutputTokens: 100,
-      })
-
-      const caption = result.text.trim()
+      const caption = await captionImage(imageUrl, meter)
       console.log("[v0] Generated caption for temp artifact:", caption)
 
       return NextResponse.json({ ok: true, caption })
     }
 
-    const supabase = await createClient()
-
     const { data: artifact, error: fetchError } = await supabase
       .from("artifacts")
       .select("*, slug")
@@ -97,31 +94,33 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Artifact not found" }, { status: 404 })
     }
 
+    if (mode === "document") {
+      const transcription = await transcribeDocumentImage(imageUrl, { meter, language: artifact.language_hint })
+
+      if (!skipSave) {
+        const { error: updateError } = await supabase
+          .from("artifacts")
+          .update({
+            image_transcriptions: { ...(artifact.image_transcriptions || {}), [imageUrl]: transcription },
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", artifactId)
+
+        if (updateError) {
+          throw new Error(`Failed to save transcription: ${updateError.message}`)
+        }
+
+        revalidatePath(getArtifactPath(artifact))
+      }
+
+      return NextResponse.json({ ok: true, transcription })
+    }
+
     console.log("[v0] Starting single image caption for artifact:", artifactId)
     console.log("[v0] Image URL (unique key):", imageUrl.substring(0, 80) + "...")
 
     // Generate caption for the single image
-    const result = await generateText({
-      model: openai(getVisionModel()),
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "image",
-              image: imageUrl,
-            },
-            {
-              type: "text",
-              text: "Generate a descriptive caption for this image in 7-20 words. Be specific and factual.",
-            },
-          ],
-        },
-      ],
-      maxOutputTokens: 100,
-    })
-
-    const caption = result.text.trim()
+    const caption = await captionImage(imageUrl, meter)
     console.log("[v0] Generated caption for URL:", imageUrl.substring(0, 50))
     console.log("[v0] Caption:", caption)
 
@@ -149,17 +148,21 @@ export async function POST(request: Request) {
 
       console.log("[v0] Successfully saved image caption")
 
-      revalidatePath(`/artifacts/${artifact.slug}`)
+      revalidatePath(getArtifactPath(artifact))
     } else {
       console.log("[v0] Skipping database save (edit mode)")
     }
 
     return NextResponse.json({ ok: true, caption })
   } catch (error) {
+    if (error instanceof AiQuotaError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("[v0] Single image caption error:", error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Image caption generation failed" },
       { status: 500 },
     )
   }
-}
+})
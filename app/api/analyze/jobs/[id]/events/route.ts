@@ -0,0 +1,87 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { withRateLimit } from "@/lib/rate-limit"
+import type { AiJob } from "@/lib/types/ai-jobs"
+import { isJobFinished } from "@/lib/utils/ai-jobs"
+import { SSE_HEADERS, formatSseComment, formatSseEvent, formatSseRetry } from "@/lib/utils/sse"
+
+export const maxDuration = 300
+
+const POLL_INTERVAL_MS = 1000
+const HEARTBEAT_INTERVAL_MS = 15000
+const RECONNECT_DELAY_MS = 2000
+// End the stream before maxDuration; EventSource reconnects and picks up where it left off
+const STREAM_DURATION_MS = 280 * 1000
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * Stream an analysis job's progress as Server-Sent Events
+ * Sends a "job" event with the full job whenever the worker saves progress (each step,
+ * each caption), and closes once the job has finished. Readable by whoever can edit the artifact.
+ */
+export const GET = withRateLimit("job-events", async (request: Request, { params }: RouteContext) => {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { data: initialJob } = await supabase.from("ai_jobs").select("*").eq("id", id).maybeSingle()
+
+  if (!initialJob) {
+    return NextResponse.json({ error: "Analysis job not found" }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  let cancelled = false
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk))
+      const endAt = Date.now() + STREAM_DURATION_MS
+      let job = initialJob as AiJob
+      let lastUpdatedAt: string | null = null
+      let lastSentAt = Date.now()
+
+      send(formatSseRetry(RECONNECT_DELAY_MS))
+
+      try {
+        while (!cancelled && !request.signal.aborted) {
+          if (job.updated_at !== lastUpdatedAt) {
+            send(formatSseEvent("job", job))
+            lastUpdatedAt = job.updated_at
+            lastSentAt = Date.now()
+          } else if (Date.now() - lastSentAt >= HEARTBEAT_INTERVAL_MS) {
+            send(formatSseComment("keep-alive"))
+            lastSentAt = Date.now()
+          }
+
+          if (isJobFinished(job.status) || Date.now() >= endAt) break
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+
+          const { data, error } = await supabase.from("ai_jobs").select("*").eq("id", id).maybeSingle()
+          if (error) {
+            console.error("[v0] Failed to read analysis job:", error)
+            continue
+          }
+          if (!data) break
+          job = data as AiJob
+        }
+      } finally {
+        if (!cancelled) controller.close()
+      }
+    },
+    cancel() {
+      cancelled = true
+    },
+  })
+
+  return new Response(stream, { headers: SSE_HEADERS })
+})
@@ -1,141 +1,50 @@
 import { createClient } from "@/lib/supabase/server"
-import { NextResponse } from "next/server"
-import { revalidatePath } from "next/cache"
-import { rateLimit } from "@/lib/utils/rate-limit"
+import { NextResponse, after } from "next/server"
+import { enqueueAnalysisJob, processAiJobs } from "@/lib/ai-jobs"
+import { AiQuotaError, createUsageMeter } from "@/lib/ai-usage"
+import { ANALYSIS_STEPS } from "@/lib/analysis"
+import type { AnalysisStep } from "@/lib/types/ai-jobs"
+import { withRateLimit } from "@/lib/rate-limit"
 
-const STEP_TIMEOUT_MS = 45000 // 45 seconds per step
-const RETRY_DELAY_MIN_MS = 500
-const RETRY_DELAY_MAX_MS = 1500
-
-type AnalysisStep = "audio" | "images" | "summary"
+// The worker keeps running after the response; see processAiJobs
+export const maxDuration = 300
+const WORKER_TIME_BUDGET_MS = 120 * 1000
 
 /**
- * Call an analysis endpoint with timeout and single retry
+ * Queue a full analysis (audio → images → documents → summary) of an artifact
+ * `steps` narrows it down, e.g. ["documents"] once the pages of a letter are uploaded.
+ * Responds 202 with the job; progress is read from ai_jobs (see getAiJob).
  */
-async function callAnalysisStep(
-  step: AnalysisStep,
-  artifactId: string,
-  baseUrl: string,
-): Promise<{ ok: boolean; error?: string }> {
-  const url = `${baseUrl}/api/analyze/${step}`
-
-  const attemptCall = async (): Promise<Response> => {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), STEP_TIMEOUT_MS)
-
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ artifactId }),
-        signal: controller.signal,
-      })
-      clearTimeout(timeoutId)
-      return response
-    } catch (error) {
-      clearTimeout(timeoutId)
-      throw error
-    }
-  }
-
-  // First attempt
+export const POST = withRateLimit("analysis-jobs", async (request: Request) => {
   try {
-    const response = await attemptCall()
-    const data = await response.json()
-
-    if (response.ok) {
-      return { ok: true }
-    }
-
-    // Non-OK response, prepare for retry
-    const errorMessage = data.error || `${step} analysis failed with status ${response.status}`
-    console.log(`[v0] ${step} analysis failed (attempt 1), will retry:`, errorMessage)
-
-    // Wait before retry
-    const retryDelay = Math.floor(Math.random() * (RETRY_DELAY_MAX_MS - RETRY_DELAY_MIN_MS + 1)) + RETRY_DELAY_MIN_MS
-    await new Promise((resolve) => setTimeout(resolve, retryDelay))
-
-    // Retry attempt
-    const retryResponse = await attemptCall()
-    const retryData = await retryResponse.json()
-
-    if (retryResponse.ok) {
-      console.log(`[v0] ${step} analysis succeeded on retry`)
-      return { ok: true }
-    }
+    const body = await request.json()
+    const artifactId: string | undefined = body.artifactId
+    const steps: unknown = body.steps
 
-    return {
-      ok: false,
-      error: retryData.error || `${step} analysis failed after retry with status ${retryResponse.status}`,
+    if (!artifactId) {
+      return NextResponse.json({ error: "artifactId is required" }, { status: 400 })
     }
-  } catch (error) {
-    // Network error or timeout
-    const errorMessage =
-      error instanceof Error
-        ? error.name === "AbortError"
-          ? `${step} analysis timed out after ${STEP_TIMEOUT_MS}ms`
-          : error.message
-        : "Unknown error"
-
-    console.log(`[v0] ${step} analysis error (attempt 1), will retry:`, errorMessage)
 
-    // Wait before retry
-    const retryDelay = Math.floor(Math.random() * (RETRY_DELAY_MAX_MS - RETRY_DELAY_MIN_MS + 1)) + RETRY_DELAY_MIN_MS
-    await new Promise((resolve) => setTimeout(resolve, retryDelay))
-
-    // Retry attempt
-    try {
-      const retryResponse = await attemptCall()
-      const retryData = await retryResponse.json()
-
-      if (retryResponse.ok) {
-        console.log(`[v0] ${step} analysis succeeded on retry`)
-        return { ok: true }
-      }
-
-      return {
-        ok: false,
-        error: retryData.error || `${step} analysis failed after retry`,
-      }
-    } catch (retryError) {
-      return {
-        ok: false,
-        error:
-          retryError instanceof Error
-            ? retryError.name === "AbortError"
-              ? `${step} analysis timed out after ${STEP_TIMEOUT_MS}ms (retry)`
-              : retryError.message
-            : "Unknown error on retry",
-      }
+    if (
+      steps !== undefined &&
+      (!Array.isArray(steps) || steps.length === 0 || !steps.every((step) => ANALYSIS_STEPS.includes(step)))
+    ) {
+      return NextResponse.json({ error: `steps must be some of: ${ANALYSIS_STEPS.join(", ")}` }, { status: 400 })
     }
-  }
-}
-
-export async function POST(request: Request) {
-  const ip = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown"
-  const { ok, retryAfterMs } = rateLimit(ip)
-  if (!ok) {
-    return NextResponse.json(
-      { error: "Too Many Requests" },
-      { status: 429, headers: { "Retry-After": String(Math.ceil((retryAfterMs || 0) / 1000)) } },
-    )
-  }
 
-  let artifactId: string | undefined
+    const supabase = await createClient()
 
-  try {
-    const body = await request.json()
-    artifactId = body.artifactId
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
 
-    if (!artifactId) {
-      return NextResponse.json({ error: "artifactId is required" }, { status: 400 })
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const supabase = await createClient()
-
     const { data: artifact, error: fetchError } = await supabase
       .from("artifacts")
-      .select("id, slug")
+      .select("id")
       .eq("id", artifactId)
       .single()
 
@@ -143,80 +52,30 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Artifact not found" }, { status: 404 })
     }
 
-    // Set initial processing status
-    await supabase
-      .from("artifacts")
-      .update({ analysis_status: "processing", analysis_error: null })
-      .eq("id", artifactId)
-
-    // Get base URL for internal API calls
-    const protocol = request.headers.get("x-forwarded-proto") || "http"
-    const host = request.headers.get("host") || "localhost:3000"
-    const baseUrl = `${protocol}://${host}`
+    // Turn the request down now rather than failing the job in the background
+    await createUsageMeter(supabase, { userId: user.id, artifactId }).check()
 
-    // Sequential analysis steps
-    const steps: AnalysisStep[] = ["audio", "images", "summary"]
+    const { job, error } = await enqueueAnalysisJob(supabase, artifactId, user.id, steps as AnalysisStep[] | undefined)
 
-    for (const step of steps) {
-      console.log(`[v0] Starting ${step} analysis for artifact ${artifactId}`)
-
-      const result = await callAnalysisStep(step, artifactId, baseUrl)
-
-      if (!result.ok) {
-        const errorMessage = `failed at ${step}: ${result.error}`
-        console.error(`[v0] Analysis pipeline failed:`, errorMessage)
-
-        // Update artifact with error status
-        await supabase
-          .from("artifacts")
-          .update({
-            analysis_status: "error",
-            analysis_error: errorMessage,
-          })
-          .eq("id", artifactId)
-
-        return NextResponse.json({ ok: false, step, error: result.error }, { status: 500 })
-      }
-
-      console.log(`[v0] Completed ${step} analysis for artifact ${artifactId}`)
+    if (error || !job) {
+      return NextResponse.json({ ok: false, error: error || "Failed to queue analysis" }, { status: 500 })
     }
 
-    await supabase
-      .from("artifacts")
-      .update({
-        analysis_status: "done",
-        analysis_error: null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", artifactId)
-
-    console.log(`[v0] All analysis steps completed successfully for artifact ${artifactId}`)
-
-    revalidatePath(`/artifacts/${artifact.slug}`)
+    // Start on it now rather than waiting for the cron sweep
+    after(async () => {
+      await processAiJobs({ timeBudgetMs: WORKER_TIME_BUDGET_MS })
+    })
 
-    return NextResponse.json({ ok: true })
+    return NextResponse.json({ ok: true, job }, { status: 202 })
   } catch (error) {
-    console.error("[v0] Run-all analysis error:", error)
-
-    // Save error status to database if we have an artifactId
-    if (artifactId) {
-      try {
-        const supabase = await createClient()
-        await supabase
-          .from("artifacts")
-          .update({
-            analysis_status: "error",
-            analysis_error: error instanceof Error ? error.message : "Unknown error in analysis pipeline",
-          })
-          .eq("id", artifactId)
-      } catch (dbError) {
-        console.error("[v0] Failed to save error status:", dbError)
-      }
+    if (error instanceof AiQuotaError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status })
     }
 
+    console.error("[v0] Run-all analysis error:", error)
     return NextResponse.json(
-      { ok: false, error: error instanceof Error ? error.message : "Analysis pipeline failed" },
+      { ok: false, error: error instanceof Error ? error.message : "Failed to queue analysis" },
       { status: 500 },
     )
   }
-}
+})
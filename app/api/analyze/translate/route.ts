@@ -0,0 +1,49 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { AiQuotaError, createUsageMeter } from "@/lib/ai-usage"
+import { AnalysisError } from "@/lib/analysis"
+import { translateArtifactSchema } from "@/lib/schemas"
+import { translateArtifact } from "@/lib/translations"
+import { withRateLimit } from "@/lib/rate-limit"
+
+export const POST = withRateLimit("translation", async (request: Request) => {
+  try {
+    const body = await request.json()
+    const validatedFields = translateArtifactSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const { artifactId, locale } = validatedFields.data
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const translation = await translateArtifact(supabase, artifactId, locale, {
+      meter: createUsageMeter(supabase, { userId: user.id, artifactId }),
+    })
+
+    return NextResponse.json({ ok: true, locale, translation })
+  } catch (error) {
+    if (error instanceof AnalysisError || error instanceof AiQuotaError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("[v0] Translation error:", error)
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Translation failed" },
+      { status: 500 },
+    )
+  }
+})
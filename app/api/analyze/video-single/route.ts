@@ -1,9 +1,13 @@
 import { createClient } from "@/lib/supabase/server"
-import { openai, getVisionModel } from "@/lib/ai"
-import { generateText } from "ai"
+import { getVisionProvider } from "@/lib/ai"
+import { AiQuotaError, createUsageMeter, type UsageMeter } from "@/lib/ai-usage"
 import { NextResponse } from "next/server"
 import { revalidatePath } from "next/cache"
-import { rateLimit } from "@/lib/utils/rate-limit"
+import { getArtifactPath } from "@/lib/utils/routes"
+import { withRateLimit } from "@/lib/rate-limit"
+
+const FRAME_PROMPT =
+  "Generate a descriptive summary for this video frame in 7-20 words. Be specific and factual about what you see."
 
 function isVideoUrl(url: string): boolean {
   if (!url) return false
@@ -46,16 +50,15 @@ function extractVideoFrame(videoUrl: string): string {
   return videoUrl
 }
 
-export async function POST(request: Request) {
-  const ip = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown"
-  const { ok, retryAfterMs } = rateLimit(ip)
-  if (!ok) {
-    return NextResponse.json(
-      { error: "Too Many Requests" },
-      { status: 429, headers: { "Retry-After": String(Math.ceil((retryAfterMs || 0) / 1000)) } },
-    )
-  }
+async function summarizeFrame(frameUrl: string, meter: UsageMeter): Promise<string> {
+  const provider = getVisionProvider()
+  await meter.check()
+  const { text, usage } = await provider.describeImage({ imageUrl: frameUrl, prompt: FRAME_PROMPT, maxOutputTokens: 100 })
+  await meter.record("vision", provider.id, usage)
+  return text
+}
 
+export const POST = withRateLimit("vision", async (request: Request) => {
   try {
     const { artifactId, videoUrl, skipSave = false } = await request.json()
 
@@ -67,40 +70,31 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Invalid video URL" }, { status: 400 })
     }
 
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // "temp" = media on an artifact that hasn't been saved yet
+    const meter = createUsageMeter(supabase, { userId: user.id, artifactId: artifactId === "temp" ? null : artifactId })
+
     if (artifactId === "temp") {
       console.log("[v0] Generating video summary for temp artifact (creation flow)")
       
       const frameUrl = extractVideoFrame(videoUrl)
       console.log("[v0] Extracted frame URL:", frameUrl.substring(0, 50) + "...")
 
-      const result = await generateText({
-        model: openai(getVisionModel()),
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "image",
-                image: frameUrl,
-              },
-              {
-                type: "text",
-                text: "Generate a descriptive summary for this video frame in 7-20 words. Be specific and factual about what you see.",
-              },
-            ],
-          },
-        ],
-        maxOutputTokens: 100,
-      })
-
-      const summary = result.text.trim()
+      const summary = await summarizeFrame(frameUrl, meter)
       console.log("[v0] Generated video summary for temp artifact:", summary)
 
       return NextResponse.json({ ok: true, summary })
     }
 
-    const supabase = await createClient()
-
     const { data: artifact, error: fetchError } = await supabase
       .from("artifacts")
       .select("*, slug")
@@ -117,27 +111,7 @@ export async function POST(request: Request) {
     const frameUrl = extractVideoFrame(videoUrl)
     console.log("[v0] Extracted frame URL:", frameUrl.substring(0, 50) + "...")
 
-    const result = await generateText({
-      model: openai(getVisionModel()),
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "image",
-              image: frameUrl,
-            },
-            {
-              type: "text",
-              text: "Generate a descriptive summary for this video frame in 7-20 words. Be specific and factual about what you see.",
-            },
-          ],
-        },
-      ],
-      maxOutputTokens: 100,
-    })
-
-    const summary = result.text.trim()
+    const summary = await summarizeFrame(frameUrl, meter)
     console.log("[v0] Generated video summary:", summary)
 
     // Only save to database if skipSave is false (not in edit mode)
@@ -162,17 +136,21 @@ export async function POST(request: Request) {
 
       console.log("[v0] Successfully saved video summary")
 
-      revalidatePath(`/artifacts/${artifact.slug}`)
+      revalidatePath(getArtifactPath(artifact))
     } else {
       console.log("[v0] Skipping database save (edit mode)")
     }
 
     return NextResponse.json({ ok: true, summary })
   } catch (error) {
+    if (error instanceof AiQuotaError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error("[v0] Video summary error:", error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Video summary generation failed" },
       { status: 500 },
     )
   }
-}
+})
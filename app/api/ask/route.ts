@@ -0,0 +1,54 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { AiQuotaError, createUsageMeter } from "@/lib/ai-usage"
+import { AnalysisError } from "@/lib/analysis"
+import { askArchive } from "@/lib/archive-chat"
+import { askArchiveSchema } from "@/lib/schemas"
+import { withRateLimit } from "@/lib/rate-limit"
+
+/**
+ * Answer a question about a collection from its artifacts
+ * Body: { collectionId, question, history? } where history is the earlier turns of the chat
+ */
+export const POST = withRateLimit("archive-chat", async (request: Request) => {
+  try {
+    const body = await request.json()
+    const validatedFields = askArchiveSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const { collectionId, question, history } = validatedFields.data
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const result = await askArchive(supabase, collectionId, question, {
+      history,
+      meter: createUsageMeter(supabase, { userId: user.id }),
+    })
+
+    return NextResponse.json({ ok: true, ...result })
+  } catch (error) {
+    if (error instanceof AnalysisError || error instanceof AiQuotaError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("[v0] Archive chat error:", error)
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to answer question" },
+      { status: 500 },
+    )
+  }
+})
@@ -0,0 +1,40 @@
+import { processAiJobs } from "@/lib/ai-jobs"
+import { NextResponse } from "next/server"
+
+export const maxDuration = 300
+
+// Leave room for the last job claimed before the budget ran out
+const WORKER_TIME_BUDGET_MS = 180 * 1000
+
+/**
+ * Only Vercel Cron may run the worker. With CRON_SECRET set, Vercel sends it as a bearer token;
+ * without it, production requests need the x-vercel-cron header. Development allows any request.
+ */
+function isAuthorizedCronRequest(request: Request): boolean {
+  if (process.env.CRON_SECRET) {
+    return request.headers.get("authorization") === `Bearer ${process.env.CRON_SECRET}`
+  }
+  return process.env.NODE_ENV !== "production" || request.headers.has("x-vercel-cron")
+}
+
+/**
+ * Cron job endpoint to run queued AI analysis jobs
+ * Picks up retries whose backoff has passed and jobs whose worker died.
+ * Scheduled in vercel.json.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { processed } = await processAiJobs({ timeBudgetMs: WORKER_TIME_BUDGET_MS })
+    return NextResponse.json({ ok: true, processed })
+  } catch (error) {
+    console.error("[v0] AI job worker failed:", error)
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "AI job worker failed" },
+      { status: 500 },
+    )
+  }
+}
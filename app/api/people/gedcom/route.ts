@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { exportGedcom } from "@/lib/actions/gedcom"
+
+/**
+ * Download the current user's people directory as a GEDCOM file
+ * Each person's artifacts are linked by their page URL on this site
+ */
+export async function GET(request: Request) {
+  const { data, error } = await exportGedcom(new URL(request.url).origin)
+
+  if (error || data === undefined) {
+    return NextResponse.json(
+      { error: error || "Failed to export people" },
+      { status: error === "Unauthorized" ? 401 : 500 }
+    )
+  }
+
+  return new NextResponse(data, {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="heirlooms-people.ged"',
+      "Cache-Control": "no-store",
+    },
+  })
+}
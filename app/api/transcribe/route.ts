@@ -1,10 +1,18 @@
 import { NextResponse } from "next/server"
+import { AiProviderError } from "@/lib/ai"
+import { AiQuotaError, createUsageMeter } from "@/lib/ai-usage"
+import { AnalysisError, transcribeAudio } from "@/lib/analysis"
+import { withRateLimit } from "@/lib/rate-limit"
+import { createClient } from "@/lib/supabase/server"
+import { isLanguageCode } from "@/lib/utils/translations"
 
-export async function POST(request: Request) {
+export const POST = withRateLimit("transcription", async (request: Request) => {
   try {
     const formData = await request.formData()
     const audioFile = formData.get("audio") as File
     const fieldType = formData.get("fieldType") as string
+    // Optional language of the recording (ISO 639-1), e.g. the artifact's language_hint
+    const language = formData.get("language")
 
     console.log("[v0] Transcription request:", {
       hasAudio: !!audioFile,
@@ -17,39 +25,44 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "No audio file provided" }, { status: 400 })
     }
 
-    const transcriptionFormData = new FormData()
-    // Create a new file with .webm extension to help OpenAI identify the format
-    const audioFileWithExt = new File([audioFile], "audio.webm", { type: "audio/webm" })
-    transcriptionFormData.append("file", audioFileWithExt)
-    transcriptionFormData.append("model", process.env.AI_TRANSCRIBE_MODEL || "whisper-1")
+    const supabase = await createClient()
 
-    console.log("[v0] Sending to OpenAI with API key present:", !!process.env.OPENAI_API_KEY)
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
 
-    const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: transcriptionFormData,
-    })
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const meter = createUsageMeter(supabase, { userId: user.id })
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error("[v0] Transcription API error:", { status: response.status, errorText })
+    // Create a new file with .webm extension to help the provider identify the format
+    const audioFileWithExt = new File([audioFile], "audio.webm", { type: "audio/webm" })
+
+    let transcription: string
+    try {
+      transcription = await transcribeAudio(audioFileWithExt, {
+        filename: "audio.webm",
+        language: isLanguageCode(language) ? language : undefined,
+        meter,
+      })
+    } catch (error) {
+      if (error instanceof AnalysisError || error instanceof AiQuotaError) {
+        return NextResponse.json({ error: error.message }, { status: error.status })
+      }
+      if (!(error instanceof AiProviderError)) throw error
+
+      console.error("[v0] Transcription API error:", { status: error.status, errorText: error.details })
       return NextResponse.json(
         {
           error: "Failed to transcribe audio",
-          details: errorText,
+          details: error.details,
         },
-        { status: response.status },
+        { status: error.status },
       )
     }
 
-    const result = await response.json()
-    console.log("[v0] Transcription result:", result)
-
-    let transcription = result.text || ""
-
     // Truncate based on field type
     if (fieldType === "title") {
       transcription = transcription.substring(0, 100)
@@ -68,4 +81,4 @@ export async function POST(request: Request) {
       { status: 500 },
     )
   }
-}
+})
@@ -1,6 +1,7 @@
 import { createClient as createServerClient } from "@/lib/supabase/server"
 import { createClient } from "@supabase/supabase-js"
 import { NextRequest, NextResponse } from "next/server"
+import { withRateLimit } from "@/lib/rate-limit"
 
 /**
  * Phase 2: Supabase Storage upload API route
@@ -15,7 +16,7 @@ import { NextRequest, NextResponse } from "next/server"
 const STORAGE_BUCKET = "heirlooms-media"
 const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB (Supabase free tier limit)
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit("upload", async (request: NextRequest) => {
   try {
     // First, authenticate the user with cookie-based client
     const authClient = await createServerClient()
@@ -167,4 +168,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,159 @@
+import { AppLayout } from "@/components/app-layout"
+import { notFound, permanentRedirect, redirect } from "next/navigation"
+import { getCurrentUser } from "@/lib/supabase/server"
+import { getArtifactById, getArtifactIdBySlug, getAdjacentArtifacts } from "@/lib/actions/artifacts"
+import { ArtifactDetailView } from "@/components/artifact-detail-view"
+import { ArtifactStickyNav } from "@/components/artifact-sticky-nav"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { getArtifactGalleryMedia } from "@/lib/actions/media"
+import { getProvenanceEvents } from "@/lib/actions/provenance"
+import { getArtifactPeople, getPeople } from "@/lib/actions/people"
+import { getArtifactPlaces } from "@/lib/actions/places"
+import { getArtifactComments } from "@/lib/actions/comments"
+import { getSimilarArtifacts } from "@/lib/actions/embeddings"
+import { hasShareLinkAccess } from "@/lib/actions/share-links"
+import { getMyCollectionFamilyRole } from "@/lib/actions/families"
+import { hasFamilyRole } from "@/lib/utils/family-roles"
+import { recordView } from "@/lib/actions/analytics"
+import {
+  getArtifactEditPath,
+  getArtifactPath,
+  getCollectionPath,
+  getRequestedPath,
+  isUuid,
+  withSearchParams,
+} from "@/lib/utils/routes"
+
+export default async function ArtifactDetailPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string; slug?: string[] }>
+  searchParams: Promise<{ mode?: string; ref?: string }>
+}) {
+  const user = await getCurrentUser()
+  const { id, slug } = await params
+  const query = await searchParams
+  const { mode, ref } = query
+
+  const isEditMode = mode === "edit"
+
+  // If edit mode is requested, require authentication
+  if (isEditMode && !user) {
+    redirect("/login?returnTo=/artifacts")
+  }
+
+  // The ID is authoritative; legacy /artifacts/{slug} URLs are looked up by current or previous slug
+  const artifactId = isUuid(id) ? id : await getArtifactIdBySlug(id)
+  const artifact = artifactId ? await getArtifactById(artifactId) : null
+
+  if (!artifact) {
+    notFound()
+  }
+
+  // Missing, stale or legacy slugs redirect to the canonical /artifacts/{id}/{slug}
+  const canonicalPath = getArtifactPath(artifact)
+  if (getRequestedPath("/artifacts", id, slug) !== canonicalPath) {
+    permanentRedirect(withSearchParams(canonicalPath, query))
+  }
+
+  const isAdmin = await isCurrentUserAdmin()
+  const familyRole = user ? await getMyCollectionFamilyRole(artifact.collection_id) : null
+
+  // View permission check (private share links grant read-only access)
+  const canView =
+    artifact.collection?.is_public ||
+    (user && artifact.user_id === user.id) ||
+    isAdmin ||
+    hasFamilyRole(familyRole, "viewer") ||
+    (await hasShareLinkAccess({ artifactId: artifact.id, collectionId: artifact.collection_id }))
+
+  if (!canView) {
+    notFound()
+  }
+
+  // Edit permission check (family editors can edit everything in the family's collections)
+  const canEdit = !!(user && (artifact.user_id === user.id || isAdmin || hasFamilyRole(familyRole, "editor")))
+
+  // If edit mode is requested but user doesn't have permission, deny access
+  if (isEditMode && !canEdit) {
+    notFound()
+  }
+
+  if (!isEditMode) {
+    await recordView({ artifactId: artifact.id, ownerId: artifact.user_id, ref })
+  }
+
+  const { previous, next, currentPosition, totalCount } = await getAdjacentArtifacts(
+    artifact.id,
+    artifact.collection_id,
+  )
+
+  // Fetch gallery media from new unified media model (optional - falls back to media_urls)
+  const { data: galleryMedia } = await getArtifactGalleryMedia(artifact.id)
+
+  const { data: provenanceEvents } = await getProvenanceEvents(artifact.id)
+
+  const { data: people } = await getArtifactPeople(artifact.id)
+  // The owner's directory, for linking people and matching the AI's suggested names
+  const canLinkPeople = !!user && (artifact.user_id === user.id || isAdmin)
+  const { data: peopleDirectory } = canLinkPeople ? await getPeople(artifact.user_id) : { data: [] }
+  const { data: places } = await getArtifactPlaces(artifact.id)
+
+  const { data: comments } = isEditMode ? { data: [] } : await getArtifactComments(artifact.id)
+
+  const { data: similarArtifacts } = isEditMode ? { data: [] } : await getSimilarArtifacts(artifact.id)
+
+  const collectionHref = getCollectionPath(artifact.collection ?? { id: artifact.collection_id })
+
+  // Build navigation URLs based on current mode
+  const getNavUrl = isEditMode ? getArtifactEditPath : getArtifactPath
+  const previousUrl = previous ? getNavUrl(previous) : null
+  const nextUrl = next ? getNavUrl(next) : null
+
+  return (
+    <AppLayout user={user} noTopPadding>
+      {/* Sticky nav rendered from server in view mode only */}
+      {!isEditMode && (
+        <ArtifactStickyNav
+          title={artifact.title}
+          backHref={collectionHref}
+          backLabel={`${artifact.collection?.title || "Uncategorized"} Collection`}
+          previousItem={previous}
+          nextItem={next}
+          editHref={getArtifactEditPath(artifact)}
+          canEdit={canEdit}
+          isEditMode={false}
+          collectionId={artifact.collection_id}
+          collectionSlug={artifact.collection?.slug}
+          collectionName={artifact.collection?.title}
+          currentUserId={user?.id}
+          isCurrentUserAdmin={isAdmin}
+          contentOwnerId={artifact.user_id}
+          isLoggedIn={!!user}
+        />
+      )}
+
+      <ArtifactDetailView
+        artifact={artifact}
+        previous={previous}
+        next={next}
+        currentPosition={currentPosition}
+        totalCount={totalCount}
+        collectionHref={collectionHref}
+        canEdit={canEdit}
+        isEditMode={isEditMode}
+        previousUrl={previousUrl}
+        nextUrl={nextUrl}
+        galleryMedia={galleryMedia || undefined}
+        provenanceEvents={provenanceEvents || []}
+        people={people || []}
+        peopleDirectory={peopleDirectory || []}
+        places={places || []}
+        comments={comments || []}
+        similarArtifacts={similarArtifacts}
+        isCurrentUserAdmin={isAdmin}
+      />
+    </AppLayout>
+  )
+}
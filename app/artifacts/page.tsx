@@ -7,13 +7,14 @@ import { getArtifactTypes } from "@/lib/actions/artifact-types"
 import { ArtifactsTabs } from "@/components/artifacts-tabs"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { getArtifactsViewPreference } from "@/lib/actions/profile"
-import { parseSortParam, parseTypeParams } from "@/lib/utils/artifact-filters"
+import { parseSearchModeParam, parseSortParam, parseTypeParams } from "@/lib/utils/artifact-filters"
+import { normalizeSearchQuery } from "@/lib/utils/search"
 import { HeirloomsLogoBadge } from "@/components/heirlooms-logo-badge"
 
 export default async function ArtifactsPage({
   searchParams,
 }: {
-  searchParams: Promise<{ sort?: string; types?: string }>
+  searchParams: Promise<{ sort?: string; types?: string; q?: string; semantic?: string }>
 }) {
   const user = await getCurrentUser()
   const params = await searchParams
@@ -23,7 +24,9 @@ export default async function ArtifactsPage({
   const validTypeIds = artifactTypes.map((t) => t.id)
 
   // Parse URL parameters
-  const sortBy = parseSortParam(params.sort || null)
+  const search = normalizeSearchQuery(params.q)
+  const searchMode = parseSearchModeParam(params.semantic || null)
+  const sortBy = parseSortParam(params.sort || null, search)
   const typeIds = parseTypeParams(params.types || null, validTypeIds)
 
   // Prepare query options
@@ -35,6 +38,8 @@ export default async function ArtifactsPage({
         limit: 24,
         sortBy,
         typeIds: typeFilter,
+        search,
+        searchMode,
       })
     : { artifacts: [], hasMore: false }
 
@@ -42,6 +47,8 @@ export default async function ArtifactsPage({
     limit: 24,
     sortBy,
     typeIds: typeFilter,
+    search,
+    searchMode,
   })
 
   const viewPreference = await getArtifactsViewPreference()
@@ -65,6 +72,8 @@ export default async function ArtifactsPage({
           initialViewPreference={viewPreference}
           initialSort={sortBy}
           initialTypeIds={typeIds}
+          initialSearch={search}
+          initialSearchMode={searchMode}
         />
       </div>
     </AppLayout>
@@ -2,38 +2,49 @@ import { AppLayout } from "@/components/app-layout"
 import { Button } from "@/components/ui/button"
 import { Plus, Edit } from "lucide-react"
 import Link from "next/link"
-import { notFound, redirect } from "next/navigation"
+import { notFound, permanentRedirect, redirect } from "next/navigation"
 import { getCurrentUser, createClient } from "@/lib/supabase/server"
-import { getCollectionBySlug } from "@/lib/actions/collections"
+import { getCollection, getCollectionIdBySlug } from "@/lib/actions/collections"
 import { getArtifactsByCollection } from "@/lib/actions/artifacts"
 import { ArtifactCard } from "@/components/artifact-card"
 import { AddArtifactCard } from "@/components/add-artifact-card"
 import { CollectionsStickyNav } from "@/components/collections-sticky-nav"
 import { Author } from "@/components/author"
 import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { hasShareLinkAccess } from "@/lib/actions/share-links"
+import { ShareLinksButton } from "@/components/share-links-dialog"
+import { getMyFamilyRole } from "@/lib/actions/families"
+import { hasFamilyRole } from "@/lib/utils/family-roles"
+import { recordView } from "@/lib/actions/analytics"
+import { ViewAnalyticsButton } from "@/components/view-analytics-dialog"
+import { ArchiveChat } from "@/components/archive-chat"
+import { getCollectionEditPath, getCollectionPath, getRequestedPath, isUuid, withSearchParams } from "@/lib/utils/routes"
 
 export default async function CollectionDetailPage({
   params,
   searchParams,
 }: {
-  params: Promise<{ slug: string }>
-  searchParams: Promise<{ mode?: string }>
+  params: Promise<{ id: string; slug?: string[] }>
+  searchParams: Promise<{ mode?: string; ref?: string }>
 }) {
   const user = await getCurrentUser()
   const supabase = await createClient()
 
-  const { slug } = await params
-  const { mode: rawMode } = await searchParams
+  const { id, slug } = await params
+  const query = await searchParams
+  const { mode: rawMode, ref } = query
 
   const mode: "all" | "mine" | "both" = rawMode === "all" ? "all" : rawMode === "mine" ? "mine" : "both"
 
-  if (slug === "new") {
+  if (id === "new") {
     redirect("/collections/new")
   }
 
+  // The ID is authoritative; legacy /collections/{slug} URLs are looked up by current or previous slug
   let collection
   try {
-    collection = await getCollectionBySlug(slug)
+    const collectionId = isUuid(id) ? id : await getCollectionIdBySlug(id)
+    collection = collectionId ? await getCollection(collectionId) : null
   } catch (error) {
     console.error("Error loading collection:", error)
     notFound()
@@ -43,19 +54,38 @@ export default async function CollectionDetailPage({
     notFound()
   }
 
+  // Missing, stale or legacy slugs redirect to the canonical /collections/{id}/{slug}
+  const collectionPath = getCollectionPath(collection)
+  if (getRequestedPath("/collections", id, slug) !== collectionPath) {
+    permanentRedirect(withSearchParams(collectionPath, query))
+  }
+
   // This is a system collection that cannot be deleted and holds artifacts without a user-assigned collection
   const isUncategorized = collection.slug.startsWith("uncategorized")
 
   const isAdmin = await isCurrentUserAdmin()
-
-  const canView = collection.is_public || (user && collection.user_id === user.id) || isAdmin
+  const familyRole = user && collection.family_id ? await getMyFamilyRole(collection.family_id) : null
+
+  // Private share links grant read-only access
+  const canView =
+    collection.is_public ||
+    (user && collection.user_id === user.id) ||
+    isAdmin ||
+    hasFamilyRole(familyRole, "viewer") ||
+    (await hasShareLinkAccess({ collectionId: collection.id }))
   const canEdit = !!(user && (collection.user_id === user.id || isAdmin)) && !isUncategorized
   const isOwnCollection = user && collection.user_id === user.id
+  // Family contributors can add artifacts without being able to edit the collection itself
+  const canContribute = !canEdit && !isUncategorized && hasFamilyRole(familyRole, "contributor")
 
   if (!canView) {
     notFound()
   }
 
+  if (!isUncategorized) {
+    await recordView({ collectionId: collection.id, ownerId: collection.user_id, ref })
+  }
+
   let artifacts: any[] = []
   try {
     if (isUncategorized && user) {
@@ -95,7 +125,7 @@ export default async function CollectionDetailPage({
           title={collection.title}
           backHref="/collections"
           backLabel="All Collections"
-          editHref={`/collections/${collection.id}/edit`}
+          editHref={getCollectionEditPath(collection)}
           canEdit={canEdit}
           itemType="collection"
           mode={mode === "both" ? undefined : mode}
@@ -116,17 +146,21 @@ export default async function CollectionDetailPage({
         {canEdit && (
           <div className="flex items-center justify-between py-4 px-6 lg:px-8">
             {!isUncategorized && (
-              <Button asChild className="bg-purple-600 hover:bg-purple-700 text-white">
-                <Link href={`/collections/${collection.id}/edit`}>
-                  <Edit className="mr-2 h-4 w-4" />
-                  Edit Collection
-                </Link>
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button asChild className="bg-purple-600 hover:bg-purple-700 text-white">
+                  <Link href={getCollectionEditPath(collection)}>
+                    <Edit className="mr-2 h-4 w-4" />
+                    Edit Collection
+                  </Link>
+                </Button>
+                {isOwnCollection && <ShareLinksButton collectionId={collection.id} itemLabel="collection" />}
+                {(isOwnCollection || isAdmin) && <ViewAnalyticsButton collectionId={collection.id} />}
+              </div>
             )}
             {isUncategorized && <div />}
             {!isUncategorized && (
               <Button asChild className="bg-blue-600 hover:bg-blue-700 text-white">
-                <Link href={`/artifacts/new?collectionId=${collection.id}&returnTo=/collections/${slug}`}>
+                <Link href={`/artifacts/new?collectionId=${collection.id}&returnTo=${collectionPath}`}>
                   <Plus className="mr-2 h-4 w-4" />
                   Add Artifact
                 </Link>
@@ -135,6 +169,17 @@ export default async function CollectionDetailPage({
           </div>
         )}
 
+        {canContribute && (
+          <div className="flex items-center justify-end py-4 px-6 lg:px-8">
+            <Button asChild className="bg-blue-600 hover:bg-blue-700 text-white">
+              <Link href={`/artifacts/new?collectionId=${collection.id}&returnTo=${collectionPath}`}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Artifact
+              </Link>
+            </Button>
+          </div>
+        )}
+
         <div className={isUncategorized ? "space-y-2 -mt-4" : "space-y-4"}>
           {!isUncategorized && collection.description && (
             <p className="text-muted-foreground pb-2">{collection.description}</p>
@@ -150,6 +195,9 @@ export default async function CollectionDetailPage({
           )}
         </div>
 
+        {/* Answers come from the artifacts this viewer can see; signed-in only, as it spends AI quota */}
+        {user && !isUncategorized && artifacts.length > 0 && <ArchiveChat collectionId={collection.id} />}
+
         <div>
           {artifacts.length === 0 && !isOwnCollection ? (
             <div className="rounded-lg border border-dashed p-12 text-center">
@@ -163,7 +211,7 @@ export default async function CollectionDetailPage({
                 <ArtifactCard key={artifact.id} artifact={artifact} />
               ))}
               {isOwnCollection && !isUncategorized && (
-                <AddArtifactCard collectionId={collection.id} collectionSlug={slug} />
+                <AddArtifactCard collectionId={collection.id} collectionSlug={collection.slug} />
               )}
             </div>
           )}
@@ -1,25 +1,33 @@
 import { AppLayout } from "@/components/app-layout"
 import { EditCollectionForm } from "@/components/edit-collection-form"
-import { redirect, notFound } from 'next/navigation'
+import { redirect, notFound, permanentRedirect } from 'next/navigation'
 import { getCurrentUser, createClient } from "@/lib/supabase/server"
-import { getCollection } from "@/lib/actions/collections"
+import { getCollection, getCollectionIdBySlug } from "@/lib/actions/collections"
 import { isCurrentUserAdmin } from "@/lib/utils/admin"
 import { CollectionsStickyNav } from "@/components/collections-sticky-nav"
+import { getMyFamilies } from "@/lib/actions/families"
+import { getCollectionEditPath, getCollectionPath, isUuid } from "@/lib/utils/routes"
 
-export default async function EditCollectionPage({ params }: { params: Promise<{ slug: string }> }) {
+export default async function EditCollectionPage({ params }: { params: Promise<{ id: string }> }) {
   const user = await getCurrentUser()
-  const { slug } = await params
+  const { id } = await params
 
   if (!user) {
     redirect("/login?returnTo=/collections")
   }
 
-  const collection = await getCollection(slug)
+  const collectionId = isUuid(id) ? id : await getCollectionIdBySlug(id)
+  const collection = collectionId ? await getCollection(collectionId) : null
 
   if (!collection) {
     notFound()
   }
 
+  // Legacy /collections/{slug}/edit URLs redirect to the ID-based one
+  if (id !== collection.id) {
+    permanentRedirect(getCollectionEditPath(collection))
+  }
+
   const isAdmin = await isCurrentUserAdmin()
 
   // Check ownership or admin status
@@ -34,11 +42,15 @@ export default async function EditCollectionPage({ params }: { params: Promise<{
     .select("*", { count: "exact", head: true })
     .eq("collection_id", collection.id)
 
+  // Only the owner can attach the collection to one of their families
+  const isOwner = collection.user_id === user.id
+  const { data: families } = isOwner ? await getMyFamilies() : { data: undefined }
+
   return (
     <AppLayout user={user}>
       <CollectionsStickyNav
         title={collection.title}
-        backHref={`/collections/${collection.slug}`}
+        backHref={getCollectionPath(collection)}
         backLabel={collection.title}
         canEdit={false}
         itemType="collection"
@@ -54,7 +66,11 @@ export default async function EditCollectionPage({ params }: { params: Promise<{
           <p className="mt-1 text-muted-foreground">Update your collection details and settings</p>
         </div>
 
-        <EditCollectionForm collection={collection} artifactCount={artifactCount ?? 0} />
+        <EditCollectionForm
+          collection={collection}
+          artifactCount={artifactCount ?? 0}
+          families={isOwner ? (families ?? []) : undefined}
+        />
       </div>
     </AppLayout>
   )
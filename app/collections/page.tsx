@@ -6,12 +6,16 @@ import { CollectionsTabs } from "@/components/collections-tabs"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { getAllPublicCollectionsPaginated, getMyCollectionsPaginated } from "@/lib/actions/collections"
 import { getViewPreference } from "@/lib/actions/profile"
+import { normalizeSearchQuery } from "@/lib/utils/search"
 
-export default async function CollectionsPage() {
+export default async function CollectionsPage({ searchParams }: { searchParams: Promise<{ q?: string }> }) {
   const user = await getCurrentUser()
+  const search = normalizeSearchQuery((await searchParams).q)
 
-  const myCollectionsResult = user ? await getMyCollectionsPaginated(user.id, 24) : { collections: [], hasMore: false }
-  const allCollectionsResult = await getAllPublicCollectionsPaginated(user?.id, 24)
+  const myCollectionsResult = user
+    ? await getMyCollectionsPaginated(user.id, 24, undefined, search)
+    : { collections: [], hasMore: false }
+  const allCollectionsResult = await getAllPublicCollectionsPaginated(user?.id, 24, undefined, search)
   const viewPreference = await getViewPreference()
 
   return (
@@ -59,6 +63,7 @@ export default async function CollectionsPage() {
           myHasMore={myCollectionsResult?.hasMore || false}
           allHasMore={allCollectionsResult?.hasMore || false}
           initialViewPreference={viewPreference}
+          initialSearch={search}
         />
       </div>
     </AppLayout>
@@ -0,0 +1,58 @@
+export const dynamic = "force-dynamic"
+
+import Link from "next/link"
+import { notFound, redirect } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { AppLayout } from "@/components/app-layout"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { FamilyMembersManager } from "@/components/family-members-manager"
+import { getCurrentUser } from "@/lib/supabase/server"
+import { getFamily } from "@/lib/actions/families"
+import { FAMILY_ROLE_DESCRIPTIONS, FAMILY_ROLE_LABELS } from "@/lib/utils/family-roles"
+
+export default async function FamilyPage({ params }: { params: Promise<{ id: string }> }) {
+  const user = await getCurrentUser()
+  const { id } = await params
+
+  if (!user) {
+    redirect(`/login?returnTo=/families/${id}`)
+  }
+
+  const { data } = await getFamily(id)
+
+  if (!data) {
+    notFound()
+  }
+
+  const { family, role, members, invitations } = data
+
+  return (
+    <AppLayout user={user}>
+      <div className="mx-auto max-w-2xl space-y-8 pb-20">
+        <Button variant="ghost" size="sm" asChild className="pl-0">
+          <Link href="/families">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All Families
+          </Link>
+        </Button>
+
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold tracking-tight">{family.name}</h1>
+            <Badge variant="secondary">{FAMILY_ROLE_LABELS[role]}</Badge>
+          </div>
+          <p className="mt-1 text-muted-foreground">{FAMILY_ROLE_DESCRIPTIONS[role]}</p>
+        </div>
+
+        <FamilyMembersManager
+          familyId={family.id}
+          currentUserId={user.id}
+          role={role}
+          members={members}
+          invitations={invitations}
+        />
+      </div>
+    </AppLayout>
+  )
+}
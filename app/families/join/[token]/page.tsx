@@ -0,0 +1,64 @@
+export const dynamic = "force-dynamic"
+
+import { AppLayout } from "@/components/app-layout"
+import { FamilyInvitationAccept } from "@/components/family-invitation-accept"
+import { LoginModule } from "@/components/login-module"
+import { getCurrentUser } from "@/lib/supabase/server"
+import { getFamilyInvitation } from "@/lib/actions/families"
+import { FAMILY_ROLE_DESCRIPTIONS, FAMILY_ROLE_LABELS } from "@/lib/utils/family-roles"
+import type { FamilyInvitationStatus } from "@/lib/types/families"
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<FamilyInvitationStatus, "pending">, string> = {
+  accepted: "This invitation has already been accepted.",
+  revoked: "This invitation was withdrawn. Ask a family editor for a new one.",
+  expired: "This invitation has expired. Ask a family editor for a new one.",
+}
+
+/**
+ * Landing page for invitation emails and shared invite links. Signed-out invitees
+ * sign in here, so the sign-in flow starts in their own browser.
+ */
+export default async function FamilyJoinPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const user = await getCurrentUser()
+
+  const invitation = await getFamilyInvitation(token)
+
+  return (
+    <AppLayout user={user}>
+      <div className="mx-auto flex max-w-sm flex-col gap-4 py-16">
+        {!invitation ? (
+          <div className="space-y-1 text-center">
+            <h1 className="text-xl font-semibold">Invitation not found</h1>
+            <p className="text-sm text-muted-foreground">Check that you copied the whole link.</p>
+          </div>
+        ) : invitation.status !== "pending" ? (
+          <div className="space-y-1 text-center">
+            <h1 className="text-xl font-semibold">Invitation unavailable</h1>
+            <p className="text-sm text-muted-foreground">{UNAVAILABLE_MESSAGES[invitation.status]}</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-1 text-center">
+              <h1 className="text-xl font-semibold">Join {invitation.family_name}</h1>
+              <p className="text-sm text-muted-foreground">
+                {invitation.inviter_name || "A family member"} invited {invitation.email} as a{" "}
+                {FAMILY_ROLE_LABELS[invitation.role].toLowerCase()}.
+              </p>
+              <p className="text-xs text-muted-foreground">{FAMILY_ROLE_DESCRIPTIONS[invitation.role]}</p>
+            </div>
+            {user ? (
+              <FamilyInvitationAccept token={token} />
+            ) : (
+              <LoginModule
+                returnTo={`/families/join/${token}`}
+                title="Sign in to join"
+                showBackButton={false}
+              />
+            )}
+          </>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
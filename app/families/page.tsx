@@ -0,0 +1,69 @@
+export const dynamic = "force-dynamic"
+
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { Users } from "lucide-react"
+import { AppLayout } from "@/components/app-layout"
+import { Badge } from "@/components/ui/badge"
+import { FamilyCreateForm } from "@/components/family-create-form"
+import { getCurrentUser } from "@/lib/supabase/server"
+import { getMyFamilies } from "@/lib/actions/families"
+import { FAMILY_ROLE_LABELS } from "@/lib/utils/family-roles"
+
+export default async function FamiliesPage() {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect("/login?returnTo=/families")
+  }
+
+  const { data: families, error } = await getMyFamilies()
+
+  return (
+    <AppLayout user={user}>
+      <div className="mx-auto max-w-2xl space-y-8 pb-20">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Families</h1>
+          <p className="mt-1 text-muted-foreground">
+            Share collections with relatives. Attach a collection to a family from its edit page.
+          </p>
+        </div>
+
+        <FamilyCreateForm />
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {families && families.length === 0 && (
+          <div className="rounded-lg border border-dashed p-12 text-center">
+            <p className="text-sm text-muted-foreground">You&apos;re not part of a family yet.</p>
+          </div>
+        )}
+
+        {families && families.length > 0 && (
+          <div className="space-y-2">
+            {families.map((family) => (
+              <Link
+                key={family.id}
+                href={`/families/${family.id}`}
+                className="flex items-center justify-between rounded-lg border p-4 transition-colors hover:bg-accent"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+                    <Users className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium">{family.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {family.member_count} {family.member_count === 1 ? "member" : "members"}
+                    </p>
+                  </div>
+                </div>
+                <Badge variant="secondary">{FAMILY_ROLE_LABELS[family.role]}</Badge>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
@@ -0,0 +1,35 @@
+export const dynamic = "force-dynamic"
+
+import { redirect } from "next/navigation"
+import { MapIcon } from "lucide-react"
+import { AppLayout } from "@/components/app-layout"
+import { HeirloomMap } from "@/components/places/heirloom-map"
+import { getCurrentUser } from "@/lib/supabase/server"
+import { getMapArtifacts } from "@/lib/actions/places"
+
+export default async function MapPage() {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect("/login?returnTo=/map")
+  }
+
+  const { data, error } = await getMapArtifacts()
+
+  return (
+    <AppLayout user={user}>
+      <div className="space-y-6 pb-20">
+        <header className="flex items-center gap-3">
+          <MapIcon className="h-6 w-6 text-muted-foreground" />
+          <h1 className="text-3xl font-bold tracking-tight">Map</h1>
+        </header>
+
+        {error || !data ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <HeirloomMap artifacts={data.artifacts} unlocated={data.unlocated} />
+        )}
+      </div>
+    </AppLayout>
+  )
+}
@@ -0,0 +1,106 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { AppLayout } from "@/components/app-layout"
+import { ArtifactCard } from "@/components/artifact-card"
+import { StoryCard } from "@/components/story-card"
+import { PersonActions } from "@/components/people/person-actions"
+import { PersonPortrait } from "@/components/people/person-portrait"
+import { Button } from "@/components/ui/button"
+import { getCurrentUser } from "@/lib/supabase/server"
+import { getPerson, getPersonArtifacts, getPersonStories } from "@/lib/actions/people"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { PERSON_ROLES, formatLifeDates } from "@/lib/utils/people"
+import { isUuid } from "@/lib/utils/routes"
+import type { PersonRole } from "@/lib/types/people"
+
+const ROLE_HEADINGS: Record<PersonRole, string> = {
+  original_owner: "Owned",
+  maker: "Made",
+  pictured: "Pictured in",
+  storyteller: "Told the story of",
+  mentioned: "Mentioned in",
+}
+
+export default async function PersonPage({ params }: { params: Promise<{ id: string }> }) {
+  const user = await getCurrentUser()
+  const { id } = await params
+
+  // RLS only returns people the viewer owns or can see linked to an artifact
+  const person = isUuid(id) ? await getPerson(id) : null
+
+  if (!person) {
+    notFound()
+  }
+
+  const [artifacts, stories] = await Promise.all([
+    getPersonArtifacts(person.id),
+    getPersonStories(person.id),
+  ])
+  const canEdit = !!user && (person.user_id === user.id || (await isCurrentUserAdmin()))
+  const lifeDates = formatLifeDates(person.birth_date, person.death_date)
+
+  return (
+    <AppLayout user={user}>
+      <div className="space-y-8 pb-20">
+        <Button variant="ghost" size="sm" asChild className="pl-0">
+          <Link href={canEdit ? "/people" : "/artifacts"}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {canEdit ? "All People" : "All Artifacts"}
+          </Link>
+        </Button>
+
+        <header className="flex flex-wrap items-center gap-4">
+          <PersonPortrait person={person} className="size-20 text-xl" />
+          <div className="min-w-0 flex-1 space-y-1">
+            <h1 className="text-3xl font-bold tracking-tight">{person.name}</h1>
+            {(person.relationship || lifeDates) && (
+              <p className="text-muted-foreground">
+                {[person.relationship, lifeDates].filter(Boolean).join(" · ")}
+              </p>
+            )}
+          </div>
+          {canEdit && <PersonActions person={person} />}
+        </header>
+
+        {artifacts.length === 0 && stories.length === 0 && (
+          <div className="rounded-lg border border-dashed p-12 text-center">
+            <p className="text-sm text-muted-foreground">
+              No artifacts you can see are linked to {person.name} yet.
+            </p>
+          </div>
+        )}
+
+        {PERSON_ROLES.map((role) => {
+          const roleArtifacts = artifacts.filter((artifact) => artifact.roles.includes(role))
+          if (roleArtifacts.length === 0) return null
+
+          return (
+            <section key={role} className="space-y-3">
+              <h2 className="text-sm font-medium text-muted-foreground">
+                {ROLE_HEADINGS[role]} {roleArtifacts.length}{" "}
+                {roleArtifacts.length === 1 ? "artifact" : "artifacts"}
+              </h2>
+              <div className="grid gap-2 grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6">
+                {roleArtifacts.map((artifact) => (
+                  <ArtifactCard key={artifact.id} artifact={artifact} />
+                ))}
+              </div>
+            </section>
+          )
+        })}
+
+        {stories.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-medium text-muted-foreground">Stories</h2>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {stories.map((story) => (
+                <StoryCard key={story.id} story={story} />
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
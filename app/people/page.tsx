@@ -0,0 +1,35 @@
+export const dynamic = "force-dynamic"
+
+import { redirect } from "next/navigation"
+import { Users } from "lucide-react"
+import { AppLayout } from "@/components/app-layout"
+import { PeopleDirectory } from "@/components/people/people-directory"
+import { getCurrentUser } from "@/lib/supabase/server"
+import { getPeople } from "@/lib/actions/people"
+
+export default async function PeoplePage() {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect("/login?returnTo=/people")
+  }
+
+  const { data: people = [], error } = await getPeople()
+
+  return (
+    <AppLayout user={user}>
+      <div className="space-y-6 pb-20">
+        <header className="flex items-center gap-3">
+          <Users className="h-6 w-6 text-muted-foreground" />
+          <h1 className="text-3xl font-bold tracking-tight">People</h1>
+        </header>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <PeopleDirectory people={people} />
+        )}
+      </div>
+    </AppLayout>
+  )
+}
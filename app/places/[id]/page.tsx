@@ -0,0 +1,79 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft, MapPin } from "lucide-react"
+import { AppLayout } from "@/components/app-layout"
+import { ArtifactCard } from "@/components/artifact-card"
+import { PlaceLocationEditor } from "@/components/places/place-location-editor"
+import { Button } from "@/components/ui/button"
+import { getCurrentUser } from "@/lib/supabase/server"
+import { getPlace, getPlaceArtifacts } from "@/lib/actions/places"
+import { formatCoordinates } from "@/lib/utils/map"
+import { isLocated, PLACE_LOCATION_SOURCE_LABELS } from "@/lib/utils/places"
+import { isUuid } from "@/lib/utils/routes"
+
+export default async function PlacePage({ params }: { params: Promise<{ id: string }> }) {
+  const user = await getCurrentUser()
+  const { id } = await params
+
+  // RLS only returns places the viewer owns or can see linked to an artifact
+  const place = isUuid(id) ? await getPlace(id) : null
+
+  if (!place) {
+    notFound()
+  }
+
+  const artifacts = await getPlaceArtifacts(place.id)
+
+  return (
+    <AppLayout user={user}>
+      <div className="space-y-6 pb-20">
+        <Button variant="ghost" size="sm" asChild className="pl-0">
+          <Link href="/artifacts">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All Artifacts
+          </Link>
+        </Button>
+
+        <header className="space-y-1">
+          <div className="flex items-center gap-3">
+            <MapPin className="h-6 w-6 text-muted-foreground" />
+            <h1 className="text-3xl font-bold tracking-tight">{place.name}</h1>
+          </div>
+          {isLocated(place) && (
+            <p className="text-sm text-muted-foreground">
+              {formatCoordinates(place)}
+              {place.location_source && ` · ${PLACE_LOCATION_SOURCE_LABELS[place.location_source]}`}
+            </p>
+          )}
+        </header>
+
+        {user?.id === place.user_id && (
+          <section className="max-w-2xl space-y-3">
+            <h2 className="text-sm font-medium text-muted-foreground">Location</h2>
+            <PlaceLocationEditor place={place} />
+          </section>
+        )}
+
+        {artifacts.length === 0 ? (
+          <div className="rounded-lg border border-dashed p-12 text-center">
+            <p className="text-sm text-muted-foreground">
+              No artifacts you can see are linked to {place.name} yet.
+            </p>
+          </div>
+        ) : (
+          <section className="space-y-3">
+            <h2 className="text-sm font-medium text-muted-foreground">
+              {artifacts.length}{" "}
+              {artifacts.length === 1 ? "artifact is" : "artifacts are"} linked to {place.name}
+            </h2>
+            <div className="grid gap-2 grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6">
+              {artifacts.map((artifact) => (
+                <ArtifactCard key={artifact.id} artifact={artifact} />
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
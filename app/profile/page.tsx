@@ -6,6 +6,8 @@ import { redirect } from "next/navigation"
 import { LogoutButton } from "@/components/logout-button"
 import { ProfileTabs } from "@/components/profile-tabs"
 import { getUserAuthProvider } from "@/lib/actions/profile"
+import { getMyAiUsage } from "@/lib/actions/ai-usage"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
 
 async function getUserProfile(userId: string) {
   const supabase = await createClient()
@@ -23,14 +25,16 @@ async function getUserProfile(userId: string) {
 async function getUserStats(userId: string) {
   const supabase = await createClient()
 
-  const [collectionsResult, artifactsResult] = await Promise.all([
+  const [collectionsResult, artifactsResult, familiesResult] = await Promise.all([
     supabase.from("collections").select("id", { count: "exact" }).eq("user_id", userId),
     supabase.from("artifacts").select("id", { count: "exact" }).eq("user_id", userId),
+    supabase.from("family_members").select("id", { count: "exact" }).eq("user_id", userId),
   ])
 
   return {
     collectionsCount: collectionsResult.count || 0,
     artifactsCount: artifactsResult.count || 0,
+    familiesCount: familiesResult.count || 0,
   }
 }
 
@@ -44,6 +48,7 @@ export default async function ProfilePage() {
   const profile = await getUserProfile(user.id)
   const stats = await getUserStats(user.id)
   const authProvider = await getUserAuthProvider()
+  const [{ data: aiUsage }, isAdmin] = await Promise.all([getMyAiUsage(), isCurrentUserAdmin()])
 
   const showPasswordUI = authProvider !== "google"
   const passwordMode: "change" | "set" = authProvider === "password" ? "change" : "set"
@@ -91,6 +96,8 @@ export default async function ProfilePage() {
           user={{ id: user.id, email: user.email }}
           profile={profile}
           stats={stats}
+          aiUsage={aiUsage ?? null}
+          isAdmin={isAdmin}
           showPasswordUI={showPasswordUI}
           passwordMode={passwordMode}
         />
@@ -0,0 +1,43 @@
+import { cookies } from "next/headers"
+import { NextResponse } from "next/server"
+import { resolveShareLink } from "@/lib/actions/share-links"
+import {
+  SHARE_GRANTS_COOKIE,
+  SHARE_GRANTS_COOKIE_OPTIONS,
+  addShareGrant,
+  findShareGrant,
+  getShareTargetPath,
+  parseShareGrants,
+  serializeShareGrants,
+} from "@/lib/utils/share-links"
+import { SHARE_LINK_REF, VIEW_REF_PARAM } from "@/lib/utils/view-analytics"
+
+/**
+ * Entry point for private share links
+ * Valid links store a grant cookie and redirect to the artifact/collection page;
+ * password-protected or unavailable links go to the unlock page
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const requestUrl = new URL(request.url)
+
+  const resolution = await resolveShareLink(token, { recordView: true })
+
+  if (resolution.status !== "ok" || !resolution.target_type || !resolution.target_id) {
+    return NextResponse.redirect(`${requestUrl.origin}/share/${token}/unlock`)
+  }
+
+  const cookieStore = await cookies()
+  const grants = parseShareGrants(cookieStore.get(SHARE_GRANTS_COOKIE)?.value)
+  const nextGrants = addShareGrant(grants, {
+    token,
+    unlockKey: findShareGrant(grants, token)?.unlockKey ?? null,
+  })
+
+  // Tag the redirect so the page view is attributed to the share link in analytics
+  const response = NextResponse.redirect(
+    `${requestUrl.origin}${getShareTargetPath(resolution.target_type, { id: resolution.target_id, slug: resolution.target_slug })}?${VIEW_REF_PARAM}=${SHARE_LINK_REF}`,
+  )
+  response.cookies.set(SHARE_GRANTS_COOKIE, serializeShareGrants(nextGrants), SHARE_GRANTS_COOKIE_OPTIONS)
+  return response
+}
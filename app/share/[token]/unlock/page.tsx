@@ -0,0 +1,46 @@
+import { redirect } from "next/navigation"
+import { AppLayout } from "@/components/app-layout"
+import { ShareLinkPasswordForm } from "@/components/share-link-password-form"
+import { getCurrentUser } from "@/lib/supabase/server"
+import { resolveShareLink } from "@/lib/actions/share-links"
+import { getSharePath } from "@/lib/utils/share-links"
+import type { ShareLinkStatus } from "@/lib/types/share-links"
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<ShareLinkStatus, "ok" | "password_required">, string> = {
+  expired: "This share link has expired. Ask the owner for a new one.",
+  revoked: "This share link has been turned off by its owner.",
+  not_found: "This share link doesn't exist. Check that you copied the whole link.",
+}
+
+export default async function ShareLinkUnlockPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const user = await getCurrentUser()
+
+  const { status } = await resolveShareLink(token)
+
+  // Already unlocked (or no password) - let the share route record the view and redirect
+  if (status === "ok") {
+    redirect(getSharePath(token))
+  }
+
+  return (
+    <AppLayout user={user}>
+      <div className="mx-auto flex max-w-sm flex-col gap-4 py-16">
+        {status === "password_required" ? (
+          <>
+            <div className="space-y-1 text-center">
+              <h1 className="text-xl font-semibold">Password required</h1>
+              <p className="text-sm text-muted-foreground">Enter the password you were given to view this link.</p>
+            </div>
+            <ShareLinkPasswordForm token={token} />
+          </>
+        ) : (
+          <div className="space-y-1 text-center">
+            <h1 className="text-xl font-semibold">Link unavailable</h1>
+            <p className="text-sm text-muted-foreground">{UNAVAILABLE_MESSAGES[status]}</p>
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
@@ -0,0 +1,94 @@
+import Link from "next/link"
+import { notFound, redirect } from "next/navigation"
+import { ArrowLeft, Lock, Pencil } from "lucide-react"
+import { AppLayout } from "@/components/app-layout"
+import { Author } from "@/components/author"
+import { StoryEditor } from "@/components/story-editor"
+import { StoryView } from "@/components/story-view"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { getCurrentUser } from "@/lib/supabase/server"
+import { getStoryBySlug } from "@/lib/actions/stories"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+
+export default async function StoryPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<{ mode?: string }>
+}) {
+  const user = await getCurrentUser()
+  const { slug } = await params
+  const { mode } = await searchParams
+
+  const isEditMode = mode === "edit"
+
+  if (isEditMode && !user) {
+    redirect(`/login?returnTo=/stories/${slug}`)
+  }
+
+  // RLS only returns public stories and the user's own
+  const story = await getStoryBySlug(slug)
+
+  if (!story) {
+    notFound()
+  }
+
+  const isAdmin = await isCurrentUserAdmin()
+  const canEdit = !!user && (story.user_id === user.id || isAdmin)
+
+  if (isEditMode && !canEdit) {
+    notFound()
+  }
+
+  return (
+    <AppLayout user={user}>
+      <article className="mx-auto max-w-3xl space-y-8 pb-20">
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="ghost" size="sm" asChild className="pl-0">
+            <Link href={isEditMode ? `/stories/${story.slug}` : "/stories"}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              {isEditMode ? "Back to story" : "All Stories"}
+            </Link>
+          </Button>
+          {canEdit && !isEditMode && (
+            <Button asChild variant="purple" size="sm">
+              <Link href={`/stories/${story.slug}?mode=edit`}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit Story
+              </Link>
+            </Button>
+          )}
+        </div>
+
+        {isEditMode ? (
+          <StoryEditor story={story} userId={user!.id} />
+        ) : (
+          <>
+            <header className="space-y-4">
+              {story.cover_image_url && (
+                <img src={story.cover_image_url} alt="" className="aspect-[16/9] w-full rounded-lg object-cover" />
+              )}
+              <div className="space-y-2">
+                <h1 className="text-3xl font-bold tracking-tight">{story.title}</h1>
+                {story.description && <p className="text-lg text-muted-foreground">{story.description}</p>}
+              </div>
+              <div className="flex items-center gap-3">
+                <Author userId={story.user_id} authorName={story.author_name} size="sm" />
+                {!story.is_public && (
+                  <Badge variant="secondary">
+                    <Lock className="mr-1 h-3 w-3" />
+                    Private
+                  </Badge>
+                )}
+              </div>
+            </header>
+
+            <StoryView blocks={story.blocks} />
+          </>
+        )}
+      </article>
+    </AppLayout>
+  )
+}
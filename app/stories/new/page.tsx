@@ -0,0 +1,39 @@
+export const dynamic = "force-dynamic"
+
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { AppLayout } from "@/components/app-layout"
+import { NewStoryForm } from "@/components/new-story-form"
+import { Button } from "@/components/ui/button"
+import { getCurrentUser } from "@/lib/supabase/server"
+
+export default async function NewStoryPage() {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect("/login?returnTo=/stories/new")
+  }
+
+  return (
+    <AppLayout user={user}>
+      <div className="mx-auto max-w-2xl space-y-8 pb-20">
+        <Button variant="ghost" size="sm" asChild className="pl-0">
+          <Link href="/stories">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">New Story</h1>
+          <p className="mt-1 text-muted-foreground">
+            Give your story a title - you&apos;ll add text, artifacts, photos and audio next
+          </p>
+        </div>
+
+        <NewStoryForm />
+      </div>
+    </AppLayout>
+  )
+}
@@ -1,11 +1,20 @@
+import Link from "next/link"
+import { Plus } from "lucide-react"
 import { AppLayout } from "@/components/app-layout"
 import { getCurrentUser } from "@/lib/supabase/server"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { Button } from "@/components/ui/button"
+import { StoryCard } from "@/components/story-card"
+import { getStories } from "@/lib/actions/stories"
 
 export const dynamic = 'force-dynamic'
 
 export default async function StoriesPage() {
   const user = await getCurrentUser()
+  const { data: stories = [], error } = await getStories()
+
+  const myStories = stories.filter((story) => story.user_id === user?.id)
+  const communityStories = stories.filter((story) => story.user_id !== user?.id && story.is_public)
 
   return (
     <AppLayout user={user}>
@@ -45,40 +54,79 @@ export default async function StoriesPage() {
           </h1>
         </div>
 
-        <div className="flex min-h-[calc(100dvh-20rem)] items-center justify-center lg:min-h-[calc(100dvh-16rem)]">
-          <div className="flex flex-col items-center gap-4">
-            <div className="flex h-16 w-16 items-center justify-center rounded-2xl bg-gradient-to-br from-primary to-chart-2 text-primary-foreground shadow-md">
-              <svg
-                width="40"
-                height="44"
-                viewBox="0 0 80 90"
-                fill="none"
-                xmlns="http://www.w3.org/2000/svg"
-                className="shrink-0"
-              >
-                <path d="M39.6001 90L52.1001 82.7L39.6001 75.5L27.1001 82.7L39.6001 90Z" fill="currentColor" />
-                <path d="M2.0001 68.3L14.6001 75.5L27.1001 68.3L14.6001 61L2.0001 68.3Z" fill="currentColor" />
-                <path d="M77.2002 68.3L64.6002 61L52.1002 68.3L64.6002 75.5L77.2002 68.3Z" fill="currentColor" />
-                <path d="M39.6001 61L52.1001 53.8L39.6001 46.6L27.1001 53.8L39.6001 61Z" fill="currentColor" />
-                <path d="M39.6001 75.5L52.1001 68.3L39.6001 61L27.1001 68.3L39.6001 75.5Z" fill="currentColor" />
-                <path d="M37.6001 43.3L37.6001 28.9L25.1001 36.1L25.1001 50.5L37.6001 43.3Z" fill="currentColor" />
-                <path d="M12.6001 43.3L0.0001 50.5L0 65L12.6001 57.8L12.6001 43.3Z" fill="currentColor" />
-                <path d="M37.6001 0L25.1001 7.2L25.1001 21.6L37.6001 14.4L37.6001 0Z" fill="currentColor" />
-                <path d="M0 21.6L0 36.1L12.6001 28.9L12.6001 14.4L0 21.6Z" fill="currentColor" />
-                <path d="M25.1001 21.6L12.6001 28.9L12.6001 43.3L25.1001 36.1L25.1001 21.6Z" fill="currentColor" />
-                <path d="M41.6001 43.3L54.1001 50.5L54.1001 36.1L41.6001 28.9L41.6001 43.3Z" fill="currentColor" />
-                <path d="M79.2002 65L79.2002 50.5L66.6002 43.3L66.6002 57.8L79.2002 65Z" fill="currentColor" />
-                <path d="M54.1001 7.2L41.6001 0L41.6001 14.4L54.1001 21.6L54.1001 7.2Z" fill="currentColor" />
-                <path d="M79.2002 21.6L66.6002 14.4L66.6002 28.9L79.2002 36.1L79.2002 21.6Z" fill="currentColor" />
-                <path d="M66.6001 43.3L66.6001 28.9L54.1001 21.6L54.1001 36.1L66.6001 43.3Z" fill="currentColor" />
-              </svg>
+        {user && (
+          <div className="flex justify-end py-4">
+            <Button asChild>
+              <Link href="/stories/new">
+                <Plus className="mr-2 h-4 w-4" />
+                New Story
+              </Link>
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {myStories.length > 0 && (
+          <section className="space-y-3 pb-8">
+            <h2 className="text-lg font-semibold">My Stories</h2>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {myStories.map((story) => (
+                <StoryCard key={story.id} story={story} />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {communityStories.length > 0 && (
+          <section className="space-y-3 pb-8">
+            <h2 className="text-lg font-semibold">Community Stories</h2>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {communityStories.map((story) => (
+                <StoryCard key={story.id} story={story} showAuthor />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {stories.length === 0 && !error && (
+          <div className="flex min-h-[calc(100dvh-20rem)] items-center justify-center lg:min-h-[calc(100dvh-16rem)]">
+            <div className="flex flex-col items-center gap-4">
+              <div className="flex h-16 w-16 items-center justify-center rounded-2xl bg-gradient-to-br from-primary to-chart-2 text-primary-foreground shadow-md">
+                <svg
+                  width="40"
+                  height="44"
+                  viewBox="0 0 80 90"
+                  fill="none"
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="shrink-0"
+                >
+                  <path d="M39.6001 90L52.1001 82.7L39.6001 75.5L27.1001 82.7L39.6001 90Z" fill="currentColor" />
+                  <path d="M2.0001 68.3L14.6001 75.5L27.1001 68.3L14.6001 61L2.0001 68.3Z" fill="currentColor" />
+                  <path d="M77.2002 68.3L64.6002 61L52.1002 68.3L64.6002 75.5L77.2002 68.3Z" fill="currentColor" />
+                  <path d="M39.6001 61L52.1001 53.8L39.6001 46.6L27.1001 53.8L39.6001 61Z" fill="currentColor" />
+                  <path d="M39.6001 75.5L52.1001 68.3L39.6001 61L27.1001 68.3L39.6001 75.5Z" fill="currentColor" />
+                  <path d="M37.6001 43.3L37.6001 28.9L25.1001 36.1L25.1001 50.5L37.6001 43.3Z" fill="currentColor" />
+                  <path d="M12.6001 43.3L0.0001 50.5L0 65L12.6001 57.8L12.6001 43.3Z" fill="currentColor" />
+                  <path d="M37.6001 0L25.1001 7.2L25.1001 21.6L37.6001 14.4L37.6001 0Z" fill="currentColor" />
+                  <path d="M0 21.6L0 36.1L12.6001 28.9L12.6001 14.4L0 21.6Z" fill="currentColor" />
+                  <path d="M25.1001 21.6L12.6001 28.9L12.6001 43.3L25.1001 36.1L25.1001 21.6Z" fill="currentColor" />
+                  <path d="M41.6001 43.3L54.1001 50.5L54.1001 36.1L41.6001 28.9L41.6001 43.3Z" fill="currentColor" />
+                  <path d="M79.2002 65L79.2002 50.5L66.6002 43.3L66.6002 57.8L79.2002 65Z" fill="currentColor" />
+                  <path d="M54.1001 7.2L41.6001 0L41.6001 14.4L54.1001 21.6L54.1001 7.2Z" fill="currentColor" />
+                  <path d="M79.2002 21.6L66.6002 14.4L66.6002 28.9L79.2002 36.1L79.2002 21.6Z" fill="currentColor" />
+                  <path d="M66.6001 43.3L66.6001 28.9L54.1001 21.6L54.1001 36.1L66.6001 43.3Z" fill="currentColor" />
+                </svg>
+              </div>
+              <span className="text-2xl font-semibold">Heirlooms</span>
+              <p className="mt-4 text-muted-foreground text-center max-w-md">
+                {user
+                  ? "Weave your artifacts, photos and recordings into a story for the family."
+                  : "No stories have been shared yet."}
+              </p>
             </div>
-            <span className="text-2xl font-semibold">Heirlooms</span>
-            <p className="mt-4 text-muted-foreground text-center max-w-md">
-              Your stories are being carefully crafted. Something special is on the way.
-            </p>
           </div>
-        </div>
+        )}
       </div>
     </AppLayout>
   )
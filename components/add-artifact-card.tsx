@@ -1,6 +1,7 @@
 import Link from "next/link"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
 import { Plus } from "lucide-react"
+import { getCollectionPath } from "@/lib/utils/routes"
 
 interface AddArtifactCardProps {
   collectionId: string
@@ -39,7 +40,7 @@ function HeirloomsShape({ className = "h-12 w-12" }: { className?: string }) {
 export function AddArtifactCard({ collectionId, collectionSlug, style }: AddArtifactCardProps) {
   return (
     <Link
-      href={`/artifacts/new?collectionId=${collectionId}&returnTo=/collections/${collectionSlug}`}
+      href={`/artifacts/new?collectionId=${collectionId}&returnTo=${getCollectionPath({ id: collectionId, slug: collectionSlug })}`}
       style={style}
     >
       <Card className="group overflow-hidden border-2 border-dashed border-muted-foreground/30 p-0 transition-all hover:border-primary hover:shadow-lg rounded-md animate-fade-in flex flex-col h-full bg-transparent hover:bg-muted/30">
@@ -0,0 +1,82 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { setUserAiQuota } from "@/lib/actions/ai-usage"
+import type { AiQuota } from "@/lib/types/ai-usage"
+
+function toLimit(value: string): number | null {
+  return value.trim() === "" ? null : Math.floor(Number(value))
+}
+
+interface AiQuotaFormProps {
+  userId: string
+  quota: AiQuota
+}
+
+/**
+ * An admin's per-user override of the monthly AI quota
+ * Leaving both fields empty goes back to the defaults.
+ */
+export function AiQuotaForm({ userId, quota }: AiQuotaFormProps) {
+  const router = useRouter()
+  const [tokens, setTokens] = useState(quota.custom ? String(quota.monthly_tokens) : "")
+  const [audioMinutes, setAudioMinutes] = useState(
+    quota.custom ? String(Math.round(quota.monthly_audio_seconds / 60)) : "",
+  )
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    const result = await setUserAiQuota({
+      user_id: userId,
+      monthly_tokens: toLimit(tokens),
+      monthly_audio_minutes: toLimit(audioMinutes),
+    })
+
+    if (result.success) {
+      toast.success("AI quota updated")
+      router.refresh()
+    } else {
+      const fieldError = result.fieldErrors?.monthly_tokens?.[0] || result.fieldErrors?.monthly_audio_minutes?.[0]
+      toast.error(fieldError || result.error || "Failed to update AI quota")
+    }
+
+    setIsSaving(false)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2">
+      <Input
+        type="number"
+        min={0}
+        value={tokens}
+        onChange={(e) => setTokens(e.target.value)}
+        placeholder={quota.custom ? "Default" : String(quota.monthly_tokens)}
+        aria-label="Monthly tokens"
+        className="h-8 w-32"
+      />
+      <span className="text-xs text-muted-foreground">tokens</span>
+      <Input
+        type="number"
+        min={0}
+        value={audioMinutes}
+        onChange={(e) => setAudioMinutes(e.target.value)}
+        placeholder={quota.custom ? "Default" : String(Math.round(quota.monthly_audio_seconds / 60))}
+        aria-label="Monthly audio minutes"
+        className="h-8 w-24"
+      />
+      <span className="text-xs text-muted-foreground">audio min</span>
+      <Button type="submit" size="sm" variant="outline" disabled={isSaving}>
+        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,97 @@
+import Link from "next/link"
+import { Sparkles } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import type { AiUsageSummary } from "@/lib/types/ai-usage"
+import { AI_CAPABILITY_LABELS, formatAudioMinutes, formatCostUsd } from "@/lib/utils/ai-usage"
+
+function percentOf(used: number, limit: number) {
+  return limit > 0 ? Math.min(100, (used / limit) * 100) : 100
+}
+
+interface AiUsageCardProps {
+  usage: AiUsageSummary | null
+  isAdmin?: boolean
+}
+
+/**
+ * The user's AI usage this month against their quota (/profile)
+ */
+export function AiUsageCard({ usage, isAdmin }: AiUsageCardProps) {
+  const resets = usage
+    ? new Date(usage.resets_at).toLocaleDateString("en-US", { month: "long", day: "numeric", timeZone: "UTC" })
+    : null
+  const tokens = usage ? usage.totals.input_tokens + usage.totals.output_tokens : 0
+
+  return (
+    <Card className="animate-fade-in">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          <CardTitle>AI Usage</CardTitle>
+        </div>
+        <CardDescription>
+          {resets
+            ? `Captions, transcripts and summaries you've run this month. Your allowance resets on ${resets}.`
+            : "Captions, transcripts and summaries you've run this month."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!usage ? (
+          <p className="text-sm text-muted-foreground italic">AI usage isn&apos;t available right now.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">Tokens</span>
+                <span className="tabular-nums text-muted-foreground">
+                  {tokens.toLocaleString("en-US")} of {usage.quota.monthly_tokens.toLocaleString("en-US")}
+                </span>
+              </div>
+              <Progress value={percentOf(tokens, usage.quota.monthly_tokens)} />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">Audio transcription</span>
+                <span className="tabular-nums text-muted-foreground">
+                  {formatAudioMinutes(usage.totals.audio_seconds)} of{" "}
+                  {formatAudioMinutes(usage.quota.monthly_audio_seconds)}
+                </span>
+              </div>
+              <Progress value={percentOf(usage.totals.audio_seconds, usage.quota.monthly_audio_seconds)} />
+            </div>
+
+            {usage.byCapability.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">This month</h3>
+                <ul className="space-y-1">
+                  {usage.byCapability.map((row) => (
+                    <li key={row.capability} className="flex items-center justify-between gap-4 text-sm">
+                      <span>{AI_CAPABILITY_LABELS[row.capability]}</span>
+                      <span className="shrink-0 tabular-nums text-muted-foreground">
+                        {row.calls} {row.calls === 1 ? "call" : "calls"}
+                        {row.capability === "transcription"
+                          ? ` · ${formatAudioMinutes(row.audio_seconds)}`
+                          : ` · ${(row.input_tokens + row.output_tokens).toLocaleString("en-US")} tokens`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-muted-foreground">
+                  Estimated cost this month: {formatCostUsd(usage.totals.cost_usd)}
+                </p>
+              </div>
+            )}
+          </>
+        )}
+
+        {isAdmin && (
+          <Link href="/admin/ai-usage" className="inline-block text-sm text-primary hover:underline">
+            View the AI cost report for everyone
+          </Link>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { ChevronDown, Loader2, Send } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { SectionTitle } from "@/components/ui/section-title"
+import { HelpText } from "@/components/ui/help-text"
+import { fetchJson } from "@/lib/fetchJson"
+import type { ArchiveChatAnswer, ArchiveChatMessage, ArchiveChatSource } from "@/lib/types/archive-chat"
+import { MAX_HISTORY_MESSAGES, MAX_QUESTION_LENGTH } from "@/lib/utils/archive-chat"
+import { getArtifactPath } from "@/lib/utils/routes"
+
+interface ChatTurn extends ArchiveChatMessage {
+  sources?: ArchiveChatSource[]
+}
+
+interface ArchiveChatProps {
+  collectionId: string
+}
+
+/**
+ * Ask questions of a collection ("Which items came from Naples?") and get answers that cite
+ * the artifacts they came from
+ */
+export function ArchiveChat({ collectionId }: ArchiveChatProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [question, setQuestion] = useState("")
+  const [turns, setTurns] = useState<ChatTurn[]>([])
+  const [isAsking, setIsAsking] = useState(false)
+
+  async function handleAsk(e: React.FormEvent) {
+    e.preventDefault()
+    const asked = question.trim()
+    if (!asked || isAsking) return
+
+    setIsAsking(true)
+    setTurns((prev) => [...prev, { role: "user", content: asked }])
+    setQuestion("")
+
+    try {
+      const result = await fetchJson<ArchiveChatAnswer>("/api/ask", {
+        body: {
+          collectionId,
+          question: asked,
+          history: turns.slice(-MAX_HISTORY_MESSAGES).map(({ role, content }) => ({ role, content })),
+        },
+      })
+      setTurns((prev) => [...prev, { role: "assistant", content: result.answer, sources: result.sources }])
+    } catch (error) {
+      // Put the question back so it can be asked again
+      setTurns((prev) => prev.slice(0, -1))
+      setQuestion(asked)
+      toast.error(error instanceof Error ? error.message : "Failed to answer question")
+    } finally {
+      setIsAsking(false)
+    }
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <div className="rounded-md border border-input bg-transparent dark:bg-input/30 shadow-xs">
+        <CollapsibleTrigger className="flex w-full items-center justify-between px-3 py-2 hover:opacity-80 transition-opacity">
+          <SectionTitle className="pl-0">Ask the Archive</SectionTitle>
+          <ChevronDown
+            className={`h-4 w-4 text-muted-foreground opacity-50 transition-transform ${isOpen ? "rotate-180" : ""}`}
+          />
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="px-3 pb-3 space-y-4">
+            {turns.length === 0 && (
+              <HelpText className="pl-0">
+                Ask about the items in this collection, like &ldquo;Which items came from Naples?&rdquo; Answers
+                only use what&apos;s recorded here and link to the artifacts they come from.
+              </HelpText>
+            )}
+
+            {turns.length > 0 && (
+              <ol className="space-y-4">
+                {turns.map((turn, index) => (
+                  <li key={index} className={turn.role === "user" ? "flex justify-end" : "space-y-2"}>
+                    {turn.role === "user" ? (
+                      <p className="max-w-[85%] rounded-lg bg-muted px-3 py-2 text-sm">{turn.content}</p>
+                    ) : (
+                      <>
+                        <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">{turn.content}</p>
+                        {turn.sources && turn.sources.length > 0 && (
+                          <ul className="flex flex-wrap gap-2">
+                            {turn.sources.map((source) => (
+                              <li key={source.id}>
+                                <Link
+                                  href={getArtifactPath(source)}
+                                  className="inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-xs text-purple-700 hover:bg-purple-50 dark:text-purple-300 dark:hover:bg-purple-950"
+                                >
+                                  <span className="font-semibold">[{source.number}]</span>
+                                  {source.title}
+                                </Link>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </>
+                    )}
+                  </li>
+                ))}
+                {isAsking && (
+                  <li className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Looking through the collection...
+                  </li>
+                )}
+              </ol>
+            )}
+
+            <form onSubmit={handleAsk} className="flex items-center gap-2">
+              <Input
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                placeholder="What did Uncle Joe say about the clock?"
+                maxLength={MAX_QUESTION_LENGTH}
+                disabled={isAsking}
+                aria-label="Question"
+              />
+              <Button type="submit" size="icon" disabled={isAsking || !question.trim()} aria-label="Ask">
+                {isAsking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              </Button>
+            </form>
+          </div>
+        </CollapsibleContent>
+      </div>
+    </Collapsible>
+  )
+}
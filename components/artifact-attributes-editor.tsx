@@ -0,0 +1,166 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ArtifactAttributes, AttributeDefinition, AttributeValue } from "@/lib/types/artifact-types"
+import { isMeasurementValue } from "@/lib/utils/artifact-attributes"
+
+// Radix Select doesn't allow an empty-string item value, so "not set" uses a sentinel
+const UNSET_OPTION = "__unset__"
+
+interface ArtifactAttributesEditorProps {
+  definitions: AttributeDefinition[]
+  values: ArtifactAttributes
+  onChange: (values: ArtifactAttributes) => void
+  errors?: Record<string, string | undefined>
+}
+
+/**
+ * Typed inputs for an artifact type's attribute schema
+ * Renders nothing but a hint when the selected type has no attributes
+ */
+export function ArtifactAttributesEditor({ definitions, values, onChange, errors }: ArtifactAttributesEditorProps) {
+  if (definitions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground italic">
+        Select a type to add details like make, model, measurements, materials, and condition.
+      </p>
+    )
+  }
+
+  const setValue = (key: string, value: AttributeValue | undefined) => {
+    const next = { ...values }
+    if (value === undefined) {
+      delete next[key]
+    } else {
+      next[key] = value
+    }
+    onChange(next)
+  }
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {definitions.map((def) => {
+        const inputId = `attribute-${def.key}`
+        const value = values[def.key]
+        const error = errors?.[def.key]
+
+        return (
+          <div key={def.key} className="space-y-1.5">
+            <Label htmlFor={inputId} className="text-xs text-muted-foreground">
+              {def.label}
+              {def.required && <span className="text-destructive">*</span>}
+            </Label>
+
+            {def.kind === "number" && (
+              <NumberWithUnitInput
+                id={inputId}
+                definition={def}
+                value={isMeasurementValue(value) ? value : undefined}
+                onChange={(next) => setValue(def.key, next)}
+              />
+            )}
+
+            {def.kind === "enum" && (
+              <Select
+                value={typeof value === "string" && value ? value : UNSET_OPTION}
+                onValueChange={(next) => setValue(def.key, next === UNSET_OPTION ? undefined : next)}
+              >
+                <SelectTrigger id={inputId} className="w-full h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNSET_OPTION}>
+                    <span className="text-muted-foreground">Not set</span>
+                  </SelectItem>
+                  {(def.options || []).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {def.kind === "date" && (
+              <Input
+                id={inputId}
+                type="date"
+                value={typeof value === "string" ? value : ""}
+                onChange={(e) => setValue(def.key, e.target.value || undefined)}
+              />
+            )}
+
+            {def.kind === "text" && (
+              <Input
+                id={inputId}
+                type="text"
+                value={typeof value === "string" ? value : ""}
+                placeholder={def.placeholder}
+                maxLength={500}
+                onChange={(e) => setValue(def.key, e.target.value || undefined)}
+              />
+            )}
+
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+interface NumberWithUnitInputProps {
+  id: string
+  definition: AttributeDefinition
+  value: { value: number; unit: string | null } | undefined
+  onChange: (value: { value: number; unit: string | null } | undefined) => void
+}
+
+function NumberWithUnitInput({ id, definition, value, onChange }: NumberWithUnitInputProps) {
+  const units = definition.units || []
+  // Remember the chosen unit even before a number is entered
+  const [pendingUnit, setPendingUnit] = useState<string | null>(units[0] ?? null)
+  const unit = value?.unit ?? pendingUnit
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        id={id}
+        type="number"
+        inputMode="decimal"
+        step="any"
+        value={value ? String(value.value) : ""}
+        placeholder={definition.placeholder}
+        onChange={(e) => {
+          const parsed = e.target.value === "" ? NaN : Number(e.target.value)
+          onChange(Number.isFinite(parsed) ? { value: parsed, unit } : undefined)
+        }}
+      />
+      {units.length > 1 ? (
+        <Select
+          value={unit ?? undefined}
+          onValueChange={(next) => {
+            setPendingUnit(next)
+            if (value) onChange({ ...value, unit: next })
+          }}
+        >
+          <SelectTrigger className="w-24 h-9" aria-label={`${definition.label} unit`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {units.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        units.length === 1 && <span className="text-sm text-muted-foreground shrink-0">{units[0]}</span>
+      )}
+    </div>
+  )
+}
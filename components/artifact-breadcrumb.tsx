@@ -14,6 +14,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
+import { getCollectionPath } from "@/lib/utils/routes"
 
 interface ArtifactBreadcrumbProps {
   collectionId?: string
@@ -47,12 +48,7 @@ export function ArtifactBreadcrumb({
   const collectionsLabel = isLoggedIn ? "My Collections" : "Collections"
   const collectionsHref = isLoggedIn ? "/collections?tab=mine" : "/collections?tab=all"
 
-  // Collection route is /collections/[slug] - use slug if available, fall back to ID
-  const collectionHref = collectionSlug
-    ? `/collections/${collectionSlug}`
-    : collectionId
-      ? `/collections/${collectionId}`
-      : null
+  const collectionHref = collectionId ? getCollectionPath({ id: collectionId, slug: collectionSlug }) : null
 
   const handleNavigationClick = (e: React.MouseEvent, href: string) => {
     if (!isEditMode) {
@@ -4,6 +4,7 @@ import { HeirloomsIcon } from "@/components/heirlooms-icon"
 import { getSmallThumbnailUrl } from "@/lib/cloudinary"
 import MediaImage from "@/components/media-image"
 import { ArtifactTypeBadge } from "@/components/artifact-type-badge"
+import { getArtifactPath } from "@/lib/utils/routes"
 
 interface ArtifactCardCompactProps {
   artifact: {
@@ -38,7 +39,7 @@ export function ArtifactCardCompact({ artifact, showAuthor = false, authorName,
   const thumbnailUrl = artifact.thumbnail_url ? getSmallThumbnailUrl(artifact.thumbnail_url, artifact.media_derivatives) : null
 
   return (
-    <Link href={`/artifacts/${artifact.slug}`} data-testid="artifact-link" style={style}>
+    <Link href={getArtifactPath(artifact)} data-testid="artifact-link" style={style}>
       <Card className="group overflow-hidden border p-0 transition-all hover:shadow-md rounded-md flex flex-col">
         <div className="relative aspect-square overflow-hidden bg-muted">
           {thumbnailUrl ? (
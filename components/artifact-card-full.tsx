@@ -6,6 +6,7 @@ import { Author } from "@/components/author"
 import { getThumbnailUrl } from "@/lib/cloudinary"
 import MediaImage from "@/components/media-image"
 import { ArtifactTypeBadge } from "@/components/artifact-type-badge"
+import { getArtifactPath } from "@/lib/utils/routes"
 
 interface ArtifactCardFullProps {
   artifact: {
@@ -38,7 +39,7 @@ export function ArtifactCardFull({ artifact, showAuthor = false, authorName }: A
   const thumbnailUrl = artifact.thumbnail_url ? getThumbnailUrl(artifact.thumbnail_url, artifact.media_derivatives) : null
 
   return (
-    <Link href={`/artifacts/${artifact.slug}`} data-testid="artifact-link">
+    <Link href={getArtifactPath(artifact)} data-testid="artifact-link">
       <Card className="group overflow-hidden border p-0 transition-all hover:shadow-lg flex flex-col">
         <div className="relative aspect-square overflow-hidden bg-muted">
           {thumbnailUrl ? (
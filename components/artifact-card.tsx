@@ -5,6 +5,9 @@ import { Author } from "@/components/author"
 import { getThumbnailUrl } from "@/lib/cloudinary"
 import MediaImage from "@/components/media-image"
 import { ArtifactTypeBadge } from "@/components/artifact-type-badge"
+import { getArtifactPath } from "@/lib/utils/routes"
+import { SearchSnippet } from "@/components/search-snippet"
+import type { SearchMatch } from "@/lib/types/search"
 
 interface ArtifactCardProps {
   artifact: {
@@ -27,6 +30,7 @@ interface ArtifactCardProps {
       id: string
       title: string
     } | null
+    search_match?: SearchMatch | null
   }
   showAuthor?: boolean
   authorName?: string | null
@@ -38,7 +42,7 @@ export function ArtifactCard({ artifact, showAuthor = false, authorName, style }
   const thumbnailUrl = artifact.thumbnail_url ? getThumbnailUrl(artifact.thumbnail_url, artifact.media_derivatives) : null
 
   return (
-    <Link href={`/artifacts/${artifact.slug}`} data-testid="artifact-link" style={style}>
+    <Link href={getArtifactPath(artifact)} data-testid="artifact-link" style={style}>
       <Card className="group overflow-hidden border p-0 transition-all hover:shadow-lg rounded-md animate-fade-in flex flex-col h-full">
         <div className="relative aspect-square overflow-hidden bg-muted">
           {thumbnailUrl ? (
@@ -69,6 +73,7 @@ export function ArtifactCard({ artifact, showAuthor = false, authorName, style }
         </CardHeader>
 
         <CardContent className="pt-0 pb-3 px-2 flex-none">
+          {artifact.search_match && <SearchSnippet match={artifact.search_match} className="mb-1.5" />}
           {showAuthor && artifact.user_id && (
             <div className="flex justify-end overflow-hidden">
               <Author userId={artifact.user_id} authorName={authorName} size="sm" />
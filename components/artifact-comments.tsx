@@ -0,0 +1,235 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { toast } from "sonner"
+import { MessageSquare, Reply, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { AudioPlayer } from "@/components/audio-player"
+import { CommentForm } from "@/components/comment-form"
+import { deleteComment } from "@/lib/actions/comments"
+import type { ArtifactComment, ArtifactCommentThread } from "@/lib/types/comments"
+import { MAX_COMMENT_INDENT_DEPTH, buildCommentThreads, countVisibleComments } from "@/lib/utils/comments"
+import { getArtifactPath } from "@/lib/utils/routes"
+
+interface ArtifactCommentsProps {
+  artifactId: string
+  artifactSlug: string
+  initialComments: ArtifactComment[]
+  currentUserId?: string | null
+  /** Artifact owner or admin - can remove anyone's comment */
+  canModerate: boolean
+}
+
+/**
+ * Threaded comments ("memories") under an artifact
+ */
+export function ArtifactComments({
+  artifactId,
+  artifactSlug,
+  initialComments,
+  currentUserId,
+  canModerate,
+}: ArtifactCommentsProps) {
+  const [comments, setComments] = useState(initialComments)
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<ArtifactComment | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const threads = useMemo(() => buildCommentThreads(comments), [comments])
+  const visibleCount = countVisibleComments(comments)
+
+  const handlePosted = (comment: ArtifactComment) => {
+    setComments((prev) => [...prev, comment])
+    setReplyingTo(null)
+  }
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return
+
+    setIsDeleting(true)
+    const result = await deleteComment(pendingDelete.id)
+    setIsDeleting(false)
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete comment")
+      return
+    }
+
+    // Mirror the server: comments with replies stay as a placeholder
+    const target = pendingDelete
+    setComments((prev) => {
+      const hasReplies = prev.some((comment) => comment.parent_id === target.id)
+      if (hasReplies) {
+        return prev.map((comment) =>
+          comment.id === target.id
+            ? {
+                ...comment,
+                body: null,
+                photo_url: null,
+                audio_url: null,
+                audio_transcript: null,
+                deleted_at: new Date().toISOString(),
+              }
+            : comment,
+        )
+      }
+      return prev.filter((comment) => comment.id !== target.id)
+    })
+    setPendingDelete(null)
+  }
+
+  const renderThread = (thread: ArtifactCommentThread, depth: number) => {
+    const isRemoved = !!thread.deleted_at
+    const canDelete = !isRemoved && !!currentUserId && (canModerate || thread.user_id === currentUserId)
+
+    return (
+      <li key={thread.id} className="space-y-3">
+        <div className="space-y-2">
+          <div className="flex items-baseline gap-2 text-sm">
+            <span className="font-medium">{isRemoved ? "Removed" : thread.author_name || "Family member"}</span>
+            <span className="text-xs text-muted-foreground">
+              {new Date(thread.created_at).toLocaleDateString("en-US", {
+                year: "numeric",
+                month: "short",
+                day: "numeric",
+              })}
+            </span>
+          </div>
+
+          {isRemoved ? (
+            <p className="text-sm italic text-muted-foreground">This comment was removed.</p>
+          ) : (
+            <>
+              {thread.body && <p className="whitespace-pre-wrap text-sm">{thread.body}</p>}
+              {thread.photo_url && (
+                <a href={thread.photo_url} target="_blank" rel="noopener noreferrer" className="block w-fit">
+                  <img
+                    src={thread.photo_url}
+                    alt={`Photo shared by ${thread.author_name || "a family member"}`}
+                    className="max-h-64 rounded-md border object-contain"
+                  />
+                </a>
+              )}
+              {thread.audio_url && (
+                <div className="space-y-1">
+                  <AudioPlayer src={thread.audio_url} title="Voice note" />
+                  {thread.audio_transcript && (
+                    <p className="text-xs italic text-muted-foreground">&ldquo;{thread.audio_transcript}&rdquo;</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {!isRemoved && (
+            <div className="flex items-center gap-1">
+              {currentUserId && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => setReplyingTo(replyingTo === thread.id ? null : thread.id)}
+                >
+                  <Reply className="mr-1 h-3 w-3" />
+                  Reply
+                </Button>
+              )}
+              {canDelete && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-muted-foreground"
+                  onClick={() => setPendingDelete(thread)}
+                >
+                  <Trash2 className="mr-1 h-3 w-3" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          )}
+
+          {replyingTo === thread.id && currentUserId && (
+            <CommentForm
+              artifactId={artifactId}
+              userId={currentUserId}
+              parentId={thread.id}
+              placeholder={`Reply to ${thread.author_name || "this comment"}…`}
+              submitLabel="Reply"
+              autoFocus
+              onPosted={handlePosted}
+              onCancel={() => setReplyingTo(null)}
+            />
+          )}
+        </div>
+
+        {thread.replies.length > 0 && (
+          <ul className={depth < MAX_COMMENT_INDENT_DEPTH ? "space-y-4 border-l pl-4" : "space-y-4"}>
+            {thread.replies.map((reply) => renderThread(reply, depth + 1))}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <section id="comments" className="space-y-4 scroll-mt-24">
+      <h2 className="flex items-center gap-2 text-lg font-semibold">
+        <MessageSquare className="h-5 w-5" />
+        Memories &amp; Comments
+        {visibleCount > 0 && <span className="text-sm font-normal text-muted-foreground">({visibleCount})</span>}
+      </h2>
+
+      {currentUserId ? (
+        <CommentForm artifactId={artifactId} userId={currentUserId} onPosted={handlePosted} />
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          <Link href={`/login?returnTo=${getArtifactPath({ id: artifactId, slug: artifactSlug })}`} className="underline">
+            Sign in
+          </Link>{" "}
+          to share a memory about this heirloom.
+        </p>
+      )}
+
+      {threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No memories shared yet.</p>
+      ) : (
+        <ul className="space-y-6">{threads.map((thread) => renderThread(thread, 0))}</ul>
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The comment and any photo or voice note attached to it will be removed. Replies stay in the thread.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleDelete()
+              }}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </section>
+  )
+}
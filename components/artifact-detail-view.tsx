@@ -40,12 +40,21 @@ import {
   LayoutGrid,
 } from "lucide-react"
 import { updateArtifact, deleteArtifact } from "@/lib/actions/artifacts"
+import { saveProvenanceEvents } from "@/lib/actions/provenance"
+import { saveArtifactPeople } from "@/lib/actions/people"
+import type { ProvenanceEvent, ProvenanceEventInput } from "@/lib/types/provenance"
+import type { ArtifactPersonLink, LinkedPerson, Person } from "@/lib/types/people"
+import type { Place } from "@/lib/types/places"
+import { getArtifactSuggestions } from "@/lib/utils/suggestions"
+import { getPersonLinks } from "@/lib/utils/people"
+import type { ArtifactComment } from "@/lib/types/comments"
 import { permanentlyDeleteMedia } from "@/lib/actions/media"
 import { cleanupPendingUploads } from "@/lib/actions/pending-uploads"
 import { CollectionPicker } from "@/components/collection-picker"
 import { useRouter } from "next/navigation"
 import { isImageUrl, isVideoUrl, isAudioUrl } from "@/lib/media"
 import { GenerateImageCaptionButton } from "@/components/artifact/GenerateImageCaptionButton"
+import { DocumentTranscriptions } from "@/components/artifact/DocumentTranscriptions"
 import { GenerateVideoSummaryButton } from "@/components/artifact/GenerateVideoSummaryButton"
 import { TranscribeAudioButtonPerMedia } from "@/components/artifact/TranscribeAudioButtonPerMedia"
 import { TranscriptionInput } from "@/components/transcription-input"
@@ -61,7 +70,6 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { SectionTitle } from "@/components/ui/section-title"
 import { HelpText } from "@/components/ui/help-text"
 import {
@@ -71,9 +79,41 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"
 import { ArtifactTypeSelector } from "./artifact-type-selector"
+import { ArtifactAttributesEditor } from "./artifact-attributes-editor"
+import { ProvenanceEditor } from "./provenance-editor"
+import { ProvenanceTimeline } from "./provenance-timeline"
+import { ArtifactMentions } from "./artifact-mentions"
+import { ArtifactSuggestionsReview } from "@/components/artifact/ArtifactSuggestionsReview"
+import { ArtifactPeopleEditor } from "@/components/people/artifact-people-editor"
+import { LinkedPeople } from "@/components/people/linked-people"
+import { ArtifactComments } from "./artifact-comments"
+import { SimilarArtifacts } from "./similar-artifacts"
+import { ShareLinksDialog } from "./share-links-dialog"
+import { ViewAnalyticsDialog } from "./view-analytics-dialog"
+import { InterviewDialog } from "./interview-dialog"
+import { InterviewAnswers } from "./interview-answers"
+import { ArtifactLanguageToggle } from "./artifact-language-toggle"
+import { LanguageSelect } from "./language-select"
 import { ArtifactStickyNav } from "./artifact-sticky-nav"
 import { getArtifactTypes } from "@/lib/actions/artifact-types"
-import type { ArtifactType } from "@/lib/types/artifact-types"
+import type { ArtifactAttributes, ArtifactType } from "@/lib/types/artifact-types"
+import { compactAttributes, getDisplayAttributes } from "@/lib/utils/artifact-attributes"
+import { getInterviewQuestions } from "@/lib/utils/interview"
+import { getDocumentPageUrls, isDocumentType } from "@/lib/utils/documents"
+import { getTranscriptSegments, segmentsToText, updateSegmentText } from "@/lib/utils/transcripts"
+import { updateTranscriptSegment } from "@/lib/actions/transcripts"
+import type { AudioTranscriptSegments, TranscriptSegment } from "@/lib/types/transcripts"
+import type { InterviewAnswer } from "@/lib/types/interviews"
+import type { ArtifactTranslations } from "@/lib/types/translations"
+import {
+  getArtifactTranslations,
+  getAvailableTranslationLocales,
+  getTextsToTranslate,
+  getTranslatedTexts,
+  isLanguageCode,
+  type LanguageCode,
+} from "@/lib/utils/translations"
+import { getArtifactEditPath, getArtifactPath } from "@/lib/utils/routes"
 import { toast } from "sonner"
 import { useRef } from "react"
 
@@ -89,6 +129,13 @@ interface ArtifactDetailViewProps {
   previousUrl: string | null
   nextUrl: string | null
   galleryMedia?: ArtifactMediaWithDerivatives[]
+  provenanceEvents?: ProvenanceEvent[]
+  people?: LinkedPerson[]
+  // The owner's people directory, for linking people and matching suggested names
+  peopleDirectory?: Person[]
+  places?: Pick<Place, "id" | "name">[]
+  comments?: ArtifactComment[]
+  similarArtifacts?: React.ComponentProps<typeof SimilarArtifacts>["artifacts"]
   // For edit mode sticky nav
   isCurrentUserAdmin?: boolean
 }
@@ -105,6 +152,12 @@ export function ArtifactDetailView({
   previousUrl,
   nextUrl,
   galleryMedia,
+  provenanceEvents = [],
+  people = [],
+  peopleDirectory = [],
+  places = [],
+  comments = [],
+  similarArtifacts = [],
   isCurrentUserAdmin = false,
 }: ArtifactDetailViewProps) {
   const [isSaving, setIsSaving] = useState(false)
@@ -119,14 +172,17 @@ export function ArtifactDetailView({
   const [isImageFullscreen, setIsImageFullscreen] = useState(false)
   const [isAttributesOpen, setIsAttributesOpen] = useState(false)
   const [isProvenanceOpen, setIsProvenanceOpen] = useState(false)
+  const [isInterviewOpen, setIsInterviewOpen] = useState(false)
+  const [interviewDialogOpen, setInterviewDialogOpen] = useState(false)
+  const [interviewAnswers, setInterviewAnswers] = useState<InterviewAnswer[]>(artifact.interview_answers || [])
   const [isAddMediaOpen, setIsAddMediaOpen] = useState(false)
   const [blocksInitialSource, setBlocksInitialSource] = useState<"new" | "existing" | null>(null)
   const [blocksInitialAction, setBlocksInitialAction] = useState<"upload" | "camera" | "video" | "audio" | null>(null)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [mediaActionModalOpen, setMediaActionModalOpen] = useState(false)
   const [mediaToAction, setMediaToAction] = useState<string | null>(null)
-  const [comingSoonOpen, setComingSoonOpen] = useState(false)
-  const [comingSoonFeature, setComingSoonFeature] = useState("")
+  const [shareDialogOpen, setShareDialogOpen] = useState(false)
+  const [analyticsDialogOpen, setAnalyticsDialogOpen] = useState(false)
 
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false)
 
@@ -135,21 +191,51 @@ export function ArtifactDetailView({
     description: artifact.description || "",
     media_urls: artifact.media_urls || [],
     image_captions: artifact.image_captions || {},
+    image_transcriptions: artifact.image_transcriptions || {},
     video_summaries: artifact.video_summaries || {},
     audio_transcripts: artifact.audio_transcripts || {},
     thumbnail_url: artifact.thumbnail_url || "",
     collection_id: artifact.collection_id,
     type_id: artifact.type_id || null,
+    attributes: (artifact.attributes || {}) as ArtifactAttributes,
+    provenance: provenanceEvents.map(toProvenanceInput),
+    people: getPersonLinks(people),
+    language_hint: isLanguageCode(artifact.language_hint) ? artifact.language_hint : null,
   })
 
   const [editTitle, setEditTitle] = useState(artifact.title)
   const [editDescription, setEditDescription] = useState(artifact.description || "")
   const [editMediaUrls, setEditMediaUrls] = useState<string[]>(artifact.media_urls || [])
   const [editImageCaptions, setEditImageCaptions] = useState<Record<string, string>>(artifact.image_captions || {})
+  const [editImageTranscriptions, setEditImageTranscriptions] = useState<Record<string, string>>(
+    artifact.image_transcriptions || {},
+  )
   const [editVideoSummaries, setEditVideoSummaries] = useState<Record<string, string>>(artifact.video_summaries || {})
   const [editAudioTranscripts, setEditAudioTranscripts] = useState<Record<string, string>>(artifact.audio_transcripts || {})
+  // Corrections made while viewing are saved straight away, so the view keeps its own copy
+  const [savedAudioTranscripts, setSavedAudioTranscripts] = useState<Record<string, string>>(
+    artifact.audio_transcripts || {},
+  )
+  const [audioTranscriptSegments, setAudioTranscriptSegments] = useState<AudioTranscriptSegments>(
+    artifact.audio_transcript_segments || {},
+  )
   const [editThumbnailUrl, setEditThumbnailUrl] = useState<string>(artifact.thumbnail_url || "")
   const [editCollectionId, setEditCollectionId] = useState<string>(artifact.collection_id)
+  const [editAttributes, setEditAttributes] = useState<ArtifactAttributes>(artifact.attributes || {})
+  const [attributeErrors, setAttributeErrors] = useState<Record<string, string>>({})
+  const [editProvenance, setEditProvenance] = useState<ProvenanceEventInput[]>(() =>
+    provenanceEvents.map(toProvenanceInput),
+  )
+  const [provenanceErrors, setProvenanceErrors] = useState<Record<string, string>>({})
+  const [editPeople, setEditPeople] = useState<ArtifactPersonLink[]>(() => getPersonLinks(people))
+  // Grows when someone new is added while editing
+  const [directory, setDirectory] = useState<Person[]>(peopleDirectory)
+  const [editLanguageHint, setEditLanguageHint] = useState<LanguageCode | null>(originalState.language_hint)
+  // Language the reader is viewing the text in; null is the original
+  const [readerLocale, setReaderLocale] = useState<LanguageCode | null>(null)
+  const [translations, setTranslations] = useState<ArtifactTranslations>(() =>
+    getArtifactTranslations(artifact.translations),
+  )
   // Track URLs uploaded during this edit session (for cleanup on cancel)
   const [pendingUploadUrls, setPendingUploadUrls] = useState<string[]>([])
 
@@ -175,6 +261,14 @@ export function ArtifactDetailView({
     })
   }, [supabase])
 
+  // Analytics are for the owner (and admins) only - family editors don't see them
+  const canViewAnalytics = !!userId && (artifact.user_id === userId || isCurrentUserAdmin)
+  // Suggestions are reviewed by the owner, like the analytics
+  const canReviewSuggestions = canViewAnalytics
+  // People belong to the owner's directory, so only the owner (or an admin) links them
+  const canLinkPeople = canViewAnalytics
+  const suggestions = getArtifactSuggestions(artifact.ai_suggestions)
+
   useEffect(() => {
     if (isEditMode && userId) {
       getArtifactTypes().then((types) => {
@@ -195,8 +289,20 @@ export function ArtifactDetailView({
   const imageFiles = editMediaUrls.length - audioFiles - videoFiles
 
   const imageCaptions = isEditMode ? editImageCaptions : artifact.image_captions || {}
+  const imageTranscriptions = isEditMode ? editImageTranscriptions : artifact.image_transcriptions || {}
   const videoSummaries = isEditMode ? editVideoSummaries : artifact.video_summaries || {}
-  const audioTranscripts = isEditMode ? editAudioTranscripts : artifact.audio_transcripts || {}
+  const audioTranscripts = isEditMode ? editAudioTranscripts : savedAudioTranscripts
+
+  const translatableTexts = {
+    description: artifact.description,
+    ai_description: artifact.ai_description,
+    audio_transcripts: savedAudioTranscripts,
+  }
+  const availableLocales = getAvailableTranslationLocales(translatableTexts, translations)
+  const readerTranslation = readerLocale ? translations[readerLocale] : undefined
+  // Texts as the reader sees them: translated where an up-to-date translation exists
+  const displayTexts = getTranslatedTexts(translatableTexts, readerTranslation)
+  const isTranslationOutdated = !!readerTranslation && getTextsToTranslate(translatableTexts, readerTranslation).length > 0
   const allMediaUrls: string[] = isEditMode ? Array.from(new Set(editMediaUrls)) : Array.from(new Set(artifact.media_urls || []))
 
   // Media blocks show ALL media URLs - same media can be in both gallery and blocks
@@ -223,20 +329,38 @@ export function ArtifactDetailView({
     return allVisualUrls[0] || ""
   }
 
+  // Attribute schema comes from the selected type in edit mode, or the saved type in view mode
+  const selectedType = artifactTypes.find((type) => type.id === selectedTypeId)
+  const editAttributeDefinitions = selectedType?.attribute_schema || []
+  const displayAttributes = getDisplayAttributes(artifact.artifact_type?.attribute_schema, artifact.attributes)
+  const interviewQuestions = getInterviewQuestions(artifact.artifact_type?.interview_questions)
+  // Letters and documents show the full text of each page, in gallery order
+  const documentPageUrls = getDocumentPageUrls(currentGalleryMedia.map((gm) => gm.media.public_url), mediaUrls)
+  const hasDocumentText = documentPageUrls.some((url) => imageTranscriptions[url]?.trim())
+  const showDocumentText = hasDocumentText || (isEditMode && isDocumentType(selectedType))
+
   const audioUrlsFiltered: string[] = mediaUrls.filter(isAudioUrl)
   const videoUrlsFiltered: string[] = mediaUrls.filter(isVideoUrl)
   const imageUrlsFiltered: string[] = mediaUrls.filter((url) => isImageUrl(url))
 
+  const provenanceChanged = JSON.stringify(editProvenance) !== JSON.stringify(originalState.provenance)
+  const peopleChanged = JSON.stringify(editPeople) !== JSON.stringify(originalState.people)
+
   const hasUnsavedChanges =
     isEditMode &&
     (editTitle !== originalState.title ||
       editDescription !== originalState.description ||
       JSON.stringify(editMediaUrls) !== JSON.stringify(originalState.media_urls) ||
       JSON.stringify(editImageCaptions) !== JSON.stringify(originalState.image_captions) ||
+      JSON.stringify(editImageTranscriptions) !== JSON.stringify(originalState.image_transcriptions) ||
       JSON.stringify(editVideoSummaries) !== JSON.stringify(originalState.video_summaries) ||
       JSON.stringify(editAudioTranscripts) !== JSON.stringify(originalState.audio_transcripts) ||
       editThumbnailUrl !== originalState.thumbnail_url ||
       selectedTypeId !== originalState.type_id ||
+      JSON.stringify(editAttributes) !== JSON.stringify(originalState.attributes) ||
+      provenanceChanged ||
+      peopleChanged ||
+      editLanguageHint !== originalState.language_hint ||
       editCollectionId !== originalState.collection_id)
 
   useEffect(() => {
@@ -267,20 +391,70 @@ export function ArtifactDetailView({
           description: editDescription,
           media_urls: editMediaUrls,
           image_captions: editImageCaptions,
+          image_transcriptions: editImageTranscriptions,
           video_summaries: editVideoSummaries,
           audio_transcripts: editAudioTranscripts,
+          // Only segments that still match their transcript are worth keeping
+          audio_transcript_segments: Object.fromEntries(
+            Object.keys(editAudioTranscripts)
+              .map((url) => [url, getTranscriptSegments(audioTranscriptSegments, editAudioTranscripts, url)] as const)
+              .filter(([, segments]) => segments.length > 0),
+          ),
           thumbnail_url: editThumbnailUrl || null,
           collectionId: editCollectionId,
           type_id: selectedTypeId,
+          language_hint: editLanguageHint,
+          // Leave attributes untouched if types haven't loaded, otherwise they'd be compacted away
+          attributes: artifactTypes.length > 0 ? compactAttributes(editAttributeDefinitions, editAttributes) : undefined,
         },
         originalState.media_urls,
       )
+      if (!result.success) {
+        const fieldErrors = (result.fieldErrors || {}) as Record<string, string[] | undefined>
+        const nextAttributeErrors: Record<string, string> = {}
+        for (const [field, messages] of Object.entries(fieldErrors)) {
+          if (field.startsWith("attributes.") && messages?.[0]) {
+            nextAttributeErrors[field.slice("attributes.".length)] = messages[0]
+          }
+        }
+        setAttributeErrors(nextAttributeErrors)
+        if (Object.keys(nextAttributeErrors).length > 0) {
+          setIsAttributesOpen(true)
+        }
+        toast.error(result.error || "Failed to save changes")
+        setIsSaving(false)
+        return
+      }
+      if (provenanceChanged) {
+        const provenanceResult = await saveProvenanceEvents({ artifact_id: artifact.id, events: editProvenance })
+        if (provenanceResult.error) {
+          const nextProvenanceErrors: Record<string, string> = {}
+          for (const [field, messages] of Object.entries(provenanceResult.fieldErrors || {})) {
+            if (field.startsWith("events.") && messages[0]) {
+              nextProvenanceErrors[field.slice("events.".length)] = messages[0]
+            }
+          }
+          setProvenanceErrors(nextProvenanceErrors)
+          setIsProvenanceOpen(true)
+          toast.error(`Artifact saved, but provenance could not be saved: ${provenanceResult.error}`)
+          setIsSaving(false)
+          return
+        }
+      }
+      if (peopleChanged && canLinkPeople) {
+        const peopleResult = await saveArtifactPeople({ artifact_id: artifact.id, links: editPeople })
+        if (peopleResult.error) {
+          setIsProvenanceOpen(true)
+          toast.error(`Artifact saved, but people could not be saved: ${peopleResult.error}`)
+          setIsSaving(false)
+          return
+        }
+      }
       toast.success("Artifact updated successfully")
       // Disable beforeunload warning before redirecting
       shouldWarnOnUnloadRef.current = false
       // Use the returned slug from server in case it changed
-      const slug = result.slug || artifact.slug
-      window.location.href = `/artifacts/${slug}`
+      window.location.href = getArtifactPath({ id: artifact.id, slug: result.slug || artifact.slug })
     } catch (error) {
       console.error("[v0] Error saving artifact:", error)
       toast.error("Failed to save changes")
@@ -303,6 +477,11 @@ export function ArtifactDetailView({
       delete updated[mediaToAction]
       return updated
     })
+    setEditImageTranscriptions((prev) => {
+      const updated = { ...prev }
+      delete updated[mediaToAction]
+      return updated
+    })
     setEditVideoSummaries((prev) => {
       const updated = { ...prev }
       delete updated[mediaToAction]
@@ -335,6 +514,11 @@ export function ArtifactDetailView({
       delete updated[mediaToAction]
       return updated
     })
+    setEditImageTranscriptions((prev) => {
+      const updated = { ...prev }
+      delete updated[mediaToAction]
+      return updated
+    })
     setEditVideoSummaries((prev) => {
       const updated = { ...prev }
       delete updated[mediaToAction]
@@ -432,18 +616,13 @@ export function ArtifactDetailView({
     }
   }
 
-  const handleComingSoon = (feature: string) => {
-    setComingSoonFeature(feature)
-    setComingSoonOpen(true)
-  }
-
   const handleCancel = () => {
     if (hasUnsavedChanges) {
       setCancelDialogOpen(true)
     } else {
       // Disable beforeunload warning before redirecting
       shouldWarnOnUnloadRef.current = false
-      window.location.href = `/artifacts/${artifact.slug}`
+      window.location.href = getArtifactPath(artifact)
     }
   }
 
@@ -465,7 +644,7 @@ export function ArtifactDetailView({
 
     // Disable beforeunload warning before redirecting
     shouldWarnOnUnloadRef.current = false
-    window.location.href = `/artifacts/${artifact.slug}`
+    window.location.href = getArtifactPath(artifact)
   }
 
   // Called by breadcrumb when navigating away with unsaved changes
@@ -489,6 +668,13 @@ export function ArtifactDetailView({
     }
   }
 
+  const handleTranscriptionChange = (url: string, transcription: string) => {
+    setEditImageTranscriptions((prev) => ({
+      ...prev,
+      [url]: transcription,
+    }))
+  }
+
   const handleSummaryGenerated = (url: string, newSummary: string) => {
     if (isEditMode) {
       setEditVideoSummaries((prev) => ({
@@ -498,15 +684,40 @@ export function ArtifactDetailView({
     }
   }
 
-  const handleTranscriptGenerated = (url: string, newTranscript: string) => {
+  const handleTranscriptGenerated = (url: string, newTranscript: string, segments: TranscriptSegment[] = []) => {
     if (isEditMode) {
       setEditAudioTranscripts((prev) => ({
         ...prev,
         [url]: newTranscript,
       }))
+      setAudioTranscriptSegments((prev) => ({ ...prev, [url]: segments }))
     }
   }
 
+  // Correct one sentence of a timed transcript. In edit mode it's saved with the rest of
+  // the artifact; otherwise it's saved now.
+  const handleSegmentEdit = async (url: string, index: number, text: string): Promise<boolean> => {
+    const segments = getTranscriptSegments(audioTranscriptSegments, audioTranscripts, url)
+
+    if (isEditMode) {
+      const updatedSegments = updateSegmentText(segments, index, text)
+      setAudioTranscriptSegments((prev) => ({ ...prev, [url]: updatedSegments }))
+      setEditAudioTranscripts((prev) => ({ ...prev, [url]: segmentsToText(updatedSegments) }))
+      return true
+    }
+
+    const result = await updateTranscriptSegment({ artifact_id: artifact.id, audio_url: url, index, text })
+    if (result.error || !result.data) {
+      toast.error(result.error || "Failed to save transcript")
+      return false
+    }
+
+    const updatedSegments = result.data
+    setAudioTranscriptSegments((prev) => ({ ...prev, [url]: updatedSegments }))
+    setSavedAudioTranscripts((prev) => ({ ...prev, [url]: segmentsToText(updatedSegments) }))
+    return true
+  }
+
   const handleTypeChange = (typeId: string | null) => {
     setSelectedTypeId(typeId)
   }
@@ -554,25 +765,32 @@ export function ArtifactDetailView({
         {!isEditMode && canEdit && (
           <div className="flex items-center justify-between gap-3 mt-4">
             <Button asChild variant="purple">
-              <Link href={`/artifacts/${artifact.slug}?mode=edit`}>
+              <Link href={getArtifactEditPath(artifact)}>
                 <Pencil className="mr-2 h-4 w-4" />
                 Edit Artifact
               </Link>
             </Button>
 
             <div className="flex items-center gap-2">
-              <Button onClick={() => handleComingSoon("Share")} variant="outline" size="icon" className="rounded-lg">
+              <Button onClick={() => setShareDialogOpen(true)} variant="outline" size="icon" className="rounded-lg">
                 <Share2 className="h-4 w-4" />
               </Button>
+              {canViewAnalytics && (
+                <Button
+                  onClick={() => setAnalyticsDialogOpen(true)}
+                  variant="outline"
+                  size="icon"
+                  className="rounded-lg"
+                >
+                  <BarChart3 className="h-4 w-4" />
+                </Button>
+              )}
               <Button
-                onClick={() => handleComingSoon("Analytics")}
+                onClick={() => document.getElementById("comments")?.scrollIntoView({ behavior: "smooth" })}
                 variant="outline"
                 size="icon"
                 className="rounded-lg"
               >
-                <BarChart3 className="h-4 w-4" />
-              </Button>
-              <Button onClick={() => handleComingSoon("Comments")} variant="outline" size="icon" className="rounded-lg">
                 <MessageSquare className="h-4 w-4" />
               </Button>
             </div>
@@ -598,6 +816,24 @@ export function ArtifactDetailView({
           )
         )}
 
+        {/* Language toggle - switch to a translation, or (for editors) make one */}
+        {!isEditMode &&
+          (availableLocales.length > 0 ||
+            (canEdit && userId && getTextsToTranslate(translatableTexts, undefined).length > 0)) && (
+            <ArtifactLanguageToggle
+              artifactId={artifact.id}
+              languageHint={artifact.language_hint}
+              availableLocales={availableLocales}
+              locale={readerLocale}
+              onLocaleChange={setReaderLocale}
+              canTranslate={canEdit && !!userId}
+              isOutdated={isTranslationOutdated}
+              onTranslated={(locale, translation) =>
+                setTranslations((prev) => ({ ...prev, [locale]: translation }))
+              }
+            />
+          )}
+
         {/* Description Section */}
         {(isEditMode || artifact.description || artifact.ai_description) && (
           <section className="space-y-3">
@@ -615,13 +851,20 @@ export function ArtifactDetailView({
               />
             ) : (
               <div className="text-pretty text-muted-foreground prose prose-sm max-w-none dark:prose-invert">
-                {artifact.description && (
-                  <ReactMarkdown>{artifact.description}</ReactMarkdown>
+                {displayTexts.description && (
+                  <ReactMarkdown>{displayTexts.description}</ReactMarkdown>
                 )}
-                {artifact.ai_description && (
-                  <div className={artifact.description ? "mt-4 pt-4 border-t" : ""}>
+                {displayTexts.ai_description && (
+                  <div className={displayTexts.description ? "mt-4 pt-4 border-t" : ""}>
                     <p className="text-xs font-semibold text-purple-600 mb-2">AI-Enhanced Description</p>
-                    <ReactMarkdown>{artifact.ai_description}</ReactMarkdown>
+                    <ReactMarkdown>{displayTexts.ai_description}</ReactMarkdown>
+                    {suggestions.highlights && suggestions.highlights.length > 0 && (
+                      <ul>
+                        {suggestions.highlights.map((highlight, index) => (
+                          <li key={index}>{highlight}</li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 )}
               </div>
@@ -629,6 +872,14 @@ export function ArtifactDetailView({
           </section>
         )}
 
+        {!isEditMode && <ArtifactMentions people={people} places={places} tags={artifact.tags || []} />}
+
+        {!isEditMode && canReviewSuggestions && (
+          <ArtifactSuggestionsReview artifactId={artifact.id} suggestions={suggestions} people={peopleDirectory} />
+        )}
+
+        {isEditMode && <LanguageSelect value={editLanguageHint} onChange={setEditLanguageHint} disabled={isSaving} />}
+
         {isEditMode && userId && (
           <CollectionPicker
             userId={userId}
@@ -651,8 +902,8 @@ export function ArtifactDetailView({
           />
         )}
 
-        {/* Attributes Section - Only show in edit mode until attributes are implemented */}
-        {isEditMode && (
+        {/* Attributes Section - editable in edit mode, read-only when values exist */}
+        {(isEditMode || displayAttributes.length > 0) && (
           <section>
             <Collapsible open={isAttributesOpen} onOpenChange={setIsAttributesOpen}>
               <div className="rounded-md border border-input bg-transparent dark:bg-input/30 shadow-xs">
@@ -664,10 +915,23 @@ export function ArtifactDetailView({
                 </CollapsibleTrigger>
                 <CollapsibleContent>
                   <div className="px-3 pb-3">
-                    <p className="text-sm text-muted-foreground italic">
-                      No attributes added yet. Future updates will include fields for make, model, year, measurements,
-                      materials, and condition.
-                    </p>
+                    {isEditMode ? (
+                      <ArtifactAttributesEditor
+                        definitions={editAttributeDefinitions}
+                        values={editAttributes}
+                        onChange={setEditAttributes}
+                        errors={attributeErrors}
+                      />
+                    ) : (
+                      <dl className="space-y-3 text-sm">
+                        {displayAttributes.map((attribute) => (
+                          <div key={attribute.key} className="flex justify-between gap-4">
+                            <dt className="text-muted-foreground">{attribute.label}</dt>
+                            <dd className="font-medium text-right">{attribute.value}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
                   </div>
                 </CollapsibleContent>
               </div>
@@ -776,6 +1040,10 @@ export function ArtifactDetailView({
             {mediaUrls.map((url) => {
               if (isAudioUrl(url)) {
                 const transcript = audioTranscripts[url]
+                // A translated transcript has no timings, so it's shown as plain text
+                const displayTranscript = isEditMode ? transcript : displayTexts.audio_transcripts?.[url] || transcript
+                const isTranslated = displayTranscript !== transcript
+                const segments = isTranslated ? [] : getTranscriptSegments(audioTranscriptSegments, audioTranscripts, url)
                 return (
                   <div key={url} className="space-y-3">
                     {isEditMode && (
@@ -795,7 +1063,12 @@ export function ArtifactDetailView({
                       </div>
                     )}
                     <div className="space-y-3">
-                      <AudioPlayer src={url} title="Audio Recording" />
+                      <AudioPlayer
+                        src={url}
+                        title="Audio Recording"
+                        segments={segments}
+                        onSegmentEdit={canEdit ? (index, text) => handleSegmentEdit(url, index, text) : undefined}
+                      />
 
                       {isEditMode && (
                         <div className="mt-3">
@@ -804,15 +1077,16 @@ export function ArtifactDetailView({
                             audioUrl={url}
                             onTranscriptGenerated={handleTranscriptGenerated}
                             currentTranscript={transcript}
+                            language={editLanguageHint}
                           />
                         </div>
                       )}
 
-                      {transcript && (
+                      {displayTranscript && segments.length === 0 && (
                         <div className="rounded-lg border bg-muted/30 p-4 mt-3">
                           <h4 className="text-sm font-semibold mb-2">Transcript</h4>
                           <div className="text-sm text-foreground leading-relaxed whitespace-pre-wrap italic">
-                            {transcript}
+                            {displayTranscript}
                           </div>
                         </div>
                       )}
@@ -1004,6 +1278,59 @@ export function ArtifactDetailView({
           </>
         )}
 
+        {/* Document Text Section - full text of each page of a letter or document */}
+        {showDocumentText && (
+          <section className="space-y-3">
+            <SectionTitle>Document Text</SectionTitle>
+            {isEditMode && (
+              <HelpText>
+                The text on each page, with its original line breaks. Transcribe a page with AI, then correct anything
+                it misread.
+              </HelpText>
+            )}
+            <DocumentTranscriptions
+              pageUrls={documentPageUrls}
+              transcriptions={imageTranscriptions}
+              isEditMode={isEditMode}
+              artifactId={artifact.id}
+              language={editLanguageHint}
+              onChange={handleTranscriptionChange}
+            />
+          </section>
+        )}
+
+        {/* Interview Section - recorded Q&A, and the guided interview for editors */}
+        {!isEditMode && (interviewAnswers.length > 0 || (canEdit && userId)) && (
+          <section>
+            <Collapsible open={isInterviewOpen} onOpenChange={setIsInterviewOpen}>
+              <div className="rounded-md border border-input bg-transparent dark:bg-input/30 shadow-xs">
+                <CollapsibleTrigger className="flex w-full items-center justify-between px-3 py-2 hover:opacity-80 transition-opacity">
+                  <SectionTitle className="pl-0">Interview</SectionTitle>
+                  <ChevronDown
+                    className={`h-4 w-4 text-muted-foreground opacity-50 transition-transform ${isInterviewOpen ? "rotate-180" : ""}`}
+                  />
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <div className="px-3 pb-3 space-y-4">
+                    {canEdit && userId && (
+                      <div className="space-y-2">
+                        <HelpText className="pl-0">
+                          Ask a relative a few questions about this piece and record their answers in their own voice.
+                        </HelpText>
+                        <Button type="button" variant="outline" onClick={() => setInterviewDialogOpen(true)}>
+                          <Mic className="mr-2 h-4 w-4" />
+                          {interviewAnswers.length > 0 ? "Continue Interview" : "Start Interview"}
+                        </Button>
+                      </div>
+                    )}
+                    <InterviewAnswers answers={interviewAnswers} />
+                  </div>
+                </CollapsibleContent>
+              </div>
+            </Collapsible>
+          </section>
+        )}
+
         {/* Provenance Section */}
         <section className="pb-8">
           <Collapsible open={isProvenanceOpen} onOpenChange={setIsProvenanceOpen}>
@@ -1016,6 +1343,46 @@ export function ArtifactDetailView({
               </CollapsibleTrigger>
               <CollapsibleContent>
                 <div className="px-3 pb-3">
+                  {isEditMode && canLinkPeople && (
+                    <div className="mb-4 space-y-2">
+                      <SectionTitle as="h3" className="pl-0">People</SectionTitle>
+                      <ArtifactPeopleEditor
+                        links={editPeople}
+                        onChange={setEditPeople}
+                        people={directory}
+                        onPersonCreated={(person) =>
+                          setDirectory((prev) => [...prev, person].sort((a, b) => a.name.localeCompare(b.name)))
+                        }
+                        canAddPeople={artifact.user_id === userId}
+                      />
+                    </div>
+                  )}
+                  {!isEditMode && people.length > 0 && (
+                    <div className="mb-4 space-y-2">
+                      <SectionTitle as="h3" className="pl-0">People</SectionTitle>
+                      <LinkedPeople people={people} />
+                    </div>
+                  )}
+                  {isEditMode ? (
+                    <div className="mb-4 space-y-2">
+                      <SectionTitle as="h3" className="pl-0">Ownership History</SectionTitle>
+                      <ProvenanceEditor
+                        events={editProvenance}
+                        onChange={(events) => {
+                          setEditProvenance(events)
+                          setProvenanceErrors({})
+                        }}
+                        errors={provenanceErrors}
+                      />
+                    </div>
+                  ) : (
+                    editProvenance.length > 0 && (
+                      <div className="mb-4 space-y-2">
+                        <SectionTitle as="h3" className="pl-0">Ownership History</SectionTitle>
+                        <ProvenanceTimeline events={originalState.provenance} people={people} />
+                      </div>
+                    )
+                  )}
                   <dl className="space-y-3 text-sm">
                     {artifact.author_name && (
                       <div className="flex justify-between">
@@ -1035,6 +1402,12 @@ export function ArtifactDetailView({
                       <dt className="text-muted-foreground">Created</dt>
                       <dd className="font-medium">{new Date(artifact.created_at).toLocaleDateString()}</dd>
                     </div>
+                    {artifact.estimated_year && (
+                      <div className="flex justify-between">
+                        <dt className="text-muted-foreground">Dates From</dt>
+                        <dd className="font-medium">{artifact.estimated_year}</dd>
+                      </div>
+                    )}
                     {artifact.updated_at && artifact.updated_at !== artifact.created_at && (
                       <div className="flex justify-between">
                         <dt className="text-muted-foreground">Last Modified</dt>
@@ -1096,6 +1469,18 @@ export function ArtifactDetailView({
           </Collapsible>
         </section>
 
+        {!isEditMode && <SimilarArtifacts artifacts={similarArtifacts} />}
+
+        {!isEditMode && (
+          <ArtifactComments
+            artifactId={artifact.id}
+            artifactSlug={artifact.slug}
+            initialComments={comments}
+            currentUserId={userId || null}
+            canModerate={!!userId && (artifact.user_id === userId || isCurrentUserAdmin)}
+          />
+        )}
+
         {isEditMode && canEdit && (
           <section className="border-t pt-6 pb-8">
             <div className="space-y-4">
@@ -1141,18 +1526,35 @@ export function ArtifactDetailView({
         />
       )}
 
-      {/* Coming Soon Dialog */}
-      <Dialog open={comingSoonOpen} onOpenChange={setComingSoonOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>{comingSoonFeature}</DialogTitle>
-            <DialogDescription>
-              This feature is coming soon! We're working hard to bring you the ability to{" "}
-              {comingSoonFeature.toLowerCase()} your artifacts.
-            </DialogDescription>
-          </DialogHeader>
-        </DialogContent>
-      </Dialog>
+      {canEdit && (
+        <ShareLinksDialog
+          open={shareDialogOpen}
+          onOpenChange={setShareDialogOpen}
+          artifactId={artifact.id}
+          itemLabel="artifact"
+        />
+      )}
+
+      {canEdit && userId && (
+        <InterviewDialog
+          open={interviewDialogOpen}
+          onOpenChange={setInterviewDialogOpen}
+          artifactId={artifact.id}
+          userId={userId}
+          questions={interviewQuestions}
+          answers={interviewAnswers}
+          onAnswersChange={setInterviewAnswers}
+          language={artifact.language_hint}
+        />
+      )}
+
+      {canViewAnalytics && (
+        <ViewAnalyticsDialog
+          open={analyticsDialogOpen}
+          onOpenChange={setAnalyticsDialogOpen}
+          artifactId={artifact.id}
+        />
+      )}
 
       {/* Media Action Modal (Remove/Delete) */}
       <MediaActionModal
@@ -1206,3 +1608,14 @@ export function ArtifactDetailView({
 
 // Removed the redundant isAudioFile, isVideoFile, isImageUrl, isVideoUrl functions
 // as they are now imported from "@/lib/media" and replaced with isAudioUrl, isVideoUrl, isImageUrl respectively
+
+function toProvenanceInput(event: ProvenanceEvent): ProvenanceEventInput {
+  return {
+    owner_name: event.owner_name,
+    acquisition_method: event.acquisition_method,
+    date_start: event.date_start,
+    date_end: event.date_end,
+    location: event.location,
+    notes: event.notes,
+  }
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import { useState } from "react"
+import { Languages, Loader2, RefreshCw } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { fetchJson } from "@/lib/fetchJson"
+import type { ArtifactTranslation } from "@/lib/types/translations"
+import { getLanguageName, LANGUAGES, type LanguageCode } from "@/lib/utils/translations"
+
+const ORIGINAL = "original"
+const TRANSLATE_PREFIX = "translate:"
+
+interface ArtifactLanguageToggleProps {
+  artifactId: string
+  languageHint?: string | null
+  // Locales with an up-to-date translation of at least one text
+  availableLocales: LanguageCode[]
+  locale: LanguageCode | null
+  onLocaleChange: (locale: LanguageCode | null) => void
+  // Editors can create translations; everyone else only switches between existing ones
+  canTranslate: boolean
+  // True when the selected translation is missing texts added or changed since it was made
+  isOutdated?: boolean
+  onTranslated: (locale: LanguageCode, translation: ArtifactTranslation) => void
+}
+
+/**
+ * Reader-side switch between the original text and its translations
+ */
+export function ArtifactLanguageToggle({
+  artifactId,
+  languageHint,
+  availableLocales,
+  locale,
+  onLocaleChange,
+  canTranslate,
+  isOutdated = false,
+  onTranslated,
+}: ArtifactLanguageToggleProps) {
+  const [translatingTo, setTranslatingTo] = useState<LanguageCode | null>(null)
+
+  const translatableLocales = LANGUAGES.filter(
+    (language) => language.code !== languageHint && !availableLocales.includes(language.code),
+  )
+
+  const translate = async (target: LanguageCode) => {
+    setTranslatingTo(target)
+    try {
+      const { translation } = await fetchJson<{ translation: ArtifactTranslation }>("/api/analyze/translate", {
+        body: { artifactId, locale: target },
+      })
+      onTranslated(target, translation)
+      onLocaleChange(target)
+    } catch (error) {
+      console.error("[ArtifactLanguageToggle] Translation failed:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to translate")
+    } finally {
+      setTranslatingTo(null)
+    }
+  }
+
+  const handleValueChange = (value: string) => {
+    if (value === ORIGINAL) {
+      onLocaleChange(null)
+    } else if (value.startsWith(TRANSLATE_PREFIX)) {
+      translate(value.slice(TRANSLATE_PREFIX.length) as LanguageCode)
+    } else {
+      onLocaleChange(value as LanguageCode)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {translatingTo ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : (
+        <Languages className="h-4 w-4 text-muted-foreground" />
+      )}
+      <Select value={locale || ORIGINAL} onValueChange={handleValueChange} disabled={!!translatingTo}>
+        <SelectTrigger className="h-8 w-auto min-w-40 text-sm" aria-label="Language">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ORIGINAL}>
+            {languageHint ? `Original (${getLanguageName(languageHint)})` : "Original"}
+          </SelectItem>
+          {availableLocales.map((code) => (
+            <SelectItem key={code} value={code}>
+              {getLanguageName(code)}
+            </SelectItem>
+          ))}
+          {canTranslate && translatableLocales.length > 0 && (
+            <>
+              <SelectSeparator />
+              <SelectGroup>
+                <SelectLabel>Translate into…</SelectLabel>
+                {translatableLocales.map((language) => (
+                  <SelectItem key={language.code} value={`${TRANSLATE_PREFIX}${language.code}`}>
+                    {language.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </>
+          )}
+        </SelectContent>
+      </Select>
+      {translatingTo && (
+        <span className="text-xs text-muted-foreground">Translating into {getLanguageName(translatingTo)}…</span>
+      )}
+      {canTranslate && locale && isOutdated && !translatingTo && (
+        <Button type="button" variant="ghost" size="sm" className="h-8 gap-1" onClick={() => translate(locale)}>
+          <RefreshCw className="h-3.5 w-3.5" />
+          Update translation
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import Link from "next/link"
+import { MapPin, User } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import type { Person } from "@/lib/types/people"
+import type { Place } from "@/lib/types/places"
+import { getPersonPath, getPlacePath } from "@/lib/utils/routes"
+
+interface ArtifactMentionsProps {
+  people: Pick<Person, "id" | "name">[]
+  places: Pick<Place, "id" | "name">[]
+  tags: string[]
+}
+
+/**
+ * People and places linked to an artifact, each linking to everything else that mentions
+ * them, followed by its tags
+ */
+export function ArtifactMentions({ people, places, tags }: ArtifactMentionsProps) {
+  if (people.length === 0 && places.length === 0 && tags.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {people.map((person) => (
+        <Badge key={person.id} variant="outline" asChild>
+          <Link href={getPersonPath(person)}>
+            <User className="h-3 w-3" />
+            {person.name}
+          </Link>
+        </Badge>
+      ))}
+      {places.map((place) => (
+        <Badge key={place.id} variant="outline" asChild>
+          <Link href={getPlacePath(place)}>
+            <MapPin className="h-3 w-3" />
+            {place.name}
+          </Link>
+        </Badge>
+      ))}
+      {tags.map((tag) => (
+        <Badge key={tag} variant="secondary">
+          #{tag}
+        </Badge>
+      ))}
+    </div>
+  )
+}
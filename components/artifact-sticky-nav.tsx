@@ -7,6 +7,7 @@ import { ArtifactBreadcrumb } from "@/components/artifact-breadcrumb"
 import { useState, useEffect } from "react"
 import { Badge } from "@/components/ui/badge"
 import { TranscriptionInput } from "@/components/transcription-input"
+import { getArtifactEditPath, getArtifactPath } from "@/lib/utils/routes"
 
 interface ArtifactStickyNavProps {
   title: string
@@ -126,7 +127,7 @@ export function ArtifactStickyNav({
     }
   }, [lastScrollY, isScrolled])
 
-  const getNavUrl = (slug: string) => (isEditMode ? `/artifacts/${slug}?mode=edit` : `/artifacts/${slug}`)
+  const getNavUrl = isEditMode ? getArtifactEditPath : getArtifactPath
 
   const truncateBackLabel = (label: string) => {
     const withoutSuffix = label.endsWith(" Collection") ? label.slice(0, -11) : label
@@ -191,7 +192,7 @@ export function ArtifactStickyNav({
                   className={`shrink-0 ${!previousItem ? "!opacity-15 pointer-events-none" : "hover:bg-accent"}`}
                 >
                   {previousItem ? (
-                    <Link href={getNavUrl(previousItem.slug)} title={previousItem.title}>
+                    <Link href={getNavUrl(previousItem)} title={previousItem.title}>
                       <StepBack className="h-6 w-6" strokeWidth={2.5} />
                     </Link>
                   ) : (
@@ -229,7 +230,7 @@ export function ArtifactStickyNav({
                   className={`shrink-0 ${!nextItem ? "!opacity-15 pointer-events-none" : "hover:bg-accent"}`}
                 >
                   {nextItem ? (
-                    <Link href={getNavUrl(nextItem.slug)} title={nextItem.title}>
+                    <Link href={getNavUrl(nextItem)} title={nextItem.title}>
                       <StepForward className="h-6 w-6" strokeWidth={2.5} />
                     </Link>
                   ) : (
@@ -1,13 +1,31 @@
 "use client"
 
-import { useState, useTransition } from "react"
+import { useEffect, useState, useTransition } from "react"
 import ReactMarkdown from "react-markdown"
-import { Loader2, Mic, ImageIcon, FileText, PlayCircle, RefreshCw, ChevronDown, ChevronUp, Sparkles } from 'lucide-react'
+import {
+  Loader2,
+  Mic,
+  ImageIcon,
+  FileText,
+  PlayCircle,
+  RefreshCw,
+  ChevronDown,
+  ChevronUp,
+  Sparkles,
+  CheckCircle2,
+  Circle,
+  MinusCircle,
+  XCircle,
+} from 'lucide-react'
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Progress } from "@/components/ui/progress"
 import { useToast } from "@/hooks/use-toast"
 import { fetchJson } from "@/lib/fetchJson"
+import { getAiJob, getLatestAiJob } from "@/lib/actions/ai-jobs"
+import type { AiJob, AiJobStep } from "@/lib/types/ai-jobs"
+import { ANALYSIS_STEP_LABELS, getJobProgress, isJobFinished } from "@/lib/utils/ai-jobs"
 
 interface ArtifactAiPanelProps {
   artifactId: string
@@ -21,6 +39,23 @@ interface ArtifactAiPanelProps {
 
 type LoadingState = "audio" | "images" | "summary" | "run-all" | null
 
+const JOB_POLL_INTERVAL_MS = 2000
+
+function JobStepIcon({ step }: { step: AiJobStep }) {
+  switch (step.status) {
+    case "running":
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />
+    case "succeeded":
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />
+    case "skipped":
+      return <MinusCircle className="h-4 w-4 text-muted-foreground" />
+    case "failed":
+      return <XCircle className="h-4 w-4 text-destructive" />
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground" />
+  }
+}
+
 export function ArtifactAiPanel({
   artifactId,
   analysis_status,
@@ -36,6 +71,91 @@ export function ArtifactAiPanel({
   const [captionsOpen, setCaptionsOpen] = useState(true)
   const { toast } = useToast()
   const [isPending, startTransition] = useTransition()
+  const [job, setJob] = useState<AiJob | null>(null)
+  const jobActive = job !== null && !isJobFinished(job.status)
+
+  // Pick up a run started earlier (another tab, before a reload)
+  useEffect(() => {
+    if (analysis_status !== "queued" && analysis_status !== "processing") return
+    getLatestAiJob(artifactId).then(({ data }) => {
+      if (data && !isJobFinished(data.status)) setJob(data)
+    })
+  }, [artifactId, analysis_status])
+
+  const handleJobUpdate = (data: AiJob) => {
+    setJob(data)
+    if (data.status === "succeeded") {
+      toast({ title: "Success", description: "Full analysis complete" })
+      startTransition(() => {
+        onRefresh()
+      })
+    } else if (data.status === "failed") {
+      toast({ title: "Error", description: data.last_error || "Analysis failed", variant: "destructive" })
+      startTransition(() => {
+        onRefresh()
+      })
+    }
+  }
+
+  // Stream progress while the job runs; EventSource reconnects on its own when the server ends a long stream
+  const activeJobId = jobActive ? job.id : null
+  const [streamFailed, setStreamFailed] = useState(false)
+
+  useEffect(() => {
+    if (!activeJobId || streamFailed) return
+    if (typeof EventSource === "undefined") {
+      setStreamFailed(true)
+      return
+    }
+
+    const source = new EventSource(`/api/analyze/jobs/${activeJobId}/events`)
+    source.addEventListener("job", (event) => {
+      const data = JSON.parse((event as MessageEvent<string>).data) as AiJob
+      if (isJobFinished(data.status)) source.close()
+      handleJobUpdate(data)
+    })
+    source.onerror = () => {
+      // Closed for good (e.g. the route answered with an error): fall back to polling
+      if (source.readyState === EventSource.CLOSED) setStreamFailed(true)
+    }
+
+    return () => source.close()
+  }, [activeJobId, streamFailed])
+
+  // Polling fallback for when streaming isn't available
+  useEffect(() => {
+    if (!streamFailed || !job || isJobFinished(job.status)) return
+
+    const timer = setTimeout(async () => {
+      const { data } = await getAiJob(job.id)
+      if (data) handleJobUpdate(data)
+    }, JOB_POLL_INTERVAL_MS)
+
+    return () => clearTimeout(timer)
+  }, [job, streamFailed])
+
+  const handleRunAll = async () => {
+    setLoading("run-all")
+    try {
+      const result = await fetchJson<{ job: AiJob }>("/api/analyze/run-all", {
+        body: { artifactId },
+      })
+      setJob(result.job)
+      toast({
+        title: "Analysis queued",
+        description: "You can leave this page; results will appear when it's done.",
+      })
+    } catch (error) {
+      console.error("[v0] Analysis error:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Analysis failed",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(null)
+    }
+  }
 
   const handleAnalysis = async (endpoint: string, loadingKey: LoadingState, successMessage: string) => {
     console.log("[v0] Button clicked - Starting analysis", { endpoint, artifactId, loadingKey })
@@ -83,6 +203,8 @@ export function ArtifactAiPanel({
   }
 
   const captionEntries = image_captions ? Object.entries(image_captions) : []
+  const partialTranscript = job?.steps.find((step) => step.name === "audio")?.output?.transcript
+  const partialCaptions = Object.entries(job?.steps.find((step) => step.name === "images")?.output?.captions ?? {})
 
   return (
     <div className="space-y-6 rounded-2xl border bg-card p-6 shadow-md">
@@ -107,7 +229,7 @@ export function ArtifactAiPanel({
       <div className="flex flex-wrap gap-2">
         <Button
           onClick={() => handleAnalysis("/api/analyze/summary", "summary", "Description generated")}
-          disabled={loading !== null}
+          disabled={loading !== null || jobActive}
           variant="outline"
           size="sm"
         >
@@ -117,7 +239,7 @@ export function ArtifactAiPanel({
 
         <Button
           onClick={() => handleAnalysis("/api/analyze/images", "images", "Image captions generated")}
-          disabled={loading !== null}
+          disabled={loading !== null || jobActive}
           variant="outline"
           size="sm"
         >
@@ -127,7 +249,7 @@ export function ArtifactAiPanel({
 
         <Button
           onClick={() => handleAnalysis("/api/analyze/audio", "audio", "Audio transcription complete")}
-          disabled={loading !== null}
+          disabled={loading !== null || jobActive}
           variant="outline"
           size="sm"
         >
@@ -136,16 +258,70 @@ export function ArtifactAiPanel({
         </Button>
 
         <Button
-          onClick={() => handleAnalysis("/api/analyze/run-all", "run-all", "Full analysis complete")}
-          disabled={loading !== null}
+          onClick={handleRunAll}
+          disabled={loading !== null || jobActive}
           variant="default"
           size="sm"
         >
-          {loading === "run-all" ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlayCircle />}
+          {loading === "run-all" || jobActive ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlayCircle />}
           Run All
         </Button>
       </div>
 
+      {/* Full analysis progress */}
+      {job && (
+        <div className="space-y-3 rounded-lg bg-muted/50 p-4" data-testid="ai-job-progress">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">{jobActive ? "Analyzing..." : "Last full analysis"}</span>
+            <span className="text-muted-foreground">{job.status}</span>
+          </div>
+          <Progress value={getJobProgress(job)} />
+          <ul className="space-y-1.5">
+            {job.steps.map((step) => (
+              <li key={step.name} className="flex items-start gap-2 text-sm">
+                <JobStepIcon step={step} />
+                <div className="min-w-0 flex-1">
+                  <span>{ANALYSIS_STEP_LABELS[step.name]}</span>
+                  {step.attempts > 1 && step.status !== "succeeded" && (
+                    <span className="ml-1 text-xs text-muted-foreground">
+                      (attempt {step.attempts} of {job.max_attempts})
+                    </span>
+                  )}
+                  {step.status === "running" && step.progress && (
+                    <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                      {(step.name === "images" || step.name === "documents") && step.progress.media_url && (
+                        <img src={step.progress.media_url} alt="" className="h-8 w-8 shrink-0 rounded object-cover" />
+                      )}
+                      <span>{step.progress.message}</span>
+                    </div>
+                  )}
+                  {step.error && step.status !== "succeeded" && (
+                    <p className="text-xs text-muted-foreground">{step.error}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {/* Results that have landed before the run finishes */}
+          {jobActive && partialTranscript && (
+            <p className="line-clamp-3 rounded-md bg-background p-2 text-xs" data-testid="ai-job-partial-transcript">
+              {partialTranscript}
+            </p>
+          )}
+          {jobActive && partialCaptions.length > 0 && (
+            <ul className="space-y-1.5" data-testid="ai-job-partial-captions">
+              {partialCaptions.map(([url, caption]) => (
+                <li key={url} className="flex items-start gap-2 rounded-md bg-background p-2 text-xs">
+                  <img src={url} alt="" className="h-8 w-8 shrink-0 rounded object-cover" />
+                  <span className="flex-1">{caption}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       <Collapsible open={descriptionOpen} onOpenChange={setDescriptionOpen}>
         <div className="flex items-center justify-between">
           <CollapsibleTrigger asChild>
@@ -156,7 +332,7 @@ export function ArtifactAiPanel({
           </CollapsibleTrigger>
           <Button
             onClick={() => handleAnalysis("/api/analyze/summary", "summary", "Description regenerated")}
-            disabled={loading !== null}
+            disabled={loading !== null || jobActive}
             variant="ghost"
             size="sm"
             className="ml-2"
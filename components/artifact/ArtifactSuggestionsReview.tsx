@@ -0,0 +1,161 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Check, Loader2, UserPlus, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { SectionTitle } from "@/components/ui/section-title"
+import { HelpText } from "@/components/ui/help-text"
+import { reviewSuggestion } from "@/lib/actions/suggestions"
+import type { Person } from "@/lib/types/people"
+import type { ArtifactSuggestions, SuggestionKind } from "@/lib/types/suggestions"
+import { findPersonMatches } from "@/lib/utils/people"
+import { getPendingSuggestions, hasPendingSuggestions, isSameName } from "@/lib/utils/suggestions"
+
+const KIND_LABELS: Record<SuggestionKind, string> = {
+  people: "People",
+  places: "Places",
+  tags: "Tags",
+  year_guess: "Dates from",
+  photo_location: "Photo taken",
+}
+
+interface ArtifactSuggestionsReviewProps {
+  artifactId: string
+  suggestions: ArtifactSuggestions
+  // The owner's people directory, to offer matches for suggested names
+  people?: Pick<Person, "id" | "name" | "relationship">[]
+}
+
+/**
+ * People, places, tags and a year the AI summary found, and where a photo was taken, for the
+ * owner to accept or reject
+ */
+export function ArtifactSuggestionsReview({
+  artifactId,
+  suggestions: initialSuggestions,
+  people = [],
+}: ArtifactSuggestionsReviewProps) {
+  const router = useRouter()
+  const [suggestions, setSuggestions] = useState(initialSuggestions)
+  const [reviewing, setReviewing] = useState<string | null>(null)
+
+  if (!hasPendingSuggestions(suggestions)) return null
+
+  const pending = getPendingSuggestions(suggestions)
+  const groups: { kind: SuggestionKind; values: (string | number)[] }[] = [
+    { kind: "people", values: pending.people },
+    { kind: "places", values: pending.places },
+    { kind: "tags", values: pending.tags },
+    { kind: "year_guess", values: pending.year_guess === null ? [] : [pending.year_guess] },
+    { kind: "photo_location", values: pending.photo_location ? [pending.photo_location.name] : [] },
+  ]
+
+  async function handleReview(
+    kind: SuggestionKind,
+    value: string | number,
+    accept: boolean,
+    personId?: string,
+  ) {
+    setReviewing(`${kind}:${value}`)
+    try {
+      const result = await reviewSuggestion({ artifactId, kind, value, accept, personId })
+      if (result.error || !result.data) {
+        toast.error(result.error || "Failed to save suggestion")
+        return
+      }
+      setSuggestions(result.data)
+      // Linked people, places and tags are rendered by the server
+      if (accept) router.refresh()
+    } finally {
+      setReviewing(null)
+    }
+  }
+
+  return (
+    <section className="space-y-3 rounded-md border border-dashed border-purple-300 p-3 dark:border-purple-800">
+      <div>
+        <SectionTitle variant="purple" className="pl-0">
+          AI Suggestions
+        </SectionTitle>
+        <HelpText className="pl-0">
+          Found while writing the AI description. Accepted people and places are linked, so you can
+          find every artifact that mentions them. Names that could be someone in your people are
+          shown with who they might be. Where a photo was taken comes from its GPS.
+        </HelpText>
+      </div>
+      <dl className="space-y-2">
+        {groups
+          .filter((group) => group.values.length > 0)
+          .map((group) => (
+            <div key={group.kind} className="flex flex-wrap items-center gap-2">
+              <dt className="w-20 shrink-0 text-xs text-muted-foreground">
+                {KIND_LABELS[group.kind]}
+              </dt>
+              {group.values.map((value) => {
+                const key = `${group.kind}:${value}`
+                // Someone already in the directory this could be ("Rosa" → "Rosa Bianchi")
+                const match =
+                  group.kind === "people"
+                    ? findPersonMatches(String(value), people).find(
+                        (person) => !isSameName(person.name, String(value)),
+                      )
+                    : undefined
+                return (
+                  <dd
+                    key={key}
+                    className="inline-flex items-center gap-1 rounded-full border pl-3 pr-1 py-0.5 text-sm"
+                  >
+                    {group.kind === "tags" ? `#${value}` : value}
+                    {match && <span className="text-muted-foreground">→ {match.name}?</span>}
+                    {reviewing === key ? (
+                      <Loader2 className="mx-1 h-4 w-4 animate-spin" />
+                    ) : (
+                      <>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 text-green-600"
+                          onClick={() => handleReview(group.kind, value, true, match?.id)}
+                          disabled={reviewing !== null}
+                          aria-label={match ? `Link ${value} to ${match.name}` : `Accept ${value}`}
+                        >
+                          <Check className="h-3.5 w-3.5" />
+                        </Button>
+                        {match && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-muted-foreground"
+                            onClick={() => handleReview(group.kind, value, true)}
+                            disabled={reviewing !== null}
+                            aria-label={`Add ${value} as someone new`}
+                          >
+                            <UserPlus className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 text-muted-foreground"
+                          onClick={() => handleReview(group.kind, value, false)}
+                          disabled={reviewing !== null}
+                          aria-label={`Reject ${value}`}
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </Button>
+                      </>
+                    )}
+                  </dd>
+                )
+              })}
+            </div>
+          ))}
+      </dl>
+    </section>
+  )
+}
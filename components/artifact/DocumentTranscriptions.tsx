@@ -0,0 +1,74 @@
+"use client"
+
+import { Textarea } from "@/components/ui/textarea"
+import { GenerateDocumentTranscriptionButton } from "@/components/artifact/GenerateDocumentTranscriptionButton"
+
+interface DocumentTranscriptionsProps {
+  // Page images in reading order (see getDocumentPageUrls)
+  pageUrls: string[]
+  transcriptions: Record<string, string>
+  isEditMode?: boolean
+  artifactId?: string
+  language?: string | null
+  onChange?: (url: string, transcription: string) => void
+}
+
+/**
+ * The full text of each page of a letter or document, in page order
+ * In edit mode each page gets a textarea and a button to transcribe it with AI.
+ */
+export function DocumentTranscriptions({
+  pageUrls,
+  transcriptions,
+  isEditMode = false,
+  artifactId,
+  language,
+  onChange,
+}: DocumentTranscriptionsProps) {
+  const pages = pageUrls.map((url, index) => ({ url, number: index + 1, text: transcriptions[url] || "" }))
+  const visiblePages = isEditMode ? pages : pages.filter((page) => page.text.trim())
+
+  if (visiblePages.length === 0) {
+    return isEditMode ? (
+      <p className="text-sm text-muted-foreground">Add photos of each page to transcribe their text.</p>
+    ) : null
+  }
+
+  return (
+    <ol className="space-y-5">
+      {visiblePages.map((page) => (
+        <li key={page.url} className="space-y-2">
+          <div className="flex items-center gap-3">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={page.url}
+              alt={`Page ${page.number}`}
+              className="h-12 w-12 rounded object-cover border"
+            />
+            <p className="text-sm font-semibold text-foreground">Page {page.number}</p>
+          </div>
+          {isEditMode ? (
+            <>
+              <Textarea
+                value={page.text}
+                onChange={(e) => onChange?.(page.url, e.target.value)}
+                placeholder="Type or transcribe the text on this page..."
+                rows={8}
+                className="font-serif text-sm"
+              />
+              <GenerateDocumentTranscriptionButton
+                artifactId={artifactId}
+                imageUrl={page.url}
+                currentTranscription={page.text}
+                language={language}
+                onTranscriptionGenerated={onChange}
+              />
+            </>
+          ) : (
+            <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap font-serif">{page.text}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
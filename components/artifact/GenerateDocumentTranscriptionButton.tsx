@@ -0,0 +1,96 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ScanText, Loader2 } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useToast } from "@/hooks/use-toast"
+import { fetchJson } from "@/lib/fetchJson"
+
+interface GenerateDocumentTranscriptionButtonProps {
+  artifactId?: string
+  imageUrl: string
+  onTranscriptionGenerated?: (url: string, transcription: string) => void
+  currentTranscription?: string
+  // Language of the document, for artifacts that aren't saved yet
+  language?: string | null
+}
+
+export function GenerateDocumentTranscriptionButton({
+  artifactId,
+  imageUrl,
+  onTranscriptionGenerated,
+  currentTranscription,
+  language,
+}: GenerateDocumentTranscriptionButtonProps) {
+  const [isGenerating, setIsGenerating] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  async function handleGenerate() {
+    setIsGenerating(true)
+    try {
+      const data = await fetchJson<{ transcription?: string }>("/api/analyze/image-single", {
+        body: {
+          artifactId: artifactId || "temp",
+          imageUrl,
+          mode: "document",
+          language: language || undefined,
+          skipSave: !!onTranscriptionGenerated, // Skip saving when in edit mode
+        },
+      })
+
+      if (!data.transcription) {
+        toast({
+          title: "No text found",
+          description: "We couldn't find any writing on this page",
+        })
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: "Page transcribed successfully",
+      })
+
+      if (onTranscriptionGenerated) {
+        onTranscriptionGenerated(imageUrl, data.transcription)
+      } else {
+        router.refresh()
+      }
+    } catch (err) {
+      console.error("[v0] Transcribe page error:", err)
+      const errorMessage = err instanceof Error ? err.message : "Failed to transcribe page"
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      })
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      onClick={handleGenerate}
+      disabled={isGenerating}
+      className="gap-2 bg-transparent"
+    >
+      {isGenerating ? (
+        <>
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Transcribing...
+        </>
+      ) : (
+        <>
+          <ScanText className="h-4 w-4" />
+          {currentTranscription ? "Transcribe Again" : "Transcribe Text"}
+        </>
+      )}
+    </Button>
+  )
+}
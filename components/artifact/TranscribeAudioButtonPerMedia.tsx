@@ -5,12 +5,15 @@ import { Button } from "@/components/ui/button"
 import { Sparkles, Loader2 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { useRouter } from "next/navigation"
+import type { TranscriptSegment } from "@/lib/types/transcripts"
 
 interface TranscribeAudioButtonPerMediaProps {
   artifactId?: string
   audioUrl: string
-  onTranscriptGenerated?: (url: string, transcript: string) => void
+  onTranscriptGenerated?: (url: string, transcript: string, segments?: TranscriptSegment[]) => void
   currentTranscript?: string
+  // Language of the recording, for artifacts that aren't saved yet
+  language?: string | null
 }
 
 export function TranscribeAudioButtonPerMedia({
@@ -18,6 +21,7 @@ export function TranscribeAudioButtonPerMedia({
   audioUrl,
   onTranscriptGenerated,
   currentTranscript,
+  language,
 }: TranscribeAudioButtonPerMediaProps) {
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
@@ -34,6 +38,7 @@ export function TranscribeAudioButtonPerMedia({
         body: JSON.stringify({
           artifactId: artifactId || "temp",
           audioUrl,
+          language: language || undefined,
           skipSave: !!onTranscriptGenerated  // Skip saving when in edit mode
         }),
       })
@@ -45,7 +50,7 @@ export function TranscribeAudioButtonPerMedia({
 
       const data = await response.json()
       if (onTranscriptGenerated && data.transcript) {
-        onTranscriptGenerated(audioUrl, data.transcript)
+        onTranscriptGenerated(audioUrl, data.transcript, data.segments)
       }
 
       toast({
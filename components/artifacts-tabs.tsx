@@ -13,7 +13,14 @@ import { useEffect, useState, useTransition } from "react"
 import { usePathname, useSearchParams, useRouter } from "next/navigation"
 import { getAllPublicArtifactsPaginated, getMyArtifactsPaginated } from "@/lib/actions/artifacts"
 import { updateArtifactsViewPreference } from "@/lib/actions/profile"
-import { parseSortParam, parseTypeParams, hasActiveFilters, type SortOption } from "@/lib/utils/artifact-filters"
+import {
+  buildFilterUrl,
+  getDefaultSort,
+  hasActiveFilters,
+  type SearchMode,
+  type SortOption,
+} from "@/lib/utils/artifact-filters"
+import type { SearchMatch } from "@/lib/types/search"
 
 interface Artifact {
   id: string
@@ -39,6 +46,8 @@ interface Artifact {
     title: string
     is_public: boolean
   } | null
+  search_rank?: number | null
+  search_match?: SearchMatch | null
 }
 
 interface ArtifactType {
@@ -55,6 +64,8 @@ interface ArtifactsTabsProps {
   initialViewPreference?: "standard" | "compact"
   initialSort?: SortOption
   initialTypeIds?: string[]
+  initialSearch?: string
+  initialSearchMode?: SearchMode
 }
 
 const STORAGE_KEY = "heirloom-artifacts-tab"
@@ -70,6 +81,8 @@ export function ArtifactsTabs({
   initialViewPreference = "standard",
   initialSort = "newest",
   initialTypeIds = [],
+  initialSearch = "",
+  initialSearchMode = "keyword",
 }: ArtifactsTabsProps) {
   const router = useRouter()
   const pathname = usePathname()
@@ -79,6 +92,8 @@ export function ArtifactsTabs({
   const [viewType, setViewType] = useState<ViewType>(initialViewPreference)
   const [sortBy, setSortBy] = useState<SortOption>(initialSort)
   const [selectedTypes, setSelectedTypes] = useState<string[]>(initialTypeIds)
+  const [searchQuery, setSearchQuery] = useState(initialSearch)
+  const [searchMode, setSearchMode] = useState<SearchMode>(initialSearchMode)
 
   const [allArtifactsList, setAllArtifactsList] = useState<Artifact[]>(allArtifacts)
   const [myArtifactsList, setMyArtifactsList] = useState<Artifact[]>(myArtifacts)
@@ -88,7 +103,7 @@ export function ArtifactsTabs({
   const [isLoadingMy, startTransitionMy] = useTransition()
 
   const allTypeIds = artifactTypes.map((t) => t.id)
-  const hasFilters = hasActiveFilters(sortBy, selectedTypes, allTypeIds)
+  const hasFilters = hasActiveFilters(sortBy, selectedTypes, allTypeIds, searchQuery)
 
   useEffect(() => {
     const savedTab = sessionStorage.getItem(STORAGE_KEY)
@@ -98,19 +113,18 @@ export function ArtifactsTabs({
   }, [])
 
   // Update URL when filters change
-  const updateURL = (newSort: SortOption, newTypes: string[]) => {
-    const params = new URLSearchParams(searchParams.toString())
-    if (newSort !== "newest") {
-      params.set("sort", newSort)
-    } else {
-      params.delete("sort")
-    }
-    if (newTypes.length > 0 && newTypes.length < allTypeIds.length) {
-      params.set("types", newTypes.join(","))
-    } else {
-      params.delete("types")
-    }
-    router.push(`${pathname}?${params.toString()}`, { scroll: false })
+  const updateURL = (newSort: SortOption, newTypes: string[], newSearch: string, newSearchMode = searchMode) => {
+    const typeFilter = newTypes.length > 0 && newTypes.length < allTypeIds.length ? newTypes : []
+    const url = buildFilterUrl(
+      pathname,
+      newSort,
+      typeFilter,
+      searchParams.get("tab") ?? undefined,
+      searchParams.get("view") ?? undefined,
+      newSearch,
+      newSearchMode,
+    )
+    router.push(url, { scroll: false })
   }
 
   const handleTabChange = (value: string) => {
@@ -138,27 +152,48 @@ export function ArtifactsTabs({
 
   const handleSortChange = (newSort: SortOption) => {
     setSortBy(newSort)
-    updateURL(newSort, selectedTypes)
+    updateURL(newSort, selectedTypes, searchQuery)
     // Refetch data with new sort
-    refetchAll(newSort, selectedTypes)
+    refetchAll(newSort, selectedTypes, searchQuery)
   }
 
   const handleTypeChange = (newTypes: string[]) => {
     setSelectedTypes(newTypes)
-    updateURL(sortBy, newTypes)
+    updateURL(sortBy, newTypes, searchQuery)
     // Refetch data with new types
-    refetchAll(sortBy, newTypes)
+    refetchAll(sortBy, newTypes, searchQuery)
+  }
+
+  const handleSearchChange = (newSearch: string) => {
+    // Follow the default sort (best match while searching, newest otherwise) unless the user picked one
+    const newSort = sortBy === getDefaultSort(searchQuery) ? getDefaultSort(newSearch) : sortBy
+    setSearchQuery(newSearch)
+    setSortBy(newSort)
+    updateURL(newSort, selectedTypes, newSearch)
+    refetchAll(newSort, selectedTypes, newSearch)
+  }
+
+  const handleSearchModeChange = (newSearchMode: SearchMode) => {
+    // Semantic results are always ranked; keyword search starts from best match again
+    const newSort = searchQuery ? "relevance" : sortBy
+    setSearchMode(newSearchMode)
+    setSortBy(newSort)
+    updateURL(newSort, selectedTypes, searchQuery, newSearchMode)
+    if (searchQuery) {
+      refetchAll(newSort, selectedTypes, searchQuery, newSearchMode)
+    }
   }
 
   const handleClearFilters = () => {
     setSortBy("newest")
     setSelectedTypes([])
-    updateURL("newest", [])
+    setSearchQuery("")
+    updateURL("newest", [], "")
     // Refetch data with default filters
-    refetchAll("newest", [])
+    refetchAll("newest", [], "")
   }
 
-  const refetchAll = async (sort: SortOption, types: string[]) => {
+  const refetchAll = async (sort: SortOption, types: string[], search: string, mode = searchMode) => {
     startTransitionAll(async () => {
       try {
         const typeFilter = types.length > 0 && types.length < allTypeIds.length ? types : undefined
@@ -166,6 +201,8 @@ export function ArtifactsTabs({
           limit: PAGE_SIZE,
           sortBy: sort,
           typeIds: typeFilter,
+          search,
+          searchMode: mode,
         })
         setAllArtifactsList(result.artifacts)
         setAllHasMore(result.hasMore)
@@ -182,6 +219,8 @@ export function ArtifactsTabs({
             limit: PAGE_SIZE,
             sortBy: sort,
             typeIds: typeFilter,
+            search,
+            searchMode: mode,
           })
           setMyArtifactsList(result.artifacts)
           setMyHasMore(result.hasMore)
@@ -202,6 +241,8 @@ export function ArtifactsTabs({
         return { title: artifact.title, id: artifact.id }
       case "last-edited":
         return { updatedAt: artifact.updated_at, id: artifact.id }
+      case "relevance":
+        return { rank: artifact.search_rank ?? 0, id: artifact.id }
     }
   }
 
@@ -219,6 +260,8 @@ export function ArtifactsTabs({
           cursor,
           sortBy,
           typeIds: typeFilter,
+          search: searchQuery,
+          searchMode,
         })
         setAllArtifactsList((prev) => [...prev, ...result.artifacts])
         setAllHasMore(result.hasMore)
@@ -242,6 +285,8 @@ export function ArtifactsTabs({
           cursor,
           sortBy,
           typeIds: typeFilter,
+          search: searchQuery,
+          searchMode,
         })
         setMyArtifactsList((prev) => [...prev, ...result.artifacts])
         setMyHasMore(result.hasMore)
@@ -293,6 +338,11 @@ export function ArtifactsTabs({
           onClearFilters={handleClearFilters}
           hasActiveFilters={hasFilters}
           artifactCount={allArtifactsList.length}
+          searchQuery={searchQuery}
+          onSearchChange={handleSearchChange}
+          searchMode={searchMode}
+          onSearchModeChange={handleSearchModeChange}
+          canSearchByMeaning={Boolean(user)}
         />
 
         {allArtifactsList.length > 0 ? (
@@ -337,7 +387,11 @@ export function ArtifactsTabs({
         ) : (
           <div className="rounded-lg border border-dashed p-12 text-center pb-20">
             <p className="text-sm text-muted-foreground">
-              {hasFilters ? "No artifacts match your filters." : "No public artifacts available yet."}
+              {searchQuery
+                ? "No artifacts match your search."
+                : hasFilters
+                  ? "No artifacts match your filters."
+                  : "No public artifacts available yet."}
             </p>
             {hasFilters && (
               <Button onClick={handleClearFilters} variant="outline" className="mt-4">
@@ -364,6 +418,10 @@ export function ArtifactsTabs({
               onClearFilters={handleClearFilters}
               hasActiveFilters={hasFilters}
               artifactCount={myArtifactsList.length}
+              searchQuery={searchQuery}
+              onSearchChange={handleSearchChange}
+              searchMode={searchMode}
+              onSearchModeChange={handleSearchModeChange}
             />
 
             {myArtifactsList.length > 0 ? (
@@ -403,7 +461,11 @@ export function ArtifactsTabs({
             ) : (
               <div className="rounded-lg border border-dashed p-12 text-center pb-20">
                 <p className="text-sm text-muted-foreground">
-                  {hasFilters ? "No artifacts match your filters." : "You haven't created any artifacts yet."}
+                  {searchQuery
+                    ? "No artifacts match your search."
+                    : hasFilters
+                      ? "No artifacts match your filters."
+                      : "You haven't created any artifacts yet."}
                 </p>
                 {hasFilters ? (
                   <Button onClick={handleClearFilters} variant="outline" className="mt-4">
@@ -4,7 +4,9 @@ import { Button } from "@/components/ui/button"
 import { X } from "lucide-react"
 import { SortDropdown } from "./sort-dropdown"
 import { TypeFilter } from "./type-filter"
-import type { SortOption } from "@/lib/utils/artifact-filters"
+import { SearchInput } from "@/components/search-input"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import type { SearchMode, SortOption } from "@/lib/utils/artifact-filters"
 
 interface ArtifactType {
   id: string
@@ -21,6 +23,12 @@ interface FilterBarProps {
   onClearFilters: () => void
   hasActiveFilters: boolean
   artifactCount: number
+  searchQuery: string
+  onSearchChange: (query: string) => void
+  searchMode: SearchMode
+  onSearchModeChange: (mode: SearchMode) => void
+  // Meaning search spends the viewer's AI quota, so it needs an account
+  canSearchByMeaning?: boolean
 }
 
 export function FilterBar({
@@ -32,12 +40,54 @@ export function FilterBar({
   onClearFilters,
   hasActiveFilters,
   artifactCount,
+  searchQuery,
+  onSearchChange,
+  searchMode: requestedSearchMode,
+  onSearchModeChange,
+  canSearchByMeaning = true,
 }: FilterBarProps) {
+  const searchMode = canSearchByMeaning ? requestedSearchMode : "keyword"
+
+  // Meaning matches are only ordered by how close they are
+  const isSemanticSearch = Boolean(searchQuery) && searchMode === "semantic"
+
   return (
     <div className="py-3 space-y-2">
+      <div className="flex flex-row gap-2 items-center">
+        <SearchInput
+          value={searchQuery}
+          onSearch={onSearchChange}
+          placeholder={
+            searchMode === "semantic"
+              ? "Describe what you're looking for, e.g. grandma's wedding"
+              : "Search titles, descriptions, transcripts..."
+          }
+          className="flex-1 min-w-0"
+        />
+        {canSearchByMeaning && (
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={searchMode}
+            onValueChange={(value) => value && onSearchModeChange(value as SearchMode)}
+            aria-label="Search mode"
+            className="shrink-0"
+          >
+            <ToggleGroupItem value="keyword" className="h-9 px-3 text-xs">
+              Words
+            </ToggleGroupItem>
+            <ToggleGroupItem value="semantic" className="h-9 px-3 text-xs">
+              Meaning
+            </ToggleGroupItem>
+          </ToggleGroup>
+        )}
+      </div>
       <div className="flex flex-row gap-2 items-center justify-between">
         <div className="flex flex-row gap-2 items-center min-w-0">
-          <SortDropdown value={sortBy} onChange={onSortChange} />
+          {!isSemanticSearch && (
+            <SortDropdown value={sortBy} onChange={onSortChange} showRelevance={Boolean(searchQuery)} />
+          )}
           <TypeFilter types={artifactTypes} selectedTypes={selectedTypes} onChange={onTypeChange} />
           <span className="text-xs text-muted-foreground font-medium">{artifactCount} artifact{artifactCount !== 1 ? "s" : ""}</span>
         </div>
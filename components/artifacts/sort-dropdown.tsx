@@ -1,15 +1,19 @@
 "use client"
 
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { SORT_OPTIONS, type SortOption } from "@/lib/utils/artifact-filters"
+import { RELEVANCE_SORT_OPTION, SORT_OPTIONS, type SortOption } from "@/lib/utils/artifact-filters"
 import { ArrowUpDown } from "lucide-react"
 
 interface SortDropdownProps {
   value: SortOption
   onChange: (value: SortOption) => void
+  // Offer "Best Match" (only meaningful while searching)
+  showRelevance?: boolean
 }
 
-export function SortDropdown({ value, onChange }: SortDropdownProps) {
+export function SortDropdown({ value, onChange, showRelevance = false }: SortDropdownProps) {
+  const options = showRelevance ? [RELEVANCE_SORT_OPTION, ...SORT_OPTIONS] : SORT_OPTIONS
+
   return (
     <div className="flex items-center gap-1.5 sm:gap-2 shrink-0">
       <span className="text-sm font-medium text-muted-foreground shrink-0 hidden sm:inline">Sort:</span>
@@ -21,7 +25,7 @@ export function SortDropdown({ value, onChange }: SortDropdownProps) {
           </div>
         </SelectTrigger>
         <SelectContent>
-          {SORT_OPTIONS.map((option) => (
+          {options.map((option) => (
             <SelectItem key={option.value} value={option.value}>
               {option.label}
             </SelectItem>
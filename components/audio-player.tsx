@@ -4,13 +4,19 @@ import { useState, useRef, useEffect } from "react"
 import { Play, Pause, Volume2, VolumeX } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
+import { TranscriptSegments } from "@/components/transcript-segments"
+import type { TranscriptSegment } from "@/lib/types/transcripts"
+import { findActiveSegmentIndex } from "@/lib/utils/transcripts"
 
 interface AudioPlayerProps {
   src: string
   title?: string
+  // Timed transcript shown under the controls, following playback
+  segments?: TranscriptSegment[]
+  onSegmentEdit?: (index: number, text: string) => Promise<boolean> | boolean
 }
 
-export function AudioPlayer({ src, title }: AudioPlayerProps) {
+export function AudioPlayer({ src, title, segments = [], onSegmentEdit }: AudioPlayerProps) {
   const audioRef = useRef<HTMLAudioElement>(null)
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
@@ -67,6 +73,16 @@ export function AudioPlayer({ src, title }: AudioPlayerProps) {
     setCurrentTime(newTime)
   }
 
+  const seekTo = (time: number) => {
+    if (!audioRef.current) return
+    audioRef.current.currentTime = time
+    setCurrentTime(time)
+    if (!isPlaying) {
+      audioRef.current.play()
+      setIsPlaying(true)
+    }
+  }
+
   const handleVolumeChange = (value: number[]) => {
     if (!audioRef.current) return
     const newVolume = value[0]
@@ -180,6 +196,15 @@ export function AudioPlayer({ src, title }: AudioPlayerProps) {
             />
           </div>
         </div>
+
+        {segments.length > 0 && (
+          <TranscriptSegments
+            segments={segments}
+            activeIndex={findActiveSegmentIndex(segments, currentTime)}
+            onSeek={seekTo}
+            onEdit={onSegmentEdit}
+          />
+        )}
       </div>
     </div>
   )
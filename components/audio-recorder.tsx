@@ -6,10 +6,11 @@ import { Mic, Square, Trash2 } from 'lucide-react'
 
 interface AudioRecorderProps {
   onAudioRecorded: (audioBlob: Blob, fileName: string) => void
+  onClear?: () => void
   disabled?: boolean
 }
 
-export function AudioRecorder({ onAudioRecorded, disabled }: AudioRecorderProps) {
+export function AudioRecorder({ onAudioRecorded, onClear, disabled }: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false)
   const [audioURL, setAudioURL] = useState<string | null>(null)
   const [recordingTime, setRecordingTime] = useState(0)
@@ -106,6 +107,7 @@ export function AudioRecorder({ onAudioRecorded, disabled }: AudioRecorderProps)
     setAudioURL(null)
     setRecordingTime(0)
     chunksRef.current = []
+    onClear?.()
   }
 
   const formatTime = (seconds: number) => {
@@ -8,6 +8,9 @@ import { Settings } from "lucide-react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import MediaImage from "@/components/media-image"
 import { CollectionThumbnailGrid } from "@/components/collection-thumbnail-grid"
+import { getCollectionPath } from "@/lib/utils/routes"
+import { SearchSnippet } from "@/components/search-snippet"
+import type { SearchMatch } from "@/lib/types/search"
 
 interface CollectionCardHorizontalProps {
   collection: {
@@ -22,12 +25,13 @@ interface CollectionCardHorizontalProps {
     thumbnailImages?: string[]
     isUnsorted?: boolean
     is_public?: boolean
+    search_match?: SearchMatch | null
   }
   mode?: "all" | "mine"
 }
 
 export function CollectionCardHorizontal({ collection, mode }: CollectionCardHorizontalProps) {
-  const baseHref = collection.slug ? `/collections/${collection.slug}` : `/collections/${collection.id}`
+  const baseHref = getCollectionPath(collection)
   const href = mode ? `${baseHref}?mode=${mode}` : baseHref
 
   const safeThumbnailImages = Array.isArray(collection.thumbnailImages) ? collection.thumbnailImages : []
@@ -92,6 +96,7 @@ export function CollectionCardHorizontal({ collection, mode }: CollectionCardHor
                 </TooltipProvider>
               )}
             </div>
+            {collection.search_match && <SearchSnippet match={collection.search_match} className="mt-1 line-clamp-1" />}
           </div>
 
           <div className="flex items-center justify-between gap-4 min-w-0">
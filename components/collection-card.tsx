@@ -8,6 +8,9 @@ import { Badge } from "@/components/ui/badge"
 import { Settings } from "lucide-react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import MediaImage from "@/components/media-image"
+import { getCollectionPath } from "@/lib/utils/routes"
+import { SearchSnippet } from "@/components/search-snippet"
+import type { SearchMatch } from "@/lib/types/search"
 
 interface CollectionCardProps {
   collection: {
@@ -22,12 +25,13 @@ interface CollectionCardProps {
     thumbnailImages?: string[]
     isUnsorted?: boolean
     is_public?: boolean
+    search_match?: SearchMatch | null
   }
   mode?: "all" | "mine"
 }
 
 export function CollectionCard({ collection, mode }: CollectionCardProps) {
-  const baseHref = collection.slug ? `/collections/${collection.slug}` : `/collections/${collection.id}`
+  const baseHref = getCollectionPath(collection)
   const href = mode ? `${baseHref}?mode=${mode}` : baseHref
 
   const safeThumbnailImages = Array.isArray(collection.thumbnailImages) ? collection.thumbnailImages : []
@@ -87,6 +91,8 @@ export function CollectionCard({ collection, mode }: CollectionCardProps) {
             )}
           </div>
 
+          {collection.search_match && <SearchSnippet match={collection.search_match} className="line-clamp-2" />}
+
           <div className="flex items-center justify-between gap-2">
             {mode === "all" && <Author userId={collection.user_id} authorName={collection.authorName || undefined} size="sm" />}
             <p className="text-sm text-muted-foreground">
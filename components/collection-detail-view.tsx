@@ -12,6 +12,7 @@ import MediaImage from "@/components/media-image"
 import { ArrowLeft, Pencil, ChevronLeft, ChevronRight, Grid3x3, List } from "lucide-react"
 import { useRouter } from "next/navigation"
 import { getPrimaryVisualMediaUrl } from "@/lib/media"
+import { getCollectionEditPath } from "@/lib/utils/routes"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 
 interface CollectionDetailViewProps {
@@ -138,7 +139,7 @@ export function CollectionDetailView({
 
             {canEdit && (
               <Button asChild variant="purple" className="shrink-0">
-                <Link href={`/collections/${collection.slug}/edit`}>
+                <Link href={getCollectionEditPath(collection)}>
                   <Pencil className="mr-2 h-4 w-4" />
                   Edit
                 </Link>
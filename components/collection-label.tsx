@@ -1,5 +1,6 @@
 import Link from "next/link"
 import { cn } from "@/lib/utils"
+import { getCollectionPath } from "@/lib/utils/routes"
 
 interface CollectionLabelProps {
   collectionId: string
@@ -41,6 +42,6 @@ export function CollectionLabel({
     return labelContent
   }
 
-  const href = collectionSlug ? `/collections/${collectionSlug}` : `/collections/${collectionId}`
+  const href = getCollectionPath({ id: collectionId, slug: collectionSlug })
   return <Link href={href}>{labelContent}</Link>
 }
@@ -10,9 +10,11 @@ import { UncategorizedCollectionCard } from "@/components/uncategorized-collecti
 import { EmptyCollections } from "@/components/empty-collections"
 import { LoginModule } from "@/components/login-module"
 import { useEffect, useState, useTransition, useMemo } from "react"
-import { usePathname, useSearchParams } from "next/navigation"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
 import { getAllPublicCollectionsPaginated, getMyCollectionsPaginated } from "@/lib/actions/collections"
 import { updateViewPreference } from "@/lib/actions/profile"
+import { SearchInput } from "@/components/search-input"
+import type { SearchMatch } from "@/lib/types/search"
 
 interface Collection {
   id: string
@@ -28,6 +30,8 @@ interface Collection {
   isUnsorted?: boolean
   is_public?: boolean | null
   created_at: string
+  search_rank?: number | null
+  search_match?: SearchMatch | null
 }
 
 interface CollectionsTabsProps {
@@ -37,6 +41,7 @@ interface CollectionsTabsProps {
   myHasMore: boolean
   allHasMore: boolean
   initialViewPreference?: "gallery" | "list"
+  initialSearch?: string
 }
 
 const STORAGE_KEY = "heirloom-collections-tab"
@@ -51,6 +56,7 @@ export function CollectionsTabs({
   myHasMore: initialMyHasMore,
   allHasMore: initialAllHasMore,
   initialViewPreference = "gallery",
+  initialSearch = "",
 }: CollectionsTabsProps) {
   console.log("[v0] CollectionsTabs props:", {
     myCollections,
@@ -61,6 +67,7 @@ export function CollectionsTabs({
     allCollectionsIsArray: Array.isArray(allCollections),
   })
 
+  const router = useRouter()
   const pathname = usePathname()
   const searchParams = useSearchParams()
 
@@ -91,6 +98,7 @@ export function CollectionsTabs({
   const [myHasMore, setMyHasMore] = useState(initialMyHasMore)
   const [isLoadingAll, setIsLoadingAll] = useState(false)
   const [isLoadingMy, setIsLoadingMy] = useState(false)
+  const [searchQuery, setSearchQuery] = useState(initialSearch)
 
   const [isPending, startTransition] = useTransition()
 
@@ -120,6 +128,45 @@ export function CollectionsTabs({
     }
   }
 
+  const handleSearchChange = async (newSearch: string) => {
+    setSearchQuery(newSearch)
+
+    const params = new URLSearchParams(searchParams.toString())
+    if (newSearch) {
+      params.set("q", newSearch)
+    } else {
+      params.delete("q")
+    }
+    const query = params.toString()
+    router.push(query ? `${pathname}?${query}` : pathname, { scroll: false })
+
+    setIsLoadingAll(true)
+    if (user) setIsLoadingMy(true)
+    try {
+      const [allResult, myResult] = await Promise.all([
+        getAllPublicCollectionsPaginated(user?.id, PAGE_SIZE, undefined, newSearch),
+        user ? getMyCollectionsPaginated(user.id, PAGE_SIZE, undefined, newSearch) : null,
+      ])
+      setAllCollectionsList(allResult.collections)
+      setAllHasMore(allResult.hasMore)
+      if (myResult) {
+        setMyCollectionsList(myResult.collections)
+        setMyHasMore(myResult.hasMore)
+      }
+    } catch (error) {
+      console.error("Error searching collections:", error)
+    } finally {
+      setIsLoadingAll(false)
+      setIsLoadingMy(false)
+    }
+  }
+
+  // Search results are paged by rank, everything else by creation date
+  const getCursor = (collection: Collection) =>
+    searchQuery
+      ? { rank: collection.search_rank ?? 0, id: collection.id }
+      : { createdAt: collection.created_at, id: collection.id }
+
   const handleLoadMoreAll = useMemo(
     () => async () => {
       if (isLoadingAll || !allHasMore) return
@@ -127,9 +174,9 @@ export function CollectionsTabs({
       setIsLoadingAll(true)
       try {
         const lastCollection = allCollectionsList[allCollectionsList.length - 1]
-        const cursor = lastCollection ? { createdAt: lastCollection.created_at, id: lastCollection.id } : undefined
+        const cursor = lastCollection ? getCursor(lastCollection) : undefined
 
-        const result = await getAllPublicCollectionsPaginated(user?.id, PAGE_SIZE, cursor)
+        const result = await getAllPublicCollectionsPaginated(user?.id, PAGE_SIZE, cursor, searchQuery)
 
         setAllCollectionsList((prev) => [...prev, ...result.collections])
         setAllHasMore(result.hasMore)
@@ -139,7 +186,7 @@ export function CollectionsTabs({
         setIsLoadingAll(false)
       }
     },
-    [isLoadingAll, allHasMore, allCollectionsList, user?.id],
+    [isLoadingAll, allHasMore, allCollectionsList, user?.id, searchQuery],
   )
 
   const handleLoadMoreMy = useMemo(
@@ -149,9 +196,9 @@ export function CollectionsTabs({
       setIsLoadingMy(true)
       try {
         const lastCollection = myCollectionsList[myCollectionsList.length - 1]
-        const cursor = lastCollection ? { createdAt: lastCollection.created_at, id: lastCollection.id } : undefined
+        const cursor = lastCollection ? getCursor(lastCollection) : undefined
 
-        const result = await getMyCollectionsPaginated(user.id, PAGE_SIZE, cursor)
+        const result = await getMyCollectionsPaginated(user.id, PAGE_SIZE, cursor, searchQuery)
 
         setMyCollectionsList((prev) => [...prev, ...result.collections])
         setMyHasMore(result.hasMore)
@@ -161,7 +208,7 @@ export function CollectionsTabs({
         setIsLoadingMy(false)
       }
     },
-    [isLoadingMy, myHasMore, myCollectionsList, user],
+    [isLoadingMy, myHasMore, myCollectionsList, user, searchQuery],
   )
 
   return (
@@ -196,6 +243,13 @@ export function CollectionsTabs({
         )}
       </div>
 
+      <SearchInput
+        value={searchQuery}
+        onSearch={handleSearchChange}
+        placeholder="Search collections and what's in them..."
+        className="mt-4"
+      />
+
       <TabsContent value="all" className={`mt-6 transition-opacity ${isPending ? "opacity-50" : "opacity-100"}`}>
         {allCollectionsList && allCollectionsList.length > 0 ? (
           <>
@@ -237,7 +291,9 @@ export function CollectionsTabs({
           </>
         ) : (
           <div className="rounded-lg border border-dashed p-12 text-center pb-20">
-            <p className="text-sm text-muted-foreground">No public collections available yet.</p>
+            <p className="text-sm text-muted-foreground">
+              {searchQuery ? "No collections match your search." : "No public collections available yet."}
+            </p>
           </div>
         )}
       </TabsContent>
@@ -289,6 +345,10 @@ export function CollectionsTabs({
               <div className="pb-20" />
             )}
           </>
+        ) : searchQuery ? (
+          <div className="rounded-lg border border-dashed p-12 text-center pb-20">
+            <p className="text-sm text-muted-foreground">No collections match your search.</p>
+          </div>
         ) : (
           <div className="pb-20">
             <EmptyCollections />
@@ -0,0 +1,203 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { toast } from "sonner"
+import { ImagePlus, Loader2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { AudioRecorder } from "@/components/audio-recorder"
+import { createComment } from "@/lib/actions/comments"
+import { uploadFileToStorage } from "@/lib/upload-file"
+import type { ArtifactComment } from "@/lib/types/comments"
+
+interface CommentFormProps {
+  artifactId: string
+  userId: string
+  parentId?: string
+  placeholder?: string
+  submitLabel?: string
+  autoFocus?: boolean
+  onPosted: (comment: ArtifactComment) => void
+  onCancel?: () => void
+}
+
+/**
+ * Write a comment or reply, optionally with one photo and/or a transcribed voice note
+ */
+export function CommentForm({
+  artifactId,
+  userId,
+  parentId,
+  placeholder = "Share a memory about this heirloom…",
+  submitLabel = "Post",
+  autoFocus,
+  onPosted,
+  onCancel,
+}: CommentFormProps) {
+  const [body, setBody] = useState("")
+  const [photo, setPhoto] = useState<File | null>(null)
+  const [voiceNote, setVoiceNote] = useState<{ blob: Blob; fileName: string } | null>(null)
+  const [transcript, setTranscript] = useState<string | null>(null)
+  const [isTranscribing, setIsTranscribing] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Remounting the recorder is the only way to clear its internal preview
+  const [recorderKey, setRecorderKey] = useState(0)
+  const photoInputRef = useRef<HTMLInputElement>(null)
+
+  const hasContent = !!body.trim() || !!photo || !!voiceNote
+
+  const handleVoiceNote = async (blob: Blob, fileName: string) => {
+    setVoiceNote({ blob, fileName })
+    setTranscript(null)
+    setIsTranscribing(true)
+
+    try {
+      const formData = new FormData()
+      formData.append("audio", blob, fileName)
+      formData.append("fieldType", "comment")
+
+      const response = await fetch("/api/transcribe", { method: "POST", body: formData })
+      if (response.ok) {
+        const { transcription } = await response.json()
+        setTranscript(transcription || null)
+      } else {
+        console.warn("[CommentForm] Transcription failed; the voice note will be posted without a transcript")
+      }
+    } catch (err) {
+      console.warn("[CommentForm] Transcription error:", err)
+    } finally {
+      setIsTranscribing(false)
+    }
+  }
+
+  const clearVoiceNote = () => {
+    setVoiceNote(null)
+    setTranscript(null)
+  }
+
+  const reset = () => {
+    setBody("")
+    setPhoto(null)
+    clearVoiceNote()
+    setRecorderKey((key) => key + 1)
+    if (photoInputRef.current) photoInputRef.current.value = ""
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const photoUrl = photo ? await uploadFileToStorage(photo, photo.name, userId, "comments") : null
+      const audioUrl = voiceNote
+        ? await uploadFileToStorage(voiceNote.blob, voiceNote.fileName, userId, "comments")
+        : null
+
+      const result = await createComment({
+        artifact_id: artifactId,
+        parent_id: parentId ?? null,
+        body: body.trim() || undefined,
+        photo_url: photoUrl,
+        audio_url: audioUrl,
+        audio_transcript: transcript,
+      })
+
+      if (!result.success || !result.data) {
+        setError(result.fieldErrors?.body?.[0] || result.error || "Failed to post comment")
+        return
+      }
+
+      reset()
+      onPosted(result.data)
+    } catch (err) {
+      console.error("[CommentForm] Failed to upload attachment:", err)
+      toast.error(err instanceof Error ? err.message : "Failed to upload attachment")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={parentId ? 2 : 3}
+        maxLength={5000}
+        autoFocus={autoFocus}
+        disabled={isSubmitting}
+      />
+
+      {photo && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <ImagePlus className="h-4 w-4 shrink-0" />
+          <span className="truncate">{photo.name}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => {
+              setPhoto(null)
+              if (photoInputRef.current) photoInputRef.current.value = ""
+            }}
+            aria-label="Remove photo"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+
+      <AudioRecorder
+        key={recorderKey}
+        onAudioRecorded={handleVoiceNote}
+        onClear={clearVoiceNote}
+        disabled={isSubmitting}
+      />
+      {isTranscribing && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Transcribing voice note…
+        </p>
+      )}
+      {transcript && <p className="text-xs italic text-muted-foreground">&ldquo;{transcript}&rdquo;</p>}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      <div className="flex items-center justify-between gap-2">
+        <input
+          ref={photoInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => photoInputRef.current?.click()}
+          disabled={isSubmitting}
+        >
+          <ImagePlus className="mr-2 h-4 w-4" />
+          {photo ? "Change photo" : "Add photo"}
+        </Button>
+
+        <div className="flex items-center gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" size="sm" disabled={isSubmitting || isTranscribing || !hasContent}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  )
+}
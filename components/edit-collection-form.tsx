@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
+import Link from "next/link"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { Button } from "@/components/ui/button"
@@ -12,6 +13,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { AlertCircle, Loader2, CheckCircle2, Trash2 } from "lucide-react"
 import { updateCollection, deleteCollection } from "@/lib/actions/collections"
 import { collectionSchema, type CollectionInput } from "@/lib/schemas"
+import { getCollectionPath } from "@/lib/utils/routes"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,8 +26,12 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useSupabase } from "@/lib/supabase/browser-context"
 
+// Radix Select doesn't allow an empty-string item value, so "not shared" uses a sentinel
+const NO_FAMILY = "__none__"
+
 interface EditCollectionFormProps {
   collection: {
     id: string
@@ -33,11 +39,14 @@ interface EditCollectionFormProps {
     description?: string | null
     is_public: boolean
     slug: string
+    family_id?: string | null
   }
   artifactCount?: number
+  /** Families the owner belongs to; omit to hide the family picker (e.g. admins editing someone else's collection) */
+  families?: { id: string; name: string }[]
 }
 
-export function EditCollectionForm({ collection, artifactCount = 0 }: EditCollectionFormProps) {
+export function EditCollectionForm({ collection, artifactCount = 0, families }: EditCollectionFormProps) {
   const router = useRouter()
   const supabase = useSupabase()
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -66,6 +75,7 @@ export function EditCollectionForm({ collection, artifactCount = 0 }: EditCollec
       title: collection.title,
       description: collection.description || "",
       is_public: collection.is_public,
+      ...(families ? { family_id: collection.family_id ?? null } : {}),
     },
   })
 
@@ -157,7 +167,7 @@ export function EditCollectionForm({ collection, artifactCount = 0 }: EditCollec
 
         <div className="flex flex-col gap-3 sm:flex-row">
           <Button asChild className="flex-1">
-            <button onClick={() => router.push(`/collections/${successData.id}`)}>View Collection</button>
+            <button onClick={() => router.push(getCollectionPath(successData))}>View Collection</button>
           </Button>
           <Button asChild variant="outline" className="flex-1 bg-transparent">
             <button onClick={() => router.push("/collections")}>Back to Collections</button>
@@ -228,6 +238,47 @@ export function EditCollectionForm({ collection, artifactCount = 0 }: EditCollec
           </div>
         </div>
 
+        {families && (
+          <div className="space-y-2">
+            <Label htmlFor="family_id" className="text-sm font-medium">
+              Family
+            </Label>
+            <Select
+              value={form.watch("family_id") || NO_FAMILY}
+              onValueChange={(value) => form.setValue("family_id", value === NO_FAMILY ? null : value)}
+            >
+              <SelectTrigger id="family_id" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_FAMILY}>
+                  <span className="text-muted-foreground">Not shared with a family</span>
+                </SelectItem>
+                {families.map((family) => (
+                  <SelectItem key={family.id} value={family.id}>
+                    {family.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              {families.length === 0 ? (
+                <>
+                  <Link href="/families" className="underline">
+                    Create a family
+                  </Link>{" "}
+                  to share this collection with relatives
+                </>
+              ) : (
+                "Family members see this collection; contributors can add artifacts and editors can edit them"
+              )}
+            </p>
+            {form.formState.errors.family_id && (
+              <p className="text-sm text-destructive">{form.formState.errors.family_id.message}</p>
+            )}
+          </div>
+        )}
+
         <div className="flex gap-4">
           <Button type="submit" disabled={isSubmitting}>
             {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -236,7 +287,7 @@ export function EditCollectionForm({ collection, artifactCount = 0 }: EditCollec
           <Button
             type="button"
             variant="outline"
-            onClick={() => handleNavigation(`/collections/${collection.slug}`)}
+            onClick={() => handleNavigation(getCollectionPath(collection))}
             disabled={isSubmitting}
           >
             Cancel
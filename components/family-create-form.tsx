@@ -0,0 +1,52 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { createFamily } from "@/lib/actions/families"
+
+export function FamilyCreateForm() {
+  const router = useRouter()
+  const [name, setName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    const result = await createFamily({ name })
+
+    if (result.success && result.data) {
+      router.push(`/families/${result.data.id}`)
+      return
+    }
+
+    setError(result.fieldErrors?.name?.[0] || result.error || "Failed to create family")
+    setIsSubmitting(false)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Label htmlFor="family-name">New family</Label>
+      <div className="flex gap-2">
+        <Input
+          id="family-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="The Rossi Family"
+          maxLength={100}
+        />
+        <Button type="submit" disabled={isSubmitting || !name.trim()}>
+          {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          Create
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </form>
+  )
+}
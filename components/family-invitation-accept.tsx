@@ -0,0 +1,33 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { acceptFamilyInvitation } from "@/lib/actions/families"
+
+export function FamilyInvitationAccept({ token }: { token: string }) {
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleAccept = async () => {
+    setIsSubmitting(true)
+    setError(null)
+
+    // Redirects to the family on success, so only errors come back
+    const result = await acceptFamilyInvitation(token)
+    if (result?.error) {
+      setError(result.error)
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button className="w-full" onClick={handleAccept} disabled={isSubmitting}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Join family
+      </Button>
+      {error && <p className="text-center text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { Copy, Loader2, LogOut, Mail, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  inviteFamilyMember,
+  removeFamilyMember,
+  revokeFamilyInvitation,
+  updateFamilyMemberRole,
+} from "@/lib/actions/families"
+import type { FamilyInvitation, FamilyMember, FamilyRole } from "@/lib/types/families"
+import { FAMILY_ROLES, FAMILY_ROLE_DESCRIPTIONS, FAMILY_ROLE_LABELS, hasFamilyRole } from "@/lib/utils/family-roles"
+
+interface FamilyMembersManagerProps {
+  familyId: string
+  currentUserId: string
+  role: FamilyRole
+  members: FamilyMember[]
+  invitations: FamilyInvitation[]
+}
+
+/**
+ * Member list, invitations and invite form for a family
+ * Editors manage everyone; other members can only leave
+ */
+export function FamilyMembersManager({ familyId, currentUserId, role, members, invitations }: FamilyMembersManagerProps) {
+  const router = useRouter()
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const isEditor = hasFamilyRole(role, "editor")
+
+  const runAction = async (id: string, action: () => Promise<{ success: boolean; error?: string }>) => {
+    setPendingId(id)
+    const result = await action()
+    setPendingId(null)
+
+    if (!result.success) {
+      toast.error(result.error || "Something went wrong")
+      return false
+    }
+
+    router.refresh()
+    return true
+  }
+
+  const handleLeave = async (memberId: string) => {
+    if (await runAction(memberId, () => removeFamilyMember(memberId))) {
+      router.push("/families")
+    }
+  }
+
+  const handleCopyInvite = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/families/join/${token}`)
+      toast.success("Invite link copied")
+    } catch {
+      toast.error("Couldn't copy link")
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Members</h2>
+        <ul className="divide-y rounded-lg border">
+          {members.map((member) => {
+            const isSelf = member.user_id === currentUserId
+            const isPending = pendingId === member.id
+
+            return (
+              <li key={member.id} className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">
+                    {member.display_name || "Unnamed member"}
+                    {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                  </p>
+                  {!isEditor && <p className="text-xs text-muted-foreground">{FAMILY_ROLE_LABELS[member.role]}</p>}
+                </div>
+
+                <div className="flex shrink-0 items-center gap-2">
+                  {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                  {isEditor && (
+                    <Select
+                      value={member.role}
+                      onValueChange={(next) =>
+                        runAction(member.id, () => updateFamilyMemberRole(member.id, next as FamilyRole))
+                      }
+                      disabled={isPending}
+                    >
+                      <SelectTrigger className="h-8 w-32" aria-label={`Role for ${member.display_name || "member"}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FAMILY_ROLES.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {FAMILY_ROLE_LABELS[option]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {isSelf ? (
+                    <Button variant="outline" size="sm" onClick={() => handleLeave(member.id)} disabled={isPending}>
+                      <LogOut className="mr-2 h-4 w-4" />
+                      Leave
+                    </Button>
+                  ) : (
+                    isEditor && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => runAction(member.id, () => removeFamilyMember(member.id))}
+                        disabled={isPending}
+                        aria-label={`Remove ${member.display_name || "member"}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      </section>
+
+      {isEditor && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Invite a relative</h2>
+          <FamilyInviteForm familyId={familyId} onInvited={() => router.refresh()} />
+
+          {invitations.length > 0 && (
+            <div className="space-y-2 pt-2">
+              <h3 className="text-sm font-medium text-muted-foreground">Pending invitations</h3>
+              <ul className="divide-y rounded-lg border">
+                {invitations.map((invitation) => {
+                  const isExpired = new Date(invitation.expires_at) <= new Date()
+
+                  return (
+                    <li key={invitation.id} className="flex items-center justify-between gap-3 p-3">
+                      <div className="min-w-0">
+                        <p className="truncate text-sm">{invitation.email}</p>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground">{FAMILY_ROLE_LABELS[invitation.role]}</span>
+                          {isExpired && <Badge variant="outline">Expired</Badge>}
+                        </div>
+                      </div>
+                      <div className="flex shrink-0 items-center gap-1">
+                        {!isExpired && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleCopyInvite(invitation.token)}
+                            aria-label="Copy invite link"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => runAction(invitation.id, () => revokeFamilyInvitation(invitation.id))}
+                          disabled={pendingId === invitation.id}
+                          aria-label="Revoke invitation"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  )
+}
+
+function FamilyInviteForm({ familyId, onInvited }: { familyId: string; onInvited: () => void }) {
+  const [email, setEmail] = useState("")
+  const [role, setRole] = useState<FamilyRole>("viewer")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    const result = await inviteFamilyMember({ family_id: familyId, email, role })
+    setIsSubmitting(false)
+
+    if (!result.success) {
+      setError(result.fieldErrors?.email?.[0] || result.error || "Failed to send invitation")
+      return
+    }
+
+    if (result.warning) {
+      toast.warning(result.warning)
+    } else {
+      toast.success(`Invitation sent to ${email}`)
+    }
+    setEmail("")
+    onInvited()
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <div className="flex-1 space-y-1.5">
+          <Label htmlFor="invite-email" className="sr-only">
+            Email
+          </Label>
+          <Input
+            id="invite-email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="cousin@example.com"
+          />
+        </div>
+        <Select value={role} onValueChange={(next) => setRole(next as FamilyRole)}>
+          <SelectTrigger className="sm:w-36" aria-label="Role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FAMILY_ROLES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {FAMILY_ROLE_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={isSubmitting || !email.trim()}>
+          {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+          Invite
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">{FAMILY_ROLE_DESCRIPTIONS[role]}</p>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </form>
+  )
+}
@@ -0,0 +1,28 @@
+import { AudioPlayer } from "@/components/audio-player"
+import type { InterviewAnswer } from "@/lib/types/interviews"
+
+interface InterviewAnswersProps {
+  answers: InterviewAnswer[]
+}
+
+/**
+ * Recorded interview answers, question by question, with the original recording
+ */
+export function InterviewAnswers({ answers }: InterviewAnswersProps) {
+  const answered = answers.filter((answer) => answer.transcript.trim() || answer.audio_url)
+  if (answered.length === 0) return null
+
+  return (
+    <ol className="space-y-5">
+      {answered.map((answer) => (
+        <li key={answer.question_key} className="space-y-2">
+          <p className="text-sm font-semibold text-foreground">{answer.question}</p>
+          {answer.audio_url && <AudioPlayer src={answer.audio_url} title={answer.question} />}
+          {answer.transcript.trim() && (
+            <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">{answer.transcript}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
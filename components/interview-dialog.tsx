@@ -0,0 +1,290 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, ArrowRight, Check, Loader2, Sparkles } from "lucide-react"
+import { toast } from "sonner"
+import { AudioRecorder } from "@/components/audio-recorder"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Progress } from "@/components/ui/progress"
+import { Textarea } from "@/components/ui/textarea"
+import { saveInterviewAnswer } from "@/lib/actions/interviews"
+import { fetchJson } from "@/lib/fetchJson"
+import { createClient } from "@/lib/supabase/client"
+import type { InterviewAnswer, InterviewQuestion } from "@/lib/types/interviews"
+
+const STORAGE_BUCKET = "heirlooms-media"
+
+interface InterviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  artifactId: string
+  userId: string
+  questions: InterviewQuestion[]
+  answers: InterviewAnswer[]
+  onAnswersChange: (answers: InterviewAnswer[]) => void
+  // The artifact's language_hint, passed on to transcription
+  language?: string | null
+}
+
+/**
+ * Guided interview: one question at a time, answered out loud
+ * Each answer is transcribed as soon as recording stops so it can be corrected before
+ * saving. The finished Q&A transcript can then be turned into the AI description.
+ */
+export function InterviewDialog({
+  open,
+  onOpenChange,
+  artifactId,
+  userId,
+  questions,
+  answers,
+  onAnswersChange,
+  language,
+}: InterviewDialogProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [index, setIndex] = useState(0)
+  const [recording, setRecording] = useState<{ blob: Blob; fileName: string } | null>(null)
+  const [transcript, setTranscript] = useState("")
+  const [isTranscribing, setIsTranscribing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isSummarizing, setIsSummarizing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // index === questions.length is the closing step
+  const isFinished = index >= questions.length
+  const question = questions[index]
+  const existingAnswer = question ? answers.find((answer) => answer.question_key === question.key) : undefined
+  const isBusy = isTranscribing || isSaving
+  const answeredCount = questions.filter((candidate) =>
+    answers.some((answer) => answer.question_key === candidate.key),
+  ).length
+
+  const goTo = (nextIndex: number) => {
+    const nextQuestion = questions[nextIndex]
+    setIndex(nextIndex)
+    setRecording(null)
+    setError(null)
+    setTranscript(answers.find((answer) => answer.question_key === nextQuestion?.key)?.transcript || "")
+  }
+
+  // Each time the interview opens, pick up at the first unanswered question
+  useEffect(() => {
+    if (!open) return
+    const firstUnanswered = questions.findIndex(
+      (candidate) => !answers.some((answer) => answer.question_key === candidate.key),
+    )
+    goTo(firstUnanswered === -1 ? 0 : firstUnanswered)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  const handleAudioRecorded = async (blob: Blob, fileName: string) => {
+    setRecording({ blob, fileName })
+    setIsTranscribing(true)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append("audio", blob, fileName)
+      formData.append("fieldType", "interview")
+      if (language) formData.append("language", language)
+
+      const response = await fetch("/api/transcribe", { method: "POST", body: formData })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to transcribe audio")
+      }
+
+      setTranscript(data.transcription || "")
+    } catch (err) {
+      console.error("[InterviewDialog] Transcription failed:", err)
+      setError("We couldn't transcribe that answer. You can type it instead, or record it again.")
+    } finally {
+      setIsTranscribing(false)
+    }
+  }
+
+  const uploadRecording = async (blob: Blob, fileName: string) => {
+    const supabase = createClient()
+    const storagePath = `${userId}/interviews/${artifactId}/${question.key}-${fileName}`
+    const mimeType = blob.type.split(";")[0] || "audio/webm"
+
+    const { data, error: uploadError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .upload(storagePath, blob, { cacheControl: "3600", upsert: false, contentType: mimeType })
+
+    if (uploadError) {
+      throw new Error(uploadError.message)
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from(STORAGE_BUCKET).getPublicUrl(data.path)
+
+    return {
+      storage_path: data.path,
+      public_url: publicUrl,
+      filename: fileName,
+      mime_type: mimeType,
+      file_size_bytes: blob.size,
+    }
+  }
+
+  const handleSave = async () => {
+    if (!question) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const audio = recording ? await uploadRecording(recording.blob, recording.fileName) : null
+
+      const result = await saveInterviewAnswer({
+        artifact_id: artifactId,
+        question_key: question.key,
+        question: question.prompt,
+        transcript,
+        audio,
+      })
+
+      if (result.error || !result.data) {
+        setError(result.error || "Failed to save answer")
+        return
+      }
+
+      onAnswersChange(result.data)
+      goTo(index + 1)
+    } catch (err) {
+      console.error("[InterviewDialog] Failed to save answer:", err)
+      setError("We couldn't save that recording. Please try again.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSummarize = async () => {
+    setIsSummarizing(true)
+
+    try {
+      await fetchJson("/api/analyze/summary", { body: { artifactId } })
+      toast.success("Description written from the interview")
+      onOpenChange(false)
+      startTransition(() => {
+        router.refresh()
+      })
+    } catch (err) {
+      console.error("[InterviewDialog] Summary failed:", err)
+      toast.error(err instanceof Error ? err.message : "Failed to write description")
+    } finally {
+      setIsSummarizing(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isBusy && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Interview</DialogTitle>
+          <DialogDescription>
+            {isFinished
+              ? "Thank you. Every answer you saved is kept with this artifact."
+              : `Question ${index + 1} of ${questions.length}. Press record and answer in your own words.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Progress value={(Math.min(index, questions.length) / Math.max(questions.length, 1)) * 100} />
+
+        {isFinished ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {answeredCount} of {questions.length} {questions.length === 1 ? "question" : "questions"} answered.
+            </p>
+            <div className="flex flex-wrap justify-between gap-2">
+              <Button type="button" variant="outline" onClick={() => goTo(0)} disabled={isSummarizing}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Review answers
+              </Button>
+              <Button
+                type="button"
+                variant="purple"
+                onClick={handleSummarize}
+                disabled={answeredCount === 0 || isSummarizing || isPending}
+              >
+                {isSummarizing || isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Sparkles className="mr-2 h-4 w-4" />
+                )}
+                Write description from interview
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <p className="text-xl font-semibold leading-snug text-pretty">{question.prompt}</p>
+              {question.hint && <p className="text-sm text-muted-foreground">{question.hint}</p>}
+            </div>
+
+            <AudioRecorder
+              key={question.key}
+              onAudioRecorded={handleAudioRecorded}
+              onClear={() => setRecording(null)}
+              disabled={isBusy}
+            />
+
+            {existingAnswer?.audio_url && !recording && (
+              <p className="text-xs text-muted-foreground">
+                Already answered. Record again to replace the saved recording.
+              </p>
+            )}
+
+            <div className="space-y-1">
+              {isTranscribing ? (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Writing down what you said...
+                </p>
+              ) : (
+                <Textarea
+                  value={transcript}
+                  onChange={(event) => setTranscript(event.target.value)}
+                  placeholder="The answer appears here once recorded. You can also type it."
+                  rows={5}
+                  disabled={isSaving}
+                />
+              )}
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex flex-wrap justify-between gap-2">
+              <Button type="button" variant="ghost" onClick={() => goTo(index - 1)} disabled={index === 0 || isBusy}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back
+              </Button>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={() => goTo(index + 1)} disabled={isBusy}>
+                  Skip
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="purple"
+                  onClick={handleSave}
+                  disabled={isBusy || (!recording && transcript.trim().length === 0)}
+                >
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                  Save answer
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
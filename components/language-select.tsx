@@ -0,0 +1,46 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { HelpText } from "@/components/ui/help-text"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { LANGUAGES, type LanguageCode } from "@/lib/utils/translations"
+
+const NOT_SET = "none"
+
+interface LanguageSelectProps {
+  id?: string
+  value: LanguageCode | null
+  onChange: (value: LanguageCode | null) => void
+  disabled?: boolean
+}
+
+/**
+ * Picks the artifact's language_hint: the language its recordings and description are in
+ */
+export function LanguageSelect({ id = "language-hint", value, onChange, disabled }: LanguageSelectProps) {
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor={id} className="text-sm">
+        Language
+      </Label>
+      <Select
+        value={value || NOT_SET}
+        onValueChange={(next) => onChange(next === NOT_SET ? null : (next as LanguageCode))}
+        disabled={disabled}
+      >
+        <SelectTrigger id={id} className="w-full sm:w-64">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NOT_SET}>Detect automatically</SelectItem>
+          {LANGUAGES.map((language) => (
+            <SelectItem key={language.code} value={language.code}>
+              {language.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <HelpText>The language spoken in the recordings. Transcripts and AI descriptions are written in it.</HelpText>
+    </div>
+  )
+}
@@ -21,7 +21,11 @@ import { GenerateVideoSummaryButton } from "@/components/artifact/GenerateVideoS
 import { ArtifactImageWithViewer } from "@/components/artifact-image-with-viewer"
 import { useRouter } from "next/navigation"
 import { CollectionPicker } from "@/components/collection-picker"
+import { LanguageSelect } from "@/components/language-select"
 import ArtifactTypeSelector from "@/components/artifact-type-selector"
+import { ArtifactAttributesEditor } from "@/components/artifact-attributes-editor"
+import type { ArtifactAttributes, ArtifactType } from "@/lib/types/artifact-types"
+import { compactAttributes } from "@/lib/utils/artifact-attributes"
 import { getArtifactTypes } from "@/lib/actions/artifact-types"
 import { SectionTitle } from "@/components/ui/section-title"
 import {
@@ -64,7 +68,9 @@ export default function NewArtifactForm({ collectionId, userId }: NewArtifactFor
   const [blocksInitialAction, setBlocksInitialAction] = useState<"upload" | "camera" | "video" | "audio" | null>(null)
   const [selectedThumbnailUrl, setSelectedThumbnailUrl] = useState<string | null>(null)
   const [selectedTypeId, setSelectedTypeId] = useState<string | null>(null)
-  const [artifactTypes, setArtifactTypes] = useState<any[]>([])
+  const [artifactTypes, setArtifactTypes] = useState<ArtifactType[]>([])
+  const [attributes, setAttributes] = useState<ArtifactAttributes>({})
+  const [attributeErrors, setAttributeErrors] = useState<Record<string, string>>({})
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false)
   const [mediaActionModalOpen, setMediaActionModalOpen] = useState(false)
   const [mediaToAction, setMediaToAction] = useState<string | null>(null)
@@ -88,6 +94,7 @@ export default function NewArtifactForm({ collectionId, userId }: NewArtifactFor
       origin: "",
       media_urls: [],
       type_id: undefined,
+      language_hint: null,
     },
   })
 
@@ -282,6 +289,7 @@ export default function NewArtifactForm({ collectionId, userId }: NewArtifactFor
       (url) => isImageUrl(url) || isVideoUrl(url)
     )
     const thumbnailUrl = selectedThumbnailUrl || allVisualUrls[0] || null
+    const attributeDefinitions = artifactTypes.find((type) => type.id === selectedTypeId)?.attribute_schema || []
 
     const submitData = {
       ...data,
@@ -291,6 +299,7 @@ export default function NewArtifactForm({ collectionId, userId }: NewArtifactFor
       video_summaries: Object.keys(videoSummaries).length > 0 ? videoSummaries : undefined,
       audio_transcripts: Object.keys(audioTranscripts).length > 0 ? audioTranscripts : undefined,
       type_id: selectedTypeId,
+      attributes: compactAttributes(attributeDefinitions, attributes),
       // Pass gallery URLs separately so createArtifact can create artifact_media links
       gallery_urls: normalizedGalleryUrls,
     }
@@ -303,7 +312,12 @@ export default function NewArtifactForm({ collectionId, userId }: NewArtifactFor
     if (result?.error) {
       setIsSubmitting(false)
       if (result.fieldErrors) {
+        const nextAttributeErrors: Record<string, string> = {}
         Object.entries(result.fieldErrors).forEach(([field, messages]) => {
+          if (field.startsWith("attributes.") && Array.isArray(messages) && messages.length > 0) {
+            nextAttributeErrors[field.slice("attributes.".length)] = messages[0]
+            return
+          }
           if (messages && Array.isArray(messages) && messages.length > 0) {
             form.setError(field as keyof FormData, {
               type: "server",
@@ -311,6 +325,10 @@ export default function NewArtifactForm({ collectionId, userId }: NewArtifactFor
             })
           }
         })
+        setAttributeErrors(nextAttributeErrors)
+        if (Object.keys(nextAttributeErrors).length > 0) {
+          setIsAttributesOpen(true)
+        }
         const errorSummary = Object.entries(result.fieldErrors)
           .map(([field, messages]) => `${field}: ${Array.isArray(messages) ? messages.join(", ") : messages}`)
           .join("; ")
@@ -392,6 +410,18 @@ export default function NewArtifactForm({ collectionId, userId }: NewArtifactFor
           )}
         />
 
+        {/* Language Section */}
+        <FormField
+          control={form.control}
+          name="language_hint"
+          render={({ field }) => (
+            <FormItem>
+              <LanguageSelect value={field.value || null} onChange={field.onChange} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Collection Section */}
         <FormField
           control={form.control}
@@ -435,10 +465,12 @@ export default function NewArtifactForm({ collectionId, userId }: NewArtifactFor
               </CollapsibleTrigger>
               <CollapsibleContent>
                 <div className="px-3 pb-3">
-                  <p className="text-sm text-muted-foreground italic">
-                    No attributes added yet. Future updates will include fields for make, model, year, measurements,
-                    materials, and condition.
-                  </p>
+                  <ArtifactAttributesEditor
+                    definitions={artifactTypes.find((type) => type.id === selectedTypeId)?.attribute_schema || []}
+                    values={attributes}
+                    onChange={setAttributes}
+                    errors={attributeErrors}
+                  />
                 </div>
               </CollapsibleContent>
             </div>
@@ -569,6 +601,7 @@ export default function NewArtifactForm({ collectionId, userId }: NewArtifactFor
                             audioUrl={url}
                             onTranscriptGenerated={handleAudioTranscriptGenerated}
                             currentTranscript={transcript}
+                            language={form.watch("language_hint")}
                           />
                         </div>
                         {transcript && (
@@ -11,6 +11,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { AlertCircle, Loader2 } from "lucide-react"
 import { createCollection } from "@/lib/actions/collections"
 import { collectionSchema, type CollectionInput } from "@/lib/schemas"
+import { getCollectionPath } from "@/lib/utils/routes"
 import { TranscriptionInput } from "@/components/transcription-input"
 import { useSupabase } from "@/lib/supabase/browser-context"
 import { ArtifactTypeSelector } from "@/components/artifact-type-selector"
@@ -59,7 +60,7 @@ export function NewCollectionForm() {
 
     if (result.success) {
       // Navigate directly to the new collection
-      router.push(`/collections/${result.data.slug || result.data.id}`)
+      router.push(getCollectionPath(result.data))
       return
     } else {
       setIsSubmitting(false)
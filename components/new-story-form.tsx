@@ -0,0 +1,83 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { createStory } from "@/lib/actions/stories"
+
+/**
+ * Start a story with a title; the blocks are written in the story's edit mode
+ */
+export function NewStoryForm() {
+  const router = useRouter()
+  const [title, setTitle] = useState("")
+  const [description, setDescription] = useState("")
+  const [isPublic, setIsPublic] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    const result = await createStory({ title, description: description || undefined, is_public: isPublic })
+
+    if (result.success && result.data) {
+      router.push(`/stories/${result.data.slug}?mode=edit`)
+      return
+    }
+
+    setError(result.fieldErrors?.title?.[0] || result.fieldErrors?.description?.[0] || result.error || "Failed to create story")
+    setIsSubmitting(false)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="story-title">Title</Label>
+        <Input
+          id="story-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Grandma's journey from Naples"
+          maxLength={200}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="story-description">Summary</Label>
+        <Textarea
+          id="story-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="A sentence or two about what this story is about..."
+          rows={3}
+          maxLength={1000}
+        />
+      </div>
+
+      <div className="flex flex-row items-start space-x-3 rounded-md border p-4">
+        <Checkbox id="story-is-public" checked={isPublic} onCheckedChange={(checked) => setIsPublic(checked === true)} />
+        <div className="space-y-1 leading-none">
+          <Label htmlFor="story-is-public">Make this story public</Label>
+          <p className="text-sm text-muted-foreground">
+            Public stories can be read by anyone. Embedded artifacts still follow their own privacy settings.
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button type="submit" disabled={isSubmitting || !title.trim()} className="w-full">
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Create Story
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,169 @@
+"use client"
+
+import { useState } from "react"
+import { Plus, Trash2, UserPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { ArtifactPersonLink, Person, PersonRole } from "@/lib/types/people"
+import { PERSON_ROLES, PERSON_ROLE_LABELS } from "@/lib/utils/people"
+import { PersonFormDialog } from "./person-form-dialog"
+import { PersonPortrait } from "./person-portrait"
+
+interface ArtifactPeopleEditorProps {
+  links: ArtifactPersonLink[]
+  onChange: (links: ArtifactPersonLink[]) => void
+  // The owner's people directory
+  people: Person[]
+  onPersonCreated: (person: Person) => void
+  // New people go in the current user's directory, so only the owner adds them here
+  canAddPeople?: boolean
+}
+
+/**
+ * Link people from the owner's directory to an artifact, each in a role
+ * Someone new can be added to the directory without leaving the artifact
+ */
+export function ArtifactPeopleEditor({
+  links,
+  onChange,
+  people,
+  onPersonCreated,
+  canAddPeople = true,
+}: ArtifactPeopleEditorProps) {
+  const [personId, setPersonId] = useState<string>("")
+  const [role, setRole] = useState<PersonRole>("original_owner")
+  const [isAddingPerson, setIsAddingPerson] = useState(false)
+  const [formKey, setFormKey] = useState(0)
+
+  const peopleById = new Map(people.map((person) => [person.id, person]))
+  const isLinked = (link: ArtifactPersonLink) =>
+    links.some((existing) => existing.person_id === link.person_id && existing.role === link.role)
+
+  const addLink = (link: ArtifactPersonLink) => {
+    if (!isLinked(link)) onChange([...links, link])
+    setPersonId("")
+  }
+
+  return (
+    <div className="space-y-3">
+      {links.length === 0 && (
+        <p className="text-sm text-muted-foreground italic">
+          No one linked yet. Link who owned, made, is pictured in or tells the story of this
+          artifact.
+        </p>
+      )}
+
+      {links.length > 0 && (
+        <ul className="space-y-2">
+          {links.map((link, index) => {
+            const person = peopleById.get(link.person_id)
+            if (!person) return null
+
+            return (
+              <li key={`${link.person_id}-${link.role}`} className="flex items-center gap-2">
+                <PersonPortrait person={person} className="size-8" />
+                <span className="min-w-0 flex-1 truncate text-sm font-medium">{person.name}</span>
+                <Select
+                  value={link.role}
+                  onValueChange={(value) => {
+                    const next = { ...link, role: value as PersonRole }
+                    if (isLinked(next)) return
+                    onChange(links.map((existing, i) => (i === index ? next : existing)))
+                  }}
+                >
+                  <SelectTrigger className="h-9 w-40" aria-label={`${person.name}'s role`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PERSON_ROLES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {PERSON_ROLE_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  onClick={() => onChange(links.filter((_, i) => i !== index))}
+                  aria-label={`Unlink ${person.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={personId} onValueChange={setPersonId} disabled={people.length === 0}>
+          <SelectTrigger className="h-9 min-w-0 flex-1" aria-label="Person">
+            <SelectValue placeholder={people.length === 0 ? "No people yet" : "Choose a person"} />
+          </SelectTrigger>
+          <SelectContent>
+            {people.map((person) => (
+              <SelectItem key={person.id} value={person.id}>
+                {person.relationship ? `${person.name} (${person.relationship})` : person.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={role} onValueChange={(value) => setRole(value as PersonRole)}>
+          <SelectTrigger className="h-9 w-40" aria-label="Role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERSON_ROLES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {PERSON_ROLE_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => addLink({ person_id: personId, role })}
+          disabled={!personId}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Link
+        </Button>
+        {canAddPeople && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setFormKey((key) => key + 1)
+              setIsAddingPerson(true)
+            }}
+          >
+            <UserPlus className="mr-1 h-4 w-4" />
+            New person
+          </Button>
+        )}
+      </div>
+
+      <PersonFormDialog
+        key={formKey}
+        open={isAddingPerson}
+        onOpenChange={setIsAddingPerson}
+        onSaved={(person) => {
+          onPersonCreated(person)
+          addLink({ person_id: person.id, role })
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Download, Loader2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { importGedcom } from "@/lib/actions/gedcom"
+
+/**
+ * Import people from a family tree (.ged) and download the directory as GEDCOM
+ */
+export function GedcomActions() {
+  const router = useRouter()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  async function handleFile(file: File) {
+    setIsImporting(true)
+
+    try {
+      const result = await importGedcom({ content: await file.text() })
+
+      if (result.error || !result.data) {
+        toast.error(result.error || "Failed to import family tree")
+        return
+      }
+
+      const { created, updated, unchanged, skipped } = result.data
+      const summary = [
+        `${created} added`,
+        updated > 0 && `${updated} updated`,
+        unchanged > 0 && `${unchanged} already up to date`,
+      ]
+        .filter(Boolean)
+        .join(", ")
+      toast.success(`Imported ${file.name}: ${summary}`, {
+        description:
+          skipped.length > 0
+            ? `Skipped ${skipped.length} listed more than once: ${skipped
+                .slice(0, 5)
+                .join(", ")}${skipped.length > 5 ? "…" : ""}`
+            : undefined,
+      })
+      router.refresh()
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".ged,.gedcom"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ""
+          if (file) handleFile(file)
+        }}
+      />
+      <Button
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isImporting}
+      >
+        {isImporting ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Upload className="mr-2 h-4 w-4" />
+        )}
+        Import GEDCOM
+      </Button>
+      <Button asChild variant="outline">
+        <a href="/api/people/gedcom" download>
+          <Download className="mr-2 h-4 w-4" />
+          Export GEDCOM
+        </a>
+      </Button>
+    </>
+  )
+}
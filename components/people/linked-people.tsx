@@ -0,0 +1,47 @@
+import Link from "next/link"
+import type { LinkedPerson } from "@/lib/types/people"
+import { PERSON_ROLE_LABELS, formatLifeDates } from "@/lib/utils/people"
+import { getPersonPath } from "@/lib/utils/routes"
+import { PersonPortrait } from "./person-portrait"
+
+interface LinkedPeopleProps {
+  people: LinkedPerson[]
+}
+
+/**
+ * People linked to an artifact with their roles (original owner, maker...)
+ */
+export function LinkedPeople({ people }: LinkedPeopleProps) {
+  if (people.length === 0) return null
+
+  return (
+    <ul className="space-y-2">
+      {people.map((person) => {
+        const lifeDates = formatLifeDates(person.birth_date, person.death_date)
+
+        return (
+          <li key={person.id}>
+            <Link
+              href={getPersonPath(person)}
+              className="flex items-center gap-3 rounded-md p-1 hover:bg-accent"
+            >
+              <PersonPortrait person={person} className="size-9" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium leading-tight">{person.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    person.roles.map((role) => PERSON_ROLE_LABELS[role]).join(", "),
+                    person.relationship,
+                    lifeDates,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </div>
+            </Link>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { Person } from "@/lib/types/people"
+import { GedcomActions } from "./gedcom-actions"
+import { PersonCard } from "./person-card"
+import { PersonFormDialog } from "./person-form-dialog"
+
+interface PeopleDirectoryProps {
+  people: Person[]
+}
+
+/**
+ * The account holder's people, with buttons to add someone and to import or export a family tree
+ */
+export function PeopleDirectory({ people }: PeopleDirectoryProps) {
+  const router = useRouter()
+  const [isAdding, setIsAdding] = useState(false)
+  // Remount the form so each new person starts empty
+  const [formKey, setFormKey] = useState(0)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-end gap-2">
+        <GedcomActions />
+        <Button
+          onClick={() => {
+            setFormKey((key) => key + 1)
+            setIsAdding(true)
+          }}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Person
+        </Button>
+      </div>
+
+      {people.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-12 text-center">
+          <p className="text-sm text-muted-foreground">
+            No people yet. Add relatives here, import them from a family tree, or accept the people
+            AI analysis finds in your artifacts.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {people.map((person) => (
+            <PersonCard key={person.id} person={person} />
+          ))}
+        </div>
+      )}
+
+      <PersonFormDialog
+        key={formKey}
+        open={isAdding}
+        onOpenChange={setIsAdding}
+        onSaved={() => router.refresh()}
+      />
+    </div>
+  )
+}
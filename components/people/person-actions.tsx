@@ -0,0 +1,92 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2, Pencil, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { deletePerson } from "@/lib/actions/people"
+import type { Person } from "@/lib/types/people"
+import { PersonFormDialog } from "./person-form-dialog"
+
+interface PersonActionsProps {
+  person: Person
+}
+
+/**
+ * Edit and delete buttons for a person's owner
+ */
+export function PersonActions({ person }: PersonActionsProps) {
+  const router = useRouter()
+  const [isEditing, setIsEditing] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const handleDelete = async () => {
+    setIsDeleting(true)
+    const result = await deletePerson(person.id)
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete person")
+      setIsDeleting(false)
+      return
+    }
+
+    toast.success(`${person.name} removed from your people`)
+    router.push("/people")
+    router.refresh()
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+        <Pencil className="mr-2 h-4 w-4" />
+        Edit
+      </Button>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isDeleting}>
+            {isDeleting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Trash2 className="mr-2 h-4 w-4" />
+            )}
+            Delete
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {person.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They&apos;ll be removed from your people and unlinked from every artifact. The
+              artifacts themselves aren&apos;t changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <PersonFormDialog
+        key={person.updated_at}
+        open={isEditing}
+        onOpenChange={setIsEditing}
+        person={person}
+        onSaved={() => router.refresh()}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import Link from "next/link"
+import type { Person } from "@/lib/types/people"
+import { formatLifeDates } from "@/lib/utils/people"
+import { getPersonPath } from "@/lib/utils/routes"
+import { PersonPortrait } from "./person-portrait"
+
+interface PersonCardProps {
+  person: Person
+}
+
+export function PersonCard({ person }: PersonCardProps) {
+  const lifeDates = formatLifeDates(person.birth_date, person.death_date)
+
+  return (
+    <Link
+      href={getPersonPath(person)}
+      className="flex items-center gap-3 rounded-lg border p-3 transition-colors hover:bg-accent"
+    >
+      <PersonPortrait person={person} className="size-12" />
+      <div className="min-w-0">
+        <p className="truncate font-medium leading-tight">{person.name}</p>
+        {person.relationship && (
+          <p className="truncate text-sm text-muted-foreground">{person.relationship}</p>
+        )}
+        {lifeDates && <p className="text-xs text-muted-foreground">{lifeDates}</p>}
+      </div>
+    </Link>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { MediaPicker } from "@/components/media-picker"
+import { createPerson, updatePerson } from "@/lib/actions/people"
+import type { Person } from "@/lib/types/people"
+import { PersonPortrait } from "./person-portrait"
+
+// Stable references - MediaPicker reloads the library when these change
+const NO_EXCLUDED_URLS: string[] = []
+const IMAGE_TYPES: "image"[] = ["image"]
+
+interface PersonFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Edit this person; add a new one when missing
+  person?: Person
+  onSaved: (person: Person) => void
+}
+
+/**
+ * Add someone to the people directory, or edit their name, relationship, life dates and portrait
+ */
+export function PersonFormDialog({ open, onOpenChange, person, onSaved }: PersonFormDialogProps) {
+  const [name, setName] = useState(person?.name ?? "")
+  const [relationship, setRelationship] = useState(person?.relationship ?? "")
+  const [birthDate, setBirthDate] = useState(person?.birth_date ?? "")
+  const [deathDate, setDeathDate] = useState(person?.death_date ?? "")
+  const [portrait, setPortrait] = useState<{ id: string; url: string } | null>(
+    person?.portrait_media_id && person.portrait_url
+      ? { id: person.portrait_media_id, url: person.portrait_url }
+      : null
+  )
+  const [isPickingPortrait, setIsPickingPortrait] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setIsSaving(true)
+    setErrors({})
+
+    const input = {
+      name,
+      relationship: relationship || null,
+      birth_date: birthDate.trim() || null,
+      death_date: deathDate.trim() || null,
+      portrait_media_id: portrait?.id ?? null,
+    }
+
+    try {
+      const result = person ? await updatePerson(person.id, input) : await createPerson(input)
+
+      if (result.error || !result.data) {
+        const fieldErrors: Record<string, string> = {}
+        for (const [field, messages] of Object.entries(result.fieldErrors || {})) {
+          if (messages[0]) fieldErrors[field] = messages[0]
+        }
+        setErrors(fieldErrors)
+        toast.error(result.error || "Failed to save person")
+        return
+      }
+
+      toast.success(person ? "Person updated" : `${result.data.name} added to your people`)
+      onSaved(result.data)
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={isPickingPortrait ? "sm:max-w-2xl" : "sm:max-w-md"}>
+        <DialogHeader>
+          <DialogTitle>
+            {isPickingPortrait ? "Choose a portrait" : person ? "Edit person" : "Add a person"}
+          </DialogTitle>
+          <DialogDescription>
+            {isPickingPortrait
+              ? "Choose a photo from your media library."
+              : "Relatives and anyone else your heirlooms are connected to."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPickingPortrait ? (
+          <div className="space-y-3">
+            <MediaPicker
+              multiSelect={false}
+              allowedTypes={IMAGE_TYPES}
+              excludeUrls={NO_EXCLUDED_URLS}
+              onSelect={([media]) => {
+                if (media) setPortrait({ id: media.id, url: media.public_url })
+                setIsPickingPortrait(false)
+              }}
+            />
+            <Button type="button" variant="ghost" onClick={() => setIsPickingPortrait(false)}>
+              Back
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex items-center gap-3">
+              <PersonPortrait
+                person={{ name: name || "?", portrait_url: portrait?.url ?? null }}
+                className="size-16"
+              />
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsPickingPortrait(true)}
+                >
+                  {portrait ? "Change portrait" : "Add portrait"}
+                </Button>
+                {portrait && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setPortrait(null)}>
+                    <X className="mr-1 h-4 w-4" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="person-name">Name</Label>
+              <Input
+                id="person-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Rosa Bianchi"
+                maxLength={200}
+                required
+              />
+              {errors.name && <p className="text-xs text-destructive">{errors.name}</p>}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="person-relationship">Relationship to you</Label>
+              <Input
+                id="person-relationship"
+                value={relationship}
+                onChange={(e) => setRelationship(e.target.value)}
+                placeholder="Grandmother"
+                maxLength={100}
+              />
+              {errors.relationship && (
+                <p className="text-xs text-destructive">{errors.relationship}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="person-birth-date">Born</Label>
+                <Input
+                  id="person-birth-date"
+                  value={birthDate}
+                  onChange={(e) => setBirthDate(e.target.value)}
+                  placeholder="YYYY or YYYY-MM-DD"
+                />
+                {errors.birth_date && (
+                  <p className="text-xs text-destructive">{errors.birth_date}</p>
+                )}
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="person-death-date">Died</Label>
+                <Input
+                  id="person-death-date"
+                  value={deathDate}
+                  onChange={(e) => setDeathDate(e.target.value)}
+                  placeholder="YYYY or YYYY-MM-DD"
+                />
+                {errors.death_date && (
+                  <p className="text-xs text-destructive">{errors.death_date}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !name.trim()}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {person ? "Save" : "Add person"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,29 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { cn } from "@/lib/utils"
+import type { Person } from "@/lib/types/people"
+
+interface PersonPortraitProps {
+  person: Pick<Person, "name" | "portrait_url">
+  className?: string
+}
+
+function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/)
+  const first = words[0]?.charAt(0) || ""
+  const last = words.length > 1 ? words[words.length - 1].charAt(0) : ""
+  return (first + last).toUpperCase()
+}
+
+/**
+ * A person's portrait, or their initials when there isn't one
+ */
+export function PersonPortrait({ person, className }: PersonPortraitProps) {
+  return (
+    <Avatar className={cn("size-10", className)}>
+      {person.portrait_url && (
+        <AvatarImage src={person.portrait_url} alt={person.name} className="object-cover" />
+      )}
+      <AvatarFallback>{getInitials(person.name)}</AvatarFallback>
+    </Avatar>
+  )
+}
@@ -0,0 +1,278 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Loader2, MapPin, Search } from "lucide-react"
+import { toast } from "sonner"
+import { TypeFilter } from "@/components/artifacts/type-filter"
+import MediaImage from "@/components/media-image"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { locatePlaces } from "@/lib/actions/places"
+import { getThumbnailUrl } from "@/lib/cloudinary"
+import type { MapArtifact, UnlocatedPlace } from "@/lib/types/places"
+import { clampZoom, clusterPoints, MAX_ZOOM, type MapViewState } from "@/lib/utils/map"
+import { getArtifactPath, getPlacePath } from "@/lib/utils/routes"
+import { MapMarker, MapView } from "./map-view"
+
+const ALL_COLLECTIONS = "all"
+
+const PLACE_KIND_LABELS: Record<MapArtifact["place_kind"], string> = {
+  origin: "From",
+  provenance: "Kept in",
+  mentioned: "Mentions",
+}
+
+interface HeirloomMapProps {
+  artifacts: MapArtifact[]
+  // Places that need coordinates before their artifacts can be plotted
+  unlocated: UnlocatedPlace[]
+}
+
+/**
+ * The owner's artifacts on a map, clustered where they overlap, filterable by collection and type
+ */
+export function HeirloomMap({ artifacts, unlocated }: HeirloomMapProps) {
+  const router = useRouter()
+  const [collectionId, setCollectionId] = useState(ALL_COLLECTIONS)
+  const [typeIds, setTypeIds] = useState<string[]>([])
+  const [view, setView] = useState<MapViewState>({
+    center: { latitude: 30, longitude: 0 },
+    zoom: 2,
+  })
+  const [isLocating, setIsLocating] = useState(false)
+
+  const collections = useMemo(
+    () => uniqueById(artifacts.map((artifact) => artifact.collection)),
+    [artifacts]
+  )
+  const types = useMemo(
+    () =>
+      uniqueById(artifacts.map((artifact) => artifact.artifact_type)).map((type) => ({
+        ...type,
+        icon_name: type.icon_name || "package",
+      })),
+    [artifacts]
+  )
+
+  const visible = useMemo(
+    () =>
+      artifacts.filter(
+        (artifact) =>
+          (collectionId === ALL_COLLECTIONS || artifact.collection?.id === collectionId) &&
+          (typeIds.length === 0 ||
+            (!!artifact.artifact_type && typeIds.includes(artifact.artifact_type.id)))
+      ),
+    [artifacts, collectionId, typeIds]
+  )
+
+  const points = useMemo(
+    () =>
+      visible.map((artifact) => ({
+        latitude: artifact.place.latitude,
+        longitude: artifact.place.longitude,
+        artifact,
+      })),
+    [visible]
+  )
+
+  const clusters = clusterPoints(points, view.zoom)
+
+  async function handleLocate() {
+    setIsLocating(true)
+    try {
+      const result = await locatePlaces()
+      if (result.error || !result.data) {
+        toast.error(result.error || "Failed to look up places")
+        return
+      }
+      const { located, remaining } = result.data
+      toast.success(
+        located === 0
+          ? "None of these places are in the gazetteer; pin them on their pages"
+          : `Found ${located} ${located === 1 ? "place" : "places"}${
+              remaining > 0 ? `, ${remaining} left to pin` : ""
+            }`
+      )
+      router.refresh()
+    } finally {
+      setIsLocating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={collectionId} onValueChange={setCollectionId}>
+          <SelectTrigger className="h-9 w-[200px]" aria-label="Collection">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_COLLECTIONS}>All collections</SelectItem>
+            {collections.map((collection) => (
+              <SelectItem key={collection.id} value={collection.id}>
+                {collection.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {types.length > 1 && (
+          <TypeFilter types={types} selectedTypes={typeIds} onChange={setTypeIds} />
+        )}
+        <p className="ml-auto text-sm text-muted-foreground">
+          {visible.length} {visible.length === 1 ? "artifact" : "artifacts"} on the map
+        </p>
+      </div>
+
+      <MapView
+        view={view}
+        onViewChange={setView}
+        fitTo={points}
+        className="h-[60vh] min-h-[360px]"
+        renderMarkers={(toScreen) =>
+          clusters.map((cluster) => {
+            const { x, y } = toScreen(cluster)
+            const items = cluster.items.map((item) => item.artifact)
+            const samePlace = items.every((artifact) => artifact.place.id === items[0].place.id)
+
+            // Zoom in on clusters that would split up; list the ones that won't
+            if (items.length > 1 && !samePlace && view.zoom < MAX_ZOOM) {
+              return (
+                <MapMarker key={cluster.key} x={x} y={y}>
+                  <button
+                    type="button"
+                    className="flex h-9 w-9 items-center justify-center rounded-full border-2 border-background bg-primary text-sm font-semibold text-primary-foreground shadow-md"
+                    onClick={() =>
+                      setView({
+                        center: { latitude: cluster.latitude, longitude: cluster.longitude },
+                        zoom: clampZoom(view.zoom + 2),
+                      })
+                    }
+                    aria-label={`${items.length} artifacts, zoom in`}
+                  >
+                    {items.length}
+                  </button>
+                </MapMarker>
+              )
+            }
+
+            return (
+              // The pin's tip marks the place
+              <MapMarker key={cluster.key} x={x} y={y - 14}>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button
+                      type="button"
+                      className="relative flex items-center justify-center text-primary drop-shadow"
+                      aria-label={
+                        items.length === 1
+                          ? items[0].title
+                          : `${items.length} artifacts at ${items[0].place.name}`
+                      }
+                    >
+                      <MapPin className="h-8 w-8 fill-background" />
+                      {items.length > 1 && (
+                        <span className="absolute -right-1 -top-1 rounded-full bg-primary px-1.5 text-[10px] font-semibold text-primary-foreground">
+                          {items.length}
+                        </span>
+                      )}
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-72 p-0" side="top">
+                    <div className="max-h-80 divide-y overflow-y-auto">
+                      {items.map((artifact) => (
+                        <MapArtifactCard key={artifact.id} artifact={artifact} />
+                      ))}
+                    </div>
+                  </PopoverContent>
+                </Popover>
+              </MapMarker>
+            )
+          })
+        }
+      />
+
+      {artifacts.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Artifacts appear here once their origin, provenance or linked places have a location.
+        </p>
+      )}
+
+      {unlocated.length > 0 && (
+        <section className="space-y-2 rounded-md border border-dashed p-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {unlocated.length} {unlocated.length === 1 ? "place has" : "places have"} no location
+              yet. Look them up by name, or open one to pin it on the map.
+            </p>
+            <Button variant="outline" size="sm" onClick={handleLocate} disabled={isLocating}>
+              {isLocating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Search className="mr-2 h-4 w-4" />
+              )}
+              Look Up Places
+            </Button>
+          </div>
+          <ul className="flex flex-wrap gap-2">
+            {unlocated.map((place) => (
+              <li key={place.id}>
+                <Link
+                  href={getPlacePath(place)}
+                  className="inline-flex items-center gap-1 rounded-full border px-3 py-0.5 text-sm hover:bg-muted"
+                >
+                  <MapPin className="h-3.5 w-3.5 text-muted-foreground" />
+                  {place.name}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  )
+}
+
+function MapArtifactCard({ artifact }: { artifact: MapArtifact }) {
+  const thumbnailUrl = artifact.thumbnail_url ? getThumbnailUrl(artifact.thumbnail_url) : null
+
+  return (
+    <Link href={getArtifactPath(artifact)} className="flex gap-3 p-3 hover:bg-muted">
+      <div className="h-14 w-14 shrink-0 overflow-hidden rounded bg-muted">
+        {thumbnailUrl && (
+          <MediaImage
+            src={thumbnailUrl}
+            alt={artifact.title}
+            className="h-full w-full"
+            objectFit="cover"
+          />
+        )}
+      </div>
+      <div className="min-w-0 space-y-0.5">
+        <p className="truncate font-medium">{artifact.title}</p>
+        <p className="truncate text-xs text-muted-foreground">
+          {PLACE_KIND_LABELS[artifact.place_kind]} {artifact.place.name}
+        </p>
+        {artifact.collection && (
+          <p className="truncate text-xs text-muted-foreground">{artifact.collection.title}</p>
+        )}
+      </div>
+    </Link>
+  )
+}
+
+function uniqueById<T extends { id: string }>(items: (T | null)[]): T[] {
+  const byId = new Map<string, T>()
+  for (const item of items) {
+    if (item && !byId.has(item.id)) byId.set(item.id, item)
+  }
+  return Array.from(byId.values())
+}
@@ -0,0 +1,352 @@
+"use client"
+
+import { useEffect, useRef, useState, type ReactNode } from "react"
+import { Minus, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import {
+  clampZoom,
+  fitPoints,
+  getTileUrl,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  projectPoint,
+  TILE_SIZE,
+  unprojectPoint,
+  worldSize,
+  type LatLng,
+  type MapViewState,
+} from "@/lib/utils/map"
+
+// e.g. "https://tile.openstreetmap.org/{z}/{x}/{y}.png"; without one the map is a plain grid
+const TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL
+const ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_ATTRIBUTION
+
+// Pointer movement below this is a click, not a drag
+const CLICK_TOLERANCE = 4
+const WHEEL_INTERVAL_MS = 250
+
+interface MapViewProps {
+  view: MapViewState
+  onViewChange: (view: MapViewState) => void
+  // Fit these in view once the map has a size, and again whenever they change
+  fitTo?: LatLng[]
+  // Clicking the map (not a marker) picks a position
+  onPick?: (position: LatLng) => void
+  // Markers are placed with the given function; wrap each in MapMarker
+  renderMarkers?: (toScreen: (point: LatLng) => { x: number; y: number }) => ReactNode
+  className?: string
+}
+
+/**
+ * Something on the map at a screen position, e.g. a pin or a cluster
+ * Pointer events on markers don't pan or pick
+ */
+export function MapMarker({ x, y, children }: { x: number; y: number; children: ReactNode }) {
+  return (
+    <div
+      data-map-marker
+      className="absolute -translate-x-1/2 -translate-y-1/2"
+      style={{ left: x, top: y }}
+    >
+      {children}
+    </div>
+  )
+}
+
+/**
+ * A pannable, zoomable Web Mercator map without a mapping library
+ * Tiles come from NEXT_PUBLIC_MAP_TILE_URL when it's set; otherwise lines of latitude and
+ * longitude give a sense of where things are.
+ */
+export function MapView({
+  view,
+  onViewChange,
+  fitTo,
+  onPick,
+  renderMarkers,
+  className,
+}: MapViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null)
+  const drag = useRef<{
+    x: number
+    y: number
+    center: { x: number; y: number }
+    moved: boolean
+  } | null>(null)
+  const lastWheel = useRef(0)
+  const fittedKey = useRef<string | null>(null)
+
+  // Latest view for the native wheel listener
+  const viewRef = useRef(view)
+  viewRef.current = view
+  const onViewChangeRef = useRef(onViewChange)
+  onViewChangeRef.current = onViewChange
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const fitKey = fitTo?.map((point) => `${point.latitude},${point.longitude}`).join(";") ?? null
+  useEffect(() => {
+    if (!size || !fitTo || fitKey === fittedKey.current) return
+    fittedKey.current = fitKey
+    onViewChangeRef.current(fitPoints(fitTo, size.width, size.height))
+    // fitKey stands in for fitTo
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [size, fitKey])
+
+  // React's wheel listener is passive, so it can't stop the page scrolling
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const now = Date.now()
+      if (now - lastWheel.current < WHEEL_INTERVAL_MS) return
+      lastWheel.current = now
+
+      const rect = container.getBoundingClientRect()
+      zoomAround(
+        viewRef.current,
+        event.deltaY < 0 ? 1 : -1,
+        {
+          x: event.clientX - rect.left - rect.width / 2,
+          y: event.clientY - rect.top - rect.height / 2,
+        },
+        onViewChangeRef.current
+      )
+    }
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    return () => container.removeEventListener("wheel", handleWheel)
+  }, [])
+
+  const width = size?.width ?? 0
+  const height = size?.height ?? 0
+  const center = projectPoint(view.center, view.zoom)
+  const world = worldSize(view.zoom)
+
+  const toScreen = (point: LatLng) => {
+    const { x, y } = projectPoint(point, view.zoom)
+    // Use whichever copy of the world is nearest the center
+    const dx = x - center.x
+    const wrapped = dx - Math.round(dx / world) * world
+    return { x: wrapped + width / 2, y: y - center.y + height / 2 }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if ((event.target as HTMLElement).closest("[data-map-marker], [data-map-control]")) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    drag.current = { x: event.clientX, y: event.clientY, center, moved: false }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = drag.current
+    if (!start) return
+    const dx = event.clientX - start.x
+    const dy = event.clientY - start.y
+    if (!start.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) return
+    start.moved = true
+    onViewChange({
+      center: unprojectPoint({ x: start.center.x - dx, y: start.center.y - dy }, view.zoom),
+      zoom: view.zoom,
+    })
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = drag.current
+    drag.current = null
+    if (!start || start.moved || !onPick) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    onPick(
+      unprojectPoint(
+        {
+          x: center.x + event.clientX - rect.left - width / 2,
+          y: center.y + event.clientY - rect.top - height / 2,
+        },
+        view.zoom
+      )
+    )
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "relative touch-none select-none overflow-hidden rounded-md border bg-sky-50 dark:bg-slate-900",
+        onPick ? "cursor-crosshair" : "cursor-grab active:cursor-grabbing",
+        className
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => (drag.current = null)}
+    >
+      {size &&
+        (TILE_URL ? (
+          <Tiles center={center} zoom={view.zoom} width={width} height={height} />
+        ) : (
+          <Graticule toScreen={toScreen} zoom={view.zoom} width={width} height={height} />
+        ))}
+
+      {size && renderMarkers?.(toScreen)}
+
+      <div data-map-control className="absolute left-2 top-2 flex flex-col gap-1">
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-8 w-8 bg-background"
+          onClick={() => onViewChange({ ...view, zoom: clampZoom(view.zoom + 1) })}
+          disabled={view.zoom >= MAX_ZOOM}
+          aria-label="Zoom in"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-8 w-8 bg-background"
+          onClick={() => onViewChange({ ...view, zoom: clampZoom(view.zoom - 1) })}
+          disabled={view.zoom <= MIN_ZOOM}
+          aria-label="Zoom out"
+        >
+          <Minus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {TILE_URL && ATTRIBUTION && (
+        <div className="absolute bottom-0 right-0 bg-background/80 px-1.5 py-0.5 text-[10px] text-muted-foreground">
+          {ATTRIBUTION}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Zoom one level in or out, keeping the point under the cursor (offset from the center) still
+ */
+function zoomAround(
+  view: MapViewState,
+  step: number,
+  offset: { x: number; y: number },
+  onViewChange: (view: MapViewState) => void
+) {
+  const zoom = clampZoom(view.zoom + step)
+  if (zoom === view.zoom) return
+
+  const center = projectPoint(view.center, view.zoom)
+  const anchor = unprojectPoint({ x: center.x + offset.x, y: center.y + offset.y }, view.zoom)
+  const anchorAtZoom = projectPoint(anchor, zoom)
+  onViewChange({
+    center: unprojectPoint({ x: anchorAtZoom.x - offset.x, y: anchorAtZoom.y - offset.y }, zoom),
+    zoom,
+  })
+}
+
+function Tiles({
+  center,
+  zoom,
+  width,
+  height,
+}: {
+  center: { x: number; y: number }
+  zoom: number
+  width: number
+  height: number
+}) {
+  const count = 2 ** zoom
+  const left = center.x - width / 2
+  const top = center.y - height / 2
+  const tiles: { key: string; url: string; x: number; y: number }[] = []
+
+  for (let tx = Math.floor(left / TILE_SIZE); tx * TILE_SIZE < left + width; tx++) {
+    for (
+      let ty = Math.max(0, Math.floor(top / TILE_SIZE));
+      ty * TILE_SIZE < top + height && ty < count;
+      ty++
+    ) {
+      tiles.push({
+        key: `${tx}:${ty}`,
+        url: getTileUrl(TILE_URL!, ((tx % count) + count) % count, ty, zoom),
+        x: tx * TILE_SIZE - left,
+        y: ty * TILE_SIZE - top,
+      })
+    }
+  }
+
+  return (
+    <div className="pointer-events-none absolute inset-0">
+      {tiles.map((tile) => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          width={TILE_SIZE}
+          height={TILE_SIZE}
+          draggable={false}
+          className="absolute max-w-none"
+          style={{ left: tile.x, top: tile.y }}
+        />
+      ))}
+    </div>
+  )
+}
+
+function Graticule({
+  toScreen,
+  zoom,
+  width,
+  height,
+}: {
+  toScreen: (point: LatLng) => { x: number; y: number }
+  zoom: number
+  width: number
+  height: number
+}) {
+  const step = zoom <= 2 ? 30 : zoom <= 4 ? 10 : zoom <= 6 ? 5 : 1
+  const latitudes: number[] = []
+  for (let latitude = -80; latitude <= 80; latitude += step) latitudes.push(latitude)
+  const longitudes: number[] = []
+  for (let longitude = -180; longitude < 180; longitude += step) longitudes.push(longitude)
+
+  return (
+    <svg className="pointer-events-none absolute inset-0" width={width} height={height}>
+      {latitudes.map((latitude) => {
+        const { y } = toScreen({ latitude, longitude: 0 })
+        return (
+          <line
+            key={`lat:${latitude}`}
+            x1={0}
+            x2={width}
+            y1={y}
+            y2={y}
+            className={latitude === 0 ? "stroke-sky-400/70" : "stroke-sky-300/40"}
+          />
+        )
+      })}
+      {longitudes.map((longitude) => {
+        const { x } = toScreen({ latitude: 0, longitude })
+        return (
+          <line
+            key={`lng:${longitude}`}
+            x1={x}
+            x2={x}
+            y1={0}
+            y2={height}
+            className={longitude === 0 ? "stroke-sky-400/70" : "stroke-sky-300/40"}
+          />
+        )
+      })}
+    </svg>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2, MapPin } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { HelpText } from "@/components/ui/help-text"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { updatePlaceLocation } from "@/lib/actions/places"
+import type { Place, PlaceLocationSource } from "@/lib/types/places"
+import { formatGazetteerPlace, searchGazetteer } from "@/lib/utils/gazetteer"
+import type { LatLng, MapViewState } from "@/lib/utils/map"
+import { MapMarker, MapView } from "./map-view"
+
+interface PlaceLocationEditorProps {
+  place: Place
+}
+
+/**
+ * Set where a place is: pick it from the gazetteer, drop a pin on the map, or type coordinates
+ */
+export function PlaceLocationEditor({ place }: PlaceLocationEditorProps) {
+  const router = useRouter()
+  const initial =
+    place.latitude !== null && place.longitude !== null
+      ? { latitude: place.latitude, longitude: place.longitude }
+      : null
+
+  const [position, setPosition] = useState<LatLng | null>(initial)
+  const [source, setSource] = useState<PlaceLocationSource>(place.location_source || "pin")
+  const [query, setQuery] = useState("")
+  const [view, setView] = useState<MapViewState>({
+    center: initial || { latitude: 30, longitude: 0 },
+    zoom: initial ? 8 : 2,
+  })
+  const [isSaving, setIsSaving] = useState(false)
+
+  const results = useMemo(() => (query.trim() ? searchGazetteer(query) : []), [query])
+
+  const isChanged =
+    position?.latitude !== initial?.latitude || position?.longitude !== initial?.longitude
+
+  function moveTo(next: LatLng, nextSource: PlaceLocationSource) {
+    setPosition(next)
+    setSource(nextSource)
+  }
+
+  function handleCoordinate(key: keyof LatLng, text: string) {
+    const value = Number(text)
+    if (text.trim() === "" || !Number.isFinite(value)) return
+    moveTo({ latitude: 0, longitude: 0, ...position, [key]: value }, "pin")
+  }
+
+  async function save(next: LatLng | null) {
+    setIsSaving(true)
+    try {
+      const result = await updatePlaceLocation(place.id, {
+        latitude: next?.latitude ?? null,
+        longitude: next?.longitude ?? null,
+        location_source: source,
+      })
+      if (result.error) {
+        toast.error(result.error)
+        return
+      }
+      setPosition(next)
+      toast.success(next ? "Location saved" : "Location cleared")
+      router.refresh()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative space-y-1.5">
+        <Label htmlFor="place-search">Find a town, region or country</Label>
+        <Input
+          id="place-search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder={place.name}
+          autoComplete="off"
+        />
+        {results.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md">
+            {results.map((result) => (
+              <li key={`${result.name}:${result.latitude}:${result.longitude}`}>
+                <button
+                  type="button"
+                  className="w-full px-3 py-1.5 text-left text-sm hover:bg-muted"
+                  onClick={() => {
+                    moveTo(result, "gazetteer")
+                    setView({ center: result, zoom: result.country ? 8 : 4 })
+                    setQuery("")
+                  }}
+                >
+                  {formatGazetteerPlace(result)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <MapView
+        view={view}
+        onViewChange={setView}
+        onPick={(picked) => moveTo(picked, "pin")}
+        className="h-72"
+        renderMarkers={(toScreen) => {
+          if (!position) return null
+          const { x, y } = toScreen(position)
+          return (
+            <MapMarker x={x} y={y - 14}>
+              <MapPin className="h-8 w-8 fill-background text-primary drop-shadow" />
+            </MapMarker>
+          )
+        }}
+      />
+      <HelpText className="pl-0">Click the map to drop a pin where {place.name} is.</HelpText>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="place-latitude">Latitude</Label>
+          <Input
+            id="place-latitude"
+            key={`lat:${position?.latitude}`}
+            type="number"
+            step="any"
+            min={-90}
+            max={90}
+            defaultValue={position?.latitude.toFixed(4)}
+            onBlur={(event) => handleCoordinate("latitude", event.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="place-longitude">Longitude</Label>
+          <Input
+            id="place-longitude"
+            key={`lng:${position?.longitude}`}
+            type="number"
+            step="any"
+            min={-180}
+            max={180}
+            defaultValue={position?.longitude.toFixed(4)}
+            onBlur={(event) => handleCoordinate("longitude", event.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {initial && (
+          <Button variant="ghost" onClick={() => save(null)} disabled={isSaving}>
+            Clear Location
+          </Button>
+        )}
+        <Button onClick={() => save(position)} disabled={isSaving || !position || !isChanged}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Location
+        </Button>
+      </div>
+    </div>
+  )
+}
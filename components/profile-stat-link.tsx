@@ -8,14 +8,16 @@ interface ProfileStatLinkProps {
   icon: React.ReactNode
   label: string
   count: number
-  storageKey: string
-  targetTab: string
+  storageKey?: string
+  targetTab?: string
 }
 
 export function ProfileStatLink({ href, icon, label, count, storageKey, targetTab }: ProfileStatLinkProps) {
   const handleClick = () => {
     // Set the tab preference in sessionStorage before navigation
-    sessionStorage.setItem(storageKey, targetTab)
+    if (storageKey && targetTab) {
+      sessionStorage.setItem(storageKey, targetTab)
+    }
   }
 
   return (
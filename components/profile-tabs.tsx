@@ -3,11 +3,13 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
-import { Package, ImageIcon, Calendar, Mail, User, Settings, Lock } from "lucide-react"
+import { Package, ImageIcon, Calendar, Mail, User, Settings, Lock, Users, Sparkles } from "lucide-react"
 import { ThemePreferenceToggle } from "@/components/theme-preference-toggle"
 import { PasswordForm } from "@/components/password-form"
 import { DisplayNameForm } from "@/components/display-name-form"
 import { ProfileStatLink } from "@/components/profile-stat-link"
+import { AiUsageCard } from "@/components/ai-usage-card"
+import type { AiUsageSummary } from "@/lib/types/ai-usage"
 
 interface ProfileTabsProps {
   user: {
@@ -22,12 +24,23 @@ interface ProfileTabsProps {
   stats: {
     collectionsCount: number
     artifactsCount: number
+    familiesCount: number
   }
+  aiUsage: AiUsageSummary | null
+  isAdmin: boolean
   showPasswordUI: boolean
   passwordMode: "change" | "set"
 }
 
-export function ProfileTabs({ user, profile, stats, showPasswordUI, passwordMode }: ProfileTabsProps) {
+export function ProfileTabs({
+  user,
+  profile,
+  stats,
+  aiUsage,
+  isAdmin,
+  showPasswordUI,
+  passwordMode,
+}: ProfileTabsProps) {
   const displayName = profile?.display_name || user.email?.split("@")[0] || "User"
   const joinedDate = profile?.created_at
     ? new Date(profile.created_at).toLocaleDateString("en-US", {
@@ -48,6 +61,10 @@ export function ProfileTabs({ user, profile, stats, showPasswordUI, passwordMode
           <Package className="h-4 w-4" />
           Heirlooms
         </TabsTrigger>
+        <TabsTrigger value="usage" className="gap-2">
+          <Sparkles className="h-4 w-4" />
+          Usage
+        </TabsTrigger>
         <TabsTrigger value="settings" className="gap-2">
           <Settings className="h-4 w-4" />
           Settings
@@ -124,10 +141,21 @@ export function ProfileTabs({ user, profile, stats, showPasswordUI, passwordMode
               storageKey="heirloom-artifacts-tab"
               targetTab="mine"
             />
+
+            <ProfileStatLink
+              href="/families"
+              icon={<Users className="h-5 w-5 text-primary" />}
+              label="Families"
+              count={stats.familiesCount}
+            />
           </CardContent>
         </Card>
       </TabsContent>
 
+      <TabsContent value="usage" className="mt-6">
+        <AiUsageCard usage={aiUsage} isAdmin={isAdmin} />
+      </TabsContent>
+
       <TabsContent value="settings" className="mt-6 space-y-6">
         {showPasswordUI && (
           <Card className="animate-fade-in">
@@ -0,0 +1,211 @@
+"use client"
+
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { AcquisitionMethod, ProvenanceEventInput } from "@/lib/types/provenance"
+import { ACQUISITION_METHODS, ACQUISITION_METHOD_LABELS } from "@/lib/utils/provenance"
+
+// Radix Select doesn't allow an empty-string item value, so "unknown" uses a sentinel
+const UNKNOWN_METHOD = "__unknown__"
+
+const EMPTY_EVENT: ProvenanceEventInput = {
+  owner_name: "",
+  acquisition_method: null,
+  date_start: null,
+  date_end: null,
+  location: null,
+  notes: null,
+}
+
+interface ProvenanceEditorProps {
+  events: ProvenanceEventInput[]
+  onChange: (events: ProvenanceEventInput[]) => void
+  // Keyed as "<index>.<field>", e.g. "0.owner_name"
+  errors?: Record<string, string | undefined>
+}
+
+/**
+ * Add, edit, remove and reorder ownership entries
+ * Order is the timeline order (oldest owner first)
+ */
+export function ProvenanceEditor({ events, onChange, errors }: ProvenanceEditorProps) {
+  const updateEvent = (index: number, changes: Partial<ProvenanceEventInput>) => {
+    onChange(events.map((event, i) => (i === index ? { ...event, ...changes } : event)))
+  }
+
+  const moveEvent = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= events.length) return
+    const next = [...events]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      {events.length === 0 && (
+        <p className="text-sm text-muted-foreground italic">
+          No ownership history yet. Add who has owned this artifact, starting with the earliest owner you know of.
+        </p>
+      )}
+
+      {events.map((event, index) => {
+        const fieldId = (field: string) => `provenance-${index}-${field}`
+        const errorFor = (field: string) => errors?.[`${index}.${field}`]
+
+        return (
+          <div key={index} className="rounded-md border border-input p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-muted-foreground">Owner {index + 1}</span>
+              <div className="flex items-center gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => moveEvent(index, -1)}
+                  disabled={index === 0}
+                  aria-label="Move earlier"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => moveEvent(index, 1)}
+                  disabled={index === events.length - 1}
+                  aria-label="Move later"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive hover:text-destructive"
+                  onClick={() => onChange(events.filter((_, i) => i !== index))}
+                  aria-label="Remove owner"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1.5">
+                <Label htmlFor={fieldId("owner_name")} className="text-xs text-muted-foreground">
+                  Owner<span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id={fieldId("owner_name")}
+                  value={event.owner_name}
+                  placeholder="e.g., Great-grandma Rosa"
+                  maxLength={200}
+                  onChange={(e) => updateEvent(index, { owner_name: e.target.value })}
+                />
+                {errorFor("owner_name") && <p className="text-xs text-destructive">{errorFor("owner_name")}</p>}
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor={fieldId("acquisition_method")} className="text-xs text-muted-foreground">
+                  How acquired
+                </Label>
+                <Select
+                  value={event.acquisition_method ?? UNKNOWN_METHOD}
+                  onValueChange={(value) =>
+                    updateEvent(index, {
+                      acquisition_method: value === UNKNOWN_METHOD ? null : (value as AcquisitionMethod),
+                    })
+                  }
+                >
+                  <SelectTrigger id={fieldId("acquisition_method")} className="w-full h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNKNOWN_METHOD}>
+                      <span className="text-muted-foreground">Unknown</span>
+                    </SelectItem>
+                    {ACQUISITION_METHODS.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {ACQUISITION_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor={fieldId("date_start")} className="text-xs text-muted-foreground">
+                  From
+                </Label>
+                <Input
+                  id={fieldId("date_start")}
+                  value={event.date_start ?? ""}
+                  placeholder="YYYY, YYYY-MM or YYYY-MM-DD"
+                  inputMode="numeric"
+                  maxLength={10}
+                  onChange={(e) => updateEvent(index, { date_start: e.target.value.trim() || null })}
+                />
+                {errorFor("date_start") && <p className="text-xs text-destructive">{errorFor("date_start")}</p>}
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor={fieldId("date_end")} className="text-xs text-muted-foreground">
+                  Until
+                </Label>
+                <Input
+                  id={fieldId("date_end")}
+                  value={event.date_end ?? ""}
+                  placeholder="Leave blank if still owned"
+                  inputMode="numeric"
+                  maxLength={10}
+                  onChange={(e) => updateEvent(index, { date_end: e.target.value.trim() || null })}
+                />
+                {errorFor("date_end") && <p className="text-xs text-destructive">{errorFor("date_end")}</p>}
+              </div>
+
+              <div className="space-y-1.5 sm:col-span-2">
+                <Label htmlFor={fieldId("location")} className="text-xs text-muted-foreground">
+                  Location
+                </Label>
+                <Input
+                  id={fieldId("location")}
+                  value={event.location ?? ""}
+                  placeholder="e.g., Naples, Italy"
+                  maxLength={200}
+                  onChange={(e) => updateEvent(index, { location: e.target.value || null })}
+                />
+              </div>
+
+              <div className="space-y-1.5 sm:col-span-2">
+                <Label htmlFor={fieldId("notes")} className="text-xs text-muted-foreground">
+                  Notes
+                </Label>
+                <Textarea
+                  id={fieldId("notes")}
+                  value={event.notes ?? ""}
+                  placeholder="How it came to them, where it was kept..."
+                  rows={2}
+                  maxLength={2000}
+                  className="min-h-16"
+                  onChange={(e) => updateEvent(index, { notes: e.target.value || null })}
+                />
+              </div>
+            </div>
+          </div>
+        )
+      })}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...events, { ...EMPTY_EVENT }])}>
+        <Plus className="h-4 w-4" />
+        Add owner
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import Link from "next/link"
+import { MapPin } from "lucide-react"
+import type { Person } from "@/lib/types/people"
+import type { ProvenanceEventInput } from "@/lib/types/provenance"
+import { ACQUISITION_METHOD_LABELS, formatProvenanceDateRange } from "@/lib/utils/provenance"
+import { getPersonPath } from "@/lib/utils/routes"
+import { isSameName } from "@/lib/utils/suggestions"
+
+interface ProvenanceTimelineProps {
+  events: ProvenanceEventInput[]
+  // People linked to the artifact; owners with the same name link to their page
+  people?: Pick<Person, "id" | "name">[]
+}
+
+/**
+ * Vertical ownership timeline, oldest owner first
+ */
+export function ProvenanceTimeline({ events, people = [] }: ProvenanceTimelineProps) {
+  if (events.length === 0) return null
+
+  return (
+    <ol className="relative space-y-4 border-l border-border pl-5">
+      {events.map((event, index) => {
+        const dateRange = formatProvenanceDateRange(event.date_start, event.date_end)
+        const isCurrent = index === events.length - 1
+        const owner = people.find((person) => isSameName(person.name, event.owner_name))
+
+        return (
+          <li key={index} className="relative">
+            <span
+              aria-hidden
+              className={`absolute -left-[25px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background ${
+                isCurrent ? "bg-primary" : "bg-muted-foreground/50"
+              }`}
+            />
+            <div className="flex flex-wrap items-baseline gap-x-2 gap-y-0.5">
+              {owner ? (
+                <Link href={getPersonPath(owner)} className="text-sm font-medium text-primary hover:underline">
+                  {event.owner_name}
+                </Link>
+              ) : (
+                <span className="text-sm font-medium text-foreground">{event.owner_name}</span>
+              )}
+              {event.acquisition_method && (
+                <span className="text-xs text-muted-foreground">
+                  {ACQUISITION_METHOD_LABELS[event.acquisition_method]}
+                </span>
+              )}
+            </div>
+            {dateRange && <p className="text-xs text-muted-foreground">{dateRange}</p>}
+            {event.location && (
+              <p className="mt-0.5 flex items-center gap-1 text-xs text-muted-foreground">
+                <MapPin className="h-3 w-3 shrink-0" />
+                {event.location}
+              </p>
+            )}
+            {event.notes && <p className="mt-1 text-sm text-foreground/80 whitespace-pre-line">{event.notes}</p>}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
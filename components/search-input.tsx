@@ -0,0 +1,74 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Search, X } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { MAX_SEARCH_LENGTH, normalizeSearchQuery } from "@/lib/utils/search"
+import { cn } from "@/lib/utils"
+
+const DEBOUNCE_MS = 400
+
+interface SearchInputProps {
+  value: string
+  onSearch: (query: string) => void
+  placeholder?: string
+  className?: string
+}
+
+/**
+ * Search box that reports normalized queries after typing pauses (or on Enter)
+ */
+export function SearchInput({ value, onSearch, placeholder = "Search...", className }: SearchInputProps) {
+  const [draft, setDraft] = useState(value)
+  const lastSearched = useRef(value)
+
+  // Follow external changes, e.g. "Clear Filters"
+  useEffect(() => {
+    setDraft(value)
+    lastSearched.current = value
+  }, [value])
+
+  const submit = (text: string) => {
+    const query = normalizeSearchQuery(text)
+    if (query === lastSearched.current) return
+    lastSearched.current = query
+    onSearch(query)
+  }
+
+  useEffect(() => {
+    const timer = setTimeout(() => submit(draft), DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft])
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") submit(draft)
+        }}
+        placeholder={placeholder}
+        maxLength={MAX_SEARCH_LENGTH}
+        aria-label={placeholder}
+        className="h-9 pl-9 pr-9"
+      />
+      {draft && (
+        <button
+          type="button"
+          onClick={() => {
+            setDraft("")
+            submit("")
+          }}
+          className="absolute right-2 top-1/2 -translate-y-1/2 rounded-sm p-1 text-muted-foreground hover:text-foreground"
+          aria-label="Clear search"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  )
+}
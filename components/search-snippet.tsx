@@ -0,0 +1,27 @@
+import type { SearchMatch } from "@/lib/types/search"
+import { SEARCH_FIELD_LABELS, splitHighlightedSnippet } from "@/lib/utils/search"
+import { cn } from "@/lib/utils"
+
+/**
+ * Shows which field a search result matched, with the matched terms highlighted
+ */
+export function SearchSnippet({ match, className }: { match: SearchMatch; className?: string }) {
+  const label = match.artifact_title
+    ? `${match.artifact_title} · ${SEARCH_FIELD_LABELS[match.field]}`
+    : SEARCH_FIELD_LABELS[match.field]
+
+  return (
+    <p className={cn("line-clamp-3 text-xs leading-snug text-muted-foreground", className)} data-testid="search-snippet">
+      <span className="font-medium text-foreground/80">{label}: </span>
+      {splitHighlightedSnippet(match.snippet).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="rounded-sm bg-primary/20 px-0.5 text-foreground">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </p>
+  )
+}
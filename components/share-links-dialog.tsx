@@ -0,0 +1,242 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Copy, Eye, Link2, Loader2, Lock, Plus } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { createShareLink, getShareLinks, revokeShareLink } from "@/lib/actions/share-links"
+import type { ShareLink } from "@/lib/types/share-links"
+import { getSharePath, isShareLinkExpired } from "@/lib/utils/share-links"
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires" },
+  { value: "1", label: "Expires in 1 day" },
+  { value: "7", label: "Expires in 7 days" },
+  { value: "30", label: "Expires in 30 days" },
+  { value: "90", label: "Expires in 90 days" },
+]
+
+interface ShareLinksDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  artifactId?: string
+  collectionId?: string
+  itemLabel: "artifact" | "collection"
+}
+
+/**
+ * Create, copy and revoke private share links for one artifact or collection
+ * Links grant read-only access without making the item public
+ */
+export function ShareLinksDialog({ open, onOpenChange, artifactId, collectionId, itemLabel }: ShareLinksDialogProps) {
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [expiry, setExpiry] = useState("never")
+  const [password, setPassword] = useState("")
+  const [passwordError, setPasswordError] = useState<string | null>(null)
+
+  const loadLinks = useCallback(async () => {
+    setIsLoading(true)
+    const result = await getShareLinks({ artifactId, collectionId })
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      setLinks(result.data || [])
+    }
+    setIsLoading(false)
+  }, [artifactId, collectionId])
+
+  useEffect(() => {
+    if (open) loadLinks()
+  }, [open, loadLinks])
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${getSharePath(link.token)}`)
+      toast.success("Link copied")
+    } catch {
+      toast.error("Couldn't copy link")
+    }
+  }
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    setPasswordError(null)
+    const result = await createShareLink({
+      artifact_id: artifactId,
+      collection_id: collectionId,
+      expires_in_days: expiry === "never" ? null : Number(expiry),
+      password: password || undefined,
+    })
+    setIsCreating(false)
+
+    if (result.error || !result.data) {
+      const message = result.fieldErrors?.password?.[0]
+      if (message) {
+        setPasswordError(message)
+      } else {
+        toast.error(result.error || "Failed to create share link")
+      }
+      return
+    }
+
+    setLinks((prev) => [result.data!, ...prev])
+    setPassword("")
+    await copyLink(result.data)
+  }
+
+  const handleRevoke = async (link: ShareLink) => {
+    setRevokingId(link.id)
+    const result = await revokeShareLink(link.id)
+    setRevokingId(null)
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to revoke share link")
+      return
+    }
+
+    setLinks((prev) => prev.filter((existing) => existing.id !== link.id))
+    toast.success("Link revoked")
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share privately</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can view this {itemLabel} without an account. It stays private everywhere else.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 rounded-md border border-input p-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="share-expiry" className="text-xs text-muted-foreground">
+                Expiry
+              </Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="share-expiry" className="w-full h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="share-password-new" className="text-xs text-muted-foreground">
+                Password (optional)
+              </Label>
+              <Input
+                id="share-password-new"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value)
+                  setPasswordError(null)
+                }}
+              />
+              {passwordError && <p className="text-xs text-destructive">{passwordError}</p>}
+            </div>
+          </div>
+          <Button type="button" size="sm" onClick={handleCreate} disabled={isCreating}>
+            {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Create link
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Active links</h3>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic">No share links yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {links.map((link) => {
+                const expired = isShareLinkExpired(link.expires_at)
+                return (
+                  <li key={link.id} className="flex items-center gap-3 rounded-md border border-input px-3 py-2">
+                    <Link2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1 text-xs">
+                      <p className="truncate font-mono text-foreground">{getSharePath(link.token)}</p>
+                      <p className="flex flex-wrap items-center gap-x-2 text-muted-foreground">
+                        <span className="inline-flex items-center gap-1">
+                          <Eye className="h-3 w-3" />
+                          {link.view_count} {link.view_count === 1 ? "view" : "views"}
+                        </span>
+                        {link.has_password && (
+                          <span className="inline-flex items-center gap-1">
+                            <Lock className="h-3 w-3" />
+                            Password
+                          </span>
+                        )}
+                        <span className={expired ? "text-destructive" : undefined}>
+                          {link.expires_at
+                            ? `${expired ? "Expired" : "Expires"} ${new Date(link.expires_at).toLocaleDateString()}`
+                            : "No expiry"}
+                        </span>
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => copyLink(link)}
+                      disabled={expired}
+                      aria-label="Copy link"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-destructive hover:text-destructive"
+                      onClick={() => handleRevoke(link)}
+                      disabled={revokingId === link.id}
+                    >
+                      {revokingId === link.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Revoke"}
+                    </Button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/**
+ * Share button that opens the share links dialog (for server-rendered pages)
+ */
+export function ShareLinksButton(props: Omit<ShareLinksDialogProps, "open" | "onOpenChange">) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <Button type="button" variant="outline" onClick={() => setOpen(true)}>
+        <Link2 className="mr-2 h-4 w-4" />
+        Share
+      </Button>
+      <ShareLinksDialog {...props} open={open} onOpenChange={setOpen} />
+    </>
+  )
+}
@@ -3,7 +3,7 @@
 import Link from "next/link"
 import { usePathname } from 'next/navigation'
 import { cn } from "@/lib/utils"
-import { Home, FolderOpen, Package, BookOpen, User } from 'lucide-react'
+import { Home, FolderOpen, Package, BookOpen, User, Users, MapIcon } from 'lucide-react'
 
 interface SideNavProps {
   isOpen: boolean
@@ -16,6 +16,8 @@ const navItems = [
   { href: "/artifacts", label: "Artifacts", icon: Package },
   { href: "/collections", label: "Collections", icon: FolderOpen },
   { href: "/stories", label: "Stories", icon: BookOpen },
+  { href: "/people", label: "People", icon: Users },
+  { href: "/map", label: "Map", icon: MapIcon },
   { href: "/profile", label: "Profile", icon: User },
 ]
 
@@ -0,0 +1,28 @@
+import { Sparkles } from "lucide-react"
+import { ArtifactCardCompact } from "@/components/artifact-card-compact"
+
+type SimilarArtifact = React.ComponentProps<typeof ArtifactCardCompact>["artifact"]
+
+/**
+ * Row of artifacts closest in meaning to the one being viewed
+ * Renders nothing until the artifact has been analyzed and embedded
+ */
+export function SimilarArtifacts({ artifacts }: { artifacts: SimilarArtifact[] }) {
+  if (artifacts.length === 0) return null
+
+  return (
+    <section className="space-y-3" data-testid="similar-artifacts">
+      <h2 className="flex items-center gap-2 text-lg font-semibold">
+        <Sparkles className="h-5 w-5" />
+        Similar artifacts
+      </h2>
+      <div className="flex items-start gap-3 overflow-x-auto pb-1 scrollbar-hide">
+        {artifacts.map((artifact) => (
+          <div key={artifact.id} className="w-[120px] flex-none">
+            <ArtifactCardCompact artifact={artifact} singleLineTitle />
+          </div>
+        ))}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,107 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, Search } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { getMyArtifacts } from "@/lib/actions/artifacts"
+import { getPrimaryVisualMediaUrl } from "@/lib/media"
+import type { StoryArtifactEmbed } from "@/lib/types/stories"
+
+interface StoryArtifactPickerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId: string
+  onSelect: (artifact: StoryArtifactEmbed) => void
+}
+
+/**
+ * Choose one of your artifacts to embed in a story
+ */
+export function StoryArtifactPicker({ open, onOpenChange, userId, onSelect }: StoryArtifactPickerProps) {
+  const [artifacts, setArtifacts] = useState<StoryArtifactEmbed[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [query, setQuery] = useState("")
+
+  useEffect(() => {
+    if (!open || !userId) return
+
+    setIsLoading(true)
+    getMyArtifacts(userId)
+      .then((data) =>
+        setArtifacts(
+          data.map((artifact) => ({
+            id: artifact.id,
+            slug: artifact.slug,
+            title: artifact.title,
+            description: artifact.description,
+            thumbnail_url: artifact.thumbnail_url,
+            media_urls: artifact.media_urls,
+          })),
+        ),
+      )
+      .finally(() => setIsLoading(false))
+  }, [open, userId])
+
+  const search = query.trim().toLowerCase()
+  const filtered = search ? artifacts.filter((artifact) => artifact.title.toLowerCase().includes(search)) : artifacts
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Embed an artifact</DialogTitle>
+          <DialogDescription>Readers see a card that links to the artifact page.</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search your artifacts..."
+            className="pl-9"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex h-48 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">
+            {artifacts.length === 0 ? "You haven't added any artifacts yet." : "No artifacts match your search."}
+          </p>
+        ) : (
+          <ScrollArea className="h-72">
+            <ul className="space-y-1 pr-3">
+              {filtered.map((artifact) => {
+                const thumbnail = artifact.thumbnail_url || getPrimaryVisualMediaUrl(artifact.media_urls)
+                return (
+                  <li key={artifact.id}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onSelect(artifact)
+                        onOpenChange(false)
+                      }}
+                      className="flex w-full items-center gap-3 rounded-md p-2 text-left transition-colors hover:bg-accent"
+                    >
+                      {thumbnail ? (
+                        <img src={thumbnail} alt="" className="h-10 w-10 shrink-0 rounded object-cover" />
+                      ) : (
+                        <div className="h-10 w-10 shrink-0 rounded bg-muted" />
+                      )}
+                      <span className="truncate text-sm font-medium">{artifact.title}</span>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,42 @@
+import Link from "next/link"
+import { BookOpen, Lock } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import type { StorySummary } from "@/lib/types/stories"
+
+interface StoryCardProps {
+  story: StorySummary
+  showAuthor?: boolean
+}
+
+export function StoryCard({ story, showAuthor = false }: StoryCardProps) {
+  return (
+    <Link
+      href={`/stories/${story.slug}`}
+      className="group flex flex-col overflow-hidden rounded-lg border transition-colors hover:bg-accent"
+    >
+      {story.cover_image_url ? (
+        <img src={story.cover_image_url} alt="" className="aspect-[16/9] w-full object-cover" />
+      ) : (
+        <div className="flex aspect-[16/9] w-full items-center justify-center bg-gradient-to-br from-primary/20 to-chart-2/20">
+          <BookOpen className="h-8 w-8 text-primary/60" />
+        </div>
+      )}
+      <div className="space-y-1 p-4">
+        <div className="flex items-start justify-between gap-2">
+          <h2 className="font-semibold leading-tight">{story.title}</h2>
+          {!story.is_public && (
+            <Badge variant="secondary" className="shrink-0">
+              <Lock className="mr-1 h-3 w-3" />
+              Private
+            </Badge>
+          )}
+        </div>
+        {story.description && <p className="line-clamp-2 text-sm text-muted-foreground">{story.description}</p>}
+        <p className="text-xs text-muted-foreground">
+          {showAuthor && story.author_name ? `${story.author_name} · ` : ""}
+          {story.block_count} {story.block_count === 1 ? "section" : "sections"}
+        </p>
+      </div>
+    </Link>
+  )
+}
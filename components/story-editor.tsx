@@ -0,0 +1,386 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { ArrowDown, ArrowUp, FileText, ImageIcon, Landmark, Loader2, Music, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { StoryArtifactPicker } from "@/components/story-artifact-picker"
+import { StoryMediaDialog, type StoryMediaKind, type StoryMediaSelection } from "@/components/story-media-dialog"
+import { StoryArtifactCard, StoryMedia } from "@/components/story-view"
+import { deleteStory, saveStoryBlocks, updateStory } from "@/lib/actions/stories"
+import type { StoryBlockInput } from "@/lib/schemas"
+import type { StoryArtifactEmbed, StoryBlockType, StoryBlockWithArtifact, StoryWithBlocks } from "@/lib/types/stories"
+import { STORY_BLOCK_LABELS, moveStoryBlock } from "@/lib/utils/stories"
+
+interface EditorBlock {
+  key: string
+  block_type: StoryBlockType
+  body: string
+  artifact: StoryArtifactEmbed | null
+  media_id: string | null
+  media_url: string | null
+  media_type: StoryBlockWithArtifact["media_type"]
+}
+
+function toEditorBlock(block: StoryBlockWithArtifact): EditorBlock {
+  return {
+    key: block.id,
+    block_type: block.block_type,
+    body: block.body || "",
+    artifact: block.artifact,
+    media_id: block.media_id,
+    media_url: block.media_url,
+    media_type: block.media_type,
+  }
+}
+
+/**
+ * Editor blocks to save. Empty text and blocks whose artifact or library media
+ * is gone are dropped - there's nothing left to show for them.
+ */
+function toBlockInputs(blocks: EditorBlock[]): StoryBlockInput[] {
+  return blocks.flatMap((block): StoryBlockInput[] => {
+    const caption = block.body.trim() || null
+    switch (block.block_type) {
+      case "text":
+        return block.body.trim() ? [{ block_type: "text", body: block.body }] : []
+      case "artifact":
+        return block.artifact ? [{ block_type: "artifact", artifact_id: block.artifact.id, body: caption }] : []
+      case "media":
+      case "audio":
+        return block.media_id ? [{ block_type: block.block_type, media_id: block.media_id, body: caption }] : []
+    }
+  })
+}
+
+const BLOCK_ICONS: Record<StoryBlockType, typeof FileText> = {
+  text: FileText,
+  artifact: Landmark,
+  media: ImageIcon,
+  audio: Music,
+}
+
+interface StoryEditorProps {
+  story: StoryWithBlocks
+  userId: string
+}
+
+/**
+ * Edit a story's details and its ordered blocks
+ */
+export function StoryEditor({ story, userId }: StoryEditorProps) {
+  const router = useRouter()
+  const [title, setTitle] = useState(story.title)
+  const [description, setDescription] = useState(story.description || "")
+  const [coverUrl, setCoverUrl] = useState<string | null>(story.cover_image_url)
+  const [isPublic, setIsPublic] = useState(story.is_public)
+  const [blocks, setBlocks] = useState<EditorBlock[]>(() => story.blocks.map(toEditorBlock))
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [artifactPickerOpen, setArtifactPickerOpen] = useState(false)
+  const [mediaDialog, setMediaDialog] = useState<StoryMediaKind | null>(null)
+
+  const viewHref = `/stories/${story.slug}`
+
+  const updateBlock = (key: string, changes: Partial<EditorBlock>) => {
+    setBlocks((prev) => prev.map((block) => (block.key === key ? { ...block, ...changes } : block)))
+  }
+
+  const appendBlock = (block: Omit<EditorBlock, "key">) => {
+    setBlocks((prev) => [...prev, { ...block, key: crypto.randomUUID() }])
+  }
+
+  const emptyBlock = { body: "", artifact: null, media_id: null, media_url: null, media_type: null }
+
+  const handleMediaSelected = (media: StoryMediaSelection) => {
+    if (mediaDialog === "image") {
+      setCoverUrl(media.public_url)
+      return
+    }
+    appendBlock({
+      ...emptyBlock,
+      block_type: media.media_type === "audio" ? "audio" : "media",
+      media_id: media.id,
+      media_url: media.public_url,
+      media_type: media.media_type,
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    const detailsResult = await updateStory(story.id, {
+      title,
+      description: description || undefined,
+      cover_image_url: coverUrl,
+      is_public: isPublic,
+    })
+
+    if (!detailsResult.success) {
+      setIsSaving(false)
+      toast.error(detailsResult.fieldErrors?.title?.[0] || detailsResult.error || "Failed to save story")
+      return
+    }
+
+    const blocksResult = await saveStoryBlocks({ story_id: story.id, blocks: toBlockInputs(blocks) })
+
+    if (blocksResult.error) {
+      setIsSaving(false)
+      toast.error(Object.values(blocksResult.fieldErrors || {})[0]?.[0] || blocksResult.error)
+      return
+    }
+
+    toast.success("Story saved")
+    router.push(viewHref)
+    router.refresh()
+  }
+
+  const handleDelete = async () => {
+    setIsDeleting(true)
+    const result = await deleteStory(story.id)
+
+    if (!result.success) {
+      setIsDeleting(false)
+      toast.error(result.error || "Failed to delete story")
+      return
+    }
+
+    router.push("/stories")
+    router.refresh()
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="story-title">Title</Label>
+          <Input id="story-title" value={title} onChange={(e) => setTitle(e.target.value)} maxLength={200} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="story-description">Summary</Label>
+          <Textarea
+            id="story-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            maxLength={1000}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Cover</Label>
+          {coverUrl ? (
+            <div className="relative w-fit">
+              <img src={coverUrl} alt="Story cover" className="max-h-48 rounded-lg object-cover" />
+              <Button
+                type="button"
+                variant="secondary"
+                size="icon"
+                className="absolute right-2 top-2 h-7 w-7"
+                onClick={() => setCoverUrl(null)}
+                aria-label="Remove cover"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <Button type="button" variant="outline" size="sm" onClick={() => setMediaDialog("image")}>
+              <ImageIcon className="mr-2 h-4 w-4" />
+              Choose cover photo
+            </Button>
+          )}
+        </div>
+
+        <div className="flex flex-row items-start space-x-3 rounded-md border p-4">
+          <Checkbox id="story-is-public" checked={isPublic} onCheckedChange={(checked) => setIsPublic(checked === true)} />
+          <div className="space-y-1 leading-none">
+            <Label htmlFor="story-is-public">Public story</Label>
+            <p className="text-sm text-muted-foreground">
+              Anyone can read public stories. Embedded artifacts still follow their own privacy settings.
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold">Story</h2>
+
+        {blocks.length === 0 && (
+          <p className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+            Add text, artifacts, photos and audio clips below to start telling the story.
+          </p>
+        )}
+
+        {blocks.map((block, index) => {
+          const Icon = BLOCK_ICONS[block.block_type]
+          const isMissing =
+            (block.block_type === "artifact" && !block.artifact) ||
+            ((block.block_type === "media" || block.block_type === "audio") && !block.media_id)
+
+          return (
+            <div key={block.key} className="space-y-3 rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                <Icon className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm font-medium">{STORY_BLOCK_LABELS[block.block_type]}</span>
+                <div className="ml-auto flex items-center gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setBlocks((prev) => moveStoryBlock(prev, index, -1))}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setBlocks((prev) => moveStoryBlock(prev, index, 1))}
+                    disabled={index === blocks.length - 1}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setBlocks((prev) => prev.filter((b) => b.key !== block.key))}
+                    aria-label="Remove block"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {block.block_type === "text" ? (
+                <Textarea
+                  value={block.body}
+                  onChange={(e) => updateBlock(block.key, { body: e.target.value })}
+                  placeholder="Write this part of the story… Markdown is supported."
+                  rows={6}
+                  maxLength={20000}
+                />
+              ) : (
+                <>
+                  {block.block_type === "artifact" ? (
+                    <StoryArtifactCard artifact={block.artifact} />
+                  ) : (
+                    <StoryMedia url={block.media_id ? block.media_url : null} mediaType={block.media_type} />
+                  )}
+                  {isMissing ? (
+                    <p className="text-xs text-muted-foreground">This block will be removed when you save.</p>
+                  ) : (
+                    <Input
+                      value={block.body}
+                      onChange={(e) => updateBlock(block.key, { body: e.target.value })}
+                      placeholder="Caption (optional)"
+                      maxLength={500}
+                    />
+                  )}
+                </>
+              )}
+            </div>
+          )
+        })}
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => appendBlock({ ...emptyBlock, block_type: "text" })}>
+            <FileText className="mr-2 h-4 w-4" />
+            Text
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => setArtifactPickerOpen(true)}>
+            <Landmark className="mr-2 h-4 w-4" />
+            Artifact
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => setMediaDialog("visual")}>
+            <ImageIcon className="mr-2 h-4 w-4" />
+            Photo or video
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => setMediaDialog("audio")}>
+            <Music className="mr-2 h-4 w-4" />
+            Audio clip
+          </Button>
+        </div>
+      </section>
+
+      <div className="flex items-center justify-between gap-2 border-t pt-6">
+        <Button type="button" variant="ghost" className="text-destructive" onClick={() => setDeleteDialogOpen(true)}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete story
+        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <Link href={viewHref}>Cancel</Link>
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving || !title.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <StoryArtifactPicker
+        open={artifactPickerOpen}
+        onOpenChange={setArtifactPickerOpen}
+        userId={userId}
+        onSelect={(artifact) => appendBlock({ ...emptyBlock, block_type: "artifact", artifact })}
+      />
+
+      <StoryMediaDialog
+        open={!!mediaDialog}
+        onOpenChange={(open) => !open && setMediaDialog(null)}
+        userId={userId}
+        kind={mediaDialog || "visual"}
+        onSelect={handleMediaSelected}
+      />
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete story?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The story will be removed. Embedded artifacts and the photos and audio in your media library are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleDelete()
+              }}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
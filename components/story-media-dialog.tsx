@@ -0,0 +1,141 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { toast } from "sonner"
+import { Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { AudioRecorder } from "@/components/audio-recorder"
+import { MediaPicker } from "@/components/media-picker"
+import { createUserMedia } from "@/lib/actions/media"
+import type { UserMedia } from "@/lib/types/media"
+import { uploadFileToStorage } from "@/lib/upload-file"
+
+// Stable references - MediaPicker reloads the library when these change
+const NO_EXCLUDED_URLS: string[] = []
+const VISUAL_TYPES: ("image" | "video")[] = ["image", "video"]
+const IMAGE_TYPES: "image"[] = ["image"]
+const AUDIO_TYPES: "audio"[] = ["audio"]
+
+export type StoryMediaKind = "visual" | "image" | "audio"
+
+export type StoryMediaSelection = Pick<UserMedia, "id" | "public_url" | "media_type">
+
+interface StoryMediaDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId: string
+  /** visual = photos and videos (media blocks), image = cover photos, audio = audio clips */
+  kind: StoryMediaKind
+  onSelect: (media: StoryMediaSelection) => void
+}
+
+const DIALOG_COPY: Record<StoryMediaKind, { title: string; accept: string }> = {
+  visual: { title: "Add a photo or video", accept: "image/*,video/*" },
+  image: { title: "Choose a cover photo", accept: "image/*" },
+  audio: { title: "Add an audio clip", accept: "audio/*" },
+}
+
+/**
+ * Pick a story photo, video or audio clip from the media library, or add a new one
+ * New files are uploaded and saved to the library with upload_source "story"
+ */
+export function StoryMediaDialog({ open, onOpenChange, userId, kind, onSelect }: StoryMediaDialogProps) {
+  const [isUploading, setIsUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const copy = DIALOG_COPY[kind]
+
+  const choose = (media: StoryMediaSelection) => {
+    onSelect(media)
+    onOpenChange(false)
+  }
+
+  const uploadToLibrary = async (file: Blob, fileName: string) => {
+    setIsUploading(true)
+    try {
+      const url = await uploadFileToStorage(file, fileName, userId, "stories")
+      const mediaType = file.type.startsWith("audio/") ? "audio" : file.type.startsWith("video/") ? "video" : "image"
+
+      const result = await createUserMedia({
+        user_id: userId,
+        storage_path: url,
+        public_url: url,
+        filename: fileName,
+        mime_type: file.type || "application/octet-stream",
+        file_size_bytes: file.size,
+        media_type: mediaType,
+        upload_source: "story",
+      })
+
+      if (result.error || !result.data) {
+        toast.error(result.error || "Failed to add media to your library")
+        return
+      }
+
+      choose(result.data)
+    } catch (err) {
+      console.error("[StoryMediaDialog] Upload failed:", err)
+      toast.error(err instanceof Error ? err.message : "Upload failed")
+    } finally {
+      setIsUploading(false)
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>Choose from your media library or add something new.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="library">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="library">Library</TabsTrigger>
+            <TabsTrigger value="new">{kind === "audio" ? "Record or upload" : "Upload"}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="library" className="pt-2">
+            {open && (
+              <MediaPicker
+                multiSelect={false}
+                allowedTypes={kind === "audio" ? AUDIO_TYPES : kind === "image" ? IMAGE_TYPES : VISUAL_TYPES}
+                excludeUrls={NO_EXCLUDED_URLS}
+                onSelect={([media]) => media && choose(media)}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="new" className="space-y-4 pt-2">
+            {kind === "audio" && (
+              <AudioRecorder onAudioRecorded={(blob, fileName) => uploadToLibrary(blob, fileName)} disabled={isUploading} />
+            )}
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={copy.accept}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) uploadToLibrary(file, file.name)
+              }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+            >
+              {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              {isUploading ? "Uploading…" : "Choose a file"}
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
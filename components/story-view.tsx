@@ -0,0 +1,112 @@
+import Link from "next/link"
+import ReactMarkdown from "react-markdown"
+import { AudioPlayer } from "@/components/audio-player"
+import { getPrimaryVisualMediaUrl } from "@/lib/media"
+import { getArtifactPath } from "@/lib/utils/routes"
+import type { StoryArtifactEmbed, StoryBlockWithArtifact } from "@/lib/types/stories"
+import { getStoryExcerpt } from "@/lib/utils/stories"
+
+/**
+ * Card for an artifact embedded in a story
+ * A null artifact means the reader can't see it (private) or it was deleted
+ */
+export function StoryArtifactCard({ artifact }: { artifact: StoryArtifactEmbed | null }) {
+  if (!artifact) {
+    return (
+      <div className="rounded-lg border border-dashed p-4 text-sm italic text-muted-foreground">
+        This artifact is private or no longer available.
+      </div>
+    )
+  }
+
+  const thumbnail = artifact.thumbnail_url || getPrimaryVisualMediaUrl(artifact.media_urls)
+
+  return (
+    <Link
+      href={getArtifactPath(artifact)}
+      className="flex items-center gap-4 rounded-lg border p-3 transition-colors hover:bg-accent"
+    >
+      {thumbnail ? (
+        <img src={thumbnail} alt={artifact.title} className="h-20 w-20 shrink-0 rounded-md object-cover" />
+      ) : (
+        <div className="h-20 w-20 shrink-0 rounded-md bg-muted" />
+      )}
+      <div className="min-w-0">
+        <p className="font-medium">{artifact.title}</p>
+        {artifact.description && (
+          <p className="mt-1 line-clamp-2 text-sm text-muted-foreground">{getStoryExcerpt(artifact.description)}</p>
+        )}
+      </div>
+    </Link>
+  )
+}
+
+/**
+ * Photo, video or audio clip in a story
+ */
+export function StoryMedia({
+  url,
+  mediaType,
+  caption,
+}: {
+  url: string | null
+  mediaType: StoryBlockWithArtifact["media_type"]
+  caption?: string | null
+}) {
+  if (!url) {
+    return (
+      <div className="rounded-lg border border-dashed p-4 text-sm italic text-muted-foreground">
+        This media is no longer available.
+      </div>
+    )
+  }
+
+  if (mediaType === "audio") {
+    return <AudioPlayer src={url} title={caption || "Audio clip"} />
+  }
+
+  return (
+    <figure className="space-y-2">
+      {mediaType === "video" ? (
+        <video src={url} controls playsInline className="w-full rounded-lg" />
+      ) : (
+        <img src={url} alt={caption || ""} className="w-full rounded-lg object-contain" />
+      )}
+      {caption && <figcaption className="text-center text-sm text-muted-foreground">{caption}</figcaption>}
+    </figure>
+  )
+}
+
+/**
+ * Read-only rendering of a story's blocks
+ */
+export function StoryView({ blocks }: { blocks: StoryBlockWithArtifact[] }) {
+  if (blocks.length === 0) {
+    return <p className="text-sm italic text-muted-foreground">This story doesn&apos;t have any content yet.</p>
+  }
+
+  return (
+    <div className="space-y-8">
+      {blocks.map((block) => {
+        switch (block.block_type) {
+          case "text":
+            return (
+              <div key={block.id} className="prose max-w-none dark:prose-invert">
+                <ReactMarkdown>{block.body || ""}</ReactMarkdown>
+              </div>
+            )
+          case "artifact":
+            return (
+              <div key={block.id} className="space-y-2">
+                <StoryArtifactCard artifact={block.artifact} />
+                {block.body && <p className="text-center text-sm text-muted-foreground">{block.body}</p>}
+              </div>
+            )
+          case "media":
+          case "audio":
+            return <StoryMedia key={block.id} url={block.media_url} mediaType={block.media_type} caption={block.body} />
+        }
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Check, Loader2, Pencil, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import type { TranscriptSegment } from "@/lib/types/transcripts"
+import { formatTimestamp } from "@/lib/utils/transcripts"
+
+interface TranscriptSegmentsProps {
+  segments: TranscriptSegment[]
+  activeIndex: number
+  onSeek: (time: number) => void
+  // Editing is offered when set; resolve false to keep the editor open (e.g. on error)
+  onEdit?: (index: number, text: string) => Promise<boolean> | boolean
+}
+
+/**
+ * Transcript that follows playback: the sentence being spoken is highlighted,
+ * and clicking a sentence jumps to it
+ */
+export function TranscriptSegments({ segments, activeIndex, onSeek, onEdit }: TranscriptSegmentsProps) {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null)
+  const [draft, setDraft] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const containerRef = useRef<HTMLOListElement>(null)
+
+  // Keep the spoken sentence in view without scrolling the whole page
+  useEffect(() => {
+    const container = containerRef.current
+    const active = container?.children[activeIndex] as HTMLElement | undefined
+    if (!container || !active || editingIndex !== null) return
+
+    const top = active.offsetTop
+    if (top < container.scrollTop || top + active.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: Math.max(0, top - container.clientHeight / 3), behavior: "smooth" })
+    }
+  }, [activeIndex, editingIndex])
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index)
+    setDraft(segments[index].text)
+  }
+
+  const handleSave = async () => {
+    if (editingIndex === null || !onEdit) return
+    setIsSaving(true)
+    try {
+      if (await onEdit(editingIndex, draft)) {
+        setEditingIndex(null)
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <ol ref={containerRef} className="relative max-h-64 space-y-1 overflow-y-auto pr-1" aria-label="Transcript">
+      {segments.map((segment, index) => {
+        const isActive = index === activeIndex
+
+        if (index === editingIndex) {
+          return (
+            <li key={index} className="space-y-2 rounded-md border p-2">
+              <span className="text-xs tabular-nums text-muted-foreground">{formatTimestamp(segment.start)}</span>
+              <Textarea value={draft} onChange={(event) => setDraft(event.target.value)} rows={3} autoFocus />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setEditingIndex(null)} disabled={isSaving}>
+                  <X className="mr-1 h-4 w-4" />
+                  Cancel
+                </Button>
+                <Button type="button" size="sm" onClick={handleSave} disabled={isSaving || draft.trim().length === 0}>
+                  {isSaving ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Check className="mr-1 h-4 w-4" />}
+                  Save
+                </Button>
+              </div>
+            </li>
+          )
+        }
+
+        return (
+          <li key={index} className="group flex items-start gap-1">
+            <button
+              type="button"
+              onClick={() => onSeek(segment.start)}
+              aria-current={isActive ? "true" : undefined}
+              className={`flex flex-1 gap-3 rounded-md px-2 py-1 text-left text-sm leading-relaxed transition-colors ${
+                isActive ? "bg-primary/10 text-foreground" : "text-muted-foreground hover:bg-muted"
+              }`}
+            >
+              <span className="shrink-0 pt-0.5 text-xs tabular-nums text-muted-foreground">
+                {formatTimestamp(segment.start)}
+              </span>
+              <span>{segment.text}</span>
+            </button>
+            {onEdit && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 transition-opacity sm:opacity-0 sm:group-hover:opacity-100 sm:focus-visible:opacity-100"
+                onClick={() => startEditing(index)}
+                aria-label={`Correct the sentence at ${formatTimestamp(segment.start)}`}
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -10,6 +10,7 @@ import { Badge } from "@/components/ui/badge"
 import { Settings } from "lucide-react"
 import { useState, useEffect } from "react"
 import MediaImage from "@/components/media-image"
+import { getCollectionPath } from "@/lib/utils/routes"
 
 interface UncategorizedCollectionCardProps {
   collection: {
@@ -29,7 +30,7 @@ interface UncategorizedCollectionCardProps {
 }
 
 export function UncategorizedCollectionCard({ collection, mode }: UncategorizedCollectionCardProps) {
-  const baseHref = collection.slug ? `/collections/${collection.slug}` : `/collections/${collection.id}`
+  const baseHref = getCollectionPath(collection)
   const href = mode ? `${baseHref}?mode=${mode}` : baseHref
   const [tooltipOpen, setTooltipOpen] = useState(false)
 
@@ -0,0 +1,160 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { BarChart3, Loader2 } from "lucide-react"
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { getViewAnalytics } from "@/lib/actions/analytics"
+import type { ViewAnalytics } from "@/lib/types/analytics"
+import { ANALYTICS_RANGE_OPTIONS, DEFAULT_ANALYTICS_DAYS, VIEW_REFERRER_LABELS } from "@/lib/utils/view-analytics"
+import { getArtifactPath } from "@/lib/utils/routes"
+
+const chartConfig = {
+  share_link_views: { label: VIEW_REFERRER_LABELS.share_link, color: "var(--chart-1)" },
+  community_views: { label: VIEW_REFERRER_LABELS.community, color: "var(--chart-3)" },
+  direct_views: { label: VIEW_REFERRER_LABELS.direct, color: "var(--chart-5)" },
+} satisfies ChartConfig
+
+function formatDay(day: string) {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })
+}
+
+interface ViewAnalyticsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  artifactId?: string
+  collectionId?: string
+}
+
+/**
+ * Owner-only view counts for an artifact or collection page
+ * Daily views stacked by where visitors came from, plus top artifacts for collections
+ */
+export function ViewAnalyticsDialog({ open, onOpenChange, artifactId, collectionId }: ViewAnalyticsDialogProps) {
+  const [days, setDays] = useState<number>(DEFAULT_ANALYTICS_DAYS)
+  const [analytics, setAnalytics] = useState<ViewAnalytics | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadAnalytics = useCallback(async () => {
+    setIsLoading(true)
+    const result = await getViewAnalytics({ artifactId, collectionId, days })
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      setAnalytics(result.data || null)
+    }
+    setIsLoading(false)
+  }, [artifactId, collectionId, days])
+
+  useEffect(() => {
+    if (open) loadAnalytics()
+  }, [open, loadAnalytics])
+
+  const totals = analytics?.totals
+  const stats = [
+    { label: "Views", value: totals?.views },
+    { label: "Daily unique visits", value: totals?.daily_unique_visits },
+    { label: VIEW_REFERRER_LABELS.share_link, value: totals?.share_link_views },
+    { label: VIEW_REFERRER_LABELS.community, value: totals?.community_views },
+  ]
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Analytics</DialogTitle>
+          <DialogDescription>
+            Views of this {collectionId ? "collection" : "artifact"} by other people. Your own visits aren&apos;t
+            counted, and visitors are only counted once per day.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-1">
+          {ANALYTICS_RANGE_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={days === option ? "secondary" : "ghost"}
+              onClick={() => setDays(option)}
+              disabled={isLoading}
+            >
+              {option} days
+            </Button>
+          ))}
+          {isLoading && <Loader2 className="ml-2 h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className="text-2xl font-semibold tabular-nums">{stat.value ?? "–"}</p>
+            </div>
+          ))}
+        </div>
+
+        {analytics && (
+          <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+            <BarChart data={analytics.daily} margin={{ left: 0, right: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={formatDay} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+              <ChartLegend content={({ payload }) => <ChartLegendContent payload={payload} />} />
+              <Bar dataKey="direct_views" stackId="views" fill="var(--color-direct_views)" />
+              <Bar dataKey="community_views" stackId="views" fill="var(--color-community_views)" />
+              <Bar dataKey="share_link_views" stackId="views" fill="var(--color-share_link_views)" />
+            </BarChart>
+          </ChartContainer>
+        )}
+
+        {collectionId && analytics && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Most viewed artifacts</h3>
+            {analytics.topArtifacts.length === 0 ? (
+              <p className="text-sm text-muted-foreground italic">No artifact views in this period.</p>
+            ) : (
+              <ol className="space-y-1">
+                {analytics.topArtifacts.map((artifact) => (
+                  <li key={artifact.artifact_id} className="flex items-center justify-between gap-4 text-sm">
+                    <Link href={getArtifactPath({ id: artifact.artifact_id, slug: artifact.slug })} className="truncate hover:underline">
+                      {artifact.title}
+                    </Link>
+                    <span className="shrink-0 tabular-nums text-muted-foreground">
+                      {artifact.views} views · {artifact.unique_viewers} daily unique
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function ViewAnalyticsButton(props: Omit<ViewAnalyticsDialogProps, "open" | "onOpenChange">) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <Button type="button" variant="outline" onClick={() => setOpen(true)}>
+        <BarChart3 className="mr-2 h-4 w-4" />
+        Analytics
+      </Button>
+      <ViewAnalyticsDialog {...props} open={open} onOpenChange={setOpen} />
+    </>
+  )
+}
@@ -0,0 +1,47 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import type { AiJob } from "@/lib/types/ai-jobs"
+
+/**
+ * Get an analysis job's progress
+ * Visible to whoever can edit the artifact (RLS)
+ */
+export async function getAiJob(jobId: string): Promise<{ data?: AiJob; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.from("ai_jobs").select("*").eq("id", jobId).maybeSingle()
+
+  if (error) {
+    console.error("[getAiJob] Error:", error)
+    return { error: "Failed to load analysis progress" }
+  }
+
+  if (!data) {
+    return { error: "Analysis job not found" }
+  }
+
+  return { data: data as AiJob }
+}
+
+/**
+ * Get the most recent analysis job for an artifact, e.g. to resume showing progress after a reload
+ */
+export async function getLatestAiJob(artifactId: string): Promise<{ data?: AiJob | null; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("ai_jobs")
+    .select("*")
+    .eq("artifact_id", artifactId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error("[getLatestAiJob] Error:", error)
+    return { error: "Failed to load analysis progress" }
+  }
+
+  return { data: (data as AiJob | null) ?? null }
+}
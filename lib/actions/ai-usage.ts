@@ -0,0 +1,136 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createClient } from "@/lib/supabase/server"
+import { getAiUsageSummary } from "@/lib/ai-usage"
+import { setAiQuotaSchema, type SetAiQuotaInput } from "@/lib/schemas"
+import type { AiCostReport, AiCostReportRow, AiUsageSummary } from "@/lib/types/ai-usage"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { getUsagePeriod, groupUsage, resolveAiQuota, sumUsage } from "@/lib/utils/ai-usage"
+
+const MAX_REPORT_MONTHS = 24
+
+/**
+ * The current user's AI usage this month against their quota
+ */
+export async function getMyAiUsage(): Promise<{ data?: AiUsageSummary; error?: string }> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  try {
+    return { data: await getAiUsageSummary(supabase, user.id) }
+  } catch (error) {
+    console.error("[getMyAiUsage] Error:", error)
+    return { error: "Failed to load AI usage" }
+  }
+}
+
+/**
+ * Estimated AI spend across everyone, by month, model and user (admin only)
+ * Covers the current month and the months before it.
+ */
+export async function getAiCostReport(months = 6): Promise<{ data?: AiCostReport; error?: string }> {
+  if (!(await isCurrentUserAdmin())) {
+    return { error: "Unauthorized" }
+  }
+
+  const supabase = await createClient()
+  const range = Math.min(Math.max(Math.floor(months) || 1, 1), MAX_REPORT_MONTHS)
+  const { start } = getUsagePeriod()
+  const since = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - (range - 1), 1))
+
+  const { data, error } = await supabase.rpc("get_ai_cost_report", { p_since: since.toISOString() })
+
+  if (error) {
+    console.error("[getAiCostReport] Error:", error)
+    return { error: "Failed to load AI cost report" }
+  }
+
+  const rows = (data || []) as AiCostReportRow[]
+  const userIds = Array.from(new Set(rows.map((row) => row.user_id).filter((id): id is string => !!id)))
+
+  const [{ data: profiles }, { data: quotas }] =
+    userIds.length > 0
+      ? await Promise.all([
+          supabase.from("profiles").select("id, display_name").in("id", userIds),
+          supabase.from("ai_quotas").select("user_id, monthly_tokens, monthly_audio_seconds").in("user_id", userIds),
+        ])
+      : [{ data: [] }, { data: [] }]
+
+  const names = new Map(
+    ((profiles || []) as { id: string; display_name: string | null }[]).map((profile) => [
+      profile.id,
+      profile.display_name,
+    ]),
+  )
+  const quotaRows = new Map(
+    ((quotas || []) as { user_id: string; monthly_tokens: number | null; monthly_audio_seconds: number | null }[]).map(
+      (quota) => [quota.user_id, quota],
+    ),
+  )
+
+  return {
+    data: {
+      months: range,
+      totals: sumUsage(rows),
+      byMonth: groupUsage(rows, (row) => row.month)
+        .map(({ key, totals }) => ({ month: key, ...totals }))
+        .sort((a, b) => b.month.localeCompare(a.month)),
+      byModel: groupUsage(rows, (row) => row.model).map(({ key, totals }) => ({ model: key, ...totals })),
+      byUser: groupUsage(rows, (row) => row.user_id).map(({ key, totals }) => ({
+        user_id: key,
+        display_name: key ? (names.get(key) ?? null) : null,
+        quota: resolveAiQuota(key ? quotaRows.get(key) : null),
+        ...totals,
+      })),
+    },
+  }
+}
+
+/**
+ * Set or clear a user's monthly AI quota (admin only)
+ */
+export async function setUserAiQuota(
+  input: SetAiQuotaInput,
+): Promise<{ success: boolean; error?: string; fieldErrors?: Record<string, string[] | undefined> }> {
+  const validatedFields = setAiQuotaSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    return { success: false, error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors }
+  }
+
+  if (!(await isCurrentUserAdmin())) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  const supabase = await createClient()
+  const { user_id, monthly_tokens, monthly_audio_minutes } = validatedFields.data
+
+  const { error } =
+    monthly_tokens === null && monthly_audio_minutes === null
+      ? await supabase.from("ai_quotas").delete().eq("user_id", user_id)
+      : await supabase.from("ai_quotas").upsert(
+          {
+            user_id,
+            monthly_tokens,
+            monthly_audio_seconds: monthly_audio_minutes === null ? null : monthly_audio_minutes * 60,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "user_id" },
+        )
+
+  if (error) {
+    console.error("[setUserAiQuota] Database error:", error)
+    return { success: false, error: "Failed to update AI quota" }
+  }
+
+  revalidatePath("/admin/ai-usage")
+  return { success: true }
+}
@@ -0,0 +1,163 @@
+"use server"
+
+import { createHash } from "crypto"
+import { headers } from "next/headers"
+import { createClient } from "@/lib/supabase/server"
+import type { DailyViewStats, TopArtifactViews, ViewAnalytics } from "@/lib/types/analytics"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import {
+  DEFAULT_ANALYTICS_DAYS,
+  MAX_ANALYTICS_DAYS,
+  categorizeReferrer,
+  fillDailySeries,
+  isLikelyBot,
+  sumDailyViews,
+  toViewDay,
+} from "@/lib/utils/view-analytics"
+
+const TOP_ARTIFACTS_LIMIT = 5
+
+/**
+ * Hash a viewer (user id, or IP + user agent for anonymous visitors) for one day
+ * Falls back to the service role key so the salt is always a server-side secret
+ */
+function hashViewer(identity: string, day: string): string {
+  const salt = process.env.ANALYTICS_SALT || process.env.SUPABASE_SERVICE_ROLE_KEY || ""
+  return createHash("sha256").update(`${salt}:${day}:${identity}`).digest("hex")
+}
+
+/**
+ * Record a page view of an artifact or collection
+ * Called from the server-rendered detail pages after the view permission check.
+ * Owners, bots and router prefetches aren't counted. Never throws - analytics
+ * must not break the page.
+ */
+export async function recordView({
+  artifactId,
+  collectionId,
+  ownerId,
+  ref,
+}: {
+  artifactId?: string
+  collectionId?: string
+  ownerId: string | null
+  ref?: string | null
+}): Promise<void> {
+  if (!artifactId === !collectionId) return
+
+  try {
+    const headerStore = await headers()
+    const userAgent = headerStore.get("user-agent")
+
+    if (headerStore.get("next-router-prefetch") || isLikelyBot(userAgent)) return
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (user && user.id === ownerId) return
+
+    const ip = headerStore.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown"
+    const day = toViewDay()
+
+    const { error } = await supabase.from("view_events").insert({
+      artifact_id: artifactId ?? null,
+      collection_id: collectionId ?? null,
+      viewer_hash: hashViewer(user ? `user:${user.id}` : `anon:${ip}:${userAgent}`, day),
+      referrer: categorizeReferrer({ ref, referer: headerStore.get("referer"), host: headerStore.get("host") }),
+      viewed_on: day,
+    })
+
+    if (error) {
+      console.error("[recordView] Database error:", error)
+    }
+  } catch (error) {
+    console.error("[recordView] Failed to record view:", error)
+  }
+}
+
+/**
+ * Daily views, unique viewers and referrers for an artifact or collection (owner or admin)
+ * Collections also get their most viewed artifacts
+ */
+export async function getViewAnalytics({
+  artifactId,
+  collectionId,
+  days = DEFAULT_ANALYTICS_DAYS,
+}: {
+  artifactId?: string
+  collectionId?: string
+  days?: number
+}): Promise<{ data?: ViewAnalytics; error?: string }> {
+  if (!artifactId === !collectionId) {
+    return { error: "Choose an artifact or a collection" }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: target } = artifactId
+    ? await supabase.from("artifacts").select("user_id").eq("id", artifactId).maybeSingle()
+    : await supabase.from("collections").select("user_id").eq("id", collectionId!).maybeSingle()
+
+  if (!target) {
+    return { error: artifactId ? "Artifact not found" : "Collection not found" }
+  }
+
+  if (target.user_id !== user.id && !(await isCurrentUserAdmin())) {
+    return { error: "Unauthorized" }
+  }
+
+  const range = Math.min(Math.max(Math.floor(days) || DEFAULT_ANALYTICS_DAYS, 1), MAX_ANALYTICS_DAYS)
+  const today = new Date()
+  const since = toViewDay(new Date(today.getTime() - (range - 1) * 24 * 60 * 60 * 1000))
+
+  const { data: dailyRows, error } = await supabase.rpc("get_daily_view_stats", {
+    p_artifact_id: artifactId ?? null,
+    p_collection_id: collectionId ?? null,
+    p_since: since,
+  })
+
+  if (error) {
+    console.error("[getViewAnalytics] RPC error:", error)
+    return { error: "Failed to load analytics" }
+  }
+
+  let topArtifacts: TopArtifactViews[] = []
+  if (collectionId) {
+    const { data: topRows, error: topError } = await supabase.rpc("get_top_collection_artifacts", {
+      p_collection_id: collectionId,
+      p_since: since,
+      p_limit: TOP_ARTIFACTS_LIMIT,
+    })
+
+    if (topError) {
+      console.error("[getViewAnalytics] Top artifacts RPC error:", topError)
+    }
+
+    topArtifacts = ((topRows as TopArtifactViews[] | null) || []).map((row) => ({
+      ...row,
+      views: Number(row.views),
+      unique_viewers: Number(row.unique_viewers),
+    }))
+  }
+
+  const daily = fillDailySeries((dailyRows as DailyViewStats[] | null) || [], range, today)
+
+  return {
+    data: {
+      days: range,
+      daily,
+      totals: sumDailyViews(daily),
+      topArtifacts,
+    },
+  }
+}
@@ -4,6 +4,8 @@ import { createClient } from "@/lib/supabase/server"
 import {
   createArtifactSchema,
   updateArtifactSchema,
+  attributeSchemaDefinitionSchema,
+  buildAttributeValuesSchema,
   type CreateArtifactInput,
   type UpdateArtifactInput,
 } from "@/lib/schemas"
@@ -11,12 +13,75 @@ import { revalidatePath } from "next/cache"
 import { redirect } from "next/navigation"
 import { deleteCloudinaryMedia, extractPublicIdFromUrl } from "./cloudinary"
 import { generateSlug, generateUniqueSlug } from "@/lib/utils/slug"
+import { getArtifactPath, getCollectionPath } from "@/lib/utils/routes"
 import { isCurrentUserAdmin } from "@/lib/utils/admin"
 import { hasVisualMedia, getPrimaryVisualMediaUrl, getStorageType, isImageUrl, isVideoUrl, isAudioUrl } from "@/lib/media"
 import { reorganizeArtifactMedia } from "./media-reorganize"
 import { generateDerivativesMap } from "@/lib/utils/media-derivatives"
 import { deleteFromSupabaseStorage } from "./supabase-storage"
 import { createUserMediaFromUrl, createArtifactMediaLinks } from "./media"
+import type { ArtifactAttributes } from "@/lib/types/artifact-types"
+import { isSameAttributes } from "@/lib/utils/artifact-attributes"
+import type { AudioTranscriptSegments } from "@/lib/types/transcripts"
+import { buildSeedProvenanceEvent } from "@/lib/utils/provenance"
+import { findOrCreatePlace } from "@/lib/places"
+import { hasFamilyRole } from "@/lib/utils/family-roles"
+import { getMyCollectionFamilyRole } from "./families"
+import type { SearchMode, SortOption } from "@/lib/utils/artifact-filters"
+import { getEmbeddingProvider } from "@/lib/embeddings"
+import { AiQuotaError, createUsageMeter } from "@/lib/ai-usage"
+import { queueDocumentTranscription } from "@/lib/ai-jobs"
+import { toVectorLiteral } from "@/lib/utils/embeddings"
+import { normalizeSearchQuery, orderBySearchRank } from "@/lib/utils/search"
+import type { SearchHighlightRow, SearchMatch, SearchRankRow } from "@/lib/types/search"
+
+/**
+ * Validate attribute values against the selected type's attribute_schema
+ * Keys not defined by the type are stripped; returns field errors keyed as "attributes.<key>"
+ * Required attributes are only enforced when enforceRequired is set (see updateArtifact).
+ */
+async function validateArtifactAttributes(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  typeId: string | null | undefined,
+  attributes: ArtifactAttributes,
+  { enforceRequired = true }: { enforceRequired?: boolean } = {},
+): Promise<{ data: ArtifactAttributes } | { error: string; fieldErrors: Record<string, string[]> }> {
+  if (!typeId) {
+    return Object.keys(attributes).length === 0
+      ? { data: {} }
+      : { error: "Invalid input", fieldErrors: { attributes: ["Select a type before adding attributes"] } }
+  }
+
+  const { data: artifactType, error } = await supabase
+    .from("artifact_types")
+    .select("attribute_schema")
+    .eq("id", typeId)
+    .single()
+
+  if (error || !artifactType) {
+    console.error("[v0] validateArtifactAttributes - Failed to load type schema:", error)
+    return { error: "Invalid input", fieldErrors: { type_id: ["Unknown artifact type"] } }
+  }
+
+  const definitions = attributeSchemaDefinitionSchema.safeParse(artifactType.attribute_schema || [])
+  if (!definitions.success) {
+    console.error("[v0] validateArtifactAttributes - Malformed attribute_schema for type:", typeId)
+    return { error: "This artifact type has an invalid attribute configuration.", fieldErrors: {} }
+  }
+
+  const validated = buildAttributeValuesSchema(definitions.data, { enforceRequired }).safeParse(attributes)
+  if (!validated.success) {
+    const fieldErrors: Record<string, string[]> = {}
+    for (const [key, messages] of Object.entries(validated.error.flatten().fieldErrors)) {
+      if (messages && messages.length > 0) {
+        fieldErrors[`attributes.${key}`] = messages
+      }
+    }
+    return { error: "Invalid input", fieldErrors }
+  }
+
+  return { data: validated.data as ArtifactAttributes }
+}
 
 export async function createArtifact(
   input: CreateArtifactInput,
@@ -53,6 +118,39 @@ export async function createArtifact(
     return { error: "Unauthorized" }
   }
 
+  let attributes: ArtifactAttributes | undefined
+  if (validatedFields.data.attributes !== undefined) {
+    const attributesResult = await validateArtifactAttributes(
+      supabase,
+      validatedFields.data.type_id,
+      validatedFields.data.attributes,
+    )
+    if ("error" in attributesResult) {
+      console.error("[v0] CREATE ARTIFACT - Attribute validation failed:", attributesResult.fieldErrors)
+      return attributesResult
+    }
+    attributes = attributesResult.data
+  }
+
+  // Artifacts go into the user's own collections, or family collections where they can contribute
+  const { data: targetCollection } = await supabase
+    .from("collections")
+    .select("user_id, slug")
+    .eq("id", validatedFields.data.collectionId)
+    .single()
+
+  if (!targetCollection) {
+    return { error: "Collection not found" }
+  }
+
+  if (
+    targetCollection.user_id !== user.id &&
+    !hasFamilyRole(await getMyCollectionFamilyRole(validatedFields.data.collectionId), "contributor")
+  ) {
+    console.error("[v0] CREATE ARTIFACT - User cannot add to collection:", validatedFields.data.collectionId)
+    return { error: "You don't have permission to add artifacts to this collection" }
+  }
+
   const uniqueMediaUrls = Array.from(new Set(validatedFields.data.media_urls || []))
 
   console.log("[v0] CREATE ARTIFACT - Media URLs processed:", {
@@ -140,12 +238,18 @@ export async function createArtifact(
     collection_id: validatedFields.data.collectionId,
     year_acquired: validatedFields.data.year_acquired,
     origin: validatedFields.data.origin,
+    origin_place_id: (await findOrCreatePlace(supabase, user.id, validatedFields.data.origin))?.id ?? null,
     media_urls: validMediaUrls,
     media_derivatives: mediaDerivatives,
     user_id: user.id,
     slug,
     thumbnail_url: thumbnailUrl,
     type_id: validatedFields.data.type_id,
+    language_hint: validatedFields.data.language_hint ?? null,
+  }
+
+  if (attributes && Object.keys(attributes).length > 0) {
+    insertData.attributes = attributes
   }
 
   if (validatedFields.data.image_captions && Object.keys(validatedFields.data.image_captions).length > 0) {
@@ -156,6 +260,14 @@ export async function createArtifact(
     )
   }
 
+  if (validatedFields.data.image_transcriptions && Object.keys(validatedFields.data.image_transcriptions).length > 0) {
+    insertData.image_transcriptions = validatedFields.data.image_transcriptions
+    console.log(
+      "[v0] CREATE ARTIFACT - Including document transcriptions:",
+      Object.keys(validatedFields.data.image_transcriptions).length,
+    )
+  }
+
   if (validatedFields.data.video_summaries && Object.keys(validatedFields.data.video_summaries).length > 0) {
     insertData.video_summaries = validatedFields.data.video_summaries
     console.log(
@@ -208,6 +320,24 @@ export async function createArtifact(
     console.log("[v0] CREATE ARTIFACT - Note: Artifact created without thumbnail (audio-only or no media)")
   }
 
+  // Seed the provenance timeline from year_acquired / origin (the current owner's entry)
+  if (data.year_acquired || data.origin) {
+    const { data: profile } = await supabase.from("profiles").select("display_name").eq("id", user.id).single()
+    const seedEvent = buildSeedProvenanceEvent({
+      ownerName: profile?.display_name,
+      yearAcquired: data.year_acquired,
+      origin: data.origin,
+    })
+    if (seedEvent) {
+      const { error: provenanceError } = await supabase
+        .from("provenance_events")
+        .insert({ ...seedEvent, artifact_id: data.id, place_id: data.origin_place_id, sort_order: 0 })
+      if (provenanceError) {
+        console.error("[v0] CREATE ARTIFACT - Failed to seed provenance (non-fatal):", provenanceError)
+      }
+    }
+  }
+
   // Create gallery links ONLY for URLs explicitly added to the gallery
   // gallery_urls contains URLs added to gallery section, media_urls contains media block URLs
   // These are independent - don't fall back to all visual media
@@ -266,13 +396,14 @@ export async function createArtifact(
     }
   }
 
+  // Letters and documents have their pages transcribed as soon as they're saved
+  await queueDocumentTranscription(supabase, data.id, user.id)
+
   revalidatePath("/artifacts")
   revalidatePath("/collections")
-  if (validatedFields.data.collectionId) {
-    revalidatePath(`/collections/${validatedFields.data.collectionId}`)
-  }
+  revalidatePath(getCollectionPath({ id: validatedFields.data.collectionId, slug: targetCollection.slug }))
 
-  redirect(`/artifacts/${data.slug}`)
+  redirect(getArtifactPath(data))
 }
 
 export async function getArtifactsByCollection(collectionId: string) {
@@ -309,6 +440,10 @@ export async function getArtifactsByCollection(collectionId: string) {
   return data
 }
 
+/**
+ * Get an artifact by ID. Visibility is enforced by RLS, which also honors
+ * private share link grants forwarded by createClient().
+ */
 export async function getArtifactById(artifactId: string) {
   const supabase = await createClient()
 
@@ -316,7 +451,8 @@ export async function getArtifactById(artifactId: string) {
     .from("artifacts")
     .select(`
       *,
-      collection:collections(id, title, is_public, slug)
+      collection:collections(id, title, is_public, slug),
+      artifact_type:artifact_types(id, name, icon_name, attribute_schema, interview_questions, analysis_mode)
     `)
     .eq("id", artifactId)
     .single()
@@ -338,6 +474,32 @@ export async function getArtifactById(artifactId: string) {
   return data
 }
 
+/**
+ * Resolve a legacy slug-only URL to an artifact ID
+ * Current slugs win; otherwise the most recent artifact that gave up the slug (slug_history)
+ */
+export async function getArtifactIdBySlug(slug: string): Promise<string | null> {
+  const supabase = await createClient()
+
+  const { data: current } = await supabase.from("artifacts").select("id").eq("slug", slug).maybeSingle()
+  if (current) {
+    return current.id
+  }
+
+  const { data: previous, error } = await supabase
+    .from("slug_history")
+    .select("artifact_id")
+    .eq("slug", slug)
+    .not("artifact_id", "is", null)
+    .maybeSingle()
+
+  if (error) {
+    console.error("[getArtifactIdBySlug] Error looking up slug history:", error)
+  }
+
+  return previous?.artifact_id ?? null
+}
+
 export async function getAdjacentArtifacts(artifactId: string, collectionId: string) {
   const supabase = await createClient()
 
@@ -375,17 +537,130 @@ export interface ArtifactQueryOptions {
     createdAt?: string
     updatedAt?: string
     title?: string
+    rank?: number
     id: string
   }
-  sortBy?: "newest" | "oldest" | "title-asc" | "title-desc" | "last-edited"
+  sortBy?: SortOption
   typeIds?: string[]
+  search?: string
+  // Semantic search is always ranked by similarity
+  searchMode?: SearchMode
+}
+
+/**
+ * Embed a search query, metered against the signed-in user's AI quota
+ * Returns null for signed-out visitors, once the quota is used up, or if the provider fails;
+ * the search then matches words instead.
+ */
+async function embedSearchQuery(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  search: string,
+): Promise<{ vector: number[]; model: string } | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return null
+  }
+
+  const meter = createUsageMeter(supabase, { userId: user.id })
+  const provider = getEmbeddingProvider()
+
+  try {
+    await meter.check()
+    const { embeddings, usage } = await provider.embed([search])
+    await meter.record("embedding", provider.id, usage)
+    return { vector: embeddings[0], model: provider.id }
+  } catch (error) {
+    if (!(error instanceof AiQuotaError)) {
+      console.error("Error embedding search query:", error)
+    }
+    return null
+  }
+}
+
+/**
+ * One page of artifact IDs from search_artifacts() (or search_artifacts_semantic() when the query was embedded),
+ * best match first (limit + 1 rows, for hasMore)
+ * Maps ID to rank; null if the search failed
+ */
+async function searchArtifactIds(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  search: string,
+  scope: { userId?: string; excludeUserId?: string },
+  { limit = 24, cursor, typeIds, searchMode = "keyword" }: ArtifactQueryOptions,
+): Promise<Map<string, number> | null> {
+  const filters = {
+    p_user_id: scope.userId ?? null,
+    p_exclude_user_id: scope.excludeUserId ?? null,
+    p_type_ids: typeIds && typeIds.length > 0 ? typeIds : null,
+    p_after_rank: cursor?.rank ?? null,
+    p_after_id: cursor?.rank !== undefined ? cursor.id : null,
+    p_limit: limit + 1,
+  }
+
+  const embedding = searchMode === "semantic" ? await embedSearchQuery(supabase, search) : null
+
+  const result = embedding
+    ? await supabase.rpc("search_artifacts_semantic", {
+        p_embedding: toVectorLiteral(embedding.vector),
+        p_model: embedding.model,
+        ...filters,
+      })
+    : await supabase.rpc("search_artifacts", { p_query: search, ...filters })
+
+  const { data, error } = result
+
+  if (error) {
+    console.error("Error searching artifacts:", error)
+    return null
+  }
+
+  return new Map((data as SearchRankRow[]).map((row) => [row.id, row.rank]))
+}
+
+/**
+ * Which field each artifact matched, with a highlighted snippet
+ */
+async function getArtifactSearchMatches(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  search: string,
+  artifactIds: string[],
+): Promise<Map<string, SearchMatch>> {
+  if (artifactIds.length === 0) return new Map()
+
+  const { data, error } = await supabase.rpc("get_artifact_search_highlights", {
+    p_query: search,
+    p_artifact_ids: artifactIds,
+  })
+
+  if (error) {
+    console.error("Error fetching search highlights:", error)
+    return new Map()
+  }
+
+  return new Map(
+    (data as (SearchHighlightRow & { artifact_id: string })[]).map((row) => [
+      row.artifact_id,
+      { field: row.field, snippet: row.snippet },
+    ]),
+  )
 }
 
 export async function getAllPublicArtifactsPaginated(
   excludeUserId?: string,
   options: ArtifactQueryOptions = {},
 ) {
-  const { limit = 24, cursor, sortBy = "newest", typeIds } = options
+  const { limit = 24, cursor, typeIds } = options
+  const search = normalizeSearchQuery(options.search)
+  // Best match needs something to match against; semantic matches only have a best match
+  const sortBy =
+    search && options.searchMode === "semantic"
+      ? "relevance"
+      : options.sortBy === "relevance" && !search
+        ? "newest"
+        : (options.sortBy ?? "newest")
 
   const supabase = await createClient()
 
@@ -407,6 +682,18 @@ export async function getAllPublicArtifactsPaginated(
     query = query.in("type_id", typeIds)
   }
 
+  // Ranked search pages through search_artifacts(); other sorts filter on the search index
+  let ranks: Map<string, number> | null = null
+  if (search && sortBy === "relevance") {
+    ranks = await searchArtifactIds(supabase, search, { excludeUserId }, options)
+    if (!ranks || ranks.size === 0) {
+      return { artifacts: [], hasMore: false }
+    }
+    query = query.in("id", [...ranks.keys()])
+  } else if (search) {
+    query = query.textSearch("search_vector", search, { type: "websearch", config: "english" })
+  }
+
   // Apply cursor-based pagination based on sort order
   if (cursor) {
     switch (sortBy) {
@@ -431,6 +718,9 @@ export async function getAllPublicArtifactsPaginated(
           `updated_at.lt.${cursor.updatedAt},and(updated_at.eq.${cursor.updatedAt},id.lt.${cursor.id})`,
         )
         break
+      case "relevance":
+        // The cursor was applied by search_artifacts()
+        break
     }
   }
 
@@ -451,6 +741,9 @@ export async function getAllPublicArtifactsPaginated(
     case "last-edited":
       query = query.order("updated_at", { ascending: false }).order("id", { ascending: false })
       break
+    case "relevance":
+      // Reordered by rank below
+      break
   }
 
   const { data, error } = await query.limit(limit + 1)
@@ -460,8 +753,12 @@ export async function getAllPublicArtifactsPaginated(
     return { artifacts: [], hasMore: false }
   }
 
-  const hasMore = data.length > limit
-  const artifacts = hasMore ? data.slice(0, limit) : data
+  const rows = ranks ? orderBySearchRank(data, [...ranks.keys()]) : data
+  const hasMore = rows.length > limit
+  const artifacts = hasMore ? rows.slice(0, limit) : rows
+  const searchMatches = search
+    ? await getArtifactSearchMatches(supabase, search, artifacts.map((artifact) => artifact.id))
+    : new Map<string, SearchMatch>()
 
   const userIds = [...new Set(artifacts.map((artifact) => artifact.user_id))]
   const { data: profiles } = await supabase.from("profiles").select("id, display_name").in("id", userIds)
@@ -471,6 +768,8 @@ export async function getAllPublicArtifactsPaginated(
   const enrichedArtifacts = artifacts.map((artifact) => ({
     ...artifact,
     author_name: profileMap.get(artifact.user_id) || null,
+    search_rank: ranks?.get(artifact.id) ?? null,
+    search_match: searchMatches.get(artifact.id) ?? null,
   }))
 
   return {
@@ -480,7 +779,15 @@ export async function getAllPublicArtifactsPaginated(
 }
 
 export async function getMyArtifactsPaginated(userId: string, options: ArtifactQueryOptions = {}) {
-  const { limit = 24, cursor, sortBy = "newest", typeIds } = options
+  const { limit = 24, cursor, typeIds } = options
+  const search = normalizeSearchQuery(options.search)
+  // Best match needs something to match against; semantic matches only have a best match
+  const sortBy =
+    search && options.searchMode === "semantic"
+      ? "relevance"
+      : options.sortBy === "relevance" && !search
+        ? "newest"
+        : (options.sortBy ?? "newest")
 
   const supabase = await createClient()
 
@@ -498,6 +805,18 @@ export async function getMyArtifactsPaginated(userId: string, options: ArtifactQ
     query = query.in("type_id", typeIds)
   }
 
+  // Ranked search pages through search_artifacts(); other sorts filter on the search index
+  let ranks: Map<string, number> | null = null
+  if (search && sortBy === "relevance") {
+    ranks = await searchArtifactIds(supabase, search, { userId }, options)
+    if (!ranks || ranks.size === 0) {
+      return { artifacts: [], hasMore: false }
+    }
+    query = query.in("id", [...ranks.keys()])
+  } else if (search) {
+    query = query.textSearch("search_vector", search, { type: "websearch", config: "english" })
+  }
+
   // Apply cursor-based pagination based on sort order
   if (cursor) {
     switch (sortBy) {
@@ -522,6 +841,9 @@ export async function getMyArtifactsPaginated(userId: string, options: ArtifactQ
           `updated_at.lt.${cursor.updatedAt},and(updated_at.eq.${cursor.updatedAt},id.lt.${cursor.id})`,
         )
         break
+      case "relevance":
+        // The cursor was applied by search_artifacts()
+        break
     }
   }
 
@@ -542,6 +864,9 @@ export async function getMyArtifactsPaginated(userId: string, options: ArtifactQ
     case "last-edited":
       query = query.order("updated_at", { ascending: false }).order("id", { ascending: false })
       break
+    case "relevance":
+      // Reordered by rank below
+      break
   }
 
   const { data, error } = await query.limit(limit + 1)
@@ -551,12 +876,18 @@ export async function getMyArtifactsPaginated(userId: string, options: ArtifactQ
     return { artifacts: [], hasMore: false }
   }
 
-  const hasMore = data.length > limit
-  const artifacts = hasMore ? data.slice(0, limit) : data
+  const rows = ranks ? orderBySearchRank(data, [...ranks.keys()]) : data
+  const hasMore = rows.length > limit
+  const artifacts = hasMore ? rows.slice(0, limit) : rows
+  const searchMatches = search
+    ? await getArtifactSearchMatches(supabase, search, artifacts.map((artifact) => artifact.id))
+    : new Map<string, SearchMatch>()
 
   const enrichedArtifacts = artifacts.map((artifact) => ({
     ...artifact,
     author_name: null,
+    search_rank: ranks?.get(artifact.id) ?? null,
+    search_match: searchMatches.get(artifact.id) ?? null,
   }))
 
   return {
@@ -652,7 +983,7 @@ export async function updateArtifact(
   const { data: existingArtifact } = await supabase
     .from("artifacts")
     .select(
-      "user_id, collection_id, slug, title, media_urls, thumbnail_url, collection:collections(slug), image_captions, video_summaries, audio_transcripts, audio_summaries",
+      "user_id, collection_id, slug, title, origin, type_id, attributes, media_urls, thumbnail_url, collection:collections(id, slug), image_captions, image_transcriptions, video_summaries, audio_transcripts, audio_transcript_segments, audio_summaries",
     )
     .eq("id", validatedFields.data.id)
     .single()
@@ -661,10 +992,34 @@ export async function updateArtifact(
     return { success: false, error: "Artifact not found" }
   }
 
-  if (!isAdmin && existingArtifact.user_id !== user.id) {
+  // Family editors can edit any artifact in the family's collections
+  if (
+    !isAdmin &&
+    existingArtifact.user_id !== user.id &&
+    !hasFamilyRole(await getMyCollectionFamilyRole(existingArtifact.collection_id), "editor")
+  ) {
     return { success: false, error: "Unauthorized" }
   }
 
+  let attributes: ArtifactAttributes | undefined
+  if (validatedFields.data.attributes !== undefined) {
+    // Editing something else (e.g. the title) shouldn't fail on required attributes the
+    // artifact never had; they're enforced once the type or its attributes change
+    const attributesChanged =
+      (validatedFields.data.type_id ?? null) !== (existingArtifact.type_id ?? null) ||
+      !isSameAttributes(existingArtifact.attributes, validatedFields.data.attributes)
+    const attributesResult = await validateArtifactAttributes(
+      supabase,
+      validatedFields.data.type_id,
+      validatedFields.data.attributes,
+      { enforceRequired: attributesChanged },
+    )
+    if ("error" in attributesResult) {
+      return { success: false, ...attributesResult }
+    }
+    attributes = attributesResult.data
+  }
+
   const newMediaUrls = validatedFields.data.media_urls || []
 
   const validNewMediaUrls = newMediaUrls.filter((url) => {
@@ -699,6 +1054,11 @@ export async function updateArtifact(
       ? validatedFields.data.image_captions
       : { ...(existingArtifact.image_captions || {}) }
 
+  const updatedImageTranscriptions =
+    validatedFields.data.image_transcriptions !== undefined
+      ? validatedFields.data.image_transcriptions
+      : { ...(existingArtifact.image_transcriptions || {}) }
+
   const updatedVideoSummaries =
     validatedFields.data.video_summaries !== undefined
       ? validatedFields.data.video_summaries
@@ -711,11 +1071,20 @@ export async function updateArtifact(
 
   const updatedAudioSummaries = existingArtifact.audio_summaries ? { ...existingArtifact.audio_summaries } : {}
 
+  // Segments from this edit session replace the saved ones per URL; segments that no longer
+  // match their transcript are ignored when read (lib/utils/transcripts.ts)
+  const updatedAudioTranscriptSegments: AudioTranscriptSegments = {
+    ...(existingArtifact.audio_transcript_segments || {}),
+    ...(validatedFields.data.audio_transcript_segments || {}),
+  }
+
   // Remove AI data for deleted media URLs
   for (const removedUrl of removedUrls) {
     delete updatedImageCaptions[removedUrl]
+    delete updatedImageTranscriptions[removedUrl]
     delete updatedVideoSummaries[removedUrl]
     delete updatedAudioTranscripts[removedUrl]
+    delete updatedAudioTranscriptSegments[removedUrl]
     delete updatedAudioSummaries[removedUrl]
   }
 
@@ -785,16 +1154,34 @@ export async function updateArtifact(
     thumbnail_url: thumbnailUrl,
     updated_at: new Date().toISOString(),
     image_captions: updatedImageCaptions,
+    image_transcriptions: updatedImageTranscriptions,
     video_summaries: updatedVideoSummaries,
     audio_transcripts: updatedAudioTranscripts,
+    audio_transcript_segments: updatedAudioTranscriptSegments,
     audio_summaries: updatedAudioSummaries,
     type_id: validatedFields.data.type_id,
   }
 
+  if (attributes !== undefined) {
+    updateData.attributes = attributes
+  }
+
+  if (validatedFields.data.language_hint !== undefined) {
+    updateData.language_hint = validatedFields.data.language_hint
+  }
+
   if (collectionChanged) {
     updateData.collection_id = newCollectionId
   }
 
+  // Keep the origin's place in step; family editors can only link the owner's existing places
+  if (validatedFields.data.origin !== undefined && validatedFields.data.origin !== existingArtifact.origin) {
+    const place = await findOrCreatePlace(supabase, existingArtifact.user_id, validatedFields.data.origin, {
+      create: existingArtifact.user_id === user.id,
+    })
+    updateData.origin_place_id = place?.id ?? null
+  }
+
   console.log("[v0] UPDATE ARTIFACT - Updating with validated data:", {
     artifactId: validatedFields.data.id,
     mediaCount: uniqueMediaUrls.length,
@@ -852,20 +1239,27 @@ export async function updateArtifact(
     }
   }
 
-  revalidatePath(`/artifacts/${existingArtifact.slug}`)
-  revalidatePath(`/artifacts/${updatedArtifact.slug}`)
+  // Pages added to a letter or document are transcribed in the background
+  await queueDocumentTranscription(supabase, validatedFields.data.id, user.id)
+
+  revalidatePath(getArtifactPath({ id: validatedFields.data.id, slug: existingArtifact.slug }))
+  revalidatePath(getArtifactPath(updatedArtifact))
   revalidatePath("/collections")
 
-  if (existingArtifact.collection?.[0]?.slug) {
-    revalidatePath(`/collections/${existingArtifact.collection?.[0]?.slug}`)
+  if (existingArtifact.collection?.[0]) {
+    revalidatePath(getCollectionPath(existingArtifact.collection[0]))
   }
 
   if (collectionChanged) {
     // Fetch new collection slug for revalidation
-    const { data: newCollection } = await supabase.from("collections").select("slug").eq("id", newCollectionId).single()
-
-    if (newCollection?.slug) {
-      revalidatePath(`/collections/${newCollection.slug}`)
+    const { data: newCollection } = await supabase
+      .from("collections")
+      .select("id, slug")
+      .eq("id", newCollectionId)
+      .single()
+
+    if (newCollection) {
+      revalidatePath(getCollectionPath(newCollection))
     }
   }
 
@@ -888,7 +1282,7 @@ export async function deleteMediaFromArtifact(artifactId: string, mediaUrl: stri
   const { data: artifact, error: fetchError } = await supabase
     .from("artifacts")
     .select(
-      "user_id, slug, media_urls, image_captions, video_summaries, audio_transcripts, audio_summaries, collection:collections(slug)",
+      "user_id, slug, media_urls, image_captions, image_transcriptions, video_summaries, audio_transcripts, audio_transcript_segments, audio_summaries, collection:collections(id, slug)",
     )
     .eq("id", artifactId)
     .single()
@@ -906,12 +1300,18 @@ export async function deleteMediaFromArtifact(artifactId: string, mediaUrl: stri
   const updatedImageCaptions = { ...(artifact.image_captions || {}) }
   delete updatedImageCaptions[mediaUrl]
 
+  const updatedImageTranscriptions = { ...(artifact.image_transcriptions || {}) }
+  delete updatedImageTranscriptions[mediaUrl]
+
   const updatedVideoSummaries = { ...(artifact.video_summaries || {}) }
   delete updatedVideoSummaries[mediaUrl]
 
   const updatedAudioTranscripts = { ...(artifact.audio_transcripts || {}) }
   delete updatedAudioTranscripts[mediaUrl]
 
+  const updatedAudioTranscriptSegments = { ...(artifact.audio_transcript_segments || {}) }
+  delete updatedAudioTranscriptSegments[mediaUrl]
+
   const updatedAudioSummaries = { ...(artifact.audio_summaries || {}) }
   delete updatedAudioSummaries[mediaUrl]
 
@@ -923,8 +1323,10 @@ export async function deleteMediaFromArtifact(artifactId: string, mediaUrl: stri
       media_urls: updatedMediaUrls,
       thumbnail_url: newThumbnailUrl, // Phase 2: Update thumbnail
       image_captions: updatedImageCaptions,
+      image_transcriptions: updatedImageTranscriptions,
       video_summaries: updatedVideoSummaries,
       audio_transcripts: updatedAudioTranscripts,
+      audio_transcript_segments: updatedAudioTranscriptSegments,
       audio_summaries: updatedAudioSummaries,
       updated_at: new Date().toISOString(),
     })
@@ -940,15 +1342,19 @@ export async function deleteMediaFromArtifact(artifactId: string, mediaUrl: stri
     await deleteCloudinaryMedia(publicId)
   }
 
-  revalidatePath(`/artifacts/${artifact.slug}`)
+  revalidatePath(getArtifactPath({ id: artifactId, slug: artifact.slug }))
   revalidatePath("/collections")
-  if (artifact.collection?.[0]?.slug) {
-    revalidatePath(`/collections/${artifact.collection?.[0]?.slug}`)
+  if (artifact.collection?.[0]) {
+    revalidatePath(getCollectionPath(artifact.collection[0]))
   }
 
   return { success: true }
 }
 
+/**
+ * Get an artifact by slug. Visibility is enforced by RLS, which also honors
+ * private share link grants forwarded by createClient().
+ */
 export async function getArtifactBySlug(artifactSlug: string) {
   const supabase = await createClient()
 
@@ -959,7 +1365,7 @@ export async function getArtifactBySlug(artifactSlug: string) {
     .select(`
       *,
       collection:collections(id, title, is_public, slug),
-      artifact_type:artifact_types(id, name, icon_name)
+      artifact_type:artifact_types(id, name, icon_name, attribute_schema, interview_questions, analysis_mode)
     `)
     .eq("slug", artifactSlug)
     .single()
@@ -1002,7 +1408,7 @@ export async function deleteArtifact(artifactId: string, deleteMedia: boolean =
 
   const { data: artifact, error: fetchError } = await supabase
     .from("artifacts")
-    .select("user_id, slug, media_urls, thumbnail_url, collection:collections(slug)")
+    .select("user_id, slug, media_urls, thumbnail_url, collection:collections(id, slug)")
     .eq("id", artifactId)
     .single()
 
@@ -1108,7 +1514,7 @@ export async function deleteArtifact(artifactId: string, deleteMedia: boolean =
       // Clean up media_urls arrays and thumbnails in OTHER artifacts that reference this media
       const { data: otherArtifacts } = await supabase
         .from("artifacts")
-        .select("id, slug, media_urls, thumbnail_url, image_captions, video_summaries, audio_transcripts")
+        .select("id, slug, media_urls, thumbnail_url, image_captions, image_transcriptions, video_summaries, audio_transcripts")
         .eq("user_id", user.id)
         .neq("id", artifactId) // Exclude the artifact being deleted
         .contains("media_urls", [url])
@@ -1122,6 +1528,9 @@ export async function deleteArtifact(artifactId: string, deleteMedia: boolean =
           const updatedImageCaptions = { ...(otherArtifact.image_captions || {}) }
           delete updatedImageCaptions[url]
 
+          const updatedImageTranscriptions = { ...(otherArtifact.image_transcriptions || {}) }
+          delete updatedImageTranscriptions[url]
+
           const updatedVideoSummaries = { ...(otherArtifact.video_summaries || {}) }
           delete updatedVideoSummaries[url]
 
@@ -1141,6 +1550,7 @@ export async function deleteArtifact(artifactId: string, deleteMedia: boolean =
               media_urls: updatedMediaUrls,
               thumbnail_url: newThumbnailUrl,
               image_captions: updatedImageCaptions,
+              image_transcriptions: updatedImageTranscriptions,
               video_summaries: updatedVideoSummaries,
               audio_transcripts: updatedAudioTranscripts,
               updated_at: new Date().toISOString(),
@@ -1151,7 +1561,7 @@ export async function deleteArtifact(artifactId: string, deleteMedia: boolean =
             console.error("[deleteArtifact] Failed to update artifact", otherArtifact.id, ":", updateError)
           } else {
             // Revalidate the updated artifact's page
-            revalidatePath(`/artifacts/${otherArtifact.slug}`)
+            revalidatePath(getArtifactPath(otherArtifact))
           }
         }
       }
@@ -1170,10 +1580,10 @@ export async function deleteArtifact(artifactId: string, deleteMedia: boolean =
 
   console.log("[deleteArtifact] Successfully deleted artifact:", artifactId)
 
-  revalidatePath(`/artifacts/${artifact.slug}`)
+  revalidatePath(getArtifactPath({ id: artifactId, slug: artifact.slug }))
   revalidatePath("/collections")
-  if (artifact.collection?.[0]?.slug) {
-    revalidatePath(`/collections/${artifact.collection?.[0]?.slug}`)
+  if (artifact.collection?.[0]) {
+    revalidatePath(getCollectionPath(artifact.collection[0]))
   }
 
   return { success: true }
@@ -1194,7 +1604,7 @@ export async function updateMediaCaption(artifactId: string, mediaUrl: string, c
 
   const { data: artifact, error: fetchError } = await supabase
     .from("artifacts")
-    .select("user_id, slug, image_captions, collection:collections(slug)")
+    .select("user_id, slug, image_captions, collection:collections(id, slug)")
     .eq("id", artifactId)
     .single()
 
@@ -1224,9 +1634,9 @@ export async function updateMediaCaption(artifactId: string, mediaUrl: string, c
     return { success: false, error: "Failed to update caption" }
   }
 
-  revalidatePath(`/artifacts/${artifact.slug}`)
-  if (artifact.collection?.[0]?.slug) {
-    revalidatePath(`/collections/${artifact.collection?.[0]?.slug}`)
+  revalidatePath(getArtifactPath({ id: artifactId, slug: artifact.slug }))
+  if (artifact.collection?.[0]) {
+    revalidatePath(getCollectionPath(artifact.collection[0]))
   }
 
   return { success: true }
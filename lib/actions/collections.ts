@@ -5,8 +5,129 @@ import { collectionSchema, type CollectionInput } from "@/lib/schemas"
 import { revalidatePath } from "next/cache"
 import { getArtifactsByCollection, deleteArtifact } from "./artifacts"
 import { generateSlug, generateUniqueSlug } from "@/lib/utils/slug"
+import { getCollectionPath } from "@/lib/utils/routes"
 import { isCurrentUserAdmin } from "@/lib/utils/admin"
 import { getPrimaryVisualMediaUrl } from "@/lib/media"
+import { hasFamilyRole } from "@/lib/utils/family-roles"
+import type { FamilyRole } from "@/lib/types/families"
+import { getMyFamilyRole } from "./families"
+import { normalizeSearchQuery, orderBySearchRank } from "@/lib/utils/search"
+import type { SearchHighlightRow, SearchMatch, SearchRankRow } from "@/lib/types/search"
+
+/**
+ * IDs of families the user belongs to with at least minRole
+ * Used to include family collections alongside the user's own
+ */
+async function getFamilyIdsForUser(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  minRole: FamilyRole = "viewer",
+): Promise<string[]> {
+  const { data: memberships } = await supabase.from("family_members").select("family_id, role").eq("user_id", userId)
+
+  return (memberships || [])
+    .filter((membership: { role: FamilyRole }) => hasFamilyRole(membership.role, minRole))
+    .map((membership: { family_id: string }) => membership.family_id)
+}
+
+/**
+ * Filter for "collections I own or that are shared with my families"
+ */
+function ownedOrFamilyFilter(userId: string, familyIds: string[]) {
+  return `user_id.eq.${userId},family_id.in.(${familyIds.join(",")})`
+}
+
+export interface CollectionCursor {
+  createdAt?: string
+  rank?: number
+  id: string
+}
+
+/**
+ * One page of collections from search_collections(), best match first (limit + 1 rows, for hasMore)
+ * Null if the search failed
+ */
+async function searchCollectionIds(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  search: string,
+  scope: { userId?: string; excludeUserId?: string },
+  limit: number,
+  cursor?: CollectionCursor,
+): Promise<SearchRankRow[] | null> {
+  const { data, error } = await supabase.rpc("search_collections", {
+    p_query: search,
+    p_user_id: scope.userId ?? null,
+    p_exclude_user_id: scope.excludeUserId ?? null,
+    p_after_rank: cursor?.rank ?? null,
+    p_after_id: cursor?.rank !== undefined ? cursor.id : null,
+    p_limit: limit + 1,
+  })
+
+  if (error) {
+    console.error("Error searching collections:", error)
+    return null
+  }
+
+  return data as SearchRankRow[]
+}
+
+/**
+ * Why each collection matched: its own title/description, or its best-matching artifact
+ */
+async function getCollectionSearchMatches(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  search: string,
+  hits: SearchRankRow[],
+): Promise<Map<string, SearchMatch>> {
+  const matches = new Map<string, SearchMatch>()
+  const ownHits = hits.filter((hit) => !hit.artifact_id)
+  const artifactHits = hits.filter((hit) => hit.artifact_id)
+
+  if (ownHits.length > 0) {
+    const { data, error } = await supabase.rpc("get_collection_search_highlights", {
+      p_query: search,
+      p_collection_ids: ownHits.map((hit) => hit.id),
+    })
+
+    if (error) {
+      console.error("Error fetching collection search highlights:", error)
+    }
+
+    for (const row of (data || []) as (SearchHighlightRow & { collection_id: string })[]) {
+      matches.set(row.collection_id, { field: row.field, snippet: row.snippet })
+    }
+  }
+
+  if (artifactHits.length > 0) {
+    const artifactIds = artifactHits.map((hit) => hit.artifact_id as string)
+    const [{ data: highlights, error }, { data: artifacts }] = await Promise.all([
+      supabase.rpc("get_artifact_search_highlights", { p_query: search, p_artifact_ids: artifactIds }),
+      supabase.from("artifacts").select("id, title").in("id", artifactIds),
+    ])
+
+    if (error) {
+      console.error("Error fetching artifact search highlights:", error)
+    }
+
+    const highlightMap = new Map(
+      ((highlights || []) as (SearchHighlightRow & { artifact_id: string })[]).map((row) => [row.artifact_id, row]),
+    )
+    const titleMap = new Map((artifacts || []).map((artifact: { id: string; title: string }) => [artifact.id, artifact.title]))
+
+    for (const hit of artifactHits) {
+      const highlight = highlightMap.get(hit.artifact_id as string)
+      if (highlight) {
+        matches.set(hit.id, {
+          field: highlight.field,
+          snippet: highlight.snippet,
+          artifact_title: titleMap.get(hit.artifact_id as string) ?? null,
+        })
+      }
+    }
+  }
+
+  return matches
+}
 
 export async function createCollection(input: CollectionInput) {
   const validatedFields = collectionSchema.safeParse(input)
@@ -70,6 +191,10 @@ export async function getCollection(id: string) {
   return data
 }
 
+/**
+ * Get a collection by slug. Visibility is enforced by RLS, which also honors
+ * family membership and private share link grants forwarded by createClient().
+ */
 export async function getCollectionBySlug(slug: string) {
   const supabase = await createClient()
 
@@ -88,6 +213,32 @@ export async function getCollectionBySlug(slug: string) {
   }
 }
 
+/**
+ * Resolve a legacy slug-only URL to a collection ID
+ * Current slugs win; otherwise the most recent collection that gave up the slug (slug_history)
+ */
+export async function getCollectionIdBySlug(slug: string): Promise<string | null> {
+  const supabase = await createClient()
+
+  const { data: current } = await supabase.from("collections").select("id").eq("slug", slug).maybeSingle()
+  if (current) {
+    return current.id
+  }
+
+  const { data: previous, error } = await supabase
+    .from("slug_history")
+    .select("collection_id")
+    .eq("slug", slug)
+    .not("collection_id", "is", null)
+    .maybeSingle()
+
+  if (error) {
+    console.error("[getCollectionIdBySlug] Error looking up slug history:", error)
+  }
+
+  return previous?.collection_id ?? null
+}
+
 export async function getAdjacentCollections(
   collectionId: string,
   userId: string | null,
@@ -211,6 +362,19 @@ export async function updateCollection(collectionId: string, input: CollectionIn
     return { success: false, error: "Unauthorized" }
   }
 
+  const familyId = validatedFields.data.family_id
+  const familyChanged = familyId !== undefined && familyId !== (collection.family_id ?? null)
+
+  // Only the owner can share a collection with a family, and only with a family they belong to
+  if (familyChanged) {
+    if (collection.user_id !== user.id) {
+      return { success: false, error: "Only the collection owner can change its family" }
+    }
+    if (familyId && !(await getMyFamilyRole(familyId))) {
+      return { success: false, error: "Invalid input", fieldErrors: { family_id: ["You are not a member of this family"] } }
+    }
+  }
+
   const { data, error } = await supabase
     .from("collections")
     .update({
@@ -219,6 +383,7 @@ export async function updateCollection(collectionId: string, input: CollectionIn
       is_public: validatedFields.data.is_public,
       updated_at: new Date().toISOString(),
       primary_type_id: validatedFields.data.primary_type_id,
+      ...(familyChanged ? { family_id: familyId } : {}),
     })
     .eq("id", collectionId)
     .select()
@@ -230,7 +395,7 @@ export async function updateCollection(collectionId: string, input: CollectionIn
   }
 
   revalidatePath("/collections")
-  revalidatePath(`/collections/${collection.slug}`)
+  revalidatePath(getCollectionPath(collection))
   return { success: true, data }
 }
 
@@ -355,7 +520,7 @@ export async function deleteCollection(collectionId: string, deleteArtifacts = f
   }
 
   revalidatePath("/collections")
-  revalidatePath(`/collections/${collection.slug}`)
+  revalidatePath(getCollectionPath(collection))
 
   return { success: true }
 }
@@ -363,9 +528,11 @@ export async function deleteCollection(collectionId: string, deleteArtifacts = f
 export async function getAllPublicCollectionsPaginated(
   excludeUserId?: string,
   limit = 24,
-  cursor?: { createdAt: string; id: string },
+  cursor?: CollectionCursor,
+  searchQuery?: string,
 ) {
   const supabase = await createClient()
+  const search = normalizeSearchQuery(searchQuery)
 
   try {
     const isAdmin = await isCurrentUserAdmin()
@@ -382,7 +549,15 @@ export async function getAllPublicCollectionsPaginated(
       query = query.neq("user_id", excludeUserId)
     }
 
-    if (cursor) {
+    // Searches are ranked and paged by search_collections()
+    const hits = search ? await searchCollectionIds(supabase, search, { excludeUserId }, limit, cursor) : null
+    if (search && (!hits || hits.length === 0)) {
+      return { collections: [], hasMore: false }
+    }
+
+    if (hits) {
+      query = query.in("id", hits.map((hit) => hit.id))
+    } else if (cursor) {
       query = query.or(`created_at.lt.${cursor.createdAt},and(created_at.eq.${cursor.createdAt},id.lt.${cursor.id})`)
     }
 
@@ -393,8 +568,14 @@ export async function getAllPublicCollectionsPaginated(
       return { collections: [], hasMore: false }
     }
 
-    const hasMore = collections.length > limit
-    const resultCollections = hasMore ? collections.slice(0, limit) : collections
+    const rows = hits ? orderBySearchRank(collections, hits.map((hit) => hit.id)) : collections
+    const hasMore = rows.length > limit
+    const resultCollections = hasMore ? rows.slice(0, limit) : rows
+    const pageIds = new Set(resultCollections.map((collection) => collection.id))
+    const searchMatches = hits
+      ? await getCollectionSearchMatches(supabase, search, hits.filter((hit) => pageIds.has(hit.id)))
+      : new Map<string, SearchMatch>()
+    const rankMap = new Map(hits?.map((hit) => [hit.id, hit.rank]))
 
     const collectionsWithImages = await Promise.all(
       resultCollections.map(async (collection) => {
@@ -420,6 +601,8 @@ export async function getAllPublicCollectionsPaginated(
           thumbnailImages,
           itemCount: count || 0,
           slug: collection.slug,
+          search_rank: rankMap.get(collection.id) ?? null,
+          search_match: searchMatches.get(collection.id) ?? null,
         }
       }),
     )
@@ -438,20 +621,32 @@ export async function getAllPublicCollectionsPaginated(
 export async function getMyCollectionsPaginated(
   userId: string,
   limit = 24,
-  cursor?: { createdAt: string; id: string },
+  cursor?: CollectionCursor,
+  searchQuery?: string,
 ) {
   const supabase = await createClient()
+  const search = normalizeSearchQuery(searchQuery)
 
   try {
-    let query = supabase
-      .from("collections")
-      .select("*")
-      .eq("user_id", userId)
+    // Include collections shared with the user's families
+    const familyIds = await getFamilyIdsForUser(supabase, userId)
+
+    let query = supabase.from("collections").select("*")
+    query = familyIds.length > 0 ? query.or(ownedOrFamilyFilter(userId, familyIds)) : query.eq("user_id", userId)
+    query = query
       .order("created_at", { ascending: false })
       .order("id", { ascending: false })
       .limit(limit + 1)
 
-    if (cursor) {
+    // Searches are ranked and paged by search_collections()
+    const hits = search ? await searchCollectionIds(supabase, search, { userId }, limit, cursor) : null
+    if (search && (!hits || hits.length === 0)) {
+      return { collections: [], hasMore: false }
+    }
+
+    if (hits) {
+      query = query.in("id", hits.map((hit) => hit.id))
+    } else if (cursor) {
       query = query.or(`created_at.lt.${cursor.createdAt},and(created_at.eq.${cursor.createdAt},id.lt.${cursor.id})`)
     }
 
@@ -462,8 +657,14 @@ export async function getMyCollectionsPaginated(
       return { collections: [], hasMore: false }
     }
 
-    const hasMore = collections.length > limit
-    const resultCollections = hasMore ? collections.slice(0, limit) : collections
+    const rows = hits ? orderBySearchRank(collections, hits.map((hit) => hit.id)) : collections
+    const hasMore = rows.length > limit
+    const resultCollections = hasMore ? rows.slice(0, limit) : rows
+    const pageIds = new Set(resultCollections.map((collection) => collection.id))
+    const searchMatches = hits
+      ? await getCollectionSearchMatches(supabase, search, hits.filter((hit) => pageIds.has(hit.id)))
+      : new Map<string, SearchMatch>()
+    const rankMap = new Map(hits?.map((hit) => [hit.id, hit.rank]))
 
     const collectionsWithImages = await Promise.all(
       resultCollections.map(async (collection) => {
@@ -492,15 +693,21 @@ export async function getMyCollectionsPaginated(
           itemCount: count || 0,
           slug: collection.slug,
           isUnsorted: isUncategorized,
+          isFamilyShared: collection.user_id !== userId,
+          search_rank: rankMap.get(collection.id) ?? null,
+          search_match: searchMatches.get(collection.id) ?? null,
         }
       }),
     )
 
-    collectionsWithImages.sort((a, b) => {
-      if (a.isUnsorted) return -1
-      if (b.isUnsorted) return 1
-      return 0
-    })
+    // Search results stay in rank order
+    if (!hits) {
+      collectionsWithImages.sort((a, b) => {
+        if (a.isUnsorted) return -1
+        if (b.isUnsorted) return 1
+        return 0
+      })
+    }
 
     return { collections: collectionsWithImages, hasMore }
   } catch (error) {
@@ -513,11 +720,14 @@ export async function getMyCollections(userId: string) {
   const supabase = await createClient()
 
   try {
-    const { data: collections, error } = await supabase
-      .from("collections")
-      .select("id, title, slug")
-      .eq("user_id", userId)
-      .order("created_at", { ascending: false })
+    // Family collections the user can add artifacts to are offered too
+    const familyIds = await getFamilyIdsForUser(supabase, userId, "contributor")
+
+    const baseQuery = supabase.from("collections").select("id, title, slug")
+    const { data: collections, error } = await (familyIds.length > 0
+      ? baseQuery.or(ownedOrFamilyFilter(userId, familyIds))
+      : baseQuery.eq("user_id", userId)
+    ).order("created_at", { ascending: false })
 
     if (error) {
       console.error("Error fetching user collections:", error)
@@ -547,11 +757,14 @@ export async function getMyCollectionsWithThumbnails(userId: string) {
   const supabase = await createClient()
 
   try {
-    const { data: collections, error } = await supabase
-      .from("collections")
-      .select("id, title, slug")
-      .eq("user_id", userId)
-      .order("created_at", { ascending: false })
+    // Family collections the user can add artifacts to are offered too
+    const familyIds = await getFamilyIdsForUser(supabase, userId, "contributor")
+
+    const baseQuery = supabase.from("collections").select("id, title, slug")
+    const { data: collections, error } = await (familyIds.length > 0
+      ? baseQuery.or(ownedOrFamilyFilter(userId, familyIds))
+      : baseQuery.eq("user_id", userId)
+    ).order("created_at", { ascending: false })
 
     if (error) {
       console.error("Error fetching user collections:", error)
@@ -0,0 +1,211 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createClient } from "@/lib/supabase/server"
+import { createCommentSchema, type CreateCommentInput } from "@/lib/schemas"
+import type { ArtifactComment } from "@/lib/types/comments"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { getArtifactPath } from "@/lib/utils/routes"
+import { isCloudinaryUrl, isSupabaseStorageUrl } from "@/lib/media"
+import { deleteFromSupabaseStorage } from "./supabase-storage"
+import { deleteCloudinaryMedia, extractPublicIdFromUrl } from "./cloudinary"
+import { markUploadsAsSaved } from "./pending-uploads"
+
+/**
+ * Attach author display names to comment rows
+ */
+async function withAuthorNames(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  rows: Omit<ArtifactComment, "author_name">[]
+): Promise<ArtifactComment[]> {
+  const userIds = [...new Set(rows.map((row) => row.user_id))]
+  if (userIds.length === 0) return []
+
+  const { data: profiles } = await supabase.from("profiles").select("id, display_name").in("id", userIds)
+  const profileMap = new Map(profiles?.map((p) => [p.id, p.display_name]) || [])
+
+  return rows.map((row) => ({ ...row, author_name: profileMap.get(row.user_id) || null }))
+}
+
+/**
+ * Best-effort removal of a comment's photo / voice note from storage
+ */
+async function deleteCommentMedia(urls: (string | null)[]) {
+  for (const url of urls) {
+    if (!url) continue
+
+    if (isSupabaseStorageUrl(url)) {
+      const result = await deleteFromSupabaseStorage(url)
+      if (result.error) {
+        console.error("[deleteComment] Failed to delete media from storage:", result.error)
+      }
+    } else if (isCloudinaryUrl(url)) {
+      const publicId = await extractPublicIdFromUrl(url)
+      if (publicId) {
+        await deleteCloudinaryMedia(publicId)
+      }
+    }
+  }
+}
+
+/**
+ * Get all comments on an artifact, oldest first (flat - see buildCommentThreads)
+ * Visibility follows the artifact via RLS
+ */
+export async function getArtifactComments(artifactId: string): Promise<{ data?: ArtifactComment[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("artifact_comments")
+    .select("*")
+    .eq("artifact_id", artifactId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("[getArtifactComments] Database error:", error)
+    return { error: "Failed to fetch comments" }
+  }
+
+  return { data: await withAuthorNames(supabase, data || []) }
+}
+
+/**
+ * Add a comment or reply. Anyone signed in who can view the artifact can comment.
+ */
+export async function createComment(input: CreateCommentInput): Promise<{
+  success: boolean
+  data?: ArtifactComment
+  error?: string
+  fieldErrors?: Record<string, string[] | undefined>
+}> {
+  const validatedFields = createCommentSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    return { success: false, error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { success: false, error: "Sign in to leave a comment" }
+  }
+
+  const { artifact_id, parent_id, body, photo_url, audio_url, audio_transcript } = validatedFields.data
+
+  // RLS hides artifacts the user can't view
+  const { data: artifact } = await supabase.from("artifacts").select("id, slug").eq("id", artifact_id).maybeSingle()
+
+  if (!artifact) {
+    return { success: false, error: "Artifact not found" }
+  }
+
+  const { data: comment, error } = await supabase
+    .from("artifact_comments")
+    .insert({
+      artifact_id,
+      parent_id: parent_id || null,
+      user_id: user.id,
+      body: body || null,
+      photo_url: photo_url || null,
+      audio_url: audio_url || null,
+      audio_transcript: audio_url ? audio_transcript || null : null,
+    })
+    .select()
+    .single()
+
+  if (error || !comment) {
+    console.error("[createComment] Database error:", error)
+    return { success: false, error: "Failed to post comment" }
+  }
+
+  const mediaUrls = [photo_url, audio_url].filter((url): url is string => !!url)
+  if (mediaUrls.length > 0) {
+    await markUploadsAsSaved(mediaUrls)
+  }
+
+  revalidatePath(getArtifactPath(artifact))
+
+  const [withName] = await withAuthorNames(supabase, [comment])
+  return { success: true, data: withName }
+}
+
+/**
+ * Remove a comment (its author, the artifact owner or an admin)
+ * Comments with replies become tombstones so the rest of the thread survives
+ */
+export async function deleteComment(commentId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  const { data: comment } = await supabase
+    .from("artifact_comments")
+    .select("id, user_id, parent_id, photo_url, audio_url, artifact:artifacts(id, user_id, slug)")
+    .eq("id", commentId)
+    .maybeSingle()
+
+  if (!comment) {
+    return { success: false, error: "Comment not found" }
+  }
+
+  const artifact = (Array.isArray(comment.artifact) ? comment.artifact[0] : comment.artifact) as
+    | { id: string; user_id: string; slug: string }
+    | null
+
+  const isAdmin = await isCurrentUserAdmin()
+  if (!isAdmin && comment.user_id !== user.id && artifact?.user_id !== user.id) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  const { count: replyCount } = await supabase
+    .from("artifact_comments")
+    .select("id", { count: "exact", head: true })
+    .eq("parent_id", commentId)
+
+  const { error } = replyCount
+    ? await supabase
+        .from("artifact_comments")
+        .update({
+          body: null,
+          photo_url: null,
+          audio_url: null,
+          audio_transcript: null,
+          deleted_at: new Date().toISOString(),
+        })
+        .eq("id", commentId)
+    : await supabase.from("artifact_comments").delete().eq("id", commentId)
+
+  if (error) {
+    console.error("[deleteComment] Database error:", error)
+    return { success: false, error: "Failed to delete comment" }
+  }
+
+  await deleteCommentMedia([comment.photo_url, comment.audio_url])
+
+  // A tombstone only exists to hold its replies - drop it once the last one is gone
+  if (!replyCount && comment.parent_id) {
+    const { count: siblingCount } = await supabase
+      .from("artifact_comments")
+      .select("id", { count: "exact", head: true })
+      .eq("parent_id", comment.parent_id)
+
+    if (!siblingCount) {
+      await supabase.from("artifact_comments").delete().eq("id", comment.parent_id).not("deleted_at", "is", null)
+    }
+  }
+
+  if (artifact) {
+    revalidatePath(getArtifactPath(artifact))
+  }
+  return { success: true }
+}
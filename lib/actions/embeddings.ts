@@ -0,0 +1,70 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { createUsageMeter } from "@/lib/ai-usage"
+import { updateArtifactEmbedding } from "@/lib/embeddings"
+import { orderBySearchRank } from "@/lib/utils/search"
+
+/**
+ * Compute and store an artifact's embedding as the current user
+ * RLS limits writes to people who can edit the artifact.
+ */
+export async function refreshArtifactEmbedding(
+  artifactId: string,
+): Promise<{ success: boolean; skipped?: boolean; error?: string }> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  return updateArtifactEmbedding(supabase, artifactId, createUsageMeter(supabase, { userId: user.id, artifactId }))
+}
+
+/**
+ * Artifacts most similar in meaning to the given one, most similar first
+ * Only artifacts the viewer can see are returned; empty until the artifact has an embedding
+ */
+export async function getSimilarArtifacts(artifactId: string, limit = 8) {
+  const supabase = await createClient()
+
+  const { data: matches, error } = await supabase.rpc("get_similar_artifacts", {
+    p_artifact_id: artifactId,
+    p_limit: limit,
+  })
+
+  if (error) {
+    console.error("[getSimilarArtifacts] Error:", error)
+    return { data: [], error: "Failed to load similar artifacts" }
+  }
+
+  const rankedIds = ((matches || []) as { id: string }[]).map((match) => match.id)
+  if (rankedIds.length === 0) {
+    return { data: [] }
+  }
+
+  const { data: artifacts, error: artifactsError } = await supabase
+    .from("artifacts")
+    .select(`
+      id, slug, title, media_urls, media_derivatives, thumbnail_url, user_id,
+      artifact_type:artifact_types(id, name, icon_name)
+    `)
+    .in("id", rankedIds)
+
+  if (artifactsError) {
+    console.error("[getSimilarArtifacts] Error fetching artifacts:", artifactsError)
+    return { data: [], error: "Failed to load similar artifacts" }
+  }
+
+  // Typed as an array by the client, returned as a single row for a many-to-one join
+  const cards = (artifacts || []).map((artifact) => ({
+    ...artifact,
+    artifact_type: (Array.isArray(artifact.artifact_type) ? artifact.artifact_type[0] : artifact.artifact_type) ?? null,
+  }))
+
+  return { data: orderBySearchRank(cards, rankedIds) }
+}
@@ -0,0 +1,548 @@
+"use server"
+
+import { randomBytes } from "crypto"
+import { revalidatePath } from "next/cache"
+import { headers } from "next/headers"
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import {
+  createFamilySchema,
+  familyRoleSchema,
+  inviteFamilyMemberSchema,
+  type CreateFamilyInput,
+  type InviteFamilyMemberInput,
+} from "@/lib/schemas"
+import type {
+  Family,
+  FamilyInvitation,
+  FamilyInvitationDetails,
+  FamilyMember,
+  FamilyRole,
+  FamilyWithRole,
+} from "@/lib/types/families"
+import { hasFamilyRole, isFamilyRole } from "@/lib/utils/family-roles"
+
+// ============================================================================
+// Role lookups
+// ============================================================================
+
+/**
+ * The current user's role in a family (null when not a member or signed out)
+ */
+export async function getMyFamilyRole(familyId: string): Promise<FamilyRole | null> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) return null
+
+  const { data } = await supabase
+    .from("family_members")
+    .select("role")
+    .eq("family_id", familyId)
+    .eq("user_id", user.id)
+    .maybeSingle()
+
+  return isFamilyRole(data?.role) ? data.role : null
+}
+
+/**
+ * The current user's role in the family a collection is shared with
+ * Returns null for collections that aren't attached to a family
+ */
+export async function getMyCollectionFamilyRole(collectionId: string | null): Promise<FamilyRole | null> {
+  if (!collectionId) return null
+
+  const supabase = await createClient()
+
+  const { data: collection } = await supabase
+    .from("collections")
+    .select("family_id")
+    .eq("id", collectionId)
+    .maybeSingle()
+
+  if (!collection?.family_id) return null
+
+  return getMyFamilyRole(collection.family_id)
+}
+
+// ============================================================================
+// Families
+// ============================================================================
+
+export async function createFamily(
+  input: CreateFamilyInput
+): Promise<{ success: boolean; data?: { id: string }; error?: string; fieldErrors?: Record<string, string[] | undefined> }> {
+  const validatedFields = createFamilySchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    return { success: false, error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  // create_family() also adds the creator as an editor
+  const { data: familyId, error } = await supabase.rpc("create_family", { p_name: validatedFields.data.name })
+
+  if (error || !familyId) {
+    console.error("[createFamily] RPC error:", error)
+    return { success: false, error: "Failed to create family. Please try again." }
+  }
+
+  revalidatePath("/families")
+  return { success: true, data: { id: familyId } }
+}
+
+// PostgREST returns the embedded family as an object or a one-element array
+type MembershipRow = { role: FamilyRole; family: Family | Family[] | null }
+
+/**
+ * Families the current user belongs to, with their role and member counts
+ */
+export async function getMyFamilies(): Promise<{ data?: FamilyWithRole[]; error?: string }> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: memberships, error } = await supabase
+    .from("family_members")
+    .select("role, family:families(id, name, created_by, created_at, updated_at)")
+    .eq("user_id", user.id)
+
+  if (error) {
+    console.error("[getMyFamilies] Database error:", error)
+    return { error: "Failed to fetch families" }
+  }
+
+  const families = ((memberships || []) as MembershipRow[]).flatMap((membership) => {
+    const family = Array.isArray(membership.family) ? membership.family[0] : membership.family
+    return family ? [{ ...family, role: membership.role }] : []
+  })
+
+  if (families.length === 0) {
+    return { data: [] }
+  }
+
+  const { data: members } = await supabase
+    .from("family_members")
+    .select("family_id")
+    .in(
+      "family_id",
+      families.map((family) => family.id)
+    )
+
+  const counts = new Map<string, number>()
+  for (const member of members || []) {
+    counts.set(member.family_id, (counts.get(member.family_id) || 0) + 1)
+  }
+
+  return {
+    data: families
+      .map((family) => ({ ...family, member_count: counts.get(family.id) || 1 }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  }
+}
+
+/**
+ * A family with its members; pending invitations are only included for editors
+ */
+export async function getFamily(familyId: string): Promise<{
+  data?: { family: Family; role: FamilyRole; members: FamilyMember[]; invitations: FamilyInvitation[] }
+  error?: string
+}> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: family, error } = await supabase.from("families").select("*").eq("id", familyId).maybeSingle()
+
+  if (error) {
+    console.error("[getFamily] Database error:", error)
+    return { error: "Failed to fetch family" }
+  }
+
+  // RLS hides families the user doesn't belong to
+  if (!family) {
+    return { error: "Family not found" }
+  }
+
+  const { data: memberRows } = await supabase
+    .from("family_members")
+    .select("id, family_id, user_id, role, created_at")
+    .eq("family_id", familyId)
+    .order("created_at", { ascending: true })
+
+  const userIds = (memberRows || []).map((member) => member.user_id)
+  const { data: profiles } = await supabase.from("profiles").select("id, display_name").in("id", userIds)
+  const profileMap = new Map(profiles?.map((p) => [p.id, p.display_name]) || [])
+
+  const members: FamilyMember[] = (memberRows || []).map((member) => ({
+    ...member,
+    display_name: profileMap.get(member.user_id) || null,
+  }))
+
+  const role = members.find((member) => member.user_id === user.id)?.role
+  if (!role) {
+    return { error: "Family not found" }
+  }
+
+  let invitations: FamilyInvitation[] = []
+  if (hasFamilyRole(role, "editor")) {
+    const { data: invitationRows } = await supabase
+      .from("family_invitations")
+      .select("*")
+      .eq("family_id", familyId)
+      .is("accepted_at", null)
+      .is("revoked_at", null)
+      .order("created_at", { ascending: false })
+
+    invitations = invitationRows || []
+  }
+
+  return { data: { family, role, members, invitations } }
+}
+
+// ============================================================================
+// Invitations
+// ============================================================================
+
+/**
+ * Email the join link with Supabase's invite email, sent from the service role.
+ * Nothing is started in the inviter's session; the invitee signs in from the join page.
+ * Supabase only sends invites to new addresses, so existing accounts get the link another way.
+ */
+async function sendInvitationEmail(email: string, token: string): Promise<{ error?: string; exists?: boolean }> {
+  const headersList = await headers()
+  const protocol = process.env.NODE_ENV === "development" ? "http" : "https"
+  const joinUrl = `${protocol}://${headersList.get("host")}/families/join/${token}`
+
+  try {
+    const { error } = await createServiceClient().auth.admin.inviteUserByEmail(email, { redirectTo: joinUrl })
+    if (error) {
+      return { error: error.message, exists: error.code === "email_exists" }
+    }
+    return {}
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/**
+ * Invite a relative by email. New accounts get an email linking to the join page.
+ * The invitation is kept even if no email goes out, so editors can share the join link directly.
+ */
+export async function inviteFamilyMember(
+  input: InviteFamilyMemberInput
+): Promise<{
+  success: boolean
+  data?: FamilyInvitation
+  warning?: string
+  error?: string
+  fieldErrors?: Record<string, string[] | undefined>
+}> {
+  const validatedFields = inviteFamilyMemberSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    return { success: false, error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  const { family_id, email, role } = validatedFields.data
+
+  if (!hasFamilyRole(await getMyFamilyRole(family_id), "editor")) {
+    return { success: false, error: "Only family editors can invite members" }
+  }
+
+  const token = randomBytes(24).toString("base64url")
+
+  const { data: invitation, error } = await supabase
+    .from("family_invitations")
+    .insert({ family_id, email, role, token, invited_by: user.id })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === "23505") {
+      return { success: false, error: "An invitation is already pending for this email" }
+    }
+    console.error("[inviteFamilyMember] Database error:", error)
+    return { success: false, error: "Failed to create invitation" }
+  }
+
+  revalidatePath(`/families/${family_id}`)
+
+  const emailResult = await sendInvitationEmail(email, token)
+  if (emailResult.exists) {
+    return {
+      success: true,
+      data: invitation,
+      warning: "Invitation created. They already have an account, so copy the invite link and send it to them.",
+    }
+  }
+  if (emailResult.error) {
+    console.error("[inviteFamilyMember] Failed to send invitation email:", emailResult.error)
+    return {
+      success: true,
+      data: invitation,
+      warning: "Invitation created, but the email could not be sent. Copy the invite link instead.",
+    }
+  }
+
+  return { success: true, data: invitation }
+}
+
+export async function revokeFamilyInvitation(invitationId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  // RLS limits updates to family editors
+  const { data, error } = await supabase
+    .from("family_invitations")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", invitationId)
+    .is("accepted_at", null)
+    .select("family_id")
+
+  if (error) {
+    console.error("[revokeFamilyInvitation] Database error:", error)
+    return { success: false, error: "Failed to revoke invitation" }
+  }
+
+  if (!data || data.length === 0) {
+    return { success: false, error: "Invitation not found" }
+  }
+
+  revalidatePath(`/families/${data[0].family_id}`)
+  return { success: true }
+}
+
+/**
+ * Invitation details for the join page (works before the invitee has an account)
+ */
+export async function getFamilyInvitation(token: string): Promise<FamilyInvitationDetails | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc("get_family_invitation", { p_token: token })
+
+  if (error) {
+    console.error("[getFamilyInvitation] RPC error:", error)
+    return null
+  }
+
+  const row = Array.isArray(data) ? data[0] : data
+  return (row as FamilyInvitationDetails) || null
+}
+
+/**
+ * Accept an invitation as the signed-in user (email must match) and open the family
+ */
+export async function acceptFamilyInvitation(token: string): Promise<{ error: string }> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Sign in to accept this invitation" }
+  }
+
+  const { data: familyId, error } = await supabase.rpc("accept_family_invitation", { p_token: token })
+
+  if (error || !familyId) {
+    console.error("[acceptFamilyInvitation] RPC error:", error)
+    return {
+      error: error?.message?.includes("different email")
+        ? "This invitation was sent to a different email address"
+        : "This invitation is no longer valid",
+    }
+  }
+
+  revalidatePath("/families")
+  revalidatePath("/collections")
+  redirect(`/families/${familyId}`)
+}
+
+// ============================================================================
+// Members
+// ============================================================================
+
+/**
+ * Load a membership and check the current user may manage it
+ * Families must always keep at least one editor, and the creator can't be demoted or removed
+ */
+async function getManageableMember(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  memberId: string,
+  userId: string
+): Promise<
+  | {
+      member: { id: string; family_id: string; user_id: string; role: FamilyRole }
+      isEditor: boolean
+      isCreator: boolean
+      editorCount: number
+    }
+  | { error: string }
+> {
+  const { data: member } = await supabase
+    .from("family_members")
+    .select("id, family_id, user_id, role")
+    .eq("id", memberId)
+    .maybeSingle()
+
+  if (!member) {
+    return { error: "Member not found" }
+  }
+
+  const { data: family } = await supabase
+    .from("families")
+    .select("created_by")
+    .eq("id", member.family_id)
+    .maybeSingle()
+
+  const { data: editors } = await supabase
+    .from("family_members")
+    .select("user_id")
+    .eq("family_id", member.family_id)
+    .eq("role", "editor")
+
+  return {
+    member,
+    isEditor: (editors || []).some((editor) => editor.user_id === userId),
+    isCreator: family?.created_by === member.user_id,
+    editorCount: editors?.length || 0,
+  }
+}
+
+export async function updateFamilyMemberRole(
+  memberId: string,
+  role: FamilyRole
+): Promise<{ success: boolean; error?: string }> {
+  if (!familyRoleSchema.safeParse(role).success) {
+    return { success: false, error: "Invalid role" }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  const result = await getManageableMember(supabase, memberId, user.id)
+  if ("error" in result) {
+    return { success: false, error: result.error }
+  }
+
+  const { member, isEditor, isCreator, editorCount } = result
+
+  if (!isEditor) {
+    return { success: false, error: "Only family editors can change roles" }
+  }
+
+  if (isCreator) {
+    return { success: false, error: "The family's creator is always an editor" }
+  }
+
+  if (member.role === "editor" && role !== "editor" && editorCount <= 1) {
+    return { success: false, error: "A family needs at least one editor" }
+  }
+
+  const { error } = await supabase.from("family_members").update({ role }).eq("id", memberId)
+
+  if (error) {
+    console.error("[updateFamilyMemberRole] Database error:", error)
+    return { success: false, error: "Failed to update role" }
+  }
+
+  revalidatePath(`/families/${member.family_id}`)
+  return { success: true }
+}
+
+/**
+ * Remove a member (editors) or leave a family (any member removing themselves)
+ */
+export async function removeFamilyMember(memberId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  const result = await getManageableMember(supabase, memberId, user.id)
+  if ("error" in result) {
+    return { success: false, error: result.error }
+  }
+
+  const { member, isEditor, isCreator, editorCount } = result
+
+  if (!isEditor && member.user_id !== user.id) {
+    return { success: false, error: "Only family editors can remove members" }
+  }
+
+  if (isCreator && member.user_id !== user.id) {
+    return { success: false, error: "The family's creator can't be removed" }
+  }
+
+  if (member.role === "editor" && editorCount <= 1) {
+    return { success: false, error: "A family needs at least one editor. Promote someone else first." }
+  }
+
+  const { error } = await supabase.from("family_members").delete().eq("id", memberId)
+
+  if (error) {
+    console.error("[removeFamilyMember] Database error:", error)
+    return { success: false, error: "Failed to remove member" }
+  }
+
+  revalidatePath("/families")
+  revalidatePath(`/families/${member.family_id}`)
+  revalidatePath("/collections")
+  return { success: true }
+}
@@ -0,0 +1,166 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createClient } from "@/lib/supabase/server"
+import { importGedcomSchema, type ImportGedcomInput } from "@/lib/schemas"
+import type { GedcomExportPerson, GedcomImportResult } from "@/lib/types/gedcom"
+import type { PersonRole } from "@/lib/types/people"
+import { buildGedcom, parseGedcom, planGedcomImport } from "@/lib/utils/gedcom"
+import { getArtifactPath } from "@/lib/utils/routes"
+
+// Larger trees are better trimmed to the branch the heirlooms belong to
+const MAX_IMPORT_INDIVIDUALS = 5000
+
+/**
+ * Import the individuals in a GEDCOM file into the current user's people directory
+ * New individuals are added and matching people gain missing life dates; importing the same
+ * file again changes nothing (see planGedcomImport)
+ */
+export async function importGedcom(
+  input: ImportGedcomInput
+): Promise<{ data?: GedcomImportResult; error?: string }> {
+  const validatedFields = importGedcomSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    console.error("[importGedcom] Validation failed:", validatedFields.error.flatten())
+    return { error: validatedFields.error.issues[0]?.message || "Invalid input" }
+  }
+
+  const individuals = parseGedcom(validatedFields.data.content)
+
+  if (individuals.length === 0) {
+    return { error: "No people found in this file" }
+  }
+
+  if (individuals.length > MAX_IMPORT_INDIVIDUALS) {
+    return {
+      error: `This tree has ${individuals.length} people; import at most ${MAX_IMPORT_INDIVIDUALS} at a time`,
+    }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from("people")
+    .select("id, name, birth_date, death_date, gedcom_id")
+    .eq("user_id", user.id)
+
+  if (fetchError) {
+    console.error("[importGedcom] Failed to fetch people:", fetchError)
+    return { error: "Failed to import people" }
+  }
+
+  const plan = planGedcomImport(individuals, existing || [])
+
+  if (plan.inserts.length > 0) {
+    const { error: insertError } = await supabase
+      .from("people")
+      .insert(plan.inserts.map((person) => ({ ...person, user_id: user.id })))
+
+    if (insertError) {
+      console.error("[importGedcom] Failed to insert people:", insertError)
+      return { error: "Failed to import people" }
+    }
+  }
+
+  let updated = 0
+  for (const { id, changes } of plan.updates) {
+    const { error: updateError } = await supabase
+      .from("people")
+      .update(changes)
+      .eq("id", id)
+      .eq("user_id", user.id)
+
+    if (updateError) {
+      console.error("[importGedcom] Failed to update person:", id, updateError)
+      continue
+    }
+    updated++
+  }
+
+  revalidatePath("/people")
+
+  return {
+    data: {
+      created: plan.inserts.length,
+      updated,
+      unchanged: plan.unchanged,
+      skipped: plan.skipped,
+    },
+  }
+}
+
+/**
+ * The current user's people as a GEDCOM file, with the artifacts each is linked to
+ * Artifact links are absolute, built from the given origin (e.g. "https://example.com")
+ */
+export async function exportGedcom(origin: string): Promise<{ data?: string; error?: string }> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: people, error: peopleError } = await supabase
+    .from("people")
+    .select("id, name, birth_date, death_date, relationship, gedcom_id")
+    .eq("user_id", user.id)
+    .order("name", { ascending: true })
+
+  if (peopleError) {
+    console.error("[exportGedcom] Failed to fetch people:", peopleError)
+    return { error: "Failed to export people" }
+  }
+
+  // People are linked only to their owner's artifacts
+  const { data: links, error: linksError } = await supabase
+    .from("artifact_people")
+    .select("person_id, role, artifact:artifacts!inner(id, slug, title, user_id)")
+    .eq("artifact.user_id", user.id)
+
+  if (linksError) {
+    console.error("[exportGedcom] Failed to fetch artifact links:", linksError)
+    return { error: "Failed to export people" }
+  }
+
+  const artifactsByPerson = new Map<string, GedcomExportPerson["artifacts"]>()
+  for (const link of (links || []) as unknown as {
+    person_id: string
+    role: PersonRole
+    artifact: { id: string; slug: string | null; title: string } | null
+  }[]) {
+    if (!link.artifact) continue
+
+    const artifacts = artifactsByPerson.get(link.person_id) || []
+    const url = new URL(getArtifactPath(link.artifact), origin).toString()
+    const entry = artifacts.find((artifact) => artifact.url === url)
+    if (entry) {
+      if (!entry.roles.includes(link.role)) entry.roles.push(link.role)
+    } else {
+      artifacts.push({ title: link.artifact.title, url, roles: [link.role] })
+    }
+    artifactsByPerson.set(link.person_id, artifacts)
+  }
+
+  return {
+    data: buildGedcom(
+      (people || []).map((person) => ({
+        ...person,
+        artifacts: artifactsByPerson.get(person.id) || [],
+      })),
+      new Date()
+    ),
+  }
+}
@@ -0,0 +1,111 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { saveInterviewAnswerSchema, type SaveInterviewAnswerInput } from "@/lib/schemas"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { hasFamilyRole } from "@/lib/utils/family-roles"
+import { buildInterviewTranscript, getInterviewQuestions, upsertInterviewAnswer } from "@/lib/utils/interview"
+import { getArtifactPath } from "@/lib/utils/routes"
+import { getMyCollectionFamilyRole } from "./families"
+import type { InterviewAnswer } from "@/lib/types/interviews"
+import { revalidatePath } from "next/cache"
+
+/**
+ * Save one interview answer and rebuild the artifact's Q&A transcript
+ * The recording is uploaded by the browser first; this records it in user_media
+ * (upload_source 'interview') so it shows up in the media library.
+ * Answering a question again replaces the earlier answer.
+ */
+export async function saveInterviewAnswer(
+  input: SaveInterviewAnswerInput
+): Promise<{ data?: InterviewAnswer[]; error?: string; fieldErrors?: Record<string, string[]> }> {
+  const validatedFields = saveInterviewAnswerSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    console.error("[saveInterviewAnswer] Validation failed:", validatedFields.error.flatten())
+    return { error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors }
+  }
+
+  const { artifact_id, question_key, question, transcript, audio } = validatedFields.data
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: artifact } = await supabase
+    .from("artifacts")
+    .select("user_id, slug, collection_id, interview_answers, artifact_type:artifact_types(interview_questions)")
+    .eq("id", artifact_id)
+    .single()
+
+  if (!artifact) {
+    return { error: "Artifact not found" }
+  }
+
+  const isAdmin = await isCurrentUserAdmin()
+  if (
+    !isAdmin &&
+    artifact.user_id !== user.id &&
+    !hasFamilyRole(await getMyCollectionFamilyRole(artifact.collection_id), "editor")
+  ) {
+    return { error: "Unauthorized" }
+  }
+
+  let media: { id: string; public_url: string } | null = null
+  if (audio) {
+    // Recordings are uploaded under the recorder's own folder
+    if (!audio.storage_path.startsWith(`${user.id}/`)) {
+      return { error: "Unauthorized - recording belongs to another user" }
+    }
+
+    const { data, error: mediaError } = await supabase
+      .from("user_media")
+      .insert({ ...audio, user_id: user.id, media_type: "audio", upload_source: "interview" })
+      .select("id, public_url")
+      .single()
+
+    if (mediaError || !data) {
+      console.error("[saveInterviewAnswer] Failed to create media record:", mediaError)
+      return { error: "Failed to save recording" }
+    }
+
+    media = data
+  }
+
+  const artifactType = Array.isArray(artifact.artifact_type) ? artifact.artifact_type[0] : artifact.artifact_type
+  const answers = upsertInterviewAnswer(
+    (artifact.interview_answers || []) as InterviewAnswer[],
+    {
+      question_key,
+      question,
+      transcript,
+      media_id: media?.id ?? null,
+      audio_url: media?.public_url ?? null,
+      recorded_at: new Date().toISOString(),
+    },
+    getInterviewQuestions(artifactType?.interview_questions),
+  )
+
+  const { error: updateError } = await supabase
+    .from("artifacts")
+    .update({
+      interview_answers: answers,
+      interview_transcript: buildInterviewTranscript(answers),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", artifact_id)
+
+  if (updateError) {
+    console.error("[saveInterviewAnswer] Failed to update artifact:", updateError)
+    return { error: "Failed to save answer" }
+  }
+
+  revalidatePath(getArtifactPath({ id: artifact_id, slug: artifact.slug }))
+
+  return { data: answers }
+}
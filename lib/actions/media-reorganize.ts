@@ -3,6 +3,7 @@
 import { createClient } from "@/lib/supabase/server"
 import { moveSupabaseFile } from "./supabase-storage"
 import { isSupabaseStorageUrl } from "@/lib/media"
+import type { AudioTranscriptSegments, TranscriptSegment } from "@/lib/types/transcripts"
 
 /**
  * Phase 2: Reorganize media files after artifact creation
@@ -31,7 +32,9 @@ export async function reorganizeArtifactMedia(artifactId: string) {
   // Fetch the artifact with AI metadata fields
   const { data: artifact, error: fetchError } = await supabase
     .from("artifacts")
-    .select("id, media_urls, user_id, image_captions, video_summaries, audio_transcripts, thumbnail_url")
+    .select(
+      "id, media_urls, user_id, image_captions, image_transcriptions, video_summaries, audio_transcripts, audio_transcript_segments, thumbnail_url",
+    )
     .eq("id", artifactId)
     .single()
 
@@ -114,7 +117,7 @@ export async function reorganizeArtifactMedia(artifactId: string) {
     // Build update object with new media_urls (media blocks only)
     const updateData: Record<string, any> = { media_urls: updatedMediaBlockUrls }
 
-    // Update AI metadata keys (image_captions, video_summaries, audio_transcripts)
+    // Update AI metadata keys (image_captions, image_transcriptions, video_summaries, audio_transcripts)
     // These are JSONB objects keyed by URL, so we need to update the keys
     if (artifact.image_captions && Object.keys(artifact.image_captions).length > 0) {
       const updatedCaptions: Record<string, string> = {}
@@ -126,6 +129,16 @@ export async function reorganizeArtifactMedia(artifactId: string) {
       console.log("[media-reorganize] Updated image_captions keys:", Object.keys(updatedCaptions).length)
     }
 
+    if (artifact.image_transcriptions && Object.keys(artifact.image_transcriptions).length > 0) {
+      const updatedTranscriptions: Record<string, string> = {}
+      for (const [oldUrl, transcription] of Object.entries(artifact.image_transcriptions)) {
+        const newUrl = urlMapping.get(oldUrl) || oldUrl
+        updatedTranscriptions[newUrl] = transcription as string
+      }
+      updateData.image_transcriptions = updatedTranscriptions
+      console.log("[media-reorganize] Updated image_transcriptions keys:", Object.keys(updatedTranscriptions).length)
+    }
+
     if (artifact.video_summaries && Object.keys(artifact.video_summaries).length > 0) {
       const updatedSummaries: Record<string, string> = {}
       for (const [oldUrl, summary] of Object.entries(artifact.video_summaries)) {
@@ -146,6 +159,15 @@ export async function reorganizeArtifactMedia(artifactId: string) {
       console.log("[media-reorganize] Updated audio_transcripts keys:", Object.keys(updatedTranscripts).length)
     }
 
+    if (artifact.audio_transcript_segments && Object.keys(artifact.audio_transcript_segments).length > 0) {
+      const updatedSegments: AudioTranscriptSegments = {}
+      for (const [oldUrl, segments] of Object.entries(artifact.audio_transcript_segments)) {
+        const newUrl = urlMapping.get(oldUrl) || oldUrl
+        updatedSegments[newUrl] = segments as TranscriptSegment[]
+      }
+      updateData.audio_transcript_segments = updatedSegments
+    }
+
     // Update thumbnail_url if it was moved
     if (artifact.thumbnail_url && urlMapping.has(artifact.thumbnail_url)) {
       updateData.thumbnail_url = urlMapping.get(artifact.thumbnail_url)
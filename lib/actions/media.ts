@@ -22,6 +22,7 @@ import {
 } from "@/lib/types/media"
 import { getSmallThumbnailUrl, getThumbnailUrl, getMediumUrl, getLargeUrl } from "@/lib/cloudinary"
 import { revalidatePath } from "next/cache"
+import { getArtifactPath } from "@/lib/utils/routes"
 
 // ============================================================================
 // User Media CRUD Operations
@@ -439,7 +440,7 @@ export async function createArtifactMediaLink(
     }
   }
 
-  revalidatePath(`/artifacts/${validatedFields.data.artifact_id}`)
+  revalidatePath(getArtifactPath({ id: validatedFields.data.artifact_id }))
 
   return { data }
 }
@@ -487,7 +488,7 @@ export async function updateArtifactMediaLink(
     return { error: "Failed to update artifact media link" }
   }
 
-  revalidatePath(`/artifacts/${link.artifact_id}`)
+  revalidatePath(getArtifactPath({ id: link.artifact_id }))
 
   return { data }
 }
@@ -528,7 +529,7 @@ export async function removeArtifactMediaLink(linkId: string): Promise<{ error?:
     return { error: "Failed to remove artifact media link" }
   }
 
-  revalidatePath(`/artifacts/${link.artifact_id}`)
+  revalidatePath(getArtifactPath({ id: link.artifact_id }))
 
   return {}
 }
@@ -684,7 +685,7 @@ export async function reorderArtifactMedia(input: ReorderMediaInput): Promise<{
     return { error: "Failed to reorder media" }
   }
 
-  revalidatePath(`/artifacts/${validatedFields.data.artifact_id}`)
+  revalidatePath(getArtifactPath({ id: validatedFields.data.artifact_id }))
 
   console.log("[reorderArtifactMedia] Success!")
   return {}
@@ -0,0 +1,436 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createClient } from "@/lib/supabase/server"
+import {
+  personSchema,
+  saveArtifactPeopleSchema,
+  type PersonSchemaInput,
+  type SaveArtifactPeopleInput,
+} from "@/lib/schemas"
+import type { LinkedPerson, Person, PersonRole } from "@/lib/types/people"
+import type { StorySummary } from "@/lib/types/stories"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { groupLinkedPeople } from "@/lib/utils/people"
+import { getArtifactPath, getPersonPath } from "@/lib/utils/routes"
+
+// What ArtifactCard needs
+const ARTIFACT_CARD_FIELDS =
+  "id, slug, title, description, year_acquired, origin, media_urls, media_derivatives, thumbnail_url, user_id, created_at, collection:collections(id, title), artifact_type:artifact_types(id, name, icon_name)"
+
+type Supabase = Awaited<ReturnType<typeof createClient>>
+
+function toFieldErrors(issues: { path: (string | number)[]; message: string }[]) {
+  const fieldErrors: Record<string, string[]> = {}
+  for (const issue of issues) {
+    const key = issue.path.join(".")
+    fieldErrors[key] = [...(fieldErrors[key] || []), issue.message]
+  }
+  return fieldErrors
+}
+
+/**
+ * The public URL of a portrait from the owner's media library
+ * Stored alongside the ID because other viewers can't read the owner's user_media
+ */
+async function getPortraitUrl(
+  supabase: Supabase,
+  mediaId: string | null
+): Promise<{ url: string | null; error?: string }> {
+  if (!mediaId) return { url: null }
+
+  const { data: media } = await supabase
+    .from("user_media")
+    .select("public_url, media_type")
+    .eq("id", mediaId)
+    .maybeSingle()
+
+  if (!media || media.media_type !== "image") {
+    return { url: null, error: "Portrait must be a photo from your media library" }
+  }
+
+  return { url: media.public_url }
+}
+
+/**
+ * Get a person by ID
+ * Visible to their owner and to anyone who can see an artifact linked to them (RLS)
+ */
+export async function getPerson(personId: string): Promise<Person | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.from("people").select("*").eq("id", personId).maybeSingle()
+
+  if (error) {
+    console.error("[getPerson] Database error:", error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * An account holder's people directory, by name
+ * Defaults to the current user's; admins can read another owner's
+ */
+export async function getPeople(ownerId?: string): Promise<{ data?: Person[]; error?: string }> {
+  const supabase = await createClient()
+
+  let userId = ownerId
+  if (!userId) {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return { error: "Unauthorized" }
+    }
+    userId = user.id
+  }
+
+  const { data, error } = await supabase
+    .from("people")
+    .select("*")
+    .eq("user_id", userId)
+    .order("name", { ascending: true })
+
+  if (error) {
+    console.error("[getPeople] Database error:", error)
+    return { error: "Failed to fetch people" }
+  }
+
+  return { data: data || [] }
+}
+
+/**
+ * Add someone to the current user's people directory
+ */
+export async function createPerson(
+  input: PersonSchemaInput
+): Promise<{ data?: Person; error?: string; fieldErrors?: Record<string, string[]> }> {
+  const validatedFields = personSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    console.error("[createPerson] Validation failed:", validatedFields.error.flatten())
+    return { error: "Invalid input", fieldErrors: toFieldErrors(validatedFields.error.issues) }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const portrait = await getPortraitUrl(supabase, validatedFields.data.portrait_media_id)
+  if (portrait.error) {
+    return { error: portrait.error }
+  }
+
+  const { data, error } = await supabase
+    .from("people")
+    .insert({ ...validatedFields.data, portrait_url: portrait.url, user_id: user.id })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("[createPerson] Database error:", error)
+    return { error: "Failed to add person" }
+  }
+
+  revalidatePath("/people")
+
+  return { data }
+}
+
+/**
+ * Update a person's details (their owner or an admin, via RLS)
+ */
+export async function updatePerson(
+  personId: string,
+  input: PersonSchemaInput
+): Promise<{ data?: Person; error?: string; fieldErrors?: Record<string, string[]> }> {
+  const validatedFields = personSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    console.error("[updatePerson] Validation failed:", validatedFields.error.flatten())
+    return { error: "Invalid input", fieldErrors: toFieldErrors(validatedFields.error.issues) }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: existing } = await supabase
+    .from("people")
+    .select("user_id, portrait_media_id, portrait_url")
+    .eq("id", personId)
+    .maybeSingle()
+
+  if (!existing) {
+    return { error: "Person not found" }
+  }
+
+  if (existing.user_id !== user.id && !(await isCurrentUserAdmin())) {
+    return { error: "Unauthorized" }
+  }
+
+  // Keep the stored URL when the portrait didn't change (an admin can't read the owner's library)
+  const portrait =
+    validatedFields.data.portrait_media_id === existing.portrait_media_id
+      ? { url: existing.portrait_url as string | null }
+      : await getPortraitUrl(supabase, validatedFields.data.portrait_media_id)
+  if (portrait.error) {
+    return { error: portrait.error }
+  }
+
+  const { data, error } = await supabase
+    .from("people")
+    .update({ ...validatedFields.data, portrait_url: portrait.url })
+    .eq("id", personId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("[updatePerson] Database error:", error)
+    return { error: "Failed to update person" }
+  }
+
+  revalidatePath("/people")
+  revalidatePath(getPersonPath(data))
+
+  return { data }
+}
+
+/**
+ * Remove a person from the directory, unlinking them from every artifact
+ */
+export async function deletePerson(
+  personId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  const { data: existing } = await supabase
+    .from("people")
+    .select("user_id")
+    .eq("id", personId)
+    .maybeSingle()
+
+  if (!existing) {
+    return { success: false, error: "Person not found" }
+  }
+
+  if (existing.user_id !== user.id && !(await isCurrentUserAdmin())) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  const { error } = await supabase.from("people").delete().eq("id", personId)
+
+  if (error) {
+    console.error("[deletePerson] Database error:", error)
+    return { success: false, error: "Failed to delete person" }
+  }
+
+  revalidatePath("/people")
+
+  return { success: true }
+}
+
+/**
+ * People linked to an artifact with their roles, by name
+ */
+export async function getArtifactPeople(
+  artifactId: string
+): Promise<{ data?: LinkedPerson[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("artifact_people")
+    .select("role, person:people(*)")
+    .eq("artifact_id", artifactId)
+
+  if (error) {
+    console.error("[getArtifactPeople] Database error:", error)
+    return { error: "Failed to fetch people" }
+  }
+
+  return {
+    data: groupLinkedPeople(
+      (data || []) as unknown as { role: PersonRole; person: Person | null }[]
+    ),
+  }
+}
+
+/**
+ * Replace the people linked to an artifact and their roles
+ * Links are made by the artifact's owner (or an admin), to people in the owner's directory
+ */
+export async function saveArtifactPeople(
+  input: SaveArtifactPeopleInput
+): Promise<{ data?: LinkedPerson[]; error?: string }> {
+  const validatedFields = saveArtifactPeopleSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    console.error("[saveArtifactPeople] Validation failed:", validatedFields.error.flatten())
+    return { error: "Invalid input" }
+  }
+
+  const { artifact_id, links } = validatedFields.data
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: artifact } = await supabase
+    .from("artifacts")
+    .select("user_id, slug")
+    .eq("id", artifact_id)
+    .single()
+
+  if (!artifact) {
+    return { error: "Artifact not found" }
+  }
+
+  if (artifact.user_id !== user.id && !(await isCurrentUserAdmin())) {
+    return { error: "Only the artifact's owner can link people" }
+  }
+
+  const personIds = [...new Set(links.map((link) => link.person_id))]
+  if (personIds.length > 0) {
+    const { data: owned } = await supabase
+      .from("people")
+      .select("id")
+      .eq("user_id", artifact.user_id)
+      .in("id", personIds)
+
+    if ((owned || []).length !== personIds.length) {
+      return { error: "People must be in the owner's directory" }
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from("artifact_people")
+    .delete()
+    .eq("artifact_id", artifact_id)
+
+  if (deleteError) {
+    console.error("[saveArtifactPeople] Failed to clear existing links:", deleteError)
+    return { error: "Failed to save people" }
+  }
+
+  if (links.length > 0) {
+    const unique = Array.from(
+      new Map(links.map((link) => [`${link.person_id}:${link.role}`, link])).values()
+    )
+    const { error: insertError } = await supabase
+      .from("artifact_people")
+      .insert(unique.map((link) => ({ ...link, artifact_id })))
+
+    if (insertError) {
+      console.error("[saveArtifactPeople] Failed to insert links:", insertError)
+      return { error: "Failed to save people" }
+    }
+  }
+
+  revalidatePath(getArtifactPath({ id: artifact_id, slug: artifact.slug }))
+  for (const personId of personIds) {
+    revalidatePath(getPersonPath({ id: personId }))
+  }
+
+  return getArtifactPeople(artifact_id)
+}
+
+/**
+ * Artifacts linked to a person, across collections, newest first, with the person's roles
+ * Only artifacts the viewer can see are returned (RLS on artifacts)
+ */
+export async function getPersonArtifacts(personId: string) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("artifact_people")
+    .select(`role, artifact:artifacts(${ARTIFACT_CARD_FIELDS})`)
+    .eq("person_id", personId)
+
+  if (error) {
+    console.error("[getPersonArtifacts] Database error:", error)
+    return []
+  }
+
+  type PersonArtifact = { id: string; slug: string; title: string; created_at: string }
+  const artifacts = new Map<string, PersonArtifact & { roles: PersonRole[] }>()
+
+  // One artifact can link the same person in more than one role
+  for (const row of (data || []) as unknown as {
+    role: PersonRole
+    artifact: PersonArtifact | null
+  }[]) {
+    if (!row.artifact) continue
+    const entry = artifacts.get(row.artifact.id) || { ...row.artifact, roles: [] }
+    entry.roles.push(row.role)
+    artifacts.set(row.artifact.id, entry)
+  }
+
+  return Array.from(artifacts.values()).sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+/**
+ * Stories that feature an artifact linked to a person, most recently updated first
+ * Only stories (and artifacts) the viewer can see are returned (RLS)
+ */
+export async function getPersonStories(personId: string): Promise<StorySummary[]> {
+  const supabase = await createClient()
+
+  const { data: links } = await supabase
+    .from("artifact_people")
+    .select("artifact_id")
+    .eq("person_id", personId)
+  const artifactIds = [...new Set((links || []).map((link) => link.artifact_id))]
+  if (artifactIds.length === 0) return []
+
+  const { data: blocks } = await supabase
+    .from("story_blocks")
+    .select("story_id")
+    .in("artifact_id", artifactIds)
+  const storyIds = [...new Set((blocks || []).map((block) => block.story_id))]
+  if (storyIds.length === 0) return []
+
+  const { data: stories, error } = await supabase
+    .from("stories")
+    .select("*, story_blocks(count)")
+    .in("id", storyIds)
+    .order("updated_at", { ascending: false })
+
+  if (error) {
+    console.error("[getPersonStories] Database error:", error)
+    return []
+  }
+
+  return (stories || []).map(({ story_blocks, ...story }) => ({
+    ...story,
+    author_name: null,
+    block_count: story_blocks?.[0]?.count ?? 0,
+  }))
+}
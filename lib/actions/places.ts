@@ -0,0 +1,270 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createClient } from "@/lib/supabase/server"
+import { placeLocationSchema, type PlaceLocationInput } from "@/lib/schemas"
+import type { MapArtifact, Place, UnlocatedPlace } from "@/lib/types/places"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { getGazetteerLocation, pickArtifactPlace } from "@/lib/utils/places"
+import { getPlacePath } from "@/lib/utils/routes"
+
+// What ArtifactCard needs
+const ARTIFACT_CARD_FIELDS =
+  "id, slug, title, description, year_acquired, origin, media_urls, media_derivatives, thumbnail_url, user_id, created_at, collection:collections(id, title), artifact_type:artifact_types(id, name, icon_name)"
+
+/**
+ * Get a place by ID
+ * Visible to its owner and to anyone who can see an artifact linked to it (RLS)
+ */
+export async function getPlace(placeId: string): Promise<Place | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.from("places").select("*").eq("id", placeId).maybeSingle()
+
+  if (error) {
+    console.error("[getPlace] Database error:", error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Places linked to an artifact, by name
+ */
+export async function getArtifactPlaces(
+  artifactId: string
+): Promise<{ data?: Place[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("artifact_places")
+    .select("place:places(*)")
+    .eq("artifact_id", artifactId)
+
+  if (error) {
+    console.error("[getArtifactPlaces] Database error:", error)
+    return { error: "Failed to fetch places" }
+  }
+
+  const places = (data || [])
+    .map((row) => row.place as unknown as Place | null)
+    .filter((place): place is Place => !!place)
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  return { data: places }
+}
+
+/**
+ * Artifacts linked to a place, from there, or owned there, across collections, newest first
+ * Only artifacts the viewer can see are returned (RLS on artifacts)
+ */
+export async function getPlaceArtifacts(placeId: string) {
+  const supabase = await createClient()
+
+  const [linked, origins, provenance] = await Promise.all([
+    supabase
+      .from("artifact_places")
+      .select(`artifact:artifacts(${ARTIFACT_CARD_FIELDS})`)
+      .eq("place_id", placeId),
+    supabase.from("artifacts").select(ARTIFACT_CARD_FIELDS).eq("origin_place_id", placeId),
+    supabase
+      .from("provenance_events")
+      .select(`artifact:artifacts(${ARTIFACT_CARD_FIELDS})`)
+      .eq("place_id", placeId),
+  ])
+
+  const error = linked.error || origins.error || provenance.error
+  if (error) {
+    console.error("[getPlaceArtifacts] Database error:", error)
+    return []
+  }
+
+  type PlaceArtifact = { id: string; slug: string; title: string; created_at: string }
+  const artifacts = [
+    ...(linked.data || []).map((row) => row.artifact as unknown as PlaceArtifact | null),
+    ...((origins.data || []) as unknown as PlaceArtifact[]),
+    ...(provenance.data || []).map((row) => row.artifact as unknown as PlaceArtifact | null),
+  ].filter((artifact): artifact is PlaceArtifact => !!artifact)
+
+  return Array.from(new Map(artifacts.map((artifact) => [artifact.id, artifact])).values()).sort(
+    (a, b) => b.created_at.localeCompare(a.created_at)
+  )
+}
+
+/**
+ * Set or clear a place's coordinates, e.g. from a pin dropped on the map
+ * Only the place's owner (or an admin) can move it
+ */
+export async function updatePlaceLocation(
+  placeId: string,
+  input: PlaceLocationInput
+): Promise<{ data?: Place; error?: string; fieldErrors?: Record<string, string[]> }> {
+  const validatedFields = placeLocationSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    console.error("[updatePlaceLocation] Validation failed:", validatedFields.error.flatten())
+    return { error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: existing } = await supabase
+    .from("places")
+    .select("user_id")
+    .eq("id", placeId)
+    .maybeSingle()
+
+  if (!existing) {
+    return { error: "Place not found" }
+  }
+
+  if (existing.user_id !== user.id && !(await isCurrentUserAdmin())) {
+    return { error: "Unauthorized" }
+  }
+
+  const { latitude, longitude, location_source } = validatedFields.data
+  const { data, error } = await supabase
+    .from("places")
+    .update({
+      latitude,
+      longitude,
+      location_source: latitude === null ? null : location_source,
+    })
+    .eq("id", placeId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("[updatePlaceLocation] Database error:", error)
+    return { error: "Failed to update place" }
+  }
+
+  revalidatePath(getPlacePath(data))
+  revalidatePath("/map")
+
+  return { data }
+}
+
+type PlaceCoordinates = Pick<Place, "id" | "name" | "latitude" | "longitude">
+
+/**
+ * The current user's artifacts for the map, each at its origin, else where it was owned, else
+ * a place it mentions, plus the places that have no coordinates yet
+ */
+export async function getMapArtifacts(): Promise<{
+  data?: { artifacts: MapArtifact[]; unlocated: UnlocatedPlace[] }
+  error?: string
+}> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const place = "id, name, latitude, longitude"
+  const [artifacts, unlocated] = await Promise.all([
+    supabase
+      .from("artifacts")
+      .select(
+        `id, slug, title, thumbnail_url, collection:collections(id, title), artifact_type:artifact_types(id, name, icon_name), origin_place:places!origin_place_id(${place}), provenance_events(sort_order, place:places(${place})), artifact_places(place:places(${place}))`
+      )
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false }),
+    supabase
+      .from("places")
+      .select("id, name")
+      .eq("user_id", user.id)
+      .is("latitude", null)
+      .order("name"),
+  ])
+
+  const error = artifacts.error || unlocated.error
+  if (error) {
+    console.error("[getMapArtifacts] Database error:", error)
+    return { error: "Failed to load the map" }
+  }
+
+  const rows = (artifacts.data || []) as unknown as (Omit<MapArtifact, "place" | "place_kind"> & {
+    origin_place: PlaceCoordinates | null
+    provenance_events: { sort_order: number; place: PlaceCoordinates | null }[]
+    artifact_places: { place: PlaceCoordinates | null }[]
+  })[]
+
+  const mapArtifacts: MapArtifact[] = []
+  for (const { origin_place, provenance_events, artifact_places, ...artifact } of rows) {
+    const picked = pickArtifactPlace({
+      origin: origin_place,
+      provenance: [...provenance_events]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map((event) => event.place),
+      mentioned: artifact_places.map((link) => link.place),
+    })
+    if (picked) mapArtifacts.push({ ...artifact, ...picked })
+  }
+
+  return { data: { artifacts: mapArtifacts, unlocated: unlocated.data || [] } }
+}
+
+/**
+ * Look up the current user's places without coordinates in the gazetteer
+ * Returns how many were found and how many are left to pin by hand
+ */
+export async function locatePlaces(): Promise<{
+  data?: { located: number; remaining: number }
+  error?: string
+}> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: places, error } = await supabase
+    .from("places")
+    .select("id, name")
+    .eq("user_id", user.id)
+    .is("latitude", null)
+
+  if (error) {
+    console.error("[locatePlaces] Database error:", error)
+    return { error: "Failed to look up places" }
+  }
+
+  let located = 0
+  for (const place of places || []) {
+    const location = getGazetteerLocation(place.name)
+    if (!location) continue
+
+    const { error: updateError } = await supabase
+      .from("places")
+      .update(location)
+      .eq("id", place.id)
+
+    if (updateError) {
+      console.error("[locatePlaces] Failed to locate place:", place.name, updateError)
+      continue
+    }
+    located++
+  }
+
+  revalidatePath("/map")
+
+  return { data: { located, remaining: (places?.length || 0) - located } }
+}
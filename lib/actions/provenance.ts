@@ -0,0 +1,129 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { findOrCreatePlace } from "@/lib/places"
+import { saveProvenanceEventsSchema, type SaveProvenanceEventsInput } from "@/lib/schemas"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { hasFamilyRole } from "@/lib/utils/family-roles"
+import { getArtifactPath } from "@/lib/utils/routes"
+import { getMyCollectionFamilyRole } from "./families"
+import type { ProvenanceEvent } from "@/lib/types/provenance"
+import { revalidatePath } from "next/cache"
+
+/**
+ * Get an artifact's provenance events in timeline order (oldest owner first)
+ * Visibility follows the artifact via RLS
+ */
+export async function getProvenanceEvents(
+  artifactId: string
+): Promise<{ data?: ProvenanceEvent[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("provenance_events")
+    .select("*")
+    .eq("artifact_id", artifactId)
+    .order("sort_order", { ascending: true })
+
+  if (error) {
+    console.error("[getProvenanceEvents] Database error:", error)
+    return { error: "Failed to fetch provenance" }
+  }
+
+  return { data: data || [] }
+}
+
+/**
+ * Replace an artifact's provenance with the given events
+ * Array position becomes sort_order, so reordering is just saving a reordered list.
+ * Each location links to the owner's place of that name; family editors can only link
+ * places the owner already has.
+ */
+export async function saveProvenanceEvents(
+  input: SaveProvenanceEventsInput
+): Promise<{ data?: ProvenanceEvent[]; error?: string; fieldErrors?: Record<string, string[]> }> {
+  const validatedFields = saveProvenanceEventsSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    console.error("[saveProvenanceEvents] Validation failed:", validatedFields.error.flatten())
+    const fieldErrors: Record<string, string[]> = {}
+    for (const issue of validatedFields.error.issues) {
+      const key = issue.path.join(".")
+      fieldErrors[key] = [...(fieldErrors[key] || []), issue.message]
+    }
+    return { error: "Invalid input", fieldErrors }
+  }
+
+  const { artifact_id, events } = validatedFields.data
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: artifact } = await supabase
+    .from("artifacts")
+    .select("user_id, slug, collection_id")
+    .eq("id", artifact_id)
+    .single()
+
+  if (!artifact) {
+    return { error: "Artifact not found" }
+  }
+
+  const isAdmin = await isCurrentUserAdmin()
+  if (
+    !isAdmin &&
+    artifact.user_id !== user.id &&
+    !hasFamilyRole(await getMyCollectionFamilyRole(artifact.collection_id), "editor")
+  ) {
+    return { error: "Unauthorized" }
+  }
+
+  const placeIds = new Map<string, string | null>()
+  for (const { location } of events) {
+    const key = location?.toLowerCase() || ""
+    if (placeIds.has(key)) continue
+    const place = await findOrCreatePlace(supabase, artifact.user_id, location, {
+      create: artifact.user_id === user.id,
+    })
+    placeIds.set(key, place?.id ?? null)
+  }
+
+  const { error: deleteError } = await supabase.from("provenance_events").delete().eq("artifact_id", artifact_id)
+
+  if (deleteError) {
+    console.error("[saveProvenanceEvents] Failed to clear existing events:", deleteError)
+    return { error: "Failed to save provenance" }
+  }
+
+  let saved: ProvenanceEvent[] = []
+  if (events.length > 0) {
+    const { data, error: insertError } = await supabase
+      .from("provenance_events")
+      .insert(
+        events.map((event, index) => ({
+          ...event,
+          artifact_id,
+          place_id: placeIds.get(event.location?.toLowerCase() || "") ?? null,
+          sort_order: index,
+        }))
+      )
+      .select()
+
+    if (insertError) {
+      console.error("[saveProvenanceEvents] Failed to insert events:", insertError)
+      return { error: "Failed to save provenance" }
+    }
+
+    saved = (data || []).sort((a, b) => a.sort_order - b.sort_order)
+  }
+
+  revalidatePath(getArtifactPath({ id: artifact_id, slug: artifact.slug }))
+
+  return { data: saved }
+}
@@ -0,0 +1,294 @@
+"use server"
+
+import { randomBytes } from "crypto"
+import { cookies, headers } from "next/headers"
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { createShareLinkSchema, type CreateShareLinkInput } from "@/lib/schemas"
+import type { ShareLink, ShareLinkResolution } from "@/lib/types/share-links"
+import { checkRateLimit } from "@/lib/rate-limit"
+import { getClientIp } from "@/lib/utils/rate-limit"
+import {
+  SHARE_GRANTS_COOKIE,
+  SHARE_GRANTS_COOKIE_OPTIONS,
+  addShareGrant,
+  findShareGrant,
+  getShareLinkExpiry,
+  getSharePath,
+  isValidShareToken,
+  parseShareGrants,
+  serializeShareGrants,
+} from "@/lib/utils/share-links"
+
+const SHARE_LINK_COLUMNS =
+  "id, token, user_id, artifact_id, collection_id, expires_at, password_hash, revoked_at, view_count, last_viewed_at, created_at"
+
+type ShareLinkRow = Omit<ShareLink, "has_password"> & { password_hash: string | null }
+
+// Never hand the hash to the client
+function toShareLink({ password_hash, ...row }: ShareLinkRow): ShareLink {
+  return { ...row, has_password: !!password_hash }
+}
+
+// ============================================================================
+// Owner: manage links
+// ============================================================================
+
+/**
+ * Create a private share link for an artifact or collection the current user owns
+ */
+export async function createShareLink(
+  input: CreateShareLinkInput
+): Promise<{ data?: ShareLink; error?: string; fieldErrors?: Record<string, string[] | undefined> }> {
+  const validatedFields = createShareLinkSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    return { error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { artifact_id, collection_id, expires_in_days, password } = validatedFields.data
+
+  // Check ownership up front for a clear error (RLS enforces it as well)
+  const { data: target } = artifact_id
+    ? await supabase.from("artifacts").select("user_id").eq("id", artifact_id).single()
+    : await supabase.from("collections").select("user_id").eq("id", collection_id!).single()
+
+  if (!target) {
+    return { error: artifact_id ? "Artifact not found" : "Collection not found" }
+  }
+
+  if (target.user_id !== user.id) {
+    return { error: "Only the owner can create share links" }
+  }
+
+  const { data, error } = await supabase
+    .from("share_links")
+    .insert({
+      token: randomBytes(24).toString("base64url"),
+      user_id: user.id,
+      artifact_id: artifact_id ?? null,
+      collection_id: collection_id ?? null,
+      expires_at: getShareLinkExpiry(expires_in_days),
+    })
+    .select(SHARE_LINK_COLUMNS)
+    .single()
+
+  if (error || !data) {
+    console.error("[createShareLink] Database error:", error)
+    return { error: "Failed to create share link" }
+  }
+
+  if (password) {
+    // Hashed in the database (pgcrypto) so the plaintext is never stored
+    const { error: passwordError } = await supabase.rpc("set_share_link_password", {
+      p_link_id: data.id,
+      p_password: password,
+    })
+
+    if (passwordError) {
+      console.error("[createShareLink] Failed to set password:", passwordError)
+      await supabase.from("share_links").delete().eq("id", data.id)
+      return { error: "Failed to create share link" }
+    }
+
+    return { data: toShareLink({ ...data, password_hash: "set" }) }
+  }
+
+  return { data: toShareLink(data) }
+}
+
+/**
+ * List the current user's non-revoked links for an artifact or collection, newest first
+ * Expired links are included so the owner can see (and revoke) them
+ */
+export async function getShareLinks(target: {
+  artifactId?: string
+  collectionId?: string
+}): Promise<{ data?: ShareLink[]; error?: string }> {
+  if (!target.artifactId === !target.collectionId) {
+    return { error: "Invalid input" }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  let query = supabase
+    .from("share_links")
+    .select(SHARE_LINK_COLUMNS)
+    .eq("user_id", user.id)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: false })
+
+  query = target.artifactId
+    ? query.eq("artifact_id", target.artifactId)
+    : query.eq("collection_id", target.collectionId!)
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("[getShareLinks] Database error:", error)
+    return { error: "Failed to fetch share links" }
+  }
+
+  return { data: (data || []).map(toShareLink) }
+}
+
+/**
+ * Revoke a link immediately. Revoked links stay in the table for auditing.
+ */
+export async function revokeShareLink(linkId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  const { data, error } = await supabase
+    .from("share_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", linkId)
+    .eq("user_id", user.id)
+    .select("id")
+
+  if (error) {
+    console.error("[revokeShareLink] Database error:", error)
+    return { success: false, error: "Failed to revoke share link" }
+  }
+
+  if (!data || data.length === 0) {
+    return { success: false, error: "Share link not found" }
+  }
+
+  return { success: true }
+}
+
+// ============================================================================
+// Visitor: resolve and unlock links
+// ============================================================================
+
+/**
+ * Resolve a token using the unlock key from the visitor's grant cookie (if any)
+ * recordView counts a view on the owner's link when access is granted
+ */
+export async function resolveShareLink(
+  token: string,
+  { recordView = false }: { recordView?: boolean } = {}
+): Promise<ShareLinkResolution> {
+  if (!isValidShareToken(token)) {
+    return { status: "not_found", target_type: null, target_id: null, target_slug: null }
+  }
+
+  const cookieStore = await cookies()
+  const grant = findShareGrant(parseShareGrants(cookieStore.get(SHARE_GRANTS_COOKIE)?.value), token)
+
+  const supabase = await createClient()
+  const { data, error } = await supabase.rpc("resolve_share_link", {
+    p_token: token,
+    p_unlock_key: grant?.unlockKey ?? null,
+    p_record_view: recordView,
+  })
+
+  const row = Array.isArray(data) ? data[0] : data
+  if (error || !row) {
+    console.error("[resolveShareLink] RPC error:", error)
+    return { status: "not_found", target_type: null, target_id: null, target_slug: null }
+  }
+
+  return row as ShareLinkResolution
+}
+
+/**
+ * Check a share link password and remember the unlock key in the grant cookie
+ * Redirects back to /share/{token} on success so the view is recorded there
+ */
+export async function unlockShareLink(token: string, password: string): Promise<{ error: string }> {
+  if (!isValidShareToken(token) || !password) {
+    return { error: "Incorrect password" }
+  }
+
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  const limit = await checkRateLimit("share-unlock", {
+    userId: user?.id,
+    ip: getClientIp(await headers()),
+  })
+  if (!limit.ok) {
+    return { error: "Too many attempts. Please wait a minute and try again." }
+  }
+
+  // Only the service role can check passwords, so every guess goes through the rate limit above
+  const { data: unlockKey, error } = await createServiceClient().rpc("unlock_share_link", {
+    p_token: token,
+    p_password: password,
+  })
+
+  if (error) {
+    console.error("[unlockShareLink] RPC error:", error)
+    return { error: "Unable to unlock this link. Please try again." }
+  }
+
+  if (!unlockKey) {
+    return { error: "Incorrect password" }
+  }
+
+  const cookieStore = await cookies()
+  const grants = addShareGrant(parseShareGrants(cookieStore.get(SHARE_GRANTS_COOKIE)?.value), {
+    token,
+    unlockKey,
+  })
+  cookieStore.set(SHARE_GRANTS_COOKIE, serializeShareGrants(grants), SHARE_GRANTS_COOKIE_OPTIONS)
+
+  redirect(getSharePath(token))
+}
+
+/**
+ * Whether the visitor's share grants give read access to an artifact or collection
+ * Used by pages alongside the public/owner/admin checks
+ */
+export async function hasShareLinkAccess(target: {
+  artifactId?: string | null
+  collectionId?: string | null
+}): Promise<boolean> {
+  const cookieStore = await cookies()
+  if (parseShareGrants(cookieStore.get(SHARE_GRANTS_COOKIE)?.value).length === 0) {
+    return false
+  }
+
+  const supabase = await createClient()
+  const { data, error } = await supabase.rpc("share_link_grants_access", {
+    p_artifact_id: target.artifactId ?? null,
+    p_collection_id: target.collectionId ?? null,
+  })
+
+  if (error) {
+    console.error("[hasShareLinkAccess] RPC error:", error)
+    return false
+  }
+
+  return data === true
+}
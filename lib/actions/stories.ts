@@ -0,0 +1,367 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createClient } from "@/lib/supabase/server"
+import {
+  saveStoryBlocksSchema,
+  storySchema,
+  type SaveStoryBlocksInput,
+  type StoryInput,
+} from "@/lib/schemas"
+import type {
+  Story,
+  StoryArtifactEmbed,
+  StoryBlock,
+  StoryBlockWithArtifact,
+  StorySummary,
+  StoryWithBlocks,
+} from "@/lib/types/stories"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { generateSlug, generateUniqueSlug } from "@/lib/utils/slug"
+import { markUploadsAsSaved } from "./pending-uploads"
+
+const STORY_ARTIFACT_FIELDS = "id, slug, title, description, thumbnail_url, media_urls"
+
+/**
+ * Load a story the current user may edit (author or admin)
+ */
+async function getEditableStory(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  storyId: string,
+): Promise<{ story?: Pick<Story, "id" | "user_id" | "slug" | "cover_image_url">; error?: string }> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: story } = await supabase
+    .from("stories")
+    .select("id, user_id, slug, cover_image_url")
+    .eq("id", storyId)
+    .maybeSingle()
+
+  if (!story) {
+    return { error: "Story not found" }
+  }
+
+  if (story.user_id !== user.id && !(await isCurrentUserAdmin())) {
+    return { error: "Unauthorized" }
+  }
+
+  return { story }
+}
+
+/**
+ * Stories the current user can see (their own and public ones), most recently updated first
+ */
+export async function getStories(): Promise<{ data?: StorySummary[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("stories")
+    .select("*, story_blocks(count)")
+    .order("updated_at", { ascending: false })
+
+  if (error) {
+    console.error("[getStories] Database error:", error)
+    return { error: "Failed to fetch stories" }
+  }
+
+  const stories = data || []
+  const userIds = [...new Set(stories.map((story) => story.user_id))]
+  const { data: profiles } = userIds.length
+    ? await supabase.from("profiles").select("id, display_name").in("id", userIds)
+    : { data: [] }
+  const profileMap = new Map(profiles?.map((p) => [p.id, p.display_name]) || [])
+
+  return {
+    data: stories.map(({ story_blocks, ...story }) => ({
+      ...story,
+      author_name: profileMap.get(story.user_id) || null,
+      block_count: story_blocks?.[0]?.count ?? 0,
+    })),
+  }
+}
+
+/**
+ * Get a story with its blocks in order
+ * Artifact embeds are fetched under the reader's own RLS, so artifacts they can't
+ * see come back as null rather than leaking through the story
+ */
+export async function getStoryBySlug(slug: string): Promise<StoryWithBlocks | null> {
+  const supabase = await createClient()
+
+  const { data: story, error } = await supabase.from("stories").select("*").eq("slug", slug).maybeSingle()
+
+  if (error || !story) {
+    if (error) console.error("[getStoryBySlug] Database error:", error)
+    return null
+  }
+
+  const { data: blocks } = await supabase
+    .from("story_blocks")
+    .select("*")
+    .eq("story_id", story.id)
+    .order("sort_order", { ascending: true })
+
+  const artifactIds = [
+    ...new Set((blocks || []).map((block: StoryBlock) => block.artifact_id).filter((id): id is string => !!id)),
+  ]
+  const { data: artifacts } = artifactIds.length
+    ? await supabase.from("artifacts").select(STORY_ARTIFACT_FIELDS).in("id", artifactIds)
+    : { data: [] }
+  const artifactMap = new Map((artifacts as StoryArtifactEmbed[] | null)?.map((a) => [a.id, a]) || [])
+
+  const { data: profile } = await supabase.from("profiles").select("display_name").eq("id", story.user_id).maybeSingle()
+
+  return {
+    ...story,
+    author_name: profile?.display_name || null,
+    blocks: (blocks || []).map(
+      (block: StoryBlock): StoryBlockWithArtifact => ({
+        ...block,
+        artifact: block.artifact_id ? artifactMap.get(block.artifact_id) || null : null,
+      }),
+    ),
+  }
+}
+
+/**
+ * Create an empty story; blocks are added from the story's edit mode
+ */
+export async function createStory(input: StoryInput): Promise<{
+  success: boolean
+  data?: Story
+  error?: string
+  fieldErrors?: Record<string, string[] | undefined>
+}> {
+  const validatedFields = storySchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    return { success: false, error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { success: false, error: "Unauthorized" }
+  }
+
+  const { title, description, cover_image_url, is_public } = validatedFields.data
+
+  const slug = await generateUniqueSlug(generateSlug(title), async (testSlug) => {
+    const { data } = await supabase.from("stories").select("id").eq("slug", testSlug).maybeSingle()
+    return !!data
+  })
+
+  const { data, error } = await supabase
+    .from("stories")
+    .insert({
+      user_id: user.id,
+      slug,
+      title,
+      description: description || null,
+      cover_image_url: cover_image_url || null,
+      is_public: is_public ?? false,
+    })
+    .select()
+    .single()
+
+  if (error || !data) {
+    console.error("[createStory] Database error:", error)
+    return { success: false, error: "Failed to create story. Please try again." }
+  }
+
+  if (cover_image_url) {
+    await markUploadsAsSaved([cover_image_url])
+  }
+
+  revalidatePath("/stories")
+  return { success: true, data }
+}
+
+/**
+ * Update a story's title, description, cover and visibility (author or admin)
+ * The slug is kept so existing links keep working
+ */
+export async function updateStory(
+  storyId: string,
+  input: StoryInput,
+): Promise<{ success: boolean; data?: Story; error?: string; fieldErrors?: Record<string, string[] | undefined> }> {
+  const validatedFields = storySchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    return { success: false, error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors }
+  }
+
+  const supabase = await createClient()
+  const { story, error: accessError } = await getEditableStory(supabase, storyId)
+
+  if (!story) {
+    return { success: false, error: accessError }
+  }
+
+  const { title, description, cover_image_url, is_public } = validatedFields.data
+
+  const { data, error } = await supabase
+    .from("stories")
+    .update({
+      title,
+      description: description || null,
+      cover_image_url: cover_image_url || null,
+      ...(is_public !== undefined && { is_public }),
+    })
+    .eq("id", storyId)
+    .select()
+    .single()
+
+  if (error || !data) {
+    console.error("[updateStory] Database error:", error)
+    return { success: false, error: "Failed to update story" }
+  }
+
+  if (cover_image_url && cover_image_url !== story.cover_image_url) {
+    await markUploadsAsSaved([cover_image_url])
+  }
+
+  revalidatePath("/stories")
+  revalidatePath(`/stories/${story.slug}`)
+  return { success: true, data }
+}
+
+/**
+ * Replace a story's blocks with the given list
+ * Array position becomes sort_order. Media blocks reference the author's user_media
+ * library; the URL is copied onto the block so readers don't need library access.
+ */
+export async function saveStoryBlocks(
+  input: SaveStoryBlocksInput,
+): Promise<{ data?: StoryBlock[]; error?: string; fieldErrors?: Record<string, string[]> }> {
+  const validatedFields = saveStoryBlocksSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    console.error("[saveStoryBlocks] Validation failed:", validatedFields.error.flatten())
+    const fieldErrors: Record<string, string[]> = {}
+    for (const issue of validatedFields.error.issues) {
+      const key = issue.path.join(".")
+      fieldErrors[key] = [...(fieldErrors[key] || []), issue.message]
+    }
+    return { error: "Invalid input", fieldErrors }
+  }
+
+  const { story_id, blocks } = validatedFields.data
+  const supabase = await createClient()
+  const { story, error: accessError } = await getEditableStory(supabase, story_id)
+
+  if (!story) {
+    return { error: accessError }
+  }
+
+  const mediaIds = [...new Set(blocks.flatMap((block) => ("media_id" in block ? [block.media_id] : [])))]
+  const artifactIds = [...new Set(blocks.flatMap((block) => (block.block_type === "artifact" ? [block.artifact_id] : [])))]
+
+  // user_media RLS only returns the current user's own library
+  const { data: media } = mediaIds.length
+    ? await supabase.from("user_media").select("id, public_url, media_type").in("id", mediaIds)
+    : { data: [] }
+  const mediaMap = new Map(
+    (media as { id: string; public_url: string; media_type: string }[] | null)?.map((m) => [m.id, m]) || [],
+  )
+
+  if (mediaMap.size !== mediaIds.length) {
+    return { error: "Some media is no longer in your library" }
+  }
+
+  for (const block of blocks) {
+    if (block.block_type === "media" && mediaMap.get(block.media_id)?.media_type === "audio") {
+      return { error: "Use an audio block for audio clips" }
+    }
+    if (block.block_type === "audio" && mediaMap.get(block.media_id)?.media_type !== "audio") {
+      return { error: "Audio blocks can only hold audio clips" }
+    }
+  }
+
+  const { data: artifacts } = artifactIds.length
+    ? await supabase.from("artifacts").select("id").in("id", artifactIds)
+    : { data: [] }
+
+  if ((artifacts?.length ?? 0) !== artifactIds.length) {
+    return { error: "Some embedded artifacts are no longer available" }
+  }
+
+  const { error: deleteError } = await supabase.from("story_blocks").delete().eq("story_id", story_id)
+
+  if (deleteError) {
+    console.error("[saveStoryBlocks] Failed to clear existing blocks:", deleteError)
+    return { error: "Failed to save story" }
+  }
+
+  let saved: StoryBlock[] = []
+  if (blocks.length > 0) {
+    const rows = blocks.map((block, index) => {
+      const linkedMedia = "media_id" in block ? mediaMap.get(block.media_id) : undefined
+      return {
+        story_id,
+        sort_order: index,
+        block_type: block.block_type,
+        body: block.body,
+        artifact_id: block.block_type === "artifact" ? block.artifact_id : null,
+        media_id: linkedMedia?.id ?? null,
+        media_url: linkedMedia?.public_url ?? null,
+        media_type: linkedMedia?.media_type ?? null,
+      }
+    })
+
+    const { data, error: insertError } = await supabase.from("story_blocks").insert(rows).select()
+
+    if (insertError) {
+      console.error("[saveStoryBlocks] Failed to insert blocks:", insertError)
+      return { error: "Failed to save story" }
+    }
+
+    saved = (data || []).sort((a: StoryBlock, b: StoryBlock) => a.sort_order - b.sort_order)
+
+    const mediaUrls = rows.map((row) => row.media_url).filter((url): url is string => !!url)
+    if (mediaUrls.length > 0) {
+      await markUploadsAsSaved(mediaUrls)
+    }
+  }
+
+  // Touch the story so it moves to the top of the list
+  await supabase.from("stories").update({ updated_at: new Date().toISOString() }).eq("id", story_id)
+
+  revalidatePath("/stories")
+  revalidatePath(`/stories/${story.slug}`)
+
+  return { data: saved }
+}
+
+/**
+ * Delete a story and its blocks (author or admin)
+ * Library media and embedded artifacts are left untouched
+ */
+export async function deleteStory(storyId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const { story, error: accessError } = await getEditableStory(supabase, storyId)
+
+  if (!story) {
+    return { success: false, error: accessError }
+  }
+
+  const { error } = await supabase.from("stories").delete().eq("id", storyId)
+
+  if (error) {
+    console.error("[deleteStory] Database error:", error)
+    return { success: false, error: "Failed to delete story" }
+  }
+
+  revalidatePath("/stories")
+  return { success: true }
+}
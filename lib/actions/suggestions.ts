@@ -0,0 +1,192 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { findOrCreatePlace } from "@/lib/places"
+import { reviewSuggestionSchema, type ReviewSuggestionInput } from "@/lib/schemas"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { getArtifactPath, getPersonPath, getPlacePath } from "@/lib/utils/routes"
+import {
+  getArtifactSuggestions,
+  isSameName,
+  normalizeEntityName,
+  setSuggestionStatus,
+} from "@/lib/utils/suggestions"
+import type { ArtifactSuggestions } from "@/lib/types/suggestions"
+import { revalidatePath } from "next/cache"
+
+type Supabase = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * The owner's person with this name, created if there isn't one yet
+ */
+async function findOrCreatePerson(
+  supabase: Supabase,
+  ownerId: string,
+  name: string
+): Promise<{ id: string } | null> {
+  const pattern = name.replace(/[\\%_]/g, "\\$&")
+  // Relatives can share a name; link the one added first
+  const { data: existing } = await supabase
+    .from("people")
+    .select("id")
+    .eq("user_id", ownerId)
+    .ilike("name", pattern)
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle()
+  if (existing) return existing
+
+  const { data: created, error } = await supabase
+    .from("people")
+    .insert({ user_id: ownerId, name })
+    .select("id")
+    .single()
+
+  if (error) {
+    console.error("[findOrCreatePerson] Failed to create person:", error)
+    return null
+  }
+
+  return created
+}
+
+/**
+ * A person in the owner's directory, for linking a suggestion to someone already there
+ */
+async function findOwnedPerson(
+  supabase: Supabase,
+  ownerId: string,
+  personId: string
+): Promise<{ id: string } | null> {
+  const { data } = await supabase
+    .from("people")
+    .select("id")
+    .eq("id", personId)
+    .eq("user_id", ownerId)
+    .maybeSingle()
+  return data
+}
+
+/**
+ * Accept or reject one of the AI summary's suggestions for an artifact
+ * Accepting links the person or place (creating it in the owner's directory if needed, or
+ * linking the person given by personId), adds the tag, or sets the artifact's estimated year.
+ * An accepted photo location links a place with the photo's coordinates.
+ * Only the owner reviews suggestions.
+ */
+export async function reviewSuggestion(
+  input: ReviewSuggestionInput
+): Promise<{ data?: ArtifactSuggestions; error?: string }> {
+  const validatedFields = reviewSuggestionSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    console.error("[reviewSuggestion] Validation failed:", validatedFields.error.flatten())
+    return { error: "Invalid input" }
+  }
+
+  const { artifactId, kind, accept, personId } = validatedFields.data
+  const value =
+    typeof validatedFields.data.value === "string"
+      ? normalizeEntityName(validatedFields.data.value)
+      : validatedFields.data.value
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: artifact } = await supabase
+    .from("artifacts")
+    .select("id, slug, user_id, ai_suggestions, tags")
+    .eq("id", artifactId)
+    .single()
+
+  if (!artifact) {
+    return { error: "Artifact not found" }
+  }
+
+  if (artifact.user_id !== user.id && !(await isCurrentUserAdmin())) {
+    return { error: "Only the artifact's owner can review suggestions" }
+  }
+
+  const current = getArtifactSuggestions(artifact.ai_suggestions)
+  const suggestions = setSuggestionStatus(current, kind, value, accept ? "accepted" : "rejected")
+  if (suggestions === current) {
+    return { error: "Suggestion not found" }
+  }
+
+  const updates: Record<string, unknown> = { ai_suggestions: suggestions }
+
+  if (accept && kind === "people") {
+    const person = personId
+      ? await findOwnedPerson(supabase, artifact.user_id, personId)
+      : await findOrCreatePerson(supabase, artifact.user_id, String(value))
+    if (!person) {
+      return { error: "Failed to add person" }
+    }
+
+    const { error: linkError } = await supabase
+      .from("artifact_people")
+      .upsert(
+        { artifact_id: artifactId, person_id: person.id, role: "mentioned" },
+        { ignoreDuplicates: true }
+      )
+
+    if (linkError) {
+      console.error("[reviewSuggestion] Failed to link:", linkError)
+      return { error: "Failed to link suggestion" }
+    }
+
+    revalidatePath(getPersonPath(person))
+  }
+
+  if (accept && (kind === "places" || kind === "photo_location")) {
+    const photo = kind === "photo_location" ? current.photo_location?.value : null
+    const place = await findOrCreatePlace(supabase, artifact.user_id, String(value), {
+      location: photo
+        ? { latitude: photo.latitude, longitude: photo.longitude, location_source: "photo" }
+        : undefined,
+    })
+    if (!place) {
+      return { error: "Failed to add place" }
+    }
+
+    const { error: linkError } = await supabase
+      .from("artifact_places")
+      .upsert({ artifact_id: artifactId, place_id: place.id }, { ignoreDuplicates: true })
+
+    if (linkError) {
+      console.error("[reviewSuggestion] Failed to link:", linkError)
+      return { error: "Failed to link suggestion" }
+    }
+
+    revalidatePath(getPlacePath(place))
+  }
+
+  if (accept && kind === "tags") {
+    const tags: string[] = artifact.tags || []
+    updates.tags = tags.some((tag) => isSameName(tag, String(value))) ? tags : [...tags, value]
+  }
+
+  if (accept && kind === "year_guess") {
+    updates.estimated_year = value
+  }
+
+  const { error: updateError } = await supabase
+    .from("artifacts")
+    .update(updates)
+    .eq("id", artifactId)
+
+  if (updateError) {
+    console.error("[reviewSuggestion] Database error:", updateError)
+    return { error: "Failed to save suggestion" }
+  }
+
+  revalidatePath(getArtifactPath(artifact))
+
+  return { data: suggestions }
+}
@@ -0,0 +1,81 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { updateTranscriptSegmentSchema, type UpdateTranscriptSegmentInput } from "@/lib/schemas"
+import { isCurrentUserAdmin } from "@/lib/utils/admin"
+import { hasFamilyRole } from "@/lib/utils/family-roles"
+import { getArtifactPath } from "@/lib/utils/routes"
+import { getTranscriptSegments, segmentsToText, updateSegmentText } from "@/lib/utils/transcripts"
+import { getMyCollectionFamilyRole } from "./families"
+import type { TranscriptSegment } from "@/lib/types/transcripts"
+import { revalidatePath } from "next/cache"
+
+/**
+ * Correct the text of one transcript segment, keeping its timings
+ * The audio's plain transcript is rebuilt from the segments so the two stay in step.
+ */
+export async function updateTranscriptSegment(
+  input: UpdateTranscriptSegmentInput
+): Promise<{ data?: TranscriptSegment[]; error?: string; fieldErrors?: Record<string, string[]> }> {
+  const validatedFields = updateTranscriptSegmentSchema.safeParse(input)
+
+  if (!validatedFields.success) {
+    console.error("[updateTranscriptSegment] Validation failed:", validatedFields.error.flatten())
+    return { error: "Invalid input", fieldErrors: validatedFields.error.flatten().fieldErrors }
+  }
+
+  const { artifact_id, audio_url, index, text } = validatedFields.data
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: artifact } = await supabase
+    .from("artifacts")
+    .select("user_id, slug, collection_id, audio_transcripts, audio_transcript_segments")
+    .eq("id", artifact_id)
+    .single()
+
+  if (!artifact) {
+    return { error: "Artifact not found" }
+  }
+
+  const isAdmin = await isCurrentUserAdmin()
+  if (
+    !isAdmin &&
+    artifact.user_id !== user.id &&
+    !hasFamilyRole(await getMyCollectionFamilyRole(artifact.collection_id), "editor")
+  ) {
+    return { error: "Unauthorized" }
+  }
+
+  const segments = getTranscriptSegments(artifact.audio_transcript_segments, artifact.audio_transcripts, audio_url)
+  if (index >= segments.length) {
+    return { error: "Transcript segment not found" }
+  }
+
+  const updatedSegments = updateSegmentText(segments, index, text)
+
+  const { error: updateError } = await supabase
+    .from("artifacts")
+    .update({
+      audio_transcripts: { ...(artifact.audio_transcripts || {}), [audio_url]: segmentsToText(updatedSegments) },
+      audio_transcript_segments: { ...(artifact.audio_transcript_segments || {}), [audio_url]: updatedSegments },
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", artifact_id)
+
+  if (updateError) {
+    console.error("[updateTranscriptSegment] Failed to update artifact:", updateError)
+    return { error: "Failed to save transcript" }
+  }
+
+  revalidatePath(getArtifactPath({ id: artifact_id, slug: artifact.slug }))
+
+  return { data: updatedSegments }
+}
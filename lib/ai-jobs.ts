@@ -0,0 +1,283 @@
+import { randomUUID } from "crypto"
+import { after } from "next/server"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { AiQuotaError, createUsageMeter } from "@/lib/ai-usage"
+import { ANALYSIS_STEPS, AnalysisError, fetchDocumentPageUrls, runAnalysisStep } from "@/lib/analysis"
+import { createServiceClient } from "@/lib/supabase/service"
+import type { AiJob, AiJobStep, AnalysisStep } from "@/lib/types/ai-jobs"
+import { createJobSteps, getRetryDelayMs } from "@/lib/utils/ai-jobs"
+import { isDocumentType } from "@/lib/utils/documents"
+
+/**
+ * Background AI analysis jobs (table ai_jobs, scripts/026_create_ai_jobs.sql)
+ *
+ * /api/analyze/run-all enqueues a job and kicks the worker after responding;
+ * /api/cron/ai-jobs picks up anything left over (retries, crashed workers).
+ * The worker runs with the service role: jobs can only be inserted by people
+ * who can edit the artifact.
+ */
+
+// A running job whose worker hasn't saved progress for this long is reclaimed
+export const AI_JOB_LOCK_TIMEOUT_SECONDS = 600
+
+// How long a worker started from a save keeps going; the cron sweep picks up the rest
+const SAVE_WORKER_TIME_BUDGET_MS = 60 * 1000
+
+const UNIQUE_VIOLATION = "23505"
+
+/**
+ * Queue an analysis of the artifact as the current user: every step, or just `steps`
+ * Returns the already-unfinished job instead when there is one.
+ */
+export async function enqueueAnalysisJob(
+  supabase: SupabaseClient,
+  artifactId: string,
+  userId: string,
+  steps: AnalysisStep[] = ANALYSIS_STEPS,
+): Promise<{ job?: AiJob; error?: string }> {
+  const { data: job, error } = await supabase
+    .from("ai_jobs")
+    .insert({
+      artifact_id: artifactId,
+      requested_by: userId,
+      steps: createJobSteps(ANALYSIS_STEPS.filter((step) => steps.includes(step))),
+    })
+    .select()
+    .single()
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    const { data: activeJob } = await supabase
+      .from("ai_jobs")
+      .select()
+      .eq("artifact_id", artifactId)
+      .in("status", ["queued", "running"])
+      .maybeSingle()
+
+    if (activeJob) return { job: activeJob as AiJob }
+  }
+
+  if (error || !job) {
+    console.error("[enqueueAnalysisJob] Failed to queue job:", error)
+    return { error: "Failed to queue analysis" }
+  }
+
+  await supabase.from("artifacts").update({ analysis_status: "queued", analysis_error: null }).eq("id", artifactId)
+
+  return { job: job as AiJob }
+}
+
+/**
+ * Transcribe a document artifact's new pages in the background after it's saved
+ * Does nothing for other types, or when every page already has its text. Failures are
+ * logged rather than surfaced: saving has already succeeded, and "Run all" can redo it.
+ */
+export async function queueDocumentTranscription(
+  supabase: SupabaseClient,
+  artifactId: string,
+  userId: string,
+): Promise<void> {
+  try {
+    const { data: artifact } = await supabase
+      .from("artifacts")
+      .select("id, media_urls, image_transcriptions, artifact_type:artifact_types(analysis_mode)")
+      .eq("id", artifactId)
+      .single()
+
+    if (!artifact || !isDocumentType(artifact.artifact_type as { analysis_mode?: string } | null)) return
+
+    const transcriptions: Record<string, string> = artifact.image_transcriptions || {}
+    const pageUrls = await fetchDocumentPageUrls(supabase, artifact)
+    if (!pageUrls.some((url) => !transcriptions[url]?.trim())) return
+
+    const { job } = await enqueueAnalysisJob(supabase, artifactId, userId, ["documents"])
+    if (job) {
+      after(async () => {
+        await processAiJobs({ timeBudgetMs: SAVE_WORKER_TIME_BUDGET_MS })
+      })
+    }
+  } catch (error) {
+    console.error("[queueDocumentTranscription] Failed to queue transcription:", error)
+  }
+}
+
+/**
+ * Save job changes; running jobs also refresh their lock so they aren't reclaimed
+ */
+async function saveJob(supabase: SupabaseClient, job: AiJob, changes: Partial<AiJob>): Promise<AiJob> {
+  const now = new Date().toISOString()
+  const heartbeat = (changes.status ?? job.status) === "running" ? { locked_at: now } : {}
+  const updated = { ...job, ...changes, ...heartbeat, updated_at: now }
+
+  const { error } = await supabase
+    .from("ai_jobs")
+    .update({ ...changes, ...heartbeat, updated_at: now })
+    .eq("id", job.id)
+
+  if (error) {
+    console.error("[saveJob] Failed to save job:", job.id, error)
+  }
+
+  return updated
+}
+
+/**
+ * Run a claimed job's remaining steps in order
+ * A failing step is retried with backoff by re-queueing the job; once it runs out of
+ * attempts the job fails. Steps with nothing to do (no audio, no images) are skipped.
+ * Model calls count against the requester's AI quota; running out fails the job.
+ */
+export async function runAiJob(supabase: SupabaseClient, claimedJob: AiJob): Promise<AiJob> {
+  let job = claimedJob
+  const steps: AiJobStep[] = job.steps.map((step) => ({ ...step }))
+  const meter = job.requested_by
+    ? createUsageMeter(supabase, { userId: job.requested_by, artifactId: job.artifact_id })
+    : undefined
+
+  await supabase
+    .from("artifacts")
+    .update({ analysis_status: "processing", analysis_error: null })
+    .eq("id", job.artifact_id)
+
+  for (const step of steps) {
+    if (step.status === "succeeded" || step.status === "skipped") continue
+
+    // A worker died mid-step on the last allowed attempt
+    if (step.attempts >= job.max_attempts) {
+      return failJob(supabase, job, steps, step, step.error || "Worker stopped before the step finished")
+    }
+
+    step.status = "running"
+    step.attempts += 1
+    step.started_at = new Date().toISOString()
+    step.finished_at = null
+    step.progress = null
+    step.output = null
+    job = await saveJob(supabase, job, { steps })
+
+    console.log(`[runAiJob] Starting ${step.name} for artifact ${job.artifact_id} (attempt ${step.attempts})`)
+
+    try {
+      await runAnalysisStep(step.name, supabase, job.artifact_id, {
+        meter,
+        // Saved as it happens so the panel can stream it (see /api/analyze/jobs/[id]/events)
+        onProgress: async (progress, output) => {
+          step.progress = progress
+          if (output) step.output = { ...step.output, ...output }
+          job = await saveJob(supabase, job, { steps })
+        },
+      })
+      step.status = "succeeded"
+      step.error = null
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error"
+      step.progress = null
+
+      if (error instanceof AnalysisError && error.status === 400) {
+        step.status = "skipped"
+        step.error = message
+      } else if (!(error instanceof AnalysisError || error instanceof AiQuotaError) && step.attempts < job.max_attempts) {
+        console.error(`[runAiJob] ${step.name} failed, will retry:`, message)
+        step.status = "pending"
+        step.error = message
+
+        await supabase.from("artifacts").update({ analysis_status: "queued" }).eq("id", job.artifact_id)
+
+        return saveJob(supabase, job, {
+          status: "queued",
+          steps,
+          last_error: message,
+          run_after: new Date(Date.now() + getRetryDelayMs(step.attempts)).toISOString(),
+          locked_at: null,
+          locked_by: null,
+        })
+      } else {
+        return failJob(supabase, job, steps, step, message)
+      }
+    }
+
+    step.finished_at = new Date().toISOString()
+    step.progress = null
+    job = await saveJob(supabase, job, { steps })
+  }
+
+  await supabase
+    .from("artifacts")
+    .update({ analysis_status: "done", analysis_error: null, updated_at: new Date().toISOString() })
+    .eq("id", job.artifact_id)
+
+  console.log(`[runAiJob] All analysis steps completed for artifact ${job.artifact_id}`)
+
+  return saveJob(supabase, job, {
+    status: "succeeded",
+    steps,
+    last_error: null,
+    finished_at: new Date().toISOString(),
+    locked_at: null,
+    locked_by: null,
+  })
+}
+
+async function failJob(
+  supabase: SupabaseClient,
+  job: AiJob,
+  steps: AiJobStep[],
+  step: AiJobStep,
+  message: string,
+): Promise<AiJob> {
+  const now = new Date().toISOString()
+  step.status = "failed"
+  step.error = message
+  step.finished_at = now
+
+  console.error(`[runAiJob] Analysis failed at ${step.name}:`, message)
+
+  await supabase
+    .from("artifacts")
+    .update({ analysis_status: "error", analysis_error: `failed at ${step.name}: ${message}` })
+    .eq("id", job.artifact_id)
+
+  return saveJob(supabase, job, {
+    status: "failed",
+    steps,
+    last_error: message,
+    finished_at: now,
+    locked_at: null,
+    locked_by: null,
+  })
+}
+
+/**
+ * Claim and run queued jobs until the queue is empty or the time budget is spent
+ * The budget is checked between jobs, so leave room for one job in the caller's maxDuration.
+ */
+export async function processAiJobs({ timeBudgetMs }: { timeBudgetMs: number }): Promise<{ processed: number }> {
+  const supabase = createServiceClient()
+  const workerId = randomUUID()
+  const deadline = Date.now() + timeBudgetMs
+  let processed = 0
+
+  while (Date.now() < deadline) {
+    const { data, error } = await supabase.rpc("claim_ai_job", {
+      p_worker_id: workerId,
+      p_lock_timeout_seconds: AI_JOB_LOCK_TIMEOUT_SECONDS,
+    })
+
+    if (error) {
+      console.error("[processAiJobs] Failed to claim job:", error)
+      break
+    }
+
+    const job = ((data || []) as AiJob[])[0]
+    if (!job) break
+
+    try {
+      await runAiJob(supabase, job)
+    } catch (runError) {
+      // Left running; the lock expires and another worker picks it up
+      console.error("[processAiJobs] Job crashed:", job.id, runError)
+    }
+    processed++
+  }
+
+  return { processed }
+}
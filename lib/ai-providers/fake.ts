@@ -0,0 +1,83 @@
+import { createHash } from "crypto"
+import { z } from "zod"
+import type { TextProvider, TranscriptionProvider, VisionProvider } from "@/lib/ai"
+
+/**
+ * Deterministic offline providers (AI_PROVIDER=fake) for development and e2e runs
+ * The same input always gives the same output, and nothing leaves the machine.
+ * Embeddings use the local hash embedding in lib/embeddings.ts.
+ */
+
+export const FAKE_TRANSCRIPT =
+  "This is a sample transcript from the offline AI provider. It stands in for what was said in the recording."
+
+function shortHash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 8)
+}
+
+export function createFakeVisionProvider(): VisionProvider {
+  return {
+    id: "fake/vision",
+    async describeImage({ imageUrl }) {
+      return { text: `A family photograph, described offline (${shortHash(imageUrl)})`, usage: {} }
+    },
+  }
+}
+
+/**
+ * generateText echoes the prompt, so rewrites (transcript cleanup) leave text as it was.
+ * generateObject fills the schema's required fields with placeholders.
+ */
+export function createFakeTextProvider(): TextProvider {
+  return {
+    id: "fake/text",
+    async generateText({ prompt }) {
+      return { text: prompt, usage: {} }
+    },
+    async generateObject({ schema, prompt }) {
+      return { object: schema.parse(fakeValue(schema, "value", shortHash(prompt))), usage: {} }
+    },
+  }
+}
+
+/**
+ * Each sentence of FAKE_TRANSCRIPT becomes a five second segment
+ */
+export function createFakeTranscriptionProvider(): TranscriptionProvider {
+  return {
+    id: "fake/transcription",
+    async transcribe() {
+      const sentences = FAKE_TRANSCRIPT.match(/[^.]+\./g) || [FAKE_TRANSCRIPT]
+      const segments = sentences.map((sentence, index) => ({
+        start: index * 5,
+        end: (index + 1) * 5,
+        text: sentence.trim(),
+      }))
+      return { text: FAKE_TRANSCRIPT, segments, usage: {} }
+    },
+  }
+}
+
+/**
+ * A value that satisfies the schema; optional fields are left out
+ */
+function fakeValue(schema: z.ZodTypeAny, key: string, seed: string): unknown {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>
+    const value: Record<string, unknown> = {}
+    for (const [field, fieldSchema] of Object.entries(shape)) {
+      if (fieldSchema.isOptional()) continue
+      value[field] = fakeValue(fieldSchema, field, seed)
+    }
+    return value
+  }
+  if (schema instanceof z.ZodString) return `Sample ${key.replace(/_/g, " ")} from the offline AI provider (${seed})`
+  if (schema instanceof z.ZodNumber) return 0
+  if (schema instanceof z.ZodBoolean) return false
+  if (schema instanceof z.ZodArray) return []
+  if (schema instanceof z.ZodEnum) return schema.options[0]
+  if (schema instanceof z.ZodNullable) return null
+  if (schema instanceof z.ZodDefault) return schema._def.defaultValue()
+  if (schema instanceof z.ZodEffects) return fakeValue(schema.innerType(), key, seed)
+  return undefined
+}
@@ -0,0 +1,147 @@
+import { createOpenAI } from "@ai-sdk/openai"
+import { embedMany, generateObject, generateText, type LanguageModelUsage } from "ai"
+import {
+  AiProviderError,
+  type AiProviderConfig,
+  type AiUsage,
+  type TextProvider,
+  type TranscriptionProvider,
+  type VisionProvider,
+} from "@/lib/ai"
+import type { EmbeddingProvider } from "@/lib/embeddings"
+import { normalizeTranscriptSegments } from "@/lib/utils/transcripts"
+
+/**
+ * OpenAI, or any server that speaks its API (AI_PROVIDER=openai-compatible)
+ */
+
+function requireApiKey(config: AiProviderConfig): void {
+  if (config.kind === "openai" && !config.apiKey) {
+    throw new Error(
+      "OPENAI_API_KEY is not configured. Please add it to your environment variables. " +
+        "You can get an API key from https://platform.openai.com/api-keys",
+    )
+  }
+}
+
+function getLanguageModel(config: AiProviderConfig, model: string) {
+  // Self-hosted servers often have no key; the SDK would otherwise insist on OPENAI_API_KEY
+  const provider = createOpenAI({ baseURL: config.baseURL, apiKey: config.apiKey ?? "" })
+  // Compatible servers implement chat completions, not OpenAI's newer responses API
+  return config.kind === "openai-compatible" ? provider.chat(model) : provider(model)
+}
+
+function toAiUsage(usage: LanguageModelUsage): AiUsage {
+  return { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens }
+}
+
+function providerId(config: AiProviderConfig, model: string): string {
+  return `${config.kind}/${model}`
+}
+
+export function createOpenAIVisionProvider(config: AiProviderConfig, model: string): VisionProvider {
+  return {
+    id: providerId(config, model),
+    async describeImage({ imageUrl, prompt, maxOutputTokens }) {
+      requireApiKey(config)
+      const result = await generateText({
+        model: getLanguageModel(config, model),
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "image", image: imageUrl },
+              { type: "text", text: prompt },
+            ],
+          },
+        ],
+        maxOutputTokens,
+      })
+      return { text: result.text.trim(), usage: toAiUsage(result.usage) }
+    },
+  }
+}
+
+export function createOpenAITextProvider(config: AiProviderConfig, model: string): TextProvider {
+  return {
+    id: providerId(config, model),
+    async generateText({ prompt, system, maxOutputTokens }) {
+      requireApiKey(config)
+      const result = await generateText({ model: getLanguageModel(config, model), system, prompt, maxOutputTokens })
+      return { text: result.text, usage: toAiUsage(result.usage) }
+    },
+    async generateObject({ schema, prompt, system, maxOutputTokens }) {
+      requireApiKey(config)
+      const result = await generateObject({
+        model: getLanguageModel(config, model),
+        schema,
+        system,
+        prompt,
+        maxOutputTokens,
+      })
+      return { object: result.object, usage: toAiUsage(result.usage) }
+    },
+  }
+}
+
+/**
+ * Whisper-style transcription: a multipart POST to {baseURL}/audio/transcriptions
+ * verbose_json also reports the audio's duration, which is what transcription is billed on.
+ */
+export function createOpenAITranscriptionProvider(config: AiProviderConfig, model: string): TranscriptionProvider {
+  return {
+    id: providerId(config, model),
+    async transcribe({ audio, filename, language }) {
+      requireApiKey(config)
+
+      const formData = new FormData()
+      formData.append("file", audio, filename)
+      formData.append("model", model)
+      formData.append("response_format", "verbose_json")
+      if (language) {
+        formData.append("language", language)
+      }
+
+      const response = await fetch(`${config.baseURL}/audio/transcriptions`, {
+        method: "POST",
+        headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        throw new AiProviderError(`Transcription failed: ${errorText}`, response.status, errorText)
+      }
+
+      const data = await response.json()
+      return {
+        text: data.text || "",
+        // Compatible servers that ignore verbose_json return no segments
+        segments: normalizeTranscriptSegments(data.segments),
+        usage: { audioSeconds: typeof data.duration === "number" ? data.duration : undefined },
+      }
+    },
+  }
+}
+
+export function createOpenAIEmbeddingProvider(
+  config: AiProviderConfig,
+  model: string,
+  dimensions: number,
+): EmbeddingProvider {
+  return {
+    id: providerId(config, model),
+    async embed(texts) {
+      requireApiKey(config)
+      const provider = createOpenAI({ baseURL: config.baseURL, apiKey: config.apiKey ?? "" })
+      const { embeddings, usage } = await embedMany({ model: provider.textEmbeddingModel(model), values: texts })
+
+      const wrongSize = embeddings.find((embedding) => embedding.length !== dimensions)
+      if (wrongSize) {
+        throw new Error(`${model} returned ${wrongSize.length}-dimensional embeddings; ${dimensions} are required`)
+      }
+
+      return { embeddings, usage: { inputTokens: usage.tokens } }
+    },
+  }
+}
@@ -0,0 +1,115 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { AiCapability, AiUsage } from "@/lib/ai"
+import type { AiUsageSummary, AiUsageTotals } from "@/lib/types/ai-usage"
+import {
+  estimateAiCostUsd,
+  getQuotaExceededMessage,
+  getUsagePeriod,
+  resolveAiQuota,
+  sumUsage,
+} from "@/lib/utils/ai-usage"
+
+/**
+ * AI usage metering (tables ai_usage_events and ai_quotas, scripts/027_create_ai_usage.sql)
+ *
+ * Every provider call is recorded against the user who asked for it and the artifact it
+ * was for. Before each call the user's usage this month is checked against their quota.
+ */
+
+/**
+ * The user has used up their monthly AI quota
+ */
+export class AiQuotaError extends Error {
+  status = 429 as const
+
+  constructor(message: string) {
+    super(message)
+    this.name = "AiQuotaError"
+  }
+}
+
+/**
+ * Checks and records AI calls for one user (and artifact)
+ */
+export interface UsageMeter {
+  // Throws AiQuotaError once the monthly quota is used up
+  check(): Promise<void>
+  // Never throws - a failed write must not fail the analysis it describes
+  record(capability: AiCapability, model: string, usage: AiUsage): Promise<void>
+}
+
+/**
+ * A user's usage this month, overall and per capability, with their quota
+ */
+export async function getAiUsageSummary(supabase: SupabaseClient, userId: string): Promise<AiUsageSummary> {
+  const { start, resetsAt } = getUsagePeriod()
+
+  const [{ data: rows, error }, { data: quotaRow }] = await Promise.all([
+    supabase.rpc("get_ai_usage_totals", { p_user_id: userId, p_since: start.toISOString() }),
+    supabase.from("ai_quotas").select("monthly_tokens, monthly_audio_seconds").eq("user_id", userId).maybeSingle(),
+  ])
+
+  if (error) {
+    throw new Error(`Failed to load AI usage: ${error.message}`)
+  }
+
+  const byCapability = ((rows || []) as (Partial<AiUsageTotals> & { capability: AiCapability })[]).map((row) => ({
+    capability: row.capability,
+    ...sumUsage([row]),
+  }))
+
+  return {
+    period_start: start.toISOString(),
+    resets_at: resetsAt.toISOString(),
+    totals: sumUsage(byCapability),
+    byCapability,
+    quota: resolveAiQuota(quotaRow),
+  }
+}
+
+/**
+ * Meter AI calls made for a user
+ * Usage is loaded on the first check and kept up to date as calls are recorded, so a
+ * step captioning five images reads the database once.
+ */
+export function createUsageMeter(
+  supabase: SupabaseClient,
+  { userId, artifactId }: { userId: string; artifactId?: string | null },
+): UsageMeter {
+  let summary: AiUsageSummary | null = null
+
+  return {
+    async check() {
+      summary = summary ?? (await getAiUsageSummary(supabase, userId))
+
+      const message = getQuotaExceededMessage(summary.totals, summary.quota, new Date(summary.resets_at))
+      if (message) {
+        throw new AiQuotaError(message)
+      }
+    },
+
+    async record(capability, model, usage) {
+      const event = {
+        user_id: userId,
+        artifact_id: artifactId ?? null,
+        capability,
+        model,
+        input_tokens: usage.inputTokens || 0,
+        output_tokens: usage.outputTokens || 0,
+        audio_seconds: usage.audioSeconds || 0,
+        cost_usd: estimateAiCostUsd(model, usage),
+      }
+
+      const { error } = await supabase.from("ai_usage_events").insert(event)
+
+      if (error) {
+        console.error("[UsageMeter] Failed to record AI usage:", error)
+        return
+      }
+
+      if (summary) {
+        summary = { ...summary, totals: sumUsage([summary.totals, { calls: 1, ...event }]) }
+      }
+    },
+  }
+}
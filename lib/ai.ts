@@ -1,9 +1,109 @@
-import { openai } from "@ai-sdk/openai"
+import type { z } from "zod"
+import type { TranscriptSegment } from "@/lib/types/transcripts"
+import {
+  createFakeTextProvider,
+  createFakeTranscriptionProvider,
+  createFakeVisionProvider,
+} from "@/lib/ai-providers/fake"
+import {
+  createOpenAITextProvider,
+  createOpenAITranscriptionProvider,
+  createOpenAIVisionProvider,
+} from "@/lib/ai-providers/openai"
 
 /**
- * Export openai from @ai-sdk/openai for use with Vercel AI SDK
+ * AI providers
+ * Each capability picks its provider from AI_PROVIDER_<CAPABILITY>, falling back to AI_PROVIDER
+ * (default "openai"):
+ * - openai: api.openai.com with OPENAI_API_KEY
+ * - openai-compatible: any server speaking the OpenAI API (Ollama, whisper.cpp, LocalAI...) at
+ *   AI_BASE_URL[_<CAPABILITY>], with AI_API_KEY[_<CAPABILITY>] if it needs one
+ * - fake: deterministic offline stand-in for development and tests
+ * Models still come from the AI_MODEL_* variables below.
  */
-export { openai }
+
+export type AiCapability = "vision" | "text" | "summary" | "transcription" | "embedding" | "translation"
+
+export type AiProviderKind = "openai" | "openai-compatible" | "fake"
+
+const AI_PROVIDER_KINDS: AiProviderKind[] = ["openai", "openai-compatible", "fake"]
+
+export const OPENAI_BASE_URL = "https://api.openai.com/v1"
+
+export interface AiProviderConfig {
+  kind: AiProviderKind
+  baseURL: string
+  apiKey?: string
+}
+
+/**
+ * What one provider call consumed, as reported by the provider
+ * Metered per user in lib/ai-usage.ts.
+ */
+export interface AiUsage {
+  inputTokens?: number
+  outputTokens?: number
+  audioSeconds?: number
+}
+
+/**
+ * Describes images (captions, video frame summaries)
+ */
+export interface VisionProvider {
+  // e.g. "openai/gpt-4o"
+  id: string
+  describeImage(input: {
+    imageUrl: string
+    prompt: string
+    maxOutputTokens?: number
+  }): Promise<{ text: string; usage: AiUsage }>
+}
+
+/**
+ * Writes text (transcript cleanup) and structured output (summaries)
+ */
+export interface TextProvider {
+  id: string
+  generateText(input: {
+    prompt: string
+    system?: string
+    maxOutputTokens?: number
+  }): Promise<{ text: string; usage: AiUsage }>
+  generateObject<T>(input: {
+    schema: z.ZodType<T>
+    prompt: string
+    system?: string
+    maxOutputTokens?: number
+  }): Promise<{ object: T; usage: AiUsage }>
+}
+
+/**
+ * Turns speech into text
+ * segments carry timings when the provider returns them (Whisper verbose_json)
+ */
+export interface TranscriptionProvider {
+  id: string
+  transcribe(input: {
+    audio: Blob
+    filename: string
+    language?: string
+  }): Promise<{ text: string; segments?: TranscriptSegment[]; usage: AiUsage }>
+}
+
+/**
+ * A provider call rejected by the provider's API
+ * Carries the HTTP status and response body so routes can pass them on.
+ */
+export class AiProviderError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details: string,
+  ) {
+    super(message)
+    this.name = "AiProviderError"
+  }
+}
 
 /**
  * Get the AI model to use for general text generation
@@ -29,6 +129,14 @@ export function getSummaryModel(): string {
   return process.env.AI_MODEL_SUMMARY || "gpt-4o"
 }
 
+/**
+ * Get the AI model to use for translating descriptions and transcripts
+ * @returns Model identifier (e.g., "gpt-4o")
+ */
+export function getTranslationModel(): string {
+  return process.env.AI_MODEL_TRANSLATION || "gpt-4o"
+}
+
 /**
  * Get the Whisper model to use for audio transcription
  * @returns Model identifier (default: whisper-1)
@@ -38,14 +146,91 @@ export function getTranscribeModel(): string {
 }
 
 /**
- * Validates that OPENAI_API_KEY is configured
- * @throws Error if API key is missing
+ * Resolve which provider serves a capability, and where to reach it
+ * @throws Error for an unknown provider, or openai-compatible without a base URL
  */
-export function validateOpenAIKey(): void {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error(
-      "OPENAI_API_KEY is not configured. Please add it to your environment variables. " +
-        "You can get an API key from https://platform.openai.com/api-keys",
-    )
+export function getAiProviderConfig(capability: AiCapability): AiProviderConfig {
+  const suffix = capability.toUpperCase()
+  const kind = process.env[`AI_PROVIDER_${suffix}`] || process.env.AI_PROVIDER || "openai"
+
+  if (!AI_PROVIDER_KINDS.includes(kind as AiProviderKind)) {
+    throw new Error(`Unknown AI provider "${kind}" for ${capability}. Use one of: ${AI_PROVIDER_KINDS.join(", ")}`)
+  }
+
+  if (kind === "openai-compatible") {
+    const baseURL = process.env[`AI_BASE_URL_${suffix}`] || process.env.AI_BASE_URL
+    if (!baseURL) {
+      throw new Error(`AI_BASE_URL (or AI_BASE_URL_${suffix}) is required for the openai-compatible provider`)
+    }
+    return {
+      kind,
+      baseURL: baseURL.replace(/\/+$/, ""),
+      apiKey: process.env[`AI_API_KEY_${suffix}`] || process.env.AI_API_KEY,
+    }
   }
+
+  return { kind: kind as AiProviderKind, baseURL: OPENAI_BASE_URL, apiKey: process.env.OPENAI_API_KEY }
+}
+
+interface AiProviders {
+  vision: VisionProvider
+  text: TextProvider
+  summary: TextProvider
+  transcription: TranscriptionProvider
+  translation: TextProvider
+}
+
+const providerOverrides: Partial<AiProviders> = {}
+
+/**
+ * Replace a capability's provider (pass null to restore the configured one), e.g. in tests
+ * Embeddings have their own: setEmbeddingProvider in lib/embeddings.ts.
+ */
+export function setAiProvider<C extends keyof AiProviders>(capability: C, provider: AiProviders[C] | null): void {
+  if (provider) {
+    providerOverrides[capability] = provider
+  } else {
+    delete providerOverrides[capability]
+  }
+}
+
+export function getVisionProvider(): VisionProvider {
+  if (providerOverrides.vision) return providerOverrides.vision
+  const config = getAiProviderConfig("vision")
+  return config.kind === "fake" ? createFakeVisionProvider() : createOpenAIVisionProvider(config, getVisionModel())
+}
+
+/**
+ * Provider for short rewrites, like tidying a transcript
+ */
+export function getTextProvider(): TextProvider {
+  if (providerOverrides.text) return providerOverrides.text
+  const config = getAiProviderConfig("text")
+  return config.kind === "fake" ? createFakeTextProvider() : createOpenAITextProvider(config, getTextModel())
+}
+
+/**
+ * Provider for artifact summaries
+ */
+export function getSummaryProvider(): TextProvider {
+  if (providerOverrides.summary) return providerOverrides.summary
+  const config = getAiProviderConfig("summary")
+  return config.kind === "fake" ? createFakeTextProvider() : createOpenAITextProvider(config, getSummaryModel())
+}
+
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (providerOverrides.transcription) return providerOverrides.transcription
+  const config = getAiProviderConfig("transcription")
+  return config.kind === "fake"
+    ? createFakeTranscriptionProvider()
+    : createOpenAITranscriptionProvider(config, getTranscribeModel())
+}
+
+/**
+ * Provider for translating descriptions and transcripts into another language
+ */
+export function getTranslationProvider(): TextProvider {
+  if (providerOverrides.translation) return providerOverrides.translation
+  const config = getAiProviderConfig("translation")
+  return config.kind === "fake" ? createFakeTextProvider() : createOpenAITextProvider(config, getTranslationModel())
 }
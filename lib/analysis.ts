@@ -0,0 +1,811 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import { getSummaryProvider, getTextProvider, getTranscriptionProvider, getVisionProvider } from "@/lib/ai"
+import { AiQuotaError, type UsageMeter } from "@/lib/ai-usage"
+import { updateArtifactEmbedding } from "@/lib/embeddings"
+import { getMp3AudioUrl } from "@/lib/cloudinary"
+import { findPhotoLocation } from "@/lib/places"
+import type { AnalysisOutput, AnalysisProgress, AnalysisStep } from "@/lib/types/ai-jobs"
+import type { PhotoLocation } from "@/lib/types/suggestions"
+import type { AudioTranscriptionProgress, TranscriptSegment } from "@/lib/types/transcripts"
+import {
+  CHUNK_OVERLAP_SECONDS,
+  getChunkSeconds,
+  getResumableChunks,
+  isSplittableAudio,
+  MAX_CHUNK_BYTES,
+  needsChunking,
+  planAudioChunks,
+  readAudioLayout,
+  sliceAudio,
+  stitchChunkTranscripts,
+} from "@/lib/utils/audio-chunks"
+import {
+  cleanDocumentTranscription,
+  getDocumentPageUrls,
+  getDocumentText,
+  ILLEGIBLE_MARKER,
+  isDocumentType,
+  MAX_DOCUMENT_PAGES,
+} from "@/lib/utils/documents"
+import { findNearestGazetteerPlace, formatGazetteerPlace } from "@/lib/utils/gazetteer"
+import { formatCoordinates } from "@/lib/utils/map"
+import { formatKnownPeople } from "@/lib/utils/people"
+import { getArtifactPath } from "@/lib/utils/routes"
+import { getArtifactSuggestions, mergePhotoLocation, mergeSuggestions } from "@/lib/utils/suggestions"
+import { normalizeTranscriptSegments, segmentsToText } from "@/lib/utils/transcripts"
+import { getLanguageName } from "@/lib/utils/translations"
+
+/**
+ * Artifact-wide AI analysis steps
+ * Shared by the /api/analyze/{audio,images,summary} routes and the background job worker
+ * (lib/ai-jobs.ts). Each step reads the artifact, calls the model and saves its result;
+ * analysis_status is left to the caller.
+ */
+
+export const ANALYSIS_STEPS: AnalysisStep[] = ["audio", "images", "documents", "summary"]
+
+/**
+ * A step that can't run for this artifact
+ * 400 = nothing to analyze (no audio, no images...), 404 = artifact not found
+ */
+export class AnalysisError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404,
+  ) {
+    super(message)
+    this.name = "AnalysisError"
+  }
+}
+
+export interface AnalysisStepOptions {
+  // Called once the step has what it needs, just before the first model call
+  onStart?: () => Promise<void>
+  // Called as the step moves along, with any results it has so far
+  onProgress?: (progress: AnalysisProgress, output?: AnalysisOutput) => Promise<void>
+  // Quota check before, and usage record after, every model call (lib/ai-usage.ts)
+  meter?: UsageMeter
+}
+
+const MAX_TRANSCRIPT_LENGTH = 10000
+const MAX_IMAGES = 5
+const MAX_IMAGE_CAPTIONS = 3
+const MAX_KNOWN_PEOPLE = 50
+
+async function fetchArtifact(supabase: SupabaseClient, artifactId: string) {
+  const { data: artifact, error } = await supabase.from("artifacts").select("*").eq("id", artifactId).single()
+
+  if (error || !artifact) {
+    throw new AnalysisError("Artifact not found", 404)
+  }
+
+  return artifact
+}
+
+function isAudioUrl(url: string): boolean {
+  const lower = url.toLowerCase()
+  return (
+    lower.includes(".mp3") ||
+    lower.includes(".wav") ||
+    lower.includes(".m4a") ||
+    lower.includes(".ogg") ||
+    lower.includes(".webm") ||
+    lower.includes("audio")
+  )
+}
+
+function isImageUrl(url: string): boolean {
+  const lower = url.toLowerCase()
+  return (
+    lower.includes(".jpg") ||
+    lower.includes(".jpeg") ||
+    lower.includes(".png") ||
+    lower.includes(".gif") ||
+    lower.includes(".webp") ||
+    lower.includes(".bmp") ||
+    lower.includes("image")
+  )
+}
+
+const CAPTION_PROMPT = "Generate a descriptive caption for this image in 7-20 words. Be specific and factual."
+
+/**
+ * Caption one image
+ */
+export async function captionImage(imageUrl: string, meter?: UsageMeter): Promise<string> {
+  const provider = getVisionProvider()
+  await meter?.check()
+  const { text, usage } = await provider.describeImage({ imageUrl, prompt: CAPTION_PROMPT, maxOutputTokens: 100 })
+  await meter?.record("vision", provider.id, usage)
+  return text
+}
+
+const DOCUMENT_PROMPT =
+  "Transcribe all of the text in this image exactly as written, including handwriting. " +
+  "Keep the original line breaks, spelling, punctuation and language; do not translate, correct or summarize. " +
+  `Write ${ILLEGIBLE_MARKER} for any word you cannot read. ` +
+  "Reply with the text only. If there is no text, reply with nothing."
+
+// A dense handwritten page runs to a few thousand tokens
+const MAX_DOCUMENT_OUTPUT_TOKENS = 4000
+
+/**
+ * Transcribe the full text of one page (a letter, recipe, certificate...), handwriting included
+ */
+export async function transcribeDocumentImage(
+  imageUrl: string,
+  { meter, language }: { meter?: UsageMeter; language?: string | null } = {},
+): Promise<string> {
+  const provider = getVisionProvider()
+  const languageHint = language ? ` The text is most likely in ${getLanguageName(language)}.` : ""
+  await meter?.check()
+  const { text, usage } = await provider.describeImage({
+    imageUrl,
+    prompt: DOCUMENT_PROMPT + languageHint,
+    maxOutputTokens: MAX_DOCUMENT_OUTPUT_TOKENS,
+  })
+  await meter?.record("vision", provider.id, usage)
+  return cleanDocumentTranscription(text)
+}
+
+/**
+ * The artifact's image pages in reading order (gallery, then media blocks)
+ */
+export async function fetchDocumentPageUrls(
+  supabase: SupabaseClient,
+  artifact: { id: string; media_urls?: string[] | null },
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("artifact_media")
+    .select("sort_order, media:user_media(public_url)")
+    .eq("artifact_id", artifact.id)
+    .eq("role", "gallery")
+    .order("sort_order", { ascending: true })
+
+  if (error) {
+    console.error("[fetchDocumentPageUrls] Failed to read gallery:", error)
+  }
+
+  const galleryUrls = (data || [])
+    .map((item) => (item.media as { public_url?: string } | null)?.public_url)
+    .filter((url): url is string => !!url)
+
+  return getDocumentPageUrls(galleryUrls, artifact.media_urls || [])
+}
+
+/**
+ * Where a long recording's transcribed parts are kept between attempts (see createChunkResume)
+ */
+export interface ChunkResume {
+  saved?: AudioTranscriptionProgress | null
+  onChunkDone?: (progress: AudioTranscriptionProgress) => Promise<void>
+}
+
+export interface TranscribeOptions {
+  filename: string
+  language?: string
+  meter?: UsageMeter
+  // Lets a long recording pick up where a failed attempt stopped
+  resume?: ChunkResume
+  // Called before each part of a long recording is sent
+  onChunkStart?: (current: number, total: number) => Promise<void>
+}
+
+/**
+ * Download a recording to transcribe
+ * Recordings too large for one request that can't be split as they are (m4a, webm...) are
+ * fetched as an MP3 conversion instead, when Cloudinary can provide one.
+ */
+export async function downloadAudio(url: string): Promise<Blob> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to download audio: ${response.statusText}`)
+  }
+
+  const audio = await response.blob()
+  if (audio.size <= MAX_CHUNK_BYTES || isSplittableAudio(new Uint8Array(await audio.slice(0, 16).arrayBuffer()))) {
+    return audio
+  }
+
+  const mp3Url = getMp3AudioUrl(url)
+  if (!mp3Url) return audio
+
+  console.log("[v0] Recording too large to send whole, fetching MP3 conversion:", url)
+  const mp3Response = await fetch(mp3Url)
+  if (!mp3Response.ok) {
+    throw new Error(`Failed to convert audio: ${mp3Response.statusText}`)
+  }
+
+  return mp3Response.blob()
+}
+
+/**
+ * Transcribe a recording of any length, returning the raw text and any segment timings
+ * Recordings too big or too long for one request are split into overlapping parts
+ * (lib/utils/audio-chunks.ts), transcribed one by one and stitched back together. Each
+ * finished part is handed to resume.onChunkDone, so a retry skips the parts already done.
+ */
+export async function transcribeLongAudio(
+  audio: Blob,
+  { filename, language, meter, resume, onChunkStart }: TranscribeOptions,
+): Promise<{ text: string; segments: TranscriptSegment[] }> {
+  const provider = getTranscriptionProvider()
+  const bytes = new Uint8Array(await audio.arrayBuffer())
+  const layout = readAudioLayout(bytes)
+
+  if (!needsChunking(audio.size, layout)) {
+    await meter?.check()
+    const { text, segments, usage } = await provider.transcribe({ audio, filename, language })
+    await meter?.record("transcription", provider.id, usage)
+    return { text, segments: normalizeTranscriptSegments(segments) }
+  }
+
+  if (!layout) {
+    throw new AnalysisError("This recording is too large to transcribe. Upload it as an MP3 or WAV file.", 400)
+  }
+
+  const chunkSeconds = getChunkSeconds(layout.bytesPerSecond)
+  const chunks = planAudioChunks(layout.duration, chunkSeconds, CHUNK_OVERLAP_SECONDS)
+  const progress: AudioTranscriptionProgress = {
+    chunk_seconds: chunkSeconds,
+    overlap_seconds: CHUNK_OVERLAP_SECONDS,
+    chunk_count: chunks.length,
+    chunks: getResumableChunks(resume?.saved, { chunkSeconds, overlapSeconds: CHUNK_OVERLAP_SECONDS, chunks }),
+  }
+
+  if (progress.chunks.length > 0) {
+    console.log(`[v0] Resuming transcription with ${progress.chunks.length} of ${chunks.length} parts done`)
+  }
+
+  for (const chunk of chunks) {
+    if (progress.chunks.some((done) => done.index === chunk.index)) continue
+
+    await onChunkStart?.(chunk.index + 1, chunks.length)
+
+    try {
+      const part = new Blob([sliceAudio(bytes, layout, chunk.start, chunk.end)], {
+        type: layout.format === "mp3" ? "audio/mpeg" : "audio/wav",
+      })
+
+      await meter?.check()
+      const { text, segments, usage } = await provider.transcribe({
+        audio: part,
+        filename: `part-${chunk.index + 1}.${layout.format}`,
+        language,
+      })
+      await meter?.record("transcription", provider.id, usage)
+
+      progress.chunks = [...progress.chunks, { ...chunk, text, segments: normalizeTranscriptSegments(segments) }]
+    } catch (error) {
+      console.error(
+        `[v0] Transcribing part ${chunk.index + 1} of ${chunks.length} failed with ${progress.chunks.length} done:`,
+        error,
+      )
+      throw error
+    }
+
+    await resume?.onChunkDone?.(progress)
+  }
+
+  return stitchChunkTranscripts(progress.chunks)
+}
+
+/**
+ * Transcribe an audio file
+ */
+export async function transcribeAudio(audio: Blob, options: TranscribeOptions): Promise<string> {
+  const { text } = await transcribeLongAudio(audio, options)
+  return text
+}
+
+/**
+ * Fix typos and punctuation in a raw transcript without changing what was said
+ * Short transcripts, ones too long for the model to hand back whole, and any the model
+ * fails on are returned as they are.
+ */
+export async function tidyTranscript(
+  transcript: string,
+  meter?: UsageMeter,
+  language?: string | null,
+): Promise<string> {
+  if (!transcript || transcript.length <= 50 || transcript.length > MAX_TRANSCRIPT_LENGTH) return transcript
+
+  try {
+    const provider = getTextProvider()
+    await meter?.check()
+    const { text, usage } = await provider.generateText({
+      system:
+        "Reformat this transcript for readability. Fix obvious typos and add punctuation, but do not add any new information or facts. Keep the original meaning intact." +
+        // Without this the model tends to "tidy" other languages into English
+        (language ? ` The transcript is in ${getLanguageName(language)}; keep it in ${getLanguageName(language)}.` : ""),
+      prompt: transcript,
+      maxOutputTokens: 2000,
+    })
+    await meter?.record("text", provider.id, usage)
+    return text
+  } catch (cleanupError) {
+    console.error("[v0] Transcript cleanup failed, using raw transcript:", cleanupError)
+    return transcript
+  }
+}
+
+/**
+ * Transcribe an audio file, keeping segment timings where the provider returns them
+ * Timed transcripts are already punctuated and are not tidied, since rewriting the text
+ * would no longer line up with the timings. Untimed ones are tidied as before.
+ */
+export async function transcribeAudioWithSegments(
+  audio: Blob,
+  options: TranscribeOptions,
+): Promise<{ transcript: string; segments: TranscriptSegment[] }> {
+  const { text, segments } = await transcribeLongAudio(audio, options)
+
+  if (segments.length > 0) {
+    return { transcript: segmentsToText(segments), segments }
+  }
+
+  return { transcript: await tidyTranscript(text, options.meter, options.language), segments: [] }
+}
+
+/**
+ * Keep a long recording's transcribed parts on the artifact between attempts
+ * Progress lives in artifacts.audio_transcription_progress, keyed by audio URL. Failing to
+ * save it is logged, not surfaced: the transcription itself can still finish.
+ */
+export function createChunkResume(
+  supabase: SupabaseClient,
+  artifactId: string,
+  audioUrl: string,
+  progressByUrl: Record<string, AudioTranscriptionProgress> | null | undefined,
+): ChunkResume & { clear: () => Promise<void> } {
+  let current: Record<string, AudioTranscriptionProgress> = { ...(progressByUrl || {}) }
+
+  const save = async () => {
+    const { error } = await supabase
+      .from("artifacts")
+      .update({ audio_transcription_progress: current })
+      .eq("id", artifactId)
+
+    if (error) {
+      console.error("[v0] Failed to save transcription progress:", error)
+    }
+  }
+
+  return {
+    saved: current[audioUrl] || null,
+    onChunkDone: async (progress) => {
+      current = { ...current, [audioUrl]: progress }
+      await save()
+    },
+    // Once the transcript is saved the parts are no longer needed
+    clear: async () => {
+      if (!(audioUrl in current)) return
+      current = { ...current }
+      delete current[audioUrl]
+      await save()
+    },
+  }
+}
+
+async function isValidImageUrl(url: string): Promise<boolean> {
+  try {
+    // Basic URL format validation
+    new URL(url)
+
+    // Try to fetch headers to verify the URL is reachable and is an image
+    const response = await fetch(url, { method: "HEAD", signal: AbortSignal.timeout(5000) })
+    if (!response.ok) return false
+
+    const contentType = response.headers.get("content-type")
+    return contentType?.startsWith("image/") ?? false
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Transcribe the artifact's first audio file into `transcript`
+ */
+export async function transcribeArtifactAudio(
+  supabase: SupabaseClient,
+  artifactId: string,
+  options: AnalysisStepOptions = {},
+) {
+  const artifact = await fetchArtifact(supabase, artifactId)
+
+  const audioUrl = artifact.media_urls?.find(isAudioUrl)
+  if (!audioUrl) {
+    throw new AnalysisError("No audio file found in artifact", 400)
+  }
+
+  await options.meter?.check()
+  await options.onStart?.()
+  await options.onProgress?.({ message: "Downloading audio", media_url: audioUrl })
+
+  const audioBlob = await downloadAudio(audioUrl)
+
+  await options.onProgress?.({ message: "Transcribing audio", media_url: audioUrl })
+
+  const resume = createChunkResume(supabase, artifactId, audioUrl, artifact.audio_transcription_progress)
+  const rawTranscript = await transcribeAudio(audioBlob, {
+    filename: "audio.mp3",
+    language: artifact.language_hint || undefined,
+    meter: options.meter,
+    resume,
+    onChunkStart: async (current, total) => {
+      await options.onProgress?.({
+        message: `Transcribing part ${current} of ${total}`,
+        current,
+        total,
+        media_url: audioUrl,
+      })
+    },
+  })
+
+  if (rawTranscript.length > 50) {
+    await options.onProgress?.({ message: "Transcription done, tidying punctuation" }, { transcript: rawTranscript })
+  }
+  const transcript = await tidyTranscript(rawTranscript, options.meter, artifact.language_hint)
+
+  const { error: updateError } = await supabase
+    .from("artifacts")
+    .update({ transcript, updated_at: new Date().toISOString() })
+    .eq("id", artifactId)
+
+  if (updateError) {
+    throw new Error(`Failed to save transcript: ${updateError.message}`)
+  }
+
+  await resume.clear()
+
+  console.log("[v0] Successfully saved transcript for artifact:", artifactId)
+
+  revalidatePath(getArtifactPath(artifact))
+
+  return { transcript }
+}
+
+/**
+ * Caption up to MAX_IMAGES of the artifact's images into `image_captions`
+ * Images that fail to caption are skipped.
+ */
+export async function captionArtifactImages(
+  supabase: SupabaseClient,
+  artifactId: string,
+  options: AnalysisStepOptions = {},
+) {
+  const artifact = await fetchArtifact(supabase, artifactId)
+
+  const potentialImageUrls = (artifact.media_urls || []).filter(isImageUrl).slice(0, MAX_IMAGES)
+
+  // Validate URLs in parallel
+  const validationResults = await Promise.all(
+    potentialImageUrls.map(async (url: string) => ({
+      url,
+      isValid: await isValidImageUrl(url),
+    })),
+  )
+
+  const imageUrls = validationResults.filter((result) => result.isValid).map((result) => result.url)
+
+  if (imageUrls.length === 0) {
+    throw new AnalysisError("No valid image files found in artifact", 400)
+  }
+
+  await options.meter?.check()
+  await options.onStart?.()
+
+  console.log("[v0] Starting image analysis for artifact:", artifactId)
+  console.log("[v0] Using model:", getVisionProvider().id)
+  console.log("[v0] Processing", imageUrls.length, "images")
+
+  // Generate captions for each image
+  const captions: Record<string, string> = {}
+
+  for (const [index, imageUrl] of imageUrls.entries()) {
+    const progress = {
+      message: `Captioning image ${index + 1} of ${imageUrls.length}`,
+      current: index + 1,
+      total: imageUrls.length,
+      media_url: imageUrl,
+    }
+    await options.onProgress?.(progress)
+
+    try {
+      captions[imageUrl] = await captionImage(imageUrl, options.meter)
+      console.log("[v0] Generated caption for image:", imageUrl.substring(0, 50) + "...")
+      await options.onProgress?.(progress, { captions: { ...captions } })
+    } catch (error) {
+      // Keep the captions written before the quota ran out
+      if (error instanceof AiQuotaError) {
+        console.error("[v0] AI quota reached, stopping captioning:", error.message)
+        break
+      }
+      console.error(`[v0] Failed to caption image ${imageUrl}:`, error)
+      continue
+    }
+  }
+
+  // A photo's GPS position is offered to the owner as where the artifact is from
+  const photo = await findPhotoLocation(imageUrls)
+  const nearest = photo ? findNearestGazetteerPlace(photo.position) : null
+  const photoLocation: PhotoLocation | null = photo
+    ? {
+        name: nearest ? formatGazetteerPlace(nearest) : formatCoordinates(photo.position),
+        ...photo.position,
+        media_url: photo.media_url,
+      }
+    : null
+
+  const { error: updateError } = await supabase
+    .from("artifacts")
+    .update({
+      image_captions: captions,
+      ai_suggestions: mergePhotoLocation(getArtifactSuggestions(artifact.ai_suggestions), photoLocation),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", artifactId)
+
+  if (updateError) {
+    throw new Error(`Failed to save captions: ${updateError.message}`)
+  }
+
+  console.log("[v0] Successfully saved image captions for artifact:", artifactId)
+
+  revalidatePath(getArtifactPath(artifact))
+
+  return { captions }
+}
+
+/**
+ * Transcribe the text of a document artifact's pages into `image_transcriptions`
+ * Only runs for types with analysis_mode "document". Pages that already have text are left
+ * alone so corrections survive a re-run; pages that fail are skipped.
+ */
+export async function transcribeArtifactDocuments(
+  supabase: SupabaseClient,
+  artifactId: string,
+  options: AnalysisStepOptions = {},
+) {
+  const artifact = await fetchArtifact(supabase, artifactId)
+
+  const { data: type } = artifact.type_id
+    ? await supabase.from("artifact_types").select("analysis_mode").eq("id", artifact.type_id).single()
+    : { data: null }
+
+  if (!isDocumentType(type)) {
+    throw new AnalysisError("Only document artifacts have their text transcribed", 400)
+  }
+
+  const existing: Record<string, string> = artifact.image_transcriptions || {}
+  const pageUrls = (await fetchDocumentPageUrls(supabase, artifact)).slice(0, MAX_DOCUMENT_PAGES)
+  const pendingUrls = pageUrls.filter((url) => !existing[url]?.trim())
+
+  if (pageUrls.length === 0) {
+    throw new AnalysisError("No pages found in artifact", 400)
+  }
+  if (pendingUrls.length === 0) {
+    throw new AnalysisError("Every page is already transcribed", 400)
+  }
+
+  await options.meter?.check()
+  await options.onStart?.()
+
+  console.log("[v0] Transcribing", pendingUrls.length, "document pages for artifact:", artifactId)
+
+  const transcriptions: Record<string, string> = { ...existing }
+  const added: Record<string, string> = {}
+
+  for (const [index, imageUrl] of pendingUrls.entries()) {
+    const progress = {
+      message: `Transcribing page ${pageUrls.indexOf(imageUrl) + 1} of ${pageUrls.length}`,
+      current: index + 1,
+      total: pendingUrls.length,
+      media_url: imageUrl,
+    }
+    await options.onProgress?.(progress)
+
+    try {
+      const text = await transcribeDocumentImage(imageUrl, { meter: options.meter, language: artifact.language_hint })
+      if (!text) continue
+      transcriptions[imageUrl] = text
+      added[imageUrl] = text
+      await options.onProgress?.(progress, { transcriptions: { ...added } })
+    } catch (error) {
+      // Keep the pages written before the quota ran out
+      if (error instanceof AiQuotaError) {
+        console.error("[v0] AI quota reached, stopping document transcription:", error.message)
+        break
+      }
+      console.error(`[v0] Failed to transcribe page ${imageUrl}:`, error)
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from("artifacts")
+    .update({ image_transcriptions: transcriptions, updated_at: new Date().toISOString() })
+    .eq("id", artifactId)
+
+  if (updateError) {
+    throw new Error(`Failed to save transcriptions: ${updateError.message}`)
+  }
+
+  revalidatePath(getArtifactPath(artifact))
+
+  return { transcriptions }
+}
+
+const summarySchema = z.object({
+  description_markdown: z.string().describe("A concise, factual, warm heirloom description in markdown format"),
+  highlights: z.array(z.string()).optional().describe("Key highlights or memorable moments (max 5)"),
+  people: z.array(z.string()).optional().describe("Names of people mentioned or identified"),
+  places: z.array(z.string()).optional().describe("Locations or places mentioned"),
+  year_guess: z.number().int().optional().describe("Estimated year if determinable from context"),
+  tags: z.array(z.string()).optional().describe("Relevant tags or categories"),
+})
+
+/**
+ * Write `ai_description` from the transcript, interview, document text and image captions,
+ * then refresh the embedding
+ * The people, places, tags and year it finds are kept in `ai_suggestions` for the owner to review;
+ * the owner's people directory is in the prompt so known people are named as recorded.
+ */
+export async function summarizeArtifact(
+  supabase: SupabaseClient,
+  artifactId: string,
+  options: AnalysisStepOptions = {},
+) {
+  const artifact = await fetchArtifact(supabase, artifactId)
+
+  const transcript = artifact.transcript
+  const interviewTranscript = artifact.interview_transcript as string | null
+  const imageCaptions = artifact.image_captions as Record<string, string> | null
+  const imageTranscriptions = artifact.image_transcriptions as Record<string, string> | null
+  const documentText =
+    imageTranscriptions && Object.keys(imageTranscriptions).length > 0
+      ? getDocumentText(await fetchDocumentPageUrls(supabase, artifact), imageTranscriptions)
+      : ""
+
+  if (
+    !transcript &&
+    !interviewTranscript &&
+    !documentText &&
+    (!imageCaptions || Object.keys(imageCaptions).length === 0)
+  ) {
+    throw new AnalysisError("No transcript, interview, document text or image captions available for summary", 400)
+  }
+
+  await options.meter?.check()
+  await options.onStart?.()
+
+  const contextParts: string[] = []
+
+  if (transcript) {
+    const truncatedTranscript = transcript.slice(0, MAX_TRANSCRIPT_LENGTH)
+    contextParts.push(`## Transcript:\n${truncatedTranscript}`)
+    if (transcript.length > MAX_TRANSCRIPT_LENGTH) {
+      contextParts.push(`\n(Transcript truncated from ${transcript.length} to ${MAX_TRANSCRIPT_LENGTH} characters)`)
+    }
+  }
+
+  // Questions and answers from the guided interview (lib/utils/interview.ts)
+  if (interviewTranscript) {
+    contextParts.push(`## Interview:\n${interviewTranscript.slice(0, MAX_TRANSCRIPT_LENGTH)}`)
+    if (interviewTranscript.length > MAX_TRANSCRIPT_LENGTH) {
+      contextParts.push(
+        `\n(Interview truncated from ${interviewTranscript.length} to ${MAX_TRANSCRIPT_LENGTH} characters)`,
+      )
+    }
+  }
+
+  // Text transcribed from the pages of a letter or document
+  if (documentText) {
+    contextParts.push(`## Document Text:\n${documentText.slice(0, MAX_TRANSCRIPT_LENGTH)}`)
+    if (documentText.length > MAX_TRANSCRIPT_LENGTH) {
+      contextParts.push(`\n(Document text truncated from ${documentText.length} to ${MAX_TRANSCRIPT_LENGTH} characters)`)
+    }
+  }
+
+  if (imageCaptions && Object.keys(imageCaptions).length > 0) {
+    const captionEntries = Object.entries(imageCaptions).slice(0, MAX_IMAGE_CAPTIONS)
+    const captionsText = captionEntries.map(([, caption], idx) => `${idx + 1}. ${caption}`).join("\n")
+    contextParts.push(`\n## Image Captions:\n${captionsText}`)
+  }
+
+  // The owner's people directory, so names the model recognizes come back as they're recorded
+  const { data: knownPeople } = await supabase
+    .from("people")
+    .select("name, relationship, birth_date, death_date")
+    .eq("user_id", artifact.user_id)
+    .order("name", { ascending: true })
+    .limit(MAX_KNOWN_PEOPLE)
+  if (knownPeople && knownPeople.length > 0) {
+    contextParts.push(`## People in This Family:\n${formatKnownPeople(knownPeople)}`)
+  }
+
+  const context = contextParts.join("\n\n")
+
+  // The description is written in the family's own language; readers can translate it
+  const language = artifact.language_hint ? getLanguageName(artifact.language_hint) : null
+  const languageInstruction = language
+    ? `\n\nThe transcript and interview are in ${language}. Write description_markdown and highlights in ${language}, and keep names and places as they were said.`
+    : ""
+
+  await options.onProgress?.({ message: "Writing description" })
+
+  const summaryProvider = getSummaryProvider()
+  const { object: finalObject, usage } = await summaryProvider.generateObject({
+    schema: summarySchema,
+    system:
+      "You are an AI that generates structured summaries for family heirloom artifacts. " +
+      "Write concise, factual, warm descriptions in markdown format. " +
+      "Never invent facts; use 'likely' or 'appears to' when unsure. " +
+      "Focus on what makes this artifact meaningful and memorable. Be specific but avoid speculation. " +
+      "The description_markdown field is REQUIRED and must be at least 20 characters.",
+    prompt: `Based on the following content from a family heirloom artifact, generate a structured summary.
+
+${context}
+
+Generate a JSON object with these fields:
+- description_markdown (REQUIRED): A warm, factual description (2-4 sentences) in markdown format
+- highlights (optional): Array of key moments or details (max 5 items)
+- people (optional): Array of names mentioned. When someone is one of the people in this family, use their name exactly as listed
+- places (optional): Array of locations mentioned
+- year_guess (optional): Estimated year as integer
+- tags (optional): Array of relevant tags
+
+Focus on creating a meaningful, warm description that captures the essence of this heirloom.${languageInstruction}`,
+    maxOutputTokens: 2000,
+  })
+  await options.meter?.record("summary", summaryProvider.id, usage)
+
+  if (!finalObject || !finalObject.description_markdown || finalObject.description_markdown.trim().length === 0) {
+    throw new Error("AI did not generate a valid description")
+  }
+
+  const now = new Date().toISOString()
+  const { error: updateError } = await supabase
+    .from("artifacts")
+    .update({
+      ai_description: finalObject.description_markdown,
+      ai_suggestions: mergeSuggestions(getArtifactSuggestions(artifact.ai_suggestions), finalObject, now),
+      updated_at: now,
+    })
+    .eq("id", artifactId)
+
+  if (updateError) {
+    throw new Error(`Failed to save summary: ${updateError.message}`)
+  }
+
+  // Feeds "Similar artifacts" and search by meaning; failures are logged, not surfaced
+  await options.onProgress?.({ message: "Finding similar artifacts" })
+  await updateArtifactEmbedding(supabase, artifactId, options.meter)
+
+  revalidatePath(getArtifactPath(artifact))
+
+  return { object: finalObject }
+}
+
+const STEP_RUNNERS: Record<
+  AnalysisStep,
+  (supabase: SupabaseClient, artifactId: string, options?: AnalysisStepOptions) => Promise<unknown>
+> = {
+  audio: transcribeArtifactAudio,
+  images: captionArtifactImages,
+  documents: transcribeArtifactDocuments,
+  summary: summarizeArtifact,
+}
+
+/**
+ * Run one analysis step by name
+ */
+export async function runAnalysisStep(
+  step: AnalysisStep,
+  supabase: SupabaseClient,
+  artifactId: string,
+  options?: AnalysisStepOptions,
+) {
+  await STEP_RUNNERS[step](supabase, artifactId, options)
+}
@@ -0,0 +1,86 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { z } from "zod"
+import { getTextProvider } from "@/lib/ai"
+import type { UsageMeter } from "@/lib/ai-usage"
+import { AnalysisError } from "@/lib/analysis"
+import type { ArchiveArtifact, ArchiveChatAnswer, ArchiveChatMessage } from "@/lib/types/archive-chat"
+import {
+  formatArchiveHistory,
+  formatArchiveSources,
+  getCitedSources,
+  selectArchiveSources,
+} from "@/lib/utils/archive-chat"
+
+const ARCHIVE_ARTIFACT_FIELDS =
+  "id, slug, title, description, origin, year_acquired, ai_description, transcript, interview_transcript, image_captions, image_transcriptions, video_summaries, audio_transcripts, audio_summaries"
+
+const answerSchema = z.object({
+  answer: z.string(),
+  sources: z.array(z.number().int()),
+})
+
+/**
+ * Answer a question about a collection from its artifacts, citing the ones used
+ * Artifacts are read like getArtifactsByCollection, with the caller's client, so RLS decides
+ * what the answer can draw on: a viewer never gets answers from artifacts they can't open.
+ */
+export async function askArchive(
+  supabase: SupabaseClient,
+  collectionId: string,
+  question: string,
+  { history = [], meter }: { history?: ArchiveChatMessage[]; meter?: UsageMeter } = {},
+): Promise<ArchiveChatAnswer> {
+  const { data: collection } = await supabase
+    .from("collections")
+    .select("id, title")
+    .eq("id", collectionId)
+    .maybeSingle()
+
+  if (!collection) {
+    throw new AnalysisError("Collection not found", 404)
+  }
+
+  const { data: artifacts, error } = await supabase
+    .from("artifacts")
+    .select(ARCHIVE_ARTIFACT_FIELDS)
+    .eq("collection_id", collectionId)
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load artifacts: ${error.message}`)
+  }
+
+  const sources = selectArchiveSources((artifacts || []) as ArchiveArtifact[], question)
+  if (sources.length === 0) {
+    throw new AnalysisError(
+      "Nothing to go on yet: add descriptions, recordings or photos to this collection's artifacts first",
+      400,
+    )
+  }
+
+  const conversation = formatArchiveHistory(history)
+  const provider = getTextProvider()
+  await meter?.check()
+  const { object, usage } = await provider.generateObject({
+    schema: answerSchema,
+    system:
+      "You answer a family's questions about their collection of heirlooms, using only the numbered sources " +
+      "you are given. Each source is one artifact in the collection. Cite every source you use with its number " +
+      "in square brackets, like [2], right after the sentence it supports, and list those numbers in sources. " +
+      "If the sources don't answer the question, say so plainly: never guess or use outside knowledge. " +
+      "Quote people's own words where they help. Keep answers short and warm, in the language of the question.",
+    prompt: [
+      `Collection: ${collection.title}`,
+      `Sources:\n${formatArchiveSources(sources)}`,
+      conversation ? `Conversation so far:\n${conversation}` : "",
+      `Question: ${question.trim()}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    maxOutputTokens: 1000,
+  })
+  await meter?.record("text", provider.id, usage)
+
+  const answer = object.answer.trim()
+  return { answer, sources: getCitedSources(answer, object.sources, sources) }
+}
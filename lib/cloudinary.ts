@@ -23,9 +23,14 @@ import { isCloudinaryUrl, isSupabaseStorageUrl, isVideoUrl } from "./media"
  *
  * @param remoteUrl - URL of the remote media (e.g., Supabase Storage URL)
  * @param transformations - Cloudinary transformation string
+ * @param resourceType - Defaults from the URL; audio is handled as "video"
  * @returns Cloudinary fetch URL
  */
-function getCloudinaryFetchUrl(remoteUrl: string, transformations: string): string {
+function getCloudinaryFetchUrl(
+  remoteUrl: string,
+  transformations: string,
+  resourceType: "image" | "video" = isVideoUrl(remoteUrl) ? "video" : "image",
+): string {
   const cloudName = process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME
 
   if (!cloudName) {
@@ -40,9 +45,6 @@ function getCloudinaryFetchUrl(remoteUrl: string, transformations: string): stri
     return remoteUrl
   }
 
-  // Determine resource type based on URL
-  const resourceType = isVideoUrl(remoteUrl) ? 'video' : 'image'
-
   // Format: https://res.cloudinary.com/{cloud_name}/{resource_type}/fetch/{transformations}/{remote_url}
   // Note: Cloudinary will URL-encode the remote URL automatically
   return `https://res.cloudinary.com/${cloudName}/${resourceType}/fetch/${transformations}/${remoteUrl}`
@@ -355,3 +357,29 @@ export function getFullResUrl(url: string): string {
 
   return url
 }
+
+/**
+ * Get an MP3 copy of an audio recording, converted by Cloudinary
+ * Perfect for: transcribing long recordings in formats that can't be split as they are (m4a, webm...)
+ *
+ * @param url - Original audio URL
+ * @returns MP3 URL, or null when Cloudinary can't convert this URL
+ */
+export function getMp3AudioUrl(url: string): string | null {
+  if (!url || typeof url !== 'string' || url.trim() === '') {
+    return null
+  }
+
+  // PHASE 2: Cloudinary fetches the Supabase original and converts it
+  if (isSupabaseStorageUrl(url)) {
+    const mp3Url = getCloudinaryFetchUrl(url, "f_mp3", "video")
+    return mp3Url === url ? null : mp3Url
+  }
+
+  // Cloudinary originals convert to whichever format the extension asks for
+  if (isCloudinaryUrl(url) && url.includes("/video/upload/")) {
+    return url.replace(/\.[a-z0-9]+(\?.*)?$/i, ".mp3")
+  }
+
+  return null
+}
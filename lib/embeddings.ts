@@ -0,0 +1,151 @@
+import { createHash } from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { getAiProviderConfig, type AiUsage } from "@/lib/ai"
+import type { UsageMeter } from "@/lib/ai-usage"
+import { createOpenAIEmbeddingProvider } from "@/lib/ai-providers/openai"
+import { buildArtifactEmbeddingText, toVectorLiteral } from "@/lib/utils/embeddings"
+
+/**
+ * Dimensions of stored embeddings
+ * Must match VECTOR(1536) in scripts/025_create_artifact_embeddings.sql
+ */
+export const EMBEDDING_DIMENSIONS = 1536
+
+/**
+ * Turns text into vectors for similarity search
+ * Every provider must return EMBEDDING_DIMENSIONS-long vectors
+ */
+export interface EmbeddingProvider {
+  // Stored with each embedding, e.g. "openai/text-embedding-3-small"
+  id: string
+  embed(texts: string[]): Promise<{ embeddings: number[][]; usage: AiUsage }>
+}
+
+/**
+ * Get the model to use for text embeddings
+ * @returns Model identifier (default: text-embedding-3-small)
+ */
+export function getEmbeddingModel(): string {
+  return process.env.AI_EMBEDDING_MODEL || "text-embedding-3-small"
+}
+
+/**
+ * Deterministic stand-in that needs no network or API key (AI_PROVIDER=fake, tests)
+ * Hashes words into a fixed-size bag-of-words vector, so texts sharing words are "similar"
+ */
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    id: "local/hash",
+    async embed(texts) {
+      return { embeddings: texts.map(hashEmbedding), usage: {} }
+    },
+  }
+}
+
+function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0)
+  const words = text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) || []
+
+  for (const word of words) {
+    // FNV-1a; the top bit picks the sign so unrelated words tend to cancel out
+    let hash = 0x811c9dc5
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    vector[(hash >>> 0) % EMBEDDING_DIMENSIONS] += hash < 0 ? -1 : 1
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm === 0 ? vector : vector.map((value) => value / norm)
+}
+
+let providerOverride: EmbeddingProvider | null = null
+
+/**
+ * The embedding provider to use, chosen by AI_PROVIDER_EMBEDDING / AI_PROVIDER (see lib/ai.ts)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (providerOverride) return providerOverride
+  const config = getAiProviderConfig("embedding")
+  return config.kind === "fake"
+    ? createLocalEmbeddingProvider()
+    : createOpenAIEmbeddingProvider(config, getEmbeddingModel(), EMBEDDING_DIMENSIONS)
+}
+
+/**
+ * Replace the embedding provider (pass null to restore the default), e.g. in tests
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  providerOverride = provider
+}
+
+/**
+ * Compute and store an artifact's embedding from its description, transcripts and AI summaries
+ * Skipped when the text and provider haven't changed since the last run.
+ * Called after the summary step (lib/analysis.ts).
+ */
+export async function updateArtifactEmbedding(
+  supabase: SupabaseClient,
+  artifactId: string,
+  meter?: UsageMeter,
+): Promise<{ success: boolean; skipped?: boolean; error?: string }> {
+  const { data: artifact, error: fetchError } = await supabase
+    .from("artifacts")
+    .select(
+      "id, title, description, ai_description, transcript, interview_transcript, video_summaries, audio_summaries, audio_transcripts, image_transcriptions",
+    )
+    .eq("id", artifactId)
+    .single()
+
+  if (fetchError || !artifact) {
+    return { success: false, error: "Artifact not found" }
+  }
+
+  const text = buildArtifactEmbeddingText(artifact)
+  if (!text) {
+    return { success: true, skipped: true }
+  }
+
+  const provider = getEmbeddingProvider()
+  const contentHash = createHash("sha256").update(text).digest("hex")
+
+  const { data: existing } = await supabase
+    .from("artifact_embeddings")
+    .select("content_hash, model")
+    .eq("artifact_id", artifactId)
+    .maybeSingle()
+
+  if (existing?.content_hash === contentHash && existing?.model === provider.id) {
+    return { success: true, skipped: true }
+  }
+
+  let embedding: number[]
+  try {
+    await meter?.check()
+    const { embeddings, usage } = await provider.embed([text])
+    await meter?.record("embedding", provider.id, usage)
+    embedding = embeddings[0]
+  } catch (error) {
+    console.error("[updateArtifactEmbedding] Embedding failed:", error)
+    return { success: false, error: "Failed to compute embedding" }
+  }
+
+  const { error: upsertError } = await supabase.from("artifact_embeddings").upsert(
+    {
+      artifact_id: artifactId,
+      embedding: toVectorLiteral(embedding),
+      model: provider.id,
+      content_hash: contentHash,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "artifact_id" },
+  )
+
+  if (upsertError) {
+    console.error("[updateArtifactEmbedding] Failed to save embedding:", upsertError)
+    return { success: false, error: "Failed to save embedding" }
+  }
+
+  return { success: true }
+}
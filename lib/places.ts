@@ -0,0 +1,117 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Place, PlaceLocation } from "@/lib/types/places"
+import { EXIF_READ_BYTES, readExifGps } from "@/lib/utils/exif"
+import type { LatLng } from "@/lib/utils/map"
+import { getGazetteerLocation, isLocated } from "@/lib/utils/places"
+import { normalizeEntityName } from "@/lib/utils/suggestions"
+
+const MAX_PLACE_NAME_LENGTH = 200
+const PHOTO_FETCH_TIMEOUT_MS = 5000
+
+/**
+ * The owner's place with this name, created if there isn't one yet
+ *
+ * Places without coordinates get them from `location` when given, else from the gazetteer.
+ * Returns null for blank names, and when `create` is false and there's no such place: only
+ * the owner can add to (or locate) their places, so family editors link existing ones.
+ */
+export async function findOrCreatePlace(
+  supabase: SupabaseClient,
+  ownerId: string,
+  rawName: string | null | undefined,
+  { create = true, location }: { create?: boolean; location?: PlaceLocation } = {}
+): Promise<Pick<Place, "id" | "name"> | null> {
+  const name = normalizeEntityName(rawName || "")
+    .slice(0, MAX_PLACE_NAME_LENGTH)
+    .trim()
+  if (!name) return null
+
+  const pattern = name.replace(/[\\%_]/g, "\\$&")
+  const find = () =>
+    supabase
+      .from("places")
+      .select("id, name, latitude, longitude")
+      .eq("user_id", ownerId)
+      .ilike("name", pattern)
+      .maybeSingle()
+
+  const { data: existing } = await find()
+  if (existing) {
+    if (create && !isLocated(existing)) {
+      const found = location ?? getGazetteerLocation(name)
+      if (found) {
+        const { error } = await supabase.from("places").update(found).eq("id", existing.id)
+        if (error) console.error("[findOrCreatePlace] Failed to locate place:", error)
+      }
+    }
+    return { id: existing.id, name: existing.name }
+  }
+
+  if (!create) return null
+
+  const { data: created, error } = await supabase
+    .from("places")
+    .insert({ user_id: ownerId, name, ...(location ?? getGazetteerLocation(name)) })
+    .select("id, name")
+    .single()
+
+  // Someone else created it first (unique on owner and name)
+  if (error?.code === "23505") {
+    const { data: raced } = await find()
+    return raced ? { id: raced.id, name: raced.name } : null
+  }
+
+  if (error) {
+    console.error("[findOrCreatePlace] Failed to create place:", error)
+    return null
+  }
+
+  return created
+}
+
+/**
+ * Up to `limit` bytes from the start of a response body
+ * Servers that ignore the Range header send the whole file, so stop reading early
+ */
+async function readStart(response: Response, limit: number): Promise<Uint8Array> {
+  const reader = response.body?.getReader()
+  if (!reader) return new Uint8Array(0)
+
+  const bytes = new Uint8Array(limit)
+  let length = 0
+  while (length < limit) {
+    const { done, value } = await reader.read()
+    if (done) break
+    const chunk = value.subarray(0, limit - length)
+    bytes.set(chunk, length)
+    length += chunk.length
+  }
+  await reader.cancel().catch(() => {})
+
+  return bytes.subarray(0, length)
+}
+
+/**
+ * The GPS position of the first of these photos that has one
+ * Only the start of each file is fetched, where EXIF lives; photos that fail are skipped
+ */
+export async function findPhotoLocation(
+  imageUrls: string[]
+): Promise<{ position: LatLng; media_url: string } | null> {
+  for (const url of imageUrls) {
+    try {
+      const response = await fetch(url, {
+        headers: { Range: `bytes=0-${EXIF_READ_BYTES - 1}` },
+        signal: AbortSignal.timeout(PHOTO_FETCH_TIMEOUT_MS),
+      })
+      if (!response.ok) continue
+
+      const position = readExifGps(await readStart(response, EXIF_READ_BYTES))
+      if (position) return { position, media_url: url }
+    } catch (error) {
+      console.error("[findPhotoLocation] Failed to read photo:", url, error)
+    }
+  }
+
+  return null
+}
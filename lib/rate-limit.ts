@@ -0,0 +1,124 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import type { RateLimitResult, RateLimitRule } from "@/lib/types/rate-limit"
+import {
+  RATE_LIMITS,
+  getClientIp,
+  getRateLimitHeaders,
+  getRateLimitKey,
+  slideWindow,
+  type RateLimitName,
+} from "@/lib/utils/rate-limit"
+
+/**
+ * Rate limiting (table rate_limit_hits, scripts/028_create_rate_limits.sql)
+ *
+ * Budgets are sliding windows per signed-in user, or per IP for anonymous callers, kept in
+ * Postgres so every server instance sees the same counts. Only the service role can spend
+ * them, and the database decides each budget's size from its name.
+ */
+
+export interface RateLimitStore {
+  consume(bucket: string, key: string, rule: RateLimitRule): Promise<RateLimitResult>
+}
+
+let storeOverride: RateLimitStore | null = null
+
+/**
+ * Use a different store (tests, local runs without the migration), or null for Postgres
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  storeOverride = store
+}
+
+/**
+ * Store backed by consume_rate_limit, which only the service role may call
+ */
+export function createPostgresRateLimitStore(supabase: SupabaseClient = createServiceClient()): RateLimitStore {
+  return {
+    async consume(bucket, key) {
+      const { data, error } = await supabase.rpc("consume_rate_limit", {
+        p_bucket: bucket,
+        p_key: key,
+      })
+
+      const row = (
+        data as { allowed: boolean; request_limit: number; remaining: number; reset_seconds: number }[] | null
+      )?.[0]
+      if (error || !row) {
+        throw new Error(`consume_rate_limit failed: ${error?.message ?? "no result"}`)
+      }
+
+      return { ok: row.allowed, limit: row.request_limit, remaining: row.remaining, resetSeconds: row.reset_seconds }
+    },
+  }
+}
+
+/**
+ * Per-process store - counts reset whenever the process restarts
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, number[]>()
+
+  return {
+    async consume(bucket, key, rule) {
+      const id = `${bucket}:${key}`
+      const { result, hits } = slideWindow(windows.get(id) || [], rule)
+      windows.set(id, hits)
+      return result
+    },
+  }
+}
+
+/**
+ * Spend one request from a budget
+ * Fails open: if the store can't be reached the request is allowed, so an outage of the
+ * limiter never takes the API down with it.
+ */
+export async function checkRateLimit(
+  name: RateLimitName,
+  { userId, ip }: { userId?: string | null; ip: string },
+): Promise<RateLimitResult> {
+  const rule = RATE_LIMITS[name]
+
+  try {
+    const store = storeOverride ?? createPostgresRateLimitStore()
+    return await store.consume(name, getRateLimitKey(userId, ip), rule)
+  } catch (error) {
+    console.error("[checkRateLimit] Rate limiter unavailable, allowing request:", error)
+    return { ok: true, limit: rule.limit, remaining: rule.limit, resetSeconds: rule.windowSeconds }
+  }
+}
+
+/**
+ * Rate limit a route handler
+ * Refused requests get a 429 with Retry-After; every response gets RateLimit-* headers.
+ *
+ * export const POST = withRateLimit("transcription", async (request: Request) => { ... })
+ */
+export function withRateLimit<Req extends Request, Args extends unknown[]>(
+  name: RateLimitName,
+  handler: (request: Req, ...args: Args) => Promise<Response>,
+): (request: Req, ...args: Args) => Promise<Response> {
+  return async (request, ...args) => {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    const result = await checkRateLimit(name, { userId: user?.id, ip: getClientIp(request.headers) })
+    const headers = getRateLimitHeaders(RATE_LIMITS[name], result)
+
+    if (!result.ok) {
+      return NextResponse.json({ error: "Too Many Requests" }, { status: 429, headers })
+    }
+
+    const response = await handler(request, ...args)
+    for (const [header, value] of Object.entries(headers)) {
+      response.headers.set(header, value)
+    }
+    return response
+  }
+}
@@ -1,4 +1,7 @@
 import { z } from "zod"
+import type { AttributeDefinition } from "@/lib/types/artifact-types"
+import { LANGUAGE_CODES } from "@/lib/utils/translations"
+import { MAX_HISTORY_MESSAGES, MAX_QUESTION_LENGTH } from "@/lib/utils/archive-chat"
 
 export const createCollectionSchema = z.object({
   name: z.string().min(1, "Collection name is required").max(100, "Collection name must be less than 100 characters"),
@@ -12,6 +15,7 @@ export const collectionSchema = z.object({
   description: z.string().max(500, "Description must be less than 500 characters").optional(),
   is_public: z.boolean().optional(),
   primary_type_id: z.string().uuid("Invalid type ID").nullable().optional(),
+  family_id: z.string().uuid("Invalid family ID").nullable().optional(),
 })
 
 export type CollectionInput = z.infer<typeof collectionSchema>
@@ -26,6 +30,110 @@ export const mediaDerivativesSchema = z.record(
   })
 )
 
+// Timed transcript segments per audio URL (Whisper verbose_json), see lib/utils/transcripts.ts
+const segmentTextSchema = z
+  .string()
+  .trim()
+  .min(1, "Segment text is required")
+  .max(2000, "Segment must be less than 2000 characters")
+
+export const transcriptSegmentSchema = z
+  .object({
+    start: z.number().min(0),
+    end: z.number().min(0),
+    text: segmentTextSchema,
+  })
+  .refine((segment) => segment.end >= segment.start, { message: "Segment must end after it starts", path: ["end"] })
+
+export const audioTranscriptSegmentsSchema = z.record(z.string().url(), z.array(transcriptSegmentSchema))
+
+// Language of the artifact's recordings (ISO 639-1), see lib/utils/translations.ts
+export const languageCodeSchema = z.enum(LANGUAGE_CODES, { message: "Unsupported language" })
+
+// ============================================================================
+// Structured Attribute Schemas
+// ============================================================================
+
+export const attributeDefinitionSchema = z
+  .object({
+    key: z.string().regex(/^[a-z][a-z0-9_]*$/, "Attribute key must be snake_case"),
+    label: z.string().min(1).max(100),
+    kind: z.enum(["text", "number", "enum", "date"]),
+    units: z.array(z.string().min(1)).optional(),
+    options: z.array(z.string().min(1)).optional(),
+    required: z.boolean().optional(),
+    placeholder: z.string().optional(),
+  })
+  .refine((def) => def.kind !== "enum" || (def.options && def.options.length > 0), {
+    message: "Enum attributes must define options",
+  })
+
+export const attributeSchemaDefinitionSchema = z.array(attributeDefinitionSchema)
+
+export const measurementValueSchema = z.object({
+  value: z.number().finite("Value must be a number"),
+  unit: z.string().nullable(),
+})
+
+// Shape-only validation used by the artifact create/update schemas.
+// Per-type validation happens in buildAttributeValuesSchema once the type's schema is known.
+export const artifactAttributesSchema = z.record(
+  z.string(),
+  z.union([z.string().max(500, "Attribute values must be less than 500 characters"), measurementValueSchema]),
+)
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function buildAttributeValueSchema(def: AttributeDefinition): z.ZodTypeAny {
+  switch (def.kind) {
+    case "number": {
+      const units = def.units || []
+      return measurementValueSchema.extend({
+        unit:
+          units.length > 0
+            ? z.enum(units as [string, ...string[]], {
+                errorMap: () => ({ message: `${def.label} unit must be one of: ${units.join(", ")}` }),
+              })
+            : z.null(),
+      })
+    }
+    case "enum":
+      return z.enum((def.options || []) as [string, ...string[]], {
+        errorMap: () => ({ message: `${def.label} must be one of: ${(def.options || []).join(", ")}` }),
+      })
+    case "date":
+      return z
+        .string()
+        .regex(ISO_DATE_PATTERN, `${def.label} must be a date (YYYY-MM-DD)`)
+        .refine((val) => !Number.isNaN(Date.parse(val)), `${def.label} must be a valid date`)
+    case "text":
+    default:
+      return z
+        .string()
+        .trim()
+        .min(1, `${def.label} cannot be empty`)
+        .max(500, `${def.label} must be less than 500 characters`)
+  }
+}
+
+/**
+ * Build a zod schema that validates attribute values against an artifact type's attribute_schema.
+ * Keys that are not part of the schema are stripped (e.g. left over after changing type).
+ * With enforceRequired off, required attributes may be missing (existing artifacts saved before
+ * the type required them).
+ */
+export function buildAttributeValuesSchema(
+  definitions: AttributeDefinition[],
+  { enforceRequired = true }: { enforceRequired?: boolean } = {},
+) {
+  const shape: Record<string, z.ZodTypeAny> = {}
+  for (const def of definitions) {
+    const valueSchema = buildAttributeValueSchema(def)
+    shape[def.key] = def.required && enforceRequired ? valueSchema : valueSchema.optional()
+  }
+  return z.object(shape)
+}
+
 export const createArtifactSchema = z.object({
   title: z
     .string()
@@ -41,8 +149,12 @@ export const createArtifactSchema = z.object({
   thumbnail_url: z.string().url("Invalid thumbnail URL").nullable().optional(),
   media_derivatives: mediaDerivativesSchema.nullable().optional(),
   image_captions: z.record(z.string().url(), z.string()).optional(),
+  // Full text of document pages (letters, certificates...), keyed by image URL
+  image_transcriptions: z.record(z.string().url(), z.string()).optional(),
   video_summaries: z.record(z.string().url(), z.string()).optional(),
   audio_transcripts: z.record(z.string().url(), z.string()).optional(),
+  attributes: artifactAttributesSchema.optional(),
+  language_hint: languageCodeSchema.nullable().optional(),
   // Gallery URLs are separate from media_urls to create artifact_media links with "gallery" role
   gallery_urls: z.array(z.string().url("Invalid gallery URL")).nullable().optional(),
 })
@@ -66,9 +178,14 @@ export const updateArtifactSchema = z.object({
   media_urls: z.array(z.string().url("Invalid media URL")).optional(),
   media_derivatives: mediaDerivativesSchema.nullable().optional(),
   image_captions: z.record(z.string().url(), z.string()).optional(),
+  // Full text of document pages (letters, certificates...), keyed by image URL
+  image_transcriptions: z.record(z.string().url(), z.string()).optional(),
   video_summaries: z.record(z.string().url(), z.string()).optional(),
   audio_transcripts: z.record(z.string().url(), z.string()).optional(),
+  audio_transcript_segments: audioTranscriptSegmentsSchema.optional(),
   thumbnail_url: z.string().url("Invalid thumbnail URL").nullable().optional(),
+  attributes: artifactAttributesSchema.optional(),
+  language_hint: languageCodeSchema.nullable().optional(),
   collectionId: z.string().uuid("Invalid collection ID").optional(), // Added collectionId field to schema
 })
 
@@ -89,7 +206,7 @@ export const createUserMediaSchema = z.object({
   height: z.number().int().positive().nullable().optional(),
   duration_seconds: z.number().positive().nullable().optional(),
   media_type: z.enum(["image", "video", "audio"]),
-  upload_source: z.enum(["artifact", "profile", "collection", "story", "gallery"]).optional(),
+  upload_source: z.enum(["artifact", "profile", "collection", "story", "gallery", "interview"]).optional(),
 })
 
 export type CreateUserMediaInput = z.infer<typeof createUserMediaSchema>
@@ -140,3 +257,380 @@ export const reorderMediaSchema = z.object({
 })
 
 export type ReorderMediaInput = z.infer<typeof reorderMediaSchema>
+
+// ============================================================================
+// Provenance Schemas
+// ============================================================================
+
+// Heirloom dates are often only known to the year or month
+const PARTIAL_DATE_PATTERN = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/
+
+const partialDateSchema = z
+  .string()
+  .regex(PARTIAL_DATE_PATTERN, "Date must be YYYY, YYYY-MM or YYYY-MM-DD")
+  .nullable()
+  .optional()
+  .transform((val) => val ?? null)
+
+export const provenanceEventSchema = z
+  .object({
+    owner_name: z
+      .string()
+      .trim()
+      .min(1, "Owner name is required")
+      .max(200, "Owner name must be less than 200 characters"),
+    acquisition_method: z
+      .enum(["inherited", "purchased", "gift", "made", "found", "other"])
+      .nullable()
+      .optional()
+      .transform((val) => val ?? null),
+    date_start: partialDateSchema,
+    date_end: partialDateSchema,
+    location: z
+      .string()
+      .trim()
+      .max(200, "Location must be less than 200 characters")
+      .nullable()
+      .optional()
+      .transform((val) => val || null),
+    notes: z
+      .string()
+      .trim()
+      .max(2000, "Notes must be less than 2000 characters")
+      .nullable()
+      .optional()
+      .transform((val) => val || null),
+  })
+  .refine(
+    // Compare at the shared precision so "1950-05" → "1950" isn't rejected
+    (event) => {
+      if (!event.date_start || !event.date_end) return true
+      const length = Math.min(event.date_start.length, event.date_end.length)
+      return event.date_end.slice(0, length) >= event.date_start.slice(0, length)
+    },
+    { message: "End date must be after start date", path: ["date_end"] }
+  )
+
+export type ProvenanceEventSchemaInput = z.infer<typeof provenanceEventSchema>
+
+export const saveProvenanceEventsSchema = z.object({
+  artifact_id: z.string().uuid("Invalid artifact ID"),
+  events: z.array(provenanceEventSchema).max(50, "An artifact can have at most 50 provenance entries"),
+})
+
+export type SaveProvenanceEventsInput = z.infer<typeof saveProvenanceEventsSchema>
+
+// ============================================================================
+// People Schemas
+// ============================================================================
+
+export const personSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Name is required")
+      .max(200, "Name must be less than 200 characters")
+      .transform((val) => val.replace(/\s+/g, " ")),
+    birth_date: partialDateSchema,
+    death_date: partialDateSchema,
+    relationship: z
+      .string()
+      .trim()
+      .max(100, "Relationship must be less than 100 characters")
+      .nullable()
+      .optional()
+      .transform((val) => val || null),
+    portrait_media_id: z
+      .string()
+      .uuid("Invalid media ID")
+      .nullable()
+      .optional()
+      .transform((val) => val ?? null),
+  })
+  .refine(
+    (person) => {
+      if (!person.birth_date || !person.death_date) return true
+      const length = Math.min(person.birth_date.length, person.death_date.length)
+      return person.death_date.slice(0, length) >= person.birth_date.slice(0, length)
+    },
+    { message: "Date of death must be after date of birth", path: ["death_date"] }
+  )
+
+export type PersonSchemaInput = z.input<typeof personSchema>
+
+export const saveArtifactPeopleSchema = z.object({
+  artifact_id: z.string().uuid("Invalid artifact ID"),
+  links: z
+    .array(
+      z.object({
+        person_id: z.string().uuid("Invalid person ID"),
+        role: z.enum(["mentioned", "original_owner", "maker", "pictured", "storyteller"]),
+      })
+    )
+    .max(100, "An artifact can have at most 100 linked people"),
+})
+
+export type SaveArtifactPeopleInput = z.infer<typeof saveArtifactPeopleSchema>
+
+export const importGedcomSchema = z.object({
+  content: z
+    .string()
+    .min(1, "The file is empty")
+    .max(10 * 1024 * 1024, "GEDCOM files must be smaller than 10MB"),
+})
+
+export type ImportGedcomInput = z.infer<typeof importGedcomSchema>
+
+// ============================================================================
+// Place Schemas
+// ============================================================================
+
+// Both coordinates, or neither to clear the location
+export const placeLocationSchema = z
+  .object({
+    latitude: z.number().min(-90, "Latitude is -90 to 90").max(90, "Latitude is -90 to 90").nullable(),
+    longitude: z
+      .number()
+      .min(-180, "Longitude is -180 to 180")
+      .max(180, "Longitude is -180 to 180")
+      .nullable(),
+    location_source: z.enum(["gazetteer", "pin", "photo"]).default("pin"),
+  })
+  .refine((data) => (data.latitude === null) === (data.longitude === null), {
+    message: "Set both latitude and longitude",
+    path: ["longitude"],
+  })
+
+export type PlaceLocationInput = z.input<typeof placeLocationSchema>
+
+// ============================================================================
+// Interview Schemas
+// ============================================================================
+
+export const saveInterviewAnswerSchema = z.object({
+  artifact_id: z.string().uuid("Invalid artifact ID"),
+  question_key: z.string().trim().min(1, "Question is required").max(100),
+  question: z.string().trim().min(1, "Question is required").max(500),
+  transcript: z.string().trim().max(20000, "Answer must be less than 20000 characters"),
+  // The recording, already uploaded to storage; null when the answer was typed
+  audio: createUserMediaSchema
+    .pick({
+      storage_path: true,
+      public_url: true,
+      filename: true,
+      mime_type: true,
+      file_size_bytes: true,
+      duration_seconds: true,
+    })
+    .refine((audio) => audio.mime_type.startsWith("audio/"), {
+      message: "Recording must be an audio file",
+      path: ["mime_type"],
+    })
+    .nullable()
+    .optional(),
+})
+
+export type SaveInterviewAnswerInput = z.infer<typeof saveInterviewAnswerSchema>
+
+// ============================================================================
+// Transcript Schemas
+// ============================================================================
+
+export const updateTranscriptSegmentSchema = z.object({
+  artifact_id: z.string().uuid("Invalid artifact ID"),
+  audio_url: z.string().url("Invalid audio URL"),
+  index: z.number().int().min(0),
+  text: segmentTextSchema,
+})
+
+export type UpdateTranscriptSegmentInput = z.infer<typeof updateTranscriptSegmentSchema>
+
+// ============================================================================
+// Translation Schemas
+// ============================================================================
+
+export const translateArtifactSchema = z.object({
+  artifactId: z.string().uuid("Invalid artifact ID"),
+  locale: languageCodeSchema,
+})
+
+export type TranslateArtifactInput = z.infer<typeof translateArtifactSchema>
+
+// ============================================================================
+// AI Suggestion Schemas
+// ============================================================================
+
+export const reviewSuggestionSchema = z
+  .object({
+    artifactId: z.string().uuid("Invalid artifact ID"),
+    kind: z.enum(["people", "places", "tags", "year_guess", "photo_location"]),
+    value: z.union([z.string().trim().min(1).max(200), z.number().int()]),
+    accept: z.boolean(),
+    // Link a suggested name to someone already in the directory instead of adding them
+    personId: z.string().uuid("Invalid person ID").optional(),
+  })
+  .refine((data) => (data.kind === "year_guess") === (typeof data.value === "number"), {
+    message: "Years are numbers; people, places, tags and photo locations are text",
+    path: ["value"],
+  })
+  .refine((data) => !data.personId || data.kind === "people", {
+    message: "Only people can be matched to someone in the directory",
+    path: ["personId"],
+  })
+
+export type ReviewSuggestionInput = z.infer<typeof reviewSuggestionSchema>
+
+// ============================================================================
+// Archive Chat Schemas
+// ============================================================================
+
+export const askArchiveSchema = z.object({
+  collectionId: z.string().uuid("Invalid collection ID"),
+  question: z
+    .string()
+    .trim()
+    .min(1, "Ask a question")
+    .max(MAX_QUESTION_LENGTH, `Keep questions under ${MAX_QUESTION_LENGTH} characters`),
+  history: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z.string().max(4000),
+      }),
+    )
+    .max(MAX_HISTORY_MESSAGES)
+    .optional(),
+})
+
+export type AskArchiveInput = z.infer<typeof askArchiveSchema>
+
+// ============================================================================
+// Share Link Schemas
+// ============================================================================
+
+export const createShareLinkSchema = z
+  .object({
+    artifact_id: z.string().uuid("Invalid artifact ID").optional(),
+    collection_id: z.string().uuid("Invalid collection ID").optional(),
+    expires_in_days: z.number().int().min(1).max(365).nullable().optional(),
+    password: z
+      .string()
+      .min(4, "Password must be at least 4 characters")
+      .max(100, "Password must be less than 100 characters")
+      .optional(),
+  })
+  .refine((input) => !!input.artifact_id !== !!input.collection_id, {
+    message: "Share an artifact or a collection",
+  })
+
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>
+
+// ============================================================================
+// Family Schemas
+// ============================================================================
+
+export const familyRoleSchema = z.enum(["viewer", "contributor", "editor"])
+
+export const createFamilySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Family name is required")
+    .max(100, "Family name must be less than 100 characters"),
+})
+
+export type CreateFamilyInput = z.infer<typeof createFamilySchema>
+
+export const inviteFamilyMemberSchema = z.object({
+  family_id: z.string().uuid("Invalid family ID"),
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  role: familyRoleSchema,
+})
+
+export type InviteFamilyMemberInput = z.infer<typeof inviteFamilyMemberSchema>
+
+// ============================================================================
+// Comment Schemas
+// ============================================================================
+
+export const createCommentSchema = z
+  .object({
+    artifact_id: z.string().uuid("Invalid artifact ID"),
+    parent_id: z.string().uuid("Invalid comment ID").nullable().optional(),
+    body: z.string().trim().max(5000, "Comment must be less than 5000 characters").optional(),
+    photo_url: z.string().url("Invalid photo URL").nullable().optional(),
+    audio_url: z.string().url("Invalid audio URL").nullable().optional(),
+    audio_transcript: z.string().trim().max(10000, "Transcript is too long").nullable().optional(),
+  })
+  .refine((data) => !!data.body || !!data.photo_url || !!data.audio_url, {
+    message: "Write something, add a photo or record a voice note",
+    path: ["body"],
+  })
+
+export type CreateCommentInput = z.infer<typeof createCommentSchema>
+
+// ============================================================================
+// Story Schemas
+// ============================================================================
+
+export const storySchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
+  description: z.string().trim().max(1000, "Description must be less than 1000 characters").optional(),
+  cover_image_url: z.string().url("Invalid cover image URL").nullable().optional(),
+  is_public: z.boolean().optional(),
+})
+
+export type StoryInput = z.infer<typeof storySchema>
+
+const storyCaptionSchema = z
+  .string()
+  .trim()
+  .max(500, "Captions must be less than 500 characters")
+  .nullable()
+  .optional()
+  .transform((val) => val || null)
+
+export const storyBlockSchema = z.discriminatedUnion("block_type", [
+  z.object({
+    block_type: z.literal("text"),
+    body: z.string().trim().min(1, "Text blocks can't be empty").max(20000, "Text blocks must be less than 20000 characters"),
+  }),
+  z.object({
+    block_type: z.literal("artifact"),
+    artifact_id: z.string().uuid("Invalid artifact ID"),
+    body: storyCaptionSchema,
+  }),
+  z.object({
+    block_type: z.literal("media"),
+    media_id: z.string().uuid("Invalid media ID"),
+    body: storyCaptionSchema,
+  }),
+  z.object({
+    block_type: z.literal("audio"),
+    media_id: z.string().uuid("Invalid media ID"),
+    body: storyCaptionSchema,
+  }),
+])
+
+export type StoryBlockInput = z.infer<typeof storyBlockSchema>
+
+export const saveStoryBlocksSchema = z.object({
+  story_id: z.string().uuid("Invalid story ID"),
+  blocks: z.array(storyBlockSchema).max(200, "A story can have at most 200 blocks"),
+})
+
+export type SaveStoryBlocksInput = z.infer<typeof saveStoryBlocksSchema>
+
+// ============================================================================
+// AI Quota Schemas
+// ============================================================================
+
+// null clears the override so the user gets the default again
+export const setAiQuotaSchema = z.object({
+  user_id: z.string().uuid("Invalid user ID"),
+  monthly_tokens: z.number().int().min(0, "Token quota can't be negative").nullable(),
+  monthly_audio_minutes: z.number().int().min(0, "Audio quota can't be negative").nullable(),
+})
+
+export type SetAiQuotaInput = z.infer<typeof setAiQuotaSchema>
@@ -1,10 +1,12 @@
 import { createServerClient } from "@supabase/ssr"
 import { cookies } from "next/headers"
+import { SHARE_GRANTS_COOKIE, SHARE_GRANTS_HEADER, parseShareGrants, serializeShareGrants } from "@/lib/utils/share-links"
 
 export { createServerClient }
 
 /**
  * Server-side Supabase client. Always create a new instance per request.
+ * Share link grants from the visitor's cookie are forwarded so RLS can honor them.
  */
 export async function createClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -15,8 +17,10 @@ export async function createClient() {
   }
 
   const cookieStore = await cookies()
+  const shareGrants = serializeShareGrants(parseShareGrants(cookieStore.get(SHARE_GRANTS_COOKIE)?.value))
 
   return createServerClient(supabaseUrl, supabaseAnonKey, {
+    ...(shareGrants ? { global: { headers: { [SHARE_GRANTS_HEADER]: shareGrants } } } : {}),
     cookies: {
       getAll() {
         return cookieStore.getAll()
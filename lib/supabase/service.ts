@@ -0,0 +1,21 @@
+import { createClient } from "@supabase/supabase-js"
+
+/**
+ * Service-role Supabase client for background work with no user session (cron, job worker).
+ * Bypasses RLS - only touch rows the request was already authorized for.
+ */
+export function createServiceClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Supabase service role environment variables are not configured")
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+}
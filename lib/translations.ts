@@ -0,0 +1,97 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { revalidatePath } from "next/cache"
+import { getTranslationProvider } from "@/lib/ai"
+import type { UsageMeter } from "@/lib/ai-usage"
+import { AnalysisError } from "@/lib/analysis"
+import type { ArtifactTranslation } from "@/lib/types/translations"
+import { getArtifactPath } from "@/lib/utils/routes"
+import {
+  getArtifactTranslations,
+  getLanguageName,
+  getTextsToTranslate,
+  mergeTranslation,
+  splitForTranslation,
+  type LanguageCode,
+} from "@/lib/utils/translations"
+
+/**
+ * Translate one text, in pieces if it's long
+ * The fake provider echoes its prompt, so offline the "translation" is the original.
+ */
+export async function translateText(
+  text: string,
+  { from, to, meter }: { from?: string | null; to: LanguageCode; meter?: UsageMeter },
+): Promise<string> {
+  const provider = getTranslationProvider()
+  const source = from ? `from ${getLanguageName(from)} ` : ""
+  const pieces: string[] = []
+
+  for (const piece of splitForTranslation(text)) {
+    await meter?.check()
+    const { text: translated, usage } = await provider.generateText({
+      system:
+        `Translate the user's text ${source}into ${getLanguageName(to)}. ` +
+        "It comes from a family's record of an heirloom: keep the tone, markdown formatting, line breaks, " +
+        "and people's names and place names as they are. Do not add, explain or leave anything out. " +
+        "Reply with the translation only.",
+      prompt: piece,
+      maxOutputTokens: 4000,
+    })
+    await meter?.record("translation", provider.id, usage)
+    pieces.push(translated.trim())
+  }
+
+  return pieces.join("\n\n")
+}
+
+/**
+ * Translate the artifact's description, transcripts and AI description into a locale
+ * Only texts that are new or changed since the last translation are sent.
+ */
+export async function translateArtifact(
+  supabase: SupabaseClient,
+  artifactId: string,
+  locale: LanguageCode,
+  { meter }: { meter?: UsageMeter } = {},
+): Promise<ArtifactTranslation> {
+  const { data: artifact, error } = await supabase
+    .from("artifacts")
+    .select("id, slug, description, ai_description, transcript, audio_transcripts, language_hint, translations")
+    .eq("id", artifactId)
+    .single()
+
+  if (error || !artifact) {
+    throw new AnalysisError("Artifact not found", 404)
+  }
+
+  if (artifact.language_hint === locale) {
+    throw new AnalysisError(`This artifact is already in ${getLanguageName(locale)}`, 400)
+  }
+
+  const translations = getArtifactTranslations(artifact.translations)
+  const items = getTextsToTranslate(artifact, translations[locale])
+
+  if (items.length === 0 && !translations[locale]) {
+    throw new AnalysisError("Nothing to translate yet: add a description or transcribe a recording first", 400)
+  }
+
+  const translated: string[] = []
+  for (const item of items) {
+    translated.push(await translateText(item.text, { from: artifact.language_hint, to: locale, meter }))
+  }
+
+  const translation = mergeTranslation(artifact, translations[locale], items, translated)
+
+  const { error: updateError } = await supabase
+    .from("artifacts")
+    .update({ translations: { ...translations, [locale]: translation } })
+    .eq("id", artifactId)
+
+  if (updateError) {
+    throw new Error(`Failed to save translation: ${updateError.message}`)
+  }
+
+  revalidatePath(getArtifactPath(artifact))
+
+  return translation
+}
@@ -0,0 +1,78 @@
+/**
+ * TypeScript types for background AI analysis jobs
+ *
+ * These types align with the database schema created in migration:
+ * - 026_create_ai_jobs.sql
+ */
+
+// ============================================================================
+// AI Job Types
+// ============================================================================
+
+/**
+ * AnalysisStep - One artifact-wide analysis pass, run in this order by a job
+ */
+export type AnalysisStep = "audio" | "images" | "documents" | "summary"
+
+export type AiJobStatus = "queued" | "running" | "succeeded" | "failed"
+
+/**
+ * AiJobStepStatus - "skipped" means the artifact had nothing for the step (e.g. no audio)
+ */
+export type AiJobStepStatus = "pending" | "running" | "succeeded" | "skipped" | "failed"
+
+/**
+ * AnalysisProgress - What a running step is doing right now
+ * e.g. { message: "Captioning image 2 of 5", current: 2, total: 5, media_url: "..." }
+ */
+export interface AnalysisProgress {
+  message: string
+  current?: number
+  total?: number
+  media_url?: string
+}
+
+/**
+ * AnalysisOutput - Results a step has produced so far, shown before the step finishes
+ */
+export interface AnalysisOutput {
+  transcript?: string
+  captions?: Record<string, string>
+  // Document text per page URL
+  transcriptions?: Record<string, string>
+}
+
+/**
+ * AiJobStep - Progress of one step, stored in ai_jobs.steps
+ * error holds the last failure, kept while the step waits to retry
+ */
+export interface AiJobStep {
+  name: AnalysisStep
+  status: AiJobStepStatus
+  attempts: number
+  error: string | null
+  started_at: string | null
+  finished_at: string | null
+  // Live detail while running; cleared when the step is (re)started
+  progress?: AnalysisProgress | null
+  output?: AnalysisOutput | null
+}
+
+/**
+ * AiJob - Database row from ai_jobs table
+ */
+export interface AiJob {
+  id: string
+  artifact_id: string
+  requested_by: string | null
+  status: AiJobStatus
+  steps: AiJobStep[]
+  max_attempts: number
+  last_error: string | null
+  run_after: string
+  locked_at: string | null
+  locked_by: string | null
+  created_at: string
+  updated_at: string
+  finished_at: string | null
+}
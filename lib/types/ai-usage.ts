@@ -0,0 +1,78 @@
+/**
+ * TypeScript types for AI usage metering and quotas
+ *
+ * These types align with the database schema created in migration:
+ * - 027_create_ai_usage.sql
+ */
+
+import type { AiCapability } from "@/lib/ai"
+
+/**
+ * AiUsageEvent - One metered AI provider call
+ * model is the provider id, e.g. "openai/gpt-4o"
+ */
+export interface AiUsageEvent {
+  id: string
+  user_id: string | null
+  artifact_id: string | null
+  capability: AiCapability
+  model: string
+  input_tokens: number
+  output_tokens: number
+  audio_seconds: number
+  cost_usd: number
+  created_at: string
+}
+
+/**
+ * AiUsageTotals - Sums over a set of usage events
+ */
+export interface AiUsageTotals {
+  calls: number
+  input_tokens: number
+  output_tokens: number
+  audio_seconds: number
+  cost_usd: number
+}
+
+/**
+ * AiQuota - A user's monthly limits (ai_quotas row, or the defaults)
+ */
+export interface AiQuota {
+  monthly_tokens: number
+  monthly_audio_seconds: number
+  // true when set for this user rather than taken from the defaults
+  custom: boolean
+}
+
+/**
+ * AiUsageSummary - A user's usage this month against their quota (/profile)
+ */
+export interface AiUsageSummary {
+  period_start: string
+  resets_at: string
+  totals: AiUsageTotals
+  byCapability: (AiUsageTotals & { capability: AiCapability })[]
+  quota: AiQuota
+}
+
+/**
+ * AiCostReportRow - Usage for one month, user, model and capability (get_ai_cost_report)
+ */
+export interface AiCostReportRow extends AiUsageTotals {
+  month: string // YYYY-MM-DD, first day of the month
+  user_id: string | null
+  model: string
+  capability: AiCapability
+}
+
+/**
+ * AiCostReport - Everything the admin cost report shows
+ */
+export interface AiCostReport {
+  months: number
+  totals: AiUsageTotals
+  byMonth: (AiUsageTotals & { month: string })[]
+  byModel: (AiUsageTotals & { model: string })[]
+  byUser: (AiUsageTotals & { user_id: string | null; display_name: string | null; quota: AiQuota })[]
+}
@@ -0,0 +1,55 @@
+/**
+ * TypeScript types for view_events
+ *
+ * These types align with the database schema created in migration:
+ * - 021_create_view_events_table.sql
+ */
+
+/**
+ * Where a page view came from
+ * - share_link: arrived through a /share/{token} private link
+ * - community: clicked through from the community showcase on the home page
+ * - direct: anything else (typed URL, bookmark, external site, in-app navigation)
+ */
+export type ViewReferrer = "share_link" | "community" | "direct"
+
+/**
+ * DailyViewStats - One day of views for an artifact or collection page
+ */
+export interface DailyViewStats {
+  day: string // YYYY-MM-DD
+  views: number
+  unique_viewers: number
+  share_link_views: number
+  community_views: number
+  direct_views: number
+}
+
+/**
+ * TopArtifactViews - An artifact ranked by views within its collection
+ */
+export interface TopArtifactViews {
+  artifact_id: string
+  title: string
+  slug: string
+  views: number
+  unique_viewers: number
+}
+
+/**
+ * ViewAnalytics - Everything the analytics dialog shows
+ * topArtifacts is only filled in for collections
+ */
+export interface ViewAnalytics {
+  days: number
+  daily: DailyViewStats[]
+  totals: {
+    views: number
+    // Sum of each day's unique viewers; viewer hashes rotate daily, so returning visitors count again
+    daily_unique_visits: number
+    share_link_views: number
+    community_views: number
+    direct_views: number
+  }
+  topArtifacts: TopArtifactViews[]
+}
@@ -0,0 +1,56 @@
+/**
+ * TypeScript types for asking questions of a collection ("ask the archive")
+ *
+ * Answers are generated from the collection's artifacts on each request; nothing is stored.
+ */
+
+// ============================================================================
+// Archive Chat Types
+// ============================================================================
+
+/**
+ * ArchiveChatMessage - One turn of the conversation, sent back with follow-up questions
+ */
+export interface ArchiveChatMessage {
+  role: "user" | "assistant"
+  content: string
+}
+
+/**
+ * ArchiveChatSource - An artifact an answer was drawn from
+ * number is the citation marker used in the answer text, e.g. [2]
+ */
+export interface ArchiveChatSource {
+  number: number
+  id: string
+  slug: string | null
+  title: string
+}
+
+/**
+ * ArchiveChatAnswer - What /api/ask returns
+ */
+export interface ArchiveChatAnswer {
+  answer: string
+  sources: ArchiveChatSource[]
+}
+
+/**
+ * ArchiveArtifact - The fields of an artifact an answer can be grounded in
+ */
+export interface ArchiveArtifact {
+  id: string
+  slug: string | null
+  title: string
+  description?: string | null
+  origin?: string | null
+  year_acquired?: number | null
+  ai_description?: string | null
+  transcript?: string | null
+  interview_transcript?: string | null
+  image_captions?: Record<string, string> | null
+  image_transcriptions?: Record<string, string> | null
+  video_summaries?: Record<string, string> | null
+  audio_transcripts?: Record<string, string> | null
+  audio_summaries?: Record<string, string> | null
+}
@@ -5,6 +5,15 @@
  * Types are stored in the database and can be managed without code changes.
  */
 
+import type { InterviewQuestion } from "./interviews"
+
+/**
+ * How images of a type are analyzed (033_add_document_transcriptions.sql)
+ * - caption: a short description of what's in the picture
+ * - document: the full text on the page, for letters, recipes, certificates...
+ */
+export type AnalysisMode = "caption" | "document"
+
 export interface ArtifactType {
   id: string
   name: string
@@ -13,6 +22,9 @@ export interface ArtifactType {
   icon_name: string
   display_order: number
   is_active: boolean
+  attribute_schema: AttributeDefinition[]
+  interview_questions: InterviewQuestion[]
+  analysis_mode: AnalysisMode
   created_at: string
   updated_at: string
 }
@@ -20,3 +32,47 @@ export interface ArtifactType {
 export interface ArtifactTypeWithCount extends ArtifactType {
   artifact_count: number
 }
+
+// ============================================================================
+// Structured Attributes
+// ============================================================================
+
+/**
+ * Input kinds supported by the attributes editor
+ * - text: free text (e.g., "Movement: Automatic")
+ * - number: numeric value with an optional unit (e.g., 38 mm)
+ * - enum: one of a fixed list of options (e.g., condition)
+ * - date: ISO calendar date (YYYY-MM-DD)
+ */
+export type AttributeKind = "text" | "number" | "enum" | "date"
+
+/**
+ * AttributeDefinition - One field in an artifact type's attribute schema
+ * Stored as JSONB in artifact_types.attribute_schema (see 016_add_artifact_attributes.sql)
+ */
+export interface AttributeDefinition {
+  key: string // Stable storage key, e.g. "case_size"
+  label: string // Display label, e.g. "Case Size"
+  kind: AttributeKind
+  units?: string[] // number only - first unit is the default
+  options?: string[] // enum only
+  required?: boolean
+  placeholder?: string
+}
+
+/**
+ * Number attributes keep their unit alongside the value so
+ * "38 mm" and "1.5 in" can coexist without conversion
+ */
+export interface MeasurementValue {
+  value: number
+  unit: string | null
+}
+
+export type AttributeValue = string | MeasurementValue
+
+/**
+ * ArtifactAttributes - Values stored per artifact in artifacts.attributes
+ * Keyed by AttributeDefinition.key
+ */
+export type ArtifactAttributes = Record<string, AttributeValue>
@@ -0,0 +1,32 @@
+/**
+ * TypeScript types for artifact_comments
+ *
+ * These types align with the database schema created in migration:
+ * - 020_create_artifact_comments_table.sql
+ */
+
+/**
+ * ArtifactComment - A comment joined with its author's display name
+ * Removed comments that still have replies come back with deleted_at set and no content
+ */
+export interface ArtifactComment {
+  id: string
+  artifact_id: string
+  user_id: string
+  parent_id: string | null
+  body: string | null
+  photo_url: string | null
+  audio_url: string | null
+  audio_transcript: string | null
+  created_at: string
+  updated_at: string
+  deleted_at: string | null
+  author_name: string | null
+}
+
+/**
+ * ArtifactCommentThread - A comment with its replies, oldest first
+ */
+export interface ArtifactCommentThread extends ArtifactComment {
+  replies: ArtifactCommentThread[]
+}
@@ -0,0 +1,73 @@
+/**
+ * TypeScript types for families, family_members and family_invitations
+ *
+ * These types align with the database schema created in migration:
+ * - 019_create_families.sql
+ */
+
+// ============================================================================
+// Family Types
+// ============================================================================
+
+/**
+ * viewer < contributor < editor
+ * - viewer: sees the family's collections
+ * - contributor: can also add their own artifacts to family collections
+ * - editor: can also edit any family artifact and manage members
+ */
+export type FamilyRole = "viewer" | "contributor" | "editor"
+
+export type FamilyInvitationStatus = "pending" | "accepted" | "revoked" | "expired"
+
+export interface Family {
+  id: string
+  name: string
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * FamilyMember - Membership row joined with the member's display name
+ */
+export interface FamilyMember {
+  id: string
+  family_id: string
+  user_id: string
+  role: FamilyRole
+  display_name: string | null
+  created_at: string
+}
+
+export interface FamilyInvitation {
+  id: string
+  family_id: string
+  email: string
+  role: FamilyRole
+  token: string
+  invited_by: string
+  expires_at: string
+  accepted_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+/**
+ * FamilyWithRole - A family as listed for the current user
+ */
+export interface FamilyWithRole extends Family {
+  role: FamilyRole
+  member_count: number
+}
+
+/**
+ * FamilyInvitationDetails - What an invitee sees on the join page
+ */
+export interface FamilyInvitationDetails {
+  family_id: string
+  family_name: string
+  email: string
+  role: FamilyRole
+  inviter_name: string | null
+  status: FamilyInvitationStatus
+}
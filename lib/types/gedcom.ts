@@ -0,0 +1,52 @@
+/**
+ * TypeScript types for GEDCOM import and export of the people directory
+ *
+ * Imported people keep the tree's ID in people.gedcom_id (migration 036_add_people_gedcom_id.sql).
+ */
+
+import type { Person, PersonRole } from "@/lib/types/people"
+
+/**
+ * GedcomIndividual - The parts of an INDI record we import
+ */
+export interface GedcomIndividual {
+  xref: string | null // e.g. "@I12@"
+  source: string | null // The tree's HEAD SOUR and FILE, e.g. "FTM/bianchi.ged"; xrefs are unique within it
+  uid: string | null // _UID or UID, stable across exports from the same tool
+  heirloomsId: string | null // REFN with TYPE Heirlooms: one of our people, exported earlier
+  name: string
+  birth_date: string | null // Partial ISO date
+  death_date: string | null
+}
+
+/**
+ * GedcomImportPlan - What importing a tree will change in the directory
+ */
+export interface GedcomImportPlan {
+  inserts: Pick<Person, "name" | "birth_date" | "death_date" | "gedcom_id">[]
+  updates: {
+    id: string
+    changes: Partial<Pick<Person, "birth_date" | "death_date" | "gedcom_id">>
+  }[]
+  unchanged: number
+  // Individuals listed more than once in the tree
+  skipped: string[]
+}
+
+/**
+ * GedcomImportResult - Counts shown after an import
+ */
+export interface GedcomImportResult {
+  created: number
+  updated: number
+  unchanged: number
+  skipped: string[]
+}
+
+/**
+ * GedcomExportPerson - A person to export, with the artifacts they're linked to
+ */
+export interface GedcomExportPerson
+  extends Pick<Person, "id" | "name" | "birth_date" | "death_date" | "relationship" | "gedcom_id"> {
+  artifacts: { title: string; url: string; roles: PersonRole[] }[]
+}
@@ -0,0 +1,34 @@
+/**
+ * TypeScript types for guided interviews
+ *
+ * These types align with the database schema created in migration:
+ * - 029_add_artifact_interviews.sql
+ */
+
+// ============================================================================
+// Interview Types
+// ============================================================================
+
+/**
+ * InterviewQuestion - One question an artifact type's interview asks
+ * Stored as JSONB in artifact_types.interview_questions
+ */
+export interface InterviewQuestion {
+  key: string // Stable key answers are stored under, e.g. "first_owner"
+  prompt: string // Read out to the person being interviewed
+  hint?: string // Shown under the prompt to help them get started
+}
+
+/**
+ * InterviewAnswer - One recorded answer, stored as JSONB in artifacts.interview_answers
+ * The question text is copied in so the transcript still reads correctly if the
+ * type's questions change later
+ */
+export interface InterviewAnswer {
+  question_key: string
+  question: string
+  transcript: string
+  media_id: string | null // user_media row holding the recording
+  audio_url: string | null
+  recorded_at: string
+}
@@ -13,7 +13,7 @@
 
 export type MediaType = 'image' | 'video' | 'audio'
 
-export type UploadSource = 'artifact' | 'profile' | 'collection' | 'story' | 'gallery'
+export type UploadSource = 'artifact' | 'profile' | 'collection' | 'story' | 'gallery' | 'interview'
 
 /**
  * UserMedia - Canonical storage for all user-uploaded media
@@ -271,4 +271,5 @@ export const UPLOAD_SOURCES: readonly UploadSource[] = [
   'collection',
   'story',
   'gallery',
+  'interview',
 ] as const
@@ -0,0 +1,76 @@
+/**
+ * TypeScript types for people linked to artifacts
+ *
+ * These types align with the database schema created in migrations:
+ * - 034_create_people_and_places.sql
+ * - 035_extend_people.sql
+ * - 036_add_people_gedcom_id.sql
+ * - 038_allow_shared_person_names.sql
+ */
+
+// ============================================================================
+// People Types
+// ============================================================================
+
+/**
+ * Person - A relative or anyone else the family's artifacts mention
+ * Owned by the account holder; relatives can share a name, so life dates tell them apart
+ */
+export interface Person {
+  // Identity
+  id: string
+  user_id: string
+
+  // Details
+  name: string
+  birth_date: string | null // Partial ISO date: YYYY, YYYY-MM or YYYY-MM-DD
+  death_date: string | null
+  relationship: string | null // To the account holder, e.g. "Grandmother"
+
+  // Portrait from the owner's media library; the URL is kept for viewers who can't read it
+  portrait_media_id: string | null
+  portrait_url: string | null
+
+  // ID in an imported GEDCOM tree, matched when the tree is imported again
+  gedcom_id: string | null
+
+  // Timestamps
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * PersonInput - Editable fields of a person
+ */
+export type PersonInput = Pick<
+  Person,
+  "name" | "birth_date" | "death_date" | "relationship" | "portrait_media_id"
+>
+
+/**
+ * PersonRole - How a person relates to an artifact
+ * "mentioned" links come from accepted AI suggestions
+ */
+export type PersonRole = "mentioned" | "original_owner" | "maker" | "pictured" | "storyteller"
+
+/**
+ * ArtifactPerson - A person linked to an artifact in one role
+ */
+export interface ArtifactPerson {
+  artifact_id: string
+  person_id: string
+  role: PersonRole
+  created_at: string
+}
+
+/**
+ * ArtifactPersonLink - One link as edited on the artifact
+ */
+export type ArtifactPersonLink = Pick<ArtifactPerson, "person_id" | "role">
+
+/**
+ * LinkedPerson - A person linked to an artifact, with every role they have on it
+ */
+export interface LinkedPerson extends Person {
+  roles: PersonRole[]
+}
@@ -0,0 +1,87 @@
+/**
+ * TypeScript types for places linked to artifacts
+ *
+ * These types align with the database schema created in migrations:
+ * - 034_create_people_and_places.sql
+ * - 037_add_place_locations.sql
+ */
+
+// ============================================================================
+// Place Types
+// ============================================================================
+
+/**
+ * PlaceLocationSource - Where a place's coordinates came from
+ * "gazetteer" is the built-in list of places, "pin" is dropped by the owner on the map and
+ * "photo" is read from a photo's GPS
+ */
+export type PlaceLocationSource = "gazetteer" | "pin" | "photo"
+
+/**
+ * Place - Somewhere the family's artifacts mention, e.g. "Naples"
+ * Owned by the account holder; names are unique per owner, ignoring case
+ */
+export interface Place {
+  id: string
+  user_id: string
+  name: string
+
+  // Set together, or not at all
+  latitude: number | null
+  longitude: number | null
+  location_source: PlaceLocationSource | null
+
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * PlaceLocation - Coordinates to give a place
+ */
+export type PlaceLocation = Pick<Place, "latitude" | "longitude" | "location_source">
+
+/**
+ * ArtifactPlace - A place linked to an artifact
+ */
+export interface ArtifactPlace {
+  artifact_id: string
+  place_id: string
+  created_at: string
+}
+
+// ============================================================================
+// Map Types
+// ============================================================================
+
+/**
+ * GazetteerPlace - A place in the built-in gazetteer
+ */
+export interface GazetteerPlace {
+  name: string
+  country: string | null // Null for countries themselves
+  latitude: number
+  longitude: number
+}
+
+/**
+ * MapArtifact - An artifact plotted on the map, at the place it's most connected to
+ */
+export interface MapArtifact {
+  id: string
+  slug: string | null
+  title: string
+  thumbnail_url: string | null
+  collection: { id: string; title: string } | null
+  artifact_type: { id: string; name: string; icon_name: string | null } | null
+  place: Pick<Place, "id" | "name"> & { latitude: number; longitude: number }
+  // Why the artifact is at this place
+  place_kind: "origin" | "provenance" | "mentioned"
+}
+
+/**
+ * UnlocatedPlace - A place linked to the owner's artifacts that isn't on the map yet
+ */
+export interface UnlocatedPlace {
+  id: string
+  name: string
+}
@@ -0,0 +1,49 @@
+/**
+ * TypeScript types for the provenance_events table
+ *
+ * These types align with the database schema created in migrations:
+ * - 017_create_provenance_events_table.sql
+ * - 037_add_place_locations.sql (place_id)
+ */
+
+// ============================================================================
+// Provenance Types
+// ============================================================================
+
+export type AcquisitionMethod = "inherited" | "purchased" | "gift" | "made" | "found" | "other"
+
+/**
+ * ProvenanceEvent - One link in an artifact's chain of custody
+ * Events are ordered by sort_order (oldest owner first), not by date,
+ * because heirloom dates are often unknown or approximate
+ */
+export interface ProvenanceEvent {
+  // Identity
+  id: string
+  artifact_id: string
+
+  // Event details
+  owner_name: string
+  acquisition_method: AcquisitionMethod | null
+  date_start: string | null // Partial ISO date: YYYY, YYYY-MM or YYYY-MM-DD
+  date_end: string | null
+  location: string | null
+  place_id: string | null // The artifact owner's place for location, kept in step with it
+  notes: string | null
+
+  // Ordering
+  sort_order: number
+
+  // Timestamps
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * ProvenanceEventInput - Editable fields of a provenance event
+ * Used by the provenance editor and saveProvenanceEvents (order is implied by array position)
+ */
+export type ProvenanceEventInput = Pick<
+  ProvenanceEvent,
+  "owner_name" | "acquisition_method" | "date_start" | "date_end" | "location" | "notes"
+>
@@ -0,0 +1,25 @@
+/**
+ * TypeScript types for rate limiting
+ *
+ * These types align with the database schema created in migration:
+ * - 028_create_rate_limits.sql
+ */
+
+/**
+ * RateLimitRule - A budget: at most `limit` requests in any `windowSeconds` window
+ */
+export interface RateLimitRule {
+  limit: number
+  windowSeconds: number
+}
+
+/**
+ * RateLimitResult - The outcome of spending one request (consume_rate_limit)
+ */
+export interface RateLimitResult {
+  ok: boolean
+  limit: number
+  remaining: number
+  // Seconds until the oldest request in the window expires
+  resetSeconds: number
+}
@@ -0,0 +1,51 @@
+/**
+ * TypeScript types for full-text search
+ *
+ * These types align with the search functions created in migration:
+ * - 024_add_full_text_search.sql
+ * - 033_add_document_transcriptions.sql (image_transcriptions)
+ */
+
+// ============================================================================
+// Search Types
+// ============================================================================
+
+/**
+ * SearchField - Which text a result matched, as returned by the highlight functions
+ * Collections only ever match on title or description; other fields come from artifacts
+ */
+export type SearchField =
+  | "title"
+  | "description"
+  | "origin"
+  | "transcript"
+  | "audio_transcripts"
+  | "image_transcriptions"
+  | "ai_description"
+  | "video_summaries"
+  | "image_captions"
+
+/**
+ * SearchMatch - Why a result matched
+ * The snippet marks matched terms with SEARCH_HIGHLIGHT_START/END (see lib/utils/search.ts)
+ */
+export interface SearchMatch {
+  field: SearchField
+  snippet: string
+  // For collections that matched through one of their artifacts
+  artifact_title?: string | null
+}
+
+/**
+ * SearchRankRow - A row from search_artifacts() / search_collections()
+ */
+export interface SearchRankRow {
+  id: string
+  rank: number
+  artifact_id?: string | null
+}
+
+export interface SearchHighlightRow {
+  field: SearchField
+  snippet: string
+}
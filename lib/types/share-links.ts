@@ -0,0 +1,51 @@
+/**
+ * TypeScript types for the share_links table
+ *
+ * These types align with the database schema created in migration:
+ * - 018_create_share_links_table.sql
+ */
+
+// ============================================================================
+// Share Link Types
+// ============================================================================
+
+export type ShareTargetType = "artifact" | "collection"
+
+export type ShareLinkStatus = "ok" | "password_required" | "expired" | "revoked" | "not_found"
+
+/**
+ * ShareLink - A private read-only link as seen by its owner
+ * password_hash/unlock_key are never sent to the client, only has_password
+ */
+export interface ShareLink {
+  // Identity
+  id: string
+  token: string
+  user_id: string
+
+  // Target (exactly one is set)
+  artifact_id: string | null
+  collection_id: string | null
+
+  // Access controls
+  expires_at: string | null
+  has_password: boolean
+  revoked_at: string | null
+
+  // Analytics
+  view_count: number
+  last_viewed_at: string | null
+
+  // Timestamps
+  created_at: string
+}
+
+/**
+ * ShareLinkResolution - Result of resolving a token for a visitor
+ */
+export interface ShareLinkResolution {
+  status: ShareLinkStatus
+  target_type: ShareTargetType | null
+  target_id: string | null
+  target_slug: string | null
+}
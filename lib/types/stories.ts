@@ -0,0 +1,87 @@
+/**
+ * TypeScript types for stories and story_blocks
+ *
+ * These types align with the database schema created in migration:
+ * - 022_create_stories.sql
+ */
+
+// ============================================================================
+// Story Types
+// ============================================================================
+
+export type StoryBlockType = "text" | "artifact" | "media" | "audio"
+
+/**
+ * Story - A narrative page made of ordered blocks
+ */
+export interface Story {
+  // Identity
+  id: string
+  user_id: string
+  slug: string
+
+  // Content
+  title: string
+  description: string | null
+  cover_image_url: string | null
+
+  // Visibility
+  is_public: boolean
+
+  // Timestamps
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * StoryBlock - One block of a story, ordered by sort_order
+ * body is markdown for text blocks and an optional caption for the others
+ */
+export interface StoryBlock {
+  id: string
+  story_id: string
+  sort_order: number
+  block_type: StoryBlockType
+  body: string | null
+  artifact_id: string | null
+  media_id: string | null
+  media_url: string | null
+  media_type: "image" | "video" | "audio" | null
+  created_at: string
+}
+
+/**
+ * StoryArtifactEmbed - What an artifact block needs to render its card
+ */
+export interface StoryArtifactEmbed {
+  id: string
+  slug: string
+  title: string
+  description: string | null
+  thumbnail_url: string | null
+  media_urls: string[] | null
+}
+
+/**
+ * StoryBlockWithArtifact - A block joined with its artifact
+ * artifact is null when the reader can't see the embedded artifact
+ */
+export interface StoryBlockWithArtifact extends StoryBlock {
+  artifact: StoryArtifactEmbed | null
+}
+
+/**
+ * StoryWithBlocks - A story page: the story, its blocks and the author's name
+ */
+export interface StoryWithBlocks extends Story {
+  author_name: string | null
+  blocks: StoryBlockWithArtifact[]
+}
+
+/**
+ * StorySummary - A story in the stories list
+ */
+export interface StorySummary extends Story {
+  author_name: string | null
+  block_count: number
+}
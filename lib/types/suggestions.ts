@@ -0,0 +1,66 @@
+/**
+ * TypeScript types for AI summary suggestions
+ *
+ * These types align with the database schema created in migration:
+ * - 034_create_people_and_places.sql (artifacts.ai_suggestions)
+ *
+ * The photo location isn't from the AI: it's read from a photo's GPS by the image step,
+ * and reviewed the same way.
+ */
+
+// ============================================================================
+// Suggestion Types
+// ============================================================================
+
+/**
+ * SuggestionStatus - Where the owner's review of a suggestion stands
+ */
+export type SuggestionStatus = "pending" | "accepted" | "rejected"
+
+/**
+ * SuggestionKind - What a suggestion becomes when accepted
+ * people and places become linked records, tags go to artifacts.tags, the year
+ * to artifacts.estimated_year, and the photo location a linked place with its coordinates
+ */
+export type SuggestionKind = "people" | "places" | "tags" | "year_guess" | "photo_location"
+
+export interface Suggestion<T = string> {
+  value: T
+  status: SuggestionStatus
+}
+
+/**
+ * PhotoLocation - Where one of the artifact's photos was taken, from its EXIF GPS
+ */
+export interface PhotoLocation {
+  // The nearest gazetteer place, else the coordinates written out
+  name: string
+  latitude: number
+  longitude: number
+  media_url: string
+}
+
+/**
+ * ArtifactSuggestions - The structured part of the AI summary, as kept on the artifact
+ */
+export interface ArtifactSuggestions {
+  people?: Suggestion[]
+  places?: Suggestion[]
+  tags?: Suggestion[]
+  year_guess?: Suggestion<number> | null
+  photo_location?: Suggestion<PhotoLocation> | null
+  // Shown alongside the AI description; not reviewed
+  highlights?: string[]
+  generated_at?: string
+}
+
+/**
+ * SummaryStructuredOutput - The optional fields of the summary the suggestions come from
+ */
+export interface SummaryStructuredOutput {
+  people?: string[]
+  places?: string[]
+  tags?: string[]
+  year_guess?: number
+  highlights?: string[]
+}
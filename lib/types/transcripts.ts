@@ -0,0 +1,53 @@
+/**
+ * TypeScript types for timestamped audio transcripts
+ *
+ * These types align with the database schema created in migration:
+ * - 030_add_audio_transcript_segments.sql
+ * - 031_add_audio_transcription_progress.sql
+ */
+
+/**
+ * TranscriptSegment - One timed stretch of speech, usually a sentence
+ * start and end are seconds from the beginning of the recording
+ */
+export interface TranscriptSegment {
+  start: number
+  end: number
+  text: string
+}
+
+/**
+ * AudioTranscriptSegments - Segments per audio URL, stored in artifacts.audio_transcript_segments
+ * Keyed like artifacts.audio_transcripts
+ */
+export type AudioTranscriptSegments = Record<string, TranscriptSegment[]>
+
+/**
+ * AudioChunk - One overlapping part of a long recording, in seconds from the beginning
+ */
+export interface AudioChunk {
+  index: number
+  start: number
+  end: number
+}
+
+/**
+ * TranscribedChunk - A part that has been transcribed
+ * Segment times are relative to the start of the part, as the provider returned them
+ */
+export interface TranscribedChunk extends AudioChunk {
+  text: string
+  segments: TranscriptSegment[]
+}
+
+/**
+ * AudioTranscriptionProgress - Parts of one recording transcribed so far
+ * Stored per audio URL in artifacts.audio_transcription_progress; only reused when the
+ * recording is split the same way again.
+ */
+export interface AudioTranscriptionProgress {
+  chunk_seconds: number
+  overlap_seconds: number
+  chunk_count: number
+  chunks: TranscribedChunk[]
+}
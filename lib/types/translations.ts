@@ -0,0 +1,42 @@
+/**
+ * TypeScript types for artifact translations
+ *
+ * These types align with the database schema created in migration:
+ * - 032_add_artifact_translations.sql
+ */
+
+/**
+ * TranslatedText - One translated text and the hash of the original it was made from
+ * A translation whose source_hash no longer matches the original is out of date.
+ */
+export interface TranslatedText {
+  text: string
+  source_hash: string
+}
+
+/**
+ * ArtifactTranslation - Everything translated into one language
+ * audio_transcripts is keyed by audio URL, like artifacts.audio_transcripts
+ */
+export interface ArtifactTranslation {
+  description?: TranslatedText
+  ai_description?: TranslatedText
+  transcript?: TranslatedText
+  audio_transcripts?: Record<string, TranslatedText>
+  translated_at: string
+}
+
+/**
+ * ArtifactTranslations - Translations per locale (ISO 639-1, e.g. "en"), stored in artifacts.translations
+ */
+export type ArtifactTranslations = Record<string, ArtifactTranslation>
+
+/**
+ * TranslatableTexts - The originals that can be translated
+ */
+export interface TranslatableTexts {
+  description?: string | null
+  ai_description?: string | null
+  transcript?: string | null
+  audio_transcripts?: Record<string, string> | null
+}
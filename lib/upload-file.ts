@@ -0,0 +1,73 @@
+import { createClient } from "@/lib/supabase/client"
+import { generateCloudinaryAudioSignature, generateCloudinarySignature } from "@/lib/actions/cloudinary"
+import { trackPendingUpload } from "@/lib/actions/pending-uploads"
+
+const USE_SUPABASE_STORAGE = process.env.NEXT_PUBLIC_USE_SUPABASE_STORAGE === "true"
+
+/**
+ * Upload a single photo, video or audio file from the browser to the active storage backend
+ * Supabase paths are grouped under `${userId}/${folder}`. The upload is tracked as pending
+ * until the caller's save action marks it saved (markUploadsAsSaved).
+ */
+export async function uploadFileToStorage(
+  file: Blob,
+  fileName: string,
+  userId: string,
+  folder: string,
+): Promise<string> {
+  const isAudio = file.type.startsWith("audio/")
+  const isVideo = file.type.startsWith("video/")
+  let url: string
+
+  if (USE_SUPABASE_STORAGE) {
+    const supabase = createClient()
+    const sanitizedName = fileName.replace(/[^a-zA-Z0-9.-]/g, "_")
+    const filePath = `${userId}/${folder}/${Date.now()}-${sanitizedName}`
+
+    const { data, error } = await supabase.storage.from("heirlooms-media").upload(filePath, file, {
+      cacheControl: "3600",
+      upsert: false,
+      contentType: file.type || undefined,
+    })
+
+    if (error) {
+      throw new Error(error.message || "Upload failed")
+    }
+
+    url = supabase.storage.from("heirlooms-media").getPublicUrl(data.path).data.publicUrl
+  } else {
+    const signatureResult: any = isAudio
+      ? await generateCloudinaryAudioSignature(userId, fileName)
+      : await generateCloudinarySignature(userId, fileName)
+
+    if (signatureResult.error || !signatureResult.signature) {
+      throw new Error(signatureResult.error || "Failed to generate upload signature")
+    }
+
+    const formData = new FormData()
+    formData.append("file", file, fileName)
+    formData.append("api_key", signatureResult.apiKey!)
+    formData.append("timestamp", signatureResult.timestamp!.toString())
+    formData.append("signature", signatureResult.signature)
+    formData.append("public_id", signatureResult.publicId!)
+    if (signatureResult.eager) {
+      formData.append("eager", signatureResult.eager)
+    }
+
+    // Cloudinary stores audio as a video resource
+    const resourceType = isAudio || isVideo ? "video" : "image"
+    const response = await fetch(
+      `https://api.cloudinary.com/v1_1/${signatureResult.cloudName}/${resourceType}/upload`,
+      { method: "POST", body: formData },
+    )
+
+    if (!response.ok) {
+      throw new Error(`Upload failed (${response.status})`)
+    }
+
+    url = (await response.json()).secure_url
+  }
+
+  await trackPendingUpload(url, isAudio ? "raw" : isVideo ? "video" : "image")
+  return url
+}
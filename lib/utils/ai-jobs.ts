@@ -0,0 +1,50 @@
+/**
+ * Utilities for background AI analysis jobs (see lib/ai-jobs.ts for the worker)
+ */
+
+import type { AiJob, AiJobStatus, AiJobStep, AnalysisStep } from "@/lib/types/ai-jobs"
+
+// First retry after 30s, doubling up to 10 minutes
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000
+
+export const ANALYSIS_STEP_LABELS: Record<AnalysisStep, string> = {
+  audio: "Transcribe audio",
+  images: "Caption images",
+  documents: "Transcribe documents",
+  summary: "Write description",
+}
+
+/**
+ * Fresh step list for a new job
+ */
+export function createJobSteps(names: AnalysisStep[]): AiJobStep[] {
+  return names.map((name) => ({
+    name,
+    status: "pending",
+    attempts: 0,
+    error: null,
+    started_at: null,
+    finished_at: null,
+  }))
+}
+
+/**
+ * How long to wait before retrying a step that has failed `attempts` times
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS)
+}
+
+export function isJobFinished(status: AiJobStatus): boolean {
+  return status === "succeeded" || status === "failed"
+}
+
+/**
+ * Share of steps finished (succeeded or skipped), 0-100
+ */
+export function getJobProgress(job: Pick<AiJob, "steps">): number {
+  if (job.steps.length === 0) return 100
+  const finished = job.steps.filter((step) => step.status === "succeeded" || step.status === "skipped").length
+  return Math.round((finished / job.steps.length) * 100)
+}
@@ -0,0 +1,148 @@
+import type { AiCapability, AiUsage } from "@/lib/ai"
+import type { AiQuota, AiUsageTotals } from "@/lib/types/ai-usage"
+
+/**
+ * Prices in USD, keyed by provider id (see lib/ai.ts)
+ * Per million tokens, and per minute of audio for transcription. Models not listed
+ * (self-hosted, fake) cost nothing.
+ */
+export const AI_MODEL_PRICES: Record<
+  string,
+  { inputPerMillion?: number; outputPerMillion?: number; perAudioMinute?: number }
+> = {
+  "openai/gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "openai/gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "openai/gpt-4.1": { inputPerMillion: 2, outputPerMillion: 8 },
+  "openai/gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  "openai/whisper-1": { perAudioMinute: 0.006 },
+  "openai/gpt-4o-transcribe": { perAudioMinute: 0.006 },
+  "openai/gpt-4o-mini-transcribe": { perAudioMinute: 0.003 },
+  "openai/text-embedding-3-small": { inputPerMillion: 0.02 },
+  "openai/text-embedding-3-large": { inputPerMillion: 0.13 },
+}
+
+export const AI_CAPABILITY_LABELS: Record<AiCapability, string> = {
+  vision: "Image captions",
+  text: "Transcript cleanup",
+  summary: "Summaries",
+  transcription: "Transcription",
+  embedding: "Search indexing",
+  translation: "Translations",
+}
+
+export const DEFAULT_MONTHLY_TOKEN_QUOTA = 2_000_000
+export const DEFAULT_MONTHLY_AUDIO_MINUTES_QUOTA = 180
+
+/**
+ * Estimated cost of one call, in USD
+ */
+export function estimateAiCostUsd(model: string, usage: AiUsage): number {
+  const price = AI_MODEL_PRICES[model]
+  if (!price) return 0
+
+  const cost =
+    ((usage.inputTokens || 0) * (price.inputPerMillion || 0)) / 1_000_000 +
+    ((usage.outputTokens || 0) * (price.outputPerMillion || 0)) / 1_000_000 +
+    ((usage.audioSeconds || 0) / 60) * (price.perAudioMinute || 0)
+
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
+
+/**
+ * The calendar month (UTC) that quotas apply to
+ */
+export function getUsagePeriod(now = new Date()): { start: Date; resetsAt: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  }
+}
+
+function readQuotaSetting(value: string | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+/**
+ * A user's monthly quota: their ai_quotas row where set, else AI_MONTHLY_TOKEN_QUOTA and
+ * AI_MONTHLY_AUDIO_MINUTES_QUOTA
+ */
+export function resolveAiQuota(
+  row?: { monthly_tokens: number | null; monthly_audio_seconds: number | null } | null,
+): AiQuota {
+  const defaultTokens = readQuotaSetting(process.env.AI_MONTHLY_TOKEN_QUOTA, DEFAULT_MONTHLY_TOKEN_QUOTA)
+  const defaultAudioMinutes = readQuotaSetting(
+    process.env.AI_MONTHLY_AUDIO_MINUTES_QUOTA,
+    DEFAULT_MONTHLY_AUDIO_MINUTES_QUOTA,
+  )
+
+  return {
+    monthly_tokens: row?.monthly_tokens ?? defaultTokens,
+    monthly_audio_seconds: row?.monthly_audio_seconds ?? defaultAudioMinutes * 60,
+    custom: row != null && (row.monthly_tokens != null || row.monthly_audio_seconds != null),
+  }
+}
+
+/**
+ * Why the user can't make another AI call this month, or null if they can
+ */
+export function getQuotaExceededMessage(totals: AiUsageTotals, quota: AiQuota, resetsAt: Date): string | null {
+  const resets = resetsAt.toLocaleDateString("en-US", { month: "long", day: "numeric", timeZone: "UTC" })
+
+  if (totals.input_tokens + totals.output_tokens >= quota.monthly_tokens) {
+    return `You've used your monthly AI allowance of ${quota.monthly_tokens.toLocaleString("en-US")} tokens. It resets on ${resets}.`
+  }
+
+  if (totals.audio_seconds >= quota.monthly_audio_seconds) {
+    const minutes = Math.round(quota.monthly_audio_seconds / 60)
+    return `You've used your monthly allowance of ${minutes} minutes of audio transcription. It resets on ${resets}.`
+  }
+
+  return null
+}
+
+export function emptyUsageTotals(): AiUsageTotals {
+  return { calls: 0, input_tokens: 0, output_tokens: 0, audio_seconds: 0, cost_usd: 0 }
+}
+
+/**
+ * Add usage rows together; numeric columns may arrive as strings from Postgres
+ */
+export function sumUsage(rows: Partial<AiUsageTotals>[]): AiUsageTotals {
+  return rows.reduce<AiUsageTotals>(
+    (totals, row) => ({
+      calls: totals.calls + Number(row.calls || 0),
+      input_tokens: totals.input_tokens + Number(row.input_tokens || 0),
+      output_tokens: totals.output_tokens + Number(row.output_tokens || 0),
+      audio_seconds: totals.audio_seconds + Number(row.audio_seconds || 0),
+      cost_usd: Math.round((totals.cost_usd + Number(row.cost_usd || 0)) * 1_000_000) / 1_000_000,
+    }),
+    emptyUsageTotals(),
+  )
+}
+
+/**
+ * Sum usage rows by a key, largest cost first
+ */
+export function groupUsage<T extends Partial<AiUsageTotals>, K extends string | null>(
+  rows: T[],
+  getKey: (row: T) => K,
+): { key: K; totals: AiUsageTotals }[] {
+  const groups = new Map<K, T[]>()
+  for (const row of rows) {
+    const key = getKey(row)
+    groups.set(key, [...(groups.get(key) || []), row])
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, groupRows]) => ({ key, totals: sumUsage(groupRows) }))
+    .sort((a, b) => b.totals.cost_usd - a.totals.cost_usd)
+}
+
+export function formatCostUsd(cost: number): string {
+  return cost > 0 && cost < 0.01 ? "< $0.01" : `$${cost.toFixed(2)}`
+}
+
+export function formatAudioMinutes(seconds: number): string {
+  return `${Math.round(seconds / 60).toLocaleString("en-US")} min`
+}
@@ -0,0 +1,158 @@
+/**
+ * Utilities for asking questions of a collection (see lib/archive-chat.ts)
+ *
+ * The collection's artifacts are ranked by how many of the question's words they mention,
+ * and as many as fit are given to the model as numbered sources it must cite.
+ */
+
+import type { ArchiveArtifact, ArchiveChatMessage, ArchiveChatSource } from "@/lib/types/archive-chat"
+
+export const MAX_QUESTION_LENGTH = 500
+
+// Earlier turns sent with a follow-up question, so "what about the watch?" makes sense
+export const MAX_HISTORY_MESSAGES = 6
+
+// Budget for the sources in one prompt, and for any one artifact within it
+export const MAX_ARCHIVE_CONTEXT_LENGTH = 24000
+const MAX_ARTIFACT_CONTEXT_LENGTH = 4000
+
+// Words that say nothing about which artifact a question is about
+const STOP_WORDS = new Set([
+  "about", "and", "any", "are", "did", "does", "for", "from", "had", "has", "have", "her", "his", "how",
+  "its", "our", "say", "said", "tell", "that", "the", "their", "them", "there", "they", "this", "was",
+  "were", "what", "when", "where", "which", "who", "whom", "why", "with", "you", "your",
+])
+
+function mapValues(map: Record<string, string> | null | undefined): string[] {
+  if (!map || typeof map !== "object") return []
+  return Object.values(map).filter((value): value is string => typeof value === "string" && !!value.trim())
+}
+
+/**
+ * An artifact as the model reads it: one labelled line or paragraph per field that has text
+ */
+export function getArchiveArtifactText(artifact: ArchiveArtifact): string {
+  const sections: [string, string[]][] = [
+    ["Title", [artifact.title]],
+    ["Origin", [artifact.origin || ""]],
+    ["Year acquired", [artifact.year_acquired ? String(artifact.year_acquired) : ""]],
+    ["Description", [artifact.description || ""]],
+    ["Summary", [artifact.ai_description || ""]],
+    ["Audio summaries", mapValues(artifact.audio_summaries)],
+    ["Transcript", [artifact.transcript || "", ...mapValues(artifact.audio_transcripts)]],
+    ["Interview", [artifact.interview_transcript || ""]],
+    ["Document text", mapValues(artifact.image_transcriptions)],
+    ["Photo captions", mapValues(artifact.image_captions)],
+    ["Video summaries", mapValues(artifact.video_summaries)],
+  ]
+
+  return sections
+    .map(([label, values]) => {
+      const content = values
+        .map((value) => value.trim())
+        .filter(Boolean)
+        .join("\n")
+      return content ? `${label}: ${content}` : ""
+    })
+    .filter(Boolean)
+    .join("\n")
+    .slice(0, MAX_ARTIFACT_CONTEXT_LENGTH)
+}
+
+/**
+ * The words of a question worth looking for, lowercased and without repeats
+ */
+export function getQuestionTerms(question: string): string[] {
+  const words = question
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\u024f]+/)
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word))
+
+  return Array.from(new Set(words))
+}
+
+/**
+ * How well an artifact matches the question's terms
+ * A term counts once per artifact; matches in the title count most, then origin and
+ * description. Terms match inside words, so "clock" finds "clocks".
+ */
+export function scoreArchiveArtifact(artifact: ArchiveArtifact, terms: string[]): number {
+  const title = artifact.title.toLowerCase()
+  const highlights = `${artifact.origin || ""}\n${artifact.description || ""}`.toLowerCase()
+  const text = getArchiveArtifactText(artifact).toLowerCase()
+
+  return terms.reduce((score, term) => {
+    if (title.includes(term)) return score + 3
+    if (highlights.includes(term)) return score + 2
+    if (text.includes(term)) return score + 1
+    return score
+  }, 0)
+}
+
+/**
+ * The sources for one question: best matches first, as many as fit the context budget
+ * Artifacts with nothing to say beyond a title are left out. Without any matches the order
+ * of the collection is kept, so broad questions still see a sample of it.
+ */
+export function selectArchiveSources(
+  artifacts: ArchiveArtifact[],
+  question: string,
+  maxLength = MAX_ARCHIVE_CONTEXT_LENGTH,
+): { artifact: ArchiveArtifact; text: string }[] {
+  const terms = getQuestionTerms(question)
+  const ranked = artifacts
+    .map((artifact, index) => ({ artifact, index, score: scoreArchiveArtifact(artifact, terms) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+
+  const sources: { artifact: ArchiveArtifact; text: string }[] = []
+  let length = 0
+
+  for (const { artifact } of ranked) {
+    const text = getArchiveArtifactText(artifact)
+    if (!text.includes("\n")) continue
+    if (length + text.length > maxLength) continue
+
+    sources.push({ artifact, text })
+    length += text.length
+  }
+
+  return sources
+}
+
+/**
+ * Sources as numbered blocks, [1] to [n], for the prompt
+ */
+export function formatArchiveSources(sources: { text: string }[]): string {
+  return sources.map((source, index) => `[${index + 1}]\n${source.text}`).join("\n\n")
+}
+
+/**
+ * Earlier turns of the conversation for the prompt, most recent last
+ */
+export function formatArchiveHistory(history: ArchiveChatMessage[]): string {
+  return history
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map((message) => `${message.role === "user" ? "Question" : "Answer"}: ${message.content.trim()}`)
+    .join("\n\n")
+}
+
+/**
+ * The sources an answer cites, by number, in the order first cited
+ * Numbers come from the answer's [n] markers and the model's list of sources; numbers that
+ * don't match a source are dropped.
+ */
+export function getCitedSources(
+  answer: string,
+  citedNumbers: number[],
+  sources: { artifact: ArchiveArtifact }[],
+): ArchiveChatSource[] {
+  const markers = (answer.match(/\[(\d+)\]/g) || []).map((marker) => Number(marker.slice(1, -1)))
+  const numbers = Array.from(new Set([...markers, ...citedNumbers])).filter(
+    (number) => Number.isInteger(number) && number >= 1 && number <= sources.length,
+  )
+
+  return numbers.map((number) => {
+    const { artifact } = sources[number - 1]
+    return { number, id: artifact.id, slug: artifact.slug, title: artifact.title }
+  })
+}
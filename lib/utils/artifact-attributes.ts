@@ -0,0 +1,112 @@
+/**
+ * Utilities for structured artifact attributes
+ *
+ * Attribute definitions live on artifact_types.attribute_schema,
+ * values live on artifacts.attributes (keyed by definition key).
+ */
+
+import type {
+  ArtifactAttributes,
+  AttributeDefinition,
+  AttributeValue,
+  MeasurementValue,
+} from "@/lib/types/artifact-types"
+
+export function isMeasurementValue(value: unknown): value is MeasurementValue {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as MeasurementValue).value === "number"
+  )
+}
+
+/**
+ * Check whether an attribute value should be treated as "not filled in"
+ */
+export function isAttributeValueEmpty(value: AttributeValue | null | undefined): boolean {
+  if (value === null || value === undefined) return true
+  if (typeof value === "string") return value.trim() === ""
+  return !Number.isFinite(value.value)
+}
+
+/**
+ * Format a single attribute value for display
+ * Returns null when the value is empty
+ */
+export function formatAttributeValue(
+  def: AttributeDefinition,
+  value: AttributeValue | null | undefined
+): string | null {
+  if (isAttributeValueEmpty(value)) return null
+
+  if (def.kind === "number" && isMeasurementValue(value)) {
+    return value.unit ? `${value.value} ${value.unit}` : String(value.value)
+  }
+
+  if (def.kind === "date" && typeof value === "string") {
+    // Parse as UTC so the displayed day doesn't shift with the viewer's timezone
+    const date = new Date(`${value}T00:00:00Z`)
+    return Number.isNaN(date.getTime())
+      ? value
+      : date.toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" })
+  }
+
+  return typeof value === "string" ? value.trim() : null
+}
+
+/**
+ * Get filled-in attributes in schema order, ready for display
+ * Values whose key isn't in the schema are ignored
+ */
+export function getDisplayAttributes(
+  definitions: AttributeDefinition[] | null | undefined,
+  attributes: ArtifactAttributes | null | undefined
+): { key: string; label: string; value: string }[] {
+  if (!definitions || !attributes) return []
+
+  return definitions.flatMap((def) => {
+    const formatted = formatAttributeValue(def, attributes[def.key])
+    return formatted ? [{ key: def.key, label: def.label, value: formatted }] : []
+  })
+}
+
+/**
+ * Drop empty values and keys not defined by the schema before saving
+ * Keeps the stored JSON small and avoids validation errors for blank optional fields
+ */
+export function compactAttributes(
+  definitions: AttributeDefinition[] | null | undefined,
+  attributes: ArtifactAttributes | null | undefined
+): ArtifactAttributes {
+  if (!definitions || !attributes) return {}
+
+  const compacted: ArtifactAttributes = {}
+  for (const def of definitions) {
+    const value = attributes[def.key]
+    if (isAttributeValueEmpty(value)) continue
+    compacted[def.key] = typeof value === "string" ? value.trim() : (value as MeasurementValue)
+  }
+  return compacted
+}
+
+/**
+ * Whether two sets of attribute values are the same, ignoring key order
+ */
+export function isSameAttributes(
+  a: ArtifactAttributes | null | undefined,
+  b: ArtifactAttributes | null | undefined
+): boolean {
+  const left = a || {}
+  const right = b || {}
+  const keys = Object.keys(left)
+  if (keys.length !== Object.keys(right).length) return false
+
+  return keys.every((key) => {
+    const x = left[key]
+    const y = right[key]
+    if (isMeasurementValue(x) && isMeasurementValue(y)) {
+      return x.value === y.value && (x.unit ?? null) === (y.unit ?? null)
+    }
+    return x === y
+  })
+}
@@ -2,7 +2,10 @@
  * Utilities for artifact filtering and sorting
  */
 
-export type SortOption = "newest" | "oldest" | "title-asc" | "title-desc" | "last-edited"
+export type SortOption = "newest" | "oldest" | "title-asc" | "title-desc" | "last-edited" | "relevance"
+
+// Keyword search matches words (full-text); semantic search matches meaning (embeddings)
+export type SearchMode = "keyword" | "semantic"
 
 export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: "newest", label: "Newest First" },
@@ -12,14 +15,33 @@ export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: "last-edited", label: "Last Edited" },
 ]
 
+// Only offered while searching (ranked by search_artifacts())
+export const RELEVANCE_SORT_OPTION: { value: SortOption; label: string } = { value: "relevance", label: "Best Match" }
+
+/**
+ * Default sort: best match while searching, newest otherwise
+ */
+export function getDefaultSort(search?: string): SortOption {
+  return search ? "relevance" : "newest"
+}
+
 /**
  * Parse and validate sort parameter from URL
+ * "relevance" is only valid alongside a search query
  */
-export function parseSortParam(param: string | null): SortOption {
+export function parseSortParam(param: string | null, search?: string): SortOption {
   const validSorts: SortOption[] = ["newest", "oldest", "title-asc", "title-desc", "last-edited"]
+  if (search && (!param || param === "relevance")) return "relevance"
   return validSorts.includes(param as SortOption) ? (param as SortOption) : "newest"
 }
 
+/**
+ * Parse search mode from URL (?semantic=1); semantic search always sorts by best match
+ */
+export function parseSearchModeParam(param: string | null): SearchMode {
+  return param === "1" ? "semantic" : "keyword"
+}
+
 /**
  * Parse and validate type IDs from URL parameter
  */
@@ -38,11 +60,15 @@ export function buildFilterUrl(
   typeIds: string[],
   tab?: string,
   view?: string,
+  search?: string,
+  searchMode: SearchMode = "keyword",
 ): string {
   const params = new URLSearchParams()
   if (tab && tab !== "all") params.set("tab", tab)
   if (view) params.set("view", view)
-  if (sort !== "newest") params.set("sort", sort)
+  if (search) params.set("q", search)
+  if (search && searchMode === "semantic") params.set("semantic", "1")
+  if (sort !== getDefaultSort(search)) params.set("sort", sort)
   if (typeIds.length > 0) {
     params.set("types", typeIds.join(","))
   }
@@ -68,12 +94,19 @@ export function getSortConfig(sortBy: SortOption): {
       return { field: "title", ascending: false }
     case "last-edited":
       return { field: "updated_at", ascending: false }
+    case "relevance":
+      // Ranking happens in search_artifacts(); newest first is the closest column order
+      return { field: "created_at", ascending: false }
   }
 }
 
 /**
  * Check if any filters are active (non-default)
  */
-export function hasActiveFilters(sort: SortOption, typeIds: string[], allTypeIds: string[]): boolean {
-  return sort !== "newest" || (typeIds.length > 0 && typeIds.length < allTypeIds.length)
+export function hasActiveFilters(sort: SortOption, typeIds: string[], allTypeIds: string[], search?: string): boolean {
+  return (
+    Boolean(search) ||
+    sort !== getDefaultSort(search) ||
+    (typeIds.length > 0 && typeIds.length < allTypeIds.length)
+  )
 }
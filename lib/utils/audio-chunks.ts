@@ -0,0 +1,369 @@
+/**
+ * Utilities for transcribing long recordings in overlapping parts
+ *
+ * Transcription providers take one file of at most ~25 MB per request, which long oral
+ * histories exceed. MP3 and WAV files can be cut without re-encoding: MP3 on frame
+ * boundaries, WAV on sample boundaries. Each part overlaps the next by a few seconds so
+ * words at the cut are heard whole in at least one part, and the parts' segments are
+ * stitched back together on the recording's own timeline.
+ */
+
+import type {
+  AudioChunk,
+  AudioTranscriptionProgress,
+  TranscribedChunk,
+  TranscriptSegment,
+} from "@/lib/types/transcripts"
+import { normalizeTranscriptSegments, segmentsToText } from "./transcripts"
+
+// Longest part sent in one request
+export const CHUNK_SECONDS = 10 * 60
+// How much each part repeats of the one before it
+export const CHUNK_OVERLAP_SECONDS = 5
+// Stay under the provider's 25 MB upload limit
+export const MAX_CHUNK_BYTES = 24 * 1024 * 1024
+
+// Shortest part worth planning, for very high bit-rate WAVs
+const MIN_CHUNK_SECONDS = 30
+
+export type AudioLayout = Mp3Layout | WavLayout
+
+interface Mp3Layout {
+  format: "mp3"
+  duration: number
+  bytesPerSecond: number
+  // Byte offset and start time of every frame, in order
+  frameOffsets: number[]
+  frameTimes: number[]
+  endOffset: number
+}
+
+interface WavLayout {
+  format: "wav"
+  duration: number
+  bytesPerSecond: number
+  fmtChunk: Uint8Array
+  dataOffset: number
+  dataSize: number
+  blockAlign: number
+}
+
+// ============================================================================
+// Reading audio files
+// ============================================================================
+
+const MP3_BITRATES_KBPS = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+}
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)))
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8)
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number) {
+  bytes[offset] = value & 0xff
+  bytes[offset + 1] = (value >>> 8) & 0xff
+  bytes[offset + 2] = (value >>> 16) & 0xff
+  bytes[offset + 3] = (value >>> 24) & 0xff
+}
+
+/**
+ * Length and duration of the MPEG Layer III frame starting at offset, or null if there isn't one
+ */
+function readMp3Frame(bytes: Uint8Array, offset: number): { length: number; seconds: number } | null {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+    return null
+  }
+
+  const version = (bytes[offset + 1] >> 3) & 0x03
+  const layer = (bytes[offset + 1] >> 1) & 0x03
+  const bitrateIndex = bytes[offset + 2] >> 4
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03
+  const padding = (bytes[offset + 2] >> 1) & 0x01
+
+  // Layer III only, and no reserved or "free" values
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null
+  }
+
+  const isMpeg1 = version === 3
+  const bitrate = (isMpeg1 ? MP3_BITRATES_KBPS.mpeg1 : MP3_BITRATES_KBPS.mpeg2)[bitrateIndex] * 1000
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex]
+  const samples = isMpeg1 ? 1152 : 576
+
+  return {
+    length: Math.floor(((samples / 8) * bitrate) / sampleRate) + padding,
+    seconds: samples / sampleRate,
+  }
+}
+
+function readMp3Layout(bytes: Uint8Array): Mp3Layout | null {
+  let offset = 0
+
+  // Skip an ID3v2 tag (its size is stored as four 7-bit bytes)
+  if (readAscii(bytes, 0, 3) === "ID3" && bytes.length >= 10) {
+    const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]
+    offset = 10 + size + (bytes[5] & 0x10 ? 10 : 0)
+  }
+
+  const frameOffsets: number[] = []
+  const frameTimes: number[] = []
+  let time = 0
+  let endOffset = offset
+
+  while (offset < bytes.length) {
+    const frame = readMp3Frame(bytes, offset)
+    // The first frame only counts if another follows it, so stray sync bytes aren't mistaken for audio
+    const isConfirmed =
+      frame &&
+      (frameOffsets.length > 0 ||
+        offset + frame.length >= bytes.length ||
+        readMp3Frame(bytes, offset + frame.length))
+    // Junk between frames (or a trailing tag): move on until frames line up again
+    if (!frame || !isConfirmed) {
+      offset += 1
+      continue
+    }
+
+    frameOffsets.push(offset)
+    frameTimes.push(time)
+    time += frame.seconds
+    offset += frame.length
+    endOffset = Math.min(offset, bytes.length)
+  }
+
+  if (frameOffsets.length === 0 || time === 0) return null
+
+  return {
+    format: "mp3",
+    duration: time,
+    bytesPerSecond: (endOffset - frameOffsets[0]) / time,
+    frameOffsets,
+    frameTimes,
+    endOffset,
+  }
+}
+
+function readWavLayout(bytes: Uint8Array): WavLayout | null {
+  if (bytes.length < 12 || readAscii(bytes, 0, 4) !== "RIFF" || readAscii(bytes, 8, 4) !== "WAVE") {
+    return null
+  }
+
+  let fmtChunk: Uint8Array | null = null
+  let offset = 12
+
+  while (offset + 8 <= bytes.length) {
+    const id = readAscii(bytes, offset, 4)
+    const size = readUint32(bytes, offset + 4)
+
+    if (id === "fmt ") {
+      fmtChunk = bytes.slice(offset, offset + 8 + size)
+    } else if (id === "data" && fmtChunk && fmtChunk.length >= 24) {
+      const byteRate = readUint32(fmtChunk, 16)
+      const blockAlign = readUint16(fmtChunk, 20)
+      // Streamed recordings can leave the data size unset; trust the file instead
+      const dataSize = Math.min(size, bytes.length - offset - 8)
+      if (!byteRate || !blockAlign) return null
+
+      return {
+        format: "wav",
+        duration: dataSize / byteRate,
+        bytesPerSecond: byteRate,
+        fmtChunk,
+        dataOffset: offset + 8,
+        dataSize,
+        blockAlign,
+      }
+    }
+
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2)
+  }
+
+  return null
+}
+
+/**
+ * Whether a file starts like an MP3 or WAV, from its first few bytes
+ * Cheap enough to check before reading a large download into memory.
+ */
+export function isSplittableAudio(header: Uint8Array): boolean {
+  if (header.length < 12) return false
+  if (readAscii(header, 0, 4) === "RIFF" && readAscii(header, 8, 4) === "WAVE") return true
+  if (readAscii(header, 0, 3) === "ID3") return true
+  return readMp3Frame(header, 0) !== null
+}
+
+/**
+ * Where the audio sits in an MP3 or WAV file, or null for any other format
+ */
+export function readAudioLayout(bytes: Uint8Array): AudioLayout | null {
+  if (!isSplittableAudio(bytes.subarray(0, 16))) return null
+  return readWavLayout(bytes) || readMp3Layout(bytes)
+}
+
+/**
+ * A standalone file holding the audio between two times (in seconds)
+ */
+export function sliceAudio(
+  bytes: Uint8Array,
+  layout: AudioLayout,
+  start: number,
+  end: number,
+): Uint8Array<ArrayBuffer> {
+  if (layout.format === "wav") {
+    const toByte = (seconds: number) =>
+      Math.min(
+        layout.dataSize,
+        Math.floor((Math.max(0, seconds) * layout.bytesPerSecond) / layout.blockAlign) * layout.blockAlign,
+      )
+    const data = bytes.subarray(layout.dataOffset + toByte(start), layout.dataOffset + toByte(end))
+
+    const file = new Uint8Array(12 + layout.fmtChunk.length + 8 + data.length)
+    file.set([0x52, 0x49, 0x46, 0x46], 0) // "RIFF"
+    writeUint32(file, 4, file.length - 8)
+    file.set([0x57, 0x41, 0x56, 0x45], 8) // "WAVE"
+    file.set(layout.fmtChunk, 12)
+    const dataHeader = 12 + layout.fmtChunk.length
+    file.set([0x64, 0x61, 0x74, 0x61], dataHeader) // "data"
+    writeUint32(file, dataHeader + 4, data.length)
+    file.set(data, dataHeader + 8)
+    return file
+  }
+
+  // First frame starting at or after a time
+  const frameAt = (seconds: number) => {
+    let low = 0
+    let high = layout.frameTimes.length
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2)
+      if (layout.frameTimes[mid] < seconds) low = mid + 1
+      else high = mid
+    }
+    return low
+  }
+
+  const first = frameAt(start)
+  const last = frameAt(end)
+  const from = layout.frameOffsets[first] ?? layout.endOffset
+  const to = layout.frameOffsets[last] ?? layout.endOffset
+  return bytes.slice(from, to)
+}
+
+// ============================================================================
+// Planning and stitching
+// ============================================================================
+
+/**
+ * Whether a recording is too big or too long for one request
+ */
+export function needsChunking(sizeBytes: number, layout: AudioLayout | null): boolean {
+  return sizeBytes > MAX_CHUNK_BYTES || (layout !== null && layout.duration > CHUNK_SECONDS)
+}
+
+/**
+ * Longest part that stays under MAX_CHUNK_BYTES at this bit rate
+ */
+export function getChunkSeconds(bytesPerSecond: number): number {
+  const fitsInRequest = Math.floor((MAX_CHUNK_BYTES * 0.95) / bytesPerSecond)
+  return Math.max(MIN_CHUNK_SECONDS, Math.min(CHUNK_SECONDS, fitsInRequest))
+}
+
+/**
+ * Overlapping parts covering the whole recording
+ * Each part starts overlapSeconds before the previous one ends; no part is planned that
+ * would only repeat the overlap.
+ */
+export function planAudioChunks(
+  duration: number,
+  chunkSeconds: number = CHUNK_SECONDS,
+  overlapSeconds: number = CHUNK_OVERLAP_SECONDS,
+): AudioChunk[] {
+  const step = chunkSeconds - overlapSeconds
+  const chunks: AudioChunk[] = []
+
+  for (let start = 0; chunks.length === 0 || start + overlapSeconds < duration; start += step) {
+    chunks.push({ index: chunks.length, start, end: Math.min(start + chunkSeconds, duration) })
+  }
+
+  return chunks
+}
+
+/**
+ * Parts already transcribed for this split of the recording
+ * Progress saved for a different split (other part length or overlap) is not reused.
+ */
+export function getResumableChunks(
+  saved: unknown,
+  plan: { chunkSeconds: number; overlapSeconds: number; chunks: AudioChunk[] },
+): TranscribedChunk[] {
+  if (!saved || typeof saved !== "object") return []
+  const progress = saved as Partial<AudioTranscriptionProgress>
+
+  if (
+    progress.chunk_seconds !== plan.chunkSeconds ||
+    progress.overlap_seconds !== plan.overlapSeconds ||
+    progress.chunk_count !== plan.chunks.length ||
+    !Array.isArray(progress.chunks)
+  ) {
+    return []
+  }
+
+  return progress.chunks.flatMap((chunk) => {
+    const planned = plan.chunks[chunk?.index]
+    if (!planned || typeof chunk.text !== "string") return []
+    return [{ ...planned, text: chunk.text, segments: normalizeTranscriptSegments(chunk.segments) }]
+  })
+}
+
+/**
+ * One transcript from the transcribed parts, with segment times on the recording's timeline
+ * Where two parts overlap, segments starting before the middle of the overlap come from the
+ * earlier part and the rest from the later one. If any part came back without timings, the
+ * parts' texts are joined whole and no segments are returned.
+ */
+export function stitchChunkTranscripts(chunks: TranscribedChunk[]): { text: string; segments: TranscriptSegment[] } {
+  const ordered = [...chunks].sort((a, b) => a.index - b.index)
+
+  if (ordered.some((chunk) => chunk.segments.length === 0)) {
+    return {
+      text: ordered
+        .map((chunk) => chunk.text.trim())
+        .filter(Boolean)
+        .join(" "),
+      segments: [],
+    }
+  }
+
+  const segments = ordered.flatMap((chunk, i) => {
+    const previous = ordered[i - 1]
+    const next = ordered[i + 1]
+    const keepFrom = previous ? (chunk.start + previous.end) / 2 : -Infinity
+    const keepUntil = next ? (next.start + chunk.end) / 2 : Infinity
+
+    return chunk.segments
+      .map((segment) => ({
+        start: chunk.start + segment.start,
+        end: chunk.start + segment.end,
+        text: segment.text,
+      }))
+      .filter((segment) => segment.start >= keepFrom && segment.start < keepUntil)
+  })
+
+  return { text: segmentsToText(segments), segments }
+}
@@ -0,0 +1,39 @@
+/**
+ * Comment thread helpers
+ */
+
+import type { ArtifactComment, ArtifactCommentThread } from "@/lib/types/comments"
+
+/** Deeper replies are still shown, just without further indentation */
+export const MAX_COMMENT_INDENT_DEPTH = 3
+
+/**
+ * Nest a flat list of comments into threads, oldest first at every level
+ * Replies whose parent is missing are promoted to top-level so nothing disappears
+ */
+export function buildCommentThreads(comments: ArtifactComment[]): ArtifactCommentThread[] {
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const nodes = new Map<string, ArtifactCommentThread>(
+    sorted.map((comment) => [comment.id, { ...comment, replies: [] }])
+  )
+
+  const threads: ArtifactCommentThread[] = []
+  for (const comment of sorted) {
+    const node = nodes.get(comment.id)!
+    const parent = comment.parent_id ? nodes.get(comment.parent_id) : undefined
+    if (parent) {
+      parent.replies.push(node)
+    } else {
+      threads.push(node)
+    }
+  }
+
+  return threads
+}
+
+/**
+ * Number of comments that still have content (tombstones aren't counted)
+ */
+export function countVisibleComments(comments: ArtifactComment[]): number {
+  return comments.filter((comment) => !comment.deleted_at).length
+}
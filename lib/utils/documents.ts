@@ -0,0 +1,59 @@
+/**
+ * Utilities for document artifacts: letters, recipes, postcards, certificates
+ *
+ * Types with analysis_mode "document" have the full text of each photographed page
+ * transcribed into artifacts.image_transcriptions (keyed by image URL), instead of
+ * only a short caption.
+ */
+
+import { isImageUrl } from "@/lib/media"
+import type { AnalysisMode } from "@/lib/types/artifact-types"
+
+// Pages transcribed by one analysis run; a long letter rarely runs past this
+export const MAX_DOCUMENT_PAGES = 20
+
+// What the model writes for words it can't make out
+export const ILLEGIBLE_MARKER = "[illegible]"
+
+export function isDocumentType(type: { analysis_mode?: AnalysisMode | string | null } | null | undefined): boolean {
+  return type?.analysis_mode === "document"
+}
+
+/**
+ * The artifact's pages in reading order: gallery images first, in gallery order, then images
+ * in media blocks. Each image appears once.
+ */
+export function getDocumentPageUrls(galleryUrls: string[], mediaUrls: string[]): string[] {
+  return Array.from(new Set([...galleryUrls, ...mediaUrls])).filter((url) => isImageUrl(url))
+}
+
+/**
+ * Tidy a transcription from the model without touching its line breaks
+ * Drops a wrapping code fence, Windows line endings and trailing spaces, and blank lines at
+ * either end.
+ */
+export function cleanDocumentTranscription(text: string): string {
+  const fenced = text.trim().match(/^```[a-z]*\n([\s\S]*?)\n?```$/i)
+  const unfenced = fenced ? fenced[1] : text
+
+  return unfenced
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/\s+$/, ""))
+    .join("\n")
+    .replace(/^\n+|\n+$/g, "")
+}
+
+/**
+ * All transcribed pages as one text, in page order
+ * Pages are headed "Page N" when there's more than one; pages with no text are left out.
+ */
+export function getDocumentText(pageUrls: string[], transcriptions: Record<string, string> | null | undefined): string {
+  const pages = pageUrls
+    .map((url, index) => ({ number: index + 1, text: transcriptions?.[url]?.trim() || "" }))
+    .filter((page) => page.text)
+
+  if (pages.length <= 1) return pages[0]?.text || ""
+
+  return pages.map((page) => `Page ${page.number}\n${page.text}`).join("\n\n")
+}
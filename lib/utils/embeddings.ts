@@ -0,0 +1,63 @@
+/**
+ * Utilities for artifact embeddings (see lib/embeddings.ts for providers)
+ */
+
+// Embedding models cap input length; the start of each field carries most of the meaning
+export const MAX_EMBEDDING_TEXT_LENGTH = 8000
+const MAX_FIELD_LENGTH = 3000
+
+export interface EmbeddableArtifact {
+  title?: string | null
+  description?: string | null
+  ai_description?: string | null
+  transcript?: string | null
+  interview_transcript?: string | null
+  video_summaries?: Record<string, string> | null
+  audio_summaries?: Record<string, string> | null
+  audio_transcripts?: Record<string, string> | null
+  image_transcriptions?: Record<string, string> | null
+}
+
+function mapValues(map: Record<string, string> | null | undefined): string[] {
+  if (!map || typeof map !== "object") return []
+  return Object.values(map).filter((value): value is string => typeof value === "string")
+}
+
+/**
+ * Text an artifact is embedded from: title, description, transcripts, interview, document text and AI summaries
+ * Returns "" when there is nothing worth embedding
+ */
+export function buildArtifactEmbeddingText(artifact: EmbeddableArtifact): string {
+  const sections: [string, string[]][] = [
+    ["Title", [artifact.title || ""]],
+    ["Description", [artifact.description || ""]],
+    ["Summary", [artifact.ai_description || ""]],
+    ["Audio summaries", mapValues(artifact.audio_summaries)],
+    ["Video summaries", mapValues(artifact.video_summaries)],
+    ["Transcript", [artifact.transcript || "", ...mapValues(artifact.audio_transcripts)]],
+    ["Interview", [artifact.interview_transcript || ""]],
+    ["Document text", mapValues(artifact.image_transcriptions)],
+  ]
+
+  const text = sections
+    .map(([label, values]) => {
+      const content = values
+        .map((value) => value.trim())
+        .filter(Boolean)
+        .join("\n")
+      return content ? `${label}: ${content.slice(0, MAX_FIELD_LENGTH)}` : ""
+    })
+    .filter(Boolean)
+
+  // A title alone says too little to find related artifacts
+  if (text.length <= 1) return ""
+
+  return text.join("\n\n").slice(0, MAX_EMBEDDING_TEXT_LENGTH)
+}
+
+/**
+ * Format an embedding as a pgvector literal for RPC parameters and inserts
+ */
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(",")}]`
+}
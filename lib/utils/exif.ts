@@ -0,0 +1,133 @@
+/**
+ * Read the GPS position from a JPEG's EXIF metadata
+ *
+ * Only the few tags needed are read: the GPS IFD pointer in IFD0, then latitude and
+ * longitude with their N/S and E/W references. EXIF sits near the start of the file,
+ * so the first EXIF_READ_BYTES are enough.
+ */
+
+import type { LatLng } from "@/lib/utils/map"
+
+export const EXIF_READ_BYTES = 128 * 1024
+
+const GPS_IFD_POINTER = 0x8825
+const GPS_LATITUDE_REF = 0x0001
+const GPS_LATITUDE = 0x0002
+const GPS_LONGITUDE_REF = 0x0003
+const GPS_LONGITUDE = 0x0004
+
+const TYPE_ASCII = 2
+const TYPE_LONG = 4
+const TYPE_RATIONAL = 5
+
+interface IfdEntry {
+  type: number
+  count: number
+  // Offset of the value, or of the entry's value field when it fits in 4 bytes
+  valueOffset: number
+}
+
+function readIfd(view: DataView, tiffStart: number, offset: number, little: boolean) {
+  const entries = new Map<number, IfdEntry>()
+  const start = tiffStart + offset
+  const count = view.getUint16(start, little)
+
+  for (let i = 0; i < count; i++) {
+    const entryStart = start + 2 + i * 12
+    const type = view.getUint16(entryStart + 2, little)
+    const valueCount = view.getUint32(entryStart + 4, little)
+    const size = (type === TYPE_RATIONAL ? 8 : type === TYPE_LONG ? 4 : 1) * valueCount
+    entries.set(view.getUint16(entryStart, little), {
+      type,
+      count: valueCount,
+      valueOffset: size > 4 ? tiffStart + view.getUint32(entryStart + 8, little) : entryStart + 8,
+    })
+  }
+
+  return entries
+}
+
+function readDegrees(view: DataView, entry: IfdEntry | undefined, little: boolean): number | null {
+  if (!entry || entry.type !== TYPE_RATIONAL || entry.count < 3) return null
+
+  const [degrees, minutes, seconds] = [0, 1, 2].map((i) => {
+    const numerator = view.getUint32(entry.valueOffset + i * 8, little)
+    const denominator = view.getUint32(entry.valueOffset + i * 8 + 4, little)
+    return denominator === 0 ? NaN : numerator / denominator
+  })
+
+  const value = degrees + minutes / 60 + seconds / 3600
+  return Number.isFinite(value) ? value : null
+}
+
+function readRef(view: DataView, entry: IfdEntry | undefined): string | null {
+  if (!entry || entry.type !== TYPE_ASCII) return null
+  return String.fromCharCode(view.getUint8(entry.valueOffset)).toUpperCase()
+}
+
+/**
+ * The offset of the TIFF header inside a JPEG's EXIF segment, if it has one
+ */
+function findTiffStart(view: DataView): number | null {
+  if (view.getUint16(0) !== 0xffd8) return null
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    // Image data follows the start of scan; no metadata after it
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null
+
+    const length = view.getUint16(offset + 2)
+    const isExif =
+      marker === 0xffe1 &&
+      view.getUint32(offset + 4) === 0x45786966 && // "Exif"
+      view.getUint16(offset + 8) === 0
+    if (isExif) return offset + 10
+
+    offset += 2 + length
+  }
+
+  return null
+}
+
+/**
+ * The GPS position a photo was taken at, or null when it has none (or isn't a JPEG)
+ */
+export function readExifGps(bytes: ArrayBuffer | Uint8Array): LatLng | null {
+  const view =
+    bytes instanceof Uint8Array
+      ? new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+      : new DataView(bytes)
+
+  try {
+    const tiffStart = findTiffStart(view)
+    if (tiffStart === null) return null
+
+    const byteOrder = view.getUint16(tiffStart)
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null
+    const little = byteOrder === 0x4949
+
+    const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little)
+    const gpsPointer = ifd0.get(GPS_IFD_POINTER)
+    if (!gpsPointer) return null
+
+    const gps = readIfd(view, tiffStart, view.getUint32(gpsPointer.valueOffset, little), little)
+    const latitude = readDegrees(view, gps.get(GPS_LATITUDE), little)
+    const longitude = readDegrees(view, gps.get(GPS_LONGITUDE), little)
+    if (latitude === null || longitude === null) return null
+
+    const position = {
+      latitude: readRef(view, gps.get(GPS_LATITUDE_REF)) === "S" ? -latitude : latitude,
+      longitude: readRef(view, gps.get(GPS_LONGITUDE_REF)) === "W" ? -longitude : longitude,
+    }
+
+    // Cameras without a fix write zeros
+    if (position.latitude === 0 && position.longitude === 0) return null
+    if (Math.abs(position.latitude) > 90 || Math.abs(position.longitude) > 180) return null
+    return position
+  } catch (error) {
+    // Truncated or malformed metadata reads past the end of the buffer
+    if (error instanceof RangeError) return null
+    throw error
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Family role helpers
+ *
+ * Roles are ordered (viewer < contributor < editor) and mirror
+ * family_role_rank() in 019_create_families.sql.
+ */
+
+import type { FamilyRole } from "@/lib/types/families"
+
+export const FAMILY_ROLES: FamilyRole[] = ["viewer", "contributor", "editor"]
+
+export const FAMILY_ROLE_LABELS: Record<FamilyRole, string> = {
+  viewer: "Viewer",
+  contributor: "Contributor",
+  editor: "Editor",
+}
+
+export const FAMILY_ROLE_DESCRIPTIONS: Record<FamilyRole, string> = {
+  viewer: "Can view the family's collections",
+  contributor: "Can view and add artifacts to family collections",
+  editor: "Can edit any family artifact and manage members",
+}
+
+export function isFamilyRole(value: unknown): value is FamilyRole {
+  return typeof value === "string" && (FAMILY_ROLES as string[]).includes(value)
+}
+
+/**
+ * Check whether a role meets a minimum role (null = not a member)
+ */
+export function hasFamilyRole(role: FamilyRole | null | undefined, minRole: FamilyRole): boolean {
+  if (!role) return false
+  return FAMILY_ROLES.indexOf(role) >= FAMILY_ROLES.indexOf(minRole)
+}
@@ -0,0 +1,617 @@
+/**
+ * Offline gazetteer: countries, US states and cities with their coordinates
+ *
+ * Places are geocoded from this list rather than a live geocoding API, so origins like
+ * "Lucca, Italy" land on the map without a network call. Places it doesn't know are
+ * pinned by hand. Coordinates are city centres (capitals for countries), to two decimals.
+ */
+
+import type { GazetteerPlace } from "@/lib/types/places"
+
+// [name, country (null for countries), latitude, longitude, other names]
+type Entry = [string, string | null, number, number, string[]?]
+
+const COUNTRIES: Entry[] = [
+  ["Argentina", null, -34.6, -58.38],
+  ["Armenia", null, 40.18, 44.51],
+  ["Australia", null, -35.28, 149.13],
+  ["Austria", null, 48.21, 16.37],
+  ["Belarus", null, 53.9, 27.57],
+  ["Belgium", null, 50.85, 4.35],
+  ["Bosnia and Herzegovina", null, 43.86, 18.41, ["Bosnia"]],
+  ["Brazil", null, -15.79, -47.88],
+  ["Bulgaria", null, 42.7, 23.32],
+  ["Canada", null, 45.42, -75.7],
+  ["Chile", null, -33.45, -70.67],
+  ["China", null, 39.9, 116.41],
+  ["Colombia", null, 4.71, -74.07],
+  ["Croatia", null, 45.81, 15.98],
+  ["Cuba", null, 23.11, -82.37],
+  ["Cyprus", null, 35.17, 33.36],
+  ["Czech Republic", null, 50.08, 14.44, ["Czechia", "Czechoslovakia", "Bohemia"]],
+  ["Denmark", null, 55.68, 12.57],
+  ["Dominican Republic", null, 18.49, -69.93],
+  ["Egypt", null, 30.04, 31.24],
+  ["England", null, 51.51, -0.13],
+  ["Estonia", null, 59.44, 24.75],
+  ["Ethiopia", null, 9.03, 38.74],
+  ["Finland", null, 60.17, 24.94],
+  ["France", null, 48.86, 2.35],
+  ["Germany", null, 52.52, 13.41, ["Prussia", "Deutschland"]],
+  ["Ghana", null, 5.6, -0.19],
+  ["Greece", null, 37.98, 23.73],
+  ["Guatemala", null, 14.63, -90.51],
+  ["Haiti", null, 18.54, -72.34],
+  ["Hungary", null, 47.5, 19.04],
+  ["Iceland", null, 64.15, -21.94],
+  ["India", null, 28.61, 77.21],
+  ["Indonesia", null, -6.21, 106.85],
+  ["Iran", null, 35.69, 51.39, ["Persia"]],
+  ["Iraq", null, 33.31, 44.37],
+  ["Ireland", null, 53.35, -6.26, ["Eire"]],
+  ["Israel", null, 31.77, 35.21],
+  ["Italy", null, 41.9, 12.5, ["Italia"]],
+  ["Jamaica", null, 18.0, -76.79],
+  ["Japan", null, 35.68, 139.69],
+  ["Jordan", null, 31.95, 35.93],
+  ["Kenya", null, -1.29, 36.82],
+  ["Latvia", null, 56.95, 24.11],
+  ["Lebanon", null, 33.89, 35.5],
+  ["Lithuania", null, 54.69, 25.28],
+  ["Luxembourg", null, 49.61, 6.13],
+  ["Malta", null, 35.9, 14.51],
+  ["Mexico", null, 19.43, -99.13, ["México"]],
+  ["Moldova", null, 47.01, 28.86],
+  ["Morocco", null, 34.02, -6.84],
+  ["Netherlands", null, 52.37, 4.9, ["Holland", "The Netherlands"]],
+  ["New Zealand", null, -41.29, 174.78],
+  ["Nigeria", null, 9.08, 7.4],
+  ["North Macedonia", null, 42.0, 21.43, ["Macedonia"]],
+  ["Northern Ireland", null, 54.6, -5.93],
+  ["Norway", null, 59.91, 10.75],
+  ["Pakistan", null, 33.68, 73.05],
+  ["Peru", null, -12.05, -77.04],
+  ["Philippines", null, 14.6, 120.98],
+  ["Poland", null, 52.23, 21.01, ["Polska"]],
+  ["Portugal", null, 38.72, -9.14],
+  ["Puerto Rico", null, 18.47, -66.11],
+  ["Romania", null, 44.43, 26.1],
+  ["Russia", null, 55.76, 37.62, ["Russian Empire", "Soviet Union", "USSR"]],
+  ["Scotland", null, 55.95, -3.19],
+  ["Serbia", null, 44.79, 20.45, ["Yugoslavia"]],
+  ["Slovakia", null, 48.15, 17.11],
+  ["Slovenia", null, 46.06, 14.51],
+  ["South Africa", null, -25.75, 28.19],
+  ["South Korea", null, 37.57, 126.98, ["Korea"]],
+  ["Spain", null, 40.42, -3.7, ["España"]],
+  ["Sri Lanka", null, 6.93, 79.85, ["Ceylon"]],
+  ["Sweden", null, 59.33, 18.07],
+  ["Switzerland", null, 46.95, 7.45],
+  ["Syria", null, 33.51, 36.29],
+  ["Taiwan", null, 25.03, 121.57],
+  ["Thailand", null, 13.76, 100.5, ["Siam"]],
+  ["Turkey", null, 39.93, 32.86, ["Türkiye", "Ottoman Empire"]],
+  ["Ukraine", null, 50.45, 30.52],
+  ["United Kingdom", null, 51.51, -0.13, ["UK", "U.K.", "Great Britain", "Britain"]],
+  [
+    "United States",
+    null,
+    38.91,
+    -77.04,
+    ["USA", "U.S.A.", "US", "U.S.", "United States of America", "America"],
+  ],
+  ["Venezuela", null, 10.48, -66.9],
+  ["Vietnam", null, 21.03, 105.85, ["Viet Nam"]],
+  ["Wales", null, 51.48, -3.18],
+]
+
+const US_STATES: Entry[] = [
+  ["Alabama", "United States", 32.81, -86.79, ["AL"]],
+  ["Alaska", "United States", 61.37, -152.4, ["AK"]],
+  ["Arizona", "United States", 33.73, -111.43, ["AZ"]],
+  ["Arkansas", "United States", 34.97, -92.37, ["AR"]],
+  ["California", "United States", 36.12, -119.68, ["CA"]],
+  ["Colorado", "United States", 39.06, -105.31, ["CO"]],
+  ["Connecticut", "United States", 41.6, -72.76, ["CT"]],
+  ["Delaware", "United States", 39.32, -75.51, ["DE"]],
+  ["Florida", "United States", 27.77, -81.69, ["FL"]],
+  ["Georgia", "United States", 33.04, -83.64, ["GA"]],
+  ["Hawaii", "United States", 21.09, -157.5, ["HI"]],
+  ["Idaho", "United States", 44.24, -114.48, ["ID"]],
+  ["Illinois", "United States", 40.35, -88.99, ["IL"]],
+  ["Indiana", "United States", 39.85, -86.26, ["IN"]],
+  ["Iowa", "United States", 42.01, -93.21, ["IA"]],
+  ["Kansas", "United States", 38.53, -96.73, ["KS"]],
+  ["Kentucky", "United States", 37.67, -84.67, ["KY"]],
+  ["Louisiana", "United States", 31.17, -91.87, ["LA"]],
+  ["Maine", "United States", 44.69, -69.38, ["ME"]],
+  ["Maryland", "United States", 39.06, -76.8, ["MD"]],
+  ["Massachusetts", "United States", 42.23, -71.53, ["MA"]],
+  ["Michigan", "United States", 43.33, -84.54, ["MI"]],
+  ["Minnesota", "United States", 45.69, -93.9, ["MN"]],
+  ["Mississippi", "United States", 32.74, -89.68, ["MS"]],
+  ["Missouri", "United States", 38.46, -92.29, ["MO"]],
+  ["Montana", "United States", 46.92, -110.45, ["MT"]],
+  ["Nebraska", "United States", 41.13, -98.27, ["NE"]],
+  ["Nevada", "United States", 38.31, -117.06, ["NV"]],
+  ["New Hampshire", "United States", 43.45, -71.56, ["NH"]],
+  ["New Jersey", "United States", 40.3, -74.52, ["NJ"]],
+  ["New Mexico", "United States", 34.84, -106.25, ["NM"]],
+  ["New York State", "United States", 42.17, -74.95, ["NY"]],
+  ["North Carolina", "United States", 35.63, -79.81, ["NC"]],
+  ["North Dakota", "United States", 47.53, -99.78, ["ND"]],
+  ["Ohio", "United States", 40.39, -82.76, ["OH"]],
+  ["Oklahoma", "United States", 35.57, -96.93, ["OK"]],
+  ["Oregon", "United States", 44.57, -122.07, ["OR"]],
+  ["Pennsylvania", "United States", 40.59, -77.21, ["PA"]],
+  ["Rhode Island", "United States", 41.68, -71.51, ["RI"]],
+  ["South Carolina", "United States", 33.86, -80.95, ["SC"]],
+  ["South Dakota", "United States", 44.3, -99.44, ["SD"]],
+  ["Tennessee", "United States", 35.75, -86.69, ["TN"]],
+  ["Texas", "United States", 31.05, -97.56, ["TX"]],
+  ["Utah", "United States", 40.15, -111.86, ["UT"]],
+  ["Vermont", "United States", 44.05, -72.71, ["VT"]],
+  ["Virginia", "United States", 37.77, -78.17, ["VA"]],
+  ["Washington State", "United States", 47.4, -121.49, ["WA"]],
+  ["West Virginia", "United States", 38.49, -80.95, ["WV"]],
+  ["Wisconsin", "United States", 44.27, -89.62, ["WI"]],
+  ["Wyoming", "United States", 42.76, -107.3, ["WY"]],
+]
+
+const CITIES: Entry[] = [
+  // United States
+  ["New York", "United States", 40.71, -74.01, ["New York City", "NYC"]],
+  ["Brooklyn", "United States", 40.68, -73.94],
+  ["Ellis Island", "United States", 40.7, -74.04],
+  ["Los Angeles", "United States", 34.05, -118.24],
+  ["Chicago", "United States", 41.88, -87.63],
+  ["Houston", "United States", 29.76, -95.37],
+  ["Phoenix", "United States", 33.45, -112.07],
+  ["Philadelphia", "United States", 39.95, -75.17],
+  ["San Antonio", "United States", 29.42, -98.49],
+  ["San Diego", "United States", 32.72, -117.16],
+  ["Dallas", "United States", 32.78, -96.8],
+  ["San Francisco", "United States", 37.77, -122.42],
+  ["Seattle", "United States", 47.61, -122.33],
+  ["Portland", "United States", 45.52, -122.68],
+  ["Denver", "United States", 39.74, -104.99],
+  ["Boston", "United States", 42.36, -71.06],
+  ["Baltimore", "United States", 39.29, -76.61],
+  ["Washington", "United States", 38.91, -77.04, ["Washington, D.C.", "Washington DC", "D.C."]],
+  ["Pittsburgh", "United States", 40.44, -80.0],
+  ["Cleveland", "United States", 41.5, -81.69],
+  ["Detroit", "United States", 42.33, -83.05],
+  ["Milwaukee", "United States", 43.04, -87.91],
+  ["Minneapolis", "United States", 44.98, -93.27],
+  ["St. Louis", "United States", 38.63, -90.2, ["Saint Louis", "St Louis"]],
+  ["Kansas City", "United States", 39.1, -94.58],
+  ["Cincinnati", "United States", 39.1, -84.51],
+  ["Buffalo", "United States", 42.89, -78.88],
+  ["New Orleans", "United States", 29.95, -90.07],
+  ["Atlanta", "United States", 33.75, -84.39],
+  ["Miami", "United States", 25.76, -80.19],
+  ["Nashville", "United States", 36.16, -86.78],
+  ["Charleston", "United States", 32.78, -79.93],
+  ["Providence", "United States", 41.82, -71.41],
+  ["Hartford", "United States", 41.76, -72.67],
+  ["Newark", "United States", 40.74, -74.17],
+  ["Salt Lake City", "United States", 40.76, -111.89],
+  ["Honolulu", "United States", 21.31, -157.86],
+  ["Anchorage", "United States", 61.22, -149.9],
+  ["Las Vegas", "United States", 36.17, -115.14],
+  ["Austin", "United States", 30.27, -97.74],
+  ["Omaha", "United States", 41.26, -95.93],
+  ["Indianapolis", "United States", 39.77, -86.16],
+  ["Columbus", "United States", 39.96, -83.0],
+  ["Richmond", "United States", 37.54, -77.44],
+  ["Savannah", "United States", 32.08, -81.09],
+  ["Albany", "United States", 42.65, -73.75],
+  ["Sacramento", "United States", 38.58, -121.49],
+  ["Scranton", "United States", 41.41, -75.66],
+  // Canada
+  ["Toronto", "Canada", 43.65, -79.38],
+  ["Montreal", "Canada", 45.5, -73.57, ["Montréal"]],
+  ["Vancouver", "Canada", 49.28, -123.12],
+  ["Ottawa", "Canada", 45.42, -75.7],
+  ["Quebec City", "Canada", 46.81, -71.21, ["Québec"]],
+  ["Winnipeg", "Canada", 49.9, -97.14],
+  ["Halifax", "Canada", 44.65, -63.58],
+  ["Calgary", "Canada", 51.05, -114.07],
+  ["Edmonton", "Canada", 53.55, -113.49],
+  // Mexico, Caribbean and South America
+  ["Mexico City", "Mexico", 19.43, -99.13, ["Ciudad de México"]],
+  ["Guadalajara", "Mexico", 20.66, -103.35],
+  ["Monterrey", "Mexico", 25.69, -100.32],
+  ["Oaxaca", "Mexico", 17.07, -96.73],
+  ["Havana", "Cuba", 23.11, -82.37, ["La Habana"]],
+  ["San Juan", "Puerto Rico", 18.47, -66.11],
+  ["Santo Domingo", "Dominican Republic", 18.49, -69.93],
+  ["Kingston", "Jamaica", 18.0, -76.79],
+  ["Port-au-Prince", "Haiti", 18.54, -72.34],
+  ["Buenos Aires", "Argentina", -34.6, -58.38],
+  ["São Paulo", "Brazil", -23.55, -46.63, ["Sao Paulo"]],
+  ["Rio de Janeiro", "Brazil", -22.91, -43.17],
+  ["Santiago", "Chile", -33.45, -70.67],
+  ["Lima", "Peru", -12.05, -77.04],
+  ["Bogotá", "Colombia", 4.71, -74.07, ["Bogota"]],
+  ["Caracas", "Venezuela", 10.48, -66.9],
+  // Ireland and the United Kingdom
+  ["Dublin", "Ireland", 53.35, -6.26],
+  ["Cork", "Ireland", 51.9, -8.47, ["County Cork"]],
+  ["Galway", "Ireland", 53.27, -9.05, ["County Galway"]],
+  ["Limerick", "Ireland", 52.66, -8.63],
+  ["Waterford", "Ireland", 52.26, -7.11],
+  ["Kerry", "Ireland", 52.06, -9.5, ["County Kerry"]],
+  ["Mayo", "Ireland", 53.86, -9.3, ["County Mayo"]],
+  ["Cobh", "Ireland", 51.85, -8.29, ["Queenstown"]],
+  ["Belfast", "Northern Ireland", 54.6, -5.93],
+  ["Derry", "Northern Ireland", 55.0, -7.32, ["Londonderry"]],
+  ["London", "England", 51.51, -0.13],
+  ["Liverpool", "England", 53.41, -2.98],
+  ["Manchester", "England", 53.48, -2.24],
+  ["Birmingham", "England", 52.49, -1.89],
+  ["Leeds", "England", 53.8, -1.55],
+  ["Sheffield", "England", 53.38, -1.47],
+  ["Bristol", "England", 51.45, -2.59],
+  ["Newcastle", "England", 54.98, -1.61, ["Newcastle upon Tyne"]],
+  ["York", "England", 53.96, -1.08],
+  ["Southampton", "England", 50.9, -1.4],
+  ["Plymouth", "England", 50.38, -4.14],
+  ["Oxford", "England", 51.75, -1.26],
+  ["Cambridge", "England", 52.21, 0.12],
+  ["Edinburgh", "Scotland", 55.95, -3.19],
+  ["Glasgow", "Scotland", 55.86, -4.25],
+  ["Aberdeen", "Scotland", 57.15, -2.09],
+  ["Inverness", "Scotland", 57.48, -4.22],
+  ["Cardiff", "Wales", 51.48, -3.18],
+  ["Swansea", "Wales", 51.62, -3.94],
+  // Italy
+  ["Rome", "Italy", 41.9, 12.5, ["Roma"]],
+  ["Milan", "Italy", 45.46, 9.19, ["Milano"]],
+  ["Naples", "Italy", 40.85, 14.27, ["Napoli"]],
+  ["Turin", "Italy", 45.07, 7.69, ["Torino"]],
+  ["Palermo", "Italy", 38.12, 13.36],
+  ["Genoa", "Italy", 44.41, 8.93, ["Genova"]],
+  ["Bologna", "Italy", 44.49, 11.34],
+  ["Florence", "Italy", 43.77, 11.26, ["Firenze"]],
+  ["Venice", "Italy", 45.44, 12.32, ["Venezia"]],
+  ["Verona", "Italy", 45.44, 10.99],
+  ["Bari", "Italy", 41.12, 16.87],
+  ["Catania", "Italy", 37.5, 15.09],
+  ["Messina", "Italy", 38.19, 15.55],
+  ["Lucca", "Italy", 43.84, 10.5],
+  ["Pisa", "Italy", 43.72, 10.4],
+  ["Siena", "Italy", 43.32, 11.33],
+  ["Parma", "Italy", 44.8, 10.33],
+  ["Trieste", "Italy", 45.65, 13.78],
+  ["Salerno", "Italy", 40.68, 14.77],
+  ["Reggio Calabria", "Italy", 38.11, 15.65],
+  ["Cosenza", "Italy", 39.3, 16.25],
+  ["Avellino", "Italy", 40.91, 14.79],
+  ["Potenza", "Italy", 40.64, 15.8],
+  ["Agrigento", "Italy", 37.31, 13.58],
+  ["Cagliari", "Italy", 39.22, 9.11],
+  ["Sicily", "Italy", 37.6, 14.02, ["Sicilia"]],
+  ["Sardinia", "Italy", 40.12, 9.01, ["Sardegna"]],
+  ["Calabria", "Italy", 39.31, 16.35],
+  ["Tuscany", "Italy", 43.77, 11.25, ["Toscana"]],
+  ["Abruzzo", "Italy", 42.19, 13.73],
+  ["Campania", "Italy", 40.84, 14.25],
+  ["Apulia", "Italy", 41.13, 16.87, ["Puglia"]],
+  ["Friuli", "Italy", 46.07, 13.23],
+  // France, Benelux and the Alps
+  ["Paris", "France", 48.86, 2.35],
+  ["Marseille", "France", 43.3, 5.37, ["Marseilles"]],
+  ["Lyon", "France", 45.76, 4.84, ["Lyons"]],
+  ["Bordeaux", "France", 44.84, -0.58],
+  ["Toulouse", "France", 43.6, 1.44],
+  ["Nice", "France", 43.7, 7.27],
+  ["Strasbourg", "France", 48.57, 7.75],
+  ["Le Havre", "France", 49.49, 0.11],
+  ["Brittany", "France", 48.2, -2.93, ["Bretagne"]],
+  ["Alsace", "France", 48.32, 7.44],
+  ["Normandy", "France", 49.18, -0.37, ["Normandie"]],
+  ["Brussels", "Belgium", 50.85, 4.35, ["Bruxelles"]],
+  ["Antwerp", "Belgium", 51.22, 4.4, ["Antwerpen"]],
+  ["Amsterdam", "Netherlands", 52.37, 4.9],
+  ["Rotterdam", "Netherlands", 51.92, 4.48],
+  ["The Hague", "Netherlands", 52.08, 4.3, ["Den Haag"]],
+  ["Zurich", "Switzerland", 47.38, 8.54, ["Zürich"]],
+  ["Geneva", "Switzerland", 46.2, 6.14, ["Genève"]],
+  ["Bern", "Switzerland", 46.95, 7.45],
+  ["Vienna", "Austria", 48.21, 16.37, ["Wien"]],
+  ["Salzburg", "Austria", 47.81, 13.06],
+  ["Innsbruck", "Austria", 47.27, 11.39],
+  ["Graz", "Austria", 47.07, 15.44],
+  // Germany
+  ["Berlin", "Germany", 52.52, 13.41],
+  ["Hamburg", "Germany", 53.55, 9.99],
+  ["Bremen", "Germany", 53.08, 8.8],
+  ["Munich", "Germany", 48.14, 11.58, ["München"]],
+  ["Cologne", "Germany", 50.94, 6.96, ["Köln"]],
+  ["Frankfurt", "Germany", 50.11, 8.68, ["Frankfurt am Main"]],
+  ["Stuttgart", "Germany", 48.78, 9.18],
+  ["Düsseldorf", "Germany", 51.23, 6.77, ["Dusseldorf"]],
+  ["Leipzig", "Germany", 51.34, 12.37],
+  ["Dresden", "Germany", 51.05, 13.74],
+  ["Hanover", "Germany", 52.38, 9.73, ["Hannover"]],
+  ["Nuremberg", "Germany", 49.45, 11.08, ["Nürnberg"]],
+  ["Heidelberg", "Germany", 49.4, 8.67],
+  ["Bavaria", "Germany", 48.79, 11.5, ["Bayern"]],
+  ["Westphalia", "Germany", 51.48, 7.55, ["Westfalen"]],
+  ["Saxony", "Germany", 51.1, 13.2, ["Sachsen"]],
+  ["Königsberg", "Russia", 54.71, 20.51, ["Konigsberg", "Kaliningrad"]],
+  // Scandinavia and the Baltics
+  ["Copenhagen", "Denmark", 55.68, 12.57, ["København"]],
+  ["Oslo", "Norway", 59.91, 10.75, ["Christiania"]],
+  ["Bergen", "Norway", 60.39, 5.32],
+  ["Stockholm", "Sweden", 59.33, 18.07],
+  ["Gothenburg", "Sweden", 57.71, 11.97, ["Göteborg"]],
+  ["Malmö", "Sweden", 55.6, 13.0, ["Malmo"]],
+  ["Helsinki", "Finland", 60.17, 24.94, ["Helsingfors"]],
+  ["Reykjavik", "Iceland", 64.15, -21.94, ["Reykjavík"]],
+  ["Tallinn", "Estonia", 59.44, 24.75],
+  ["Riga", "Latvia", 56.95, 24.11],
+  ["Vilnius", "Lithuania", 54.69, 25.28, ["Vilna", "Wilno"]],
+  ["Kaunas", "Lithuania", 54.9, 23.9, ["Kovno"]],
+  // Central and Eastern Europe
+  ["Warsaw", "Poland", 52.23, 21.01, ["Warszawa"]],
+  ["Kraków", "Poland", 50.06, 19.94, ["Krakow", "Cracow"]],
+  ["Łódź", "Poland", 51.76, 19.46, ["Lodz"]],
+  ["Gdańsk", "Poland", 54.35, 18.65, ["Gdansk", "Danzig"]],
+  ["Wrocław", "Poland", 51.11, 17.04, ["Wroclaw", "Breslau"]],
+  ["Poznań", "Poland", 52.41, 16.93, ["Poznan", "Posen"]],
+  ["Lublin", "Poland", 51.25, 22.57],
+  ["Białystok", "Poland", 53.13, 23.16, ["Bialystok"]],
+  ["Galicia", "Poland", 49.84, 22.0],
+  ["Prague", "Czech Republic", 50.08, 14.44, ["Praha"]],
+  ["Brno", "Czech Republic", 49.2, 16.61],
+  ["Bratislava", "Slovakia", 48.15, 17.11, ["Pressburg"]],
+  ["Košice", "Slovakia", 48.72, 21.26, ["Kosice"]],
+  ["Budapest", "Hungary", 47.5, 19.04],
+  ["Debrecen", "Hungary", 47.53, 21.63],
+  ["Bucharest", "Romania", 44.43, 26.1, ["București"]],
+  ["Cluj-Napoca", "Romania", 46.77, 23.6, ["Cluj"]],
+  ["Iași", "Romania", 47.16, 27.59, ["Iasi", "Jassy"]],
+  ["Transylvania", "Romania", 46.5, 24.5],
+  ["Chișinău", "Moldova", 47.01, 28.86, ["Chisinau", "Kishinev"]],
+  ["Sofia", "Bulgaria", 42.7, 23.32],
+  ["Belgrade", "Serbia", 44.79, 20.45, ["Beograd"]],
+  ["Zagreb", "Croatia", 45.81, 15.98],
+  ["Split", "Croatia", 43.51, 16.44],
+  ["Dubrovnik", "Croatia", 42.65, 18.09],
+  ["Ljubljana", "Slovenia", 46.06, 14.51],
+  ["Sarajevo", "Bosnia and Herzegovina", 43.86, 18.41],
+  ["Skopje", "North Macedonia", 42.0, 21.43],
+  ["Minsk", "Belarus", 53.9, 27.57],
+  ["Pinsk", "Belarus", 52.11, 26.1],
+  ["Vitebsk", "Belarus", 55.19, 30.2],
+  ["Kyiv", "Ukraine", 50.45, 30.52, ["Kiev"]],
+  ["Odesa", "Ukraine", 46.48, 30.73, ["Odessa"]],
+  ["Lviv", "Ukraine", 49.84, 24.03, ["Lemberg", "Lwów", "Lvov"]],
+  ["Kharkiv", "Ukraine", 49.99, 36.23, ["Kharkov"]],
+  ["Berdychiv", "Ukraine", 49.9, 28.6, ["Berdichev"]],
+  ["Moscow", "Russia", 55.76, 37.62],
+  ["Saint Petersburg", "Russia", 59.93, 30.34, ["St. Petersburg", "Leningrad", "Petrograd"]],
+  // Southern Europe and the Mediterranean
+  ["Madrid", "Spain", 40.42, -3.7],
+  ["Barcelona", "Spain", 41.39, 2.17],
+  ["Seville", "Spain", 37.39, -5.98, ["Sevilla"]],
+  ["Valencia", "Spain", 39.47, -0.38],
+  ["Bilbao", "Spain", 43.26, -2.93],
+  ["Galicia", "Spain", 42.76, -7.87],
+  ["Lisbon", "Portugal", 38.72, -9.14, ["Lisboa"]],
+  ["Porto", "Portugal", 41.15, -8.61, ["Oporto"]],
+  ["Azores", "Portugal", 37.74, -25.68, ["Açores"]],
+  ["Madeira", "Portugal", 32.65, -16.91],
+  ["Athens", "Greece", 37.98, 23.73, ["Athina"]],
+  ["Thessaloniki", "Greece", 40.64, 22.94, ["Salonika"]],
+  ["Crete", "Greece", 35.24, 24.81],
+  ["Valletta", "Malta", 35.9, 14.51],
+  ["Nicosia", "Cyprus", 35.17, 33.36],
+  ["Istanbul", "Turkey", 41.01, 28.98, ["Constantinople"]],
+  ["Izmir", "Turkey", 38.42, 27.14, ["Smyrna"]],
+  ["Ankara", "Turkey", 39.93, 32.86],
+  // Middle East and Africa
+  ["Beirut", "Lebanon", 33.89, 35.5],
+  ["Damascus", "Syria", 33.51, 36.29],
+  ["Aleppo", "Syria", 36.2, 37.16],
+  ["Jerusalem", "Israel", 31.77, 35.21],
+  ["Tel Aviv", "Israel", 32.09, 34.78],
+  ["Amman", "Jordan", 31.95, 35.93],
+  ["Baghdad", "Iraq", 33.31, 44.37],
+  ["Tehran", "Iran", 35.69, 51.39],
+  ["Yerevan", "Armenia", 40.18, 44.51],
+  ["Cairo", "Egypt", 30.04, 31.24],
+  ["Alexandria", "Egypt", 31.2, 29.92],
+  ["Casablanca", "Morocco", 33.57, -7.59],
+  ["Marrakesh", "Morocco", 31.63, -8.0, ["Marrakech"]],
+  ["Lagos", "Nigeria", 6.52, 3.38],
+  ["Accra", "Ghana", 5.6, -0.19],
+  ["Nairobi", "Kenya", -1.29, 36.82],
+  ["Addis Ababa", "Ethiopia", 9.03, 38.74],
+  ["Johannesburg", "South Africa", -26.2, 28.05],
+  ["Cape Town", "South Africa", -33.92, 18.42],
+  // Asia and Oceania
+  ["Mumbai", "India", 19.08, 72.88, ["Bombay"]],
+  ["Delhi", "India", 28.61, 77.21, ["New Delhi"]],
+  ["Kolkata", "India", 22.57, 88.36, ["Calcutta"]],
+  ["Chennai", "India", 13.08, 80.27, ["Madras"]],
+  ["Amritsar", "India", 31.63, 74.87],
+  ["Karachi", "Pakistan", 24.86, 67.01],
+  ["Lahore", "Pakistan", 31.55, 74.34],
+  ["Colombo", "Sri Lanka", 6.93, 79.85],
+  ["Beijing", "China", 39.9, 116.41, ["Peking"]],
+  ["Shanghai", "China", 31.23, 121.47],
+  ["Guangzhou", "China", 23.13, 113.26, ["Canton"]],
+  ["Hong Kong", "China", 22.32, 114.17],
+  ["Taipei", "Taiwan", 25.03, 121.57],
+  ["Tokyo", "Japan", 35.68, 139.69],
+  ["Osaka", "Japan", 34.69, 135.5],
+  ["Kyoto", "Japan", 35.01, 135.77],
+  ["Hiroshima", "Japan", 34.39, 132.46],
+  ["Seoul", "South Korea", 37.57, 126.98],
+  ["Busan", "South Korea", 35.18, 129.08, ["Pusan"]],
+  ["Manila", "Philippines", 14.6, 120.98],
+  ["Hanoi", "Vietnam", 21.03, 105.85],
+  ["Ho Chi Minh City", "Vietnam", 10.82, 106.63, ["Saigon"]],
+  ["Bangkok", "Thailand", 13.76, 100.5],
+  ["Jakarta", "Indonesia", -6.21, 106.85, ["Batavia"]],
+  ["Sydney", "Australia", -33.87, 151.21],
+  ["Melbourne", "Australia", -37.81, 144.96],
+  ["Brisbane", "Australia", -27.47, 153.03],
+  ["Perth", "Australia", -31.95, 115.86],
+  ["Adelaide", "Australia", -34.93, 138.6],
+  ["Auckland", "New Zealand", -36.85, 174.76],
+  ["Wellington", "New Zealand", -41.29, 174.78],
+]
+
+const ENTRIES = [...COUNTRIES, ...US_STATES, ...CITIES]
+
+// Qualifiers in front of a place name: "near Lucca", "outside of Cork"
+const QUALIFIER_PATTERN = /^(near|outside of|outside|around|just outside|somewhere in|in)\s+/
+
+/**
+ * Lower case, without accents or punctuation, single spaces: "Köln " → "koln"
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/ł/g, "l")
+    .replace(/Ł/g, "L")
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+function toPlace([name, country, latitude, longitude]: Entry): GazetteerPlace {
+  return { name, country, latitude, longitude }
+}
+
+function entryKeys(entry: Entry): Set<string> {
+  return new Set([entry[0], ...(entry[4] || [])].map(normalizePlaceName))
+}
+
+// Normalized name or other name → places, in list order (countries, then states, then cities)
+const INDEX = new Map<string, GazetteerPlace[]>()
+for (const entry of ENTRIES) {
+  const place = toPlace(entry)
+  for (const key of entryKeys(entry)) {
+    INDEX.set(key, [...(INDEX.get(key) || []), place])
+  }
+}
+
+// Countries and states → the country, for telling apart places with the same name
+const REGION_COUNTRIES = new Map<string, string>()
+for (const entry of [...COUNTRIES, ...US_STATES]) {
+  for (const key of entryKeys(entry)) {
+    REGION_COUNTRIES.set(key, entry[1] ?? entry[0])
+  }
+}
+
+/**
+ * "Lucca, Italy" for cities and states; countries are just their name
+ */
+export function formatGazetteerPlace(place: GazetteerPlace): string {
+  return place.country ? `${place.name}, ${place.country}` : place.name
+}
+
+/**
+ * The country a place is in, or the place itself for countries
+ */
+function countryOf(place: GazetteerPlace): string {
+  return place.country ?? place.name
+}
+
+/**
+ * Find a free-text place in the gazetteer
+ *
+ * The text is read as comma-separated parts, most specific first, as people write addresses:
+ * "Ponte a Moriano, Lucca, Italy" tries "Ponte a Moriano", then "Lucca", then "Italy". Later
+ * parts that name a country or state break ties, so "Portland, Oregon" isn't read as
+ * somewhere else. Returns null when no part is known.
+ */
+export function geocodePlaceName(text: string): GazetteerPlace | null {
+  const parts = text
+    .split(/[,;]|\s+-\s+/)
+    .map((part) => normalizePlaceName(part).replace(QUALIFIER_PATTERN, ""))
+    .filter(Boolean)
+  if (parts.length === 0) return null
+
+  // The whole text first, for names with commas in them ("Washington, D.C.")
+  const candidates = [normalizePlaceName(text), ...parts]
+  const hints = parts.map((part) => REGION_COUNTRIES.get(part)).filter(Boolean)
+
+  for (const candidate of candidates) {
+    const matches = INDEX.get(candidate)
+    if (!matches) continue
+    return matches.find((place) => hints.includes(countryOf(place))) ?? matches[0]
+  }
+
+  return null
+}
+
+/**
+ * Gazetteer places whose name starts with (then contains) the query, for picking a location
+ */
+export function searchGazetteer(query: string, limit = 8): GazetteerPlace[] {
+  const normalized = normalizePlaceName(query)
+  if (!normalized) return []
+
+  const starts: GazetteerPlace[] = []
+  const contains: GazetteerPlace[] = []
+  const seen = new Set<GazetteerPlace>()
+
+  for (const [key, places] of INDEX) {
+    const bucket = key.startsWith(normalized) ? starts : key.includes(normalized) ? contains : null
+    if (!bucket) continue
+    for (const place of places) {
+      if (seen.has(place)) continue
+      seen.add(place)
+      bucket.push(place)
+    }
+  }
+
+  return [...starts, ...contains].slice(0, limit)
+}
+
+/**
+ * Distance between two points in kilometres (haversine)
+ */
+export function distanceKm(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(b.latitude - a.latitude)
+  const dLng = toRadians(b.longitude - a.longitude)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2
+  return 6371 * 2 * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+/**
+ * The gazetteer city nearest a point, if one is within maxKm
+ * Used to name a photo's GPS position ("Lucca, Italy")
+ */
+export function findNearestGazetteerPlace(
+  point: { latitude: number; longitude: number },
+  maxKm = 50
+): GazetteerPlace | null {
+  let nearest: GazetteerPlace | null = null
+  let nearestKm = maxKm
+
+  for (const entry of CITIES) {
+    const place = toPlace(entry)
+    const km = distanceKm(point, place)
+    if (km <= nearestKm) {
+      nearest = place
+      nearestKm = km
+    }
+  }
+
+  return nearest
+}
@@ -0,0 +1,396 @@
+/**
+ * Utilities for GEDCOM import and export of the people directory
+ *
+ * Only individuals (INDI records) are read: name, birth and death dates, and the IDs that
+ * let a re-import match people it already created. Families and sources are left alone.
+ * Exports are GEDCOM 5.5.1, with each linked artifact as an OBJE pointing at its page.
+ */
+
+import type { GedcomExportPerson, GedcomImportPlan, GedcomIndividual } from "@/lib/types/gedcom"
+import type { Person } from "@/lib/types/people"
+import { PERSON_ROLE_LABELS } from "@/lib/utils/people"
+import { isSameName, normalizeEntityName } from "@/lib/utils/suggestions"
+
+// REFN type marking one of our person IDs in an exported file
+export const GEDCOM_REFN_TYPE = "Heirlooms"
+
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"]
+
+// Values are split with CONC to keep lines well under the 255 character limit
+const MAX_VALUE_LENGTH = 200
+const MAX_NAME_LENGTH = 200
+
+interface GedcomNode {
+  level: number
+  xref: string | null
+  tag: string
+  value: string
+  children: GedcomNode[]
+}
+
+const LINE_PATTERN = /^\s*(\d+)\s+(?:(@[^@\s]+@)\s+)?(\S+)(?: (.*))?$/
+
+/**
+ * Parse GEDCOM text into level-0 records, joining CONC/CONT continuations
+ */
+function parseRecords(text: string): GedcomNode[] {
+  const records: GedcomNode[] = []
+  const stack: GedcomNode[] = []
+
+  for (const line of text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/)) {
+    const match = line.match(LINE_PATTERN)
+    if (!match) continue
+
+    const [, levelText, xref, tag, rawValue = ""] = match
+    const level = Number(levelText)
+    const value = rawValue.replace(/@@/g, "@")
+    const upperTag = tag.toUpperCase()
+
+    if (upperTag === "CONC" || upperTag === "CONT") {
+      const parent = stack[level - 1]
+      if (parent) parent.value += (upperTag === "CONT" ? "\n" : "") + value
+      continue
+    }
+
+    const node: GedcomNode = { level, xref: xref ?? null, tag: upperTag, value, children: [] }
+    stack.length = level
+    if (level === 0) {
+      records.push(node)
+    } else {
+      const parent = stack[level - 1]
+      if (!parent) continue
+      parent.children.push(node)
+    }
+    stack[level] = node
+  }
+
+  return records
+}
+
+function child(node: GedcomNode, tag: string): GedcomNode | undefined {
+  return node.children.find((candidate) => candidate.tag === tag)
+}
+
+/**
+ * Convert a GEDCOM date to a partial ISO date
+ * "12 MAR 1901" → "1901-03-12", "ABT MAR 1901" → "1901-03", "BET 1900 AND 1905" → "1900"
+ * Returns null for dates we can't place, like "BEF 1900 (unknown)" phrases or B.C. years
+ */
+export function parseGedcomDate(value: string | null | undefined): string | null {
+  if (!value) return null
+
+  let date = value
+    .toUpperCase()
+    .replace(/@#DGREGORIAN@/g, "")
+    .replace(/\(.*\)/g, "")
+    .trim()
+    .replace(/\s+/g, " ")
+
+  // Ranges and periods: the first date is the best single date
+  date = date.replace(/^(BET|FROM) (.+?) (AND|TO) .+$/, "$2")
+  date = date.replace(/^(ABT|CAL|EST|BEF|AFT|INT|FROM|TO) /, "")
+
+  const match = date.match(/^(?:(?:(\d{1,2}) )?([A-Z]{3}) )?(\d{4})(?:\/\d{1,2})?$/)
+  if (!match) return null
+
+  const [, day, monthName, year] = match
+  if (!monthName) return year
+
+  const month = MONTHS.indexOf(monthName) + 1
+  if (month === 0) return null
+  const monthText = String(month).padStart(2, "0")
+  if (!day) return `${year}-${monthText}`
+
+  const parsed = new Date(Date.UTC(Number(year), month - 1, Number(day)))
+  if (parsed.getUTCMonth() !== month - 1) return null
+  return `${year}-${monthText}-${day.padStart(2, "0")}`
+}
+
+/**
+ * Convert a partial ISO date to a GEDCOM date: "1901-03-12" → "12 MAR 1901"
+ */
+export function formatGedcomDate(value: string | null | undefined): string | null {
+  const match = value?.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/)
+  if (!match) return null
+
+  const [, year, month, day] = match
+  const monthName = month ? MONTHS[Number(month) - 1] : undefined
+  if (!monthName) return year
+  return day ? `${Number(day)} ${monthName} ${year}` : `${monthName} ${year}`
+}
+
+function parseName(individual: GedcomNode): string {
+  const nameNode = child(individual, "NAME")
+  if (!nameNode) return ""
+
+  // "Given /Surname/ Suffix", with GIVN and SURN filling in whichever part is missing
+  const [given = "", surname = "", suffix = ""] = nameNode.value.split("/")
+  const name = normalizeEntityName(
+    [
+      given.trim() || child(nameNode, "GIVN")?.value,
+      surname.trim() || child(nameNode, "SURN")?.value,
+      suffix,
+    ].join(" ")
+  )
+  return name.slice(0, MAX_NAME_LENGTH).trim()
+}
+
+function parseEventDate(individual: GedcomNode, tag: "BIRT" | "DEAT"): string | null {
+  const event = child(individual, tag)
+  return event ? parseGedcomDate(child(event, "DATE")?.value) : null
+}
+
+/**
+ * The tree a file came from, as its header names it: "FTM/bianchi.ged"
+ * Xrefs are only unique within one tree, so they're remembered together with this
+ */
+function parseSource(records: GedcomNode[]): string | null {
+  const head = records.find((record) => record.tag === "HEAD")
+  if (!head) return null
+
+  const parts = [child(head, "SOUR")?.value, child(head, "FILE")?.value]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+  return parts.length > 0 ? parts.join("/") : null
+}
+
+/**
+ * Read the individuals from a GEDCOM file, skipping those without a name
+ */
+export function parseGedcom(text: string): GedcomIndividual[] {
+  const individuals: GedcomIndividual[] = []
+  const records = parseRecords(text)
+  const source = parseSource(records)
+
+  for (const record of records) {
+    if (record.tag !== "INDI") continue
+
+    const name = parseName(record)
+    if (!name) continue
+
+    const uid = (child(record, "_UID") ?? child(record, "UID"))?.value.trim() || null
+    const heirloomsRefn = record.children.find(
+      (node) => node.tag === "REFN" && child(node, "TYPE")?.value.trim() === GEDCOM_REFN_TYPE
+    )
+
+    individuals.push({
+      xref: record.xref,
+      source,
+      uid,
+      heirloomsId: heirloomsRefn?.value.trim() || null,
+      name,
+      birth_date: parseEventDate(record, "BIRT"),
+      death_date: parseEventDate(record, "DEAT"),
+    })
+  }
+
+  return individuals
+}
+
+/**
+ * The ID an individual is remembered by: its _UID when the tree has one, else its xref
+ * followed by the tree it came from ("@I12@ FTM/bianchi.ged")
+ */
+export function getGedcomId(individual: GedcomIndividual): string | null {
+  if (individual.uid) return individual.uid
+  if (!individual.xref) return null
+  return individual.source ? `${individual.xref} ${individual.source}` : individual.xref
+}
+
+/**
+ * Whether two partial ISO dates could be the same day: "1901" and "1901-03-12" could,
+ * "1901" and "1902" can't. A missing date could be anything.
+ */
+function isSameDate(a: string | null, b: string | null): boolean {
+  if (!a || !b) return true
+  return a.startsWith(b) || b.startsWith(a)
+}
+
+/**
+ * Whether a person in the directory could be this individual, by name and life dates
+ */
+function isSamePerson(
+  person: Pick<Person, "name" | "birth_date" | "death_date">,
+  individual: GedcomIndividual
+): boolean {
+  return (
+    isSameName(person.name, individual.name) &&
+    isSameDate(person.birth_date, individual.birth_date) &&
+    isSameDate(person.death_date, individual.death_date)
+  )
+}
+
+/**
+ * Work out which individuals to add to the directory and which people to update
+ *
+ * An individual matches, in order: the person whose ID it carries as an Heirlooms REFN
+ * (exported from here), the person with its GEDCOM ID (imported before), or a person with
+ * the same name who isn't tied to a different individual. Trees without a _UID reuse the
+ * same xrefs, so a person found by xref must also have the same name and life dates.
+ * Matching by name also needs compatible life dates, so relatives who share a name are
+ * added as people of their own. Matched people only gain the life dates they're missing,
+ * so dates the owner entered are kept. Individuals the tree lists twice (the same ID, or
+ * two records for one of our people) are skipped.
+ *
+ * Planning the same file against the result of importing it changes nothing.
+ */
+export function planGedcomImport(
+  individuals: GedcomIndividual[],
+  existing: Pick<Person, "id" | "name" | "birth_date" | "death_date" | "gedcom_id">[]
+): GedcomImportPlan {
+  const plan: GedcomImportPlan = { inserts: [], updates: [], unchanged: 0, skipped: [] }
+  const claimed = new Set<string>()
+  const insertedGedcomIds = new Set<string>()
+  // A GEDCOM ID stays with the person who has it, even when this individual isn't them
+  const heldGedcomIds = new Set(existing.map((person) => person.gedcom_id).filter(Boolean))
+
+  for (const individual of individuals) {
+    const gedcomId = getGedcomId(individual)
+
+    const byRefn = individual.heirloomsId
+      ? existing.find((person) => person.id === individual.heirloomsId)
+      : undefined
+    const byGedcomId = gedcomId
+      ? existing.find(
+          (person) =>
+            person.gedcom_id === gedcomId && (!!individual.uid || isSamePerson(person, individual))
+        )
+      : undefined
+    const match =
+      byRefn ||
+      byGedcomId ||
+      existing.find(
+        (person) => !claimed.has(person.id) && !person.gedcom_id && isSamePerson(person, individual)
+      )
+
+    if (match) {
+      if (claimed.has(match.id)) {
+        plan.skipped.push(individual.name)
+        continue
+      }
+      claimed.add(match.id)
+
+      const changes: GedcomImportPlan["updates"][number]["changes"] = {}
+      if (individual.birth_date && !match.birth_date) changes.birth_date = individual.birth_date
+      if (individual.death_date && !match.death_date) changes.death_date = individual.death_date
+      // An xref in our own export isn't stable, so people matched by REFN keep their ID
+      if (!byRefn && gedcomId && !heldGedcomIds.has(gedcomId)) changes.gedcom_id = gedcomId
+
+      if (Object.keys(changes).length > 0) {
+        plan.updates.push({ id: match.id, changes })
+      } else {
+        plan.unchanged++
+      }
+      continue
+    }
+
+    if (gedcomId && insertedGedcomIds.has(gedcomId)) {
+      plan.skipped.push(individual.name)
+      continue
+    }
+
+    if (gedcomId) insertedGedcomIds.add(gedcomId)
+    plan.inserts.push({
+      name: individual.name,
+      birth_date: individual.birth_date,
+      death_date: individual.death_date,
+      gedcom_id: gedcomId && !heldGedcomIds.has(gedcomId) ? gedcomId : null,
+    })
+  }
+
+  return plan
+}
+
+/**
+ * GEDCOM lines for a value: "@" escaped, newlines as CONT and long text split with CONC
+ */
+function valueLines(level: number, tag: string, value: string): string[] {
+  const lines: string[] = []
+
+  value
+    .replace(/@/g, "@@")
+    .split(/\r\n|\r|\n/)
+    .forEach((paragraph, index) => {
+      const chunks: string[] = []
+      for (let start = 0; start < paragraph.length; start += MAX_VALUE_LENGTH) {
+        chunks.push(paragraph.slice(start, start + MAX_VALUE_LENGTH))
+      }
+      if (chunks.length === 0) chunks.push("")
+
+      chunks.forEach((chunk, chunkIndex) => {
+        const lineTag = index === 0 && chunkIndex === 0 ? tag : chunkIndex === 0 ? "CONT" : "CONC"
+        const lineLevel = lineTag === tag ? level : level + 1
+        lines.push(chunk ? `${lineLevel} ${lineTag} ${chunk}` : `${lineLevel} ${lineTag}`)
+      })
+    })
+
+  return lines
+}
+
+/**
+ * "Rosa Maria Bianchi" → "Rosa Maria /Bianchi/"; single names have no surname
+ */
+function formatGedcomName(name: string): string {
+  const words = normalizeEntityName(name.replace(/\//g, " ")).split(" ")
+  if (words.length < 2) return words.join(" ")
+  const surname = words.pop()
+  return `${words.join(" ")} /${surname}/`
+}
+
+/**
+ * Build a GEDCOM 5.5.1 file of people and the artifacts they're linked to
+ * Each artifact is an OBJE pointing at its page, with a NOTE naming the person's roles
+ */
+export function buildGedcom(people: GedcomExportPerson[], exportedAt: Date): string {
+  const lines = [
+    "0 HEAD",
+    "1 SOUR HEIRLOOMS",
+    "2 NAME Heirlooms",
+    `1 DATE ${exportedAt.getUTCDate()} ${
+      MONTHS[exportedAt.getUTCMonth()]
+    } ${exportedAt.getUTCFullYear()}`,
+    "1 SUBM @U1@",
+    "1 GEDC",
+    "2 VERS 5.5.1",
+    "2 FORM LINEAGE-LINKED",
+    "1 CHAR UTF-8",
+    "0 @U1@ SUBM",
+    "1 NAME Heirlooms",
+  ]
+
+  people.forEach((person, index) => {
+    lines.push(`0 @I${index + 1}@ INDI`)
+    lines.push(...valueLines(1, "NAME", formatGedcomName(person.name)))
+
+    for (const [tag, date] of [
+      ["BIRT", formatGedcomDate(person.birth_date)],
+      ["DEAT", formatGedcomDate(person.death_date)],
+    ] as const) {
+      if (date) lines.push(`1 ${tag}`, `2 DATE ${date}`)
+    }
+
+    if (person.relationship) {
+      lines.push(...valueLines(1, "NOTE", `Relationship: ${person.relationship}`))
+    }
+
+    // Xrefs from an earlier import are renumbered here, so only a real _UID is kept
+    if (person.gedcom_id && !person.gedcom_id.startsWith("@")) {
+      lines.push(...valueLines(1, "_UID", person.gedcom_id))
+    }
+    lines.push(`1 REFN ${person.id}`, `2 TYPE ${GEDCOM_REFN_TYPE}`)
+
+    for (const artifact of person.artifacts) {
+      lines.push("1 OBJE", ...valueLines(2, "FILE", artifact.url), "3 FORM html")
+      lines.push(...valueLines(2, "TITL", artifact.title))
+
+      const roles = artifact.roles.map((role) => PERSON_ROLE_LABELS[role]).join(", ")
+      const note = roles
+        ? `${artifact.title} (${roles}): ${artifact.url}`
+        : `${artifact.title}: ${artifact.url}`
+      lines.push(...valueLines(1, "NOTE", `Heirloom: ${note}`))
+    }
+  })
+
+  lines.push("0 TRLR")
+  return `${lines.join("\n")}\n`
+}
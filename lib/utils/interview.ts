@@ -0,0 +1,74 @@
+/**
+ * Utilities for guided interviews
+ *
+ * Questions come from artifact_types.interview_questions, falling back to
+ * DEFAULT_INTERVIEW_QUESTIONS. Answers are kept on artifacts.interview_answers and
+ * assembled into artifacts.interview_transcript for the AI summary.
+ */
+
+import type { InterviewAnswer, InterviewQuestion } from "@/lib/types/interviews"
+
+// Same as the "general" type's seed in 029_add_artifact_interviews.sql
+export const DEFAULT_INTERVIEW_QUESTIONS: InterviewQuestion[] = [
+  { key: "first_owner", prompt: "Who owned this first?", hint: "Their name, and how they were related to you" },
+  { key: "origin", prompt: "Where did it come from?", hint: "Was it bought, made, given or handed down?" },
+  {
+    key: "memories",
+    prompt: "What do you remember about it?",
+    hint: "Where it was kept, when it came out, who used it",
+  },
+  { key: "stories", prompt: "Is there a story the family tells about it?" },
+  { key: "future", prompt: "Who should have it next, and why?" },
+]
+
+function isInterviewQuestion(value: unknown): value is InterviewQuestion {
+  if (!value || typeof value !== "object") return false
+  const question = value as Record<string, unknown>
+  return (
+    typeof question.key === "string" &&
+    question.key.length > 0 &&
+    typeof question.prompt === "string" &&
+    question.prompt.trim().length > 0 &&
+    (question.hint === undefined || typeof question.hint === "string")
+  )
+}
+
+/**
+ * The questions to ask for an artifact type
+ * Malformed entries are dropped; a type with no usable questions gets the defaults
+ */
+export function getInterviewQuestions(typeQuestions: unknown): InterviewQuestion[] {
+  const questions = Array.isArray(typeQuestions) ? typeQuestions.filter(isInterviewQuestion) : []
+  return questions.length > 0 ? questions : DEFAULT_INTERVIEW_QUESTIONS
+}
+
+/**
+ * Add an answer, replacing any earlier answer to the same question
+ * Answers are kept in question order; answers to questions no longer asked stay at the end
+ */
+export function upsertInterviewAnswer(
+  answers: InterviewAnswer[],
+  answer: InterviewAnswer,
+  questions: InterviewQuestion[],
+): InterviewAnswer[] {
+  const next = [...answers.filter((existing) => existing.question_key !== answer.question_key), answer]
+  const position = (key: string) => {
+    const index = questions.findIndex((question) => question.key === key)
+    return index === -1 ? questions.length : index
+  }
+
+  // Array.prototype.sort is stable, so unknown questions keep their recorded order
+  return next.sort((a, b) => position(a.question_key) - position(b.question_key))
+}
+
+/**
+ * Assemble answers into the Q&A transcript stored on the artifact
+ * Unanswered questions are left out; returns null when nothing has been said
+ */
+export function buildInterviewTranscript(answers: InterviewAnswer[]): string | null {
+  const blocks = answers
+    .filter((answer) => answer.transcript.trim().length > 0)
+    .map((answer) => `Q: ${answer.question.trim()}\nA: ${answer.transcript.trim()}`)
+
+  return blocks.length > 0 ? blocks.join("\n\n") : null
+}
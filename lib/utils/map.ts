@@ -0,0 +1,160 @@
+/**
+ * Utilities for the heirloom map: Web Mercator projection, fitting a view and clustering
+ *
+ * Positions are in "world pixels" at a zoom level, as map tiles are laid out: the whole
+ * world is TILE_SIZE × 2^zoom pixels square, with (0, 0) at the top left.
+ */
+
+export const TILE_SIZE = 256
+export const MIN_ZOOM = 1
+export const MAX_ZOOM = 16
+
+// Web Mercator can't show the poles
+const MAX_LATITUDE = 85.0511
+
+export interface LatLng {
+  latitude: number
+  longitude: number
+}
+
+export interface MapViewState {
+  center: LatLng
+  zoom: number
+}
+
+export interface MapCluster<T> {
+  key: string
+  latitude: number
+  longitude: number
+  items: T[]
+}
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+}
+
+/**
+ * Keep a longitude within -180..180 after panning across the date line
+ */
+export function wrapLongitude(longitude: number): number {
+  return ((((longitude + 180) % 360) + 360) % 360) - 180
+}
+
+export function worldSize(zoom: number): number {
+  return TILE_SIZE * 2 ** zoom
+}
+
+/**
+ * Latitude and longitude → world pixels at a zoom level
+ */
+export function projectPoint(
+  { latitude, longitude }: LatLng,
+  zoom: number
+): { x: number; y: number } {
+  const size = worldSize(zoom)
+  const lat = (Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * Math.PI) / 180
+  return {
+    x: ((longitude + 180) / 360) * size,
+    y: ((1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2) * size,
+  }
+}
+
+/**
+ * World pixels at a zoom level → latitude and longitude
+ */
+export function unprojectPoint({ x, y }: { x: number; y: number }, zoom: number): LatLng {
+  const size = worldSize(zoom)
+  const n = Math.PI - (2 * Math.PI * y) / size
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: wrapLongitude((x / size) * 360 - 180),
+  }
+}
+
+/**
+ * The center and zoom that show every point in a viewport, leaving `padding` pixels around them
+ * A single point is shown at city level
+ */
+export function fitPoints(
+  points: LatLng[],
+  width: number,
+  height: number,
+  padding = 48
+): MapViewState {
+  if (points.length === 0) return { center: { latitude: 30, longitude: 0 }, zoom: 2 }
+
+  const latitudes = points.map((point) => point.latitude)
+  const longitudes = points.map((point) => point.longitude)
+  const northWest = { latitude: Math.max(...latitudes), longitude: Math.min(...longitudes) }
+  const southEast = { latitude: Math.min(...latitudes), longitude: Math.max(...longitudes) }
+
+  let zoom = MIN_ZOOM
+  for (let candidate = 10; candidate >= MIN_ZOOM; candidate--) {
+    const topLeft = projectPoint(northWest, candidate)
+    const bottomRight = projectPoint(southEast, candidate)
+    if (
+      bottomRight.x - topLeft.x <= width - padding * 2 &&
+      bottomRight.y - topLeft.y <= height - padding * 2
+    ) {
+      zoom = candidate
+      break
+    }
+  }
+
+  const topLeft = projectPoint(northWest, zoom)
+  const bottomRight = projectPoint(southEast, zoom)
+  return {
+    center: unprojectPoint(
+      { x: (topLeft.x + bottomRight.x) / 2, y: (topLeft.y + bottomRight.y) / 2 },
+      zoom
+    ),
+    zoom,
+  }
+}
+
+/**
+ * Group points that would overlap at a zoom level into clusters
+ * Points fall in square cells of `cellSize` pixels; each cluster sits at the average
+ * position of its points. Clusters come out in the order of their first point.
+ */
+export function clusterPoints<T extends LatLng>(
+  points: T[],
+  zoom: number,
+  cellSize = 56
+): MapCluster<T>[] {
+  const cells = new Map<string, { x: number; y: number; items: T[] }>()
+
+  for (const point of points) {
+    const { x, y } = projectPoint(point, zoom)
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`
+    const cell = cells.get(key) || { x: 0, y: 0, items: [] }
+    cell.x += x
+    cell.y += y
+    cell.items.push(point)
+    cells.set(key, cell)
+  }
+
+  return Array.from(cells.entries()).map(([key, cell]) => {
+    const center = unprojectPoint(
+      { x: cell.x / cell.items.length, y: cell.y / cell.items.length },
+      zoom
+    )
+    return { key, ...center, items: cell.items }
+  })
+}
+
+/**
+ * Fill a tile URL template: "https://tiles.example.com/{z}/{x}/{y}.png"
+ */
+export function getTileUrl(template: string, x: number, y: number, zoom: number): string {
+  return template.replace("{z}", String(zoom)).replace("{x}", String(x)).replace("{y}", String(y))
+}
+
+/**
+ * Format coordinates for display: "43.8430° N, 10.5050° E"
+ */
+export function formatCoordinates({ latitude, longitude }: LatLng): string {
+  const lat = `${Math.abs(latitude).toFixed(4)}° ${latitude >= 0 ? "N" : "S"}`
+  const lng = `${Math.abs(longitude).toFixed(4)}° ${longitude >= 0 ? "E" : "W"}`
+  return `${lat}, ${lng}`
+}
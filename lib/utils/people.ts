@@ -0,0 +1,120 @@
+/**
+ * Utilities for the people directory
+ *
+ * People are linked to artifacts through artifact_people, one row per role.
+ * Life dates are partial ISO strings, like provenance dates.
+ */
+
+import type { ArtifactPersonLink, LinkedPerson, Person, PersonRole } from "@/lib/types/people"
+import { formatPartialDate } from "@/lib/utils/provenance"
+import { isSameName, normalizeEntityName } from "@/lib/utils/suggestions"
+
+export const PERSON_ROLE_LABELS: Record<PersonRole, string> = {
+  original_owner: "Original owner",
+  maker: "Maker",
+  pictured: "Pictured",
+  storyteller: "Storyteller",
+  mentioned: "Mentioned",
+}
+
+// Display order: the closest connection to the artifact first
+export const PERSON_ROLES = Object.keys(PERSON_ROLE_LABELS) as PersonRole[]
+
+/**
+ * Format a person's life dates for display
+ * "1901" and "1987" → "1901 – 1987"; only one → "Born 1901" / "Died 1987"
+ */
+export function formatLifeDates(
+  birthDate: string | null | undefined,
+  deathDate: string | null | undefined
+): string | null {
+  const born = formatPartialDate(birthDate)
+  const died = formatPartialDate(deathDate)
+
+  if (born && died) return `${born} – ${died}`
+  if (born) return `Born ${born}`
+  if (died) return `Died ${died}`
+  return null
+}
+
+/**
+ * The people directory as a prompt list: "- Rosa Bianchi (Grandmother, 1901 – 1987)"
+ */
+export function formatKnownPeople(
+  people: Pick<Person, "name" | "relationship" | "birth_date" | "death_date">[]
+): string {
+  return people
+    .map((person) => {
+      const details = [
+        person.relationship,
+        formatLifeDates(person.birth_date, person.death_date),
+      ].filter(Boolean)
+      return details.length > 0 ? `- ${person.name} (${details.join(", ")})` : `- ${person.name}`
+    })
+    .join("\n")
+}
+
+/**
+ * Group artifact_people rows into one entry per person, roles in display order, sorted by name
+ */
+export function groupLinkedPeople(
+  rows: { role: PersonRole; person: Person | null }[]
+): LinkedPerson[] {
+  const people = new Map<string, LinkedPerson>()
+
+  for (const { role, person } of rows) {
+    if (!person) continue
+    const linked = people.get(person.id) || { ...person, roles: [] }
+    if (!linked.roles.includes(role)) linked.roles.push(role)
+    people.set(person.id, linked)
+  }
+
+  return Array.from(people.values())
+    .map((person) => ({
+      ...person,
+      roles: PERSON_ROLES.filter((role) => person.roles.includes(role)),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * The links an artifact's people stand for, one per person and role
+ */
+export function getPersonLinks(people: LinkedPerson[]): ArtifactPersonLink[] {
+  return people.flatMap((person) => person.roles.map((role) => ({ person_id: person.id, role })))
+}
+
+function nameTokens(name: string): string[] {
+  return normalizeEntityName(name).toLowerCase().split(" ").filter(Boolean)
+}
+
+/**
+ * People in the directory a suggested name could be, best match first
+ * Exact names come first, then names that contain the other ("Rosa" and "Rosa Bianchi"),
+ * then people whose relationship is the suggested name ("Grandma").
+ */
+export function findPersonMatches<T extends Pick<Person, "id" | "name" | "relationship">>(
+  name: string,
+  people: T[]
+): T[] {
+  const tokens = nameTokens(name)
+  if (tokens.length === 0) return []
+
+  const rank = (person: T): number => {
+    if (isSameName(person.name, name)) return 0
+
+    const personTokens = nameTokens(person.name)
+    const [shorter, longer] =
+      tokens.length <= personTokens.length ? [tokens, personTokens] : [personTokens, tokens]
+    if (shorter.length > 0 && shorter.every((token) => longer.includes(token))) return 1
+
+    if (person.relationship && isSameName(person.relationship, name)) return 2
+    return -1
+  }
+
+  return people
+    .map((person) => ({ person, rank: rank(person) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.person.name.localeCompare(b.person.name))
+    .map(({ person }) => person)
+}
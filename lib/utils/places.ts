@@ -0,0 +1,66 @@
+/**
+ * Utilities for places and their locations
+ *
+ * An artifact's origin and provenance locations link to places of the owner's, and places
+ * get coordinates from the gazetteer, a pin dropped by the owner, or a photo's GPS.
+ */
+
+import type { MapArtifact, Place, PlaceLocation, PlaceLocationSource } from "@/lib/types/places"
+import { geocodePlaceName } from "@/lib/utils/gazetteer"
+
+export const PLACE_LOCATION_SOURCE_LABELS: Record<PlaceLocationSource, string> = {
+  gazetteer: "Found by name",
+  pin: "Pinned on the map",
+  photo: "From a photo's GPS",
+}
+
+type LocatedPlace = Pick<Place, "id" | "name"> & { latitude: number; longitude: number }
+
+export function isLocated<T extends Pick<Place, "latitude" | "longitude">>(
+  place: T | null | undefined
+): place is T & { latitude: number; longitude: number } {
+  return !!place && place.latitude !== null && place.longitude !== null
+}
+
+/**
+ * A new place's location from the gazetteer, or null when the name isn't in it
+ */
+export function getGazetteerLocation(name: string): PlaceLocation | null {
+  const match = geocodePlaceName(name)
+  if (!match) return null
+  return { latitude: match.latitude, longitude: match.longitude, location_source: "gazetteer" }
+}
+
+/**
+ * Where to plot an artifact: its origin, else the earliest provenance location, else a
+ * place it mentions. Only places with coordinates count.
+ */
+export function pickArtifactPlace({
+  origin,
+  provenance = [],
+  mentioned = [],
+}: {
+  origin?: Pick<Place, "id" | "name" | "latitude" | "longitude"> | null
+  // In timeline order, oldest owner first
+  provenance?: (Pick<Place, "id" | "name" | "latitude" | "longitude"> | null)[]
+  mentioned?: (Pick<Place, "id" | "name" | "latitude" | "longitude"> | null)[]
+}): { place: LocatedPlace; place_kind: MapArtifact["place_kind"] } | null {
+  const toLocated = (
+    place: Pick<Place, "id" | "name"> & { latitude: number; longitude: number }
+  ) => ({
+    id: place.id,
+    name: place.name,
+    latitude: place.latitude,
+    longitude: place.longitude,
+  })
+
+  if (isLocated(origin)) return { place: toLocated(origin), place_kind: "origin" }
+
+  const provenancePlace = provenance.find(isLocated)
+  if (provenancePlace) return { place: toLocated(provenancePlace), place_kind: "provenance" }
+
+  const mentionedPlace = mentioned.find(isLocated)
+  if (mentionedPlace) return { place: toLocated(mentionedPlace), place_kind: "mentioned" }
+
+  return null
+}
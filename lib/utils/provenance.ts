@@ -0,0 +1,88 @@
+/**
+ * Utilities for artifact provenance (chain of custody)
+ *
+ * Events live in provenance_events, ordered by sort_order (oldest owner first).
+ * Dates are partial ISO strings (YYYY, YYYY-MM or YYYY-MM-DD).
+ */
+
+import type { AcquisitionMethod, ProvenanceEventInput } from "@/lib/types/provenance"
+
+export const ACQUISITION_METHOD_LABELS: Record<AcquisitionMethod, string> = {
+  inherited: "Inherited",
+  purchased: "Purchased",
+  gift: "Gift",
+  made: "Made",
+  found: "Found",
+  other: "Other",
+}
+
+export const ACQUISITION_METHODS = Object.keys(ACQUISITION_METHOD_LABELS) as AcquisitionMethod[]
+
+/**
+ * Format a partial ISO date for display
+ * "1952" → "1952", "1952-06" → "June 1952", "1952-06-14" → "June 14, 1952"
+ * Returns the raw value when it doesn't parse
+ */
+export function formatPartialDate(value: string | null | undefined): string | null {
+  if (!value) return null
+
+  const match = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/)
+  if (!match) return value
+
+  const [, year, month, day] = match
+  if (!month) return year
+
+  // Parse as UTC so the displayed day doesn't shift with the viewer's timezone
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, day ? Number(day) : 1))
+  if (Number.isNaN(date.getTime())) return value
+
+  return date.toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "long",
+    ...(day ? { day: "numeric" } : {}),
+    timeZone: "UTC",
+  })
+}
+
+/**
+ * Format an event's date range for display
+ * Open-ended ranges read as "Since 1952" / "Until 1980"
+ */
+export function formatProvenanceDateRange(
+  dateStart: string | null | undefined,
+  dateEnd: string | null | undefined
+): string | null {
+  const start = formatPartialDate(dateStart)
+  const end = formatPartialDate(dateEnd)
+
+  if (start && end) return start === end ? start : `${start} – ${end}`
+  if (start) return `Since ${start}`
+  if (end) return `Until ${end}`
+  return null
+}
+
+/**
+ * Build the first provenance entry from the legacy year_acquired / origin fields
+ * Returns null when neither is set (nothing to seed)
+ */
+export function buildSeedProvenanceEvent({
+  ownerName,
+  yearAcquired,
+  origin,
+}: {
+  ownerName: string | null | undefined
+  yearAcquired: number | null | undefined
+  origin: string | null | undefined
+}): ProvenanceEventInput | null {
+  const location = origin?.trim() || null
+  if (!yearAcquired && !location) return null
+
+  return {
+    owner_name: ownerName?.trim() || "Current owner",
+    acquisition_method: null,
+    date_start: yearAcquired ? String(yearAcquired) : null,
+    date_end: null,
+    location,
+    notes: null,
+  }
+}
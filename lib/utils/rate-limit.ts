@@ -1,27 +1,82 @@
-// lib/utils/rate-limit.ts
-// In-memory rate limiting for API endpoints
-// Limits requests to LIMIT per WINDOW_MS per IP address
-
-const WINDOW_MS = 60_000 // 1 minute window
-const LIMIT = 10 // 10 requests per minute per IP
-const store = new Map<string, { count: number; reset: number }>()
-
-export function rateLimit(ip: string): { ok: boolean; retryAfterMs?: number } {
-  const now = Date.now()
-  const rec = store.get(ip)
-
-  // No record or window expired - start fresh
-  if (!rec || rec.reset < now) {
-    store.set(ip, { count: 1, reset: now + WINDOW_MS })
-    return { ok: true }
+import type { RateLimitResult, RateLimitRule } from "@/lib/types/rate-limit"
+
+/**
+ * Budgets per kind of request, shared by every route that spends them
+ * The database enforces its own copy (rate_limit_buckets, scripts/028_create_rate_limits.sql).
+ * Transcription is billed per minute of audio, so it gets the smallest budget.
+ */
+export const RATE_LIMITS = {
+  transcription: { limit: 30, windowSeconds: 60 * 60 },
+  vision: { limit: 120, windowSeconds: 60 * 60 },
+  summary: { limit: 60, windowSeconds: 60 * 60 },
+  translation: { limit: 30, windowSeconds: 60 * 60 },
+  "archive-chat": { limit: 60, windowSeconds: 60 * 60 },
+  "analysis-jobs": { limit: 20, windowSeconds: 60 * 60 },
+  upload: { limit: 120, windowSeconds: 10 * 60 },
+  "job-events": { limit: 120, windowSeconds: 60 },
+  "share-unlock": { limit: 10, windowSeconds: 60 },
+} satisfies Record<string, RateLimitRule>
+
+export type RateLimitName = keyof typeof RATE_LIMITS
+
+/**
+ * The caller's IP from the proxy headers
+ * Only a fallback for anonymous callers - the headers can be set by the client.
+ */
+export function getClientIp(headers: Headers): string {
+  return (
+    headers.get("x-forwarded-for")?.split(",")[0]?.trim() || headers.get("x-real-ip")?.trim() || "unknown"
+  )
+}
+
+/**
+ * Who spends the budget: the signed-in user, else their IP
+ */
+export function getRateLimitKey(userId: string | null | undefined, ip: string): string {
+  return userId ? `user:${userId}` : `ip:${ip}`
+}
+
+/**
+ * RateLimit-* headers (IETF draft) for a response, plus Retry-After when refused
+ */
+export function getRateLimitHeaders(rule: RateLimitRule, result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.resetSeconds),
+    "RateLimit-Policy": `${rule.limit};w=${rule.windowSeconds}`,
   }
 
-  // Hit limit - deny request
-  if (rec.count >= LIMIT) {
-    return { ok: false, retryAfterMs: rec.reset - now }
+  if (!result.ok) {
+    headers["Retry-After"] = String(result.resetSeconds)
   }
 
-  // Within limit - increment and allow
-  rec.count += 1
-  return { ok: true }
+  return headers
+}
+
+/**
+ * Spend one request from a sliding window of request times (ms), oldest first
+ * Returns the outcome and the times to keep.
+ */
+export function slideWindow(
+  hits: number[],
+  rule: RateLimitRule,
+  now = Date.now(),
+): { result: RateLimitResult; hits: number[] } {
+  const windowMs = rule.windowSeconds * 1000
+  const active = hits.filter((at) => at > now - windowMs)
+  const resetSeconds = (oldest: number) => Math.max(Math.ceil((oldest + windowMs - now) / 1000), 1)
+
+  if (active.length >= rule.limit) {
+    return {
+      result: { ok: false, limit: rule.limit, remaining: 0, resetSeconds: resetSeconds(active[0]) },
+      hits: active,
+    }
+  }
+
+  const kept = [...active, now]
+  return {
+    result: { ok: true, limit: rule.limit, remaining: rule.limit - kept.length, resetSeconds: resetSeconds(kept[0]) },
+    hits: kept,
+  }
 }
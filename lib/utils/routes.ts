@@ -0,0 +1,74 @@
+/**
+ * Canonical URLs for artifacts and collections
+ *
+ * URLs follow /artifacts/{id}/{slug} and /collections/{id}/{slug}. The ID is
+ * authoritative; the slug is only for readability and is redirected to the
+ * current one when missing or stale. See "URL Routing & Shareable Links" in ARCHITECTURE.md.
+ * People and places have no slugs: /people/{id} and /places/{id}.
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Static routes under /collections/{id} that a slug must not shadow
+const RESERVED_COLLECTION_SLUGS = ["edit"]
+
+export interface RoutableItem {
+  id: string
+  slug?: string | null
+}
+
+export type RouteSearchParams = Record<string, string | string[] | undefined>
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value)
+}
+
+export function getArtifactPath(artifact: RoutableItem): string {
+  return artifact.slug ? `/artifacts/${artifact.id}/${artifact.slug}` : `/artifacts/${artifact.id}`
+}
+
+export function getArtifactEditPath(artifact: RoutableItem): string {
+  return `${getArtifactPath(artifact)}?mode=edit`
+}
+
+export function getCollectionPath(collection: RoutableItem): string {
+  return collection.slug && !RESERVED_COLLECTION_SLUGS.includes(collection.slug)
+    ? `/collections/${collection.id}/${collection.slug}`
+    : `/collections/${collection.id}`
+}
+
+export function getCollectionEditPath(collection: RoutableItem): string {
+  return `/collections/${collection.id}/edit`
+}
+
+export function getPersonPath(person: { id: string }): string {
+  return `/people/${person.id}`
+}
+
+export function getPlacePath(place: { id: string }): string {
+  return `/places/${place.id}`
+}
+
+/**
+ * Rebuild the path a visitor requested from an [id]/[[...slug]] route's params
+ */
+export function getRequestedPath(base: "/artifacts" | "/collections", id: string, slug?: string[]): string {
+  return [base, id, ...(slug ?? [])].join("/")
+}
+
+/**
+ * Append page search params to a path, e.g. to keep ?mode=edit across a canonical redirect
+ */
+export function withSearchParams(path: string, searchParams: RouteSearchParams): string {
+  const query = new URLSearchParams()
+
+  for (const [key, value] of Object.entries(searchParams)) {
+    if (value === undefined) continue
+    for (const item of Array.isArray(value) ? value : [value]) {
+      query.append(key, item)
+    }
+  }
+
+  const queryString = query.toString()
+  return queryString ? `${path}?${queryString}` : path
+}
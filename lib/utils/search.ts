@@ -0,0 +1,77 @@
+/**
+ * Utilities for full-text search on /artifacts and /collections
+ */
+
+import type { SearchField } from "@/lib/types/search"
+
+// Matched terms in snippets are wrapped in these markers by search_headline() in
+// 024_add_full_text_search.sql. Keep both in sync.
+export const SEARCH_HIGHLIGHT_START = "⟦"
+export const SEARCH_HIGHLIGHT_END = "⟧"
+
+export const MAX_SEARCH_LENGTH = 200
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  title: "Title",
+  description: "Description",
+  origin: "Origin",
+  transcript: "Transcript",
+  audio_transcripts: "Audio transcript",
+  image_transcriptions: "Document text",
+  ai_description: "AI description",
+  video_summaries: "Video summary",
+  image_captions: "Photo caption",
+}
+
+export interface HighlightSegment {
+  text: string
+  highlighted: boolean
+}
+
+/**
+ * Normalize a search query from user input or the URL
+ * Collapses whitespace and caps the length; returns "" when there is nothing to search for
+ */
+export function normalizeSearchQuery(query: string | null | undefined): string {
+  if (!query) return ""
+  return query.replace(/\s+/g, " ").trim().slice(0, MAX_SEARCH_LENGTH).trim()
+}
+
+/**
+ * Split a search snippet into plain and highlighted segments for rendering
+ * Unbalanced markers are tolerated; the rest of the text stays plain
+ */
+export function splitHighlightedSnippet(snippet: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  let rest = snippet
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(SEARCH_HIGHLIGHT_START)
+    const end = start === -1 ? -1 : rest.indexOf(SEARCH_HIGHLIGHT_END, start + 1)
+
+    if (start === -1 || end === -1) {
+      segments.push({ text: rest.split(SEARCH_HIGHLIGHT_START).join("").split(SEARCH_HIGHLIGHT_END).join(""), highlighted: false })
+      break
+    }
+
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false })
+    }
+    segments.push({ text: rest.slice(start + SEARCH_HIGHLIGHT_START.length, end), highlighted: true })
+    rest = rest.slice(end + SEARCH_HIGHLIGHT_END.length)
+  }
+
+  return segments.filter((segment) => segment.text.length > 0)
+}
+
+/**
+ * Put rows fetched with .in("id", ...) back into the order a search function ranked them
+ * IDs without a row (e.g. hidden by RLS since ranking) are skipped
+ */
+export function orderBySearchRank<T extends { id: string }>(rows: T[], rankedIds: string[]): T[] {
+  const rowsById = new Map(rows.map((row) => [row.id, row]))
+  return rankedIds.flatMap((id) => {
+    const row = rowsById.get(id)
+    return row ? [row] : []
+  })
+}
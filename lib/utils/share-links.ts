@@ -0,0 +1,87 @@
+/**
+ * Utilities for private share links
+ *
+ * Visitors who open /share/{token} get a "grant" stored in an httpOnly cookie.
+ * The server Supabase client forwards grants as the x-share-grants header,
+ * which the SELECT policies check via share_link_grants_access().
+ */
+
+import type { ShareTargetType } from "@/lib/types/share-links"
+import { getArtifactPath, getCollectionPath, type RoutableItem } from "@/lib/utils/routes"
+
+export const SHARE_GRANTS_COOKIE = "share_grants"
+export const SHARE_GRANTS_HEADER = "x-share-grants"
+
+export const SHARE_GRANTS_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge: 60 * 60 * 24 * 30, // 30 days
+}
+
+// Keeps the cookie and header small; oldest grants are dropped first
+export const MAX_SHARE_GRANTS = 10
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32,}$/
+const UNLOCK_KEY_PATTERN = /^[a-f0-9]+$/
+
+export interface ShareGrant {
+  token: string
+  unlockKey: string | null
+}
+
+export function isValidShareToken(token: string): boolean {
+  return TOKEN_PATTERN.test(token)
+}
+
+/**
+ * Parse the grants cookie ("token" or "token.unlockKey", comma-separated)
+ * Malformed entries are ignored so a tampered cookie can't inject header content
+ */
+export function parseShareGrants(value: string | null | undefined): ShareGrant[] {
+  if (!value) return []
+
+  return value.split(",").flatMap((entry) => {
+    const [token, unlockKey, ...rest] = entry.trim().split(".")
+    if (rest.length > 0 || !token || !isValidShareToken(token)) return []
+    if (unlockKey !== undefined && !UNLOCK_KEY_PATTERN.test(unlockKey)) return []
+    return [{ token, unlockKey: unlockKey ?? null }]
+  })
+}
+
+export function serializeShareGrants(grants: ShareGrant[]): string {
+  return grants.map((grant) => (grant.unlockKey ? `${grant.token}.${grant.unlockKey}` : grant.token)).join(",")
+}
+
+/**
+ * Add or replace the grant for a token, keeping the most recent MAX_SHARE_GRANTS
+ */
+export function addShareGrant(grants: ShareGrant[], grant: ShareGrant): ShareGrant[] {
+  const others = grants.filter((existing) => existing.token !== grant.token)
+  return [...others, grant].slice(-MAX_SHARE_GRANTS)
+}
+
+export function findShareGrant(grants: ShareGrant[], token: string): ShareGrant | undefined {
+  return grants.find((grant) => grant.token === token)
+}
+
+export function getSharePath(token: string): string {
+  return `/share/${token}`
+}
+
+export function getShareTargetPath(targetType: ShareTargetType, target: RoutableItem): string {
+  return targetType === "artifact" ? getArtifactPath(target) : getCollectionPath(target)
+}
+
+/**
+ * Convert an "expires in N days" choice into a timestamp (null = never)
+ */
+export function getShareLinkExpiry(expiresInDays: number | null | undefined, now: Date = new Date()): string | null {
+  if (!expiresInDays) return null
+  return new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+}
+
+export function isShareLinkExpired(expiresAt: string | null | undefined, now: Date = new Date()): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() <= now.getTime()
+}
@@ -0,0 +1,36 @@
+/**
+ * Server-Sent Events helpers for streaming route handlers
+ */
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  // Stop proxies (nginx) from buffering the stream
+  "X-Accel-Buffering": "no",
+}
+
+/**
+ * Format a named event with a JSON payload
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  const lines = JSON.stringify(data)
+    .split("\n")
+    .map((line) => `data: ${line}`)
+    .join("\n")
+  return `event: ${event}\n${lines}\n\n`
+}
+
+/**
+ * Comment line that keeps idle connections open; ignored by EventSource
+ */
+export function formatSseComment(comment: string): string {
+  return `: ${comment}\n\n`
+}
+
+/**
+ * Tell EventSource how long to wait before reconnecting
+ */
+export function formatSseRetry(ms: number): string {
+  return `retry: ${ms}\n\n`
+}
@@ -0,0 +1,49 @@
+/**
+ * Story helpers shared by the story list, reader and editor
+ */
+
+import type { StoryBlockType } from "@/lib/types/stories"
+
+export const STORY_BLOCK_TYPES: readonly StoryBlockType[] = ["text", "artifact", "media", "audio"]
+
+export const STORY_BLOCK_LABELS: Record<StoryBlockType, string> = {
+  text: "Text",
+  artifact: "Artifact",
+  media: "Photo or video",
+  audio: "Audio clip",
+}
+
+/**
+ * Plain-text preview of markdown for story cards
+ * Drops images, link targets and formatting characters, then truncates on a word boundary
+ */
+export function getStoryExcerpt(markdown: string | null | undefined, maxLength = 160): string {
+  if (!markdown) return ""
+
+  const text = markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/[*_`~]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+
+  if (text.length <= maxLength) return text
+
+  const cut = text.slice(0, maxLength)
+  const lastSpace = cut.lastIndexOf(" ")
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`
+}
+
+/**
+ * Move the item at index one place up or down, returning a new array
+ * Out-of-range moves return the list unchanged
+ */
+export function moveStoryBlock<T>(blocks: T[], index: number, direction: -1 | 1): T[] {
+  const target = index + direction
+  if (index < 0 || index >= blocks.length || target < 0 || target >= blocks.length) return blocks
+
+  const next = [...blocks]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
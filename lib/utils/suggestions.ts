@@ -0,0 +1,241 @@
+/**
+ * Utilities for AI summary suggestions (artifacts.ai_suggestions)
+ *
+ * Each run of the summary step replaces the pending suggestions, but keeps what the owner
+ * already accepted or rejected, so a rejected name doesn't come back on the next run.
+ */
+
+import type {
+  ArtifactSuggestions,
+  PhotoLocation,
+  Suggestion,
+  SuggestionKind,
+  SuggestionStatus,
+  SummaryStructuredOutput,
+} from "@/lib/types/suggestions"
+
+export const MAX_SUGGESTIONS_PER_KIND = 10
+export const MAX_HIGHLIGHTS = 5
+
+const LIST_KINDS = ["people", "places", "tags"] as const
+type ListKind = (typeof LIST_KINDS)[number]
+
+const STATUSES: SuggestionStatus[] = ["pending", "accepted", "rejected"]
+
+/**
+ * A name as stored: trimmed, with single spaces
+ */
+export function normalizeEntityName(name: string): string {
+  return name.trim().replace(/\s+/g, " ")
+}
+
+/**
+ * Names match regardless of case and spacing
+ */
+export function isSameName(a: string, b: string): boolean {
+  return normalizeEntityName(a).toLowerCase() === normalizeEntityName(b).toLowerCase()
+}
+
+function normalizeValue(kind: ListKind, value: string): string {
+  const name = normalizeEntityName(value)
+  return kind === "tags" ? name.toLowerCase() : name
+}
+
+function isSuggestion(value: unknown): value is Suggestion<unknown> {
+  return (
+    !!value && typeof value === "object" && STATUSES.includes((value as Suggestion<unknown>).status)
+  )
+}
+
+function parseList(value: unknown): Suggestion[] | undefined {
+  if (!Array.isArray(value)) return undefined
+  return value.filter(
+    (item): item is Suggestion =>
+      isSuggestion(item) && typeof item.value === "string" && !!item.value.trim()
+  )
+}
+
+function isPhotoLocation(value: unknown): value is PhotoLocation {
+  if (!value || typeof value !== "object") return false
+  const location = value as PhotoLocation
+  return (
+    typeof location.name === "string" &&
+    typeof location.latitude === "number" &&
+    typeof location.longitude === "number" &&
+    typeof location.media_url === "string"
+  )
+}
+
+/**
+ * Read ai_suggestions, dropping anything malformed
+ */
+export function getArtifactSuggestions(raw: unknown): ArtifactSuggestions {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {}
+  const data = raw as Record<string, unknown>
+  const suggestions: ArtifactSuggestions = {}
+
+  for (const kind of LIST_KINDS) {
+    const list = parseList(data[kind])
+    if (list) suggestions[kind] = list
+  }
+
+  const year = data.year_guess
+  if (isSuggestion(year) && typeof year.value === "number" && Number.isInteger(year.value)) {
+    suggestions.year_guess = year as Suggestion<number>
+  }
+
+  const photo = data.photo_location
+  if (isSuggestion(photo) && isPhotoLocation(photo.value)) {
+    suggestions.photo_location = photo as Suggestion<PhotoLocation>
+  }
+
+  if (Array.isArray(data.highlights)) {
+    suggestions.highlights = data.highlights.filter(
+      (item): item is string => typeof item === "string"
+    )
+  }
+
+  if (typeof data.generated_at === "string") {
+    suggestions.generated_at = data.generated_at
+  }
+
+  return suggestions
+}
+
+function mergeList(
+  kind: ListKind,
+  previous: Suggestion[] | undefined,
+  values: string[] | undefined
+): Suggestion[] {
+  const reviewed = (previous || []).filter((item) => item.status !== "pending")
+  const merged = [...reviewed]
+
+  for (const value of values || []) {
+    const normalized = normalizeValue(kind, value)
+    if (!normalized) continue
+    if (merged.some((item) => isSameName(item.value, normalized))) continue
+    if (merged.length - reviewed.length >= MAX_SUGGESTIONS_PER_KIND) break
+    merged.push({ value: normalized, status: "pending" })
+  }
+
+  return merged
+}
+
+function mergeYear(
+  previous: Suggestion<number> | null | undefined,
+  guess: number | undefined
+): Suggestion<number> | null {
+  const reviewed = previous && previous.status !== "pending" ? previous : null
+  if (guess === undefined || reviewed?.value === guess) return reviewed
+  return { value: guess, status: "pending" }
+}
+
+/**
+ * Combine a new summary's structured output with the suggestions already on the artifact
+ * New values are pending; reviewed values keep their status, even when no longer suggested.
+ */
+export function mergeSuggestions(
+  previous: ArtifactSuggestions,
+  output: SummaryStructuredOutput,
+  generatedAt: string
+): ArtifactSuggestions {
+  return {
+    people: mergeList("people", previous.people, output.people),
+    places: mergeList("places", previous.places, output.places),
+    tags: mergeList("tags", previous.tags, output.tags),
+    year_guess: mergeYear(previous.year_guess, output.year_guess),
+    highlights: (output.highlights || [])
+      .map((highlight) => highlight.trim())
+      .filter(Boolean)
+      .slice(0, MAX_HIGHLIGHTS),
+    generated_at: generatedAt,
+    // Found by the image step, not the summary
+    ...(previous.photo_location !== undefined ? { photo_location: previous.photo_location } : {}),
+  }
+}
+
+/**
+ * Offer the GPS position read from the artifact's photos
+ * A reviewed location stays as it is while the photos still say the same thing; a pending
+ * one goes when the photo with it does.
+ */
+export function mergePhotoLocation(
+  previous: ArtifactSuggestions,
+  found: PhotoLocation | null
+): ArtifactSuggestions {
+  const current = previous.photo_location
+  const reviewed = current && current.status !== "pending" ? current : null
+
+  if (!found) return { ...previous, photo_location: reviewed }
+
+  const isSame =
+    reviewed?.value.latitude === found.latitude && reviewed.value.longitude === found.longitude
+  return { ...previous, photo_location: isSame ? reviewed : { value: found, status: "pending" } }
+}
+
+/**
+ * Suggestions still waiting for the owner
+ */
+export function getPendingSuggestions(suggestions: ArtifactSuggestions): {
+  people: string[]
+  places: string[]
+  tags: string[]
+  year_guess: number | null
+  photo_location: PhotoLocation | null
+} {
+  const pending = (list: Suggestion[] | undefined) =>
+    (list || []).filter((item) => item.status === "pending").map((item) => item.value)
+
+  return {
+    people: pending(suggestions.people),
+    places: pending(suggestions.places),
+    tags: pending(suggestions.tags),
+    year_guess: suggestions.year_guess?.status === "pending" ? suggestions.year_guess.value : null,
+    photo_location:
+      suggestions.photo_location?.status === "pending" ? suggestions.photo_location.value : null,
+  }
+}
+
+export function hasPendingSuggestions(suggestions: ArtifactSuggestions): boolean {
+  const pending = getPendingSuggestions(suggestions)
+  return (
+    pending.people.length > 0 ||
+    pending.places.length > 0 ||
+    pending.tags.length > 0 ||
+    pending.year_guess !== null ||
+    pending.photo_location !== null
+  )
+}
+
+/**
+ * Mark one suggestion accepted or rejected
+ * Returns the suggestions unchanged when there's no such suggestion.
+ */
+export function setSuggestionStatus(
+  suggestions: ArtifactSuggestions,
+  kind: SuggestionKind,
+  value: string | number,
+  status: SuggestionStatus
+): ArtifactSuggestions {
+  if (kind === "year_guess") {
+    const year = suggestions.year_guess
+    if (!year || year.value !== Number(value)) return suggestions
+    return { ...suggestions, year_guess: { ...year, status } }
+  }
+
+  if (kind === "photo_location") {
+    const location = suggestions.photo_location
+    if (!location || !isSameName(location.value.name, String(value))) return suggestions
+    return { ...suggestions, photo_location: { ...location, status } }
+  }
+
+  const list = suggestions[kind] || []
+  if (!list.some((item) => isSameName(item.value, String(value)))) return suggestions
+
+  return {
+    ...suggestions,
+    [kind]: list.map((item) =>
+      isSameName(item.value, String(value)) ? { ...item, status } : item
+    ),
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Utilities for timestamped audio transcripts
+ *
+ * Segments live in artifacts.audio_transcript_segments, keyed by audio URL like
+ * audio_transcripts. The plain text is always the segment texts joined, so the two
+ * are checked against each other before segments are shown.
+ */
+
+import type { AudioTranscriptSegments, TranscriptSegment } from "@/lib/types/transcripts"
+
+function isSegment(value: unknown): value is TranscriptSegment {
+  if (!value || typeof value !== "object") return false
+  const segment = value as Record<string, unknown>
+  return (
+    typeof segment.start === "number" &&
+    Number.isFinite(segment.start) &&
+    typeof segment.end === "number" &&
+    Number.isFinite(segment.end) &&
+    typeof segment.text === "string"
+  )
+}
+
+/**
+ * Clean segments from a provider or the database
+ * Drops malformed and empty segments, trims text and orders by start time
+ */
+export function normalizeTranscriptSegments(value: unknown): TranscriptSegment[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .filter(isSegment)
+    .map((segment) => ({
+      start: Math.max(0, segment.start),
+      end: Math.max(segment.start, segment.end),
+      text: segment.text.trim(),
+    }))
+    .filter((segment) => segment.text.length > 0)
+    .sort((a, b) => a.start - b.start)
+}
+
+/**
+ * The plain transcript for a set of segments
+ */
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments
+    .map((segment) => segment.text.trim())
+    .filter(Boolean)
+    .join(" ")
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+/**
+ * Segments for one audio URL, or [] when there are none or they no longer match the text
+ * (the transcript was replaced or edited as a whole, so the timings can't be trusted)
+ */
+export function getTranscriptSegments(
+  segmentsByUrl: AudioTranscriptSegments | null | undefined,
+  transcripts: Record<string, string> | null | undefined,
+  url: string,
+): TranscriptSegment[] {
+  const segments = normalizeTranscriptSegments(segmentsByUrl?.[url])
+  const transcript = transcripts?.[url]
+  if (segments.length === 0 || !transcript) return []
+
+  return collapseWhitespace(segmentsToText(segments)) === collapseWhitespace(transcript) ? segments : []
+}
+
+/**
+ * Index of the segment being spoken at a playback time, or -1 before the first one
+ * In the pauses between segments the previous one stays highlighted.
+ */
+export function findActiveSegmentIndex(segments: TranscriptSegment[], time: number): number {
+  let low = 0
+  let high = segments.length - 1
+  let active = -1
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2)
+    if (segments[mid].start <= time) {
+      active = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+
+  return active
+}
+
+/**
+ * Replace one segment's text, keeping every timing as it was
+ */
+export function updateSegmentText(
+  segments: TranscriptSegment[],
+  index: number,
+  text: string,
+): TranscriptSegment[] {
+  return segments.map((segment, i) => (i === index ? { ...segment, text: text.trim() } : segment))
+}
+
+/**
+ * Format seconds as m:ss, or h:mm:ss for long recordings
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = (total % 60).toString().padStart(2, "0")
+
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${secs}` : `${minutes}:${secs}`
+}
@@ -0,0 +1,242 @@
+/**
+ * Utilities for artifact translations
+ *
+ * The description, transcripts and AI description are translated per locale and stored in
+ * artifacts.translations. Each translation keeps a hash of the original it came from, so
+ * readers only ever see translations of the text as it is now, and retranslating only
+ * touches what changed.
+ */
+
+import type {
+  ArtifactTranslation,
+  ArtifactTranslations,
+  TranslatableTexts,
+  TranslatedText,
+} from "@/lib/types/translations"
+
+/**
+ * Languages offered for language_hint and translation (ISO 639-1 codes Whisper understands)
+ */
+export const LANGUAGES = [
+  { code: "en", name: "English" },
+  { code: "it", name: "Italian" },
+  { code: "es", name: "Spanish" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "pt", name: "Portuguese" },
+  { code: "nl", name: "Dutch" },
+  { code: "pl", name: "Polish" },
+  { code: "el", name: "Greek" },
+  { code: "ru", name: "Russian" },
+  { code: "uk", name: "Ukrainian" },
+  { code: "yi", name: "Yiddish" },
+  { code: "he", name: "Hebrew" },
+  { code: "ar", name: "Arabic" },
+  { code: "hi", name: "Hindi" },
+  { code: "zh", name: "Chinese" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+  { code: "vi", name: "Vietnamese" },
+  { code: "tl", name: "Tagalog" },
+] as const
+
+export type LanguageCode = (typeof LANGUAGES)[number]["code"]
+
+export const LANGUAGE_CODES = LANGUAGES.map((language) => language.code) as [LanguageCode, ...LanguageCode[]]
+
+// Longest piece of text sent in one translation request
+export const MAX_TRANSLATION_CHUNK_LENGTH = 4000
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === "string" && (LANGUAGE_CODES as string[]).includes(value)
+}
+
+/**
+ * English name of a language code, or the code itself if it isn't one we list
+ */
+export function getLanguageName(code: string): string {
+  return LANGUAGES.find((language) => language.code === code)?.name || code
+}
+
+/**
+ * Short, stable fingerprint of an original text (FNV-1a)
+ * Whitespace at the ends is ignored so re-saving a form doesn't make translations stale.
+ */
+export function hashTranslationSource(text: string): string {
+  let hash = 0x811c9dc5
+  const normalized = text.trim()
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0")
+}
+
+function isFresh(translated: TranslatedText | undefined, source: string): translated is TranslatedText {
+  return !!translated && translated.source_hash === hashTranslationSource(source)
+}
+
+/**
+ * Translations read from the database, with anything malformed dropped
+ */
+export function getArtifactTranslations(value: unknown): ArtifactTranslations {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {}
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter(
+      ([locale, translation]) => isLanguageCode(locale) && !!translation && typeof translation === "object",
+    ),
+  ) as ArtifactTranslations
+}
+
+/**
+ * One original text that needs translating: a field, or one audio transcript
+ */
+export interface TranslationItem {
+  field: "description" | "ai_description" | "transcript" | "audio_transcripts"
+  url?: string
+  text: string
+}
+
+function getTranslationItems(texts: TranslatableTexts): TranslationItem[] {
+  const items: TranslationItem[] = []
+
+  for (const field of ["description", "ai_description", "transcript"] as const) {
+    const text = texts[field]
+    if (text?.trim()) items.push({ field, text })
+  }
+  for (const [url, text] of Object.entries(texts.audio_transcripts || {})) {
+    if (text?.trim()) items.push({ field: "audio_transcripts", url, text })
+  }
+
+  return items
+}
+
+function getTranslated(translation: ArtifactTranslation | undefined, item: TranslationItem) {
+  return item.url ? translation?.audio_transcripts?.[item.url] : translation?.[item.field as "description"]
+}
+
+/**
+ * Originals with no translation yet, or whose translation is out of date
+ */
+export function getTextsToTranslate(
+  texts: TranslatableTexts,
+  translation: ArtifactTranslation | undefined,
+): TranslationItem[] {
+  return getTranslationItems(texts).filter((item) => !isFresh(getTranslated(translation, item), item.text))
+}
+
+/**
+ * The translation after translating `translated` (same order as `items`)
+ * Up-to-date translations are kept; out-of-date ones and ones whose original is gone are dropped.
+ */
+export function mergeTranslation(
+  texts: TranslatableTexts,
+  existing: ArtifactTranslation | undefined,
+  items: TranslationItem[],
+  translated: string[],
+  translatedAt: string = new Date().toISOString(),
+): ArtifactTranslation {
+  const result: ArtifactTranslation = { translated_at: translatedAt }
+
+  const set = (item: TranslationItem, value: TranslatedText) => {
+    if (item.url) {
+      result.audio_transcripts = { ...(result.audio_transcripts || {}), [item.url]: value }
+    } else {
+      result[item.field as "description"] = value
+    }
+  }
+
+  for (const item of getTranslationItems(texts)) {
+    const current = getTranslated(existing, item)
+    if (isFresh(current, item.text)) set(item, current)
+  }
+
+  items.forEach((item, index) => {
+    if (translated[index] !== undefined) {
+      set(item, { text: translated[index], source_hash: hashTranslationSource(item.text) })
+    }
+  })
+
+  return result
+}
+
+/**
+ * What a reader sees in a language: each text translated where an up-to-date translation
+ * exists, the original otherwise
+ */
+export function getTranslatedTexts(
+  texts: TranslatableTexts,
+  translation: ArtifactTranslation | undefined,
+): Required<TranslatableTexts> {
+  const pick = (field: "description" | "ai_description" | "transcript") => {
+    const text = texts[field] || null
+    const translated = translation?.[field]
+    return text && isFresh(translated, text) ? translated.text : text
+  }
+
+  const audioTranscripts = Object.fromEntries(
+    Object.entries(texts.audio_transcripts || {}).map(([url, text]) => {
+      const translated = translation?.audio_transcripts?.[url]
+      return [url, isFresh(translated, text) ? translated.text : text]
+    }),
+  )
+
+  return {
+    description: pick("description"),
+    ai_description: pick("ai_description"),
+    transcript: pick("transcript"),
+    audio_transcripts: audioTranscripts,
+  }
+}
+
+/**
+ * Locales with at least one up-to-date translation, in LANGUAGES order
+ */
+export function getAvailableTranslationLocales(
+  texts: TranslatableTexts,
+  translations: ArtifactTranslations,
+): LanguageCode[] {
+  const items = getTranslationItems(texts)
+  return LANGUAGE_CODES.filter((locale) =>
+    items.some((item) => isFresh(getTranslated(translations[locale], item), item.text)),
+  )
+}
+
+/**
+ * Split a long text into pieces that can each be translated on their own
+ * Breaks between paragraphs where possible, then between sentences; never mid-sentence
+ * unless a single sentence is longer than maxLength.
+ */
+export function splitForTranslation(text: string, maxLength: number = MAX_TRANSLATION_CHUNK_LENGTH): string[] {
+  if (text.length <= maxLength) return [text]
+
+  // Paragraphs, with any that are too long broken into sentences (or slices of a sentence)
+  const units: { text: string; startsParagraph: boolean }[] = []
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const pieces =
+      paragraph.length <= maxLength
+        ? [paragraph]
+        : (paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [paragraph]).flatMap((sentence) => {
+            const slices: string[] = []
+            for (let i = 0; i < sentence.length; i += maxLength) slices.push(sentence.slice(i, i + maxLength))
+            return slices
+          })
+    pieces.forEach((piece, index) => units.push({ text: piece, startsParagraph: index === 0 }))
+  }
+
+  const chunks: string[] = []
+  let current = ""
+  for (const unit of units) {
+    const joined = current ? current + (unit.startsParagraph ? "\n\n" : "") + unit.text : unit.text
+    if (current && joined.length > maxLength) {
+      chunks.push(current.trim())
+      current = unit.text
+    } else {
+      current = joined
+    }
+  }
+  if (current.trim()) chunks.push(current.trim())
+
+  return chunks
+}
@@ -0,0 +1,101 @@
+/**
+ * Utilities for first-party view analytics
+ *
+ * Views are recorded server-side by recordView() - no cookies, no client script.
+ * Viewers are identified by a salted hash that includes the day, so the same
+ * person counts once per day and can't be followed from one day to the next.
+ */
+
+import type { DailyViewStats, ViewAnalytics, ViewReferrer } from "@/lib/types/analytics"
+
+/** Query param the share route adds to its redirect so the view is attributed to the link */
+export const VIEW_REF_PARAM = "ref"
+export const SHARE_LINK_REF = "share"
+
+export const ANALYTICS_RANGE_OPTIONS = [7, 30, 90] as const
+export const DEFAULT_ANALYTICS_DAYS = 30
+export const MAX_ANALYTICS_DAYS = 90
+
+export const VIEW_REFERRER_LABELS: Record<ViewReferrer, string> = {
+  share_link: "Share link",
+  community: "Community",
+  direct: "Direct",
+}
+
+const BOT_PATTERN = /bot|crawl|spider|slurp|preview|facebookexternalhit|headless|lighthouse|curl|wget/i
+
+export function isLikelyBot(userAgent: string | null | undefined): boolean {
+  return !userAgent || BOT_PATTERN.test(userAgent)
+}
+
+/**
+ * Work out where a view came from
+ * Share links are tagged by the /share/{token} redirect; community views come
+ * from the showcase on our own home page; anything else counts as direct
+ */
+export function categorizeReferrer({
+  ref,
+  referer,
+  host,
+}: {
+  ref?: string | null
+  referer?: string | null
+  host?: string | null
+}): ViewReferrer {
+  if (ref === SHARE_LINK_REF) return "share_link"
+  if (!referer) return "direct"
+
+  try {
+    const url = new URL(referer)
+    if (!!host && url.host === host && url.pathname === "/") return "community"
+  } catch {
+    // Malformed referer headers are treated as direct traffic
+  }
+  return "direct"
+}
+
+/** UTC day the view is bucketed into (matches CURRENT_DATE on the database) */
+export function toViewDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Turn sparse per-day rows into a continuous series ending today, filling gaps with zeroes
+ */
+export function fillDailySeries(rows: DailyViewStats[], days: number, today: Date = new Date()): DailyViewStats[] {
+  const byDay = new Map(rows.map((row) => [row.day, row]))
+  const series: DailyViewStats[] = []
+
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const day = toViewDay(new Date(today.getTime() - offset * 24 * 60 * 60 * 1000))
+    const row = byDay.get(day)
+    series.push({
+      day,
+      views: Number(row?.views ?? 0),
+      unique_viewers: Number(row?.unique_viewers ?? 0),
+      share_link_views: Number(row?.share_link_views ?? 0),
+      community_views: Number(row?.community_views ?? 0),
+      direct_views: Number(row?.direct_views ?? 0),
+    })
+  }
+
+  return series
+}
+
+/**
+ * Add up a daily series
+ * Viewer hashes rotate daily, so unique viewers can only be counted per day: the total is
+ * daily unique visits, not distinct people across the range.
+ */
+export function sumDailyViews(series: DailyViewStats[]): ViewAnalytics["totals"] {
+  return series.reduce(
+    (totals, day) => ({
+      views: totals.views + day.views,
+      daily_unique_visits: totals.daily_unique_visits + day.unique_viewers,
+      share_link_views: totals.share_link_views + day.share_link_views,
+      community_views: totals.community_views + day.community_views,
+      direct_views: totals.direct_views + day.direct_views,
+    }),
+    { views: 0, daily_unique_visits: 0, share_link_views: 0, community_views: 0, direct_views: 0 },
+  )
+}
@@ -57,5 +57,10 @@ export default defineConfig({
     url: "http://localhost:3000",
     reuseExistingServer: !process.env.CI,
     timeout: 120 * 1000,
+    // Offline AI stand-ins (lib/ai-providers/fake.ts) unless a provider is set explicitly.
+    // Not applied to a dev server that's already running and gets reused.
+    env: {
+      AI_PROVIDER: process.env.AI_PROVIDER || "fake",
+    },
   },
 })
@@ -0,0 +1,103 @@
+-- Migration: Add structured attributes
+-- Description: Each artifact type defines its own attribute schema; artifacts store values per type
+-- Validation happens in lib/schemas.ts (buildAttributeValuesSchema) via createArtifact/updateArtifact
+-- Date: 2025-12-04
+
+-- Attribute schema per type
+-- Array of { key, label, kind: 'text'|'number'|'enum'|'date', units?, options?, required?, placeholder? }
+ALTER TABLE artifact_types
+ADD COLUMN IF NOT EXISTS attribute_schema JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Attribute values per artifact, keyed by attribute key
+-- Text/enum/date values are strings, number values are { value, unit }
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS attributes JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Guard against malformed data written outside the app
+ALTER TABLE artifact_types DROP CONSTRAINT IF EXISTS artifact_types_attribute_schema_is_array;
+ALTER TABLE artifact_types
+ADD CONSTRAINT artifact_types_attribute_schema_is_array CHECK (jsonb_typeof(attribute_schema) = 'array');
+
+ALTER TABLE artifacts DROP CONSTRAINT IF EXISTS artifacts_attributes_is_object;
+ALTER TABLE artifacts
+ADD CONSTRAINT artifacts_attributes_is_object CHECK (jsonb_typeof(attributes) = 'object');
+
+-- Allow filtering artifacts by attribute values later (e.g. all "Automatic" watches)
+CREATE INDEX IF NOT EXISTS idx_artifacts_attributes ON artifacts USING GIN (attributes);
+
+-- Furniture type (referenced by the attribute seeds below)
+INSERT INTO artifact_types (name, slug, description, icon_name, display_order) VALUES
+  ('Furniture', 'furniture', 'Heirloom furniture and woodwork', 'Armchair', 7)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Seed attribute schemas for built-in types
+-- Shared "condition" options keep the vocabulary consistent across types
+UPDATE artifact_types SET attribute_schema = '[
+  {"key": "maker", "label": "Maker", "kind": "text", "placeholder": "e.g., Tiffany & Co."},
+  {"key": "materials", "label": "Materials", "kind": "text", "placeholder": "e.g., Silver, oak"},
+  {"key": "date_made", "label": "Date Made", "kind": "date"},
+  {"key": "condition", "label": "Condition", "kind": "enum", "options": ["Mint", "Excellent", "Good", "Fair", "Poor"]}
+]'::jsonb
+WHERE slug = 'general';
+
+UPDATE artifact_types SET attribute_schema = '[
+  {"key": "make", "label": "Make", "kind": "text", "required": true, "placeholder": "e.g., Ford"},
+  {"key": "model", "label": "Model", "kind": "text", "placeholder": "e.g., Mustang"},
+  {"key": "model_year", "label": "Model Year", "kind": "number", "placeholder": "e.g., 1967"},
+  {"key": "mileage", "label": "Mileage", "kind": "number", "units": ["mi", "km"]},
+  {"key": "engine_displacement", "label": "Engine", "kind": "number", "units": ["L", "cc", "ci"]},
+  {"key": "condition", "label": "Condition", "kind": "enum", "options": ["Concours", "Excellent", "Good", "Driver", "Project"]}
+]'::jsonb
+WHERE slug = 'cars';
+
+UPDATE artifact_types SET attribute_schema = '[
+  {"key": "brand", "label": "Brand", "kind": "text", "placeholder": "e.g., Omega"},
+  {"key": "reference", "label": "Reference", "kind": "text", "placeholder": "e.g., 145.022"},
+  {"key": "movement", "label": "Movement", "kind": "enum", "options": ["Manual", "Automatic", "Quartz"]},
+  {"key": "case_size", "label": "Case Size", "kind": "number", "units": ["mm"]},
+  {"key": "case_material", "label": "Case Material", "kind": "text", "placeholder": "e.g., Stainless steel"},
+  {"key": "condition", "label": "Condition", "kind": "enum", "options": ["Mint", "Excellent", "Good", "Fair", "Poor"]}
+]'::jsonb
+WHERE slug = 'watches';
+
+UPDATE artifact_types SET attribute_schema = '[
+  {"key": "distillery", "label": "Distillery", "kind": "text"},
+  {"key": "age_statement", "label": "Age", "kind": "number", "units": ["years"]},
+  {"key": "abv", "label": "ABV", "kind": "number", "units": ["%"]},
+  {"key": "bottled", "label": "Bottled", "kind": "date"},
+  {"key": "volume", "label": "Volume", "kind": "number", "units": ["ml", "cl", "L"]}
+]'::jsonb
+WHERE slug = 'whiskey';
+
+UPDATE artifact_types SET attribute_schema = '[
+  {"key": "manufacturer", "label": "Manufacturer", "kind": "text", "placeholder": "e.g., Kenner"},
+  {"key": "series", "label": "Series / Line", "kind": "text"},
+  {"key": "height", "label": "Height", "kind": "number", "units": ["cm", "in"]},
+  {"key": "packaging", "label": "Packaging", "kind": "enum", "options": ["Sealed", "Opened, boxed", "Loose"]},
+  {"key": "condition", "label": "Condition", "kind": "enum", "options": ["Mint", "Excellent", "Good", "Fair", "Poor"]}
+]'::jsonb
+WHERE slug = 'toys';
+
+UPDATE artifact_types SET attribute_schema = '[
+  {"key": "publisher", "label": "Publisher", "kind": "text"},
+  {"key": "platform", "label": "Platform", "kind": "text", "placeholder": "e.g., Board game, NES"},
+  {"key": "release_date", "label": "Release Date", "kind": "date"},
+  {"key": "completeness", "label": "Completeness", "kind": "enum", "options": ["Complete in box", "Missing pieces", "Loose"]}
+]'::jsonb
+WHERE slug = 'games';
+
+UPDATE artifact_types SET attribute_schema = '[
+  {"key": "wood", "label": "Wood", "kind": "text", "placeholder": "e.g., Walnut"},
+  {"key": "style", "label": "Style / Period", "kind": "text", "placeholder": "e.g., Victorian"},
+  {"key": "width", "label": "Width", "kind": "number", "units": ["cm", "in"]},
+  {"key": "depth", "label": "Depth", "kind": "number", "units": ["cm", "in"]},
+  {"key": "height", "label": "Height", "kind": "number", "units": ["cm", "in"]},
+  {"key": "condition", "label": "Condition", "kind": "enum", "options": ["Mint", "Excellent", "Good", "Fair", "Poor"]}
+]'::jsonb
+WHERE slug = 'furniture';
+
+-- Add comments for documentation
+COMMENT ON COLUMN artifact_types.attribute_schema IS
+  'Structured attribute definitions for this type - see AttributeDefinition in lib/types/artifact-types.ts';
+COMMENT ON COLUMN artifacts.attributes IS
+  'Structured attribute values keyed by artifact_types.attribute_schema[].key';
@@ -0,0 +1,134 @@
+-- Migration: Create provenance_events table
+-- Description: Chain of custody per artifact - who owned it, how it was acquired, when and where
+-- Rendered as a vertical timeline in the Provenance section of the artifact page
+-- Date: 2025-12-04
+
+CREATE TABLE IF NOT EXISTS provenance_events (
+  -- Identity
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Relationships
+  artifact_id UUID NOT NULL REFERENCES artifacts(id) ON DELETE CASCADE,
+
+  -- Event details
+  owner_name TEXT NOT NULL,                -- e.g., "Great-grandma Rosa"
+  acquisition_method TEXT,                 -- 'inherited', 'purchased', 'gift', 'made', 'found', 'other' (NULL = unknown)
+  date_start TEXT,                         -- Partial ISO date: YYYY, YYYY-MM or YYYY-MM-DD
+  date_end TEXT,                           -- Optional end of range (same format)
+  location TEXT,                           -- Free text, e.g., "Naples, Italy"
+  notes TEXT,
+
+  -- Ordering (0-based, oldest owner first)
+  sort_order INTEGER NOT NULL DEFAULT 0,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT provenance_acquisition_method_check CHECK (
+    acquisition_method IS NULL
+    OR acquisition_method IN ('inherited', 'purchased', 'gift', 'made', 'found', 'other')
+  ),
+  CONSTRAINT provenance_date_start_format CHECK (date_start IS NULL OR date_start ~ '^\d{4}(-\d{2}(-\d{2})?)?$'),
+  CONSTRAINT provenance_date_end_format CHECK (date_end IS NULL OR date_end ~ '^\d{4}(-\d{2}(-\d{2})?)?$')
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_provenance_events_artifact_order
+  ON provenance_events(artifact_id, sort_order);
+
+-- updated_at trigger
+CREATE OR REPLACE FUNCTION update_provenance_events_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS provenance_events_updated_at_trigger ON provenance_events;
+CREATE TRIGGER provenance_events_updated_at_trigger
+  BEFORE UPDATE ON provenance_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_provenance_events_updated_at();
+
+-- Enable RLS
+ALTER TABLE provenance_events ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for idempotency)
+DROP POLICY IF EXISTS provenance_events_select ON provenance_events;
+DROP POLICY IF EXISTS provenance_events_insert ON provenance_events;
+DROP POLICY IF EXISTS provenance_events_update ON provenance_events;
+DROP POLICY IF EXISTS provenance_events_delete ON provenance_events;
+
+-- RLS Policies: Inherit visibility from the artifact (same rules as artifact_media)
+CREATE POLICY provenance_events_select
+  ON provenance_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      LEFT JOIN collections c ON a.collection_id = c.id
+      WHERE a.id = provenance_events.artifact_id
+      AND (
+        c.is_public = true
+        OR a.user_id = auth.uid()
+        OR c.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Only the artifact owner can modify its provenance
+CREATE POLICY provenance_events_insert
+  ON provenance_events FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM artifacts
+      WHERE id = provenance_events.artifact_id
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY provenance_events_update
+  ON provenance_events FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts
+      WHERE id = provenance_events.artifact_id
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY provenance_events_delete
+  ON provenance_events FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts
+      WHERE id = provenance_events.artifact_id
+      AND user_id = auth.uid()
+    )
+  );
+
+-- Backfill: seed the first entry from the legacy year_acquired / origin columns
+-- The current owner (artifact author) acquired it in year_acquired, from origin
+INSERT INTO provenance_events (artifact_id, owner_name, date_start, location, sort_order)
+SELECT
+  a.id,
+  COALESCE(p.display_name, 'Current owner'),
+  a.year_acquired::text,
+  NULLIF(trim(a.origin), ''),
+  0
+FROM artifacts a
+LEFT JOIN profiles p ON p.id = a.user_id
+WHERE (a.year_acquired IS NOT NULL OR NULLIF(trim(a.origin), '') IS NOT NULL)
+AND NOT EXISTS (
+  SELECT 1 FROM provenance_events pe WHERE pe.artifact_id = a.id
+);
+
+-- Add helpful comments
+COMMENT ON TABLE provenance_events IS
+  'Ownership history (chain of custody) per artifact. Seeded from artifacts.year_acquired/origin.';
+COMMENT ON COLUMN provenance_events.date_start IS
+  'Partial ISO date (YYYY, YYYY-MM or YYYY-MM-DD) - heirloom dates are often only known to the year';
+COMMENT ON COLUMN provenance_events.sort_order IS
+  'Timeline order (0-based, oldest owner first). Set by the owner, not derived from dates.';
@@ -0,0 +1,299 @@
+-- Migration: Create share_links table
+-- Description: Private, unguessable read-only links to one artifact or one collection
+-- Links can expire, require a password and be revoked without touching collections.is_public
+-- Date: 2025-12-05
+--
+-- How access works:
+--   1. Visiting /share/{token} calls resolve_share_link() and stores a grant in an httpOnly cookie
+--   2. lib/supabase/server.ts forwards the cookie's grants as the x-share-grants request header
+--   3. share_link_grants_access() reads that header inside the SELECT policies below
+-- Password-protected links only grant access once unlock_share_link() has returned the link's unlock key.
+
+CREATE TABLE IF NOT EXISTS share_links (
+  -- Identity
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token TEXT NOT NULL UNIQUE,              -- 32 char base64url, generated in lib/actions/share-links.ts
+
+  -- Relationships (exactly one target)
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  artifact_id UUID REFERENCES artifacts(id) ON DELETE CASCADE,
+  collection_id UUID REFERENCES collections(id) ON DELETE CASCADE,
+
+  -- Access controls
+  expires_at TIMESTAMPTZ,                  -- NULL = never expires
+  password_hash TEXT,                      -- bcrypt via pgcrypto, NULL = no password
+  unlock_key TEXT,                         -- Rotated whenever the password changes
+  revoked_at TIMESTAMPTZ,
+
+  -- Analytics
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT share_links_single_target CHECK (num_nonnulls(artifact_id, collection_id) = 1),
+  CONSTRAINT share_links_token_format CHECK (token ~ '^[A-Za-z0-9_-]{32,}$')
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_share_links_artifact ON share_links(artifact_id) WHERE artifact_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_share_links_collection ON share_links(collection_id) WHERE collection_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_share_links_user ON share_links(user_id);
+
+-- Enable RLS
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for idempotency)
+DROP POLICY IF EXISTS share_links_select ON share_links;
+DROP POLICY IF EXISTS share_links_insert ON share_links;
+DROP POLICY IF EXISTS share_links_update ON share_links;
+DROP POLICY IF EXISTS share_links_delete ON share_links;
+
+-- Only the owner can see and manage their links (visitors go through the functions below)
+CREATE POLICY share_links_select
+  ON share_links FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY share_links_insert
+  ON share_links FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      (artifact_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM artifacts WHERE id = share_links.artifact_id AND user_id = auth.uid()
+      ))
+      OR (collection_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM collections WHERE id = share_links.collection_id AND user_id = auth.uid()
+      ))
+    )
+  );
+
+-- A link can't be repointed at something its owner doesn't own
+CREATE POLICY share_links_update
+  ON share_links FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      (artifact_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM artifacts WHERE id = share_links.artifact_id AND user_id = auth.uid()
+      ))
+      OR (collection_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM collections WHERE id = share_links.collection_id AND user_id = auth.uid()
+      ))
+    )
+  );
+
+CREATE POLICY share_links_delete
+  ON share_links FOR DELETE
+  USING (user_id = auth.uid());
+
+-- ============================================================================
+-- Access check used by SELECT policies
+-- ============================================================================
+
+-- x-share-grants is a comma-separated list of "{token}" or "{token}.{unlock_key}"
+CREATE OR REPLACE FUNCTION public.share_link_grants_access(p_artifact_id UUID, p_collection_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  grants TEXT;
+BEGIN
+  grants := current_setting('request.headers', true)::json->>'x-share-grants';
+
+  IF grants IS NULL OR grants = '' THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM unnest(string_to_array(grants, ',')) AS g(value)
+    JOIN share_links sl ON sl.token = split_part(g.value, '.', 1)
+    WHERE sl.revoked_at IS NULL
+    AND (sl.expires_at IS NULL OR sl.expires_at > NOW())
+    AND (sl.password_hash IS NULL OR sl.unlock_key = split_part(g.value, '.', 2))
+    AND (
+      (p_artifact_id IS NOT NULL AND sl.artifact_id = p_artifact_id)
+      OR (p_collection_id IS NOT NULL AND sl.collection_id = p_collection_id)
+    )
+  );
+END;
+$$;
+
+-- ============================================================================
+-- Visitor-facing functions (visitors can't read share_links directly)
+-- ============================================================================
+
+-- Resolve a token to its target; optionally counts a view when access is granted
+-- status: 'ok' | 'password_required' | 'expired' | 'revoked' | 'not_found'
+CREATE OR REPLACE FUNCTION public.resolve_share_link(
+  p_token TEXT,
+  p_unlock_key TEXT DEFAULT NULL,
+  p_record_view BOOLEAN DEFAULT false
+)
+RETURNS TABLE (status TEXT, target_type TEXT, target_slug TEXT)
+LANGUAGE plpgsql VOLATILE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link share_links%ROWTYPE;
+BEGIN
+  SELECT * INTO link FROM share_links WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF link.revoked_at IS NOT NULL THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF link.expires_at IS NOT NULL AND link.expires_at <= NOW() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF link.password_hash IS NOT NULL AND link.unlock_key IS DISTINCT FROM p_unlock_key THEN
+    RETURN QUERY SELECT 'password_required'::TEXT, NULL::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF p_record_view THEN
+    UPDATE share_links
+    SET view_count = view_count + 1, last_viewed_at = NOW()
+    WHERE id = link.id;
+  END IF;
+
+  IF link.artifact_id IS NOT NULL THEN
+    RETURN QUERY SELECT 'ok'::TEXT, 'artifact'::TEXT, a.slug FROM artifacts a WHERE a.id = link.artifact_id;
+  ELSE
+    RETURN QUERY SELECT 'ok'::TEXT, 'collection'::TEXT, c.slug FROM collections c WHERE c.id = link.collection_id;
+  END IF;
+END;
+$$;
+
+-- Check a password and return the link's unlock key (NULL when wrong or link unusable)
+CREATE OR REPLACE FUNCTION public.unlock_share_link(p_token TEXT, p_password TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  link share_links%ROWTYPE;
+BEGIN
+  SELECT * INTO link FROM share_links
+  WHERE token = p_token
+  AND revoked_at IS NULL
+  AND (expires_at IS NULL OR expires_at > NOW())
+  AND password_hash IS NOT NULL;
+
+  IF NOT FOUND OR link.password_hash <> crypt(p_password, link.password_hash) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN link.unlock_key;
+END;
+$$;
+
+-- Owner-only: set or clear a link's password (hashing happens here so plaintext never hits a table)
+CREATE OR REPLACE FUNCTION public.set_share_link_password(p_link_id UUID, p_password TEXT)
+RETURNS VOID
+LANGUAGE plpgsql VOLATILE SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  UPDATE share_links
+  SET
+    password_hash = CASE WHEN p_password IS NULL THEN NULL ELSE crypt(p_password, gen_salt('bf')) END,
+    unlock_key = CASE WHEN p_password IS NULL THEN NULL ELSE encode(gen_random_bytes(18), 'hex') END
+  WHERE id = p_link_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Share link not found';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.share_link_grants_access(UUID, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_share_link(TEXT, TEXT, BOOLEAN) TO anon, authenticated;
+-- Password checks go through the server (lib/actions/share-links.ts) so they can be rate limited
+REVOKE EXECUTE ON FUNCTION public.unlock_share_link(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.unlock_share_link(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.set_share_link_password(UUID, TEXT) TO authenticated;
+
+-- ============================================================================
+-- Honor share grants in read policies
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view own artifacts or admin can view all" ON artifacts;
+CREATE POLICY "Users can view own artifacts or admin can view all"
+  ON artifacts FOR SELECT
+  USING (
+    public.is_admin_user()
+    OR auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM collections
+      WHERE collections.id = artifacts.collection_id
+      AND collections.is_public = true
+    )
+    OR public.share_link_grants_access(id, collection_id)
+  );
+
+DROP POLICY IF EXISTS "Users can view own collections or admin can view all" ON collections;
+CREATE POLICY "Users can view own collections or admin can view all"
+  ON collections FOR SELECT
+  USING (
+    public.is_admin_user()
+    OR auth.uid() = user_id
+    OR is_public = true
+    OR public.share_link_grants_access(NULL, id)
+  );
+
+DROP POLICY IF EXISTS artifact_media_select ON artifact_media;
+CREATE POLICY artifact_media_select
+  ON artifact_media FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      LEFT JOIN collections c ON a.collection_id = c.id
+      WHERE a.id = artifact_media.artifact_id
+      AND (
+        c.is_public = true
+        OR a.user_id = auth.uid()
+        OR c.user_id = auth.uid()
+        OR public.share_link_grants_access(a.id, a.collection_id)
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS provenance_events_select ON provenance_events;
+CREATE POLICY provenance_events_select
+  ON provenance_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      LEFT JOIN collections c ON a.collection_id = c.id
+      WHERE a.id = provenance_events.artifact_id
+      AND (
+        c.is_public = true
+        OR a.user_id = auth.uid()
+        OR c.user_id = auth.uid()
+        OR public.share_link_grants_access(a.id, a.collection_id)
+      )
+    )
+  );
+
+-- Add helpful comments
+COMMENT ON TABLE share_links IS
+  'Private read-only links to a single artifact or collection. Managed by the owner, resolved via resolve_share_link().';
+COMMENT ON COLUMN share_links.unlock_key IS
+  'Secret handed to visitors after a correct password; stored in their share grant cookie instead of the password';
+COMMENT ON FUNCTION public.share_link_grants_access(UUID, UUID) IS
+  'True when the x-share-grants request header holds a valid grant for the artifact or collection';
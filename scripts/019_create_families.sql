@@ -0,0 +1,472 @@
+-- Migration: Create families, family_members and family_invitations
+-- Description: Family groups that share collections. Members have a role:
+--   viewer      - can view the family's collections and artifacts
+--   contributor - can also add their own artifacts to family collections
+--   editor      - can also edit any artifact in family collections and manage members/invitations
+-- Collections opt in by setting collections.family_id (owner only, to a family they belong to).
+-- Date: 2025-12-06
+
+-- ============================================================================
+-- Tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS families (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS family_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'contributor', 'editor')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT family_members_unique UNIQUE (family_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS family_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,                     -- Stored lowercase
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'contributor', 'editor')),
+  token TEXT NOT NULL UNIQUE,              -- Used in /families/join/{token}
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT (NOW() + INTERVAL '14 days'),
+  accepted_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT family_invitations_email_lowercase CHECK (email = lower(email))
+);
+
+-- Collections can be attached to one family
+ALTER TABLE collections
+ADD COLUMN IF NOT EXISTS family_id UUID REFERENCES families(id) ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_family_members_user ON family_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_family_invitations_family ON family_invitations(family_id);
+CREATE INDEX IF NOT EXISTS idx_collections_family ON collections(family_id) WHERE family_id IS NOT NULL;
+
+-- Only one pending invitation per email per family
+CREATE UNIQUE INDEX IF NOT EXISTS idx_family_invitations_pending
+  ON family_invitations(family_id, email)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+-- ============================================================================
+-- Role helpers (SECURITY DEFINER so policies on family_members don't recurse)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.family_role_rank(p_role TEXT)
+RETURNS INTEGER
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE p_role WHEN 'viewer' THEN 1 WHEN 'contributor' THEN 2 WHEN 'editor' THEN 3 ELSE 0 END;
+$$;
+
+-- Does the current user have at least p_min_role in the family?
+CREATE OR REPLACE FUNCTION public.has_family_role(p_family_id UUID, p_min_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM family_members
+    WHERE family_id = p_family_id
+    AND user_id = auth.uid()
+    AND family_role_rank(role) >= family_role_rank(p_min_role)
+  );
+$$;
+
+-- Does the current user have at least p_min_role in the collection's family?
+CREATE OR REPLACE FUNCTION public.has_collection_family_role(p_collection_id UUID, p_min_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM collections c
+    JOIN family_members fm ON fm.family_id = c.family_id
+    WHERE c.id = p_collection_id
+    AND fm.user_id = auth.uid()
+    AND family_role_rank(fm.role) >= family_role_rank(p_min_role)
+  );
+$$;
+
+-- Owner of an artifact as stored, for update checks that only see the new row
+CREATE OR REPLACE FUNCTION public.artifact_owner_id(p_artifact_id UUID)
+RETURNS UUID
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM artifacts WHERE id = p_artifact_id;
+$$;
+
+-- Family a collection is shared with as stored
+CREATE OR REPLACE FUNCTION public.collection_family_id(p_collection_id UUID)
+RETURNS UUID
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT family_id FROM collections WHERE id = p_collection_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_family_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_collection_family_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.artifact_owner_id(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.collection_family_id(UUID) TO authenticated;
+
+-- ============================================================================
+-- RLS: families / family_members / family_invitations
+-- ============================================================================
+
+ALTER TABLE families ENABLE ROW LEVEL SECURITY;
+ALTER TABLE family_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE family_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS families_select ON families;
+DROP POLICY IF EXISTS families_update ON families;
+DROP POLICY IF EXISTS families_delete ON families;
+DROP POLICY IF EXISTS family_members_select ON family_members;
+DROP POLICY IF EXISTS family_members_update ON family_members;
+DROP POLICY IF EXISTS family_members_delete ON family_members;
+DROP POLICY IF EXISTS family_invitations_select ON family_invitations;
+DROP POLICY IF EXISTS family_invitations_insert ON family_invitations;
+DROP POLICY IF EXISTS family_invitations_update ON family_invitations;
+
+-- Families are created through create_family() so the creator becomes an editor atomically
+CREATE POLICY families_select
+  ON families FOR SELECT
+  USING (public.has_family_role(id, 'viewer'));
+
+CREATE POLICY families_update
+  ON families FOR UPDATE
+  USING (public.has_family_role(id, 'editor'))
+  WITH CHECK (public.has_family_role(id, 'editor'));
+
+CREATE POLICY families_delete
+  ON families FOR DELETE
+  USING (created_by = auth.uid());
+
+-- Members see each other; editors manage roles; anyone can leave
+-- New members are added through accept_family_invitation()
+-- The family's creator always stays an editor: nobody can change their role or remove them
+CREATE POLICY family_members_select
+  ON family_members FOR SELECT
+  USING (public.has_family_role(family_id, 'viewer'));
+
+CREATE POLICY family_members_update
+  ON family_members FOR UPDATE
+  USING (
+    public.has_family_role(family_id, 'editor')
+    AND user_id <> (SELECT f.created_by FROM families f WHERE f.id = family_members.family_id)
+  )
+  WITH CHECK (
+    public.has_family_role(family_id, 'editor')
+    AND user_id <> (SELECT f.created_by FROM families f WHERE f.id = family_members.family_id)
+  );
+
+CREATE POLICY family_members_delete
+  ON family_members FOR DELETE
+  USING (
+    user_id = auth.uid()
+    OR (
+      public.has_family_role(family_id, 'editor')
+      AND user_id <> (SELECT f.created_by FROM families f WHERE f.id = family_members.family_id)
+    )
+  );
+
+-- Editors manage invitations; invitees read theirs through get_family_invitation()
+CREATE POLICY family_invitations_select
+  ON family_invitations FOR SELECT
+  USING (public.has_family_role(family_id, 'editor'));
+
+CREATE POLICY family_invitations_insert
+  ON family_invitations FOR INSERT
+  WITH CHECK (public.has_family_role(family_id, 'editor') AND invited_by = auth.uid());
+
+CREATE POLICY family_invitations_update
+  ON family_invitations FOR UPDATE
+  USING (public.has_family_role(family_id, 'editor'))
+  WITH CHECK (public.has_family_role(family_id, 'editor'));
+
+-- Policies can't compare old and new rows, so column grants pin everything else:
+-- families can only be renamed, members only change role, invitations only get revoked
+REVOKE UPDATE ON families FROM anon, authenticated;
+REVOKE UPDATE ON family_members FROM anon, authenticated;
+REVOKE UPDATE ON family_invitations FROM anon, authenticated;
+GRANT UPDATE (name, updated_at) ON families TO authenticated;
+GRANT UPDATE (role) ON family_members TO authenticated;
+GRANT UPDATE (revoked_at) ON family_invitations TO authenticated;
+
+-- ============================================================================
+-- Functions: create family, read and accept invitations
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_family(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql VOLATILE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_family_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO families (name, created_by) VALUES (trim(p_name), auth.uid())
+  RETURNING id INTO new_family_id;
+
+  INSERT INTO family_members (family_id, user_id, role) VALUES (new_family_id, auth.uid(), 'editor');
+
+  RETURN new_family_id;
+END;
+$$;
+
+-- Invitation details for the join page (no membership required)
+CREATE OR REPLACE FUNCTION public.get_family_invitation(p_token TEXT)
+RETURNS TABLE (
+  family_id UUID,
+  family_name TEXT,
+  email TEXT,
+  role TEXT,
+  inviter_name TEXT,
+  status TEXT                              -- 'pending' | 'accepted' | 'revoked' | 'expired'
+)
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    f.id,
+    f.name,
+    i.email,
+    i.role,
+    p.display_name,
+    CASE
+      WHEN i.accepted_at IS NOT NULL THEN 'accepted'
+      WHEN i.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN i.expires_at <= NOW() THEN 'expired'
+      ELSE 'pending'
+    END
+  FROM family_invitations i
+  JOIN families f ON f.id = i.family_id
+  LEFT JOIN profiles p ON p.id = i.invited_by
+  WHERE i.token = p_token;
+$$;
+
+-- Accept an invitation addressed to the signed-in user's email
+-- Returns the family id; an existing membership keeps the higher of the two roles
+CREATE OR REPLACE FUNCTION public.accept_family_invitation(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql VOLATILE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation family_invitations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO invitation FROM family_invitations
+  WHERE token = p_token
+  AND accepted_at IS NULL
+  AND revoked_at IS NULL
+  AND expires_at > NOW()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation is no longer valid';
+  END IF;
+
+  IF invitation.email <> lower(coalesce(auth.jwt()->>'email', '')) THEN
+    RAISE EXCEPTION 'Invitation was sent to a different email address';
+  END IF;
+
+  INSERT INTO family_members (family_id, user_id, role)
+  VALUES (invitation.family_id, auth.uid(), invitation.role)
+  ON CONFLICT (family_id, user_id) DO UPDATE
+  SET role = CASE
+    WHEN family_role_rank(EXCLUDED.role) > family_role_rank(family_members.role) THEN EXCLUDED.role
+    ELSE family_members.role
+  END;
+
+  UPDATE family_invitations SET accepted_at = NOW() WHERE id = invitation.id;
+
+  RETURN invitation.family_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_family(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_family_invitation(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_family_invitation(TEXT) TO authenticated;
+
+-- ============================================================================
+-- Family access in collection / artifact policies
+-- (keeps the share link clauses from 018_create_share_links_table.sql)
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view own collections or admin can view all" ON collections;
+CREATE POLICY "Users can view own collections or admin can view all"
+  ON collections FOR SELECT
+  USING (
+    public.is_admin_user()
+    OR auth.uid() = user_id
+    OR is_public = true
+    OR (family_id IS NOT NULL AND public.has_family_role(family_id, 'viewer'))
+    OR public.share_link_grants_access(NULL, id)
+  );
+
+-- Owners can only share a collection with a family they belong to
+DROP POLICY IF EXISTS "Users can insert own collections" ON collections;
+CREATE POLICY "Users can insert own collections"
+  ON collections FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (family_id IS NULL OR public.has_family_role(family_id, 'viewer'))
+  );
+
+DROP POLICY IF EXISTS "Users can update own collections or admin can update all" ON collections;
+CREATE POLICY "Users can update own collections or admin can update all"
+  ON collections FOR UPDATE
+  USING (public.is_admin_user() OR auth.uid() = user_id)
+  WITH CHECK (
+    public.is_admin_user()
+    OR (
+      auth.uid() = user_id
+      AND (
+        family_id IS NULL
+        -- Leaving the family as it was keeps working after the owner is removed from it
+        OR family_id = public.collection_family_id(id)
+        OR public.has_family_role(family_id, 'viewer')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own artifacts or admin can view all" ON artifacts;
+CREATE POLICY "Users can view own artifacts or admin can view all"
+  ON artifacts FOR SELECT
+  USING (
+    public.is_admin_user()
+    OR auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM collections
+      WHERE collections.id = artifacts.collection_id
+      AND collections.is_public = true
+    )
+    OR public.has_collection_family_role(collection_id, 'viewer')
+    OR public.share_link_grants_access(id, collection_id)
+  );
+
+-- Contributors add their own artifacts to family collections
+DROP POLICY IF EXISTS "Users can insert own artifacts" ON artifacts;
+CREATE POLICY "Users can insert own artifacts"
+  ON artifacts FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      collection_id IS NULL
+      OR EXISTS (SELECT 1 FROM collections WHERE id = artifacts.collection_id AND user_id = auth.uid())
+      OR public.has_collection_family_role(collection_id, 'contributor')
+    )
+  );
+
+-- Editors can edit any artifact in family collections
+DROP POLICY IF EXISTS "Users can update own artifacts or admin can update all" ON artifacts;
+CREATE POLICY "Users can update own artifacts or admin can update all"
+  ON artifacts FOR UPDATE
+  USING (
+    public.is_admin_user()
+    OR auth.uid() = user_id
+    OR public.has_collection_family_role(collection_id, 'editor')
+  )
+  WITH CHECK (
+    public.is_admin_user()
+    OR auth.uid() = user_id
+    -- Editors can't hand the artifact to someone else or move it out of their families
+    OR (
+      public.has_collection_family_role(collection_id, 'editor')
+      AND user_id = public.artifact_owner_id(id)
+    )
+  );
+
+DROP POLICY IF EXISTS artifact_media_select ON artifact_media;
+CREATE POLICY artifact_media_select
+  ON artifact_media FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      LEFT JOIN collections c ON a.collection_id = c.id
+      WHERE a.id = artifact_media.artifact_id
+      AND (
+        c.is_public = true
+        OR a.user_id = auth.uid()
+        OR c.user_id = auth.uid()
+        OR (c.family_id IS NOT NULL AND public.has_family_role(c.family_id, 'viewer'))
+        OR public.share_link_grants_access(a.id, a.collection_id)
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS provenance_events_select ON provenance_events;
+CREATE POLICY provenance_events_select
+  ON provenance_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      LEFT JOIN collections c ON a.collection_id = c.id
+      WHERE a.id = provenance_events.artifact_id
+      AND (
+        c.is_public = true
+        OR a.user_id = auth.uid()
+        OR c.user_id = auth.uid()
+        OR (c.family_id IS NOT NULL AND public.has_family_role(c.family_id, 'viewer'))
+        OR public.share_link_grants_access(a.id, a.collection_id)
+      )
+    )
+  );
+
+-- Editors can rewrite the provenance of artifacts they can edit
+DROP POLICY IF EXISTS provenance_events_insert ON provenance_events;
+CREATE POLICY provenance_events_insert
+  ON provenance_events FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = provenance_events.artifact_id
+      AND (a.user_id = auth.uid() OR public.has_collection_family_role(a.collection_id, 'editor'))
+    )
+  );
+
+DROP POLICY IF EXISTS provenance_events_update ON provenance_events;
+CREATE POLICY provenance_events_update
+  ON provenance_events FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = provenance_events.artifact_id
+      AND (a.user_id = auth.uid() OR public.has_collection_family_role(a.collection_id, 'editor'))
+    )
+  );
+
+DROP POLICY IF EXISTS provenance_events_delete ON provenance_events;
+CREATE POLICY provenance_events_delete
+  ON provenance_events FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = provenance_events.artifact_id
+      AND (a.user_id = auth.uid() OR public.has_collection_family_role(a.collection_id, 'editor'))
+    )
+  );
+
+-- Add helpful comments
+COMMENT ON TABLE families IS 'Family groups that share collections between members';
+COMMENT ON TABLE family_members IS 'Family membership with role: viewer < contributor < editor';
+COMMENT ON TABLE family_invitations IS 'Email invitations to join a family, accepted via /families/join/{token}';
+COMMENT ON COLUMN collections.family_id IS 'Family this collection is shared with (NULL = owner only)';
@@ -0,0 +1,142 @@
+-- Migration: Create artifact_comments table
+-- Description: Threaded comments ("memories") on artifacts, with an optional photo or voice note
+-- Anyone who can view the artifact can read and add comments; the artifact owner moderates them
+-- by removing them, never by rewriting them
+-- Date: 2025-12-07
+
+CREATE TABLE IF NOT EXISTS artifact_comments (
+  -- Identity
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Relationships
+  artifact_id UUID NOT NULL REFERENCES artifacts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES artifact_comments(id) ON DELETE CASCADE,  -- NULL = top-level comment
+
+  -- Content
+  body TEXT,
+  photo_url TEXT,
+  audio_url TEXT,                          -- Voice note recorded in the browser
+  audio_transcript TEXT,                   -- From /api/transcribe, shown under the player
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ,                  -- Set instead of deleting when the comment has replies
+
+  -- Constraints
+  CONSTRAINT artifact_comments_has_content CHECK (
+    deleted_at IS NOT NULL
+    OR NULLIF(trim(body), '') IS NOT NULL
+    OR photo_url IS NOT NULL
+    OR audio_url IS NOT NULL
+  ),
+  CONSTRAINT artifact_comments_body_length CHECK (body IS NULL OR char_length(body) <= 5000)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_artifact_comments_artifact_created
+  ON artifact_comments(artifact_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_artifact_comments_parent
+  ON artifact_comments(parent_id) WHERE parent_id IS NOT NULL;
+
+-- updated_at trigger
+CREATE OR REPLACE FUNCTION update_artifact_comments_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS artifact_comments_updated_at_trigger ON artifact_comments;
+CREATE TRIGGER artifact_comments_updated_at_trigger
+  BEFORE UPDATE ON artifact_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_artifact_comments_updated_at();
+
+-- Enable RLS
+ALTER TABLE artifact_comments ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for idempotency)
+DROP POLICY IF EXISTS artifact_comments_select ON artifact_comments;
+DROP POLICY IF EXISTS artifact_comments_insert ON artifact_comments;
+DROP POLICY IF EXISTS artifact_comments_update ON artifact_comments;
+DROP POLICY IF EXISTS artifact_comments_delete ON artifact_comments;
+
+-- Visibility follows the artifact. The subquery runs under the artifacts SELECT policy,
+-- so public collections, families and share link grants all apply without repeating them here.
+CREATE POLICY artifact_comments_select
+  ON artifact_comments FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM artifacts a WHERE a.id = artifact_comments.artifact_id)
+  );
+
+-- Signed-in viewers comment as themselves; replies must stay on the same artifact
+CREATE POLICY artifact_comments_insert
+  ON artifact_comments FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM artifacts a WHERE a.id = artifact_comments.artifact_id)
+    AND (
+      parent_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM artifact_comments parent
+        WHERE parent.id = artifact_comments.parent_id
+        AND parent.artifact_id = artifact_comments.artifact_id
+      )
+    )
+  );
+
+-- Authors, the artifact owner and admins can remove comments (updates are only used for tombstones).
+-- A comment stays on its artifact, author and thread, and only its author can change what it says.
+CREATE POLICY artifact_comments_update
+  ON artifact_comments FOR UPDATE
+  USING (
+    public.is_admin_user()
+    OR user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = artifact_comments.artifact_id
+      AND a.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM artifact_comments stored
+      WHERE stored.id = artifact_comments.id
+      AND stored.artifact_id = artifact_comments.artifact_id
+      AND stored.user_id = artifact_comments.user_id
+      AND stored.parent_id IS NOT DISTINCT FROM artifact_comments.parent_id
+    )
+    AND (
+      user_id = auth.uid()
+      OR (
+        deleted_at IS NOT NULL
+        AND body IS NULL
+        AND photo_url IS NULL
+        AND audio_url IS NULL
+        AND audio_transcript IS NULL
+      )
+    )
+  );
+
+CREATE POLICY artifact_comments_delete
+  ON artifact_comments FOR DELETE
+  USING (
+    public.is_admin_user()
+    OR user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = artifact_comments.artifact_id
+      AND a.user_id = auth.uid()
+    )
+  );
+
+-- Add helpful comments
+COMMENT ON TABLE artifact_comments IS
+  'Threaded comments and memories on artifacts. Visibility follows the artifact.';
+COMMENT ON COLUMN artifact_comments.parent_id IS
+  'Comment being replied to (NULL for top-level comments). Replies are deleted with their parent.';
+COMMENT ON COLUMN artifact_comments.deleted_at IS
+  'Tombstone for removed comments that still have replies - content is cleared but the thread is kept';
@@ -0,0 +1,151 @@
+-- Migration: Create view_events table
+-- Description: First-party view analytics for artifact and collection pages
+-- Recorded server-side by lib/actions/analytics.ts - no cookies or third-party trackers.
+-- Viewers are stored as a salted SHA-256 hash that rotates daily, so visitors can't be
+-- followed across days and IPs are never stored.
+-- Date: 2025-12-08
+
+CREATE TABLE IF NOT EXISTS view_events (
+  -- Identity
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+
+  -- What was viewed (exactly one target)
+  artifact_id UUID REFERENCES artifacts(id) ON DELETE CASCADE,
+  collection_id UUID REFERENCES collections(id) ON DELETE CASCADE,
+
+  -- Who / how
+  viewer_hash TEXT NOT NULL,               -- sha256(salt + day + viewer), see lib/utils/view-analytics.ts
+  referrer TEXT NOT NULL DEFAULT 'direct', -- 'share_link', 'community', 'direct'
+
+  -- When
+  viewed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT view_events_single_target CHECK (num_nonnulls(artifact_id, collection_id) = 1),
+  CONSTRAINT view_events_referrer_check CHECK (referrer IN ('share_link', 'community', 'direct'))
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_view_events_artifact_day
+  ON view_events(artifact_id, viewed_on) WHERE artifact_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_view_events_collection_day
+  ON view_events(collection_id, viewed_on) WHERE collection_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE view_events ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for idempotency)
+DROP POLICY IF EXISTS view_events_select ON view_events;
+DROP POLICY IF EXISTS view_events_insert ON view_events;
+
+-- Only owners (and admins) can read analytics. Collection owners also see views of
+-- artifacts in their collections that other family members added.
+CREATE POLICY view_events_select
+  ON view_events FOR SELECT
+  USING (
+    public.is_admin_user()
+    OR EXISTS (
+      SELECT 1 FROM artifacts a
+      LEFT JOIN collections c ON a.collection_id = c.id
+      WHERE a.id = view_events.artifact_id
+      AND (a.user_id = auth.uid() OR c.user_id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM collections c
+      WHERE c.id = view_events.collection_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+-- Anyone (including anonymous visitors) can record a view of something they can see.
+-- The subqueries run under the artifacts/collections SELECT policies, share grants included.
+CREATE POLICY view_events_insert
+  ON view_events FOR INSERT
+  WITH CHECK (
+    viewed_on = CURRENT_DATE
+    AND (
+      (artifact_id IS NOT NULL AND EXISTS (SELECT 1 FROM artifacts a WHERE a.id = view_events.artifact_id))
+      OR (collection_id IS NOT NULL AND EXISTS (SELECT 1 FROM collections c WHERE c.id = view_events.collection_id))
+    )
+  );
+
+GRANT INSERT ON view_events TO anon, authenticated;
+
+-- ============================================================================
+-- Aggregates (SECURITY INVOKER - RLS above limits them to the owner's data)
+-- ============================================================================
+
+-- Views per day for one artifact or one collection page
+CREATE OR REPLACE FUNCTION public.get_daily_view_stats(
+  p_artifact_id UUID,
+  p_collection_id UUID,
+  p_since DATE
+)
+RETURNS TABLE (
+  day DATE,
+  views BIGINT,
+  unique_viewers BIGINT,
+  share_link_views BIGINT,
+  community_views BIGINT,
+  direct_views BIGINT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    viewed_on AS day,
+    COUNT(*) AS views,
+    COUNT(DISTINCT viewer_hash) AS unique_viewers,
+    COUNT(*) FILTER (WHERE referrer = 'share_link') AS share_link_views,
+    COUNT(*) FILTER (WHERE referrer = 'community') AS community_views,
+    COUNT(*) FILTER (WHERE referrer = 'direct') AS direct_views
+  FROM view_events
+  WHERE viewed_on >= p_since
+  AND (
+    (p_artifact_id IS NOT NULL AND artifact_id = p_artifact_id)
+    OR (p_collection_id IS NOT NULL AND collection_id = p_collection_id)
+  )
+  GROUP BY viewed_on
+  ORDER BY viewed_on;
+$$;
+
+-- Most viewed artifacts in a collection
+CREATE OR REPLACE FUNCTION public.get_top_collection_artifacts(
+  p_collection_id UUID,
+  p_since DATE,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  artifact_id UUID,
+  title TEXT,
+  slug TEXT,
+  views BIGINT,
+  unique_viewers BIGINT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    a.id,
+    a.title,
+    a.slug,
+    COUNT(*) AS views,
+    COUNT(DISTINCT (ve.viewed_on, ve.viewer_hash)) AS unique_viewers
+  FROM view_events ve
+  JOIN artifacts a ON a.id = ve.artifact_id
+  WHERE a.collection_id = p_collection_id
+  AND ve.viewed_on >= p_since
+  GROUP BY a.id, a.title, a.slug
+  ORDER BY views DESC, a.title
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_daily_view_stats(UUID, UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_top_collection_artifacts(UUID, DATE, INTEGER) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON TABLE view_events IS
+  'One row per page view of an artifact or collection. Readable by the owner only.';
+COMMENT ON COLUMN view_events.viewer_hash IS
+  'Salted hash of the signed-in user id (or IP + user agent) and the day - rotates daily, never reversible';
+COMMENT ON COLUMN view_events.referrer IS
+  'share_link = arrived via /share/{token}, community = from the home page showcase, direct = anything else';
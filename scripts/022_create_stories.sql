@@ -0,0 +1,152 @@
+-- Migration: Create stories and story_blocks tables
+-- Description: Narrative pages that weave artifacts, media and audio together
+-- A story is an ordered list of blocks: markdown text, artifact embeds, media from the
+-- author's user_media library, and audio clips.
+-- Date: 2025-12-09
+
+CREATE TABLE IF NOT EXISTS stories (
+  -- Identity
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL UNIQUE,
+
+  -- Content
+  title TEXT NOT NULL,
+  description TEXT,
+  cover_image_url TEXT,
+
+  -- Visibility
+  is_public BOOLEAN NOT NULL DEFAULT false,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT stories_title_length CHECK (char_length(title) BETWEEN 1 AND 200)
+);
+
+CREATE TABLE IF NOT EXISTS story_blocks (
+  -- Identity
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  block_type TEXT NOT NULL,                 -- 'text', 'artifact', 'media', 'audio'
+
+  -- Content (which columns are used depends on block_type)
+  body TEXT,                                -- Markdown for text blocks, caption for the others
+  artifact_id UUID REFERENCES artifacts(id) ON DELETE CASCADE,
+  media_id UUID REFERENCES user_media(id) ON DELETE SET NULL,
+  -- Copied from user_media when the block is saved: user_media is only readable by its
+  -- owner, and readers of a public story need the URL too
+  media_url TEXT,
+  media_type TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT story_blocks_type_check CHECK (block_type IN ('text', 'artifact', 'media', 'audio')),
+  CONSTRAINT story_blocks_media_type_check CHECK (media_type IS NULL OR media_type IN ('image', 'video', 'audio')),
+  CONSTRAINT story_blocks_content_check CHECK (
+    (block_type = 'text' AND NULLIF(trim(body), '') IS NOT NULL)
+    OR (block_type = 'artifact' AND artifact_id IS NOT NULL)
+    OR (block_type = 'media' AND media_url IS NOT NULL AND media_type IN ('image', 'video'))
+    OR (block_type = 'audio' AND media_url IS NOT NULL AND media_type = 'audio')
+  ),
+  CONSTRAINT story_blocks_body_length CHECK (body IS NULL OR char_length(body) <= 20000)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_stories_user_id ON stories(user_id);
+CREATE INDEX IF NOT EXISTS idx_stories_public_updated ON stories(updated_at DESC) WHERE is_public = true;
+CREATE INDEX IF NOT EXISTS idx_story_blocks_story_order ON story_blocks(story_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_story_blocks_artifact ON story_blocks(artifact_id) WHERE artifact_id IS NOT NULL;
+
+-- updated_at trigger
+CREATE OR REPLACE FUNCTION update_stories_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stories_updated_at_trigger ON stories;
+CREATE TRIGGER stories_updated_at_trigger
+  BEFORE UPDATE ON stories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_stories_updated_at();
+
+-- Enable RLS
+ALTER TABLE stories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE story_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for idempotency)
+DROP POLICY IF EXISTS stories_select ON stories;
+DROP POLICY IF EXISTS stories_insert ON stories;
+DROP POLICY IF EXISTS stories_update ON stories;
+DROP POLICY IF EXISTS stories_delete ON stories;
+DROP POLICY IF EXISTS story_blocks_select ON story_blocks;
+DROP POLICY IF EXISTS story_blocks_insert ON story_blocks;
+DROP POLICY IF EXISTS story_blocks_update ON story_blocks;
+DROP POLICY IF EXISTS story_blocks_delete ON story_blocks;
+
+-- Stories: public ones are visible to everyone; the author (and admins) manage them
+CREATE POLICY stories_select
+  ON stories FOR SELECT
+  USING (is_public = true OR user_id = auth.uid() OR public.is_admin_user());
+
+CREATE POLICY stories_insert
+  ON stories FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY stories_update
+  ON stories FOR UPDATE
+  USING (user_id = auth.uid() OR public.is_admin_user());
+
+CREATE POLICY stories_delete
+  ON stories FOR DELETE
+  USING (user_id = auth.uid() OR public.is_admin_user());
+
+-- Blocks inherit from their story. Embedded artifacts keep their own visibility:
+-- readers who can't see an artifact get a placeholder instead of the card.
+CREATE POLICY story_blocks_select
+  ON story_blocks FOR SELECT
+  USING (EXISTS (SELECT 1 FROM stories s WHERE s.id = story_blocks.story_id));
+
+CREATE POLICY story_blocks_insert
+  ON story_blocks FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM stories s
+      WHERE s.id = story_blocks.story_id
+      AND (s.user_id = auth.uid() OR public.is_admin_user())
+    )
+  );
+
+CREATE POLICY story_blocks_update
+  ON story_blocks FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM stories s
+      WHERE s.id = story_blocks.story_id
+      AND (s.user_id = auth.uid() OR public.is_admin_user())
+    )
+  );
+
+CREATE POLICY story_blocks_delete
+  ON story_blocks FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM stories s
+      WHERE s.id = story_blocks.story_id
+      AND (s.user_id = auth.uid() OR public.is_admin_user())
+    )
+  );
+
+-- Add helpful comments
+COMMENT ON TABLE stories IS 'Narrative pages made of ordered blocks (see story_blocks)';
+COMMENT ON TABLE story_blocks IS 'Ordered content of a story: text, artifact embeds, library media and audio clips';
+COMMENT ON COLUMN story_blocks.body IS 'Markdown for text blocks; optional caption for artifact, media and audio blocks';
+COMMENT ON COLUMN story_blocks.media_url IS 'Copied from user_media.public_url so readers don''t need access to the author''s library';
@@ -0,0 +1,156 @@
+-- Migration: Create slug_history table
+-- Description: Remember previous artifact and collection slugs so legacy slug-only URLs
+-- (/artifacts/{old-slug}) keep resolving after a rename. Canonical URLs are ID-based
+-- (/artifacts/{id}/{slug}) - see "URL Routing & Shareable Links" in ARCHITECTURE.md.
+-- Rows are written by triggers only; history starts when this migration runs.
+-- Date: 2025-12-10
+
+CREATE TABLE IF NOT EXISTS slug_history (
+  -- Identity
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+
+  -- What the slug used to point to (exactly one target)
+  artifact_id UUID REFERENCES artifacts(id) ON DELETE CASCADE,
+  collection_id UUID REFERENCES collections(id) ON DELETE CASCADE,
+
+  -- The retired slug
+  slug TEXT NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT slug_history_single_target CHECK (num_nonnulls(artifact_id, collection_id) = 1)
+);
+
+-- A retired slug points to whichever item gave it up most recently
+CREATE UNIQUE INDEX IF NOT EXISTS idx_slug_history_artifact_slug
+  ON slug_history(slug) WHERE artifact_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_slug_history_collection_slug
+  ON slug_history(slug) WHERE collection_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE slug_history ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for idempotency)
+DROP POLICY IF EXISTS slug_history_select ON slug_history;
+
+-- Anyone can look up an old slug for something they can see.
+-- The subqueries run under the artifacts/collections SELECT policies, share grants included.
+CREATE POLICY slug_history_select
+  ON slug_history FOR SELECT
+  USING (
+    (artifact_id IS NOT NULL AND EXISTS (SELECT 1 FROM artifacts a WHERE a.id = slug_history.artifact_id))
+    OR (collection_id IS NOT NULL AND EXISTS (SELECT 1 FROM collections c WHERE c.id = slug_history.collection_id))
+  );
+
+-- ============================================================================
+-- Triggers (SECURITY DEFINER - there are no INSERT policies on slug_history)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_artifact_slug_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO slug_history (artifact_id, slug)
+  VALUES (OLD.id, OLD.slug)
+  ON CONFLICT (slug) WHERE artifact_id IS NOT NULL
+  DO UPDATE SET artifact_id = EXCLUDED.artifact_id, created_at = NOW();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_collection_slug_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO slug_history (collection_id, slug)
+  VALUES (OLD.id, OLD.slug)
+  ON CONFLICT (slug) WHERE collection_id IS NOT NULL
+  DO UPDATE SET collection_id = EXCLUDED.collection_id, created_at = NOW();
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS artifacts_record_slug_history ON artifacts;
+CREATE TRIGGER artifacts_record_slug_history
+  AFTER UPDATE OF slug ON artifacts
+  FOR EACH ROW
+  WHEN (OLD.slug IS DISTINCT FROM NEW.slug)
+  EXECUTE FUNCTION public.record_artifact_slug_history();
+
+DROP TRIGGER IF EXISTS collections_record_slug_history ON collections;
+CREATE TRIGGER collections_record_slug_history
+  AFTER UPDATE OF slug ON collections
+  FOR EACH ROW
+  WHEN (OLD.slug IS DISTINCT FROM NEW.slug)
+  EXECUTE FUNCTION public.record_collection_slug_history();
+
+-- ============================================================================
+-- Share links redirect to the canonical /{type}/{id}/{slug} URL, so they also
+-- need the target id. The return type changes, so the function is recreated.
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.resolve_share_link(TEXT, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.resolve_share_link(
+  p_token TEXT,
+  p_unlock_key TEXT DEFAULT NULL,
+  p_record_view BOOLEAN DEFAULT false
+)
+RETURNS TABLE (status TEXT, target_type TEXT, target_id UUID, target_slug TEXT)
+LANGUAGE plpgsql VOLATILE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link share_links%ROWTYPE;
+BEGIN
+  SELECT * INTO link FROM share_links WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::TEXT, NULL::UUID, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF link.revoked_at IS NOT NULL THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::UUID, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF link.expires_at IS NOT NULL AND link.expires_at <= NOW() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::UUID, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF link.password_hash IS NOT NULL AND link.unlock_key IS DISTINCT FROM p_unlock_key THEN
+    RETURN QUERY SELECT 'password_required'::TEXT, NULL::TEXT, NULL::UUID, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF p_record_view THEN
+    UPDATE share_links
+    SET view_count = view_count + 1, last_viewed_at = NOW()
+    WHERE id = link.id;
+  END IF;
+
+  IF link.artifact_id IS NOT NULL THEN
+    RETURN QUERY SELECT 'ok'::TEXT, 'artifact'::TEXT, a.id, a.slug FROM artifacts a WHERE a.id = link.artifact_id;
+  ELSE
+    RETURN QUERY SELECT 'ok'::TEXT, 'collection'::TEXT, c.id, c.slug FROM collections c WHERE c.id = link.collection_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_share_link(TEXT, TEXT, BOOLEAN) TO anon, authenticated;
+
+-- Add helpful comments
+COMMENT ON TABLE slug_history IS
+  'Previous slugs of artifacts and collections, used to redirect legacy slug-only URLs. Written by triggers.';
+COMMENT ON COLUMN slug_history.slug IS
+  'A slug the item no longer uses. Current slugs always win over history when resolving a URL.';
@@ -0,0 +1,203 @@
+-- Migration: Add full-text search for artifacts and collections
+-- Description: Weighted tsvector columns over artifact text (title, description, origin,
+-- transcripts and AI descriptions/captions) and collection title/description, plus ranked
+-- search RPCs used by /artifacts and /collections. The RPCs run as the caller, so RLS
+-- decides what can be found.
+-- Date: 2025-12-11
+
+-- ============================================================================
+-- Search vectors
+-- Weights: A = title, B = description/origin, C = transcripts and AI text, D = image captions
+-- The JSONB maps are keyed by media URL; only their string values are indexed.
+-- ============================================================================
+
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A')
+  || setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B')
+  || setweight(to_tsvector('english'::regconfig, coalesce(origin, '')), 'B')
+  || setweight(to_tsvector('english'::regconfig, coalesce(transcript, '')), 'C')
+  || setweight(to_tsvector('english'::regconfig, coalesce(ai_description, '')), 'C')
+  || setweight(jsonb_to_tsvector('english'::regconfig, coalesce(audio_transcripts, '{}'::jsonb), '["string"]'), 'C')
+  || setweight(jsonb_to_tsvector('english'::regconfig, coalesce(video_summaries, '{}'::jsonb), '["string"]'), 'C')
+  || setweight(jsonb_to_tsvector('english'::regconfig, coalesce(image_captions, '{}'::jsonb), '["string"]'), 'D')
+) STORED;
+
+ALTER TABLE collections
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A')
+  || setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_artifacts_search_vector ON artifacts USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_collections_search_vector ON collections USING GIN (search_vector);
+
+-- ============================================================================
+-- Snippets
+-- Matches are wrapped in ⟦ ⟧ rather than HTML so the client can render them
+-- without trusting user text. Keep in sync with lib/utils/search.ts.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.search_headline(p_content TEXT, p_query TSQUERY)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT ts_headline('english', p_content, p_query, 'StartSel=⟦, StopSel=⟧, MaxWords=24, MinWords=10, MaxFragments=1');
+$$;
+
+-- Searchable text of an artifact, one row per field value, in snippet priority order
+CREATE OR REPLACE FUNCTION public.artifact_search_fields(a artifacts)
+RETURNS TABLE (field TEXT, content TEXT, priority INTEGER)
+LANGUAGE sql STABLE
+AS $$
+  SELECT 'title', a.title, 1
+  UNION ALL SELECT 'description', a.description, 2
+  UNION ALL SELECT 'origin', a.origin, 3
+  UNION ALL SELECT 'transcript', a.transcript, 4
+  UNION ALL SELECT 'audio_transcripts', value, 5
+    FROM jsonb_each_text(CASE WHEN jsonb_typeof(a.audio_transcripts) = 'object' THEN a.audio_transcripts ELSE '{}'::jsonb END)
+  UNION ALL SELECT 'ai_description', a.ai_description, 6
+  UNION ALL SELECT 'video_summaries', value, 7
+    FROM jsonb_each_text(CASE WHEN jsonb_typeof(a.video_summaries) = 'object' THEN a.video_summaries ELSE '{}'::jsonb END)
+  UNION ALL SELECT 'image_captions', value, 8
+    FROM jsonb_each_text(CASE WHEN jsonb_typeof(a.image_captions) = 'object' THEN a.image_captions ELSE '{}'::jsonb END);
+$$;
+
+-- Best snippet per artifact: prefer a field that matches the whole query, then field priority.
+-- Fields that only contain some of the terms still qualify so every result can show why it matched.
+CREATE OR REPLACE FUNCTION public.get_artifact_search_highlights(p_query TEXT, p_artifact_ids UUID[])
+RETURNS TABLE (artifact_id UUID, field TEXT, snippet TEXT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT DISTINCT ON (a.id) a.id, f.field, h.snippet
+  FROM artifacts a
+  CROSS JOIN websearch_to_tsquery('english', p_query) AS q(query)
+  CROSS JOIN LATERAL public.artifact_search_fields(a) f
+  CROSS JOIN LATERAL (SELECT public.search_headline(f.content, q.query) AS snippet) h
+  WHERE a.id = ANY(p_artifact_ids)
+  AND coalesce(f.content, '') <> ''
+  AND strpos(h.snippet, '⟦') > 0
+  ORDER BY a.id, (to_tsvector('english', f.content) @@ q.query) DESC, f.priority;
+$$;
+
+-- ============================================================================
+-- Ranked search
+-- Results are ordered by (rank, id) descending; pass the last row's rank and id
+-- to fetch the next page.
+-- ============================================================================
+
+-- p_user_id set: that user's artifacts ("My Artifacts").
+-- Otherwise: artifacts in public collections, minus p_exclude_user_id's ("Community").
+CREATE OR REPLACE FUNCTION public.search_artifacts(
+  p_query TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_exclude_user_id UUID DEFAULT NULL,
+  p_type_ids UUID[] DEFAULT NULL,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (id UUID, rank REAL)
+LANGUAGE sql STABLE
+AS $$
+  SELECT ranked.id, ranked.rank
+  FROM (
+    SELECT a.id, ts_rank_cd(a.search_vector, q.query) AS rank
+    FROM artifacts a
+    CROSS JOIN websearch_to_tsquery('english', p_query) AS q(query)
+    LEFT JOIN collections c ON c.id = a.collection_id
+    WHERE a.search_vector @@ q.query
+    AND (
+      (p_user_id IS NOT NULL AND a.user_id = p_user_id)
+      OR (p_user_id IS NULL AND c.is_public AND (p_exclude_user_id IS NULL OR a.user_id <> p_exclude_user_id))
+    )
+    AND (p_type_ids IS NULL OR a.type_id = ANY(p_type_ids))
+  ) ranked
+  WHERE p_after_rank IS NULL OR (ranked.rank, ranked.id) < (p_after_rank, p_after_id)
+  ORDER BY ranked.rank DESC, ranked.id DESC
+  LIMIT p_limit;
+$$;
+
+-- A collection matches on its own title/description or through its best-matching artifact.
+-- artifact_id is that artifact, or NULL when the collection itself ranks higher.
+-- p_user_id set: the user's own and family collections ("My Collections").
+-- Otherwise: public collections, minus p_exclude_user_id's ("Community").
+CREATE OR REPLACE FUNCTION public.search_collections(
+  p_query TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_exclude_user_id UUID DEFAULT NULL,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (id UUID, rank REAL, artifact_id UUID)
+LANGUAGE sql STABLE
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  ),
+  scoped AS (
+    SELECT c.id, c.search_vector
+    FROM collections c
+    WHERE (
+      p_user_id IS NOT NULL
+      AND (
+        c.user_id = p_user_id
+        OR c.family_id IN (SELECT fm.family_id FROM family_members fm WHERE fm.user_id = p_user_id)
+      )
+    )
+    OR (p_user_id IS NULL AND c.is_public AND (p_exclude_user_id IS NULL OR c.user_id <> p_exclude_user_id))
+  ),
+  hits AS (
+    SELECT c.id, ts_rank_cd(c.search_vector, q.query) AS rank, NULL::UUID AS artifact_id
+    FROM scoped c, q
+    WHERE c.search_vector @@ q.query
+    UNION ALL
+    SELECT c.id, ts_rank_cd(a.search_vector, q.query), a.id
+    FROM artifacts a
+    JOIN scoped c ON c.id = a.collection_id
+    CROSS JOIN q
+    WHERE a.search_vector @@ q.query
+  ),
+  best AS (
+    SELECT DISTINCT ON (hits.id) hits.id, hits.rank, hits.artifact_id
+    FROM hits
+    ORDER BY hits.id, hits.rank DESC, hits.artifact_id NULLS FIRST
+  )
+  SELECT best.id, best.rank, best.artifact_id
+  FROM best
+  WHERE p_after_rank IS NULL OR (best.rank, best.id) < (p_after_rank, p_after_id)
+  ORDER BY best.rank DESC, best.id DESC
+  LIMIT p_limit;
+$$;
+
+-- Snippets for collections that matched on their own title or description
+CREATE OR REPLACE FUNCTION public.get_collection_search_highlights(p_query TEXT, p_collection_ids UUID[])
+RETURNS TABLE (collection_id UUID, field TEXT, snippet TEXT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT DISTINCT ON (c.id) c.id, f.field, h.snippet
+  FROM collections c
+  CROSS JOIN websearch_to_tsquery('english', p_query) AS q(query)
+  CROSS JOIN LATERAL (VALUES ('title', c.title, 1), ('description', c.description, 2)) AS f(field, content, priority)
+  CROSS JOIN LATERAL (SELECT public.search_headline(f.content, q.query) AS snippet) h
+  WHERE c.id = ANY(p_collection_ids)
+  AND coalesce(f.content, '') <> ''
+  AND strpos(h.snippet, '⟦') > 0
+  ORDER BY c.id, (to_tsvector('english', f.content) @@ q.query) DESC, f.priority;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_artifacts(TEXT, UUID, UUID, UUID[], REAL, UUID, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_collections(TEXT, UUID, UUID, REAL, UUID, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_artifact_search_highlights(TEXT, UUID[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_collection_search_highlights(TEXT, UUID[]) TO anon, authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN artifacts.search_vector IS
+  'Weighted full-text index of title, description, origin, transcripts and AI-generated text. Generated; do not write.';
+COMMENT ON COLUMN collections.search_vector IS
+  'Weighted full-text index of title and description. Generated; do not write.';
+COMMENT ON FUNCTION public.search_artifacts IS
+  'Ranked artifact search (websearch syntax). Runs as the caller so RLS applies. Keyset-paginated on (rank, id).';
+COMMENT ON FUNCTION public.search_collections IS
+  'Ranked collection search over collection text and contained artifacts. Runs as the caller so RLS applies.';
@@ -0,0 +1,137 @@
+-- Migration: Create artifact_embeddings table
+-- Description: Text embeddings (pgvector) of each artifact's description, transcript and AI
+-- summaries, for "Similar artifacts" and natural-language ("search by meaning") search.
+-- Written after /api/analyze/summary completes. Kept out of the artifacts table so
+-- SELECT * on artifacts stays small.
+-- Date: 2025-12-12
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS artifact_embeddings (
+  -- Identity (one embedding per artifact)
+  artifact_id UUID PRIMARY KEY REFERENCES artifacts(id) ON DELETE CASCADE,
+
+  -- Embedding (dimensions must match EMBEDDING_DIMENSIONS in lib/embeddings.ts)
+  embedding VECTOR(1536) NOT NULL,
+
+  -- Provenance: which provider/model produced it, and a hash of the embedded text
+  -- so unchanged artifacts aren't re-embedded
+  model TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_artifact_embeddings_embedding
+  ON artifact_embeddings USING hnsw (embedding vector_cosine_ops);
+
+-- Enable RLS
+ALTER TABLE artifact_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for idempotency)
+DROP POLICY IF EXISTS artifact_embeddings_select ON artifact_embeddings;
+DROP POLICY IF EXISTS artifact_embeddings_insert ON artifact_embeddings;
+DROP POLICY IF EXISTS artifact_embeddings_update ON artifact_embeddings;
+
+-- Embeddings are visible exactly when their artifact is.
+-- The subquery runs under the artifacts SELECT policy, share grants included.
+CREATE POLICY artifact_embeddings_select
+  ON artifact_embeddings FOR SELECT
+  USING (EXISTS (SELECT 1 FROM artifacts a WHERE a.id = artifact_embeddings.artifact_id));
+
+-- Whoever can edit the artifact (and so run its AI analysis) can write its embedding
+CREATE POLICY artifact_embeddings_insert
+  ON artifact_embeddings FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = artifact_embeddings.artifact_id
+      AND (
+        public.is_admin_user()
+        OR a.user_id = auth.uid()
+        OR public.has_collection_family_role(a.collection_id, 'editor')
+      )
+    )
+  );
+
+CREATE POLICY artifact_embeddings_update
+  ON artifact_embeddings FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = artifact_embeddings.artifact_id
+      AND (
+        public.is_admin_user()
+        OR a.user_id = auth.uid()
+        OR public.has_collection_family_role(a.collection_id, 'editor')
+      )
+    )
+  );
+
+-- ============================================================================
+-- Similarity search (SECURITY INVOKER - RLS on artifacts and artifact_embeddings
+-- decides what can be returned). Similarity is cosine similarity, 1 = identical.
+-- ============================================================================
+
+-- Artifacts closest to the given one, excluding itself.
+-- Only embeddings from the same model are comparable.
+CREATE OR REPLACE FUNCTION public.get_similar_artifacts(p_artifact_id UUID, p_limit INTEGER DEFAULT 8)
+RETURNS TABLE (id UUID, similarity REAL)
+LANGUAGE sql STABLE
+AS $$
+  SELECT e.artifact_id, (1 - (e.embedding <=> target.embedding))::REAL
+  FROM artifact_embeddings target
+  JOIN artifact_embeddings e ON e.artifact_id <> target.artifact_id AND e.model = target.model
+  WHERE target.artifact_id = p_artifact_id
+  ORDER BY e.embedding <=> target.embedding
+  LIMIT p_limit;
+$$;
+
+-- Natural-language search. Scoping and keyset pagination match search_artifacts() in
+-- 024_add_full_text_search.sql, with similarity in place of rank.
+CREATE OR REPLACE FUNCTION public.search_artifacts_semantic(
+  p_embedding VECTOR(1536),
+  p_model TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_exclude_user_id UUID DEFAULT NULL,
+  p_type_ids UUID[] DEFAULT NULL,
+  p_min_similarity REAL DEFAULT 0.2,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (id UUID, rank REAL)
+LANGUAGE sql STABLE
+AS $$
+  SELECT ranked.id, ranked.rank
+  FROM (
+    SELECT a.id, (1 - (e.embedding <=> p_embedding))::REAL AS rank
+    FROM artifact_embeddings e
+    JOIN artifacts a ON a.id = e.artifact_id
+    LEFT JOIN collections c ON c.id = a.collection_id
+    WHERE e.model = p_model
+    AND (
+      (p_user_id IS NOT NULL AND a.user_id = p_user_id)
+      OR (p_user_id IS NULL AND c.is_public AND (p_exclude_user_id IS NULL OR a.user_id <> p_exclude_user_id))
+    )
+    AND (p_type_ids IS NULL OR a.type_id = ANY(p_type_ids))
+  ) ranked
+  WHERE ranked.rank >= p_min_similarity
+  AND (p_after_rank IS NULL OR (ranked.rank, ranked.id) < (p_after_rank, p_after_id))
+  ORDER BY ranked.rank DESC, ranked.id DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_similar_artifacts(UUID, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_artifacts_semantic(VECTOR, TEXT, UUID, UUID, UUID[], REAL, REAL, UUID, INTEGER)
+  TO anon, authenticated;
+
+-- Add helpful comments
+COMMENT ON TABLE artifact_embeddings IS
+  'Text embeddings of artifacts for similarity and natural-language search. Refreshed after AI summaries.';
+COMMENT ON COLUMN artifact_embeddings.model IS
+  'Provider/model that produced the embedding, e.g. openai/text-embedding-3-small or local/hash';
+COMMENT ON COLUMN artifact_embeddings.content_hash IS
+  'SHA-256 of the embedded text; the embedding is only recomputed when this changes';
@@ -0,0 +1,112 @@
+-- Migration: Create ai_jobs table
+-- Description: Durable queue for full AI analysis runs (audio → images → summary).
+-- /api/analyze/run-all only enqueues; a worker (lib/ai-jobs.ts) claims jobs, runs each
+-- step with retries and backoff, and records per-step status so a request dying midway
+-- no longer leaves the artifact stuck in 'processing'.
+-- Date: 2025-12-13
+
+CREATE TABLE IF NOT EXISTS ai_jobs (
+  -- Identity
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  artifact_id UUID NOT NULL REFERENCES artifacts(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Overall state
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+
+  -- Per-step state, in run order:
+  -- [{ "name": "audio", "status": "pending|running|succeeded|skipped|failed",
+  --    "attempts": 0, "error": null, "started_at": null, "finished_at": null }]
+  steps JSONB NOT NULL,
+  max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  last_error TEXT,
+
+  -- Scheduling: queued jobs run once run_after has passed (retry backoff).
+  -- A running job whose lock is older than the worker's timeout is reclaimed.
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  locked_by TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_artifact_id ON ai_jobs(artifact_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_claimable ON ai_jobs(run_after) WHERE status IN ('queued', 'running');
+
+-- At most one unfinished job per artifact
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_jobs_one_active_per_artifact
+  ON ai_jobs(artifact_id) WHERE status IN ('queued', 'running');
+
+-- Enable RLS
+ALTER TABLE ai_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for idempotency)
+DROP POLICY IF EXISTS ai_jobs_select ON ai_jobs;
+DROP POLICY IF EXISTS ai_jobs_insert ON ai_jobs;
+
+-- Whoever can edit the artifact can queue analysis and follow its progress.
+-- Jobs are only updated by the worker, which uses the service role.
+CREATE POLICY ai_jobs_select
+  ON ai_jobs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = ai_jobs.artifact_id
+      AND (
+        public.is_admin_user()
+        OR a.user_id = auth.uid()
+        OR public.has_collection_family_role(a.collection_id, 'editor')
+      )
+    )
+  );
+
+CREATE POLICY ai_jobs_insert
+  ON ai_jobs FOR INSERT
+  WITH CHECK (
+    requested_by = auth.uid()
+    AND status = 'queued'
+    AND EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = ai_jobs.artifact_id
+      AND (
+        public.is_admin_user()
+        OR a.user_id = auth.uid()
+        OR public.has_collection_family_role(a.collection_id, 'editor')
+      )
+    )
+  );
+
+-- ============================================================================
+-- Claiming (service role only). SKIP LOCKED lets several workers poll at once
+-- without taking the same job.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.claim_ai_job(p_worker_id TEXT, p_lock_timeout_seconds INTEGER DEFAULT 300)
+RETURNS SETOF ai_jobs
+LANGUAGE sql
+AS $$
+  UPDATE ai_jobs
+  SET status = 'running', locked_at = NOW(), locked_by = p_worker_id, updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM ai_jobs
+    WHERE (status = 'queued' AND run_after <= NOW())
+    OR (status = 'running' AND locked_at < NOW() - make_interval(secs => p_lock_timeout_seconds))
+    ORDER BY run_after, created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_ai_job(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_ai_job(TEXT, INTEGER) TO service_role;
+
+-- Add helpful comments
+COMMENT ON TABLE ai_jobs IS 'Queued and past full AI analysis runs for artifacts, processed by the background worker';
+COMMENT ON COLUMN ai_jobs.steps IS 'Per-step status, attempts and last error, in run order';
+COMMENT ON COLUMN ai_jobs.run_after IS 'Earliest time a queued job may be claimed; pushed back by retry backoff';
+COMMENT ON COLUMN ai_jobs.locked_at IS 'When the current worker claimed the job; stale locks are reclaimed';
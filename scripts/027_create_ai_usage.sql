@@ -0,0 +1,138 @@
+-- Migration: Create ai_usage_events and ai_quotas tables
+-- Description: Metering for AI provider calls. Each call records its tokens, audio seconds,
+-- model and estimated cost against the user and artifact (lib/ai-usage.ts). Monthly
+-- per-user quotas are checked before each call; ai_quotas overrides the defaults set by
+-- AI_MONTHLY_TOKEN_QUOTA / AI_MONTHLY_AUDIO_MINUTES_QUOTA.
+-- Date: 2025-12-14
+
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  -- Identity
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Kept when the user or artifact is deleted so cost totals stay accurate
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  artifact_id UUID REFERENCES artifacts(id) ON DELETE SET NULL,
+
+  -- What was called: capability and provider id (e.g. openai/gpt-4o)
+  capability TEXT NOT NULL
+    CHECK (capability IN ('vision', 'text', 'summary', 'transcription', 'embedding')),
+  model TEXT NOT NULL,
+
+  -- What it consumed, and what that cost at the prices in lib/utils/ai-usage.ts
+  input_tokens INTEGER NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+  output_tokens INTEGER NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+  audio_seconds NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (audio_seconds >= 0),
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0 CHECK (cost_usd >= 0),
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_user_created ON ai_usage_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_created ON ai_usage_events(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS ai_quotas (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL falls back to the default
+  monthly_tokens BIGINT CHECK (monthly_tokens >= 0),
+  monthly_audio_seconds INTEGER CHECK (monthly_audio_seconds >= 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE ai_usage_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_quotas ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for idempotency)
+DROP POLICY IF EXISTS ai_usage_events_select ON ai_usage_events;
+DROP POLICY IF EXISTS ai_usage_events_insert ON ai_usage_events;
+DROP POLICY IF EXISTS ai_quotas_select ON ai_quotas;
+DROP POLICY IF EXISTS ai_quotas_admin_write ON ai_quotas;
+
+-- People see their own usage; admins see everyone's for the cost report
+CREATE POLICY ai_usage_events_select
+  ON ai_usage_events FOR SELECT
+  USING (user_id = auth.uid() OR public.is_admin_user());
+
+-- Routes record usage as the user who made the call. The background worker
+-- records as the job's requester using the service role.
+CREATE POLICY ai_usage_events_insert
+  ON ai_usage_events FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY ai_quotas_select
+  ON ai_quotas FOR SELECT
+  USING (user_id = auth.uid() OR public.is_admin_user());
+
+-- Only admins change quotas
+CREATE POLICY ai_quotas_admin_write
+  ON ai_quotas FOR ALL
+  USING (public.is_admin_user())
+  WITH CHECK (public.is_admin_user());
+
+-- ============================================================================
+-- Totals (SECURITY INVOKER - RLS decides whose usage is summed)
+-- ============================================================================
+
+-- One user's usage since a point in time, per capability (quota checks, /profile)
+CREATE OR REPLACE FUNCTION public.get_ai_usage_totals(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  capability TEXT,
+  calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  audio_seconds NUMERIC,
+  cost_usd NUMERIC
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    e.capability,
+    COUNT(*),
+    COALESCE(SUM(e.input_tokens), 0)::BIGINT,
+    COALESCE(SUM(e.output_tokens), 0)::BIGINT,
+    COALESCE(SUM(e.audio_seconds), 0),
+    COALESCE(SUM(e.cost_usd), 0)
+  FROM ai_usage_events e
+  WHERE e.user_id = p_user_id
+  AND e.created_at >= p_since
+  GROUP BY e.capability;
+$$;
+
+-- Usage per month, user, model and capability (admin cost report)
+CREATE OR REPLACE FUNCTION public.get_ai_cost_report(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  month DATE,
+  user_id UUID,
+  model TEXT,
+  capability TEXT,
+  calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  audio_seconds NUMERIC,
+  cost_usd NUMERIC
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    date_trunc('month', e.created_at AT TIME ZONE 'UTC')::DATE,
+    e.user_id,
+    e.model,
+    e.capability,
+    COUNT(*),
+    COALESCE(SUM(e.input_tokens), 0)::BIGINT,
+    COALESCE(SUM(e.output_tokens), 0)::BIGINT,
+    COALESCE(SUM(e.audio_seconds), 0),
+    COALESCE(SUM(e.cost_usd), 0)
+  FROM ai_usage_events e
+  WHERE e.created_at >= p_since
+  GROUP BY 1, 2, 3, 4;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_ai_usage_totals(UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ai_cost_report(TIMESTAMPTZ) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON TABLE ai_usage_events IS 'One row per AI provider call: who it was for, what it used and its estimated cost';
+COMMENT ON COLUMN ai_usage_events.model IS 'Provider id, e.g. openai/gpt-4o or openai-compatible/llava';
+COMMENT ON COLUMN ai_usage_events.cost_usd IS 'Estimated at the time of the call; self-hosted and fake models cost 0';
+COMMENT ON TABLE ai_quotas IS 'Per-user monthly AI limits set by admins; missing values use the app defaults';
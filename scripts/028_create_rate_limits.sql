@@ -0,0 +1,124 @@
+-- Migration: Create rate_limit_hits table
+-- Description: Sliding-window rate limiting shared by every server instance (lib/rate-limit.ts).
+-- One row per allowed request, keyed by signed-in user (or IP for anonymous callers) and
+-- budget name. Replaces the per-process in-memory limiter, which reset on every cold start.
+-- Date: 2025-12-15
+
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  -- Identity
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+
+  -- Budget name (e.g. transcription) and who spent it: user:<uuid> or ip:<address>
+  bucket TEXT NOT NULL,
+  key TEXT NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_bucket_key_created
+  ON rate_limit_hits(bucket, key, created_at);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_created ON rate_limit_hits(created_at);
+
+-- Budgets by name. Callers only say which budget they spend, so nobody can ask for a bigger one.
+-- Keep in sync with RATE_LIMITS in lib/utils/rate-limit.ts (used there for headers and tests).
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  bucket TEXT PRIMARY KEY,
+  max_requests INTEGER NOT NULL CHECK (max_requests > 0),
+  window_seconds INTEGER NOT NULL CHECK (window_seconds BETWEEN 1 AND 86400)
+);
+
+INSERT INTO rate_limit_buckets (bucket, max_requests, window_seconds) VALUES
+  ('transcription', 30, 3600),
+  ('vision', 120, 3600),
+  ('summary', 60, 3600),
+  ('translation', 30, 3600),
+  ('archive-chat', 60, 3600),
+  ('analysis-jobs', 20, 3600),
+  ('upload', 120, 600),
+  ('job-events', 120, 60),
+  ('share-unlock', 10, 60)
+ON CONFLICT (bucket) DO UPDATE
+SET max_requests = EXCLUDED.max_requests, window_seconds = EXCLUDED.window_seconds;
+
+-- Enable RLS. There are no policies: rows are only read and written by consume_rate_limit.
+ALTER TABLE rate_limit_hits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- Consume one request from a budget (server only - lib/rate-limit.ts calls it with the
+-- service role, so browsers can't spend or reset budgets themselves)
+-- ============================================================================
+
+-- Allowed when fewer than the bucket's max_requests were made in its last window_seconds.
+-- request_limit is the bucket's max_requests; reset_seconds is how long until the oldest
+-- request in the window expires.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  p_bucket TEXT,
+  p_key TEXT
+)
+RETURNS TABLE (allowed BOOLEAN, request_limit INTEGER, remaining INTEGER, reset_seconds INTEGER)
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+  v_window_seconds INTEGER;
+  v_window_start TIMESTAMPTZ;
+  v_used INTEGER;
+  v_oldest TIMESTAMPTZ;
+BEGIN
+  SELECT b.max_requests, b.window_seconds INTO v_limit, v_window_seconds
+  FROM rate_limit_buckets b
+  WHERE b.bucket = p_bucket;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown rate limit bucket: %', p_bucket;
+  END IF;
+
+  v_window_start := NOW() - make_interval(secs => v_window_seconds);
+
+  -- One request at a time per budget, so concurrent requests can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(p_bucket || ':' || p_key));
+
+  DELETE FROM rate_limit_hits h
+  WHERE h.bucket = p_bucket AND h.key = p_key AND h.created_at <= v_window_start;
+
+  -- Keys that stop making requests are never cleaned up above; sweep them now and then
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_hits h WHERE h.created_at < NOW() - INTERVAL '1 day';
+  END IF;
+
+  SELECT COUNT(*), MIN(h.created_at) INTO v_used, v_oldest
+  FROM rate_limit_hits h
+  WHERE h.bucket = p_bucket AND h.key = p_key;
+
+  IF v_used >= v_limit THEN
+    RETURN QUERY SELECT
+      FALSE,
+      v_limit,
+      0,
+      GREATEST(CEIL(EXTRACT(EPOCH FROM (v_oldest + make_interval(secs => v_window_seconds) - NOW()))), 1)::INTEGER;
+    RETURN;
+  END IF;
+
+  INSERT INTO rate_limit_hits (bucket, key) VALUES (p_bucket, p_key);
+
+  RETURN QUERY SELECT
+    TRUE,
+    v_limit,
+    v_limit - v_used - 1,
+    GREATEST(
+      CEIL(EXTRACT(EPOCH FROM (COALESCE(v_oldest, NOW()) + make_interval(secs => v_window_seconds) - NOW()))),
+      1
+    )::INTEGER;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, TEXT) TO service_role;
+
+-- Add helpful comments
+COMMENT ON TABLE rate_limit_hits IS 'Requests inside the current rate limit windows; written only by consume_rate_limit';
+COMMENT ON TABLE rate_limit_buckets IS 'Rate limit budgets by name; mirrors RATE_LIMITS in lib/utils/rate-limit.ts';
+COMMENT ON COLUMN rate_limit_hits.key IS 'user:<uuid> for signed-in callers, ip:<address> otherwise';
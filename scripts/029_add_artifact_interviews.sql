@@ -0,0 +1,88 @@
+-- Migration: Add guided interviews
+-- Description: Each artifact type defines the questions its interview asks; artifacts keep the
+-- recorded answers and the Q&A transcript assembled from them, which feeds the AI summary.
+-- Answers are saved by saveInterviewAnswer (lib/actions/interviews.ts); the audio for each
+-- answer is a user_media row with upload_source 'interview'.
+-- Date: 2025-12-16
+
+-- Interview questions per type
+-- Array of { key, prompt, hint? }. Types without questions use the defaults in lib/utils/interview.ts
+ALTER TABLE artifact_types
+ADD COLUMN IF NOT EXISTS interview_questions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Answers per artifact, in question order
+-- Array of { question_key, question, transcript, media_id, audio_url, recorded_at }
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS interview_answers JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- "Q: ... A: ..." text built from interview_answers (lib/utils/interview.ts)
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS interview_transcript TEXT;
+
+-- Guard against malformed data written outside the app
+ALTER TABLE artifact_types DROP CONSTRAINT IF EXISTS artifact_types_interview_questions_is_array;
+ALTER TABLE artifact_types
+ADD CONSTRAINT artifact_types_interview_questions_is_array CHECK (jsonb_typeof(interview_questions) = 'array');
+
+ALTER TABLE artifacts DROP CONSTRAINT IF EXISTS artifacts_interview_answers_is_array;
+ALTER TABLE artifacts
+ADD CONSTRAINT artifacts_interview_answers_is_array CHECK (jsonb_typeof(interview_answers) = 'array');
+
+-- Seed interview questions for built-in types
+-- Every set opens with where the piece came from and closes with what it means to the family
+UPDATE artifact_types SET interview_questions = '[
+  {"key": "first_owner", "prompt": "Who owned this first?", "hint": "Their name, and how they were related to you"},
+  {"key": "origin", "prompt": "Where did it come from?", "hint": "Was it bought, made, given or handed down?"},
+  {"key": "memories", "prompt": "What do you remember about it?", "hint": "Where it was kept, when it came out, who used it"},
+  {"key": "stories", "prompt": "Is there a story the family tells about it?"},
+  {"key": "future", "prompt": "Who should have it next, and why?"}
+]'::jsonb
+WHERE slug = 'general';
+
+UPDATE artifact_types SET interview_questions = '[
+  {"key": "first_owner", "prompt": "Who owned this car first?", "hint": "And did they buy it new?"},
+  {"key": "origin", "prompt": "How did it come into the family?"},
+  {"key": "trips", "prompt": "Where did it take you?", "hint": "Road trips, first drives, the day it broke down"},
+  {"key": "work", "prompt": "Who looked after it, and what work has been done on it?"},
+  {"key": "future", "prompt": "Who should have it next, and why?"}
+]'::jsonb
+WHERE slug = 'cars';
+
+UPDATE artifact_types SET interview_questions = '[
+  {"key": "first_owner", "prompt": "Who wore this watch first?"},
+  {"key": "origin", "prompt": "Where did it come from?", "hint": "A gift for an occasion, a purchase, passed down?"},
+  {"key": "occasions", "prompt": "When do you remember it being worn?"},
+  {"key": "service", "prompt": "Has it been repaired or serviced, and by whom?"},
+  {"key": "future", "prompt": "Who should have it next, and why?"}
+]'::jsonb
+WHERE slug = 'watches';
+
+UPDATE artifact_types SET interview_questions = '[
+  {"key": "first_owner", "prompt": "Who bought this bottle?"},
+  {"key": "origin", "prompt": "Where and when was it bought?"},
+  {"key": "occasion", "prompt": "Was it being saved for an occasion?"},
+  {"key": "memories", "prompt": "What do you remember about it?"}
+]'::jsonb
+WHERE slug = 'whiskey';
+
+UPDATE artifact_types SET interview_questions = '[
+  {"key": "first_owner", "prompt": "Whose was this when it was new?"},
+  {"key": "origin", "prompt": "Where did it come from?", "hint": "A birthday, a holiday, handmade?"},
+  {"key": "play", "prompt": "Who played with it, and how?"},
+  {"key": "memories", "prompt": "What do you remember about it?"}
+]'::jsonb
+WHERE slug IN ('toys', 'games');
+
+UPDATE artifact_types SET interview_questions = '[
+  {"key": "first_owner", "prompt": "Who owned this piece first?"},
+  {"key": "origin", "prompt": "Where did it come from?", "hint": "Was it made by someone in the family?"},
+  {"key": "homes", "prompt": "Which homes has it lived in, and in which room?"},
+  {"key": "memories", "prompt": "What do you remember about it?"},
+  {"key": "future", "prompt": "Who should have it next, and why?"}
+]'::jsonb
+WHERE slug = 'furniture';
+
+-- Add helpful comments
+COMMENT ON COLUMN artifact_types.interview_questions IS 'Questions the guided interview asks for this type: [{ key, prompt, hint? }]';
+COMMENT ON COLUMN artifacts.interview_answers IS 'Recorded interview answers: [{ question_key, question, transcript, media_id, audio_url, recorded_at }]';
+COMMENT ON COLUMN artifacts.interview_transcript IS 'Q&A transcript assembled from interview_answers; used for the AI summary (not part of search_vector)';
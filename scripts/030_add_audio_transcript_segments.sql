@@ -0,0 +1,19 @@
+-- Migration: Add timestamped audio transcript segments
+-- Description: Keeps the segment timings Whisper returns (verbose_json) next to the plain text
+-- in audio_transcripts, so playback can highlight the sentence being spoken and clicking a
+-- sentence seeks to it. Segments are corrected one at a time so timings are never lost;
+-- audio_transcripts[url] is always the segment texts joined together (lib/utils/transcripts.ts).
+-- Date: 2025-12-17
+
+-- Segments per audio URL, keyed like audio_transcripts
+-- { "<audio url>": [{ start, end, text }, ...] } with start/end in seconds
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS audio_transcript_segments JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Guard against malformed data written outside the app
+ALTER TABLE artifacts DROP CONSTRAINT IF EXISTS artifacts_audio_transcript_segments_is_object;
+ALTER TABLE artifacts
+ADD CONSTRAINT artifacts_audio_transcript_segments_is_object CHECK (jsonb_typeof(audio_transcript_segments) = 'object');
+
+-- Add helpful comments
+COMMENT ON COLUMN artifacts.audio_transcript_segments IS 'Timed transcript segments per audio URL: { url: [{ start, end, text }] }; text matches audio_transcripts[url]';
@@ -0,0 +1,20 @@
+-- Migration: Add resumable progress for long audio transcriptions
+-- Description: Recordings too long for one transcription request are split into overlapping
+-- parts (lib/utils/audio-chunks.ts). Each finished part is saved here as soon as it is
+-- transcribed, so when a later part fails the next attempt picks up where the last one
+-- stopped instead of starting over. An entry is removed once its transcript is saved.
+-- Date: 2025-12-18
+
+-- Progress per audio URL, keyed like audio_transcripts
+-- { "<audio url>": { chunk_seconds, overlap_seconds, chunk_count,
+--                    chunks: [{ index, start, end, text, segments }] } }
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS audio_transcription_progress JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Guard against malformed data written outside the app
+ALTER TABLE artifacts DROP CONSTRAINT IF EXISTS artifacts_audio_transcription_progress_is_object;
+ALTER TABLE artifacts
+ADD CONSTRAINT artifacts_audio_transcription_progress_is_object CHECK (jsonb_typeof(audio_transcription_progress) = 'object');
+
+-- Add helpful comments
+COMMENT ON COLUMN artifacts.audio_transcription_progress IS 'Transcribed parts of long recordings per audio URL, kept until the full transcript is saved';
@@ -0,0 +1,30 @@
+-- Migration: Add artifact translations and the translation AI capability
+-- Description: Families read across languages. language_hint (the language the recordings
+-- are in, as an ISO 639-1 code) is now passed to transcription and the summary prompt, and
+-- the description, transcripts and AI description can be translated into other languages
+-- (lib/translations.ts). Translations are stored per locale next to a hash of the text they
+-- were made from, so an edited original is retranslated rather than shown out of date.
+-- Date: 2025-12-19
+
+-- Translations per locale:
+-- { "en": { "description": { "text": "...", "source_hash": "..." },
+--           "ai_description": {...}, "transcript": {...},
+--           "audio_transcripts": { "<audio url>": {...} },
+--           "translated_at": "..." } }
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Guard against malformed data written outside the app
+ALTER TABLE artifacts DROP CONSTRAINT IF EXISTS artifacts_translations_is_object;
+ALTER TABLE artifacts
+ADD CONSTRAINT artifacts_translations_is_object CHECK (jsonb_typeof(translations) = 'object');
+
+-- Translation calls are metered like every other capability
+ALTER TABLE ai_usage_events DROP CONSTRAINT IF EXISTS ai_usage_events_capability_check;
+ALTER TABLE ai_usage_events
+ADD CONSTRAINT ai_usage_events_capability_check
+  CHECK (capability IN ('vision', 'text', 'summary', 'transcription', 'embedding', 'translation'));
+
+-- Add helpful comments
+COMMENT ON COLUMN artifacts.translations IS 'Translated description, transcripts and AI description per locale, each with the hash of its source text';
+COMMENT ON COLUMN artifacts.language_hint IS 'Language of the artifact''s recordings (ISO 639-1, e.g. "it"); used for transcription and the summary';
@@ -0,0 +1,87 @@
+-- Migration: Add document transcriptions
+-- Description: Letters, recipes, postcards and certificates are photographed page by page.
+-- Artifact types with analysis_mode 'document' have the full text of each page (handwriting
+-- included) transcribed into image_transcriptions, alongside the usual short captions.
+-- Transcriptions are editable and searchable. Pages are read in gallery order, then the
+-- images in media blocks (lib/utils/documents.ts).
+-- Date: 2025-12-20
+
+-- How images of this type are analyzed: 'caption' (a short description) or 'document' (full text)
+ALTER TABLE artifact_types
+ADD COLUMN IF NOT EXISTS analysis_mode TEXT NOT NULL DEFAULT 'caption';
+
+ALTER TABLE artifact_types DROP CONSTRAINT IF EXISTS artifact_types_analysis_mode_check;
+ALTER TABLE artifact_types
+ADD CONSTRAINT artifact_types_analysis_mode_check CHECK (analysis_mode IN ('caption', 'document'));
+
+-- Full text per image URL, keyed like image_captions; line breaks are kept as written
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS image_transcriptions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Guard against malformed data written outside the app
+ALTER TABLE artifacts DROP CONSTRAINT IF EXISTS artifacts_image_transcriptions_is_object;
+ALTER TABLE artifacts
+ADD CONSTRAINT artifacts_image_transcriptions_is_object CHECK (jsonb_typeof(image_transcriptions) = 'object');
+
+-- Seed a document type
+INSERT INTO artifact_types (name, slug, description, icon_name, display_order, analysis_mode) VALUES
+  ('Letters & Documents', 'documents', 'Letters, recipes, postcards, certificates and other papers', 'FileText', 8, 'document')
+ON CONFLICT (slug) DO UPDATE SET analysis_mode = 'document';
+
+UPDATE artifact_types SET interview_questions = '[
+  {"key": "author", "prompt": "Who wrote this, and to whom?"},
+  {"key": "occasion", "prompt": "When was it written, and what was happening at the time?"},
+  {"key": "found", "prompt": "Where was it kept, and who found it?"},
+  {"key": "meaning", "prompt": "What does it tell us about the family?"},
+  {"key": "future", "prompt": "Who should have it next, and why?"}
+]'::jsonb
+WHERE slug = 'documents' AND interview_questions = '[]'::jsonb;
+
+-- ============================================================================
+-- Search
+-- Document text is indexed with transcripts (weight C) and can be a snippet source.
+-- A generated column can't be altered, so search_vector is recreated (see 024).
+-- ============================================================================
+
+DROP INDEX IF EXISTS idx_artifacts_search_vector;
+ALTER TABLE artifacts DROP COLUMN IF EXISTS search_vector;
+
+ALTER TABLE artifacts
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A')
+  || setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B')
+  || setweight(to_tsvector('english'::regconfig, coalesce(origin, '')), 'B')
+  || setweight(to_tsvector('english'::regconfig, coalesce(transcript, '')), 'C')
+  || setweight(to_tsvector('english'::regconfig, coalesce(ai_description, '')), 'C')
+  || setweight(jsonb_to_tsvector('english'::regconfig, coalesce(audio_transcripts, '{}'::jsonb), '["string"]'), 'C')
+  || setweight(jsonb_to_tsvector('english'::regconfig, coalesce(image_transcriptions, '{}'::jsonb), '["string"]'), 'C')
+  || setweight(jsonb_to_tsvector('english'::regconfig, coalesce(video_summaries, '{}'::jsonb), '["string"]'), 'C')
+  || setweight(jsonb_to_tsvector('english'::regconfig, coalesce(image_captions, '{}'::jsonb), '["string"]'), 'D')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_artifacts_search_vector ON artifacts USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION public.artifact_search_fields(a artifacts)
+RETURNS TABLE (field TEXT, content TEXT, priority INTEGER)
+LANGUAGE sql STABLE
+AS $$
+  SELECT 'title', a.title, 1
+  UNION ALL SELECT 'description', a.description, 2
+  UNION ALL SELECT 'origin', a.origin, 3
+  UNION ALL SELECT 'transcript', a.transcript, 4
+  UNION ALL SELECT 'audio_transcripts', value, 5
+    FROM jsonb_each_text(CASE WHEN jsonb_typeof(a.audio_transcripts) = 'object' THEN a.audio_transcripts ELSE '{}'::jsonb END)
+  UNION ALL SELECT 'image_transcriptions', value, 6
+    FROM jsonb_each_text(CASE WHEN jsonb_typeof(a.image_transcriptions) = 'object' THEN a.image_transcriptions ELSE '{}'::jsonb END)
+  UNION ALL SELECT 'ai_description', a.ai_description, 7
+  UNION ALL SELECT 'video_summaries', value, 8
+    FROM jsonb_each_text(CASE WHEN jsonb_typeof(a.video_summaries) = 'object' THEN a.video_summaries ELSE '{}'::jsonb END)
+  UNION ALL SELECT 'image_captions', value, 9
+    FROM jsonb_each_text(CASE WHEN jsonb_typeof(a.image_captions) = 'object' THEN a.image_captions ELSE '{}'::jsonb END);
+$$;
+
+-- Add helpful comments
+COMMENT ON COLUMN artifact_types.analysis_mode IS 'How images of this type are analyzed: caption (short description) or document (full text transcription)';
+COMMENT ON COLUMN artifacts.image_transcriptions IS 'Full text transcribed from each image (letters, documents), keyed by image URL';
+COMMENT ON COLUMN artifacts.search_vector IS
+  'Weighted full-text index of title, description, origin, transcripts, document text and AI-generated text. Generated; do not write.';
@@ -0,0 +1,235 @@
+-- Migration: Create people and places, and keep AI summary suggestions
+-- Description: The summary step also extracts people, places, tags, a year and highlights
+-- (summarySchema in lib/analysis.ts). They are kept in artifacts.ai_suggestions for the owner
+-- to accept or reject. Accepted people and places become records of their own, linked to the
+-- artifact, so "all artifacts mentioning Rosa" works across collections; accepted tags go to
+-- artifacts.tags and an accepted year to artifacts.estimated_year.
+-- Date: 2025-12-21
+
+-- ============================================================================
+-- Artifacts
+-- ============================================================================
+
+-- { people: [{ value, status }], places, tags, year_guess: { value, status }, highlights, generated_at }
+-- status is 'pending', 'accepted' or 'rejected'; see lib/types/suggestions.ts
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS ai_suggestions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE artifacts DROP CONSTRAINT IF EXISTS artifacts_ai_suggestions_is_object;
+ALTER TABLE artifacts
+ADD CONSTRAINT artifacts_ai_suggestions_is_object CHECK (jsonb_typeof(ai_suggestions) = 'object');
+
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_artifacts_tags ON artifacts USING GIN (tags);
+
+-- When the piece itself was made or dates from (year_acquired is when the family got it)
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS estimated_year INTEGER;
+
+ALTER TABLE artifacts DROP CONSTRAINT IF EXISTS artifacts_estimated_year_range;
+ALTER TABLE artifacts
+ADD CONSTRAINT artifacts_estimated_year_range CHECK (estimated_year IS NULL OR estimated_year BETWEEN 1 AND 2100);
+
+-- ============================================================================
+-- People and places
+-- Owned by the account holder; one record per name (case-insensitive) per owner
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS people (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_people_user_name ON people(user_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS places (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_places_user_name ON places(user_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS artifact_people (
+  artifact_id UUID NOT NULL REFERENCES artifacts(id) ON DELETE CASCADE,
+  person_id UUID NOT NULL REFERENCES people(id) ON DELETE CASCADE,
+  -- How the person relates to the artifact
+  role TEXT NOT NULL DEFAULT 'mentioned',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (artifact_id, person_id, role),
+  CONSTRAINT artifact_people_role_check CHECK (role IN ('mentioned'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_artifact_people_person ON artifact_people(person_id);
+
+CREATE TABLE IF NOT EXISTS artifact_places (
+  artifact_id UUID NOT NULL REFERENCES artifacts(id) ON DELETE CASCADE,
+  place_id UUID NOT NULL REFERENCES places(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (artifact_id, place_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_artifact_places_place ON artifact_places(place_id);
+
+-- updated_at triggers
+CREATE OR REPLACE FUNCTION update_people_places_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS people_updated_at_trigger ON people;
+CREATE TRIGGER people_updated_at_trigger
+  BEFORE UPDATE ON people
+  FOR EACH ROW
+  EXECUTE FUNCTION update_people_places_updated_at();
+
+DROP TRIGGER IF EXISTS places_updated_at_trigger ON places;
+CREATE TRIGGER places_updated_at_trigger
+  BEFORE UPDATE ON places
+  FOR EACH ROW
+  EXECUTE FUNCTION update_people_places_updated_at();
+
+-- ============================================================================
+-- RLS
+-- Owners manage their people and places. Anyone who can see a linked artifact can see
+-- the person or place (the subqueries go through the artifacts policies, share links included).
+-- Links are made by the artifact owner, as suggestions are reviewed by the owner, and only to
+-- people and places that belong to the same owner.
+-- ============================================================================
+
+ALTER TABLE people ENABLE ROW LEVEL SECURITY;
+ALTER TABLE places ENABLE ROW LEVEL SECURITY;
+ALTER TABLE artifact_people ENABLE ROW LEVEL SECURITY;
+ALTER TABLE artifact_places ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS people_select ON people;
+DROP POLICY IF EXISTS people_insert ON people;
+DROP POLICY IF EXISTS people_update ON people;
+DROP POLICY IF EXISTS people_delete ON people;
+DROP POLICY IF EXISTS places_select ON places;
+DROP POLICY IF EXISTS places_insert ON places;
+DROP POLICY IF EXISTS places_update ON places;
+DROP POLICY IF EXISTS places_delete ON places;
+DROP POLICY IF EXISTS artifact_people_select ON artifact_people;
+DROP POLICY IF EXISTS artifact_people_insert ON artifact_people;
+DROP POLICY IF EXISTS artifact_people_delete ON artifact_people;
+DROP POLICY IF EXISTS artifact_places_select ON artifact_places;
+DROP POLICY IF EXISTS artifact_places_insert ON artifact_places;
+DROP POLICY IF EXISTS artifact_places_delete ON artifact_places;
+
+CREATE POLICY people_select
+  ON people FOR SELECT
+  USING (
+    public.is_admin_user()
+    OR user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM artifact_people ap
+      JOIN artifacts a ON a.id = ap.artifact_id
+      WHERE ap.person_id = people.id
+    )
+  );
+
+CREATE POLICY people_insert
+  ON people FOR INSERT
+  WITH CHECK (public.is_admin_user() OR user_id = auth.uid());
+
+CREATE POLICY people_update
+  ON people FOR UPDATE
+  USING (public.is_admin_user() OR user_id = auth.uid());
+
+CREATE POLICY people_delete
+  ON people FOR DELETE
+  USING (public.is_admin_user() OR user_id = auth.uid());
+
+CREATE POLICY places_select
+  ON places FOR SELECT
+  USING (
+    public.is_admin_user()
+    OR user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM artifact_places ap
+      JOIN artifacts a ON a.id = ap.artifact_id
+      WHERE ap.place_id = places.id
+    )
+  );
+
+CREATE POLICY places_insert
+  ON places FOR INSERT
+  WITH CHECK (public.is_admin_user() OR user_id = auth.uid());
+
+CREATE POLICY places_update
+  ON places FOR UPDATE
+  USING (public.is_admin_user() OR user_id = auth.uid());
+
+CREATE POLICY places_delete
+  ON places FOR DELETE
+  USING (public.is_admin_user() OR user_id = auth.uid());
+
+CREATE POLICY artifact_people_select
+  ON artifact_people FOR SELECT
+  USING (EXISTS (SELECT 1 FROM artifacts a WHERE a.id = artifact_people.artifact_id));
+
+CREATE POLICY artifact_people_insert
+  ON artifact_people FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = artifact_people.artifact_id
+      AND (a.user_id = auth.uid() OR public.is_admin_user())
+      AND EXISTS (SELECT 1 FROM people p WHERE p.id = artifact_people.person_id AND p.user_id = a.user_id)
+    )
+  );
+
+CREATE POLICY artifact_people_delete
+  ON artifact_people FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = artifact_people.artifact_id
+      AND (a.user_id = auth.uid() OR public.is_admin_user())
+    )
+  );
+
+CREATE POLICY artifact_places_select
+  ON artifact_places FOR SELECT
+  USING (EXISTS (SELECT 1 FROM artifacts a WHERE a.id = artifact_places.artifact_id));
+
+CREATE POLICY artifact_places_insert
+  ON artifact_places FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = artifact_places.artifact_id
+      AND (a.user_id = auth.uid() OR public.is_admin_user())
+      AND EXISTS (SELECT 1 FROM places pl WHERE pl.id = artifact_places.place_id AND pl.user_id = a.user_id)
+    )
+  );
+
+CREATE POLICY artifact_places_delete
+  ON artifact_places FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM artifacts a
+      WHERE a.id = artifact_places.artifact_id
+      AND (a.user_id = auth.uid() OR public.is_admin_user())
+    )
+  );
+
+-- Add helpful comments
+COMMENT ON COLUMN artifacts.ai_suggestions IS 'People, places, tags and year extracted by the AI summary, each pending, accepted or rejected by the owner';
+COMMENT ON COLUMN artifacts.tags IS 'Tags accepted from AI suggestions';
+COMMENT ON COLUMN artifacts.estimated_year IS 'Year the piece dates from, e.g. accepted from the AI year guess';
+COMMENT ON TABLE people IS 'People mentioned in or linked to artifacts, owned by the account holder';
+COMMENT ON TABLE places IS 'Places mentioned in or linked to artifacts, owned by the account holder';
+COMMENT ON TABLE artifact_people IS 'Links between artifacts and people, with the person''s role';
+COMMENT ON TABLE artifact_places IS 'Links between artifacts and places';
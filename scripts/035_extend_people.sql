@@ -0,0 +1,49 @@
+-- Migration: People directory with family relationships
+-- Description: People get life dates, their relationship to the account holder and a portrait
+-- from the media library. Artifacts link to people in a role: the original owner, the maker,
+-- someone pictured, or the storyteller of its recordings (as well as 'mentioned', used for
+-- accepted AI suggestions).
+-- Date: 2025-12-22
+
+-- ============================================================================
+-- People
+-- ============================================================================
+
+-- Partial ISO dates, like provenance_events: YYYY, YYYY-MM or YYYY-MM-DD
+ALTER TABLE people
+ADD COLUMN IF NOT EXISTS birth_date TEXT,
+ADD COLUMN IF NOT EXISTS death_date TEXT,
+ADD COLUMN IF NOT EXISTS relationship TEXT,
+ADD COLUMN IF NOT EXISTS portrait_media_id UUID REFERENCES user_media(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS portrait_url TEXT;
+
+ALTER TABLE people DROP CONSTRAINT IF EXISTS people_birth_date_format;
+ALTER TABLE people DROP CONSTRAINT IF EXISTS people_death_date_format;
+ALTER TABLE people DROP CONSTRAINT IF EXISTS people_relationship_length;
+
+ALTER TABLE people
+ADD CONSTRAINT people_birth_date_format CHECK (birth_date IS NULL OR birth_date ~ '^\d{4}(-\d{2}(-\d{2})?)?$');
+ALTER TABLE people
+ADD CONSTRAINT people_death_date_format CHECK (death_date IS NULL OR death_date ~ '^\d{4}(-\d{2}(-\d{2})?)?$');
+ALTER TABLE people
+ADD CONSTRAINT people_relationship_length CHECK (relationship IS NULL OR length(relationship) <= 100);
+
+CREATE INDEX IF NOT EXISTS idx_people_portrait_media ON people(portrait_media_id);
+
+-- ============================================================================
+-- Roles
+-- ============================================================================
+
+ALTER TABLE artifact_people DROP CONSTRAINT IF EXISTS artifact_people_role_check;
+ALTER TABLE artifact_people
+ADD CONSTRAINT artifact_people_role_check CHECK (
+  role IN ('mentioned', 'original_owner', 'maker', 'pictured', 'storyteller')
+);
+
+-- Add helpful comments
+COMMENT ON COLUMN people.birth_date IS 'Partial ISO date: YYYY, YYYY-MM or YYYY-MM-DD';
+COMMENT ON COLUMN people.death_date IS 'Partial ISO date: YYYY, YYYY-MM or YYYY-MM-DD';
+COMMENT ON COLUMN people.relationship IS 'Relationship to the account holder, e.g. Grandmother';
+COMMENT ON COLUMN people.portrait_media_id IS 'Portrait from the owner''s media library';
+COMMENT ON COLUMN people.portrait_url IS 'Public URL of the portrait, kept so viewers without access to the media library can see it';
+COMMENT ON COLUMN artifact_people.role IS 'mentioned, original_owner, maker, pictured or storyteller';
@@ -0,0 +1,17 @@
+-- Migration: GEDCOM import/export for people
+-- Description: People imported from a GEDCOM family tree remember the tree's ID for them
+-- (its _UID, or the record's xref with the tree's name like "@I12@ FTM/bianchi.ged"), so
+-- importing the same tree again updates them instead of adding duplicates. Xrefs are only
+-- unique within one tree, so a match on one also needs the same name and life dates. Exports carry our own ID as a REFN, so a round trip through
+-- another genealogy tool matches people even when it renumbers the records.
+-- Date: 2025-12-23
+
+ALTER TABLE people
+ADD COLUMN IF NOT EXISTS gedcom_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_people_user_gedcom_id
+  ON people(user_id, gedcom_id)
+  WHERE gedcom_id IS NOT NULL;
+
+-- Add helpful comments
+COMMENT ON COLUMN people.gedcom_id IS 'ID of the person in an imported GEDCOM tree (_UID, or the xref and tree name when there is none)';
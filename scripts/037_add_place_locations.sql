@@ -0,0 +1,151 @@
+-- Migration: Locate places and link origins and provenance to them
+-- Description: Places get coordinates, found in the built-in gazetteer, dropped as a pin by
+-- the owner, or read from a photo's GPS. An artifact's origin and each provenance event's
+-- location link to a place of the artifact owner's, so the map can plot them. The free text
+-- stays as written; the link is kept in step when it's edited.
+-- Date: 2025-12-24
+
+-- ============================================================================
+-- Coordinates
+-- ============================================================================
+
+ALTER TABLE places
+ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION,
+-- Where the coordinates came from
+ADD COLUMN IF NOT EXISTS location_source TEXT;
+
+ALTER TABLE places DROP CONSTRAINT IF EXISTS places_location_check;
+ALTER TABLE places ADD CONSTRAINT places_location_check CHECK (
+  (latitude IS NULL AND longitude IS NULL AND location_source IS NULL)
+  OR (
+    latitude BETWEEN -90 AND 90
+    AND longitude BETWEEN -180 AND 180
+    AND location_source IN ('gazetteer', 'pin', 'photo')
+  )
+);
+
+-- ============================================================================
+-- Origin and provenance places
+-- ============================================================================
+
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS origin_place_id UUID REFERENCES places(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_artifacts_origin_place ON artifacts(origin_place_id)
+  WHERE origin_place_id IS NOT NULL;
+
+ALTER TABLE provenance_events
+ADD COLUMN IF NOT EXISTS place_id UUID REFERENCES places(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_provenance_events_place ON provenance_events(place_id)
+  WHERE place_id IS NOT NULL;
+
+-- Existing origins and locations become places of the artifact's owner. Their coordinates
+-- are looked up in the gazetteer from the map page.
+INSERT INTO places (user_id, name)
+SELECT DISTINCT ON (a.user_id, lower(btrim(regexp_replace(a.origin, '\s+', ' ', 'g'))))
+  a.user_id, btrim(regexp_replace(a.origin, '\s+', ' ', 'g'))
+FROM artifacts a
+WHERE a.origin IS NOT NULL AND btrim(a.origin) <> '' AND length(btrim(a.origin)) <= 200
+ON CONFLICT DO NOTHING;
+
+INSERT INTO places (user_id, name)
+SELECT DISTINCT ON (a.user_id, lower(btrim(regexp_replace(pe.location, '\s+', ' ', 'g'))))
+  a.user_id, btrim(regexp_replace(pe.location, '\s+', ' ', 'g'))
+FROM provenance_events pe
+JOIN artifacts a ON a.id = pe.artifact_id
+WHERE pe.location IS NOT NULL AND btrim(pe.location) <> '' AND length(btrim(pe.location)) <= 200
+ON CONFLICT DO NOTHING;
+
+UPDATE artifacts a
+SET origin_place_id = p.id
+FROM places p
+WHERE a.origin_place_id IS NULL
+  AND p.user_id = a.user_id
+  AND lower(p.name) = lower(btrim(regexp_replace(a.origin, '\s+', ' ', 'g')));
+
+UPDATE provenance_events pe
+SET place_id = p.id
+FROM artifacts a, places p
+WHERE pe.place_id IS NULL
+  AND a.id = pe.artifact_id
+  AND p.user_id = a.user_id
+  AND lower(p.name) = lower(btrim(regexp_replace(pe.location, '\s+', ' ', 'g')));
+
+-- Origin and provenance places must be the artifact owner's. Triggers rather than policies,
+-- because family editors update artifacts through several policies and can't see the places.
+CREATE OR REPLACE FUNCTION public.check_artifact_origin_place()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.origin_place_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM places WHERE id = NEW.origin_place_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Origin place must belong to the artifact owner';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_provenance_event_place()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.place_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM places p
+    JOIN artifacts a ON a.user_id = p.user_id
+    WHERE p.id = NEW.place_id AND a.id = NEW.artifact_id
+  ) THEN
+    RAISE EXCEPTION 'Provenance place must belong to the artifact owner';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS artifacts_origin_place_trigger ON artifacts;
+CREATE TRIGGER artifacts_origin_place_trigger
+  BEFORE INSERT OR UPDATE OF origin_place_id, user_id ON artifacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_artifact_origin_place();
+
+DROP TRIGGER IF EXISTS provenance_events_place_trigger ON provenance_events;
+CREATE TRIGGER provenance_events_place_trigger
+  BEFORE INSERT OR UPDATE OF place_id, artifact_id ON provenance_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_provenance_event_place();
+
+-- ============================================================================
+-- RLS
+-- Anyone who can see an artifact can see its origin and provenance places, as with
+-- linked places.
+-- ============================================================================
+
+DROP POLICY IF EXISTS places_select ON places;
+
+CREATE POLICY places_select
+  ON places FOR SELECT
+  USING (
+    public.is_admin_user()
+    OR user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM artifact_places ap
+      JOIN artifacts a ON a.id = ap.artifact_id
+      WHERE ap.place_id = places.id
+    )
+    OR EXISTS (SELECT 1 FROM artifacts a WHERE a.origin_place_id = places.id)
+    OR EXISTS (
+      SELECT 1 FROM provenance_events pe
+      JOIN artifacts a ON a.id = pe.artifact_id
+      WHERE pe.place_id = places.id
+    )
+  );
+
+-- Add helpful comments
+COMMENT ON COLUMN places.location_source IS 'Where the coordinates came from: gazetteer, pin (dropped by the owner) or photo (EXIF GPS)';
+COMMENT ON COLUMN artifacts.origin_place_id IS 'The owner''s place for the origin text, kept in step when the origin is edited';
+COMMENT ON COLUMN provenance_events.place_id IS 'The artifact owner''s place for the location text';
@@ -0,0 +1,11 @@
+-- Migration: Let people share a name
+-- Description: Relatives are often named after each other, so a family tree can hold several
+-- people with the same name. People are no longer unique by name per owner; GEDCOM imports
+-- tell namesakes apart by their life dates (planGedcomImport in lib/utils/gedcom.ts). Places
+-- stay one record per name.
+-- Date: 2025-12-25
+
+DROP INDEX IF EXISTS idx_people_user_name;
+
+-- Still used to find people by name
+CREATE INDEX IF NOT EXISTS idx_people_user_name_lookup ON people(user_id, lower(name));
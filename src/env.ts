@@ -4,6 +4,9 @@
 
 import { z } from "zod"
 
+const AiProvider = z.enum(["openai", "openai-compatible", "fake"]).optional()
+const Quota = z.coerce.number().nonnegative().optional()
+
 const ServerEnvSchema = z.object({
   OPENAI_API_KEY: z.string().optional(),
   CLOUDINARY_CLOUD_NAME: z.string().optional(),
@@ -13,10 +16,39 @@ const ServerEnvSchema = z.object({
   NEXT_PUBLIC_SUPABASE_ANON_KEY: z.string().optional(),
   SUPABASE_SERVICE_ROLE_KEY: z.string().optional(),
   DATABASE_URL: z.string().optional(),
+  ANALYTICS_SALT: z.string().optional(),
+  AI_EMBEDDING_MODEL: z.string().optional(),
+  AI_MONTHLY_TOKEN_QUOTA: Quota,
+  AI_MONTHLY_AUDIO_MINUTES_QUOTA: Quota,
   AI_MODEL_VISION: z.string().optional(),
   AI_MODEL_TEXT: z.string().optional(),
   AI_TRANSCRIBE_MODEL: z.string().optional(),
   AI_MODEL_SUMMARY: z.string().optional(),
+  AI_MODEL_TRANSLATION: z.string().optional(),
+  NEXT_PUBLIC_MAP_TILE_URL: z.string().optional(),
+  NEXT_PUBLIC_MAP_ATTRIBUTION: z.string().optional(),
+  // AI provider, with per-capability overrides (see getAiProviderConfig in lib/ai.ts)
+  AI_PROVIDER: AiProvider,
+  AI_PROVIDER_VISION: AiProvider,
+  AI_PROVIDER_TEXT: AiProvider,
+  AI_PROVIDER_SUMMARY: AiProvider,
+  AI_PROVIDER_TRANSCRIPTION: AiProvider,
+  AI_PROVIDER_EMBEDDING: AiProvider,
+  AI_PROVIDER_TRANSLATION: AiProvider,
+  AI_BASE_URL: z.string().url().optional(),
+  AI_BASE_URL_VISION: z.string().url().optional(),
+  AI_BASE_URL_TEXT: z.string().url().optional(),
+  AI_BASE_URL_SUMMARY: z.string().url().optional(),
+  AI_BASE_URL_TRANSCRIPTION: z.string().url().optional(),
+  AI_BASE_URL_EMBEDDING: z.string().url().optional(),
+  AI_BASE_URL_TRANSLATION: z.string().url().optional(),
+  AI_API_KEY: z.string().optional(),
+  AI_API_KEY_VISION: z.string().optional(),
+  AI_API_KEY_TEXT: z.string().optional(),
+  AI_API_KEY_SUMMARY: z.string().optional(),
+  AI_API_KEY_TRANSCRIPTION: z.string().optional(),
+  AI_API_KEY_EMBEDDING: z.string().optional(),
+  AI_API_KEY_TRANSLATION: z.string().optional(),
 })
 
 // Parse and validate environment variables